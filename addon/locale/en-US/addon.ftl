@@ -6,7 +6,13 @@ menuitem-submenulabel0 = With abstracts
 menuitem-submenulabel1 = Without abstracts
 menuitem-submenulabel2 = Citation counts only
 menuitem-download-cache = Download references cache
+menuitem-export-cache = Export offline cache…
+menuitem-import-cache = Import offline cache…
+menuitem-offline-enable = Work offline
+menuitem-offline-disable = Go online
+menuitem-citation-inbox = New Citations Inbox…
 menuitem-citation-graph-merge = Combined Citation Graph…
+menuitem-library-network = Library Citation Network…
 menuitem-cancel-update = Cancel update
 
 download-cache-progress-title = Downloading references cache
@@ -32,6 +38,72 @@ download-cache-disabled = Enable local cache in Preferences → INSPIRE to use t
 download-cache-cancelled-title = Cache download cancelled
 download-cache-cancelled = Cached { $done } / { $total } items before cancellation
 
+cache-bundle-export-title = Export INSPIRE Offline Cache
+cache-bundle-import-title = Import INSPIRE Offline Cache
+cache-bundle-filter = INSPIRE cache bundle
+cache-bundle-exported =
+  { $count ->
+    [one] Exported 1 cache entry
+   *[other] Exported { $count } cache entries
+  }
+cache-bundle-export-empty = No cached data for the selected items. Run "Download references cache" first
+cache-bundle-export-failed = Failed to write the cache bundle
+cache-bundle-imported = Imported { $imported } cache entries ({ $skipped } newer locally, { $invalid } invalid)
+cache-bundle-import-failed = The file is not a valid INSPIRE cache bundle
+
+offline-mode-unavailable = Not available in offline mode. Choose "Go online" in the INSPIRE menu first
+offline-mode-queue-done =
+  { $count ->
+    [one] Back online: fetched 1 item requested while offline
+   *[other] Back online: fetched { $count } items requested while offline
+  }
+
+saved-search-alert =
+  { $count ->
+    [one] Saved search "{ $name }": 1 new result on INSPIRE
+   *[other] Saved search "{ $name }": { $count } new results on INSPIRE
+  }
+
+author-feed-alert =
+  { $count ->
+    [one] 1 new paper from favorite authors ({ $authors })
+   *[other] { $count } new papers from favorite authors ({ $authors })
+  }
+
+cache-browser-title = INSPIRE Cache Browser
+cache-browser-loading = Loading cache entries…
+cache-browser-empty = The local cache is empty.
+cache-browser-summary = { $count } entries, { $size }
+cache-browser-usage = Disk usage by type
+cache-browser-age = { $age }h ago
+cache-browser-ttl = TTL { $ttl }h
+cache-browser-ttl-permanent = Permanent
+cache-browser-expired = Expired
+cache-browser-complete = Complete
+cache-browser-incomplete = Incomplete
+cache-browser-refresh = Refresh
+cache-browser-delete = Delete
+cache-browser-pin = Pin as Permanent
+cache-browser-revalidate = Re-validate
+cache-browser-close = Close
+cache-browser-working = Working…
+cache-browser-refreshed = Refreshed { $count } entries ({ $failed } failed, { $skipped } cannot be refreshed)
+cache-browser-delete-confirm = Delete { $count } cache entries? They are fetched again from INSPIRE when needed.
+cache-browser-delete-confirm-offline = Delete { $count } cache entries? Offline mode is on: they cannot be fetched again until it is turned off.
+cache-browser-deleted = Deleted { $count } entries
+cache-browser-pinned = Pinned { $count } entries
+cache-browser-revalidated = { $valid } valid, { $removed } invalid entries removed
+cache-browser-type-refs = References
+cache-browser-type-cited = Cited by
+cache-browser-type-citation_graph = Citation graphs
+cache-browser-type-related = Related papers
+cache-browser-type-author = Author papers (panel)
+cache-browser-type-author_profile = Author profiles
+cache-browser-type-author_papers = Author papers
+cache-browser-type-crossref = CrossRef
+cache-browser-type-preprint = Preprint status
+cache-browser-type-preprintCandidates = Preprint candidates
+
 pane-item-references-header = INSPIRE References
     .label = INSPIRE References
 pane-item-references-sidenav = INSPIRE References
@@ -45,9 +117,9 @@ references-panel-tab-author-papers = Author
 references-panel-citation-graph-button = Citation Graph
 references-panel-citation-graph-tooltip = Show citation graph (click: open, right-click: expand)
 references-panel-citation-graph-title = Citation Graph
-references-panel-citation-graph-hint = Click to open · Right-click to expand · Cmd/Ctrl+click to add seed
+references-panel-citation-graph-hint = Click to open · Shift+click to expand · Alt+click two papers for a path · Right-click to open as graph · Cmd/Ctrl+click to add seed
 references-panel-citation-graph-title-multi = Citation Graph: { $count } Seeds
-references-panel-citation-graph-hint-multi = Click to open · Right-click to expand · Cmd/Ctrl+click to add seed
+references-panel-citation-graph-hint-multi = Click to open · Shift+click to expand · Alt+click two papers for a path · Right-click to open as graph · Cmd/Ctrl+click to add seed
 references-panel-citation-graph-back = Previous citation graph
 references-panel-citation-graph-back-tooltip = Go back to the previous citation graph
 references-panel-citation-graph-forward = Next citation graph
@@ -56,11 +128,34 @@ references-panel-citation-graph-close = Close
 references-panel-citation-graph-disabled-pdg = Citation graph is disabled for Review of Particle Physics (PDG)
 references-panel-citation-graph-add-seed = + Add Seed
 references-panel-citation-graph-seeds-title = Seeds ({ $count })
-references-panel-citation-graph-seeds-hint = Click × to remove · Cmd/Ctrl+click a node to add seed · Right-click a node to open as graph
+references-panel-citation-graph-seeds-hint = Click × to remove · Cmd/Ctrl+click a node to add seed · Shift+click a node to expand it · Right-click a node to open as graph
 references-panel-citation-graph-seed-remove = Remove seed
 references-panel-citation-graph-seed-already-added = Seed already added
 references-panel-citation-graph-nodes-label = Nodes
 references-panel-citation-graph-toggle-connections = Connections
+references-panel-citation-graph-layout = Layout
+references-panel-citation-graph-layout-tooltip = Arrange nodes by year, by force simulation or by citation cluster
+references-panel-citation-graph-layout-timeline = Timeline
+references-panel-citation-graph-layout-force = Force-directed
+references-panel-citation-graph-layout-clustered = Clustered
+references-panel-citation-graph-cluster-summary = Clusters: { $count } · Q = { $modularity }
+references-panel-citation-graph-cluster-unconnected = Unconnected
+references-panel-citation-graph-path = Path
+references-panel-citation-graph-path-tooltip = Find the shortest citation paths between two papers (or Alt+click two nodes)
+references-panel-citation-graph-path-title = Citation Path
+references-panel-citation-graph-path-pair = { $from } → { $to }
+references-panel-citation-graph-path-need-two = Alt+click two papers in the graph, or add a second seed, to find a citation path
+references-panel-citation-graph-path-start = Path start: { $title }. Alt+click another paper to find the path.
+references-panel-citation-graph-path-searching = Searching citations… { $explored }/{ $max } papers explored
+references-panel-citation-graph-path-found = Shortest paths: { $count } · { $steps } citation step(s)
+references-panel-citation-graph-path-none = No citation path within { $depth } steps.
+references-panel-citation-graph-path-limit = Search stopped after { $explored } papers.
+references-panel-citation-graph-path-failed = Citation path search failed. Check the network and try again.
+references-panel-citation-graph-path-cites = cites
+references-panel-citation-graph-path-cited-by = cited by
+references-panel-citation-graph-path-import = Import
+references-panel-citation-graph-path-in-library = In library
+references-panel-citation-graph-path-show = Show in Graph
 references-panel-citation-graph-toggle-reviews = Incl. reviews
 references-panel-citation-graph-toggle-reviews-exclude = Excl. reviews
 references-panel-citation-graph-toggle-reviews-tooltip = Include/exclude review articles (including PDG)
@@ -70,6 +165,10 @@ references-panel-citation-graph-connections-too-many = Too many nodes for connec
 references-panel-citation-graph-no-graph = No graph loaded
 references-panel-citation-graph-not-in-library = Paper "{ $title }" is not in your Zotero library. Use the hover preview to open in INSPIRE.
 references-panel-citation-graph-enrich-network-needed = Network needed to enrich citation graph. Showing cached results.
+references-panel-citation-graph-expanding = Expanding…
+references-panel-citation-graph-expanded-count = Expanded: { $count } (+{ $nodes })
+references-panel-citation-graph-expand-seed = Seeds already show their references and citing papers
+references-panel-citation-graph-expand-failed = Could not expand this paper. Check the network and try again.
 references-panel-citation-graph-add-seed-title = Add Seed Paper
 references-panel-citation-graph-add-seed-search-placeholder = Search INSPIRE...
 references-panel-citation-graph-add-seed-zotero-search-placeholder = Search Zotero...
@@ -94,6 +193,11 @@ references-panel-citation-graph-save-dir-failed = Unable to access Zotero data d
 references-panel-citation-graph-save-success = Saved
 references-panel-citation-graph-export-json = Export JSON (full data)…
 references-panel-citation-graph-export-csv = Export CSV (nodes)…
+references-panel-citation-graph-export-edges-csv = Export CSV (edges)…
+references-panel-citation-graph-export-graphml = Export GraphML…
+references-panel-citation-graph-export-gexf = Export GEXF (Gephi)…
+references-panel-citation-graph-export-dot = Export DOT (Graphviz)…
+references-panel-citation-graph-export-cytoscape = Export Cytoscape.js JSON…
 references-panel-citation-graph-export-svg = Export SVG…
 references-panel-citation-graph-export-png = Export PNG…
 references-panel-citation-graph-export-bibtex = Export BibTeX…
@@ -147,6 +251,7 @@ references-panel-favorite-removed = Removed from favorites
 references-panel-favorite-view = View all favorite authors
 references-panel-favorite-papers-title = Favorite Papers
 references-panel-favorite-papers-empty = No favorite papers yet. Right-click on an entry to add.
+references-panel-entry-citation-path = Find Citation Path from Current Paper
 references-panel-favorite-paper-add = Add paper to favorites
 references-panel-favorite-paper-remove = Remove paper from favorites
 references-panel-favorite-paper-added = Paper added to favorites
@@ -304,6 +409,7 @@ references-panel-button-open-pdf = Open PDF
 
 update-cancelled = Update cancelled by user
 update-cancelled-stats = Updated { $completed }/{ $total } items before cancellation
+update-resolving-identifiers = Looking up { $done } of { $total } identifiers on INSPIRE...
 
 zoteroinspire-refresh-button =
     .tooltiptext = Refresh INSPIRE data
@@ -356,6 +462,7 @@ references-panel-chart-published-only-tooltip = Filter: only show papers with jo
 # Rate limiter localization strings
 references-panel-rate-limit-tooltip = INSPIRE API rate limit status
 references-panel-rate-limit-queued = { $count } requests queued (rate limiting active)
+references-panel-rate-limit-retrying = Rate limited by INSPIRE, retrying…
 
 # Search feature localization strings
 references-panel-tab-search = 🔍
@@ -366,6 +473,60 @@ references-panel-search-clear-history = Clear search history
 references-panel-search-prompt = Enter a search query to search INSPIRE
 references-panel-search-empty = No results found for this search
 references-panel-search-label-default = Search results
+references-panel-search-advanced-tooltip = Advanced search…
+references-panel-search-error-unclosed-quote = Missing closing quote: { $token }
+references-panel-search-error-unbalanced-paren = Unbalanced parenthesis "{ $token }"
+references-panel-search-error-unknown-field = Unknown search field "{ $token }" (e.g. a, t, j, eprint, date, topcite, fulltext, refersto, citedby, cn)
+references-panel-search-error-missing-value = "{ $token }" needs a value
+references-panel-search-error-invalid-range = "{ $token }" is not a valid range (e.g. 2020, >2019, 2015->2020, 500+)
+references-panel-search-error-invalid-recid = "{ $token }" is not a record id (e.g. recid:451647)
+references-panel-search-error-dangling-operator = "{ $token }" is missing a search term
+references-panel-advanced-search-heading = Advanced INSPIRE Search
+references-panel-advanced-search-author = Authors (separate with ;)
+references-panel-advanced-search-title = Title
+references-panel-advanced-search-fulltext = Full text
+references-panel-advanced-search-journal = Journal
+references-panel-advanced-search-eprint = arXiv eprint
+references-panel-advanced-search-collaboration = Collaboration
+references-panel-advanced-search-date = Year
+references-panel-advanced-search-min-citations = Minimum citations
+references-panel-advanced-search-refersto = Cites record
+references-panel-advanced-search-citedby = Cited by record
+references-panel-advanced-search-match = Match
+references-panel-advanced-search-match-all = All fields
+references-panel-advanced-search-match-any = Any field
+references-panel-advanced-search-empty = Fill in at least one field
+references-panel-advanced-search-clear = Clear
+references-panel-advanced-search-cancel = Cancel
+references-panel-advanced-search-submit = Search
+references-panel-saved-search-title = Saved Searches
+references-panel-saved-search-empty-list = No pinned searches yet. Save a search with ☆ next to the search box.
+references-panel-saved-search-add-tooltip = Save this search
+references-panel-saved-search-remove-tooltip = Remove saved search "{ $name }"
+references-panel-saved-search-empty = Enter a search first
+references-panel-saved-search-prompt-title = Save Search
+references-panel-saved-search-prompt = Name for this search:
+references-panel-saved-search-added = Search saved
+references-panel-saved-search-removed = Saved search removed
+references-panel-saved-search-delete = Delete saved search
+references-panel-saved-search-pin = Pin to Favorites
+references-panel-saved-search-unpin = Unpin from Favorites
+references-panel-saved-search-alert-enable = Notify me of new results
+references-panel-saved-search-alert-disable = Stop notifying me of new results
+references-panel-saved-search-alert-on = You will be notified of new results for this search
+references-panel-saved-search-alert-off = Notifications for this search turned off
+references-panel-saved-search-new-count = { $count } new
+references-panel-saved-search-new = NEW
+references-panel-saved-search-new-tooltip = New since you last opened this saved search
+references-panel-saved-search-new-selected =
+  { $count ->
+    [one] 1 new result selected for import
+   *[other] { $count } new results selected for import
+  }
+references-panel-author-feed-title = New from favorites
+references-panel-author-feed-mark-all-read = Mark all as read
+references-panel-author-feed-mark-read = Mark as read
+references-panel-author-feed-open-author = Show this author's papers
 references-panel-status-loading-search = Searching INSPIRE...
 references-panel-count-search =
   { $count ->
@@ -380,6 +541,14 @@ references-panel-cache-source-api = From INSPIRE
 references-panel-cache-source-memory = From memory cache
 references-panel-cache-source-local = From local cache ({ $age }h ago)
 references-panel-cache-source-local-expired = From expired cache ({ $age }h ago) - offline mode
+references-panel-cache-source-offline = Offline: cached { $age }h ago
+references-panel-offline-indicator = Offline
+references-panel-offline-indicator-tooltip = Offline mode: INSPIRE is not contacted. Click to go online
+references-panel-offline-missing = Not in the local cache. It will be fetched when you go online.
+references-panel-offline-search = This search needs INSPIRE, which is not available in offline mode. Cached records can be searched by a, t, j, eprint, date and topcite.
+references-panel-search-source-local = from local cache
+references-panel-search-local-pending = { $count } cached results · searching INSPIRE…
+references-panel-search-local-fallback = INSPIRE is unavailable · { $count } results from local cache
 
 # Context menu copy actions
 menuitem-copy-bibtex = Copy BibTeX
@@ -531,6 +700,106 @@ preprint-results-published = Published
 preprint-results-unpublished = Unpublished
 preprint-results-errors = Errors
 
+# Scheduled citation refresh
+citation-refresh-menu-include = Include in Scheduled Citation Refresh
+citation-refresh-menu-exclude = Remove from Scheduled Citation Refresh
+citation-refresh-included = "{ $name }" will be covered by the scheduled citation refresh
+citation-refresh-excluded = "{ $name }" removed from the scheduled citation refresh
+
+# New citations inbox
+citation-inbox-menu-track = Track New Citations
+citation-inbox-menu-untrack = Stop Tracking New Citations
+citation-inbox-menu-track-collection = Track New Citations of This Collection
+citation-inbox-menu-untrack-collection = Stop Tracking New Citations of This Collection
+citation-inbox-tracked =
+  { $count ->
+    [one] New citations of 1 paper will be collected in the inbox
+   *[other] New citations of { $count } papers will be collected in the inbox
+  }
+citation-inbox-untracked =
+  { $count ->
+    [one] Stopped tracking new citations of 1 paper
+   *[other] Stopped tracking new citations of { $count } papers
+  }
+citation-inbox-collection-tracked = New citations of papers in "{ $name }" will be collected in the inbox
+citation-inbox-collection-untracked = Stopped tracking new citations of "{ $name }"
+citation-inbox-alert =
+  { $count ->
+    [one] 1 new citation of your papers. Open "New Citations Inbox" in the INSPIRE menu
+   *[other] { $count } new citations of { $papers } of your papers. Open "New Citations Inbox" in the INSPIRE menu
+  }
+citation-inbox-title = New Citations
+citation-inbox-loading = Loading inbox…
+citation-inbox-empty = No new citing papers. Track your papers with "Track New Citations" in the INSPIRE menu of items or collections, or set your INSPIRE author profile in Preferences.
+citation-inbox-show-read = Show read
+citation-inbox-check-now = Check now
+citation-inbox-checking = Checking tracked papers…
+citation-inbox-progress = Checking tracked papers… { $done }/{ $total }
+citation-inbox-checked = Checked { $checked } papers, { $count } new citing papers
+citation-inbox-mark-all-read = Mark all as read
+citation-inbox-mark-read = Mark as read
+citation-inbox-close = Close
+citation-inbox-group-count =
+  { $count ->
+    [one] 1 citing paper
+   *[other] { $count } citing papers
+  }
+citation-inbox-import = Import
+citation-inbox-import-tooltip = Add to Zotero next to the cited paper and link them as related items
+citation-inbox-link = Link
+citation-inbox-link-tooltip = Link to the cited paper as a related item
+citation-inbox-in-library = In library
+citation-inbox-show-item = Show in Zotero
+citation-inbox-linked = Linked "{ $title }"
+citation-inbox-not-found = Record not found on INSPIRE
+
+# Author dashboard
+author-dashboard-open = Author dashboard (bibliometrics and CSV export)
+author-dashboard-loading = Loading author statistics…
+author-dashboard-unavailable = Not available (offline or INSPIRE request failed)
+author-dashboard-summary = Summary
+author-dashboard-papers = Papers
+author-dashboard-citations = Citations
+author-dashboard-citations-no-self = Citations (no self)
+author-dashboard-h-index = h-index
+author-dashboard-i10-index = i10-index
+author-dashboard-g-index = g-index
+author-dashboard-citations-per-year = Citations per year
+author-dashboard-papers-per-year = Papers per year
+author-dashboard-authorship = Authorship
+author-dashboard-first-author = First author
+author-dashboard-single-author = Single author
+author-dashboard-small-group = 2–10 authors
+author-dashboard-collaboration = More than 10 authors
+author-dashboard-coauthors = Top co-authors
+author-dashboard-coauthors-note = Papers together, from recent papers with up to 10 authors
+author-dashboard-citing-institutions = Top citing institutions
+author-dashboard-citing-institutions-note = Citing papers with an author at the institution, from { $count } recent citing papers (up to 10 authors) of the most cited papers
+author-dashboard-arxiv-categories = arXiv categories
+author-dashboard-copy-csv = Copy CSV
+author-dashboard-export-csv = Export CSV…
+author-dashboard-export-title = Export Author Statistics
+author-dashboard-exported = Saved to { $path }
+author-dashboard-copied = CSV copied to clipboard
+author-dashboard-export-failed = Export failed
+author-dashboard-close = Close
+
+# Library citation network (citations among the items of a collection)
+library-network-title = Library Citation Network
+library-network-loading = Loading references… { $done }/{ $total }
+library-network-summary = { $items } items · { $citations } citations within the collection · { $isolated } isolated
+library-network-truncated = Only the first { $count } items with INSPIRE IDs are included.
+library-network-no-items = No items with INSPIRE IDs in this collection.
+library-network-failed = Could not build the citation network.
+library-network-ranking = Ranking (PageRank within the collection)
+library-network-isolated = Isolated
+library-network-isolated-count = Isolated ({ $count }): no citations to or from other items
+library-network-refs-missing = References unavailable
+library-network-cites = cites { $count }
+library-network-cited-by = cited by { $count }
+library-network-select-isolated = Select Isolated Items
+library-network-close = Close
+
 # Collaboration Tags feature (FTR-COLLAB-TAGS)
 collab-tag-menu-add = Add Collaboration Tags
 collab-tag-menu-reapply = Reapply Collaboration Tags
@@ -557,6 +826,28 @@ collab-tag-result =
 collab-tag-no-selection = Select at least one item to add collaboration tags
 collab-tag-disabled = Enable collaboration tags in Preferences → INSPIRE to use this feature
 
+# Undo journal for batch operations
+menuitem-undo-last-batch = Undo Last INSPIRE Batch
+undo-headline = INSPIRE Undo
+undo-kind-metadata-update = Metadata update
+undo-kind-preprint-upgrade = Preprint upgrade
+undo-kind-collab-tags = Collaboration tags
+undo-kind-trash = Move to trash (external)
+undo-kind-erase = Permanent delete (external)
+undo-confirm = Undo "{ $kind }" from { $date } ({ $count } items)? Fields edited since then are left unchanged.
+undo-nothing = No INSPIRE batch to undo
+undo-result = Restored { $restored } items{ $conflicts ->
+    [0] {""}
+   *[other] , { $conflicts } edited since (kept)
+  }{ $missing ->
+    [0] {""}
+   *[other] , { $missing } no longer exist
+  }{ $attachments ->
+    [0] {""}
+   *[other] , { $attachments } erased attachment files not restored
+  }
+undo-failed = Undo failed; see the debug output for details
+
 # Funding extraction - Main window menu
 menuitem-copy-funding = Copy Funding Info
 
@@ -37,6 +37,8 @@ extra-order-arxiv-first =
 pref-cites-column-exclude-self =
     .label = Cites column: exclude self-citations
 pref-cites-column-exclude-self-desc = Use citation counts without self-citations (when available). If the items list doesn't update, switch collections or restart Zotero.
+pref-cites-gained-days-label = Cites Δ column window (days):
+pref-cites-gained-days-desc = The Cites Δ column shows citations gained over this many days, based on the citation history recorded at each refresh (default: 30).
 
 pref-arxiv-in-journal-abbrev =
     .label = Legacy: write arXiv ID into Journal Abbr.
@@ -104,6 +106,12 @@ pref-local-cache-enable =
 pref-local-cache-enable-desc = Cache references and cited-by data to disk. Speeds up loading and enables offline browsing.
 pref-local-cache-show-source =
     .label = Show cache source indicator in panel
+pref-offline-mode =
+    .label = Offline mode (never contact INSPIRE or CrossRef)
+pref-offline-mode-desc = Serve everything from the local cache regardless of age. Data that is not cached is fetched when offline mode is turned off.
+pref-local-search-index =
+    .label = Search cached records locally
+pref-local-search-index-desc = Panel searches are answered from the records in the local cache: instantly while INSPIRE loads, and on their own offline. Supports author (a), title (t), journal (j), eprint, date and topcite.
 pref-local-cache-ttl-label = Cache expiry (cited-by data):
 pref-local-cache-ttl-unit = hours
 pref-local-cache-ttl-desc = How long to keep cited-by and author papers data. References are cached permanently.
@@ -116,16 +124,29 @@ pref-local-cache-dir-desc = Leave empty to use default location (Zotero Data Dir
 pref-local-cache-compression =
     .label = Compress cache files (gzip)
 pref-local-cache-compression-desc = Reduces disk usage by ~80% for large cache files. Recommended for users with many references.
+pref-local-cache-backend-label = Storage format:
+pref-local-cache-backend-pack =
+    .label = Single file (indexed)
+pref-local-cache-backend-files =
+    .label = One file per entry
+pref-local-cache-max-size-label = Size limit:
+pref-local-cache-max-size-unit = MB (0 = unlimited)
+pref-local-cache-backend-desc = The single-file format stays fast with tens of thousands of entries and removes the least recently used entries beyond the size limit. Existing cache files are moved into it automatically.
 pref-local-cache-enrich-title = Metadata enrichment
 pref-local-cache-enrich-desc = Controls how many INSPIRE records are fetched in parallel when completing reference metadata.
 pref-local-cache-enrich-batch-label = Batch size:
 pref-local-cache-enrich-parallel-label = Parallel requests:
 pref-local-cache-enrich-hint = Larger values are faster but may trigger INSPIRE errors (HTTP 502/400). Allowed range: 25–110 entries, 1–5 requests.
 pref-local-cache-enrich-info = Current: { $batch } entries / { $parallel } requests. Defaults: { $defaultBatch } entries / { $defaultParallel } requests.
+pref-rate-limit-active-mode =
+    .label = Pace INSPIRE requests proactively (token bucket)
+pref-rate-limit-active-mode-desc = Spreads requests over time to stay under the INSPIRE limit (15 requests / 5 s) instead of waiting for "429 Too Many Requests". Panel loads go ahead of background jobs such as cache download, citation refresh and related papers.
 pref-local-cache-clear =
     .label = Clear Cache
-pref-local-cache-cleared = Cache cleared ({ $count } files)
-pref-local-cache-stats = { $count } files, { $size }
+pref-local-cache-cleared = Cache cleared ({ $count } entries)
+pref-local-cache-browse =
+    .label = Browse Cache…
+pref-local-cache-stats = { $count } entries, { $size }
 
 pref-smart-update = Smart Update
 pref-smart-update-enable =
@@ -163,6 +184,40 @@ pref-preprint-watch-notify =
     .label = Show notification when publications found
 pref-preprint-watch-notify-desc = Display a notification when preprints are found to have been published.
 
+pref-citation-refresh = Scheduled Citation Refresh
+pref-citation-refresh-enable =
+    .label = Refresh citation counts in the background
+pref-citation-refresh-enable-desc = Periodically updates INSPIRE citation counts for items that have an INSPIRE record, fetching up to 50 records per request. An interrupted run continues where it stopped after the next start.
+pref-citation-refresh-interval-label = Refresh every (days):
+pref-citation-refresh-scope-desc = Covers the whole library unless collections are added via the collection context menu (INSPIRE → Include in Scheduled Citation Refresh).
+pref-citation-refresh-run =
+    .label = Run Now
+pref-citation-refresh-status-never = Not run yet
+pref-citation-refresh-status-last = Last completed: { $date }
+pref-citation-refresh-status-pending = Unfinished run: { $checked } items checked so far
+pref-citation-refresh-status-running = Refreshing…
+pref-citation-refresh-status-done = Done: { $checked } checked, { $updated } updated
+pref-citation-refresh-status-stopped = Stopped after { $checked } items; will resume later
+pref-saved-search-alerts = Saved Search Alerts
+pref-saved-search-alerts-enable =
+    .label = Check saved searches for new INSPIRE results
+pref-saved-search-alerts-enable-desc = Saved searches with notifications turned on (🔔 in the search history or the Favorites tab) are re-run in the background, and new results are announced and marked in the result list.
+pref-saved-search-interval-label = Check every (hours):
+pref-author-feed = Favorite Author Feed
+pref-author-feed-enable =
+    .label = Check favorite authors for new papers
+pref-author-feed-enable-desc = Favorite authors are checked in the background for papers newer than the previous check. New papers are announced and listed under "New from favorites" in the Favorites tab until marked as read.
+pref-author-feed-interval-label = Check every (hours):
+pref-citation-inbox = New Citations Inbox
+pref-citation-inbox-enable =
+    .label = Check my papers for new citing papers
+pref-citation-inbox-enable-desc = Tracked papers are re-checked in the background and citing papers that were not in their cached cited-by list are collected in the inbox, grouped by the cited paper. Track papers with "Track New Citations" in the INSPIRE menu of items or collections.
+pref-citation-inbox-interval-label = Check every (hours):
+pref-citation-inbox-author-label = My INSPIRE author profile:
+pref-citation-inbox-author-desc = BAI (e.g. E.Witten.1) or author record id. The newest 250 papers of this profile are tracked as well.
+pref-citation-inbox-open =
+    .label = Open Inbox…
+
 pref-collab-tags = Collaboration Tags
 pref-collab-tag-enable =
     .label = Enable collaboration tags
@@ -178,6 +233,35 @@ pref-funding-china-only =
     .label = Extract only Chinese funding agencies
 pref-funding-china-only-desc = When enabled, only extract funding info from Chinese agencies (NSFC, CAS, MoST, etc.). Disable to extract all funders including DOE, NSF, ERC, etc.
 
+pref-external-access = External Access Tokens
+pref-external-access-desc = Tokens let trusted local tools (e.g. an MCP server) call the plugin's connector endpoints. A token only grants its listed scopes; revoke it to cut off the tool using it.
+pref-external-token-name-label = Name:
+pref-external-token-preset-full =
+    .label = Full access
+pref-external-token-preset-no-erase =
+    .label = Everything except permanent delete
+pref-external-token-preset-read-only =
+    .label = Read-only (query, events)
+pref-external-token-preset-attach-only =
+    .label = Attach files only
+pref-external-token-create =
+    .label = Create Token
+pref-external-token-copy = Copy
+pref-external-token-revoke = Revoke
+pref-external-token-regenerate = Regenerate
+pref-external-token-default-name = Default (pref external_token)
+pref-external-token-scopes = Scopes: { $scopes }
+pref-external-token-meta = Created { $created } · Last used { $lastUsed }
+pref-external-token-never = never
+pref-external-token-unknown = unknown
+pref-external-token-none = No active tokens.
+pref-external-token-created = Token "{ $name }" created and copied to the clipboard.
+pref-external-token-revoke-confirm = Revoke token "{ $name }"? Tools using it lose access immediately.
+pref-external-audit-open =
+    .label = Open Audit Log
+pref-external-audit-summary = { $count } write operations in the current log
+pref-external-audit-desc = Every write operation (attach, update, import, trash, erase), including rejected ones, is logged with the token that issued it.
+
 pref-dev = Developer
 pref-dev-panel-layout =
     .label = Enable panel layout debug (Citing…)
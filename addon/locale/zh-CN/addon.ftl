@@ -6,6 +6,12 @@ menuitem-submenulabel0 = 包含摘要
 menuitem-submenulabel1 = 不含摘要
 menuitem-submenulabel2 = 仅引用次数
 menuitem-download-cache = 下载引用缓存
+menuitem-export-cache = 导出离线缓存…
+menuitem-import-cache = 导入离线缓存…
+menuitem-offline-enable = 离线工作
+menuitem-offline-disable = 恢复联网
+menuitem-citation-inbox = 新引用收件箱…
+menuitem-library-network = 文献库引用网络…
 menuitem-cancel-update = 取消更新
 
 download-cache-progress-title = 正在下载引用缓存
@@ -31,6 +37,56 @@ download-cache-disabled = 请在「首选项 → INSPIRE」中启用本地缓存
 download-cache-cancelled-title = 缓存下载已取消
 download-cache-cancelled = 取消前已缓存 { $done } / { $total } 条
 
+cache-bundle-export-title = 导出 INSPIRE 离线缓存
+cache-bundle-import-title = 导入 INSPIRE 离线缓存
+cache-bundle-filter = INSPIRE 缓存包
+cache-bundle-exported = 已导出 { $count } 条缓存
+cache-bundle-export-empty = 所选条目没有缓存数据，请先运行「下载引用缓存」
+cache-bundle-export-failed = 写入缓存包失败
+cache-bundle-imported = 已导入 { $imported } 条缓存（{ $skipped } 条本地较新，{ $invalid } 条无效）
+cache-bundle-import-failed = 该文件不是有效的 INSPIRE 缓存包
+
+offline-mode-unavailable = 离线模式下不可用，请先在 INSPIRE 菜单中选择"恢复联网"
+offline-mode-queue-done = 已恢复联网：已获取离线期间请求的 { $count } 项数据
+
+saved-search-alert = 已保存的搜索 "{ $name }"：INSPIRE 上有 { $count } 条新结果
+
+author-feed-alert = 收藏作者有 { $count } 篇新论文（{ $authors }）
+
+cache-browser-title = INSPIRE 缓存浏览器
+cache-browser-loading = 正在加载缓存条目…
+cache-browser-empty = 本地缓存为空。
+cache-browser-summary = { $count } 个条目，{ $size }
+cache-browser-usage = 按类型的磁盘占用
+cache-browser-age = { $age } 小时前
+cache-browser-ttl = 有效期 { $ttl } 小时
+cache-browser-ttl-permanent = 永久
+cache-browser-expired = 已过期
+cache-browser-complete = 完整
+cache-browser-incomplete = 不完整
+cache-browser-refresh = 刷新
+cache-browser-delete = 删除
+cache-browser-pin = 设为永久
+cache-browser-revalidate = 重新校验
+cache-browser-close = 关闭
+cache-browser-working = 处理中…
+cache-browser-refreshed = 已刷新 { $count } 个条目（{ $failed } 个失败，{ $skipped } 个无法刷新）
+cache-browser-delete-confirm = 删除 { $count } 个缓存条目？需要时会重新从 INSPIRE 获取。
+cache-browser-delete-confirm-offline = 删除 { $count } 个缓存条目？离线模式已开启：关闭离线模式前无法重新获取这些条目。
+cache-browser-deleted = 已删除 { $count } 个条目
+cache-browser-pinned = 已将 { $count } 个条目设为永久
+cache-browser-revalidated = { $valid } 个有效，已移除 { $removed } 个无效条目
+cache-browser-type-refs = 参考文献
+cache-browser-type-cited = 被引
+cache-browser-type-citation_graph = 引用图
+cache-browser-type-related = 相关论文
+cache-browser-type-author = 作者论文（面板）
+cache-browser-type-author_profile = 作者资料
+cache-browser-type-author_papers = 作者论文
+cache-browser-type-crossref = CrossRef
+cache-browser-type-preprint = 预印本状态
+cache-browser-type-preprintCandidates = 预印本候选
+
 pane-item-references-header = INSPIRE 引用
     .label = INSPIRE 引用
 pane-item-references-sidenav = INSPIRE 引用
@@ -44,9 +100,9 @@ references-panel-tab-author-papers = 作者
 references-panel-citation-graph-button = 引用关系图
 references-panel-citation-graph-tooltip = 显示引用关系图（左键打开，右键展开）
 references-panel-citation-graph-title = 引用关系图
-references-panel-citation-graph-hint = 左键打开 · 右键展开 · Cmd/Ctrl+左键添加种子
+references-panel-citation-graph-hint = 左键打开 · Shift+左键展开节点 · Alt+左键点击两篇论文查找路径 · 右键打开为新图 · Cmd/Ctrl+左键添加种子
 references-panel-citation-graph-title-multi = 引用关系图：{ $count } 个种子
-references-panel-citation-graph-hint-multi = 左键打开 · 右键展开 · Cmd/Ctrl+左键添加种子
+references-panel-citation-graph-hint-multi = 左键打开 · Shift+左键展开节点 · Alt+左键点击两篇论文查找路径 · 右键打开为新图 · Cmd/Ctrl+左键添加种子
 references-panel-citation-graph-back = 上一个引用关系图
 references-panel-citation-graph-back-tooltip = 返回上一个引用关系图
 references-panel-citation-graph-forward = 下一个引用关系图
@@ -55,11 +111,34 @@ references-panel-citation-graph-close = 关闭
 references-panel-citation-graph-disabled-pdg = 已为 PDG《Review of Particle Physics》禁用引用关系图
 references-panel-citation-graph-add-seed = + 添加种子
 references-panel-citation-graph-seeds-title = 种子（{ $count }）
-references-panel-citation-graph-seeds-hint = 点击 × 移除 · Cmd/Ctrl+左键节点添加种子 · 右键节点打开为新图
+references-panel-citation-graph-seeds-hint = 点击 × 移除 · Cmd/Ctrl+左键节点添加种子 · Shift+左键节点展开 · 右键节点打开为新图
 references-panel-citation-graph-seed-remove = 移除种子
 references-panel-citation-graph-seed-already-added = 该种子已添加
 references-panel-citation-graph-nodes-label = 节点
 references-panel-citation-graph-toggle-connections = 连接
+references-panel-citation-graph-layout = 布局
+references-panel-citation-graph-layout-tooltip = 按年份、力导向模拟或引用聚类排列节点
+references-panel-citation-graph-layout-timeline = 时间线
+references-panel-citation-graph-layout-force = 力导向
+references-panel-citation-graph-layout-clustered = 聚类
+references-panel-citation-graph-cluster-summary = 聚类：{ $count } · Q = { $modularity }
+references-panel-citation-graph-cluster-unconnected = 无连接
+references-panel-citation-graph-path = 路径
+references-panel-citation-graph-path-tooltip = 查找两篇论文之间的最短引用路径（或 Alt+左键点击两个节点）
+references-panel-citation-graph-path-title = 引用路径
+references-panel-citation-graph-path-pair = { $from } → { $to }
+references-panel-citation-graph-path-need-two = 在图中 Alt+左键点击两篇论文，或添加第二个种子，以查找引用路径
+references-panel-citation-graph-path-start = 路径起点：{ $title }。Alt+左键点击另一篇论文以查找路径。
+references-panel-citation-graph-path-searching = 正在搜索引用… 已探索 { $explored }/{ $max } 篇论文
+references-panel-citation-graph-path-found = 最短路径：{ $count } 条 · { $steps } 步引用
+references-panel-citation-graph-path-none = { $depth } 步内没有引用路径。
+references-panel-citation-graph-path-limit = 已探索 { $explored } 篇论文后停止搜索。
+references-panel-citation-graph-path-failed = 引用路径搜索失败，请检查网络后重试。
+references-panel-citation-graph-path-cites = 引用
+references-panel-citation-graph-path-cited-by = 被引用
+references-panel-citation-graph-path-import = 导入
+references-panel-citation-graph-path-in-library = 已在文献库
+references-panel-citation-graph-path-show = 在图中显示
 references-panel-citation-graph-toggle-reviews = 含综述
 references-panel-citation-graph-toggle-reviews-exclude = 不含综述
 references-panel-citation-graph-toggle-reviews-tooltip = 切换是否包含综述/PDG
@@ -69,6 +148,10 @@ references-panel-citation-graph-connections-too-many = 节点过多无法计算
 references-panel-citation-graph-no-graph = 尚未加载引用关系图
 references-panel-citation-graph-not-in-library = 论文“{ $title }”不在你的 Zotero 库中。请使用悬停预览在 INSPIRE 中打开。
 references-panel-citation-graph-enrich-network-needed = 需要联网才能补全引用关系图；当前显示的是缓存结果。
+references-panel-citation-graph-expanding = 正在展开…
+references-panel-citation-graph-expanded-count = 已展开：{ $count }（+{ $nodes }）
+references-panel-citation-graph-expand-seed = 种子已显示其参考文献和施引文献
+references-panel-citation-graph-expand-failed = 无法展开该论文，请检查网络后重试。
 references-panel-citation-graph-add-seed-title = 添加种子论文
 references-panel-citation-graph-add-seed-search-placeholder = 搜索 INSPIRE…
 references-panel-citation-graph-add-seed-zotero-search-placeholder = 搜索 Zotero…
@@ -93,6 +176,11 @@ references-panel-citation-graph-save-dir-failed = 无法访问 Zotero 数据目
 references-panel-citation-graph-save-success = 已保存
 references-panel-citation-graph-export-json = 导出 JSON（完整数据）…
 references-panel-citation-graph-export-csv = 导出 CSV（节点）…
+references-panel-citation-graph-export-edges-csv = 导出 CSV（边）…
+references-panel-citation-graph-export-graphml = 导出 GraphML…
+references-panel-citation-graph-export-gexf = 导出 GEXF（Gephi）…
+references-panel-citation-graph-export-dot = 导出 DOT（Graphviz）…
+references-panel-citation-graph-export-cytoscape = 导出 Cytoscape.js JSON…
 references-panel-citation-graph-export-svg = 导出 SVG…
 references-panel-citation-graph-export-png = 导出 PNG…
 references-panel-citation-graph-export-bibtex = 导出 BibTeX…
@@ -146,6 +234,7 @@ references-panel-favorite-removed = 已从收藏中移除
 references-panel-favorite-view = 查看所有收藏的作者
 references-panel-favorite-papers-title = 收藏的论文
 references-panel-favorite-papers-empty = 暂无收藏的论文。右键点击条目添加。
+references-panel-entry-citation-path = 查找与当前论文的引用路径
 references-panel-favorite-paper-add = 收藏论文
 references-panel-favorite-paper-remove = 取消收藏论文
 references-panel-favorite-paper-added = 论文已收藏
@@ -299,6 +388,7 @@ references-panel-button-open-pdf = 打开 PDF
 
 update-cancelled = 用户取消更新
 update-cancelled-stats = 取消前已更新 { $completed }/{ $total } 条
+update-resolving-identifiers = 正在 INSPIRE 上查询标识符 { $done }/{ $total }...
 
 zoteroinspire-refresh-button =
     .tooltiptext = 刷新 INSPIRE 数据
@@ -353,6 +443,7 @@ references-panel-chart-filtered = 已筛选
 # 速率限制本地化字符串
 references-panel-rate-limit-tooltip = INSPIRE API 速率限制状态
 references-panel-rate-limit-queued = { $count } 个请求排队中（速率限制生效）
+references-panel-rate-limit-retrying = INSPIRE 限流，正在重试…
 
 # 搜索功能本地化字符串
 references-panel-tab-search = 🔍
@@ -363,6 +454,56 @@ references-panel-search-clear-history = 清除搜索历史
 references-panel-search-prompt = 输入搜索查询以搜索 INSPIRE
 references-panel-search-empty = 未找到搜索结果
 references-panel-search-label-default = 搜索结果
+references-panel-search-advanced-tooltip = 高级搜索…
+references-panel-search-error-unclosed-quote = 缺少右引号：{ $token }
+references-panel-search-error-unbalanced-paren = 括号不匹配 "{ $token }"
+references-panel-search-error-unknown-field = 未知的搜索字段 "{ $token }"（例如 a、t、j、eprint、date、topcite、fulltext、refersto、citedby、cn）
+references-panel-search-error-missing-value = "{ $token }" 缺少取值
+references-panel-search-error-invalid-range = "{ $token }" 不是有效的范围（例如 2020、>2019、2015->2020、500+）
+references-panel-search-error-invalid-recid = "{ $token }" 不是记录号（例如 recid:451647）
+references-panel-search-error-dangling-operator = "{ $token }" 缺少搜索条件
+references-panel-advanced-search-heading = INSPIRE 高级搜索
+references-panel-advanced-search-author = 作者（用 ; 分隔）
+references-panel-advanced-search-title = 标题
+references-panel-advanced-search-fulltext = 全文
+references-panel-advanced-search-journal = 期刊
+references-panel-advanced-search-eprint = arXiv 预印本
+references-panel-advanced-search-collaboration = 合作组
+references-panel-advanced-search-date = 年份
+references-panel-advanced-search-min-citations = 最少引用数
+references-panel-advanced-search-refersto = 引用了记录
+references-panel-advanced-search-citedby = 被记录引用
+references-panel-advanced-search-match = 匹配
+references-panel-advanced-search-match-all = 全部字段
+references-panel-advanced-search-match-any = 任一字段
+references-panel-advanced-search-empty = 请至少填写一个字段
+references-panel-advanced-search-clear = 清空
+references-panel-advanced-search-cancel = 取消
+references-panel-advanced-search-submit = 搜索
+references-panel-saved-search-title = 已保存的搜索
+references-panel-saved-search-empty-list = 暂无固定的搜索。点击搜索框旁的 ☆ 保存搜索。
+references-panel-saved-search-add-tooltip = 保存此搜索
+references-panel-saved-search-remove-tooltip = 删除已保存的搜索 "{ $name }"
+references-panel-saved-search-empty = 请先输入搜索内容
+references-panel-saved-search-prompt-title = 保存搜索
+references-panel-saved-search-prompt = 此搜索的名称：
+references-panel-saved-search-added = 搜索已保存
+references-panel-saved-search-removed = 已删除保存的搜索
+references-panel-saved-search-delete = 删除保存的搜索
+references-panel-saved-search-pin = 固定到收藏夹
+references-panel-saved-search-unpin = 从收藏夹取消固定
+references-panel-saved-search-alert-enable = 有新结果时通知我
+references-panel-saved-search-alert-disable = 不再通知新结果
+references-panel-saved-search-alert-on = 此搜索有新结果时将通知您
+references-panel-saved-search-alert-off = 已关闭此搜索的通知
+references-panel-saved-search-new-count = { $count } 条新结果
+references-panel-saved-search-new = 新
+references-panel-saved-search-new-tooltip = 自上次打开此搜索以来的新结果
+references-panel-saved-search-new-selected = 已选中 { $count } 条新结果，可批量导入
+references-panel-author-feed-title = 收藏作者新论文
+references-panel-author-feed-mark-all-read = 全部标为已读
+references-panel-author-feed-mark-read = 标为已读
+references-panel-author-feed-open-author = 查看该作者的论文
 references-panel-status-loading-search = 正在搜索 INSPIRE...
 references-panel-count-search =
   { $count ->
@@ -377,6 +518,14 @@ references-panel-cache-source-api = 来自 INSPIRE
 references-panel-cache-source-memory = 来自内存缓存
 references-panel-cache-source-local = 来自本地缓存（{ $age } 小时前）
 references-panel-cache-source-local-expired = 来自过期缓存（{ $age } 小时前）- 离线模式
+references-panel-cache-source-offline = 离线：缓存于 { $age } 小时前
+references-panel-offline-indicator = 离线
+references-panel-offline-indicator-tooltip = 离线模式：不访问 INSPIRE。点击恢复联网
+references-panel-offline-missing = 本地缓存中没有此数据，恢复联网后将自动获取。
+references-panel-offline-search = 此搜索需要访问 INSPIRE，离线模式下不可用。缓存的记录可按 a、t、j、eprint、date 和 topcite 搜索。
+references-panel-search-source-local = 来自本地缓存
+references-panel-search-local-pending = { $count } 条缓存结果 · 正在搜索 INSPIRE…
+references-panel-search-local-fallback = 无法访问 INSPIRE · 来自本地缓存的 { $count } 条结果
 
 # 右键菜单复制操作
 menuitem-copy-bibtex = 复制 BibTeX
@@ -525,6 +674,90 @@ preprint-results-published = 已发表
 preprint-results-unpublished = 未发表
 preprint-results-errors = 错误
 
+# Scheduled citation refresh
+citation-refresh-menu-include = 加入定时引用数刷新
+citation-refresh-menu-exclude = 移出定时引用数刷新
+citation-refresh-included = 定时引用数刷新将包含“{ $name }”
+citation-refresh-excluded = 已将“{ $name }”移出定时引用数刷新
+
+# New citations inbox
+citation-inbox-menu-track = 跟踪新引用
+citation-inbox-menu-untrack = 停止跟踪新引用
+citation-inbox-menu-track-collection = 跟踪此分类的新引用
+citation-inbox-menu-untrack-collection = 停止跟踪此分类的新引用
+citation-inbox-tracked = 将在收件箱中收集 { $count } 篇论文的新引用
+citation-inbox-untracked = 已停止跟踪 { $count } 篇论文的新引用
+citation-inbox-collection-tracked = 将在收件箱中收集“{ $name }”中论文的新引用
+citation-inbox-collection-untracked = 已停止跟踪“{ $name }”的新引用
+citation-inbox-alert = 你的 { $papers } 篇论文有 { $count } 条新引用，请在 INSPIRE 菜单中打开“新引用收件箱”
+citation-inbox-title = 新引用
+citation-inbox-loading = 正在加载收件箱…
+citation-inbox-empty = 暂无新的施引论文。可在条目或分类的 INSPIRE 菜单中选择“跟踪新引用”，或在设置中填写你的 INSPIRE 作者档案。
+citation-inbox-show-read = 显示已读
+citation-inbox-check-now = 立即检查
+citation-inbox-checking = 正在检查跟踪的论文…
+citation-inbox-progress = 正在检查跟踪的论文… { $done }/{ $total }
+citation-inbox-checked = 已检查 { $checked } 篇论文，发现 { $count } 篇新的施引论文
+citation-inbox-mark-all-read = 全部标为已读
+citation-inbox-mark-read = 标为已读
+citation-inbox-close = 关闭
+citation-inbox-group-count = { $count } 篇施引论文
+citation-inbox-import = 导入
+citation-inbox-import-tooltip = 添加到被引论文所在的位置，并互相关联
+citation-inbox-link = 关联
+citation-inbox-link-tooltip = 将其与被引论文关联为相关条目
+citation-inbox-in-library = 已在文库中
+citation-inbox-show-item = 在 Zotero 中显示
+citation-inbox-linked = 已关联“{ $title }”
+citation-inbox-not-found = INSPIRE 上未找到该记录
+
+# Author dashboard
+author-dashboard-open = 作者统计面板（文献计量与 CSV 导出）
+author-dashboard-loading = 正在加载作者统计…
+author-dashboard-unavailable = 不可用（离线或 INSPIRE 请求失败）
+author-dashboard-summary = 概览
+author-dashboard-papers = 论文
+author-dashboard-citations = 引用
+author-dashboard-citations-no-self = 引用（不含自引）
+author-dashboard-h-index = h 指数
+author-dashboard-i10-index = i10 指数
+author-dashboard-g-index = g 指数
+author-dashboard-citations-per-year = 每年引用
+author-dashboard-papers-per-year = 每年论文
+author-dashboard-authorship = 作者身份
+author-dashboard-first-author = 第一作者
+author-dashboard-single-author = 单作者
+author-dashboard-small-group = 2–10 位作者
+author-dashboard-collaboration = 10 位以上作者
+author-dashboard-coauthors = 主要合作者
+author-dashboard-coauthors-note = 合作论文数，统计自最近的作者数不超过 10 人的论文
+author-dashboard-citing-institutions = 主要施引机构
+author-dashboard-citing-institutions-note = 有作者来自该机构的施引论文数，统计自高被引论文最近的 { $count } 篇施引论文（作者数不超过 10 人）
+author-dashboard-arxiv-categories = arXiv 分类
+author-dashboard-copy-csv = 复制 CSV
+author-dashboard-export-csv = 导出 CSV…
+author-dashboard-export-title = 导出作者统计
+author-dashboard-exported = 已保存到 { $path }
+author-dashboard-copied = 已复制 CSV 到剪贴板
+author-dashboard-export-failed = 导出失败
+author-dashboard-close = 关闭
+
+# Library citation network (citations among the items of a collection)
+library-network-title = 文献库引用网络
+library-network-loading = 正在加载参考文献… { $done }/{ $total }
+library-network-summary = { $items } 篇条目 · 分类内 { $citations } 条引用 · { $isolated } 篇孤立
+library-network-truncated = 仅包含前 { $count } 篇带 INSPIRE ID 的条目。
+library-network-no-items = 该分类中没有带 INSPIRE ID 的条目。
+library-network-failed = 无法构建引用网络。
+library-network-ranking = 排名（分类内 PageRank）
+library-network-isolated = 孤立
+library-network-isolated-count = 孤立（{ $count }）：与其他条目之间没有引用
+library-network-refs-missing = 参考文献不可用
+library-network-cites = 引用 { $count }
+library-network-cited-by = 被引 { $count }
+library-network-select-isolated = 选中孤立条目
+library-network-close = 关闭
+
 # Collaboration Tags feature (FTR-COLLAB-TAGS)
 collab-tag-menu-add = 添加合作组标签
 collab-tag-menu-reapply = 重新应用合作组标签
@@ -551,6 +784,28 @@ collab-tag-result =
 collab-tag-no-selection = 请至少选择一个条目以添加合作组标签
 collab-tag-disabled = 请在 首选项 → INSPIRE 中启用合作组标签功能
 
+# 批量操作撤销日志
+menuitem-undo-last-batch = 撤销上一次 INSPIRE 批量操作
+undo-headline = INSPIRE 撤销
+undo-kind-metadata-update = 元数据更新
+undo-kind-preprint-upgrade = 预印本升级
+undo-kind-collab-tags = 合作组标签
+undo-kind-trash = 移到回收站（外部）
+undo-kind-erase = 永久删除（外部）
+undo-confirm = 撤销 { $date } 的“{ $kind }”（{ $count } 个条目）？此后已编辑的字段将保持不变。
+undo-nothing = 没有可撤销的 INSPIRE 批量操作
+undo-result = 已恢复 { $restored } 个条目{ $conflicts ->
+    [0] {""}
+   *[other] ，{ $conflicts } 处此后已编辑（保留）
+  }{ $missing ->
+    [0] {""}
+   *[other] ，{ $missing } 个已不存在
+  }{ $attachments ->
+    [0] {""}
+   *[other] ，{ $attachments } 个已删除的附件文件未恢复
+  }
+undo-failed = 撤销失败，详情请查看调试输出
+
 # 基金信息提取 - 主窗口菜单
 menuitem-copy-funding = 复制基金信息
 
@@ -37,6 +37,8 @@ extra-order-arxiv-first =
 pref-cites-column-exclude-self =
     .label = Cites 列：不含自引
 pref-cites-column-exclude-self-desc = 在可用时使用不含自引的引用次数。若主列表未刷新，可切换集合或重启 Zotero。
+pref-cites-gained-days-label = Cites Δ 列统计窗口（天）：
+pref-cites-gained-days-desc = Cites Δ 列显示最近这些天内新增的引用数，依据每次刷新时记录的引用历史（默认：30）。
 
 pref-arxiv-in-journal-abbrev =
     .label = （兼容）将 arXiv 号写入 Journal Abbr.
@@ -104,6 +106,12 @@ pref-local-cache-enable =
 pref-local-cache-enable-desc = 将引用和被引数据缓存到磁盘。加快加载速度并支持离线浏览。
 pref-local-cache-show-source =
     .label = 在面板中显示缓存来源指示器
+pref-offline-mode =
+    .label = 离线模式（不访问 INSPIRE 和 CrossRef）
+pref-offline-mode-desc = 所有数据均从本地缓存读取，不论缓存时间。未缓存的数据将在关闭离线模式后自动获取。
+pref-local-search-index =
+    .label = 在本地缓存记录中搜索
+pref-local-search-index-desc = 面板搜索会先从本地缓存的记录中给出结果：联网时在 INSPIRE 返回前即时显示，离线时单独使用。支持作者 (a)、标题 (t)、期刊 (j)、eprint、date 和 topcite。
 pref-local-cache-ttl-label = 缓存过期时间（被引数据）：
 pref-local-cache-ttl-unit = 小时
 pref-local-cache-ttl-desc = 被引和作者论文数据的保留时间。引用数据永久缓存。
@@ -116,16 +124,29 @@ pref-local-cache-dir-desc = 留空则使用默认位置（Zotero 数据目录）
 pref-local-cache-compression =
     .label = 压缩缓存文件（gzip）
 pref-local-cache-compression-desc = 对大型缓存文件减少约 80% 的磁盘使用。建议引用较多的用户启用。
+pref-local-cache-backend-label = 存储格式：
+pref-local-cache-backend-pack =
+    .label = 单文件（带索引）
+pref-local-cache-backend-files =
+    .label = 每条目一个文件
+pref-local-cache-max-size-label = 大小上限：
+pref-local-cache-max-size-unit = MB（0 = 不限）
+pref-local-cache-backend-desc = 单文件格式在数万条缓存时依然快速，超出大小上限时会删除最久未使用的条目。现有缓存文件会自动迁移到其中。
 pref-local-cache-enrich-title = 元数据补全
 pref-local-cache-enrich-desc = 控制补全引用元数据时并行获取的 INSPIRE 记录数量。
 pref-local-cache-enrich-batch-label = 批量大小：
 pref-local-cache-enrich-parallel-label = 并行请求：
 pref-local-cache-enrich-hint = 较大的值更快但可能触发 INSPIRE 错误（HTTP 502/400）。允许范围：25-110 条，1-5 个请求。
 pref-local-cache-enrich-info = 当前：{ $batch } 条 / { $parallel } 个请求。默认值：{ $defaultBatch } 条 / { $defaultParallel } 个请求。
+pref-rate-limit-active-mode =
+    .label = 主动控制 INSPIRE 请求速率（令牌桶）
+pref-rate-limit-active-mode-desc = 按时间分散请求以保持在 INSPIRE 限制（每 5 秒 15 个请求）之内，而不是等到出现“429 Too Many Requests”。面板加载优先于缓存下载、引用数刷新、相关论文等后台任务。
 pref-local-cache-clear =
     .label = 清除缓存
-pref-local-cache-cleared = 缓存已清除（{ $count } 个文件）
-pref-local-cache-stats = { $count } 个文件，{ $size }
+pref-local-cache-cleared = 缓存已清除（{ $count } 个条目）
+pref-local-cache-browse =
+    .label = 浏览缓存…
+pref-local-cache-stats = { $count } 个条目，{ $size }
 
 pref-smart-update = 智能更新
 pref-smart-update-enable =
@@ -163,6 +184,40 @@ pref-preprint-watch-notify =
     .label = 发现已发表时显示通知
 pref-preprint-watch-notify-desc = 当发现预印本已正式发表时显示通知。
 
+pref-citation-refresh = 定时刷新引用数
+pref-citation-refresh-enable =
+    .label = 在后台定期刷新引用数
+pref-citation-refresh-enable-desc = 定期更新有 INSPIRE 记录的条目的引用数，每次请求最多获取 50 条记录。中断的任务会在下次启动后从中断处继续。
+pref-citation-refresh-interval-label = 刷新间隔（天）：
+pref-citation-refresh-scope-desc = 默认覆盖整个文库；也可通过分类右键菜单（INSPIRE → 加入定时引用数刷新）只刷新指定分类。
+pref-citation-refresh-run =
+    .label = 立即运行
+pref-citation-refresh-status-never = 尚未运行
+pref-citation-refresh-status-last = 上次完成：{ $date }
+pref-citation-refresh-status-pending = 未完成的任务：已检查 { $checked } 个条目
+pref-citation-refresh-status-running = 正在刷新…
+pref-citation-refresh-status-done = 完成：检查 { $checked } 个，更新 { $updated } 个
+pref-citation-refresh-status-stopped = 已在 { $checked } 个条目后停止，稍后将继续
+pref-saved-search-alerts = 已保存搜索的提醒
+pref-saved-search-alerts-enable =
+    .label = 检查已保存的搜索是否有新的 INSPIRE 结果
+pref-saved-search-alerts-enable-desc = 开启通知的已保存搜索（搜索历史或收藏夹中的 🔔）会在后台重新运行，有新结果时会提醒并在结果列表中标出。
+pref-saved-search-interval-label = 检查间隔（小时）：
+pref-author-feed = 收藏作者动态
+pref-author-feed-enable =
+    .label = 检查收藏作者的新论文
+pref-author-feed-enable-desc = 在后台检查收藏作者自上次检查以来的新论文。有新论文时会提醒，并在收藏夹的"收藏作者新论文"中列出，直到标记为已读。
+pref-author-feed-interval-label = 检查间隔（小时）：
+pref-citation-inbox = 新引用收件箱
+pref-citation-inbox-enable =
+    .label = 检查我的论文是否有新的施引论文
+pref-citation-inbox-enable-desc = 在后台重新检查跟踪的论文，不在其已缓存被引列表中的施引论文会按被引论文分组收集到收件箱。可在条目或分类的 INSPIRE 菜单中选择"跟踪新引用"。
+pref-citation-inbox-interval-label = 检查间隔（小时）：
+pref-citation-inbox-author-label = 我的 INSPIRE 作者档案：
+pref-citation-inbox-author-desc = BAI（例如 E.Witten.1）或作者记录号。该档案最新的 250 篇论文也会被跟踪。
+pref-citation-inbox-open =
+    .label = 打开收件箱…
+
 pref-collab-tags = 合作组标签
 pref-collab-tag-enable =
     .label = 启用合作组标签
@@ -178,6 +233,35 @@ pref-funding-china-only =
     .label = 仅提取中国资助机构
 pref-funding-china-only-desc = 启用后仅提取中国资助机构的基金信息（国自然、中科院、科技部等）。禁用则提取所有资助者（包括 DOE、NSF、ERC 等）。
 
+pref-external-access = 外部访问令牌
+pref-external-access-desc = 令牌允许受信任的本地工具（如 MCP 服务器）调用插件的 connector 接口。每个令牌只具有所列权限；撤销令牌即可切断对应工具的访问。
+pref-external-token-name-label = 名称：
+pref-external-token-preset-full =
+    .label = 完全访问
+pref-external-token-preset-no-erase =
+    .label = 除永久删除外的全部权限
+pref-external-token-preset-read-only =
+    .label = 只读（查询、事件）
+pref-external-token-preset-attach-only =
+    .label = 仅添加附件
+pref-external-token-create =
+    .label = 创建令牌
+pref-external-token-copy = 复制
+pref-external-token-revoke = 撤销
+pref-external-token-regenerate = 重新生成
+pref-external-token-default-name = 默认（external_token 首选项）
+pref-external-token-scopes = 权限：{ $scopes }
+pref-external-token-meta = 创建于 { $created } · 最近使用 { $lastUsed }
+pref-external-token-never = 从未
+pref-external-token-unknown = 未知
+pref-external-token-none = 没有有效的令牌。
+pref-external-token-created = 令牌“{ $name }”已创建并复制到剪贴板。
+pref-external-token-revoke-confirm = 撤销令牌“{ $name }”？使用它的工具将立即失去访问权限。
+pref-external-audit-open =
+    .label = 打开审计日志
+pref-external-audit-summary = 当前日志中有 { $count } 条写操作
+pref-external-audit-desc = 每个写操作（添加附件、更新、导入、移至回收站、永久删除），包括被拒绝的操作，都会连同发起它的令牌一起记录。
+
 pref-dev = 开发者
 pref-dev-panel-layout =
     .label = 启用面板布局调试（Citing…）
@@ -5,6 +5,7 @@ pref("__prefsPrefix__.tag_norecid", "\u26D4 No INSPIRE recid found");
 pref("__prefsPrefix__.tag_enable", false);
 pref("__prefsPrefix__.extra_order", "citations_first");
 pref("__prefsPrefix__.cites_column_exclude_self", false); // Cites column uses w/o-self citation count
+pref("__prefsPrefix__.cites_gained_days", 30); // Window for the "Cites Δ" column (citations gained)
 pref("__prefsPrefix__.arxiv_in_journal_abbrev", false); // Legacy: write arXiv ID to Journal Abbreviation
 pref("__prefsPrefix__.arxiv_tag_enable", false);
 pref("__prefsPrefix__.max_authors", 3);
@@ -17,6 +18,7 @@ pref("__prefsPrefix__.related_papers_max_results", 50); // FTR-RELATED-PAPERS: m
 pref("__prefsPrefix__.citation_graph_max_results", 25); // FTR-CITATION-GRAPH: max references/cited-by shown per side (global across seeds)
 pref("__prefsPrefix__.citation_graph_include_reviews", false); // FTR-CITATION-GRAPH: include review articles (incl. PDG) in graph results
 pref("__prefsPrefix__.external_token", ""); // External integrations: connector auth token (generated on first startup)
+pref("__prefsPrefix__.external_tokens", ""); // External integrations: JSON store of named, scoped tokens (managed in the prefs pane)
 pref("__prefsPrefix__.latex_render_mode", "katex"); // LaTeX rendering: "unicode" | "katex"
 pref("__prefsPrefix__.search_history_days", 30);
 pref("__prefsPrefix__.pdf_fuzzy_citation", false); // Aggressive citation detection for broken PDF text layers
@@ -31,8 +33,13 @@ pref("__prefsPrefix__.local_cache_ttl_hours", 24);
 pref("__prefsPrefix__.local_cache_show_source", true);
 pref("__prefsPrefix__.local_cache_custom_dir", ""); // Empty = use default (Zotero Data Directory)
 pref("__prefsPrefix__.local_cache_compression", true); // Enable gzip compression for cache files
+pref("__prefsPrefix__.local_cache_backend", "pack"); // "pack" = single indexed file | "files" = one JSON file per entry
+pref("__prefsPrefix__.local_cache_max_size_mb", 512); // Pack size limit before least recently used entries are evicted (0 = unlimited)
 pref("__prefsPrefix__.local_cache_enrich_batch", 100); // Entries per metadata batch (25-200 recommended)
 pref("__prefsPrefix__.local_cache_enrich_parallel", 4); // Parallel batch requests (1-5 recommended)
+pref("__prefsPrefix__.offline_mode", false); // Never contact INSPIRE/CrossRef; serve from the local cache and queue misses
+pref("__prefsPrefix__.local_search_index", true); // Answer panel searches from an index of cached records (instant offline, merged online)
+pref("__prefsPrefix__.rate_limit_active_mode", false); // Token-bucket pacing of INSPIRE requests (default: only retry after 429)
 // Smart update settings (FTR-SMART-UPDATE)
 pref("__prefsPrefix__.smart_update_enable", false); // Enable smart/incremental update mode
 pref("__prefsPrefix__.smart_update_show_preview", true); // Show preview dialog before updating
@@ -47,6 +54,19 @@ pref("__prefsPrefix__.preprint_watch_enabled", true); // Enable preprint publica
 pref("__prefsPrefix__.preprint_watch_auto_check", "never"); // Auto-check timing: "startup" | "daily" | "never"
 pref("__prefsPrefix__.preprint_watch_last_check", 0); // Last check timestamp
 pref("__prefsPrefix__.preprint_watch_notify", true); // Show notification when publications found
+pref("__prefsPrefix__.citation_refresh_enabled", false); // Scheduled background citation count refresh
+pref("__prefsPrefix__.citation_refresh_interval_days", 7); // Days between scheduled refreshes
+pref("__prefsPrefix__.citation_refresh_collections", "[]"); // JSON array of "libraryID/key"; empty = whole library
+pref("__prefsPrefix__.citation_refresh_last_run", 0); // Last completed refresh timestamp
+pref("__prefsPrefix__.saved_search_alerts_enabled", true); // Re-run saved searches with alerts on a schedule
+pref("__prefsPrefix__.saved_search_check_interval_hours", 24); // Hours between checks of a saved search
+pref("__prefsPrefix__.author_feed_enabled", true); // Check favorite authors for new papers in the background
+pref("__prefsPrefix__.author_feed_check_interval_hours", 24); // Hours between checks of a favorite author
+pref("__prefsPrefix__.citation_inbox_enabled", true); // Check "my papers" for new citing papers in the background
+pref("__prefsPrefix__.citation_inbox_check_interval_hours", 24); // Hours between checks of a tracked paper
+pref("__prefsPrefix__.citation_inbox_items", "[]"); // JSON array of tracked item refs "libraryID/key"
+pref("__prefsPrefix__.citation_inbox_collections", "[]"); // JSON array of tracked collection refs "libraryID/key"
+pref("__prefsPrefix__.citation_inbox_author", ""); // BAI or recid of an INSPIRE author profile whose papers are tracked
 // Collaboration tag settings (FTR-COLLAB-TAGS)
 pref("__prefsPrefix__.collab_tag_enable", false); // Enable collaboration tagging
 pref("__prefsPrefix__.collab_tag_auto", false); // Auto-add tags when updating/importing
@@ -55,7 +75,10 @@ pref("__prefsPrefix__.collab_tag_template", "{name}"); // Tag format template ({
 pref("__prefsPrefix__.funding_china_only", true); // Only extract Chinese funding agencies (NSFC, CAS, MoST, etc.)
 // Favorite authors (FTR-FAVORITE-AUTHORS)
 pref("__prefsPrefix__.favorite_authors", "[]"); // JSON array of FavoriteAuthor objects
+pref("__prefsPrefix__.author_feed", "{}"); // JSON: last check per favorite author and AuthorFeedItem list
 // Favorite papers (FTR-FAVORITE-PAPERS)
 pref("__prefsPrefix__.favorite_papers", "[]"); // JSON array of FavoritePaper objects
 // Favorite presentations (FTR-FAVORITE-PRESENTATIONS)
 pref("__prefsPrefix__.favorite_presentations", "[]"); // JSON array of FavoritePresentation objects
+// Saved searches
+pref("__prefsPrefix__.saved_searches", "[]"); // JSON array of SavedSearch objects
@@ -21,6 +21,26 @@ import {
   registerInspireItemTreeColumns,
   unregisterInspireItemTreeColumns,
   refreshInspireItemTreeColumns,
+  emitLibraryEvent,
+  flushCitationHistory,
+  runCitationRefresh,
+  shouldRunCitationRefresh,
+  isCitationRefreshRunning,
+  loadCitationRefreshRun,
+  type CitationRefreshSummary,
+  isOfflineMode,
+  handleOfflineModeChange,
+  processOfflineQueue,
+  type OfflineQueueResult,
+  showCacheBrowserDialog,
+  resetLocalSearchIndex,
+  runSavedSearchAlerts,
+  type SavedSearchAlert,
+  runAuthorFeedCheck,
+  type AuthorFeedSummary,
+  runCitationInboxCheck,
+  type CitationInboxSummary,
+  showCitationInboxDialog,
 } from "./modules/inspire";
 import {
   ENRICH_BATCH_RANGE,
@@ -28,7 +48,13 @@ import {
   getEnrichmentSettings,
 } from "./modules/inspire/enrichConfig";
 import { getPref, setPref } from "./utils/prefs";
-import { registerPrefsScripts } from "./modules/prefScript";
+import {
+  registerPrefsScripts,
+  renderExternalTokens,
+  createExternalTokenFromPane,
+  updateExternalAuditSummary,
+} from "./modules/prefScript";
+import { getExternalAuditLogPath } from "./utils/externalAudit";
 import { getExternalToken, ensureExternalToken } from "./utils/externalToken";
 import {
   registerZInspirePickSaveTargetEndpoint,
@@ -38,12 +64,31 @@ import {
   registerZInspireWriteEndpoint,
   unregisterZInspireWriteEndpoint,
 } from "./modules/connectorWriteApi";
+import {
+  registerZInspireQueryEndpoint,
+  unregisterZInspireQueryEndpoint,
+} from "./modules/connectorQueryApi";
+import {
+  registerZInspireEventsEndpoint,
+  unregisterZInspireEventsEndpoint,
+} from "./modules/connectorEventsApi";
 
 // Track background timers for cleanup on shutdown (PERF-FIX-1)
 let purgeTimer: ReturnType<typeof setTimeout> | undefined;
 let preprintCheckTimer: ReturnType<typeof setTimeout> | undefined;
 let preprintCheckController: AbortController | undefined;
+let citationRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+let citationRefreshController: AbortController | undefined;
+let savedSearchTimer: ReturnType<typeof setTimeout> | undefined;
+let savedSearchController: AbortController | undefined;
+let authorFeedTimer: ReturnType<typeof setTimeout> | undefined;
+let authorFeedController: AbortController | undefined;
+let citationInboxTimer: ReturnType<typeof setTimeout> | undefined;
+let citationInboxController: AbortController | undefined;
 let itemTreePrefsObserverID: symbol | undefined;
+let citesGainedObserverID: symbol | undefined;
+let offlineQueueTimer: ReturnType<typeof setTimeout> | undefined;
+let offlineModeObserverID: symbol | undefined;
 
 async function onStartup() {
   await Promise.all([
@@ -55,6 +100,7 @@ async function onStartup() {
 
   ZInsUtils.registerPrefs();
   ZInsUtils.registerNotifier();
+  registerOfflineModeObserver();
 
   // Initialize new preference defaults for existing installations (FTR-FUNDING-EXTRACTION)
   if (getPref("funding_china_only") === undefined) {
@@ -73,6 +119,8 @@ async function onStartup() {
   ensureExternalToken();
   registerZInspirePickSaveTargetEndpoint();
   registerZInspireWriteEndpoint();
+  registerZInspireQueryEndpoint();
+  registerZInspireEventsEndpoint();
 
   // Purge expired local cache entries in background after startup (PERF-FIX-1: tracked timer)
   purgeTimer = setTimeout(() => {
@@ -87,6 +135,230 @@ async function onStartup() {
   preprintCheckTimer = setTimeout(() => {
     runBackgroundPreprintCheck();
   }, 30000); // Delay 30s to avoid startup contention
+
+  // Scheduled citation refresh: first check after startup, then hourly
+  scheduleCitationRefreshCheck(60000);
+
+  // Saved search alerts: first check after startup, then hourly
+  scheduleSavedSearchCheck(90000);
+
+  // Favorite author feed: first check after startup, then hourly
+  scheduleAuthorFeedCheck(120000);
+
+  // New citations of tracked papers: first check after startup, then hourly
+  scheduleCitationInboxCheck(150000);
+
+  // Fetch data requested during an earlier offline session
+  offlineQueueTimer = setTimeout(() => {
+    offlineQueueTimer = undefined;
+    if (isOfflineMode()) return;
+    processOfflineQueue()
+      .then(notifyOfflineQueueDone)
+      .catch((err) => {
+        Zotero.debug(
+          `[${config.addonName}] Failed to process offline queue: ${err}`,
+        );
+      });
+  }, 20000);
+}
+
+/**
+ * Offline mode switches on the pref, so the menu, the preference pane and
+ * the panel indicator all go through here.
+ */
+function registerOfflineModeObserver(): void {
+  if (offlineModeObserverID || !(Zotero.Prefs as any).registerObserver) {
+    return;
+  }
+  offlineModeObserverID = (Zotero.Prefs as any).registerObserver(
+    `${config.prefsPrefix}.offline_mode`,
+    () => {
+      handleOfflineModeChange()
+        .then(notifyOfflineQueueDone)
+        .catch((err) => {
+          Zotero.debug(
+            `[${config.addonName}] Failed to process offline queue: ${err}`,
+          );
+        });
+    },
+    true,
+  ) as symbol;
+}
+
+function notifyOfflineQueueDone(result: OfflineQueueResult): void {
+  if (!result.fetched || !addon.data.alive) return;
+  new ztoolkit.ProgressWindow(config.addonName)
+    .createLine({
+      text: getString("offline-mode-queue-done", {
+        args: { count: result.fetched },
+      }),
+      type: "success",
+    })
+    .show();
+}
+
+const CITATION_REFRESH_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function scheduleCitationRefreshCheck(delayMs: number): void {
+  if (citationRefreshTimer) clearTimeout(citationRefreshTimer);
+  citationRefreshTimer = setTimeout(async () => {
+    citationRefreshTimer = undefined;
+    await runBackgroundCitationRefresh();
+    scheduleCitationRefreshCheck(CITATION_REFRESH_CHECK_INTERVAL_MS);
+  }, delayMs);
+}
+
+/**
+ * Run the scheduled citation refresh when it is due (or an earlier run is
+ * unfinished). Silent; progress is saved after every batch.
+ */
+async function runBackgroundCitationRefresh(): Promise<void> {
+  try {
+    if (
+      isOfflineMode() ||
+      isCitationRefreshRunning() ||
+      !(await shouldRunCitationRefresh())
+    ) {
+      return;
+    }
+    await startCitationRefresh();
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Background citation refresh failed: ${err}`,
+    );
+  }
+}
+
+/** Start (or join) a citation refresh that is aborted on shutdown. */
+function startCitationRefresh(): Promise<CitationRefreshSummary> {
+  if (!isCitationRefreshRunning()) {
+    citationRefreshController = createAbortController();
+  }
+  return runCitationRefresh({ signal: citationRefreshController?.signal });
+}
+
+const SAVED_SEARCH_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function scheduleSavedSearchCheck(delayMs: number): void {
+  if (savedSearchTimer) clearTimeout(savedSearchTimer);
+  savedSearchTimer = setTimeout(async () => {
+    savedSearchTimer = undefined;
+    await runBackgroundSavedSearchCheck();
+    scheduleSavedSearchCheck(SAVED_SEARCH_CHECK_INTERVAL_MS);
+  }, delayMs);
+}
+
+/** Re-run saved searches whose alert is due and notify about new hits. */
+async function runBackgroundSavedSearchCheck(): Promise<void> {
+  savedSearchController?.abort();
+  savedSearchController = createAbortController();
+  try {
+    const alerts = await runSavedSearchAlerts({
+      signal: savedSearchController?.signal,
+    });
+    notifySavedSearchAlerts(alerts);
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Background saved search check failed: ${err}`,
+    );
+  }
+}
+
+function notifySavedSearchAlerts(alerts: SavedSearchAlert[]): void {
+  if (!alerts.length || !addon.data.alive) return;
+  const popup = new ztoolkit.ProgressWindow(config.addonName);
+  for (const { search, newCount } of alerts) {
+    popup.createLine({
+      text: getString("saved-search-alert", {
+        args: { name: search.name, count: newCount },
+      }),
+      type: "success",
+    });
+  }
+  popup.show();
+}
+
+const AUTHOR_FEED_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function scheduleAuthorFeedCheck(delayMs: number): void {
+  if (authorFeedTimer) clearTimeout(authorFeedTimer);
+  authorFeedTimer = setTimeout(async () => {
+    authorFeedTimer = undefined;
+    await runBackgroundAuthorFeedCheck();
+    scheduleAuthorFeedCheck(AUTHOR_FEED_CHECK_INTERVAL_MS);
+  }, delayMs);
+}
+
+/** Check favorite authors that are due and notify about new papers. */
+async function runBackgroundAuthorFeedCheck(): Promise<void> {
+  authorFeedController?.abort();
+  authorFeedController = createAbortController();
+  try {
+    const summary = await runAuthorFeedCheck({
+      signal: authorFeedController?.signal,
+    });
+    notifyAuthorFeed(summary);
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Background author feed check failed: ${err}`,
+    );
+  }
+}
+
+function notifyAuthorFeed(summary: AuthorFeedSummary): void {
+  if (!summary.added.length || !addon.data.alive) return;
+  const authors = new Set(summary.added.map((item) => item.authorLabel));
+  new ztoolkit.ProgressWindow(config.addonName)
+    .createLine({
+      text: getString("author-feed-alert", {
+        args: {
+          count: summary.added.length,
+          authors: [...authors].join(", "),
+        },
+      }),
+      type: "success",
+    })
+    .show();
+}
+
+const CITATION_INBOX_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function scheduleCitationInboxCheck(delayMs: number): void {
+  if (citationInboxTimer) clearTimeout(citationInboxTimer);
+  citationInboxTimer = setTimeout(async () => {
+    citationInboxTimer = undefined;
+    await runBackgroundCitationInboxCheck();
+    scheduleCitationInboxCheck(CITATION_INBOX_CHECK_INTERVAL_MS);
+  }, delayMs);
+}
+
+/** Check tracked papers that are due and notify about new citing papers. */
+async function runBackgroundCitationInboxCheck(): Promise<void> {
+  citationInboxController?.abort();
+  citationInboxController = createAbortController();
+  try {
+    const summary = await runCitationInboxCheck({
+      signal: citationInboxController?.signal,
+    });
+    notifyCitationInbox(summary);
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Background citation inbox check failed: ${err}`,
+    );
+  }
+}
+
+function notifyCitationInbox(summary: CitationInboxSummary): void {
+  if (!summary.added.length || !addon.data.alive) return;
+  const papers = new Set(summary.added.map((item) => item.citedRecid));
+  new ztoolkit.ProgressWindow(config.addonName)
+    .createLine({
+      text: getString("citation-inbox-alert", {
+        args: { count: summary.added.length, papers: papers.size },
+      }),
+      type: "success",
+    })
+    .show();
 }
 
 /**
@@ -131,7 +403,7 @@ async function runBackgroundPreprintCheck(): Promise<void> {
     }
 
     // Check if we should run based on timing preference
-    if (!shouldRunBackgroundCheck()) {
+    if (isOfflineMode() || !shouldRunBackgroundCheck()) {
       return;
     }
 
@@ -205,6 +477,15 @@ async function onMainWindowLoad(_win: Window): Promise<void> {
         true,
       ) as symbol;
     }
+    if (!citesGainedObserverID && (Zotero.Prefs as any).registerObserver) {
+      citesGainedObserverID = (Zotero.Prefs as any).registerObserver(
+        `${config.prefsPrefix}.cites_gained_days`,
+        () => {
+          refreshInspireItemTreeColumns(true);
+        },
+        true,
+      ) as symbol;
+    }
   } catch (err) {
     Zotero.debug(
       `[${config.addonName}] Failed to register item tree columns: ${err}`,
@@ -220,6 +501,8 @@ async function onMainWindowUnload(_win: Window): Promise<void> {
 function onShutdown(): void {
   unregisterZInspirePickSaveTargetEndpoint();
   unregisterZInspireWriteEndpoint();
+  unregisterZInspireQueryEndpoint();
+  unregisterZInspireEventsEndpoint();
 
   // PERF-FIX-1: Clear tracked timers before shutdown
   if (purgeTimer) {
@@ -232,6 +515,34 @@ function onShutdown(): void {
   }
   preprintCheckController?.abort();
   preprintCheckController = undefined;
+  if (citationRefreshTimer) {
+    clearTimeout(citationRefreshTimer);
+    citationRefreshTimer = undefined;
+  }
+  citationRefreshController?.abort();
+  citationRefreshController = undefined;
+  if (savedSearchTimer) {
+    clearTimeout(savedSearchTimer);
+    savedSearchTimer = undefined;
+  }
+  savedSearchController?.abort();
+  savedSearchController = undefined;
+  if (authorFeedTimer) {
+    clearTimeout(authorFeedTimer);
+    authorFeedTimer = undefined;
+  }
+  authorFeedController?.abort();
+  authorFeedController = undefined;
+  if (citationInboxTimer) {
+    clearTimeout(citationInboxTimer);
+    citationInboxTimer = undefined;
+  }
+  citationInboxController?.abort();
+  citationInboxController = undefined;
+  if (offlineQueueTimer) {
+    clearTimeout(offlineQueueTimer);
+    offlineQueueTimer = undefined;
+  }
 
   // PERF-FIX-2: Stop MemoryMonitor interval if running
   MemoryMonitor.getInstance().stop();
@@ -245,6 +556,9 @@ function onShutdown(): void {
   localCache.flushWrites().catch(() => {
     // Ignore flush errors during shutdown
   });
+  flushCitationHistory().catch(() => {
+    // Ignore flush errors during shutdown
+  });
 
   // FTR-CUSTOM-COLUMNS: Unregister custom item tree columns
   unregisterInspireItemTreeColumns();
@@ -256,6 +570,22 @@ function onShutdown(): void {
     }
     itemTreePrefsObserverID = undefined;
   }
+  if (citesGainedObserverID) {
+    try {
+      Zotero.Prefs.unregisterObserver(citesGainedObserverID);
+    } catch {
+      // Ignore unregister errors during shutdown
+    }
+    citesGainedObserverID = undefined;
+  }
+  if (offlineModeObserverID) {
+    try {
+      Zotero.Prefs.unregisterObserver(offlineModeObserverID);
+    } catch {
+      // Ignore unregister errors during shutdown
+    }
+    offlineModeObserverID = undefined;
+  }
   // Remove addon object
   addon.data.alive = false;
   // @ts-ignore - Plugin instance is not typed
@@ -298,22 +628,33 @@ async function onNotify(
     const itemsNeedingUpdate = regularItems.filter(
       (item: Zotero.Item) => !deriveRecidFromItem(item),
     );
+    emitRecidAssignedEvents(
+      regularItems.filter(
+        (item: Zotero.Item) => !itemsNeedingUpdate.includes(item),
+      ),
+      "import",
+    );
     if (itemsNeedingUpdate.length === 0) {
       return;
     }
 
-    switch (getPref("meta")) {
-      case "full":
-        _globalThis.inspire.updateItems(itemsNeedingUpdate, "full");
-        break;
-      case "noabstract":
-        _globalThis.inspire.updateItems(itemsNeedingUpdate, "noabstract");
-        break;
-      case "citations":
-        _globalThis.inspire.updateItems(itemsNeedingUpdate, "citations");
-        break;
-      default:
-        break;
+    const meta = getPref("meta");
+    if (meta === "full" || meta === "noabstract" || meta === "citations") {
+      _globalThis.inspire
+        .updateItems(itemsNeedingUpdate, meta)
+        .then(() =>
+          emitRecidAssignedEvents(
+            itemsNeedingUpdate.filter((item: Zotero.Item) =>
+              deriveRecidFromItem(item),
+            ),
+            "auto_update",
+          ),
+        )
+        .catch((err: unknown) => {
+          Zotero.debug(
+            `[${config.addonName}] Auto-update of added items failed: ${err}`,
+          );
+        });
     }
   }
 
@@ -328,6 +669,26 @@ async function onNotify(
   return;
 }
 
+/**
+ * Emit `recid_assigned` library events for newly added items that carry an
+ * INSPIRE recid, either from the start (`import`) or after the automatic
+ * metadata update (`auto_update`).
+ */
+function emitRecidAssignedEvents(
+  items: Zotero.Item[],
+  source: "import" | "auto_update",
+) {
+  for (const item of items) {
+    const recid = deriveRecidFromItem(item);
+    if (!recid) continue;
+    emitLibraryEvent("recid_assigned", item, {
+      recid,
+      source,
+      title: String(item.getField("title") ?? ""),
+    });
+  }
+}
+
 /**
  * Update cache statistics display in preferences panel.
  */
@@ -349,6 +710,28 @@ async function updateCacheStatsDisplay(doc: Document) {
   }
 }
 
+async function updateCitationRefreshStatus(doc: Document) {
+  const statusEl = doc.getElementById(
+    "zotero-prefpane-zoteroinspire-citation_refresh_status",
+  );
+  if (!statusEl) return;
+  if (isCitationRefreshRunning()) {
+    statusEl.textContent = getString("pref-citation-refresh-status-running");
+    return;
+  }
+  const pending = await loadCitationRefreshRun();
+  const lastRun = Number(getPref("citation_refresh_last_run")) || 0;
+  statusEl.textContent = pending
+    ? getString("pref-citation-refresh-status-pending", {
+        args: { checked: pending.checked },
+      })
+    : lastRun
+      ? getString("pref-citation-refresh-status-last", {
+          args: { date: new Date(lastRun).toLocaleString() },
+        })
+      : getString("pref-citation-refresh-status-never");
+}
+
 function updateEnrichSettingsDisplay(doc: Document, forceValueSync = false) {
   const infoEl = doc.getElementById(
     "zotero-prefpane-zoteroinspire-local_cache_enrich_info",
@@ -729,6 +1112,9 @@ async function onPrefsEvent(type: string, data: { [key: string]: any }) {
         updateLatexOptionsVisibility(doc);
         updateRelatedPapersControls(doc);
         setTimeout(() => updateRelatedPapersControls(doc), 50);
+        renderExternalTokens(doc);
+        updateExternalAuditSummary(doc);
+        updateCitationRefreshStatus(doc);
         const enableCheckbox = doc.getElementById(
           "zotero-prefpane-zoteroinspire-local_cache_enable",
         ) as HTMLInputElement | null;
@@ -851,9 +1237,40 @@ async function onPrefsEvent(type: string, data: { [key: string]: any }) {
         }
       }
       break;
+    case "runCitationRefresh":
+      if (data.window) {
+        const doc = (data.window as Window).document;
+        const statusEl = doc.getElementById(
+          "zotero-prefpane-zoteroinspire-citation_refresh_status",
+        );
+        if (statusEl) {
+          statusEl.textContent = getString(
+            "pref-citation-refresh-status-running",
+          );
+        }
+        startCitationRefresh()
+          .then((summary) => {
+            if (!statusEl) return;
+            statusEl.textContent = getString(
+              summary.completed
+                ? "pref-citation-refresh-status-done"
+                : "pref-citation-refresh-status-stopped",
+              {
+                args: { checked: summary.checked, updated: summary.updated },
+              },
+            );
+          })
+          .catch((err) => {
+            Zotero.debug(
+              `[${config.addonName}] Citation refresh failed: ${err}`,
+            );
+          });
+      }
+      break;
     case "clearCache":
       // Clear local cache and show confirmation
       localCache.clearAll().then((count) => {
+        resetLocalSearchIndex();
         if (data.window) {
           const win = data.window as Window;
           const doc = win.document;
@@ -879,6 +1296,20 @@ async function onPrefsEvent(type: string, data: { [key: string]: any }) {
         }
       });
       break;
+    case "browseCache":
+      // Cache browser; refresh the stats after it is closed
+      if (data.window) {
+        const win = data.window as Window;
+        showCacheBrowserDialog(win).then(() =>
+          updateCacheStatsDisplay(win.document),
+        );
+      }
+      break;
+    case "openCitationInbox":
+      if (data.window) {
+        showCitationInboxDialog(data.window as Window);
+      }
+      break;
     case "browseCacheDir":
       // Browse for custom cache directory
       (async () => {
@@ -965,6 +1396,25 @@ async function onPrefsEvent(type: string, data: { [key: string]: any }) {
         }
       });
       break;
+    case "createExternalToken":
+      if (data.window) {
+        createExternalTokenFromPane((data.window as Window).document);
+      }
+      break;
+    case "openExternalAuditLog":
+      (async () => {
+        const path = getExternalAuditLogPath();
+        if (await IOUtils.exists(path)) {
+          Zotero.launchFile(path);
+        } else if (data.window && typeof Services !== "undefined") {
+          Services.prompt.alert(
+            data.window as unknown as mozIDOMWindowProxy,
+            config.addonName,
+            getString("pref-external-audit-summary", { args: { count: 0 } }),
+          );
+        }
+      })();
+      break;
     default:
       return;
   }
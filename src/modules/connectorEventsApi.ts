@@ -0,0 +1,240 @@
+import { config } from "../../package.json";
+import {
+  authenticateExternalToken,
+  tokenHasScope,
+} from "../utils/externalToken";
+import {
+  LIBRARY_EVENT_STREAM_ID,
+  LIBRARY_EVENT_TYPES,
+  getLatestLibraryEventId,
+  getLibraryEventWaiterCount,
+  isLibraryEventType,
+  resetLibraryEvents,
+  waitForLibraryEvents,
+  type LibraryEventType,
+} from "./inspire/libraryEvents";
+
+/**
+ * External event stream for zotero-inspire (long-poll).
+ *
+ * Sibling of `/connector/zinspireQuery` and `/connector/zinspireWrite`: same
+ * connector server, same `x-zinspire-token` auth, same JSON envelope. A local
+ * tool (lab dashboard, agent) calls it in a loop, passing back the returned
+ * `cursor` as `since`. The request is held open until matching events exist or
+ * `timeout_ms` elapses. Zotero's connector server answers each request with one
+ * complete response, so server-sent events are not an option.
+ *
+ * Events come from the preprint check (`preprint_published`), citation count
+ * updates (`citations_changed`) and newly added items that have or receive an
+ * INSPIRE recid (`recid_assigned`). They are kept in memory only.
+ */
+
+const ENDPOINT_PATH = "/connector/zinspireEvents";
+
+const DEFAULT_TIMEOUT_MS = 25_000;
+const MAX_TIMEOUT_MS = 60_000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+/** Concurrent long-polls beyond this get 429 instead of holding a socket. */
+const MAX_WAITING_REQUESTS = 16;
+
+let previousEndpoint: any | null = null;
+let registered = false;
+
+type EventsResponseBody = Record<string, unknown>;
+type EndpointResult = [number, string, string];
+
+/** Error carrying an HTTP status + machine-readable code for the response. */
+class EventsError extends Error {
+  status: number;
+  code: string;
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "EventsError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function jsonResult(status: number, body: EventsResponseBody): EndpointResult {
+  return [status, "application/json", JSON.stringify(body)];
+}
+
+function readBoundedInt(
+  raw: unknown,
+  name: string,
+  fallback: number,
+  max: number,
+): number {
+  if (raw === undefined || raw === null) {
+    return fallback;
+  }
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 0) {
+    throw new EventsError(
+      400,
+      "INVALID_PARAMS",
+      `${name} must be a non-negative integer`,
+    );
+  }
+  return Math.min(raw, max);
+}
+
+function readTypes(raw: unknown): LibraryEventType[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    throw new EventsError(400, "INVALID_PARAMS", "types must be an array");
+  }
+  const unknown = raw.filter(
+    (t) => typeof t !== "string" || !isLibraryEventType(t),
+  );
+  if (unknown.length) {
+    throw new EventsError(
+      400,
+      "INVALID_PARAMS",
+      `Unknown event type(s): ${unknown.join(", ")} (expected ${LIBRARY_EVENT_TYPES.join(", ")})`,
+    );
+  }
+  return raw as LibraryEventType[];
+}
+
+/**
+ * Handle one poll. Without `since` the call returns immediately with the
+ * current cursor, so a new subscriber only receives events from now on.
+ * Exported for unit testing without the connector server.
+ */
+export async function handleEventsPoll(
+  body: Record<string, any>,
+): Promise<EndpointResult> {
+  try {
+    const types = readTypes(body.types);
+    const limit = readBoundedInt(body.limit, "limit", DEFAULT_LIMIT, MAX_LIMIT);
+    const timeoutMs = readBoundedInt(
+      body.timeout_ms,
+      "timeout_ms",
+      DEFAULT_TIMEOUT_MS,
+      MAX_TIMEOUT_MS,
+    );
+
+    if (body.since === undefined || body.since === null) {
+      return jsonResult(200, {
+        ok: true,
+        stream_id: LIBRARY_EVENT_STREAM_ID,
+        cursor: getLatestLibraryEventId(),
+        events: [],
+        missed: false,
+      });
+    }
+    let since = readBoundedInt(body.since, "since", 0, Number.MAX_SAFE_INTEGER);
+
+    // Cursor from an earlier Zotero session: replay this session's buffer
+    const reset =
+      (typeof body.stream_id === "string" &&
+        body.stream_id !== LIBRARY_EVENT_STREAM_ID) ||
+      since > getLatestLibraryEventId();
+    if (reset) {
+      since = 0;
+    }
+
+    if (timeoutMs > 0 && getLibraryEventWaiterCount() >= MAX_WAITING_REQUESTS) {
+      throw new EventsError(
+        429,
+        "TOO_MANY_SUBSCRIBERS",
+        `At most ${MAX_WAITING_REQUESTS} concurrent event polls`,
+      );
+    }
+
+    const page = await waitForLibraryEvents(since, timeoutMs, types, limit);
+    return jsonResult(200, {
+      ok: true,
+      stream_id: LIBRARY_EVENT_STREAM_ID,
+      cursor: page.cursor,
+      events: page.events,
+      missed: page.missed,
+      ...(reset ? { reset: true } : {}),
+    });
+  } catch (err) {
+    if (err instanceof EventsError) {
+      return jsonResult(err.status, {
+        ok: false,
+        code: err.code,
+        error: err.message,
+      });
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    Zotero.debug(`[${config.addonName}] events poll failed: ${message}`);
+    return jsonResult(500, {
+      ok: false,
+      code: "INTERNAL_ERROR",
+      error: message,
+    });
+  }
+}
+
+class ZInspireEventsEndpoint {
+  supportedMethods = ["POST"];
+  supportedDataTypes = ["application/json"];
+  permitBookmarklet = false;
+
+  async init(req: {
+    headers: Record<string, string | undefined>;
+    data: any;
+  }): Promise<EndpointResult> {
+    const token = authenticateExternalToken(req?.headers);
+    if (!token) {
+      return jsonResult(403, { ok: false, error: "FORBIDDEN" });
+    }
+    if (!tokenHasScope(token, "events")) {
+      return jsonResult(403, {
+        ok: false,
+        code: "SCOPE_DENIED",
+        error: `Token "${token.name}" is not allowed to subscribe to events`,
+      });
+    }
+
+    const body = req?.data && typeof req.data === "object" ? req.data : {};
+    return handleEventsPoll(body);
+  }
+}
+
+export function registerZInspireEventsEndpoint(): void {
+  if (registered) {
+    return;
+  }
+  const endpoints = (Zotero.Server as any)?.Endpoints;
+  if (!endpoints) {
+    Zotero.debug?.(
+      `[${config.addonName}] Zotero.Server.Endpoints not available; cannot register ${ENDPOINT_PATH}`,
+    );
+    return;
+  }
+  if (endpoints[ENDPOINT_PATH] && !previousEndpoint) {
+    previousEndpoint = endpoints[ENDPOINT_PATH];
+  }
+  endpoints[ENDPOINT_PATH] = ZInspireEventsEndpoint as any;
+  registered = true;
+  Zotero.debug?.(
+    `[${config.addonName}] Registered connector endpoint POST ${ENDPOINT_PATH}`,
+  );
+}
+
+export function unregisterZInspireEventsEndpoint(): void {
+  if (!registered) {
+    return;
+  }
+  // Answer held polls so shutdown does not leave sockets hanging
+  resetLibraryEvents();
+  const endpoints = (Zotero.Server as any)?.Endpoints;
+  if (!endpoints) {
+    registered = false;
+    return;
+  }
+  if (previousEndpoint) {
+    endpoints[ENDPOINT_PATH] = previousEndpoint;
+  } else {
+    delete endpoints[ENDPOINT_PATH];
+  }
+  previousEndpoint = null;
+  registered = false;
+}
@@ -1,5 +1,5 @@
 import { config } from "../../package.json";
-import { ensureExternalToken } from "../utils/externalToken";
+import { authenticateExternalToken, tokenHasScope } from "../utils/externalToken";
 import { showTargetPickerUI, type SaveTargetRow } from "./pickerUI";
 
 const ENDPOINT_PATH = "/connector/zinspirePickSaveTarget";
@@ -9,7 +9,7 @@ let registered = false;
 
 type PickSaveTargetStatus = "pending" | "done" | "cancelled" | "error" | "expired";
 
-type PickSaveTargetResponse =
+export type PickSaveTargetResponse =
   | { ok: true; cancelled: true }
   | {
       ok: true;
@@ -363,19 +363,25 @@ class ZInspirePickSaveTargetEndpoint {
     headers: Record<string, string | undefined>;
     data: any;
   }): Promise<[number, string, string]> {
-    const expectedToken = ensureExternalToken();
-    const headerMap = req?.headers ?? {};
-    const providedToken =
-      headerMap["x-zinspire-token"] ??
-      (headerMap as any)["X-ZInspire-Token"] ??
-      headerMap["X-ZINSPIRE-TOKEN"];
-    if (!providedToken || providedToken !== expectedToken) {
+    const token = authenticateExternalToken(req?.headers);
+    if (!token) {
       return [
         403,
         "application/json",
         JSON.stringify({ ok: false, error: "FORBIDDEN" }),
       ];
     }
+    if (!tokenHasScope(token, "pick_save_target")) {
+      return [
+        403,
+        "application/json",
+        JSON.stringify({
+          ok: false,
+          code: "SCOPE_DENIED",
+          error: `Token "${token.name}" is not allowed to pick save targets`,
+        }),
+      ];
+    }
 
     const body = req?.data && typeof req.data === "object" ? req.data : {};
     const requestID =
@@ -0,0 +1,474 @@
+import { config, version } from "../../package.json";
+import {
+  authenticateExternalToken,
+  tokenHasScope,
+} from "../utils/externalToken";
+import {
+  deriveRecidFromItem,
+  extractArxivIdFromItem,
+  findItemByRecid,
+  findItemsByRecids,
+  findItemsByArxivs,
+  findItemsByDOIs,
+} from "./inspire/apiUtils";
+import {
+  isUnpublishedPreprint,
+  extractArxivIdFromItem as extractPreprintArxivId,
+  getPreprintWatchEntry,
+} from "./inspire/preprintWatchService";
+
+/**
+ * External read-only query API for zotero-inspire.
+ *
+ * Sibling of `/connector/zinspireWrite` (see connectorWriteApi.ts): same
+ * connector server, same `x-zinspire-token` auth, same JSON envelope. Local
+ * tools use it to map INSPIRE identifiers (recid / arXiv / DOI) to Zotero
+ * items and to read the INSPIRE state the plugin keeps on an item (recid,
+ * texkey, citation counts from Extra, preprint-watch status) without scraping
+ * Zotero's Local API and re-deriving it.
+ *
+ * No op here mutates the library; writes stay on the write endpoint.
+ */
+
+const ENDPOINT_PATH = "/connector/zinspireQuery";
+
+const CAPABILITIES = [
+  "ping",
+  "resolve_by_recid",
+  "resolve_by_arxiv",
+  "resolve_by_doi",
+  "get_inspire_status",
+] as const;
+
+/** Upper bound on identifiers per request (keeps SQL chunks and JSON small). */
+const MAX_IDENTIFIERS = 200;
+
+let previousEndpoint: any | null = null;
+let registered = false;
+
+type QueryResponseBody = Record<string, unknown>;
+type EndpointResult = [number, string, string];
+
+/** Error carrying an HTTP status + machine-readable code for the response. */
+class QueryError extends Error {
+  status: number;
+  code: string;
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "QueryError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function jsonResult(status: number, body: QueryResponseBody): EndpointResult {
+  return [status, "application/json", JSON.stringify(body)];
+}
+
+/**
+ * Read a singular (`recid`) or plural (`recids`) identifier parameter into a
+ * de-duplicated list of trimmed strings.
+ */
+function readIdentifierList(
+  body: Record<string, any>,
+  singular: string,
+  plural: string,
+): string[] {
+  const raw: unknown[] = [];
+  if (Array.isArray(body[plural])) {
+    raw.push(...body[plural]);
+  }
+  if (body[singular] !== undefined) {
+    raw.push(body[singular]);
+  }
+  const values = raw
+    .map((v) => (typeof v === "number" ? String(v) : v))
+    .filter((v): v is string => typeof v === "string" && !!v.trim())
+    .map((v) => v.trim());
+  const unique = Array.from(new Set(values));
+  if (!unique.length) {
+    throw new QueryError(
+      400,
+      "INVALID_PARAMS",
+      `${singular} or ${plural} is required (non-empty string or array of strings)`,
+    );
+  }
+  if (unique.length > MAX_IDENTIFIERS) {
+    throw new QueryError(
+      400,
+      "TOO_MANY_IDENTIFIERS",
+      `At most ${MAX_IDENTIFIERS} identifiers per request (got ${unique.length})`,
+    );
+  }
+  return unique;
+}
+
+/** Resolve an explicit library_id, defaulting to the user library. */
+function resolveLibraryID(raw: unknown): number {
+  if (typeof raw === "number" && Number.isInteger(raw) && raw > 0) {
+    return raw;
+  }
+  if (typeof raw === "string" && /^\d+$/.test(raw.trim())) {
+    return Number.parseInt(raw.trim(), 10);
+  }
+  return Zotero.Libraries.userLibraryID;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Item summaries
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ExtraCitationCounts {
+  total: number | null;
+  without_self: number | null;
+  source: string | null;
+  date: string | null;
+}
+
+/**
+ * Parse the citation lines the plugin writes at the top of Extra, e.g.
+ *   "42 citations (INSPIRE 2025/1/9)"
+ *   "40 citations w/o self (INSPIRE 2025/1/9)"
+ *   "17 citations (CrossRef 2025/1/9)"
+ * Returns null when Extra carries no citation line.
+ */
+export function parseExtraCitationCounts(
+  extra: string | null | undefined,
+): ExtraCitationCounts | null {
+  if (!extra) {
+    return null;
+  }
+  const result: ExtraCitationCounts = {
+    total: null,
+    without_self: null,
+    source: null,
+    date: null,
+  };
+  for (const line of extra.split(/\r?\n/)) {
+    const match = line.match(
+      /^(\d+)\s+citations(\s+w\/o\s+self)?\s*(?:\(([A-Za-z]+)\s+([\d/-]+)\))?/i,
+    );
+    if (!match) continue;
+    const count = Number.parseInt(match[1], 10);
+    if (match[2]) {
+      result.without_self ??= count;
+    } else {
+      result.total ??= count;
+    }
+    result.source ??= match[3] ?? null;
+    result.date ??= match[4] ?? null;
+  }
+  return result.total === null && result.without_self === null ? null : result;
+}
+
+/**
+ * Read the INSPIRE texkey: the native `citationKey` field (Zotero 8+) or the
+ * `Citation Key:` line in Extra (Zotero 7).
+ */
+export function getTexkeyFromItem(item: Zotero.Item): string | null {
+  try {
+    const native = (item.getField("citationKey" as any) as string)?.trim();
+    if (native) {
+      return native;
+    }
+  } catch (_err) {
+    // Field does not exist before Zotero 8
+  }
+  const extra = (item.getField("extra") as string) ?? "";
+  const match = extra.match(/^Citation\sKey:\s*(\S+)\s*$/m);
+  return match ? match[1] : null;
+}
+
+function summarizeItem(item: Zotero.Item): QueryResponseBody {
+  const extra = (item.getField("extra") as string) ?? "";
+  return {
+    library_id: item.libraryID,
+    item_key: item.key,
+    item_id: item.id,
+    item_type: item.itemType,
+    title: (item.getField("title") as string) ?? "",
+    deleted: Boolean((item as any).deleted),
+    recid: deriveRecidFromItem(item),
+    texkey: getTexkeyFromItem(item),
+    arxiv_id: extractArxivIdFromItem(item) ?? null,
+    doi: ((item.getField("DOI") as string) ?? "").trim() || null,
+    citations: parseExtraCitationCounts(extra),
+  };
+}
+
+async function getItemByID(itemID: number): Promise<Zotero.Item | null> {
+  const item = await Zotero.Items.getAsync(itemID);
+  return item ? (item as Zotero.Item) : null;
+}
+
+/**
+ * Build the `matches` array shared by the resolve ops: one entry per requested
+ * identifier, in request order, with the resolved item summary when found.
+ */
+async function buildMatches(
+  identifiers: string[],
+  found: Map<string, number>,
+): Promise<QueryResponseBody[]> {
+  const matches: QueryResponseBody[] = [];
+  for (const id of identifiers) {
+    const itemID = found.get(id);
+    const item = itemID ? await getItemByID(itemID) : null;
+    matches.push(
+      item
+        ? { query: id, found: true, item: summarizeItem(item) }
+        : { query: id, found: false },
+    );
+  }
+  return matches;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Op handlers
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function handlePing(): Promise<EndpointResult> {
+  return jsonResult(200, {
+    ok: true,
+    op: "ping",
+    addon: config.addonName,
+    addon_id: config.addonID,
+    version,
+    capabilities: [...CAPABILITIES],
+  });
+}
+
+async function handleResolveByRecid(
+  body: Record<string, any>,
+): Promise<EndpointResult> {
+  const recids = readIdentifierList(body, "recid", "recids");
+  for (const recid of recids) {
+    if (!/^\d+$/.test(recid)) {
+      throw new QueryError(
+        400,
+        "INVALID_PARAMS",
+        `recid must be numeric: ${recid}`,
+      );
+    }
+  }
+
+  // Archive Location is the canonical recid slot; fall back to the URL scan
+  // of the batch helper for items imported before it was filled.
+  const found = new Map<string, number>();
+  for (const recid of recids) {
+    const item = await findItemByRecid(recid);
+    if (item) {
+      found.set(recid, item.id);
+    }
+  }
+  const missing = recids.filter((r) => !found.has(r));
+  if (missing.length) {
+    for (const [recid, itemID] of await findItemsByRecids(missing)) {
+      found.set(recid, itemID);
+    }
+  }
+
+  return jsonResult(200, {
+    ok: true,
+    op: "resolve_by_recid",
+    matches: await buildMatches(recids, found),
+  });
+}
+
+async function handleResolveByArxiv(
+  body: Record<string, any>,
+): Promise<EndpointResult> {
+  const arxivIds = readIdentifierList(body, "arxiv_id", "arxiv_ids").map((id) =>
+    id.replace(/^arxiv:/i, ""),
+  );
+  const found = await findItemsByArxivs(arxivIds);
+  return jsonResult(200, {
+    ok: true,
+    op: "resolve_by_arxiv",
+    matches: await buildMatches(arxivIds, found),
+  });
+}
+
+async function handleResolveByDOI(
+  body: Record<string, any>,
+): Promise<EndpointResult> {
+  const dois = readIdentifierList(body, "doi", "dois").map((doi) =>
+    doi.replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, ""),
+  );
+  const found = await findItemsByDOIs(dois);
+  return jsonResult(200, {
+    ok: true,
+    op: "resolve_by_doi",
+    matches: await buildMatches(dois, found),
+  });
+}
+
+async function buildPreprintWatchState(
+  item: Zotero.Item,
+): Promise<QueryResponseBody> {
+  const arxivId = extractPreprintArxivId(item);
+  const entry = arxivId ? await getPreprintWatchEntry(arxivId) : undefined;
+  return {
+    is_unpublished_preprint: isUnpublishedPreprint(item),
+    arxiv_id: arxivId,
+    status: entry?.status ?? null,
+    last_checked: entry?.lastChecked
+      ? new Date(entry.lastChecked).toISOString()
+      : null,
+    publication_info: entry?.publicationInfo ?? null,
+  };
+}
+
+async function handleGetInspireStatus(
+  body: Record<string, any>,
+): Promise<EndpointResult> {
+  const keys = readIdentifierList(body, "item_key", "item_keys");
+  const libraryID = resolveLibraryID(body.library_id);
+
+  const items: QueryResponseBody[] = [];
+  for (const key of keys) {
+    const item = (await Zotero.Items.getByLibraryAndKeyAsync(
+      libraryID,
+      key,
+    )) as Zotero.Item | false;
+    if (!item) {
+      items.push({ item_key: key, found: false });
+      continue;
+    }
+    if (!item.isRegularItem()) {
+      items.push({
+        item_key: key,
+        found: true,
+        regular: false,
+        item_type: item.itemType,
+      });
+      continue;
+    }
+    items.push({
+      found: true,
+      regular: true,
+      ...summarizeItem(item),
+      preprint_watch: await buildPreprintWatchState(item),
+    });
+  }
+
+  return jsonResult(200, {
+    ok: true,
+    op: "get_inspire_status",
+    library_id: libraryID,
+    items,
+  });
+}
+
+/**
+ * Dispatch a validated, authenticated query request to the matching handler.
+ * Exported for unit testing without the connector server.
+ */
+export async function dispatchQueryOp(
+  body: Record<string, any>,
+): Promise<EndpointResult> {
+  const op = typeof body.op === "string" ? body.op.trim() : "";
+  try {
+    switch (op) {
+      case "ping":
+        return await handlePing();
+      case "resolve_by_recid":
+        return await handleResolveByRecid(body);
+      case "resolve_by_arxiv":
+        return await handleResolveByArxiv(body);
+      case "resolve_by_doi":
+        return await handleResolveByDOI(body);
+      case "get_inspire_status":
+        return await handleGetInspireStatus(body);
+      default:
+        return jsonResult(400, {
+          ok: false,
+          op: op || undefined,
+          error: `Unknown op: ${op || "(missing)"}`,
+          capabilities: [...CAPABILITIES],
+        });
+    }
+  } catch (err) {
+    if (err instanceof QueryError) {
+      return jsonResult(err.status, {
+        ok: false,
+        op,
+        code: err.code,
+        error: err.message,
+      });
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    Zotero.debug(`[${config.addonName}] query op=${op} failed: ${message}`);
+    return jsonResult(500, {
+      ok: false,
+      op,
+      code: "INTERNAL_ERROR",
+      error: message,
+    });
+  }
+}
+
+class ZInspireQueryEndpoint {
+  supportedMethods = ["POST"];
+  supportedDataTypes = ["application/json"];
+  permitBookmarklet = false;
+
+  async init(req: {
+    headers: Record<string, string | undefined>;
+    data: any;
+  }): Promise<EndpointResult> {
+    const token = authenticateExternalToken(req?.headers);
+    if (!token) {
+      return jsonResult(403, { ok: false, error: "FORBIDDEN" });
+    }
+
+    const body = req?.data && typeof req.data === "object" ? req.data : {};
+    if (body.op !== "ping" && !tokenHasScope(token, "query")) {
+      return jsonResult(403, {
+        ok: false,
+        op: body.op,
+        code: "SCOPE_DENIED",
+        error: `Token "${token.name}" is not allowed to use the query endpoint`,
+      });
+    }
+    return dispatchQueryOp(body);
+  }
+}
+
+export function registerZInspireQueryEndpoint(): void {
+  if (registered) {
+    return;
+  }
+  const endpoints = (Zotero.Server as any)?.Endpoints;
+  if (!endpoints) {
+    Zotero.debug?.(
+      `[${config.addonName}] Zotero.Server.Endpoints not available; cannot register ${ENDPOINT_PATH}`,
+    );
+    return;
+  }
+  if (endpoints[ENDPOINT_PATH] && !previousEndpoint) {
+    previousEndpoint = endpoints[ENDPOINT_PATH];
+  }
+  endpoints[ENDPOINT_PATH] = ZInspireQueryEndpoint as any;
+  registered = true;
+  Zotero.debug?.(
+    `[${config.addonName}] Registered connector endpoint POST ${ENDPOINT_PATH}`,
+  );
+}
+
+export function unregisterZInspireQueryEndpoint(): void {
+  if (!registered) {
+    return;
+  }
+  const endpoints = (Zotero.Server as any)?.Endpoints;
+  if (!endpoints) {
+    registered = false;
+    return;
+  }
+  if (previousEndpoint) {
+    endpoints[ENDPOINT_PATH] = previousEndpoint;
+  } else {
+    delete endpoints[ENDPOINT_PATH];
+  }
+  previousEndpoint = null;
+  registered = false;
+}
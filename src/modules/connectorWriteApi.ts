@@ -1,5 +1,17 @@
 import { config, version } from "../../package.json";
-import { ensureExternalToken } from "../utils/externalToken";
+import {
+  authenticateExternalToken,
+  isExternalTokenScope,
+  tokenHasScope,
+  type ExternalTokenRecord,
+} from "../utils/externalToken";
+import { appendExternalAuditEntry, buildExternalAuditEntry } from "../utils/externalAudit";
+import { getPref } from "../utils/prefs";
+import { createInspireItem, updateItemMetadata } from "./inspire/itemUpdater";
+import { fetchInspireMetaByRecid, searchInspireRecids } from "./inspire/metadataService";
+import { findItemsByArxivs, findItemsByDOIs, findItemsByRecids } from "./inspire/apiUtils";
+import type { PickSaveTargetResponse } from "./connectorPickSaveTarget";
+import { UndoBatchRecorder } from "./inspire/undoJournal";
 
 /**
  * External write API for zotero-inspire.
@@ -11,12 +23,18 @@ import { ensureExternalToken } from "../utils/externalToken";
  *
  * This module registers an authenticated POST endpoint on the same connector
  * server so trusted local tools (e.g. an MCP server) can perform the writes that
- * the native local API cannot: attach a local file to an item, and trash/erase
- * items.
+ * the native local API cannot: attach a local file to an item, trash/erase
+ * items, run the INSPIRE metadata update on existing items, and import new
+ * items from INSPIRE recids or a search query.
  *
  * Security model (defense in depth):
- *  - Every request must carry the `x-zinspire-token` header matching the token
- *    in pref `<prefsPrefix>.external_token` (see {@link ensureExternalToken}).
+ *  - Every request must carry the `x-zinspire-token` header matching an active
+ *    token (the default one in pref `<prefsPrefix>.external_token`, or a named
+ *    token created in the preferences pane; see {@link authenticateExternalToken}).
+ *  - Each token carries capability scopes; an op outside them is rejected with
+ *    403 `SCOPE_DENIED` before it runs.
+ *  - Every op except `ping` (including denied and failed ones) is appended to
+ *    the audit log together with the token that issued it.
  *  - `allowRequestsFromUnsafeWebContent` is intentionally NOT set, so Zotero's
  *    server layer keeps blocking requests that look like they come from web
  *    content (UA starting with `Mozilla/` or carrying an `Origin` header).
@@ -31,8 +49,34 @@ const CAPABILITIES = [
   "attach_file",
   "trash_item",
   "erase_item",
+  "update_metadata",
+  "import_inspire",
 ] as const;
 
+/** Operations accepted by `update_metadata` (same as the "Update Metadata" menu). */
+const UPDATE_OPERATIONS = ["full", "noabstract", "citations"] as const;
+type UpdateOperation = (typeof UPDATE_OPERATIONS)[number];
+
+/** Each item costs one INSPIRE round-trip; keep a single request bounded. */
+const MAX_UPDATE_ITEMS = 50;
+
+/** Same bound for `import_inspire`; also the default page size for `query`. */
+const MAX_IMPORT_ITEMS = 50;
+
+/** INSPIRE sort orders accepted with `import_inspire` + `query`. */
+const IMPORT_SORTS = ["mostrecent", "mostcited"] as const;
+
+/**
+ * `import_inspire` target: the non-cancelled `/connector/zinspirePickSaveTarget`
+ * result, so a picked target can be passed through unchanged. Every field is
+ * optional; `collectionKeys` and `collectionIDs` are merged.
+ */
+type ImportTargetInput = Partial<
+  Omit<Extract<PickSaveTargetResponse, { libraryID: number }>, "ok">
+> & { cancelled?: boolean };
+
+type DuplicateMatch = { itemID: number; matchType: "recid" | "arxiv" | "doi" };
+
 let previousEndpoint: any | null = null;
 let registered = false;
 
@@ -62,6 +106,22 @@ function requireString(value: unknown, field: string): string {
   return value.trim();
 }
 
+function requireKeyList(body: Record<string, any>): string[] {
+  const raw: unknown[] = Array.isArray(body.item_keys) ? [...body.item_keys] : [];
+  if (body.item_key !== undefined) raw.push(body.item_key);
+  const keys = raw
+    .filter((v): v is string => typeof v === "string" && !!v.trim())
+    .map((v) => v.trim());
+  if (!keys.length) {
+    throw new WriteError(
+      400,
+      "INVALID_PARAMS",
+      "item_key or item_keys is required (non-empty string or array of strings)",
+    );
+  }
+  return Array.from(new Set(keys));
+}
+
 function optionalString(value: unknown): string | undefined {
   return typeof value === "string" && value.trim() ? value.trim() : undefined;
 }
@@ -131,7 +191,7 @@ function linkModeLabel(linkMode: number): string {
   }
 }
 
-async function handlePing(): Promise<EndpointResult> {
+async function handlePing(token?: ExternalTokenRecord): Promise<EndpointResult> {
   return jsonResult(200, {
     ok: true,
     op: "ping",
@@ -139,6 +199,7 @@ async function handlePing(): Promise<EndpointResult> {
     addon_id: config.addonID,
     version,
     capabilities: [...CAPABILITIES],
+    ...(token ? { token: { name: token.name, scopes: token.scopes } } : {}),
   });
 }
 
@@ -194,7 +255,11 @@ async function handleTrashItem(body: Record<string, any>): Promise<EndpointResul
   const libraryID = resolveLibraryID(body.library_id);
   const item = await resolveItem(libraryID, key);
 
+  const undoRecorder = new UndoBatchRecorder("trash");
+  undoRecorder.before(item);
   await Zotero.Items.trashTx(item.id);
+  undoRecorder.after(item);
+  await undoRecorder.commit();
   Zotero.debug(`[${config.addonName}] write trash_item ok: ${key} (library ${libraryID})`);
 
   return jsonResult(200, {
@@ -213,7 +278,10 @@ async function handleEraseItem(body: Record<string, any>): Promise<EndpointResul
   const item = await resolveItem(libraryID, key);
   const itemID = item.id;
 
+  const undoRecorder = new UndoBatchRecorder("erase");
+  undoRecorder.recordErase(item);
   await item.eraseTx();
+  await undoRecorder.commit();
   Zotero.debug(`[${config.addonName}] write erase_item ok: ${key} (library ${libraryID})`);
 
   return jsonResult(200, {
@@ -226,22 +294,322 @@ async function handleEraseItem(body: Record<string, any>): Promise<EndpointResul
   });
 }
 
+/**
+ * Resolve the update operation: explicit `operation`, else the user's
+ * auto-update preference ("meta"), else "full".
+ */
+function resolveUpdateOperation(raw: unknown): UpdateOperation {
+  if (raw !== undefined) {
+    if (typeof raw === "string" && (UPDATE_OPERATIONS as readonly string[]).includes(raw)) {
+      return raw as UpdateOperation;
+    }
+    throw new WriteError(
+      400,
+      "INVALID_PARAMS",
+      `operation must be one of: ${UPDATE_OPERATIONS.join(", ")}`,
+    );
+  }
+  const pref = getPref("meta");
+  return (UPDATE_OPERATIONS as readonly string[]).includes(pref)
+    ? (pref as UpdateOperation)
+    : "full";
+}
+
+async function handleUpdateMetadata(body: Record<string, any>): Promise<EndpointResult> {
+  const keys = requireKeyList(body);
+  if (keys.length > MAX_UPDATE_ITEMS) {
+    throw new WriteError(
+      400,
+      "TOO_MANY_ITEMS",
+      `At most ${MAX_UPDATE_ITEMS} items per update_metadata request (got ${keys.length})`,
+    );
+  }
+  const libraryID = resolveLibraryID(body.library_id);
+  const operation = resolveUpdateOperation(body.operation);
+
+  const results: WriteResponseBody[] = [];
+  let updated = 0;
+  const undoRecorder = new UndoBatchRecorder("metadata_update");
+  for (const key of keys) {
+    const item = (await Zotero.Items.getByLibraryAndKeyAsync(libraryID, key)) as
+      | Zotero.Item
+      | false;
+    if (!item) {
+      results.push({ item_key: key, status: "not_found" });
+      continue;
+    }
+    try {
+      // Always compare first so the Smart Update field protections apply to
+      // automated callers, independent of the interactive smart-update pref.
+      undoRecorder.before(item);
+      const result = await updateItemMetadata(item, operation, { smartUpdate: true });
+      undoRecorder.after(item);
+      if (result.status === "updated") updated++;
+      results.push({
+        item_key: key,
+        item_id: item.id,
+        status: result.status,
+        recid: result.recid ?? null,
+        applied_changes: result.appliedChanges ?? [],
+        skipped_changes: result.skippedChanges ?? [],
+        diff: result.diff ?? null,
+        ...(result.crossrefCount !== undefined
+          ? { crossref_count: result.crossrefCount }
+          : {}),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      results.push({ item_key: key, item_id: item.id, status: "error", error: message });
+    }
+  }
+  await undoRecorder.commit();
+  Zotero.debug(
+    `[${config.addonName}] write update_metadata ok: operation=${operation} updated=${updated}/${keys.length} (library ${libraryID})`,
+  );
+
+  return jsonResult(200, {
+    ok: true,
+    op: "update_metadata",
+    operation,
+    library_id: libraryID,
+    updated,
+    results,
+  });
+}
+
+function requireRecidList(body: Record<string, any>): string[] {
+  const raw: unknown[] = Array.isArray(body.recids) ? [...body.recids] : [];
+  if (body.recid !== undefined) raw.push(body.recid);
+  const recids = raw.map((v) => (typeof v === "number" ? String(v) : v));
+  const invalid = recids.find((v) => typeof v !== "string" || !/^\d+$/.test(v.trim()));
+  if (invalid !== undefined || !recids.length) {
+    throw new WriteError(
+      400,
+      "INVALID_PARAMS",
+      "recid or recids must be numeric INSPIRE record ids",
+    );
+  }
+  return Array.from(new Set((recids as string[]).map((v) => v.trim())));
+}
+
+/**
+ * Resolve the recids to import: explicit `recid`/`recids`, or the first page
+ * of an INSPIRE search for `query` (at most `limit` hits).
+ */
+async function resolveImportRecids(
+  body: Record<string, any>,
+): Promise<{ recids: string[]; query?: string; total?: number }> {
+  const query = optionalString(body.query);
+  const hasRecids = body.recid !== undefined || body.recids !== undefined;
+  if (query && hasRecids) {
+    throw new WriteError(400, "INVALID_PARAMS", "Pass either recids or query, not both");
+  }
+  if (!query) {
+    if (!hasRecids) {
+      throw new WriteError(400, "INVALID_PARAMS", "recid, recids or query is required");
+    }
+    const recids = requireRecidList(body);
+    if (recids.length > MAX_IMPORT_ITEMS) {
+      throw new WriteError(
+        400,
+        "TOO_MANY_ITEMS",
+        `At most ${MAX_IMPORT_ITEMS} recids per import_inspire request (got ${recids.length})`,
+      );
+    }
+    return { recids };
+  }
+
+  let limit = MAX_IMPORT_ITEMS;
+  if (body.limit !== undefined) {
+    if (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > MAX_IMPORT_ITEMS) {
+      throw new WriteError(
+        400,
+        "INVALID_PARAMS",
+        `limit must be an integer between 1 and ${MAX_IMPORT_ITEMS}`,
+      );
+    }
+    limit = body.limit;
+  }
+  const sort = body.sort === undefined ? "mostrecent" : body.sort;
+  if (!(IMPORT_SORTS as readonly string[]).includes(sort)) {
+    throw new WriteError(400, "INVALID_PARAMS", `sort must be one of: ${IMPORT_SORTS.join(", ")}`);
+  }
+  const search = await searchInspireRecids(query, limit, sort);
+  if (!search) {
+    throw new WriteError(502, "INSPIRE_UNAVAILABLE", `INSPIRE search failed for query: ${query}`);
+  }
+  return { recids: search.recids, query, total: search.total };
+}
+
+/**
+ * Turn a PickSaveTarget-shaped object into an import target. Collection keys
+ * and IDs must belong to the target library.
+ */
+async function resolveImportTarget(
+  raw: unknown,
+): Promise<{ libraryID: number; collectionIDs: number[]; tags: string[]; note?: string }> {
+  if (raw !== undefined && (typeof raw !== "object" || raw === null || Array.isArray(raw))) {
+    throw new WriteError(400, "INVALID_PARAMS", "target must be an object");
+  }
+  const target = (raw ?? {}) as ImportTargetInput;
+  if (target.cancelled) {
+    throw new WriteError(400, "TARGET_CANCELLED", "target is a cancelled save-target pick");
+  }
+  const libraryID = resolveLibraryID(target.libraryID);
+
+  const collectionIDs = new Set<number>();
+  for (const key of Array.isArray(target.collectionKeys) ? target.collectionKeys : []) {
+    const collection =
+      typeof key === "string"
+        ? await Zotero.Collections.getByLibraryAndKeyAsync(libraryID, key)
+        : false;
+    if (!collection) {
+      throw new WriteError(
+        404,
+        "COLLECTION_NOT_FOUND",
+        `No collection with key ${key} in library ${libraryID}`,
+      );
+    }
+    collectionIDs.add(collection.id);
+  }
+  for (const id of Array.isArray(target.collectionIDs) ? target.collectionIDs : []) {
+    const collection = typeof id === "number" ? Zotero.Collections.get(id) : false;
+    if (!collection || collection.libraryID !== libraryID) {
+      throw new WriteError(
+        404,
+        "COLLECTION_NOT_FOUND",
+        `No collection with ID ${id} in library ${libraryID}`,
+      );
+    }
+    collectionIDs.add(collection.id);
+  }
+
+  const tags = (Array.isArray(target.tags) ? target.tags : [])
+    .filter((t): t is string => typeof t === "string" && !!t.trim())
+    .map((t) => t.trim());
+  return {
+    libraryID,
+    collectionIDs: Array.from(collectionIDs),
+    tags,
+    note: optionalString(target.note),
+  };
+}
+
+/**
+ * Same priority as the References panel's duplicate detection
+ * (recid > arXiv > DOI), using the identifiers of the fetched record.
+ */
+async function findDuplicateForMeta(meta: Record<string, any>): Promise<DuplicateMatch | null> {
+  const arxivId = typeof meta.arxiv?.value === "string" ? meta.arxiv.value : "";
+  if (arxivId) {
+    const itemID = (await findItemsByArxivs([arxivId])).get(arxivId);
+    if (itemID !== undefined) return { itemID, matchType: "arxiv" };
+  }
+  const doi = typeof meta.DOI === "string" ? meta.DOI : "";
+  if (doi) {
+    const itemID = (await findItemsByDOIs([doi])).get(doi);
+    if (itemID !== undefined) return { itemID, matchType: "doi" };
+  }
+  return null;
+}
+
+async function describeDuplicate(recid: string, match: DuplicateMatch): Promise<WriteResponseBody> {
+  const existing = (await Zotero.Items.getAsync(match.itemID)) as Zotero.Item | false;
+  return {
+    recid,
+    status: "duplicate",
+    match_type: match.matchType,
+    library_id: existing ? existing.libraryID : null,
+    item_key: existing ? existing.key : null,
+    item_id: match.itemID,
+  };
+}
+
+async function handleImportInspire(body: Record<string, any>): Promise<EndpointResult> {
+  const target = await resolveImportTarget(body.target);
+  const { recids, query, total } = await resolveImportRecids(body);
+
+  const byRecid = await findItemsByRecids(recids);
+  const results: WriteResponseBody[] = [];
+  let imported = 0;
+  for (const recid of recids) {
+    try {
+      const existingID = byRecid.get(recid);
+      if (existingID !== undefined) {
+        results.push(await describeDuplicate(recid, { itemID: existingID, matchType: "recid" }));
+        continue;
+      }
+      const meta = await fetchInspireMetaByRecid(recid);
+      if (meta === -1) {
+        results.push({ recid, status: "not_found" });
+        continue;
+      }
+      const duplicate = await findDuplicateForMeta(meta);
+      if (duplicate) {
+        results.push(await describeDuplicate(recid, duplicate));
+        continue;
+      }
+      const item = await createInspireItem(meta, target);
+      imported++;
+      results.push({
+        recid,
+        status: "imported",
+        library_id: item.libraryID,
+        item_key: item.key,
+        item_id: item.id,
+        title: item.getField("title"),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      results.push({ recid, status: "error", error: message });
+    }
+  }
+  Zotero.debug(
+    `[${config.addonName}] write import_inspire ok: imported=${imported}/${recids.length} (library ${target.libraryID})`,
+  );
+
+  return jsonResult(200, {
+    ok: true,
+    op: "import_inspire",
+    ...(query !== undefined ? { query, total } : {}),
+    library_id: target.libraryID,
+    collection_ids: target.collectionIDs,
+    imported,
+    results,
+  });
+}
+
 /**
  * Dispatch a validated, authenticated write request to the matching op handler.
  * Exported for unit testing without the connector server.
  */
-export async function dispatchWriteOp(body: Record<string, any>): Promise<EndpointResult> {
+export async function dispatchWriteOp(
+  body: Record<string, any>,
+  token?: ExternalTokenRecord,
+): Promise<EndpointResult> {
   const op = typeof body.op === "string" ? body.op.trim() : "";
+  if (token && isExternalTokenScope(op) && !tokenHasScope(token, op)) {
+    return jsonResult(403, {
+      ok: false,
+      op,
+      code: "SCOPE_DENIED",
+      error: `Token "${token.name}" is not allowed to run ${op}`,
+    });
+  }
   try {
     switch (op) {
       case "ping":
-        return await handlePing();
+        return await handlePing(token);
       case "attach_file":
         return await handleAttachFile(body);
       case "trash_item":
         return await handleTrashItem(body);
       case "erase_item":
         return await handleEraseItem(body);
+      case "update_metadata":
+        return await handleUpdateMetadata(body);
+      case "import_inspire":
+        return await handleImportInspire(body);
       default:
         return jsonResult(400, {
           ok: false,
@@ -269,18 +637,17 @@ class ZInspireWriteEndpoint {
     headers: Record<string, string | undefined>;
     data: any;
   }): Promise<EndpointResult> {
-    const expectedToken = ensureExternalToken();
-    const headerMap = req?.headers ?? {};
-    const providedToken =
-      headerMap["x-zinspire-token"] ??
-      (headerMap as any)["X-ZInspire-Token"] ??
-      headerMap["X-ZINSPIRE-TOKEN"];
-    if (!providedToken || providedToken !== expectedToken) {
+    const token = authenticateExternalToken(req?.headers);
+    if (!token) {
       return jsonResult(403, { ok: false, error: "FORBIDDEN" });
     }
 
     const body = req?.data && typeof req.data === "object" ? req.data : {};
-    return dispatchWriteOp(body);
+    const result = await dispatchWriteOp(body, token);
+    if (body.op !== "ping") {
+      void appendExternalAuditEntry(buildExternalAuditEntry(token, body, result));
+    }
+    return result;
   }
 }
 
@@ -0,0 +1,450 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Author Dashboard Dialog - Bibliometrics of the author shown in the panel
+// Summary indices, per-year bars, authorship splits, top co-authors, citing
+// institutions and arXiv categories, with CSV export for reports.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import type { FluentMessageId } from "../../../typings/i10n";
+import { getString } from "../../utils/locale";
+import { copyToClipboard } from "./apiUtils";
+import {
+  buildAuthorDashboardCsv,
+  loadAuthorDashboard,
+  type AuthorDashboard,
+} from "./authorDashboardService";
+import type { AuthorSearchInfo, InspireReferenceEntry } from "./types";
+import { createAbortController } from "./utils";
+
+const OVERLAY_ID = "zinspire-author-dashboard-overlay";
+const BAR_COLOR = "#0066cc";
+
+function styleButton(button: HTMLButtonElement, primary = false) {
+  button.style.padding = "6px 12px";
+  button.style.border = primary
+    ? "none"
+    : "1px solid var(--fill-quinary, #ccc)";
+  button.style.borderRadius = "4px";
+  button.style.background = primary
+    ? "#0066cc"
+    : "var(--material-background, #fff)";
+  button.style.color = primary ? "#fff" : "inherit";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+}
+
+async function promptSaveFile(
+  win: Window,
+  defaultFilename: string,
+): Promise<string | null> {
+  const FilePickerCtor = (win as any).FilePicker;
+  if (!FilePickerCtor) return null;
+  const fp = new FilePickerCtor();
+  fp.init(win, getString("author-dashboard-export-title"), fp.modeSave);
+  fp.appendFilter("CSV", "*.csv");
+  fp.appendFilters(fp.filterAll);
+  fp.defaultString = defaultFilename;
+  const result = await fp.show();
+  return result === fp.returnOK || result === fp.returnReplace ? fp.file : null;
+}
+
+/**
+ * Show the dashboard of an author over the given window.
+ * `entries` are the author's papers as loaded in the panel.
+ * Resolves when the dialog is closed.
+ */
+export function showAuthorDashboardDialog(
+  win: Window,
+  author: AuthorSearchInfo,
+  entries: InspireReferenceEntry[],
+): Promise<void> {
+  return new Promise((resolve) => {
+    const doc = win.document;
+    doc.getElementById(OVERLAY_ID)?.remove();
+
+    let dashboard: AuthorDashboard | undefined;
+    const abort = createAbortController();
+
+    // Create overlay
+    const overlay = doc.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.position = "fixed";
+    overlay.style.top = "0";
+    overlay.style.left = "0";
+    overlay.style.width = "100%";
+    overlay.style.height = "100%";
+    overlay.style.zIndex = "10000";
+    overlay.style.backgroundColor = "rgba(0, 0, 0, 0.4)";
+    overlay.style.display = "flex";
+    overlay.style.alignItems = "center";
+    overlay.style.justifyContent = "center";
+
+    // Create panel
+    const panel = doc.createElement("div");
+    panel.style.backgroundColor = "var(--material-background, #fff)";
+    panel.style.color = "var(--fill-primary, #000)";
+    panel.style.border = "1px solid var(--fill-quinary, #ccc)";
+    panel.style.borderRadius = "8px";
+    panel.style.boxShadow = "0 4px 24px rgba(0, 0, 0, 0.25)";
+    panel.style.display = "flex";
+    panel.style.flexDirection = "column";
+    panel.style.fontSize = "13px";
+    panel.style.maxWidth = "760px";
+    panel.style.width = "90%";
+    panel.style.height = "85vh";
+    panel.style.overflow = "hidden";
+    overlay.appendChild(panel);
+
+    // Header
+    const header = doc.createElement("div");
+    header.style.padding = "12px 16px";
+    header.style.borderBottom = "1px solid var(--fill-quinary, #eee)";
+    header.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    header.style.borderRadius = "8px 8px 0 0";
+    const heading = doc.createElement("div");
+    heading.style.fontWeight = "600";
+    heading.style.fontSize = "14px";
+    heading.textContent = `📊 ${author.fullName}`;
+    header.appendChild(heading);
+    const subheading = doc.createElement("div");
+    subheading.style.fontSize = "12px";
+    subheading.style.color = "var(--fill-secondary, #666)";
+    header.appendChild(subheading);
+    panel.appendChild(header);
+
+    // Dashboard sections
+    const body = doc.createElement("div");
+    body.style.flex = "1";
+    body.style.overflowY = "auto";
+    body.style.padding = "8px 16px 16px";
+    body.textContent = getString("author-dashboard-loading");
+    panel.appendChild(body);
+
+    // Actions bar
+    const actions = doc.createElement("div");
+    actions.style.padding = "12px 16px";
+    actions.style.display = "flex";
+    actions.style.alignItems = "center";
+    actions.style.gap = "8px";
+    actions.style.borderTop = "1px solid var(--fill-quinary, #eee)";
+    actions.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    actions.style.borderRadius = "0 0 8px 8px";
+
+    const status = doc.createElement("span");
+    status.style.flex = "1";
+    status.style.fontSize = "12px";
+    status.style.color = "var(--fill-secondary, #666)";
+    actions.appendChild(status);
+
+    const makeButton = (l10nKey: FluentMessageId, primary = false) => {
+      const button = doc.createElement("button");
+      button.textContent = getString(l10nKey);
+      styleButton(button, primary);
+      actions.appendChild(button);
+      return button;
+    };
+    const copyBtn = makeButton("author-dashboard-copy-csv");
+    const exportBtn = makeButton("author-dashboard-export-csv");
+    const closeBtn = makeButton("author-dashboard-close", true);
+    copyBtn.disabled = true;
+    exportBtn.disabled = true;
+    panel.appendChild(actions);
+
+    const addSection = (l10nKey: FluentMessageId, note?: string) => {
+      const section = doc.createElement("div");
+      section.style.marginTop = "12px";
+      const title = doc.createElement("div");
+      title.style.fontWeight = "600";
+      title.style.marginBottom = "4px";
+      title.textContent = getString(l10nKey);
+      section.appendChild(title);
+      if (note) {
+        const noteEl = doc.createElement("div");
+        noteEl.style.fontSize = "11px";
+        noteEl.style.color = "var(--fill-secondary, #888)";
+        noteEl.style.marginBottom = "4px";
+        noteEl.textContent = note;
+        section.appendChild(noteEl);
+      }
+      body.appendChild(section);
+      return section;
+    };
+
+    const addUnavailable = (section: HTMLElement) => {
+      const empty = doc.createElement("div");
+      empty.style.fontSize = "12px";
+      empty.style.color = "var(--fill-secondary, #888)";
+      empty.textContent = getString("author-dashboard-unavailable");
+      section.appendChild(empty);
+    };
+
+    /** One row per label with a bar scaled to the largest value */
+    const addBars = (
+      section: HTMLElement,
+      rows: Array<{ label: string; value: number; href?: string }>,
+    ) => {
+      if (!rows.length) {
+        addUnavailable(section);
+        return;
+      }
+      const max = Math.max(...rows.map((row) => row.value), 1);
+      const table = doc.createElement("div");
+      table.style.display = "grid";
+      table.style.gridTemplateColumns = "minmax(60px, max-content) 1fr auto";
+      table.style.columnGap = "8px";
+      table.style.rowGap = "2px";
+      table.style.alignItems = "center";
+      table.style.fontSize = "12px";
+      for (const row of rows) {
+        const label = doc.createElement(row.href ? "a" : "span");
+        label.style.overflow = "hidden";
+        label.style.textOverflow = "ellipsis";
+        label.style.whiteSpace = "nowrap";
+        label.style.maxWidth = "260px";
+        label.textContent = row.label;
+        label.title = row.label;
+        if (row.href) {
+          const href = row.href;
+          label.style.color = "#0066cc";
+          label.style.cursor = "pointer";
+          label.addEventListener("click", (e) => {
+            e.preventDefault();
+            Zotero.launchURL?.(href);
+          });
+        }
+        const track = doc.createElement("div");
+        track.style.height = "10px";
+        const bar = doc.createElement("div");
+        bar.style.height = "100%";
+        bar.style.width = `${(row.value / max) * 100}%`;
+        bar.style.minWidth = row.value > 0 ? "2px" : "0";
+        bar.style.backgroundColor = BAR_COLOR;
+        bar.style.borderRadius = "2px";
+        track.appendChild(bar);
+        const value = doc.createElement("span");
+        value.style.textAlign = "right";
+        value.style.fontVariantNumeric = "tabular-nums";
+        value.textContent = row.value.toLocaleString();
+        table.append(label, track, value);
+      }
+      section.appendChild(table);
+    };
+
+    const render = ({ author: info, profile, stats }: AuthorDashboard) => {
+      heading.textContent = `📊 ${profile?.name || info.fullName}${info.bai ? ` (${info.bai})` : ""}`;
+      subheading.textContent = profile?.currentPosition?.institution ?? "";
+      body.replaceChildren();
+
+      // Summary
+      const summary = addSection("author-dashboard-summary");
+      const grid = doc.createElement("div");
+      grid.style.display = "grid";
+      grid.style.gridTemplateColumns = "repeat(auto-fill, minmax(110px, 1fr))";
+      grid.style.gap = "8px";
+      const metrics: Array<[FluentMessageId, number]> = [
+        ["author-dashboard-papers", stats.paperCount],
+        ["author-dashboard-citations", stats.totalCitations],
+        ["author-dashboard-citations-no-self", stats.citationsWithoutSelf],
+        ["author-dashboard-h-index", stats.hIndex],
+        ["author-dashboard-i10-index", stats.i10Index],
+        ["author-dashboard-g-index", stats.gIndex],
+      ];
+      for (const [l10nKey, value] of metrics) {
+        const cell = doc.createElement("div");
+        cell.style.padding = "6px 8px";
+        cell.style.border = "1px solid var(--fill-quinary, #eee)";
+        cell.style.borderRadius = "6px";
+        const valueEl = doc.createElement("div");
+        valueEl.style.fontSize = "16px";
+        valueEl.style.fontWeight = "600";
+        valueEl.textContent = value.toLocaleString();
+        const labelEl = doc.createElement("div");
+        labelEl.style.fontSize = "11px";
+        labelEl.style.color = "var(--fill-secondary, #666)";
+        labelEl.textContent = getString(l10nKey);
+        cell.append(valueEl, labelEl);
+        grid.appendChild(cell);
+      }
+      summary.appendChild(grid);
+
+      addBars(
+        addSection("author-dashboard-citations-per-year"),
+        (stats.citationsPerYear ?? []).map((row) => ({
+          label: row.year,
+          value: row.citations,
+        })),
+      );
+      addBars(
+        addSection("author-dashboard-papers-per-year"),
+        stats.papersPerYear.map((row) => ({
+          label: row.year,
+          value: row.papers,
+        })),
+      );
+
+      // Authorship splits
+      const splits = addSection("author-dashboard-authorship");
+      const splitTable = doc.createElement("table");
+      splitTable.style.borderCollapse = "collapse";
+      splitTable.style.fontSize = "12px";
+      const splitRows: Array<[FluentMessageId, keyof typeof stats.splits]> = [
+        ["author-dashboard-first-author", "firstAuthor"],
+        ["author-dashboard-single-author", "solo"],
+        ["author-dashboard-small-group", "smallGroup"],
+        ["author-dashboard-collaboration", "collaboration"],
+      ];
+      const headRow = doc.createElement("tr");
+      for (const l10nKey of [
+        undefined,
+        "author-dashboard-papers",
+        "author-dashboard-citations",
+      ] as const) {
+        const th = doc.createElement("th");
+        th.style.padding = "2px 12px 2px 0";
+        th.style.textAlign = l10nKey ? "right" : "left";
+        th.style.fontWeight = "500";
+        th.textContent = l10nKey ? getString(l10nKey) : "";
+        headRow.appendChild(th);
+      }
+      splitTable.appendChild(headRow);
+      for (const [l10nKey, split] of splitRows) {
+        const tr = doc.createElement("tr");
+        const { papers, citations } = stats.splits[split];
+        for (const [i, text] of [
+          getString(l10nKey),
+          papers.toLocaleString(),
+          citations.toLocaleString(),
+        ].entries()) {
+          const td = doc.createElement("td");
+          td.style.padding = "2px 12px 2px 0";
+          td.style.textAlign = i ? "right" : "left";
+          td.textContent = text;
+          tr.appendChild(td);
+        }
+        splitTable.appendChild(tr);
+      }
+      splits.appendChild(splitTable);
+
+      if (stats.coauthors) {
+        addBars(
+          addSection(
+            "author-dashboard-coauthors",
+            getString("author-dashboard-coauthors-note"),
+          ),
+          stats.coauthors.map((row) => ({
+            label: row.name,
+            value: row.papers,
+            href: row.recid
+              ? `https://inspirehep.net/authors/${row.recid}`
+              : undefined,
+          })),
+        );
+      } else {
+        addUnavailable(addSection("author-dashboard-coauthors"));
+      }
+
+      if (stats.citingInstitutions) {
+        addBars(
+          addSection(
+            "author-dashboard-citing-institutions",
+            getString("author-dashboard-citing-institutions-note", {
+              args: { count: stats.citingSampleSize ?? 0 },
+            }),
+          ),
+          stats.citingInstitutions.map((row) => ({
+            label: row.name,
+            value: row.papers,
+          })),
+        );
+      } else {
+        addUnavailable(addSection("author-dashboard-citing-institutions"));
+      }
+
+      addBars(
+        addSection("author-dashboard-arxiv-categories"),
+        stats.arxivCategories.map((row) => ({
+          label: row.category,
+          value: row.papers,
+        })),
+      );
+    };
+
+    const getFilename = () => {
+      const name = (dashboard?.profile?.name || author.fullName)
+        .replace(/[^\w.-]+/g, "_")
+        .replace(/^_+|_+$/g, "");
+      return `${name || "author"}-dashboard.csv`;
+    };
+
+    copyBtn.addEventListener("click", async () => {
+      if (!dashboard) return;
+      const copied = await copyToClipboard(buildAuthorDashboardCsv(dashboard));
+      status.textContent = getString(
+        copied ? "author-dashboard-copied" : "author-dashboard-export-failed",
+      );
+    });
+    exportBtn.addEventListener("click", async () => {
+      if (!dashboard) return;
+      try {
+        const path = await promptSaveFile(win, getFilename());
+        if (!path) return;
+        await Zotero.File.putContentsAsync(
+          path,
+          buildAuthorDashboardCsv(dashboard),
+        );
+        status.textContent = getString("author-dashboard-exported", {
+          args: { path },
+        });
+      } catch (err) {
+        Zotero.debug(
+          `[${config.addonName}] Author dashboard export failed: ${err}`,
+        );
+        status.textContent = getString("author-dashboard-export-failed");
+      }
+    });
+
+    // Add to document
+    doc.documentElement.appendChild(overlay);
+
+    let isFinished = false;
+
+    const finish = () => {
+      if (isFinished) return;
+      isFinished = true;
+      abort?.abort();
+      overlay.remove();
+      doc.removeEventListener("keydown", onKeyDown, true);
+      resolve();
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        event.stopPropagation();
+        finish();
+      }
+    };
+
+    closeBtn.addEventListener("click", finish);
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) finish();
+    });
+    doc.addEventListener("keydown", onKeyDown, true);
+
+    loadAuthorDashboard(entries, author, abort?.signal)
+      .then((result) => {
+        if (isFinished) return;
+        dashboard = result;
+        render(result);
+        copyBtn.disabled = false;
+        exportBtn.disabled = false;
+      })
+      .catch((err) => {
+        if ((err as Error)?.name === "AbortError") return;
+        Zotero.debug(
+          `[${config.addonName}] Author dashboard failed to load: ${err}`,
+        );
+        body.textContent = String(err);
+      });
+  });
+}
@@ -0,0 +1,417 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Author Dashboard - Bibliometrics of an author
+// Paper-level numbers (indices, per-year counts, authorship splits, arXiv
+// categories) are computed from the author papers already loaded in the
+// panel. Citations per year, co-authors and citing institutions need extra
+// INSPIRE requests and are left out when offline or when a request fails.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { buildAuthorFeedQuery } from "./authorFeedService";
+import { fetchAuthorProfile } from "./authorProfileService";
+import { extractAuthorSearchInfos } from "./authorUtils";
+import { INSPIRE_API_BASE, buildFieldsParam } from "./constants";
+import { isOfflineMode } from "./offlineMode";
+import { inspireFetch } from "./rateLimiter";
+import { escapeCsvCell } from "./utils";
+import type {
+  AuthorDashboardStats,
+  AuthorPaperSplit,
+  AuthorSearchInfo,
+  InspireAuthorProfile,
+  InspireReferenceEntry,
+} from "./types";
+
+/** Largest author count of a "small group" paper (INSPIRE's "10 authors or less") */
+const SMALL_GROUP_MAX_AUTHORS = 10;
+const TOP_COAUTHORS = 20;
+const TOP_INSTITUTIONS = 20;
+/** Recent small-group papers scanned for co-authors */
+const COAUTHOR_SAMPLE_SIZE = 250;
+/** Recent citing papers scanned for institutions */
+const CITING_SAMPLE_SIZE = 250;
+/** Most cited papers whose citing papers are sampled */
+const CITING_QUERY_RECIDS = 25;
+
+export interface AuthorDashboard {
+  /** Author info completed with the BAI and recid of the profile */
+  author: AuthorSearchInfo;
+  profile: InspireAuthorProfile | null;
+  stats: AuthorDashboardStats;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Paper-level statistics
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * h-, i10- and g-index of a list of citation counts.
+ * g-index: the largest g such that the g most cited papers have at least
+ * g² citations in total (capped at the number of papers).
+ */
+export function calculateAuthorIndices(citations: number[]): {
+  hIndex: number;
+  i10Index: number;
+  gIndex: number;
+} {
+  const sorted = [...citations].sort((a, b) => b - a);
+  let hIndex = 0;
+  let gIndex = 0;
+  let sum = 0;
+  sorted.forEach((count, i) => {
+    if (count >= i + 1) hIndex = i + 1;
+    sum += count;
+    if (sum >= (i + 1) * (i + 1)) gIndex = i + 1;
+  });
+  return {
+    hIndex,
+    i10Index: sorted.filter((count) => count >= 10).length,
+    gIndex,
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Whether `candidate` is the author (recid > BAI > full name) */
+function isSameAuthor(
+  candidate: AuthorSearchInfo | undefined,
+  author: AuthorSearchInfo,
+): boolean {
+  if (!candidate) return false;
+  if (candidate.recid && author.recid) return candidate.recid === author.recid;
+  if (candidate.bai && author.bai) return candidate.bai === author.bai;
+  return (
+    !!candidate.fullName &&
+    normalizeName(candidate.fullName) === normalizeName(author.fullName)
+  );
+}
+
+function getArxivCategories(entry: InspireReferenceEntry): string[] {
+  const details = entry.arxivDetails;
+  return details && typeof details === "object" && details.categories
+    ? details.categories
+    : [];
+}
+
+function countToSortedList<K extends string>(
+  counts: Map<string, number>,
+  key: K,
+  limit?: number,
+): Array<Record<K, string> & { papers: number }> {
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(
+      ([name, papers]) =>
+        ({ [key]: name, papers }) as Record<K, string> & { papers: number },
+    );
+}
+
+/** Statistics that only need the author's papers. */
+export function computeAuthorDashboardStats(
+  entries: InspireReferenceEntry[],
+  author: AuthorSearchInfo,
+): AuthorDashboardStats {
+  const citations = entries.map((entry) => entry.citationCount ?? 0);
+  const byYear = new Map<string, { papers: number; citations: number }>();
+  const categories = new Map<string, number>();
+  const emptySplit = (): AuthorPaperSplit => ({ papers: 0, citations: 0 });
+  const splits = {
+    firstAuthor: emptySplit(),
+    solo: emptySplit(),
+    smallGroup: emptySplit(),
+    collaboration: emptySplit(),
+  };
+  let citationsWithoutSelf = 0;
+
+  entries.forEach((entry, i) => {
+    const count = citations[i];
+    citationsWithoutSelf += entry.citationCountWithoutSelf ?? count;
+
+    if (/^\d{4}$/.test(entry.year)) {
+      const year = byYear.get(entry.year) ?? { papers: 0, citations: 0 };
+      year.papers++;
+      year.citations += count;
+      byYear.set(entry.year, year);
+    }
+
+    const addTo = (split: AuthorPaperSplit) => {
+      split.papers++;
+      split.citations += count;
+    };
+    const firstAuthor = entry.authorSearchInfos?.[0] ?? {
+      fullName: entry.authors[0] ?? "",
+    };
+    if (isSameAuthor(firstAuthor, author)) addTo(splits.firstAuthor);
+    const authorCount = entry.totalAuthors || entry.authors.length;
+    if (authorCount <= 1) addTo(splits.solo);
+    else if (authorCount <= SMALL_GROUP_MAX_AUTHORS) addTo(splits.smallGroup);
+    else addTo(splits.collaboration);
+
+    for (const category of new Set(getArxivCategories(entry))) {
+      categories.set(category, (categories.get(category) ?? 0) + 1);
+    }
+  });
+
+  return {
+    paperCount: entries.length,
+    totalCitations: citations.reduce((sum, count) => sum + count, 0),
+    citationsWithoutSelf,
+    ...calculateAuthorIndices(citations),
+    papersPerYear: [...byYear]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([year, counts]) => ({ year, ...counts })),
+    splits,
+    arxivCategories: countToSortedList(categories, "category"),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// INSPIRE requests
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function fetchJson(url: string, signal?: AbortSignal): Promise<any> {
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: "interactive",
+  });
+  if (!response.ok) {
+    throw new Error(`INSPIRE HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+async function searchLiterature(
+  query: string,
+  fields: string,
+  size: number,
+  signal?: AbortSignal,
+): Promise<Array<Record<string, any>>> {
+  const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${size}&page=1&sort=mostrecent${buildFieldsParam(fields)}`;
+  const payload = await fetchJson(url, signal);
+  return (payload?.hits?.hits ?? [])
+    .map((hit: { metadata?: Record<string, any> }) => hit?.metadata)
+    .filter(Boolean);
+}
+
+/** Citations received per calendar year (INSPIRE citations-by-year facet) */
+export async function fetchCitationsPerYear(
+  query: string,
+  signal?: AbortSignal,
+): Promise<Array<{ year: string; citations: number }>> {
+  const url = `${INSPIRE_API_BASE}/literature/facets?q=${encodeURIComponent(query)}&facet_name=citations-by-year`;
+  const payload = await fetchJson(url, signal);
+  const value = payload?.aggregations?.citations_by_year?.value;
+  if (!value || typeof value !== "object") {
+    throw new Error("No citations-by-year aggregation");
+  }
+  return Object.entries(value as Record<string, number>)
+    .filter(([year, count]) => /^\d{4}$/.test(year) && Number(count) > 0)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([year, count]) => ({ year, citations: Number(count) }));
+}
+
+/** Most frequent co-authors on the author's recent small-group papers */
+export async function fetchTopCoauthors(
+  query: string,
+  author: AuthorSearchInfo,
+  signal?: AbortSignal,
+): Promise<NonNullable<AuthorDashboardStats["coauthors"]>> {
+  const papers = await searchLiterature(
+    `${query} and ac 1->${SMALL_GROUP_MAX_AUTHORS}`,
+    "control_number,authors.full_name,authors.ids,authors.record",
+    COAUTHOR_SAMPLE_SIZE,
+    signal,
+  );
+  const counts = new Map<
+    string,
+    { name: string; recid?: string; papers: number }
+  >();
+  for (const paper of papers) {
+    const infos =
+      extractAuthorSearchInfos(paper.authors, SMALL_GROUP_MAX_AUTHORS) ?? [];
+    const seen = new Set<string>();
+    for (const info of infos) {
+      if (!info.fullName || isSameAuthor(info, author)) continue;
+      const key = info.recid
+        ? `recid:${info.recid}`
+        : info.bai
+          ? `bai:${info.bai}`
+          : normalizeName(info.fullName);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const coauthor = counts.get(key) ?? {
+        name: info.fullName,
+        recid: info.recid,
+        papers: 0,
+      };
+      coauthor.papers++;
+      counts.set(key, coauthor);
+    }
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.papers - a.papers || a.name.localeCompare(b.name))
+    .slice(0, TOP_COAUTHORS);
+}
+
+/**
+ * Most frequent institutions among recent papers (up to 10 authors) citing
+ * the author's most cited papers. Each citing paper counts an institution
+ * once.
+ */
+export async function fetchTopCitingInstitutions(
+  recids: string[],
+  signal?: AbortSignal,
+): Promise<{
+  institutions: NonNullable<AuthorDashboardStats["citingInstitutions"]>;
+  sampleSize: number;
+}> {
+  if (!recids.length) return { institutions: [], sampleSize: 0 };
+  const refersto = recids
+    .map((recid) => `refersto:recid:${recid}`)
+    .join(" or ");
+  const papers = await searchLiterature(
+    `(${refersto}) and ac 1->${SMALL_GROUP_MAX_AUTHORS}`,
+    "control_number,authors.affiliations.value",
+    CITING_SAMPLE_SIZE,
+    signal,
+  );
+  const counts = new Map<string, number>();
+  for (const paper of papers) {
+    const institutions = new Set<string>();
+    for (const paperAuthor of paper.authors ?? []) {
+      for (const affiliation of paperAuthor?.affiliations ?? []) {
+        if (affiliation?.value) institutions.add(affiliation.value);
+      }
+    }
+    for (const name of institutions) {
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  return {
+    institutions: countToSortedList(counts, "name", TOP_INSTITUTIONS),
+    sampleSize: papers.length,
+  };
+}
+
+/** Run an optional request; failures (except aborts) yield undefined */
+async function optional<T>(
+  label: string,
+  request: () => Promise<T>,
+): Promise<T | undefined> {
+  try {
+    return await request();
+  } catch (err) {
+    if ((err as Error)?.name === "AbortError") throw err;
+    Zotero.debug(
+      `[${config.addonName}] Author dashboard: ${label} failed: ${err}`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Build the dashboard of an author from the author's papers (as loaded in
+ * the panel) plus the INSPIRE author profile and the network-backed stats.
+ */
+export async function loadAuthorDashboard(
+  entries: InspireReferenceEntry[],
+  authorInfo: AuthorSearchInfo,
+  signal?: AbortSignal,
+): Promise<AuthorDashboard> {
+  const profile =
+    (await optional("profile", () => fetchAuthorProfile(authorInfo, signal))) ??
+    null;
+  const author: AuthorSearchInfo = {
+    ...authorInfo,
+    bai: authorInfo.bai || profile?.bai,
+    recid: authorInfo.recid || profile?.recid || undefined,
+  };
+  const stats = computeAuthorDashboardStats(entries, author);
+  const query = buildAuthorFeedQuery(author);
+  if (!query || isOfflineMode()) {
+    return { author, profile, stats };
+  }
+
+  const mostCited = [...entries]
+    .filter((entry) => entry.recid && (entry.citationCount ?? 0) > 0)
+    .sort((a, b) => (b.citationCount ?? 0) - (a.citationCount ?? 0))
+    .slice(0, CITING_QUERY_RECIDS)
+    .map((entry) => entry.recid as string);
+  const [citationsPerYear, coauthors, citing] = await Promise.all([
+    optional("citations per year", () => fetchCitationsPerYear(query, signal)),
+    optional("co-authors", () => fetchTopCoauthors(query, author, signal)),
+    optional("citing institutions", () =>
+      fetchTopCitingInstitutions(mostCited, signal),
+    ),
+  ]);
+  stats.citationsPerYear = citationsPerYear;
+  stats.coauthors = coauthors;
+  stats.citingInstitutions = citing?.institutions;
+  stats.citingSampleSize = citing?.sampleSize;
+  return { author, profile, stats };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV export
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * All dashboard numbers as `section,key,value` rows (one table, so the file
+ * can be filtered or pivoted in a spreadsheet).
+ */
+export function buildAuthorDashboardCsv(dashboard: AuthorDashboard): string {
+  const { author, profile, stats } = dashboard;
+  const rows: Array<[string, string, string | number]> = [
+    ["author", "name", profile?.name || author.fullName],
+  ];
+  if (author.bai) rows.push(["author", "bai", author.bai]);
+  if (author.recid) rows.push(["author", "inspire_recid", author.recid]);
+  if (profile?.orcid) rows.push(["author", "orcid", profile.orcid]);
+  if (profile?.currentPosition?.institution) {
+    rows.push(["author", "institution", profile.currentPosition.institution]);
+  }
+
+  rows.push(
+    ["summary", "papers", stats.paperCount],
+    ["summary", "citations", stats.totalCitations],
+    ["summary", "citations_without_self", stats.citationsWithoutSelf],
+    ["summary", "h_index", stats.hIndex],
+    ["summary", "i10_index", stats.i10Index],
+    ["summary", "g_index", stats.gIndex],
+  );
+  for (const { year, papers, citations } of stats.papersPerYear) {
+    rows.push(["papers_per_year", year, papers]);
+    rows.push(["citations_by_publication_year", year, citations]);
+  }
+  for (const { year, citations } of stats.citationsPerYear ?? []) {
+    rows.push(["citations_per_year", year, citations]);
+  }
+  const splitKeys = {
+    firstAuthor: "first_author",
+    solo: "single_author",
+    smallGroup: "2_to_10_authors",
+    collaboration: "more_than_10_authors",
+  } as const;
+  for (const [split, key] of Object.entries(splitKeys)) {
+    const value = stats.splits[split as keyof typeof splitKeys];
+    rows.push(["split_papers", key, value.papers]);
+    rows.push(["split_citations", key, value.citations]);
+  }
+  for (const { name, papers } of stats.coauthors ?? []) {
+    rows.push(["coauthor_papers", name, papers]);
+  }
+  for (const { name, papers } of stats.citingInstitutions ?? []) {
+    rows.push(["citing_institution_papers", name, papers]);
+  }
+  for (const { category, papers } of stats.arxivCategories) {
+    rows.push(["arxiv_category_papers", category, papers]);
+  }
+
+  return [
+    "section,key,value",
+    ...rows.map((row) => row.map(escapeCsvCell).join(",")),
+  ].join("\n");
+}
@@ -0,0 +1,334 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Author Feed - New papers by favorite authors
+// A background job re-checks each favorite author (by BAI, recid or name)
+// for papers dated since the previous check. The newest papers of every
+// author are kept as an `author_papers` local cache snapshot, and papers
+// missing from the snapshot are added to the feed shown in the Favorites
+// tab until they are marked as read.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { getPref, setPref } from "../../utils/prefs";
+import { extractAuthorNamesLimited } from "./authorUtils";
+import { INSPIRE_API_BASE, buildFieldsParam } from "./constants";
+import type { InspireLiteratureSearchResponse } from "./apiTypes";
+import { convertFullNameToSearchQuery, formatAuthors } from "./formatters";
+import { localCache } from "./localCache";
+import { isOfflineMode } from "./offlineMode";
+import { inspireFetch } from "./rateLimiter";
+import type { AuthorFeedItem, AuthorSearchInfo, FavoriteAuthor } from "./types";
+
+const API_FIELDS_AUTHOR_FEED =
+  "control_number,titles.title,authors.full_name,author_count,earliest_date";
+/** Newest papers fetched per check */
+const FEED_CHECK_SIZE = 25;
+/** Papers kept in an author's snapshot */
+const SNAPSHOT_SIZE = 200;
+/** Feed items kept (read ones are dropped first) */
+const MAX_FEED_ITEMS = 300;
+/** Papers dated up to this long before the last check still count */
+const DATE_SLACK_MS = 7 * 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_INTERVAL_HOURS = 24;
+
+interface AuthorFeedState {
+  /** Last successful check per author feed key */
+  checked: Record<string, number>;
+  items: AuthorFeedItem[];
+}
+
+/** A paper of an author snapshot */
+type AuthorFeedPaper = Pick<
+  AuthorFeedItem,
+  "recid" | "title" | "authors" | "date"
+>;
+
+export interface AuthorFeedSummary {
+  /** Authors checked in this run */
+  checked: number;
+  /** Papers added to the feed */
+  added: AuthorFeedItem[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+type AuthorFeedListener = (items: AuthorFeedItem[]) => void;
+const listeners = new Set<AuthorFeedListener>();
+
+/** Called with the feed whenever papers are added or marked as read */
+export function onAuthorFeedChange(callback: AuthorFeedListener): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+function loadState(): AuthorFeedState {
+  try {
+    const parsed = JSON.parse((getPref("author_feed") as string) || "{}");
+    return {
+      checked:
+        parsed?.checked && typeof parsed.checked === "object"
+          ? parsed.checked
+          : {},
+      items: Array.isArray(parsed?.items)
+        ? parsed.items.filter(
+            (item: AuthorFeedItem) => typeof item?.recid === "string",
+          )
+        : [],
+    };
+  } catch {
+    return { checked: {}, items: [] };
+  }
+}
+
+function saveState(state: AuthorFeedState, notify = true): void {
+  setPref("author_feed", JSON.stringify(state));
+  if (!notify) return;
+  for (const listener of listeners) {
+    try {
+      listener(state.items);
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Author feed listener failed: ${err}`);
+    }
+  }
+}
+
+/** Feed papers, newest first */
+export function getAuthorFeedItems(): AuthorFeedItem[] {
+  return loadState().items;
+}
+
+export function getUnreadAuthorFeedCount(): number {
+  return loadState().items.filter((item) => !item.read).length;
+}
+
+/** Mark the given papers (all when omitted) as read. */
+export function markAuthorFeedRead(recids?: string[]): void {
+  const state = loadState();
+  const targets = recids ? new Set(recids) : null;
+  let changed = false;
+  for (const item of state.items) {
+    if (!item.read && (!targets || targets.has(item.recid))) {
+      item.read = true;
+      changed = true;
+    }
+  }
+  if (changed) saveState(state);
+}
+
+/**
+ * Key of an author's feed state and snapshot; same format as the panel's
+ * author papers cache key (recid > BAI > name).
+ */
+export function getAuthorFeedKey(info: AuthorSearchInfo): string {
+  if (info.recid) return `recid:${info.recid}`;
+  if (info.bai) return `bai:${info.bai}`;
+  return info.fullName;
+}
+
+function getFavoriteAuthors(): FavoriteAuthor[] {
+  try {
+    const parsed = JSON.parse((getPref("favorite_authors") as string) || "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter((fav) => fav?.authorSearchInfo?.fullName)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getIntervalHours(): number {
+  const hours = Number(getPref("author_feed_check_interval_hours"));
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_INTERVAL_HOURS;
+}
+
+/** INSPIRE query for an author's papers, or null without a usable name */
+export function buildAuthorFeedQuery(info: AuthorSearchInfo): string | null {
+  if (info.bai) return `a ${info.bai}`;
+  if (info.recid) return `authors.recid:${info.recid}`;
+  const name = convertFullNameToSearchQuery(info.fullName);
+  return name ? `a ${name}` : null;
+}
+
+function toIsoDay(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function parsePaper(hit: unknown): AuthorFeedPaper | null {
+  const metadata = (hit as { metadata?: Record<string, any> })?.metadata;
+  const recid = String(metadata?.control_number ?? "");
+  if (!recid) return null;
+  const { names, total } = extractAuthorNamesLimited(metadata?.authors, 3);
+  return {
+    recid,
+    title: String(metadata?.titles?.[0]?.title ?? ""),
+    authors: formatAuthors(names, Math.max(total, metadata?.author_count ?? 0)),
+    date: metadata?.earliest_date || undefined,
+  };
+}
+
+/** Newest papers of an author, optionally only those dated since `since`. */
+async function fetchAuthorPapers(
+  query: string,
+  since: number | undefined,
+  signal?: AbortSignal,
+): Promise<AuthorFeedPaper[]> {
+  const q =
+    since === undefined
+      ? query
+      : `${query} and date >= ${toIsoDay(since - DATE_SLACK_MS)}`;
+  const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(q)}&size=${FEED_CHECK_SIZE}&page=1&sort=mostrecent${buildFieldsParam(API_FIELDS_AUTHOR_FEED)}`;
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: "background",
+  });
+  if (!response.ok) {
+    throw new Error(`INSPIRE search HTTP ${response.status}`);
+  }
+  const payload =
+    (await response.json()) as unknown as InspireLiteratureSearchResponse | null;
+  return (payload?.hits?.hits ?? [])
+    .map(parsePaper)
+    .filter((paper): paper is AuthorFeedPaper => paper !== null);
+}
+
+/**
+ * Check one favorite author and return the papers that are new since the
+ * last check. The first check of an author only records a snapshot.
+ * Updates `state` without saving it.
+ */
+async function checkFavoriteAuthor(
+  favorite: FavoriteAuthor,
+  state: AuthorFeedState,
+  options?: { signal?: AbortSignal; now?: number },
+): Promise<AuthorFeedItem[]> {
+  const info = favorite.authorSearchInfo;
+  const query = buildAuthorFeedQuery(info);
+  if (!query) return [];
+  const key = getAuthorFeedKey(info);
+  const now = options?.now ?? Date.now();
+  const lastChecked = state.checked[key] as number | undefined;
+
+  const papers = await fetchAuthorPapers(query, lastChecked, options?.signal);
+  const cached = await localCache.get<AuthorFeedPaper[]>(
+    "author_papers",
+    key,
+    undefined,
+    { ignoreTTL: true },
+  );
+  const snapshot = Array.isArray(cached?.data) ? cached.data : [];
+  const known = new Set(snapshot.map((paper) => paper.recid));
+  const inFeed = new Set(state.items.map((item) => item.recid));
+
+  const fresh = papers.filter((paper) => !known.has(paper.recid));
+  await localCache.set(
+    "author_papers",
+    key,
+    [...fresh, ...snapshot].slice(0, SNAPSHOT_SIZE),
+  );
+  state.checked[key] = now;
+  if (lastChecked === undefined) return [];
+
+  return fresh
+    .filter((paper) => !inFeed.has(paper.recid))
+    .map((paper) => ({
+      ...paper,
+      authorKey: key,
+      authorLabel: favorite.label || info.fullName,
+      foundAt: now,
+      read: false,
+    }));
+}
+
+let activeRun: Promise<AuthorFeedSummary> | null = null;
+
+/**
+ * Check every favorite author whose last check is older than the interval.
+ * Skipped offline or when the feed is turned off; an author whose check
+ * fails is retried on the next run. One run at a time.
+ */
+export function runAuthorFeedCheck(options?: {
+  signal?: AbortSignal;
+  now?: number;
+  /** Check all authors regardless of the interval */
+  force?: boolean;
+}): Promise<AuthorFeedSummary> {
+  if (!activeRun) {
+    activeRun = runAuthorFeedCheckNow(options).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+async function runAuthorFeedCheckNow(options?: {
+  signal?: AbortSignal;
+  now?: number;
+  force?: boolean;
+}): Promise<AuthorFeedSummary> {
+  const summary: AuthorFeedSummary = { checked: 0, added: [] };
+  if (isOfflineMode() || getPref("author_feed_enabled") === false) {
+    return summary;
+  }
+  const now = options?.now ?? Date.now();
+  const intervalMs = getIntervalHours() * HOUR_MS;
+  const state = loadState();
+  const favorites = getFavoriteAuthors();
+
+  for (const favorite of favorites) {
+    if (options?.signal?.aborted) break;
+    const key = getAuthorFeedKey(favorite.authorSearchInfo);
+    if (!options?.force && now - (state.checked[key] ?? 0) < intervalMs) {
+      continue;
+    }
+    try {
+      const added = await checkFavoriteAuthor(favorite, state, {
+        signal: options?.signal,
+        now,
+      });
+      summary.checked++;
+      summary.added.push(...added);
+      state.items.unshift(...added);
+    } catch (err) {
+      if ((err as any)?.name === "AbortError") break;
+      Zotero.debug(
+        `[${config.addonName}] Author feed check failed for ${key}: ${err}`,
+      );
+    }
+  }
+
+  if (summary.checked) {
+    // Merge with changes made while the run was waiting on INSPIRE
+    const latest = loadState();
+    const readRecids = new Set(
+      latest.items.filter((item) => item.read).map((item) => item.recid),
+    );
+    for (const item of state.items) {
+      if (readRecids.has(item.recid)) item.read = true;
+    }
+    state.items.sort((a, b) => b.foundAt - a.foundAt);
+    if (state.items.length > MAX_FEED_ITEMS) {
+      const unread = state.items.filter((item) => !item.read);
+      const keep = new Set(
+        [...unread, ...state.items.filter((item) => item.read)]
+          .slice(0, MAX_FEED_ITEMS)
+          .map((item) => item.recid),
+      );
+      state.items = state.items.filter((item) => keep.has(item.recid));
+    }
+    // Forget authors that are no longer favorites
+    const keys = new Set(
+      favorites.map((fav) => getAuthorFeedKey(fav.authorSearchInfo)),
+    );
+    for (const key of Object.keys(state.checked)) {
+      if (!keys.has(key)) delete state.checked[key];
+    }
+    saveState(state, summary.added.length > 0);
+  }
+  return summary;
+}
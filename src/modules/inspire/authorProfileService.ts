@@ -3,6 +3,7 @@ import { inspireFetch } from "./rateLimiter";
 import { INSPIRE_API_BASE, AUTHOR_PROFILE_CACHE_TTL_MS } from "./constants";
 import { LRUCache } from "./utils";
 import { localCache } from "./localCache";
+import { isOfflineMode, queueOfflineFetch } from "./offlineMode";
 import type { AuthorSearchInfo, InspireAuthorProfile } from "./types";
 import type {
   InspireAuthorsSearchResponse,
@@ -132,7 +133,7 @@ function cacheProfile(
  *
  * @param authorInfo - Author search info containing fullName, bai, and/or recid
  * @param signal - Optional AbortSignal for cancellation
- * @returns Author profile or null if not found
+ * @returns Author profile or null if not found (or not cached in offline mode)
  */
 export async function fetchAuthorProfile(
   authorInfo: AuthorSearchInfo,
@@ -161,6 +162,11 @@ export async function fetchAuthorProfile(
     return localCached;
   }
 
+  if (isOfflineMode()) {
+    void queueOfflineFetch({ kind: "author_profile", author: authorInfo });
+    return null;
+  }
+
   try {
     let profile: InspireAuthorProfile | null = null;
 
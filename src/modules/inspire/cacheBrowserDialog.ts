@@ -0,0 +1,539 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache Browser - Maintenance dialog for the local cache
+// Lists the stored entries grouped by type with the linked Zotero item, age,
+// TTL, complete flag and size, shows disk usage per type, and lets the user
+// refresh, delete, pin or re-validate selected entries.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import type { FluentMessageId } from "../../../typings/i10n";
+import { getString } from "../../utils/locale";
+import { findItemsByRecids } from "./apiUtils";
+import { localCache, type LocalCacheEntryInfo } from "./localCache";
+import {
+  fetchIntoCache,
+  getCacheEntryRequest,
+  isOfflineMode,
+} from "./offlineMode";
+import type { LocalCacheType } from "./types";
+
+const OVERLAY_ID = "zinspire-cache-browser-overlay";
+
+/** Display order of the groups */
+const TYPE_ORDER: LocalCacheType[] = [
+  "refs",
+  "cited",
+  "citation_graph",
+  "related",
+  "author",
+  "author_profile",
+  "author_papers",
+  "crossref",
+  "preprint",
+  "preprintCandidates",
+];
+
+// Types whose key is a paper recid (possibly linked to a Zotero item)
+const RECID_KEYED_TYPES = new Set<LocalCacheType>([
+  "refs",
+  "cited",
+  "citation_graph",
+  "related",
+]);
+
+const TYPE_COLORS: Record<LocalCacheType, string> = {
+  refs: "#0066cc",
+  cited: "#16a34a",
+  citation_graph: "#9333ea",
+  related: "#0891b2",
+  author: "#ea580c",
+  author_profile: "#db2777",
+  author_papers: "#ca8a04",
+  crossref: "#64748b",
+  preprint: "#dc2626",
+  preprintCandidates: "#4f46e5",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Paper recid of an entry keyed by recid (`${type}_${recid}[_${sort}]`). */
+function getEntryRecid(info: LocalCacheEntryInfo): string | undefined {
+  if (!RECID_KEYED_TYPES.has(info.type)) return undefined;
+  const key = info.name.slice(info.type.length + 1).split("_")[0];
+  return /^\d+$/.test(key) ? key : undefined;
+}
+
+function isExpired(info: LocalCacheEntryInfo, now: number): boolean {
+  return info.ttl > 0 && now - info.ts > info.ttl * 60 * 60 * 1000;
+}
+
+/** Titles of the Zotero items linked to the given recids. */
+async function getLinkedTitles(recids: string[]): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  try {
+    const itemIDs = await findItemsByRecids(recids);
+    for (const [recid, itemID] of itemIDs) {
+      const item = Zotero.Items.get(itemID);
+      const title = item?.getField("title");
+      if (title) titles.set(recid, String(title));
+    }
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Cache browser: failed to look up items: ${err}`,
+    );
+  }
+  return titles;
+}
+
+function styleButton(button: HTMLButtonElement, primary = false) {
+  button.style.padding = "6px 12px";
+  button.style.border = primary
+    ? "none"
+    : "1px solid var(--fill-quinary, #ccc)";
+  button.style.borderRadius = "4px";
+  button.style.background = primary
+    ? "#0066cc"
+    : "var(--material-background, #fff)";
+  button.style.color = primary ? "#fff" : "inherit";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+}
+
+/**
+ * Show the cache browser over the given window (main or preferences).
+ * Resolves when the dialog is closed.
+ */
+export function showCacheBrowserDialog(win: Window): Promise<void> {
+  return new Promise((resolve) => {
+    const doc = win.document;
+    doc.getElementById(OVERLAY_ID)?.remove();
+
+    const selected = new Set<string>();
+    let entries: LocalCacheEntryInfo[] = [];
+    let titles = new Map<string, string>();
+    let busy = false;
+
+    // Create overlay
+    const overlay = doc.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.position = "fixed";
+    overlay.style.top = "0";
+    overlay.style.left = "0";
+    overlay.style.width = "100%";
+    overlay.style.height = "100%";
+    overlay.style.zIndex = "10000";
+    overlay.style.backgroundColor = "rgba(0, 0, 0, 0.4)";
+    overlay.style.display = "flex";
+    overlay.style.alignItems = "center";
+    overlay.style.justifyContent = "center";
+
+    // Create panel
+    const panel = doc.createElement("div");
+    panel.style.backgroundColor = "var(--material-background, #fff)";
+    panel.style.color = "var(--fill-primary, #000)";
+    panel.style.border = "1px solid var(--fill-quinary, #ccc)";
+    panel.style.borderRadius = "8px";
+    panel.style.boxShadow = "0 4px 24px rgba(0, 0, 0, 0.25)";
+    panel.style.display = "flex";
+    panel.style.flexDirection = "column";
+    panel.style.fontSize = "13px";
+    panel.style.maxWidth = "720px";
+    panel.style.width = "90%";
+    panel.style.height = "80vh";
+    panel.style.overflow = "hidden";
+    overlay.appendChild(panel);
+
+    // Header
+    const header = doc.createElement("div");
+    header.style.padding = "12px 16px";
+    header.style.fontWeight = "600";
+    header.style.fontSize = "14px";
+    header.style.borderBottom = "1px solid var(--fill-quinary, #eee)";
+    header.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    header.style.borderRadius = "8px 8px 0 0";
+    header.textContent = getString("cache-browser-title");
+    panel.appendChild(header);
+
+    // Disk usage chart
+    const chart = doc.createElement("div");
+    chart.style.padding = "10px 16px";
+    chart.style.borderBottom = "1px solid var(--fill-quinary, #eee)";
+    panel.appendChild(chart);
+
+    // Entry list
+    const list = doc.createElement("div");
+    list.style.flex = "1";
+    list.style.overflowY = "auto";
+    list.style.padding = "8px 16px";
+    list.textContent = getString("cache-browser-loading");
+    panel.appendChild(list);
+
+    // Actions bar
+    const actions = doc.createElement("div");
+    actions.style.padding = "12px 16px";
+    actions.style.display = "flex";
+    actions.style.alignItems = "center";
+    actions.style.gap = "8px";
+    actions.style.borderTop = "1px solid var(--fill-quinary, #eee)";
+    actions.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    actions.style.borderRadius = "0 0 8px 8px";
+
+    const status = doc.createElement("span");
+    status.style.flex = "1";
+    status.style.fontSize = "12px";
+    status.style.color = "var(--fill-secondary, #666)";
+    actions.appendChild(status);
+
+    const makeButton = (l10nKey: FluentMessageId, primary = false) => {
+      const button = doc.createElement("button");
+      button.textContent = getString(l10nKey);
+      styleButton(button, primary);
+      actions.appendChild(button);
+      return button;
+    };
+    const refreshBtn = makeButton("cache-browser-refresh");
+    const pinBtn = makeButton("cache-browser-pin");
+    const revalidateBtn = makeButton("cache-browser-revalidate");
+    const deleteBtn = makeButton("cache-browser-delete");
+    const closeBtn = makeButton("cache-browser-close", true);
+    panel.appendChild(actions);
+
+    const updateButtons = () => {
+      const none = busy || selected.size === 0;
+      refreshBtn.disabled = none || isOfflineMode();
+      refreshBtn.title = isOfflineMode()
+        ? getString("offline-mode-unavailable")
+        : "";
+      pinBtn.disabled = none;
+      revalidateBtn.disabled = none;
+      deleteBtn.disabled = none;
+    };
+
+    const renderChart = () => {
+      chart.replaceChildren();
+      const sizes = new Map<LocalCacheType, number>();
+      let total = 0;
+      for (const info of entries) {
+        sizes.set(info.type, (sizes.get(info.type) ?? 0) + info.size);
+        total += info.size;
+      }
+
+      const title = doc.createElement("div");
+      title.style.fontSize = "12px";
+      title.style.fontWeight = "600";
+      title.style.marginBottom = "6px";
+      title.textContent = `${getString("cache-browser-usage")} · ${getString(
+        "cache-browser-summary",
+        { args: { count: entries.length, size: formatSize(total) } },
+      )}`;
+      chart.appendChild(title);
+
+      const max = Math.max(1, ...sizes.values());
+      for (const type of TYPE_ORDER) {
+        const size = sizes.get(type);
+        if (size === undefined) continue;
+        const row = doc.createElement("div");
+        row.style.display = "flex";
+        row.style.alignItems = "center";
+        row.style.gap = "8px";
+        row.style.fontSize = "11px";
+        row.style.marginBottom = "2px";
+
+        const label = doc.createElement("span");
+        label.style.width = "140px";
+        label.style.flexShrink = "0";
+        label.textContent = getString(
+          `cache-browser-type-${type}` as FluentMessageId,
+        );
+        row.appendChild(label);
+
+        const track = doc.createElement("div");
+        track.style.flex = "1";
+        track.style.height = "8px";
+        track.style.borderRadius = "4px";
+        track.style.backgroundColor = "var(--fill-quinary, #eee)";
+        const bar = doc.createElement("div");
+        bar.style.height = "100%";
+        bar.style.borderRadius = "4px";
+        bar.style.width = `${Math.max(1, (size / max) * 100)}%`;
+        bar.style.backgroundColor = TYPE_COLORS[type];
+        track.appendChild(bar);
+        row.appendChild(track);
+
+        const value = doc.createElement("span");
+        value.style.width = "110px";
+        value.style.textAlign = "right";
+        value.style.color = "var(--fill-secondary, #666)";
+        value.textContent = `${formatSize(size)} (${Math.round(
+          (size / Math.max(1, total)) * 100,
+        )}%)`;
+        row.appendChild(value);
+        chart.appendChild(row);
+      }
+    };
+
+    const createEntryRow = (info: LocalCacheEntryInfo, now: number) => {
+      const row = doc.createElement("label");
+      row.style.display = "flex";
+      row.style.alignItems = "flex-start";
+      row.style.gap = "8px";
+      row.style.padding = "4px 0 4px 20px";
+      row.style.cursor = "pointer";
+
+      const checkbox = doc.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.checked = selected.has(info.name);
+      checkbox.dataset.entry = info.name;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) selected.add(info.name);
+        else selected.delete(info.name);
+        updateButtons();
+      });
+      row.appendChild(checkbox);
+
+      const text = doc.createElement("div");
+      text.style.flex = "1";
+      text.style.minWidth = "0";
+      const name = doc.createElement("div");
+      name.style.overflow = "hidden";
+      name.style.textOverflow = "ellipsis";
+      name.style.whiteSpace = "nowrap";
+      const recid = getEntryRecid(info);
+      const title = recid ? titles.get(recid) : undefined;
+      name.textContent = title ?? info.name;
+      name.title = info.name;
+      text.appendChild(name);
+
+      const meta = doc.createElement("div");
+      meta.style.fontSize = "11px";
+      meta.style.color = "var(--fill-secondary, #888)";
+      const parts = [
+        getString("cache-browser-age", {
+          args: { age: Math.floor((now - info.ts) / (60 * 60 * 1000)) },
+        }),
+        info.ttl > 0
+          ? getString("cache-browser-ttl", { args: { ttl: info.ttl } })
+          : getString("cache-browser-ttl-permanent"),
+        getString(
+          info.complete ? "cache-browser-complete" : "cache-browser-incomplete",
+        ),
+        formatSize(info.size),
+      ];
+      if (title) parts.unshift(info.name);
+      if (isExpired(info, now)) parts.push(getString("cache-browser-expired"));
+      meta.textContent = parts.join(" · ");
+      if (!info.complete || isExpired(info, now)) {
+        meta.style.color = "#b45309";
+      }
+      text.appendChild(meta);
+      row.appendChild(text);
+      return row;
+    };
+
+    const renderList = () => {
+      list.replaceChildren();
+      if (!entries.length) {
+        list.textContent = getString("cache-browser-empty");
+        return;
+      }
+      const now = Date.now();
+      for (const type of TYPE_ORDER) {
+        const group = entries
+          .filter((info) => info.type === type)
+          .sort((a, b) => b.ts - a.ts);
+        if (!group.length) continue;
+
+        const groupHeader = doc.createElement("label");
+        groupHeader.style.display = "flex";
+        groupHeader.style.alignItems = "center";
+        groupHeader.style.gap = "8px";
+        groupHeader.style.padding = "6px 0";
+        groupHeader.style.fontWeight = "600";
+        groupHeader.style.cursor = "pointer";
+        const groupBox = doc.createElement("input");
+        groupBox.type = "checkbox";
+        groupBox.checked = group.every((info) => selected.has(info.name));
+        groupHeader.appendChild(groupBox);
+        const groupLabel = doc.createElement("span");
+        groupLabel.textContent = `${getString(
+          `cache-browser-type-${type}` as FluentMessageId,
+        )} (${getString("cache-browser-summary", {
+          args: {
+            count: group.length,
+            size: formatSize(group.reduce((sum, info) => sum + info.size, 0)),
+          },
+        })})`;
+        groupHeader.appendChild(groupLabel);
+        list.appendChild(groupHeader);
+
+        const rows = doc.createElement("div");
+        for (const info of group) {
+          rows.appendChild(createEntryRow(info, now));
+        }
+        list.appendChild(rows);
+
+        groupBox.addEventListener("change", () => {
+          for (const info of group) {
+            if (groupBox.checked) selected.add(info.name);
+            else selected.delete(info.name);
+          }
+          rows
+            .querySelectorAll<HTMLInputElement>("input[type=checkbox]")
+            .forEach((box) => (box.checked = groupBox.checked));
+          updateButtons();
+        });
+      }
+    };
+
+    const reload = async () => {
+      entries = await localCache.listEntries();
+      const names = new Set(entries.map((info) => info.name));
+      for (const name of [...selected]) {
+        if (!names.has(name)) selected.delete(name);
+      }
+      const recids = [
+        ...new Set(
+          entries
+            .map(getEntryRecid)
+            .filter((recid): recid is string => !!recid),
+        ),
+      ];
+      titles = await getLinkedTitles(recids);
+      renderChart();
+      renderList();
+      updateButtons();
+    };
+
+    const run = async (
+      action: (targets: LocalCacheEntryInfo[]) => Promise<string>,
+    ) => {
+      if (busy || !selected.size) return;
+      busy = true;
+      updateButtons();
+      status.textContent = getString("cache-browser-working");
+      try {
+        const targets = entries.filter((info) => selected.has(info.name));
+        status.textContent = await action(targets);
+        await reload();
+      } catch (err) {
+        Zotero.debug(
+          `[${config.addonName}] Cache browser action failed: ${err}`,
+        );
+        status.textContent = String(err);
+      } finally {
+        busy = false;
+        updateButtons();
+      }
+    };
+
+    refreshBtn.addEventListener("click", () =>
+      run(async (targets) => {
+        let count = 0;
+        let failed = 0;
+        let skipped = 0;
+        for (const info of targets) {
+          if (isOfflineMode()) break;
+          const request = getCacheEntryRequest(info.type, info.name);
+          if (!request) {
+            skipped++;
+            continue;
+          }
+          try {
+            await fetchIntoCache(request, { force: true });
+            count++;
+          } catch (err) {
+            failed++;
+            Zotero.debug(
+              `[${config.addonName}] Cache browser: refresh of ${info.name} failed: ${err}`,
+            );
+          }
+        }
+        await localCache.flushWrites();
+        return getString("cache-browser-refreshed", {
+          args: { count, failed, skipped },
+        });
+      }),
+    );
+    deleteBtn.addEventListener("click", () => {
+      if (busy || !selected.size) return;
+      // Offline, deleted entries cannot be fetched again
+      const confirmed = Services.prompt.confirm(
+        win as unknown as mozIDOMWindowProxy,
+        config.addonName,
+        getString(
+          isOfflineMode()
+            ? "cache-browser-delete-confirm-offline"
+            : "cache-browser-delete-confirm",
+          { args: { count: selected.size } },
+        ),
+      );
+      if (!confirmed) return;
+      run(async (targets) => {
+        const count = await localCache.deleteEntries(
+          targets.map((info) => info.name),
+        );
+        return getString("cache-browser-deleted", { args: { count } });
+      });
+    });
+    pinBtn.addEventListener("click", () =>
+      run(async (targets) => {
+        const count = await localCache.pinEntries(
+          targets.map((info) => info.name),
+        );
+        return getString("cache-browser-pinned", { args: { count } });
+      }),
+    );
+    revalidateBtn.addEventListener("click", () =>
+      run(async (targets) => {
+        const removed = await localCache.revalidateEntries(
+          targets.map((info) => info.name),
+        );
+        return getString("cache-browser-revalidated", {
+          args: {
+            valid: targets.length - removed.length,
+            removed: removed.length,
+          },
+        });
+      }),
+    );
+
+    // Add to document
+    doc.documentElement.appendChild(overlay);
+
+    let isFinished = false;
+
+    const finish = () => {
+      if (isFinished) return;
+      isFinished = true;
+      overlay.remove();
+      doc.removeEventListener("keydown", onKeyDown, true);
+      resolve();
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        event.stopPropagation();
+        finish();
+      }
+    };
+
+    closeBtn.addEventListener("click", finish);
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) finish();
+    });
+    doc.addEventListener("keydown", onKeyDown, true);
+
+    updateButtons();
+    reload().catch((err) => {
+      Zotero.debug(
+        `[${config.addonName}] Cache browser failed to load: ${err}`,
+      );
+      list.textContent = String(err);
+    });
+  });
+}
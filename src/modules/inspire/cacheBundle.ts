@@ -0,0 +1,133 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache Bundle - Portable export/import of the offline cache
+// Packs the cached INSPIRE data for a set of papers into one gzip-compressed
+// JSON file that can be carried to another machine (air-gapped nodes, travel)
+// and merged into its local cache there.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import * as pako from "pako";
+import { localCache, type LocalCacheExportEntry } from "./localCache";
+import type { LocalCacheType } from "./types";
+
+export const CACHE_BUNDLE_FORMAT = "zotero-inspire-cache-bundle";
+export const CACHE_BUNDLE_VERSION = 1;
+export const CACHE_BUNDLE_EXTENSION = "inspirecache";
+
+/** Cache types written to a bundle */
+export const CACHE_BUNDLE_TYPES: LocalCacheType[] = [
+  "refs",
+  "cited",
+  "citation_graph",
+  "author_profile",
+  "author_papers",
+];
+
+// Types keyed by paper recid; the others are keyed by author and are not
+// tied to particular papers, so all of them go into the bundle
+const RECID_KEYED_TYPES = new Set<LocalCacheType>([
+  "refs",
+  "cited",
+  "citation_graph",
+]);
+
+export interface CacheBundle {
+  format: typeof CACHE_BUNDLE_FORMAT;
+  version: number;
+  createdAt: number;
+  /** Where the entries came from (collection name) */
+  label?: string;
+  entries: LocalCacheExportEntry[];
+}
+
+export interface CacheBundleImportResult {
+  imported: number;
+  /** Local copy was at least as new */
+  skipped: number;
+  /** Failed validation */
+  invalid: number;
+}
+
+/**
+ * Whether an entry belongs in a bundle for the given papers. Entry names are
+ * `${type}_${key}` plus an optional `_${sort}` suffix (see localCache).
+ */
+export function isCacheBundleEntry(
+  type: LocalCacheType,
+  name: string,
+  recids: ReadonlySet<string>,
+): boolean {
+  if (!CACHE_BUNDLE_TYPES.includes(type)) return false;
+  if (!RECID_KEYED_TYPES.has(type)) return true;
+  const key = name.slice(type.length + 1).split("_")[0];
+  return recids.has(key);
+}
+
+export function encodeCacheBundle(bundle: CacheBundle): Uint8Array {
+  return pako.gzip(JSON.stringify(bundle));
+}
+
+/** Parse bundle bytes; throws when they are not a bundle this version reads. */
+export function decodeCacheBundle(bytes: Uint8Array): CacheBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(pako.ungzip(bytes, { to: "string" }));
+  } catch {
+    throw new Error("Not a gzip-compressed JSON file");
+  }
+  const bundle = parsed as Partial<CacheBundle> | null;
+  if (bundle?.format !== CACHE_BUNDLE_FORMAT) {
+    throw new Error("Not an INSPIRE cache bundle");
+  }
+  if (bundle.version !== CACHE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${bundle.version}`);
+  }
+  if (!Array.isArray(bundle.entries)) {
+    throw new Error("Bundle has no entries");
+  }
+  return bundle as CacheBundle;
+}
+
+/**
+ * Write the cached data of the given papers to `path`.
+ * Returns the number of entries written; nothing is written when there are none.
+ */
+export async function exportCacheBundle(
+  path: string,
+  recids: Iterable<string>,
+  label?: string,
+): Promise<number> {
+  const recidSet = new Set(recids);
+  const entries = await localCache.exportEntries((type, name) =>
+    isCacheBundleEntry(type, name, recidSet),
+  );
+  if (!entries.length) return 0;
+  const bundle: CacheBundle = {
+    format: CACHE_BUNDLE_FORMAT,
+    version: CACHE_BUNDLE_VERSION,
+    createdAt: Date.now(),
+    label,
+    entries,
+  };
+  await IOUtils.write(path, encodeCacheBundle(bundle));
+  return entries.length;
+}
+
+/**
+ * Merge a bundle file into the local cache. Entries are validated like cache
+ * reads, and newer local entries are kept. Throws when the file is not a
+ * readable bundle.
+ */
+export async function importCacheBundle(
+  path: string,
+): Promise<CacheBundleImportResult> {
+  const bundle = decodeCacheBundle(await IOUtils.read(path));
+  const entries = bundle.entries.filter(
+    (entry): entry is LocalCacheExportEntry =>
+      !!entry &&
+      typeof entry === "object" &&
+      CACHE_BUNDLE_TYPES.includes(entry.file?.t),
+  );
+  const result = await localCache.importEntries(entries);
+  result.invalid += bundle.entries.length - entries.length;
+  return result;
+}
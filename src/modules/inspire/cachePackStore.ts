@@ -0,0 +1,555 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache Pack Store - Single-file indexed storage for the local cache
+// Entries are appended to one pack file; a JSON index maps each entry name to
+// its byte range, timestamps and last access. Overwritten/deleted entries leave
+// garbage that is reclaimed by compaction, and the least recently used entries
+// are evicted when the pack grows beyond a size limit.
+//
+// Layout in the cache directory:
+//   inspire-cache.pack  concatenated entry blobs (gzip or plain JSON bytes)
+//   inspire-cache.idx   JSON index (PackIndexFile)
+// Compaction writes `.compact` copies of both and swaps them in, pack first;
+// loading finishes or discards a swap that a crash interrupted.
+// Neither ends in `.json`, so they are never mistaken for per-entry cache files.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+
+export const PACK_FILE_NAME = "inspire-cache.pack";
+export const PACK_INDEX_FILE_NAME = "inspire-cache.idx";
+const PACK_INDEX_VERSION = 1;
+const INDEX_SAVE_DEBOUNCE_MS = 2000;
+/** Compact when garbage exceeds both this and the live data size */
+const COMPACT_MIN_GARBAGE_BYTES = 8 * 1024 * 1024;
+/** Eviction frees space down to this fraction of the limit */
+const EVICT_TARGET_RATIO = 0.9;
+
+export interface PackIndexEntry {
+  /** Byte offset in the pack file */
+  o: number;
+  /** Byte length */
+  l: number;
+  /** Blob is gzip-compressed */
+  z: boolean;
+  /** Write timestamp of the cached data (ms) */
+  ts: number;
+  /** TTL in hours (-1 = permanent) */
+  ttl: number;
+  /** Last read or write (ms), for LRU eviction */
+  a: number;
+  /** Pinned in the cache browser: never evicted, kept across rewrites */
+  p?: boolean;
+}
+
+interface PackIndexFile {
+  version: number;
+  /** Compactions of the pack so far; absent in indexes written before it */
+  generation?: number;
+  /** Bytes in the pack file covered by this index */
+  packSize: number;
+  /** Bytes in the pack file no longer referenced by any entry */
+  garbage: number;
+  entries: Record<string, PackIndexEntry>;
+}
+
+export interface PackStoreStats {
+  entryCount: number;
+  /** Bytes referenced by entries */
+  liveBytes: number;
+  /** Size of the pack file including garbage */
+  packBytes: number;
+  compressedCount: number;
+  compressedBytes: number;
+}
+
+function createEmptyIndex(): PackIndexFile {
+  return { version: PACK_INDEX_VERSION, packSize: 0, garbage: 0, entries: {} };
+}
+
+/**
+ * Append-only pack file with a JSON index. All operations are serialized, so
+ * concurrent callers never interleave appends or compaction.
+ */
+export class CachePackStore {
+  private index: PackIndexFile | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private liveBytes = 0;
+  /** Access times changed since the last index save */
+  private accessDirty = false;
+
+  constructor(private readonly dir: string) {}
+
+  private get packPath(): string {
+    return PathUtils.join(this.dir, PACK_FILE_NAME);
+  }
+
+  private get indexPath(): string {
+    return PathUtils.join(this.dir, PACK_INDEX_FILE_NAME);
+  }
+
+  private get compactPackPath(): string {
+    return `${this.packPath}.compact`;
+  }
+
+  private get compactIndexPath(): string {
+    return `${this.indexPath}.compact`;
+  }
+
+  /** Run `fn` after every previously queued operation has finished. */
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.lock.then(fn, fn);
+    this.lock = next.catch(() => undefined);
+    return next;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Index persistence
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Load the index and reconcile it with the pack file: entries beyond the end
+   * of a truncated pack are dropped, and bytes appended after the last index
+   * save (crash) are counted as garbage.
+   */
+  async load(): Promise<void> {
+    await this.serialize(() => this.ensureLoaded());
+  }
+
+  private async ensureLoaded(): Promise<PackIndexFile> {
+    if (this.index) return this.index;
+
+    await this.recoverCompaction();
+    let index = createEmptyIndex();
+    try {
+      if (await IOUtils.exists(this.indexPath)) {
+        const data = (await IOUtils.readJSON(this.indexPath)) as PackIndexFile;
+        if (data?.version === PACK_INDEX_VERSION && data.entries) {
+          index = data;
+        }
+      }
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Cache index unreadable: ${err}`);
+    }
+
+    let packSize = 0;
+    try {
+      if (await IOUtils.exists(this.packPath)) {
+        packSize = (await IOUtils.stat(this.packPath)).size ?? 0;
+      }
+    } catch {
+      packSize = 0;
+    }
+    if (packSize < index.packSize) {
+      for (const [name, entry] of Object.entries(index.entries)) {
+        if (entry.o + entry.l > packSize) delete index.entries[name];
+      }
+    }
+    index.packSize = packSize;
+
+    this.liveBytes = 0;
+    for (const entry of Object.values(index.entries)) {
+      this.liveBytes += entry.l;
+    }
+    index.garbage = Math.max(0, packSize - this.liveBytes);
+    this.index = index;
+    return index;
+  }
+
+  /**
+   * Finish a compaction interrupted between the pack and index swaps. A
+   * leftover compacted pack means the old pack was never replaced, so the old
+   * index still matches it; otherwise the compacted index belongs to the pack
+   * unless a newer index was already saved.
+   */
+  private async recoverCompaction(): Promise<void> {
+    try {
+      if (!(await IOUtils.exists(this.compactIndexPath))) return;
+      if (!(await IOUtils.exists(this.compactPackPath))) {
+        const compacted = (await IOUtils.readJSON(
+          this.compactIndexPath,
+        )) as PackIndexFile;
+        const current = (await IOUtils.exists(this.indexPath))
+          ? ((await IOUtils.readJSON(this.indexPath).catch(
+              () => null,
+            )) as PackIndexFile | null)
+          : null;
+        if ((compacted.generation ?? 0) > (current?.generation ?? 0)) {
+          await IOUtils.move(this.compactIndexPath, this.indexPath);
+          return;
+        }
+      }
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Cache compaction recovery: ${err}`);
+    }
+    await IOUtils.remove(this.compactPackPath, { ignoreAbsent: true }).catch(
+      () => {},
+    );
+    await IOUtils.remove(this.compactIndexPath, { ignoreAbsent: true }).catch(
+      () => {},
+    );
+  }
+
+  private async resyncPackSize(index: PackIndexFile): Promise<void> {
+    try {
+      const size = (await IOUtils.stat(this.packPath)).size ?? index.packSize;
+      index.garbage += Math.max(0, size - index.packSize);
+      index.packSize = Math.max(size, index.packSize);
+    } catch {
+      // Pack missing: nothing was appended
+    }
+  }
+
+  private scheduleIndexSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.serialize(() => this.saveIndexNow());
+    }, INDEX_SAVE_DEBOUNCE_MS);
+  }
+
+  /** Returns false when the index could not be written. */
+  private async saveIndexNow(): Promise<boolean> {
+    if (!this.index) return false;
+    this.accessDirty = false;
+    try {
+      await IOUtils.writeJSON(this.indexPath, this.index, {
+        tmpPath: `${this.indexPath}.tmp`,
+      });
+      return true;
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Cache index save error: ${err}`);
+      return false;
+    }
+  }
+
+  /**
+   * Write a pending index save, or access times not yet saved, immediately
+   * (shutdown, directory change).
+   */
+  flush(): Promise<void> {
+    if (!this.saveTimer && !this.accessDirty) {
+      return this.serialize(async () => undefined);
+    }
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    return this.serialize(async () => {
+      await this.saveIndexNow();
+    });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Entry operations
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /** Index entry without reading the blob (age checks). */
+  peek(name: string): Promise<PackIndexEntry | null> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      return index.entries[name] ?? null;
+    });
+  }
+
+  /** Names of all entries, in no particular order. */
+  list(): Promise<string[]> {
+    return this.serialize(async () =>
+      Object.keys((await this.ensureLoaded()).entries),
+    );
+  }
+
+  /** Copies of all index entries with their names, in no particular order. */
+  entries(): Promise<Array<[string, PackIndexEntry]>> {
+    return this.serialize(async () =>
+      Object.entries((await this.ensureLoaded()).entries).map(
+        ([name, entry]): [string, PackIndexEntry] => [name, { ...entry }],
+      ),
+    );
+  }
+
+  /**
+   * Read an entry's blob and mark it as recently used. The access time is kept
+   * in memory until the next index save or flush.
+   */
+  read(
+    name: string,
+  ): Promise<{ bytes: Uint8Array; entry: PackIndexEntry } | null> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      const entry = index.entries[name];
+      if (!entry) return null;
+      let bytes: Uint8Array;
+      try {
+        bytes = await IOUtils.read(this.packPath, {
+          offset: entry.o,
+          maxBytes: entry.l,
+        });
+      } catch (err) {
+        Zotero.debug(`[${config.addonName}] Cache pack read error: ${err}`);
+        return null;
+      }
+      if (bytes.length !== entry.l) {
+        this.dropEntry(index, name);
+        this.scheduleIndexSave();
+        return null;
+      }
+      entry.a = Date.now();
+      this.accessDirty = true;
+      return { bytes, entry };
+    });
+  }
+
+  /**
+   * Append an entry, replacing any previous version (and keeping its pin).
+   * When `maxBytes` > 0 the least recently used unpinned entries are evicted
+   * to stay under it.
+   */
+  write(
+    name: string,
+    bytes: Uint8Array,
+    meta: { compressed: boolean; ts: number; ttl: number; accessed?: number },
+    maxBytes = 0,
+  ): Promise<void> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      const offset = index.packSize;
+      try {
+        await IOUtils.write(this.packPath, bytes, { mode: "appendOrCreate" });
+      } catch (err) {
+        // A partial append moves the end of the pack; later offsets must match it
+        await this.resyncPackSize(index);
+        throw err;
+      }
+      const pinned = index.entries[name]?.p;
+      this.dropEntry(index, name);
+      index.entries[name] = {
+        o: offset,
+        l: bytes.length,
+        z: meta.compressed,
+        ts: meta.ts,
+        ttl: meta.ttl,
+        a: meta.accessed ?? Date.now(),
+        ...(pinned ? { p: true } : {}),
+      };
+      index.packSize = offset + bytes.length;
+      this.liveBytes += bytes.length;
+      if (maxBytes > 0 && this.liveBytes > maxBytes) {
+        this.evictLocked(index, maxBytes);
+      }
+      await this.compactIfNeeded(index);
+      this.scheduleIndexSave();
+    });
+  }
+
+  remove(name: string): Promise<boolean> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      if (!index.entries[name]) return false;
+      this.dropEntry(index, name);
+      await this.compactIfNeeded(index);
+      this.scheduleIndexSave();
+      return true;
+    });
+  }
+
+  /** Pin entries so that eviction keeps them; returns how many exist. */
+  pin(names: string[]): Promise<number> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      let pinned = 0;
+      for (const name of names) {
+        const entry = index.entries[name];
+        if (!entry) continue;
+        entry.p = true;
+        pinned++;
+      }
+      if (pinned > 0) this.scheduleIndexSave();
+      return pinned;
+    });
+  }
+
+  /** Remove every entry matching `predicate`; returns how many were removed. */
+  removeWhere(
+    predicate: (name: string, entry: PackIndexEntry) => boolean,
+  ): Promise<number> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      let removed = 0;
+      for (const [name, entry] of Object.entries(index.entries)) {
+        if (predicate(name, entry)) {
+          this.dropEntry(index, name);
+          removed++;
+        }
+      }
+      if (removed > 0) {
+        await this.compactIfNeeded(index);
+        this.scheduleIndexSave();
+      }
+      return removed;
+    });
+  }
+
+  /**
+   * Evict least recently used unpinned entries until live data fits in
+   * `maxBytes`.
+   */
+  evictToSize(maxBytes: number): Promise<number> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      if (maxBytes <= 0 || this.liveBytes <= maxBytes) return 0;
+      const evicted = this.evictLocked(index, maxBytes);
+      await this.compactIfNeeded(index);
+      this.scheduleIndexSave();
+      return evicted;
+    });
+  }
+
+  /** Delete the pack and index; returns the number of entries dropped. */
+  clear(): Promise<number> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      const count = Object.keys(index.entries).length;
+      if (this.saveTimer) {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+      }
+      await IOUtils.remove(this.packPath, { ignoreAbsent: true });
+      await IOUtils.remove(this.indexPath, { ignoreAbsent: true });
+      this.index = createEmptyIndex();
+      this.liveBytes = 0;
+      return count;
+    });
+  }
+
+  getStats(): Promise<PackStoreStats> {
+    return this.serialize(async () => {
+      const index = await this.ensureLoaded();
+      const stats: PackStoreStats = {
+        entryCount: 0,
+        liveBytes: this.liveBytes,
+        packBytes: index.packSize,
+        compressedCount: 0,
+        compressedBytes: 0,
+      };
+      for (const entry of Object.values(index.entries)) {
+        stats.entryCount++;
+        if (entry.z) {
+          stats.compressedCount++;
+          stats.compressedBytes += entry.l;
+        }
+      }
+      return stats;
+    });
+  }
+
+  /** Rewrite the pack without garbage now, regardless of thresholds. */
+  compact(): Promise<void> {
+    return this.serialize(async () => {
+      await this.compactLocked(await this.ensureLoaded());
+    });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Eviction and compaction (caller holds the lock)
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private dropEntry(index: PackIndexFile, name: string): void {
+    const entry = index.entries[name];
+    if (!entry) return;
+    delete index.entries[name];
+    this.liveBytes -= entry.l;
+    index.garbage += entry.l;
+  }
+
+  private evictLocked(index: PackIndexFile, maxBytes: number): number {
+    const target = maxBytes * EVICT_TARGET_RATIO;
+    const byAge = Object.entries(index.entries)
+      .filter(([, entry]) => !entry.p)
+      .sort((a, b) => a[1].a - b[1].a);
+    let evicted = 0;
+    for (const [name] of byAge) {
+      if (this.liveBytes <= target) break;
+      this.dropEntry(index, name);
+      evicted++;
+    }
+    if (evicted > 0) {
+      Zotero.debug(
+        `[${config.addonName}] Cache evicted ${evicted} least recently used entries`,
+      );
+    }
+    return evicted;
+  }
+
+  private async compactIfNeeded(index: PackIndexFile): Promise<void> {
+    if (
+      index.garbage < COMPACT_MIN_GARBAGE_BYTES ||
+      index.garbage < this.liveBytes
+    ) {
+      return;
+    }
+    await this.compactLocked(index);
+  }
+
+  /**
+   * Rewrite the pack with only live entries (in offset order) and swap it in.
+   * The new index is written before the swap so that loading can recover
+   * from a crash in between; on failure the old pack and index stay valid.
+   */
+  private async compactLocked(index: PackIndexFile): Promise<void> {
+    const tmpPath = this.compactPackPath;
+    const generation = (index.generation ?? 0) + 1;
+    const entries = Object.entries(index.entries).sort(
+      (a, b) => a[1].o - b[1].o,
+    );
+    const moved: Record<string, PackIndexEntry> = {};
+    let offset = 0;
+    try {
+      await IOUtils.remove(tmpPath, { ignoreAbsent: true });
+      for (const [name, entry] of entries) {
+        const bytes = await IOUtils.read(this.packPath, {
+          offset: entry.o,
+          maxBytes: entry.l,
+        });
+        if (bytes.length !== entry.l) continue;
+        await IOUtils.write(tmpPath, bytes, { mode: "appendOrCreate" });
+        moved[name] = { ...entry, o: offset };
+        offset += entry.l;
+      }
+      if (offset === 0) {
+        await IOUtils.remove(this.packPath, { ignoreAbsent: true });
+        await IOUtils.remove(tmpPath, { ignoreAbsent: true });
+      } else {
+        await IOUtils.writeJSON(this.compactIndexPath, {
+          ...index,
+          generation,
+          packSize: offset,
+          garbage: 0,
+          entries: moved,
+        });
+        await IOUtils.move(tmpPath, this.packPath);
+      }
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Cache compaction failed: ${err}`);
+      await IOUtils.remove(tmpPath, { ignoreAbsent: true }).catch(() => {});
+      await IOUtils.remove(this.compactIndexPath, { ignoreAbsent: true }).catch(
+        () => {},
+      );
+      return;
+    }
+    const reclaimed = index.packSize - offset;
+    index.generation = generation;
+    index.entries = moved;
+    index.packSize = offset;
+    index.garbage = 0;
+    this.liveBytes = offset;
+    // Offsets changed: the index must not lag behind the new pack. Until it is
+    // saved, the compacted index stays on disk for recovery.
+    if (await this.saveIndexNow()) {
+      await IOUtils.remove(this.compactIndexPath, { ignoreAbsent: true }).catch(
+        () => {},
+      );
+    }
+    Zotero.debug(
+      `[${config.addonName}] Cache compacted: ${entries.length} entries, reclaimed ${reclaimed} bytes`,
+    );
+  }
+}
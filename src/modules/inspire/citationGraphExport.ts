@@ -0,0 +1,323 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationGraphExport.ts - Network file formats for the citation graph
+// GraphML, GEXF, DOT, Cytoscape.js JSON and an edge-list CSV built from the
+// same save data as the JSON export, so Gephi, Cytoscape, Graphviz and
+// networkx see identical nodes, edges and attributes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { CitationGraphNodeData, CitationGraphSaveData } from "./types";
+import { escapeCsvCell } from "./utils";
+
+export type CitationGraphExportFormat =
+  | "graphml"
+  | "gexf"
+  | "dot"
+  | "cytoscape"
+  | "edges-csv";
+
+/** File extension and file-picker filter per export format. */
+export const CITATION_GRAPH_EXPORT_FORMATS: Record<
+  CitationGraphExportFormat,
+  { extension: string; filterLabel: string; pattern: string }
+> = {
+  graphml: {
+    extension: ".graphml",
+    filterLabel: "GraphML",
+    pattern: "*.graphml",
+  },
+  gexf: { extension: ".gexf", filterLabel: "GEXF", pattern: "*.gexf" },
+  dot: {
+    extension: ".dot",
+    filterLabel: "DOT (Graphviz)",
+    pattern: "*.dot;*.gv",
+  },
+  cytoscape: {
+    extension: ".cyjs",
+    filterLabel: "Cytoscape.js JSON",
+    pattern: "*.cyjs;*.json",
+  },
+  "edges-csv": {
+    extension: "-edges.csv",
+    filterLabel: "CSV",
+    pattern: "*.csv",
+  },
+};
+
+type AttributeType = "string" | "int" | "boolean";
+type AttributeValue = string | number | boolean;
+
+/**
+ * Node attributes shared by every format. Edges carry their
+ * `CitationGraphEdgeData.type` as `relation`, because Gephi reserves `type`
+ * for edge direction. Every edge points from the citing to the cited paper.
+ */
+const NODE_ATTRIBUTES: Array<{
+  name: string;
+  type: AttributeType;
+  value: (node: CitationGraphNodeData) => AttributeValue | undefined;
+}> = [
+  { name: "kind", type: "string", value: (n) => n.kind },
+  { name: "title", type: "string", value: (n) => n.title || undefined },
+  { name: "authors", type: "string", value: (n) => n.authorLabel || undefined },
+  { name: "year", type: "int", value: (n) => parseYear(n.year) },
+  {
+    name: "citations",
+    type: "int",
+    value: (n) =>
+      typeof n.citationCount === "number" ? n.citationCount : undefined,
+  },
+  { name: "arxiv", type: "string", value: (n) => n.arxivId || undefined },
+  { name: "doi", type: "string", value: (n) => n.doi || undefined },
+  {
+    name: "inspire_url",
+    type: "string",
+    value: (n) => n.inspireUrl || undefined,
+  },
+  {
+    name: "in_library",
+    type: "boolean",
+    value: (n) => typeof n.localItemID === "number",
+  },
+  {
+    name: "local_item_id",
+    type: "int",
+    value: (n) =>
+      typeof n.localItemID === "number" ? n.localItemID : undefined,
+  },
+  { name: "hop", type: "int", value: (n) => n.hop ?? 1 },
+];
+
+function parseYear(year: string | undefined): number | undefined {
+  const match = /^\d{4}/.exec(String(year ?? "").trim());
+  return match ? Number(match[0]) : undefined;
+}
+
+function nodeLabel(node: CitationGraphNodeData): string {
+  return node.title || node.recid;
+}
+
+/** Edges whose endpoints are both exported nodes (importers reject others). */
+function exportedEdges(data: CitationGraphSaveData) {
+  const ids = new Set(data.graph.nodes.map((n) => n.recid));
+  return data.graph.edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+}
+
+function escapeXml(value: AttributeValue): string {
+  return (
+    String(value)
+      // Control characters are not allowed in XML 1.0.
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+  );
+}
+
+function quoteDot(value: AttributeValue): string {
+  if (typeof value !== "string") return String(value);
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+/** GraphML (yEd, Cytoscape, networkx `read_graphml`). */
+export function buildCitationGraphGraphML(data: CitationGraphSaveData): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"' +
+      ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+      ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns' +
+      ' http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ];
+  for (const attr of NODE_ATTRIBUTES) {
+    lines.push(
+      `  <key id="${attr.name}" for="node" attr.name="${attr.name}" attr.type="${attr.type}"/>`,
+    );
+  }
+  lines.push(
+    '  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>',
+    '  <graph id="citation-graph" edgedefault="directed">',
+  );
+  for (const node of data.graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.recid)}">`);
+    for (const attr of NODE_ATTRIBUTES) {
+      const value = attr.value(node);
+      if (value === undefined) continue;
+      lines.push(`      <data key="${attr.name}">${escapeXml(value)}</data>`);
+    }
+    lines.push("    </node>");
+  }
+  exportedEdges(data).forEach((edge, i) => {
+    lines.push(
+      `    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+      `      <data key="relation">${escapeXml(edge.type)}</data>`,
+      "    </edge>",
+    );
+  });
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+/** GEXF 1.2 (Gephi, networkx `read_gexf`). */
+export function buildCitationGraphGexf(data: CitationGraphSaveData): string {
+  const gexfType: Record<AttributeType, string> = {
+    string: "string",
+    int: "integer",
+    boolean: "boolean",
+  };
+  const date = /^\d{4}-\d{2}-\d{2}/.exec(data.createdAt)?.[0];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://www.gexf.net/1.2draft" version="1.2">',
+    date ? `  <meta lastmodifieddate="${date}">` : "  <meta>",
+    "    <creator>Zotero INSPIRE</creator>",
+    `    <description>INSPIRE citation graph (${data.seeds.length} seed(s))</description>`,
+    "  </meta>",
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+  ];
+  NODE_ATTRIBUTES.forEach((attr, i) => {
+    lines.push(
+      `      <attribute id="${i}" title="${attr.name}" type="${gexfType[attr.type]}"/>`,
+    );
+  });
+  lines.push(
+    "    </attributes>",
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="relation" type="string"/>',
+    "    </attributes>",
+    "    <nodes>",
+  );
+  for (const node of data.graph.nodes) {
+    lines.push(
+      `      <node id="${escapeXml(node.recid)}" label="${escapeXml(nodeLabel(node))}">`,
+      "        <attvalues>",
+    );
+    NODE_ATTRIBUTES.forEach((attr, i) => {
+      const value = attr.value(node);
+      if (value === undefined) return;
+      lines.push(
+        `          <attvalue for="${i}" value="${escapeXml(value)}"/>`,
+      );
+    });
+    lines.push("        </attvalues>", "      </node>");
+  }
+  lines.push("    </nodes>", "    <edges>");
+  exportedEdges(data).forEach((edge, i) => {
+    lines.push(
+      `      <edge id="${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.type)}">`,
+      `        <attvalues><attvalue for="0" value="${escapeXml(edge.type)}"/></attvalues>`,
+      "      </edge>",
+    );
+  });
+  lines.push("    </edges>", "  </graph>", "</gexf>");
+  return lines.join("\n");
+}
+
+/** Graphviz DOT (also read by networkx `nx.nx_pydot.read_dot`). */
+export function buildCitationGraphDot(data: CitationGraphSaveData): string {
+  const lines = [
+    "digraph citation_graph {",
+    "  node [shape=box, style=rounded];",
+  ];
+  for (const node of data.graph.nodes) {
+    const year = parseYear(node.year);
+    const attrs = [
+      `label=${quoteDot(year ? `${nodeLabel(node)} (${year})` : nodeLabel(node))}`,
+    ];
+    for (const attr of NODE_ATTRIBUTES) {
+      const value = attr.value(node);
+      if (value === undefined || attr.name === "title") continue;
+      attrs.push(`${attr.name}=${quoteDot(value)}`);
+    }
+    if (node.kind === "seed") attrs.push("penwidth=2");
+    lines.push(`  ${quoteDot(node.recid)} [${attrs.join(", ")}];`);
+  }
+  for (const edge of exportedEdges(data)) {
+    lines.push(
+      `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [relation=${quoteDot(edge.type)}];`,
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/** Cytoscape.js elements JSON (Cytoscape desktop: File → Import → Network). */
+export function buildCitationGraphCytoscapeJson(
+  data: CitationGraphSaveData,
+): string {
+  const nodes = data.graph.nodes.map((node) => {
+    const fields: Record<string, AttributeValue> = {
+      id: node.recid,
+      name: nodeLabel(node),
+    };
+    for (const attr of NODE_ATTRIBUTES) {
+      const value = attr.value(node);
+      if (value !== undefined) fields[attr.name] = value;
+    }
+    return { data: fields };
+  });
+  const edges = exportedEdges(data).map((edge, i) => ({
+    data: {
+      id: `e${i}`,
+      source: edge.source,
+      target: edge.target,
+      relation: edge.type,
+    },
+  }));
+  return JSON.stringify(
+    {
+      format_version: "1.0",
+      generated_by: "Zotero INSPIRE",
+      data: { name: "INSPIRE citation graph", created_at: data.createdAt },
+      elements: { nodes, edges },
+    },
+    null,
+    2,
+  );
+}
+
+/** Edge list with the endpoint titles and years, one citation per row. */
+export function buildCitationGraphEdgeCsv(data: CitationGraphSaveData): string {
+  const nodeById = new Map(data.graph.nodes.map((n) => [n.recid, n] as const));
+  const lines = [
+    "source,target,relation,source_title,target_title,source_year,target_year",
+  ];
+  for (const edge of exportedEdges(data)) {
+    const source = nodeById.get(edge.source)!;
+    const target = nodeById.get(edge.target)!;
+    lines.push(
+      [
+        edge.source,
+        edge.target,
+        edge.type,
+        source.title || "",
+        target.title || "",
+        parseYear(source.year) ?? "",
+        parseYear(target.year) ?? "",
+      ]
+        .map(escapeCsvCell)
+        .join(","),
+    );
+  }
+  return lines.join("\n");
+}
+
+export function buildCitationGraphExport(
+  data: CitationGraphSaveData,
+  format: CitationGraphExportFormat,
+): string {
+  switch (format) {
+    case "graphml":
+      return buildCitationGraphGraphML(data);
+    case "gexf":
+      return buildCitationGraphGexf(data);
+    case "dot":
+      return buildCitationGraphDot(data);
+    case "cytoscape":
+      return buildCitationGraphCytoscapeJson(data);
+    case "edges-csv":
+      return buildCitationGraphEdgeCsv(data);
+  }
+}
@@ -0,0 +1,461 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationGraphLayout.ts - Network layouts for the citation graph
+// Force-directed placement (Fruchterman–Reingold), force-directed edge
+// bundling, label-propagation communities with modularity, and cluster labels
+// from title terms. Pure functions: the dialog maps them onto its SVG nodes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export interface LayoutNode {
+  id: string;
+  /** Start position (e.g. from the timeline layout); hashed when absent. */
+  x?: number;
+  y?: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface CitationCommunities {
+  /** Cluster index per node; clusters are ordered by size (largest first). */
+  clusterOf: Map<string, number>;
+  clusters: string[][];
+  /** Newman modularity of the partition (undirected, unweighted). */
+  modularity: number;
+}
+
+const LABEL_PROPAGATION_MAX_ROUNDS = 50;
+const BUNDLING_MAX_EDGES = 400;
+const BUNDLING_COMPATIBILITY_THRESHOLD = 0.6;
+
+const TITLE_STOP_WORDS = new Set(
+  (
+    "about above across after against all also among analysis and any are " +
+    "around at based being between beyond both but can case does down due " +
+    "each effect effects for from has have how in into its new non not note " +
+    "notes off on one only onto our out over part some study than that the " +
+    "their them then there these this those through two under upon using via " +
+    "what when where which while with within without"
+  ).split(" "),
+);
+
+function stableUnit(value: string, salt: string): number {
+  let hash = 2166136261;
+  const text = `${salt}:${value}`;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return ((hash >>> 0) % 1_000_000) / 1_000_000;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Fruchterman–Reingold layout inside a `width` × `height` box.
+ * `anchors` pull nodes towards a point (cluster centres); everything else is
+ * deterministic, so the same graph always lands in the same place.
+ */
+export function computeForceLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: {
+    width: number;
+    height: number;
+    padding?: number;
+    iterations?: number;
+    anchors?: Map<string, LayoutPoint>;
+    anchorStrength?: number;
+  },
+): Map<string, LayoutPoint> {
+  const { width, height } = options;
+  const padding = options.padding ?? 40;
+  const minX = padding;
+  const maxX = Math.max(padding + 1, width - padding);
+  const minY = padding;
+  const maxY = Math.max(padding + 1, height - padding);
+  const n = nodes.length;
+  const positions = new Map<string, LayoutPoint>();
+  if (!n) return positions;
+
+  const ids = nodes.map((node) => node.id);
+  const index = new Map(ids.map((id, i) => [id, i] as const));
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  nodes.forEach((node, i) => {
+    xs[i] = Number.isFinite(node.x)
+      ? clamp(node.x!, minX, maxX)
+      : minX + stableUnit(node.id, "force-x") * (maxX - minX);
+    ys[i] = Number.isFinite(node.y)
+      ? clamp(node.y!, minY, maxY)
+      : minY + stableUnit(node.id, "force-y") * (maxY - minY);
+  });
+
+  const links: Array<[number, number]> = [];
+  const linkSeen = new Set<string>();
+  for (const edge of edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    if (linkSeen.has(key)) continue;
+    linkSeen.add(key);
+    links.push([a, b]);
+  }
+
+  const anchorX = new Float64Array(n);
+  const anchorY = new Float64Array(n);
+  const anchored = new Uint8Array(n);
+  for (const [id, point] of options.anchors ?? []) {
+    const i = index.get(id);
+    if (i === undefined) continue;
+    anchorX[i] = point.x;
+    anchorY[i] = point.y;
+    anchored[i] = 1;
+  }
+  const anchorStrength = options.anchorStrength ?? 0.08;
+
+  const area = (maxX - minX) * (maxY - minY);
+  const k = Math.sqrt(area / n) * 0.75;
+  const iterations =
+    options.iterations ?? clamp(Math.round(40000 / n), 60, 300);
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+  let temperature = Math.max(maxX - minX, maxY - minY) / 8;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let ddx = xs[i] - xs[j];
+        let ddy = ys[i] - ys[j];
+        let dist = Math.sqrt(ddx * ddx + ddy * ddy);
+        if (dist < 0.01) {
+          const theta =
+            stableUnit(`${ids[i]}|${ids[j]}`, "force-split") * 2 * Math.PI;
+          ddx = Math.cos(theta) * 0.01;
+          ddy = Math.sin(theta) * 0.01;
+          dist = 0.01;
+        }
+        const force = (k * k) / dist;
+        const fx = (ddx / dist) * force;
+        const fy = (ddy / dist) * force;
+        dx[i] += fx;
+        dy[i] += fy;
+        dx[j] -= fx;
+        dy[j] -= fy;
+      }
+    }
+
+    for (const [a, b] of links) {
+      const ddx = xs[a] - xs[b];
+      const ddy = ys[a] - ys[b];
+      const dist = Math.max(0.01, Math.sqrt(ddx * ddx + ddy * ddy));
+      const force = (dist * dist) / k;
+      const fx = (ddx / dist) * force;
+      const fy = (ddy / dist) * force;
+      dx[a] -= fx;
+      dy[a] -= fy;
+      dx[b] += fx;
+      dy[b] += fy;
+    }
+
+    for (let i = 0; i < n; i++) {
+      // Weak gravity keeps disconnected nodes on screen; anchors replace it.
+      const targetX = anchored[i] ? anchorX[i] : centerX;
+      const targetY = anchored[i] ? anchorY[i] : centerY;
+      const pull = anchored[i] ? anchorStrength : 0.01;
+      dx[i] += (targetX - xs[i]) * pull * k;
+      dy[i] += (targetY - ys[i]) * pull * k;
+
+      const len = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (len > 0) {
+        const step = Math.min(len, temperature);
+        xs[i] = clamp(xs[i] + (dx[i] / len) * step, minX, maxX);
+        ys[i] = clamp(ys[i] + (dy[i] / len) * step, minY, maxY);
+      }
+    }
+    temperature = Math.max(0.5, temperature - cooling);
+  }
+
+  nodes.forEach((node, i) => positions.set(node.id, { x: xs[i], y: ys[i] }));
+  return positions;
+}
+
+/** Newman modularity of `clusterOf` over undirected, unweighted `edges`. */
+export function computeModularity(
+  clusterOf: Map<string, number>,
+  edges: LayoutEdge[],
+): number {
+  const degree = new Map<string, number>();
+  let m = 0;
+  let inside = 0;
+  for (const edge of edges) {
+    const a = clusterOf.get(edge.source);
+    const b = clusterOf.get(edge.target);
+    if (a === undefined || b === undefined || edge.source === edge.target) {
+      continue;
+    }
+    m++;
+    if (a === b) inside++;
+    degree.set(edge.source, (degree.get(edge.source) ?? 0) + 1);
+    degree.set(edge.target, (degree.get(edge.target) ?? 0) + 1);
+  }
+  if (!m) return 0;
+
+  const degreeByCluster = new Map<number, number>();
+  for (const [id, d] of degree) {
+    const c = clusterOf.get(id)!;
+    degreeByCluster.set(c, (degreeByCluster.get(c) ?? 0) + d);
+  }
+  let expected = 0;
+  for (const d of degreeByCluster.values()) {
+    expected += (d / (2 * m)) ** 2;
+  }
+  return inside / m - expected;
+}
+
+/**
+ * Modularity-guided label propagation (LPAm) over the undirected citation
+ * edges: a node adopts the neighbouring label with the largest modularity
+ * gain, which stops a single bridge from merging two communities. Nodes visit
+ * in id order and keep their label on ties, so results are reproducible;
+ * nodes without edges stay singletons.
+ */
+export function detectCitationCommunities(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+): CitationCommunities {
+  const ids = Array.from(new Set(nodeIds)).sort();
+  const neighbours = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const pairSeen = new Set<string>();
+  const undirected: LayoutEdge[] = [];
+  for (const edge of edges) {
+    const a = neighbours.get(edge.source);
+    const b = neighbours.get(edge.target);
+    if (!a || !b || edge.source === edge.target) continue;
+    const key =
+      edge.source < edge.target
+        ? `${edge.source}|${edge.target}`
+        : `${edge.target}|${edge.source}`;
+    if (pairSeen.has(key)) continue;
+    pairSeen.add(key);
+    a.push(edge.target);
+    b.push(edge.source);
+    undirected.push(edge);
+  }
+
+  const label = new Map(ids.map((id) => [id, id] as const));
+  const twoM = 2 * undirected.length;
+  const labelDegree = new Map(
+    ids.map((id) => [id, neighbours.get(id)!.length] as const),
+  );
+  for (let round = 0; round < LABEL_PROPAGATION_MAX_ROUNDS; round++) {
+    let changed = false;
+    for (const id of ids) {
+      const adjacent = neighbours.get(id)!;
+      if (!adjacent.length) continue;
+      const degree = adjacent.length;
+      const current = label.get(id)!;
+      labelDegree.set(current, labelDegree.get(current)! - degree);
+
+      const links = new Map<string, number>();
+      for (const other of adjacent) {
+        const l = label.get(other)!;
+        links.set(l, (links.get(l) ?? 0) + 1);
+      }
+      // Gain of joining label l, up to a constant factor: links into l minus
+      // the links expected from l's total degree.
+      const gain = (l: string) =>
+        (links.get(l) ?? 0) - ((labelDegree.get(l) ?? 0) * degree) / twoM;
+      let best = current;
+      let bestGain = gain(current);
+      for (const l of links.keys()) {
+        const g = gain(l);
+        if (g > bestGain + 1e-9) {
+          best = l;
+          bestGain = g;
+        }
+      }
+
+      labelDegree.set(best, (labelDegree.get(best) ?? 0) + degree);
+      if (best !== current) {
+        label.set(id, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const id of ids) {
+    const l = label.get(id)!;
+    const group = groups.get(l);
+    if (group) group.push(id);
+    else groups.set(l, [id]);
+  }
+  const clusters = Array.from(groups.values()).sort(
+    (a, b) => b.length - a.length || (a[0] < b[0] ? -1 : 1),
+  );
+  const clusterOf = new Map<string, number>();
+  clusters.forEach((members, i) => {
+    for (const id of members) clusterOf.set(id, i);
+  });
+
+  return {
+    clusterOf,
+    clusters,
+    modularity: computeModularity(clusterOf, undirected),
+  };
+}
+
+/** Most frequent title terms (counted once per title), most frequent first. */
+export function extractClusterTerms(titles: string[], limit = 3): string[] {
+  const counts = new Map<string, number>();
+  for (const title of titles) {
+    const words = new Set(
+      String(title || "")
+        .replace(/\$[^$]*\$/g, " ")
+        .replace(/<[^>]+>/g, " ")
+        .toLowerCase()
+        .split(/[^a-z0-9-]+/)
+        .map((w) => w.replace(/^-+|-+$/g, ""))
+        .filter(
+          (w) => w.length >= 3 && !/^\d+$/.test(w) && !TITLE_STOP_WORDS.has(w),
+        ),
+    );
+    for (const word of words) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+/** Cluster centres on an ellipse around the box centre, largest first. */
+export function computeClusterCenters(
+  count: number,
+  width: number,
+  height: number,
+): LayoutPoint[] {
+  const cx = width / 2;
+  const cy = height / 2;
+  if (count <= 1) return [{ x: cx, y: cy }];
+  const rx = width * 0.32;
+  const ry = height * 0.3;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / count;
+    return { x: cx + Math.cos(angle) * rx, y: cy + Math.sin(angle) * ry };
+  });
+}
+
+/**
+ * Force-directed edge bundling (Holten & van Wijk): each edge becomes a
+ * polyline whose inner points are attracted by those of compatible edges.
+ * Large graphs (more than 400 edges) are returned unbundled.
+ */
+export function bundleEdges(
+  segments: Array<{ source: LayoutPoint; target: LayoutPoint }>,
+  options: { cycles?: number; stiffness?: number } = {},
+): LayoutPoint[][] {
+  const straight = segments.map((s) => [{ ...s.source }, { ...s.target }]);
+  const count = segments.length;
+  if (count < 2 || count > BUNDLING_MAX_EDGES) return straight;
+
+  const cycles = options.cycles ?? 4;
+  const stiffness = options.stiffness ?? 0.1;
+  const lengths = segments.map((s) =>
+    Math.max(1, Math.hypot(s.target.x - s.source.x, s.target.y - s.source.y)),
+  );
+
+  // Compatible pairs (angle × scale × position); flipped when anti-parallel.
+  const compatible: Array<Array<{ other: number; flip: boolean }>> = Array.from(
+    { length: count },
+    () => [],
+  );
+  for (let a = 0; a < count; a++) {
+    const pa = segments[a]!;
+    const ax = pa.target.x - pa.source.x;
+    const ay = pa.target.y - pa.source.y;
+    for (let b = a + 1; b < count; b++) {
+      const pb = segments[b]!;
+      const bx = pb.target.x - pb.source.x;
+      const by = pb.target.y - pb.source.y;
+      const la = lengths[a]!;
+      const lb = lengths[b]!;
+      const dot = (ax * bx + ay * by) / (la * lb);
+      const angle = Math.abs(dot);
+      const avg = (la + lb) / 2;
+      const scale = 2 / (avg / Math.min(la, lb) + Math.max(la, lb) / avg);
+      const midDist = Math.hypot(
+        (pa.source.x + pa.target.x - pb.source.x - pb.target.x) / 2,
+        (pa.source.y + pa.target.y - pb.source.y - pb.target.y) / 2,
+      );
+      const position = avg / (avg + midDist);
+      if (angle * scale * position < BUNDLING_COMPATIBILITY_THRESHOLD) continue;
+      compatible[a]!.push({ other: b, flip: dot < 0 });
+      compatible[b]!.push({ other: a, flip: dot < 0 });
+    }
+  }
+
+  // Step size, iterations per cycle and subdivision follow the paper's defaults.
+  let points = straight;
+  let step = 0.1;
+  let iterations = 50;
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    // Insert a midpoint into every segment (1, 3, 7, ... inner points).
+    points = points.map((line) => {
+      const next: LayoutPoint[] = [line[0]!];
+      for (let i = 1; i < line.length; i++) {
+        const prev = line[i - 1]!;
+        const cur = line[i]!;
+        next.push({ x: (prev.x + cur.x) / 2, y: (prev.y + cur.y) / 2 }, cur);
+      }
+      return next;
+    });
+    const inner = points[0]!.length - 2;
+
+    for (let iter = 0; iter < iterations; iter++) {
+      points = points.map((line, e) => {
+        const kP = stiffness / (lengths[e]! * (inner + 1));
+        const result: LayoutPoint[] = [line[0]!];
+        for (let i = 1; i < line.length - 1; i++) {
+          const p = line[i]!;
+          let fx = kP * (line[i - 1]!.x + line[i + 1]!.x - 2 * p.x);
+          let fy = kP * (line[i - 1]!.y + line[i + 1]!.y - 2 * p.y);
+          for (const { other, flip } of compatible[e]!) {
+            const otherLine = points[other]!;
+            const q = otherLine[flip ? otherLine.length - 1 - i : i]!;
+            const ddx = q.x - p.x;
+            const ddy = q.y - p.y;
+            const dist = Math.hypot(ddx, ddy);
+            if (dist < 1e-3) continue;
+            fx += ddx / dist;
+            fy += ddy / dist;
+          }
+          result.push({ x: p.x + step * fx, y: p.y + step * fy });
+        }
+        result.push(line[line.length - 1]!);
+        return result;
+      });
+    }
+    step /= 2;
+    iterations = Math.round((iterations * 2) / 3);
+  }
+  return points;
+}
@@ -1,6 +1,9 @@
 import {
+  CITATION_GRAPH_EXPAND_MAX_PER_SIDE,
+  CITATION_GRAPH_EXPAND_SCAN_PER_SIDE,
   CITATION_GRAPH_MAX_CITED_BY,
   CITATION_GRAPH_MAX_REFERENCES,
+  CITATION_GRAPH_SECOND_RING_MAX_NODES,
   DEFAULT_CITATION_GRAPH_SORT,
   INSPIRE_API_BASE,
   INSPIRE_LITERATURE_URL,
@@ -16,6 +19,7 @@ import {
 import { fetchReferencesEntries } from "./referencesService";
 import { inspireFetch } from "./rateLimiter";
 import type {
+  CitationGraphExpansion,
   CitationGraphSortMode,
   InspireReferenceEntry,
   MultiSeedGraphResult,
@@ -129,7 +133,10 @@ export async function detectSeedEdges(
 
   const perSeed = await Promise.all(
     uniqueSeeds.map(async (recid) => {
-      const refs = await fetchReferencesEntries(recid, { signal }).catch(() => []);
+      const refs = await fetchReferencesEntries(recid, {
+        signal,
+        requestPriority: "background",
+      }).catch(() => []);
       const refRecids = refs
         .map((r) => r.recid)
         .filter((v): v is string => typeof v === "string" && v.trim().length > 0);
@@ -421,9 +428,10 @@ async function fetchCitedByTotalUnion(
 
   const query = uniqueSeeds.map((r) => `refersto:recid:${r}`).join(" OR ");
   const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=1&page=1${buildFieldsParam("control_number")}`;
-  const response = await inspireFetch(url, signal ? { signal } : undefined).catch(
-    () => null,
-  );
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: "background",
+  }).catch(() => null);
   if (!response || !response.ok) {
     return null;
   }
@@ -457,11 +465,13 @@ export async function fetchMultiSeedCitationGraph(
   }
   const seedRecidSet = new Set(seeds);
 
-  // Fetch each seed graph in parallel (inspireFetch is rate-limited).
+  // Fetch each seed graph in parallel (inspireFetch is rate-limited; in active
+  // mode these fan-out requests queue behind interactive panel loads).
   const perSeedResults = await Promise.all(
     seeds.map((recid) =>
       fetchCitationGraphOneHop(recid, {
         signal: options.signal,
+        requestPriority: options.requestPriority ?? "background",
         sort,
         maxReferences,
         maxCitedBy,
@@ -642,3 +652,212 @@ export async function fetchMultiSeedCitationGraph(
     bySeed,
   };
 }
+
+function getEntryRecid(entry: InspireReferenceEntry): string {
+  return typeof entry.recid === "string" ? entry.recid.trim() : "";
+}
+
+/** Recids of every node on the canvas: seeds, first ring and expanded rings. */
+export function getCitationGraphDisplayedRecids(
+  graph: MultiSeedGraphResult,
+): Set<string> {
+  const recids = new Set<string>();
+  for (const seed of graph.seeds) {
+    if (seed?.recid) recids.add(seed.recid);
+  }
+  const entries = [
+    ...graph.references,
+    ...graph.citedBy,
+    ...(graph.secondRing?.references ?? []),
+    ...(graph.secondRing?.citedBy ?? []),
+  ];
+  for (const entry of entries) {
+    const recid = getEntryRecid(entry);
+    if (recid) recids.add(recid);
+  }
+  return recids;
+}
+
+/**
+ * One-hop neighbourhood of a node to expand, scanned wider than the expansion
+ * budget so edges to nodes already on the canvas are not missed.
+ * `cachedOnly` never touches the network and resolves to null on a cache miss.
+ */
+export async function fetchCitationGraphExpansion(
+  recid: string,
+  options: FetchCitationGraphOptions & { cachedOnly?: boolean } = {},
+): Promise<CitationGraphOneHopResult | null> {
+  const { cachedOnly, ...rest } = options;
+  const request: FetchCitationGraphOptions = {
+    ...rest,
+    maxReferences: CITATION_GRAPH_EXPAND_SCAN_PER_SIDE,
+    maxCitedBy: CITATION_GRAPH_EXPAND_SCAN_PER_SIDE,
+  };
+  if (cachedOnly) {
+    return getCachedCitationGraphOneHop(recid, request).catch(() => null);
+  }
+  return fetchCitationGraphOneHop(recid, {
+    requestPriority: "interactive",
+    ...request,
+  });
+}
+
+/**
+ * Keep the ring nodes and expansions reachable from the first ring through
+ * expansions, and record the hop of each ring node.
+ */
+function settleCitationGraphRing(
+  graph: MultiSeedGraphResult,
+): MultiSeedGraphResult {
+  const expansions = graph.expansions ?? {};
+  const hops = new Map<string, number>();
+  for (const seed of graph.seeds) {
+    if (seed?.recid) hops.set(seed.recid, 0);
+  }
+  let frontier: string[] = [];
+  for (const entry of [...graph.references, ...graph.citedBy]) {
+    const recid = getEntryRecid(entry);
+    if (!recid || hops.has(recid)) continue;
+    hops.set(recid, 1);
+    frontier.push(recid);
+  }
+  for (let hop = 2; frontier.length; hop++) {
+    const next: string[] = [];
+    for (const recid of frontier) {
+      const detail = expansions[recid];
+      if (!detail) continue;
+      for (const linked of [...detail.references, ...detail.citedBy]) {
+        if (hops.has(linked)) continue;
+        hops.set(linked, hop);
+        next.push(linked);
+      }
+    }
+    frontier = next;
+  }
+
+  const reachable = (entry: InspireReferenceEntry) =>
+    hops.has(getEntryRecid(entry));
+  const secondRing = {
+    references: (graph.secondRing?.references ?? []).filter(reachable),
+    citedBy: (graph.secondRing?.citedBy ?? []).filter(reachable),
+  };
+  const ringHops: Record<string, number> = {};
+  for (const entry of [...secondRing.references, ...secondRing.citedBy]) {
+    const recid = getEntryRecid(entry);
+    ringHops[recid] = hops.get(recid)!;
+  }
+  return {
+    ...graph,
+    expansions: Object.fromEntries(
+      Object.entries(expansions).filter(
+        ([recid]) => (hops.get(recid) ?? 0) > 0,
+      ),
+    ),
+    secondRing,
+    ringHops,
+  };
+}
+
+/**
+ * Remove a node's expansion together with the ring nodes (and their own
+ * expansions) that no remaining expansion connects to the first ring.
+ */
+export function collapseCitationGraphNode(
+  graph: MultiSeedGraphResult,
+  recid: string,
+): MultiSeedGraphResult {
+  if (!graph.expansions?.[recid]) {
+    return graph;
+  }
+  const expansions = { ...graph.expansions };
+  delete expansions[recid];
+  return settleCitationGraphRing({ ...graph, expansions });
+}
+
+/**
+ * Merge the one-hop neighbourhood of a non-seed node into the graph, one hop
+ * further out than the node.
+ * The node links to every paper already on the canvas that it cites or is
+ * cited by; up to `maxPerSide` unseen papers per side join the ring until it
+ * holds `maxRingNodes`, whatever their hop. Re-expanding replaces the old
+ * expansion; ring nodes only the old one reached are dropped.
+ */
+export function mergeCitationGraphExpansion(
+  graph: MultiSeedGraphResult,
+  recid: string,
+  oneHop: CitationGraphOneHopResult,
+  options: { maxPerSide?: number; maxRingNodes?: number } = {},
+): MultiSeedGraphResult {
+  const maxPerSide = options.maxPerSide ?? CITATION_GRAPH_EXPAND_MAX_PER_SIDE;
+  const maxRingNodes =
+    options.maxRingNodes ?? CITATION_GRAPH_SECOND_RING_MAX_NODES;
+
+  // Nodes reached through the old expansion stay until the new one is in, so
+  // that their own expansions survive a refresh of this node.
+  const expansionsWithout = { ...graph.expansions };
+  delete expansionsWithout[recid];
+  const base = { ...graph, expansions: expansionsWithout };
+  const displayed = getCitationGraphDisplayedRecids(base);
+  const secondRing = {
+    references: [...(base.secondRing?.references ?? [])],
+    citedBy: [...(base.secondRing?.citedBy ?? [])],
+  };
+  let room = Math.max(
+    0,
+    maxRingNodes - secondRing.references.length - secondRing.citedBy.length,
+  );
+
+  // Seeds already drawn with an edge to this node (seed-to-reference /
+  // cited-by-to-seed) would only duplicate it.
+  const linkedSeeds = new Set<string>();
+  for (const [seedRecid, detail] of Object.entries(base.bySeed ?? {})) {
+    if (detail.references.includes(recid) || detail.citedBy.includes(recid)) {
+      linkedSeeds.add(seedRecid);
+    }
+  }
+
+  const linkSide = (
+    entries: InspireReferenceEntry[],
+    allRecids: string[],
+    ringSide: InspireReferenceEntry[],
+  ): string[] => {
+    const linked = new Set<string>();
+    for (const raw of allRecids) {
+      const value = String(raw || "").trim();
+      if (value && displayed.has(value)) linked.add(value);
+    }
+    let added = 0;
+    for (const entry of entries) {
+      const value = getEntryRecid(entry);
+      if (!value) continue;
+      if (displayed.has(value)) {
+        linked.add(value);
+        continue;
+      }
+      if (added >= maxPerSide || room <= 0) continue;
+      ringSide.push(entry);
+      displayed.add(value);
+      linked.add(value);
+      added++;
+      room--;
+    }
+    linked.delete(recid);
+    return Array.from(linked).filter((r) => !linkedSeeds.has(r));
+  };
+
+  const expansion: CitationGraphExpansion = {
+    references: linkSide(
+      oneHop.references,
+      oneHop.referencesAllRecids ?? [],
+      secondRing.references,
+    ),
+    citedBy: linkSide(oneHop.citedBy, [], secondRing.citedBy),
+    totals: { ...oneHop.totals },
+  };
+
+  return settleCitationGraphRing({
+    ...base,
+    expansions: { ...base.expansions, [recid]: expansion },
+    secondRing,
+  });
+}
@@ -19,8 +19,13 @@ import {
 } from "./formatters";
 import { fetchReferencesEntries, enrichReferencesEntries } from "./referencesService";
 import { isInspireLiteratureSearchResponse } from "./apiTypes";
-import { inspireFetch } from "./rateLimiter";
+import { inspireFetch, type InspireRequestPriority } from "./rateLimiter";
 import { localCache } from "./localCache";
+import {
+  createOfflineError,
+  isOfflineMode,
+  queueOfflineFetch,
+} from "./offlineMode";
 import type {
   CitationGraphNode,
   CitationGraphSortMode,
@@ -56,6 +61,8 @@ export interface FetchCitationGraphOptions {
   forceRefresh?: boolean;
   /** Include review articles (including PDG RPP) in references/cited-by lists. */
   includeReviews?: boolean;
+  /** Rate limiter queue priority (active mode); multi-seed graphs use "background". */
+  requestPriority?: InspireRequestPriority;
 }
 
 function getCitationValue(entry: InspireReferenceEntry): number {
@@ -178,6 +185,8 @@ async function loadCachedCitationGraphOneHopBase(
 ): Promise<CitationGraphOneHopResult | null> {
   const cacheSuffix = buildCitationGraphCacheSuffix(sort, includeReviews);
   const cacheKey = `${seedRecid}|${cacheSuffix}`;
+  // Expired graphs are still better than nothing when the network is off
+  const cacheOptions = { ignoreTTL: isOfflineMode() };
 
   const mem = citationGraphResultCache.get(cacheKey) ?? null;
   if (mem) {
@@ -188,6 +197,7 @@ async function loadCachedCitationGraphOneHopBase(
     "citation_graph",
     seedRecid,
     cacheSuffix,
+    cacheOptions,
   );
   if (cachedDisk) {
     citationGraphResultCache.set(cacheKey, cachedDisk.data);
@@ -206,6 +216,7 @@ async function loadCachedCitationGraphOneHopBase(
       "citation_graph",
       seedRecid,
       legacySuffix,
+      cacheOptions,
     );
     if (!legacyDisk) continue;
     const legacy = legacyDisk.data;
@@ -412,12 +423,17 @@ function buildEntryFromSearchHit(
   return entry;
 }
 
-async function fetchCitedByEntriesLimited(
+/**
+ * First page of a paper's citing papers (`refersto:recid:`), without the
+ * pagination of the full cited-by list. Failed requests return `ok: false`.
+ */
+export async function fetchCitedByEntriesLimited(
   seedRecid: string,
   maxCitedBy: number,
   sort: CitationGraphSortMode,
   includeReviews: boolean,
   signal?: AbortSignal,
+  requestPriority?: InspireRequestPriority,
 ): Promise<{ entries: InspireReferenceEntry[]; total: number; ok: boolean }> {
   const strings = getCachedStrings();
   const query = encodeURIComponent(`refersto:recid:${seedRecid}`);
@@ -431,7 +447,7 @@ async function fetchCitedByEntriesLimited(
         : Math.min(200, Math.max(1, maxCitedBy * 5));
   const url = `${INSPIRE_API_BASE}/literature?q=${query}&size=${Math.max(1, fetchSize)}&page=1${sortParam}${fieldsParam}`;
 
-  const response = await inspireFetch(url, signal ? { signal } : undefined).catch(
+  const response = await inspireFetch(url, { signal, requestPriority }).catch(
     () => null,
   );
   if (!response || response.status === 404 || !response.ok) {
@@ -459,7 +475,7 @@ export async function fetchCitationGraphOneHop(
   seedRecid: string,
   options: FetchCitationGraphOptions = {},
 ): Promise<CitationGraphOneHopResult> {
-  const { signal } = options;
+  const { signal, requestPriority } = options;
   const sort = options.sort ?? DEFAULT_CITATION_GRAPH_SORT;
   const forceRefresh = options.forceRefresh === true;
   const includeReviews = options.includeReviews === true;
@@ -506,6 +522,19 @@ export async function fetchCitationGraphOneHop(
     }
   }
 
+  if (isOfflineMode()) {
+    if (cachedFallback) {
+      return sliceCitationGraphResult(cachedFallback, maxReferences, maxCitedBy);
+    }
+    void queueOfflineFetch({
+      kind: "citation_graph",
+      recid: seedRecid,
+      sort,
+      includeReviews,
+    });
+    throw createOfflineError();
+  }
+
   // Fetch seed metadata to get author info
   let seedAuthorLabel: string | undefined;
   let seedYear: string | undefined;
@@ -516,7 +545,7 @@ export async function fetchCitationGraphOneHop(
   let citedOk = false;
   try {
     const seedUrl = `${INSPIRE_API_BASE}/literature/${seedRecid}?fields=titles.title,authors,earliest_date,publication_info.year,citation_count,citation_count_without_self_citations,citation_count_wo_self_citations`;
-    const seedResp = await inspireFetch(seedUrl, signal ? { signal } : undefined);
+    const seedResp = await inspireFetch(seedUrl, { signal, requestPriority });
     if (seedResp.ok) {
       const seedData = await seedResp.json() as {
         metadata?: {
@@ -591,10 +620,13 @@ export async function fetchCitationGraphOneHop(
   let referencesAllRecids: string[] = [];
   let referencesFilteredRecids: string[] = [];
   try {
-    const allRefs = await fetchReferencesEntries(seedRecid, { signal });
+    const allRefs = await fetchReferencesEntries(seedRecid, {
+      signal,
+      requestPriority,
+    });
     refsOk = true;
     // Enrich references to get citation counts
-    await enrichReferencesEntries(allRefs, { signal });
+    await enrichReferencesEntries(allRefs, { signal, requestPriority });
     referencesAllRecids = allRefs
       .map((e) => e.recid)
       .filter((r): r is string => typeof r === "string" && r.trim().length > 0);
@@ -626,6 +658,7 @@ export async function fetchCitationGraphOneHop(
     sort,
     includeReviews,
     signal,
+    requestPriority,
   );
   citedOk = citedByResponse.ok;
   const { entries: citedByRaw, total: citedByTotal } = citedByResponse;
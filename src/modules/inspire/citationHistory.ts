@@ -0,0 +1,312 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Citation History
+// Per-record time series of citation counts. Every INSPIRE/CrossRef refresh
+// that writes counts to Extra appends a dated sample, so growth can be shown
+// (sparklines, "gained in last N days" column) even though Extra only keeps the
+// latest value.
+//
+// Stored in `<cache dir>/history/citations.json`. The subdirectory keeps it out
+// of "Clear cache" and TTL purges, which only touch top-level cache files.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { localCache } from "./localCache";
+
+const HISTORY_DIR_NAME = "history";
+const HISTORY_FILE_NAME = "citations.json";
+const HISTORY_VERSION = 1;
+/** Oldest samples are dropped beyond this per record (~1 year of daily refreshes). */
+const MAX_SAMPLES_PER_RECORD = 400;
+const SAVE_DEBOUNCE_MS = 2000;
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export type CitationSampleSource = "INSPIRE" | "CrossRef";
+
+export interface CitationSample {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  total: number;
+  /** Without self-citations; null for CrossRef */
+  withoutSelf: number | null;
+  source: CitationSampleSource;
+}
+
+interface CitationHistoryFile {
+  version: number;
+  /** Keyed by INSPIRE recid, or `doi:<DOI>` for CrossRef-only items */
+  records: Record<string, CitationSample[]>;
+}
+
+let historyMemory: CitationHistoryFile | null = null;
+let loadPromise: Promise<CitationHistoryFile> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function getHistoryPath(): Promise<string | null> {
+  const cacheDir = await localCache.getCacheDir();
+  if (!cacheDir) return null;
+  const dir = PathUtils.join(cacheDir, HISTORY_DIR_NAME);
+  await IOUtils.makeDirectory(dir, { ignoreExisting: true });
+  return PathUtils.join(dir, HISTORY_FILE_NAME);
+}
+
+function createEmptyHistory(): CitationHistoryFile {
+  return { version: HISTORY_VERSION, records: {} };
+}
+
+async function readHistoryFile(): Promise<CitationHistoryFile> {
+  try {
+    const path = await getHistoryPath();
+    if (path && (await IOUtils.exists(path))) {
+      const data = (await IOUtils.readJSON(path)) as CitationHistoryFile;
+      if (data?.version === HISTORY_VERSION && data.records) {
+        return data;
+      }
+    }
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Failed to load citation history: ${err}`,
+    );
+  }
+  return createEmptyHistory();
+}
+
+/** Load the history into memory (once); later calls share the same promise. */
+export function loadCitationHistory(): Promise<CitationHistoryFile> {
+  if (historyMemory) return Promise.resolve(historyMemory);
+  if (!loadPromise) {
+    loadPromise = readHistoryFile().then((data) => {
+      historyMemory = data;
+      return data;
+    });
+  }
+  return loadPromise;
+}
+
+async function saveHistoryNow(): Promise<void> {
+  if (!historyMemory) return;
+  try {
+    const path = await getHistoryPath();
+    if (path) {
+      await IOUtils.writeJSON(path, historyMemory);
+    }
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Failed to save citation history: ${err}`,
+    );
+  }
+}
+
+function scheduleSave(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    void saveHistoryNow();
+  }, SAVE_DEBOUNCE_MS);
+}
+
+/** Write pending samples immediately (shutdown). */
+export async function flushCitationHistory(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+    await saveHistoryNow();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recording and Lookup
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatSampleDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/** History key for an item: the recid, else `doi:<DOI>` (lower-cased). */
+export function getCitationHistoryKey(
+  recid: string | null | undefined,
+  doi?: string | null,
+): string | null {
+  if (recid) return String(recid);
+  const normalizedDoi = doi?.trim().toLowerCase();
+  return normalizedDoi ? `doi:${normalizedDoi}` : null;
+}
+
+/**
+ * Add a sample to a series. A second refresh on the same day replaces that
+ * day's sample instead of appending.
+ */
+export function appendCitationSample(
+  samples: CitationSample[],
+  sample: CitationSample,
+): CitationSample[] {
+  const next = [...samples];
+  const last = next[next.length - 1];
+  if (last && last.date === sample.date) {
+    next[next.length - 1] = sample;
+  } else {
+    next.push(sample);
+  }
+  if (next.length > MAX_SAMPLES_PER_RECORD) {
+    next.splice(0, next.length - MAX_SAMPLES_PER_RECORD);
+  }
+  return next;
+}
+
+/** Record one refresh result. Fire-and-forget; persisted with a debounce. */
+export async function recordCitationSample(
+  key: string,
+  total: number,
+  withoutSelf: number | null,
+  source: CitationSampleSource,
+  now: Date = new Date(),
+): Promise<void> {
+  if (!key || !Number.isFinite(total) || total < 0) return;
+  const history = await loadCitationHistory();
+  history.records[key] = appendCitationSample(history.records[key] ?? [], {
+    date: formatSampleDate(now),
+    total,
+    withoutSelf,
+    source,
+  });
+  scheduleSave();
+}
+
+export async function getCitationHistory(
+  key: string,
+): Promise<CitationSample[]> {
+  const history = await loadCitationHistory();
+  return history.records[key] ?? [];
+}
+
+/**
+ * Synchronous lookup for renderers that cannot await (item tree cells, hover
+ * cards). Returns null until the history has been loaded; the first call
+ * starts loading it.
+ */
+export function peekCitationHistory(key: string): CitationSample[] | null {
+  if (!historyMemory) {
+    void loadCitationHistory();
+    return null;
+  }
+  return historyMemory.records[key] ?? [];
+}
+
+function sampleValue(sample: CitationSample, excludeSelf: boolean): number {
+  return excludeSelf && typeof sample.withoutSelf === "number"
+    ? sample.withoutSelf
+    : sample.total;
+}
+
+/**
+ * Citations gained over the last `days` days: latest sample minus the newest
+ * sample on or before the window start. When tracking began inside the
+ * window, the first sample is the baseline. Null with fewer than two samples.
+ */
+export function getCitationsGained(
+  samples: readonly CitationSample[],
+  days: number,
+  excludeSelf = false,
+  now: Date = new Date(),
+): number | null {
+  if (samples.length < 2) return null;
+  const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const cutoffDate = formatSampleDate(cutoff);
+  let baseline = samples[0];
+  for (const sample of samples) {
+    if (sample.date > cutoffDate) break;
+    baseline = sample;
+  }
+  const latest = samples[samples.length - 1];
+  if (baseline === latest) return null;
+  return sampleValue(latest, excludeSelf) - sampleValue(baseline, excludeSelf);
+}
+
+/** Clear in-memory state (tests). */
+export function resetCitationHistoryForTests(): void {
+  historyMemory = null;
+  loadPromise = null;
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sparkline
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * SVG polyline points for a series scaled into width × height (y grows
+ * downward). A flat series is drawn along the vertical middle.
+ */
+export function buildSparklinePoints(
+  values: readonly number[],
+  width: number,
+  height: number,
+  padding = 1,
+): string {
+  if (!values.length) return "";
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const innerW = Math.max(0, width - 2 * padding);
+  const innerH = Math.max(0, height - 2 * padding);
+  const stepX = values.length > 1 ? innerW / (values.length - 1) : 0;
+  return values
+    .map((value, i) => {
+      const x = padding + i * stepX;
+      const y =
+        max === min
+          ? height / 2
+          : padding + innerH - ((value - min) / (max - min)) * innerH;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+/**
+ * Small inline SVG sparkline of a citation series, with the first/last value
+ * and date range as tooltip. Returns null for fewer than two samples.
+ */
+export function createCitationSparkline(
+  doc: Document,
+  samples: readonly CitationSample[],
+  options: {
+    width?: number;
+    height?: number;
+    excludeSelf?: boolean;
+    color?: string;
+  } = {},
+): SVGSVGElement | null {
+  if (samples.length < 2) return null;
+  const width = options.width ?? 60;
+  const height = options.height ?? 16;
+  const values = samples.map((s) => sampleValue(s, !!options.excludeSelf));
+
+  const svg = doc.createElementNS(SVG_NS, "svg") as SVGSVGElement;
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  svg.classList.add("zinspire-citation-sparkline");
+  svg.style.cssText = "flex-shrink: 0; vertical-align: middle;";
+
+  const line = doc.createElementNS(SVG_NS, "polyline");
+  line.setAttribute("points", buildSparklinePoints(values, width, height));
+  line.setAttribute("fill", "none");
+  line.setAttribute("stroke", options.color ?? "var(--accent-blue, #3b82f6)");
+  line.setAttribute("stroke-width", "1.5");
+  line.setAttribute("stroke-linejoin", "round");
+  svg.appendChild(line);
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const title = doc.createElementNS(SVG_NS, "title");
+  title.textContent = `${first.date}: ${values[0]} → ${last.date}: ${values[values.length - 1]}`;
+  svg.appendChild(title);
+  return svg;
+}
@@ -0,0 +1,449 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Citation Inbox Dialog - New citing papers of "my papers"
+// Lists the inbox grouped by the tracked paper that is cited. A citing paper
+// already in the library can be linked to that paper as a related item;
+// other citing papers are imported next to it (same library and collections)
+// and linked. Importing, linking or opening a paper marks it as read.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import type { FluentMessageId } from "../../../typings/i10n";
+import { getString } from "../../utils/locale";
+import { findItemsByRecids } from "./apiUtils";
+import {
+  getCitationInboxItems,
+  groupCitationInboxItems,
+  isCitationInboxCheckRunning,
+  markCitationInboxRead,
+  onCitationInboxChange,
+  runCitationInboxCheck,
+} from "./citationInboxService";
+import { importInspireRecord } from "./itemUpdater";
+import { isOfflineMode } from "./offlineMode";
+import type { CitationInboxItem } from "./types";
+
+const OVERLAY_ID = "zinspire-citation-inbox-overlay";
+
+function styleButton(button: HTMLButtonElement, primary = false) {
+  button.style.padding = "6px 12px";
+  button.style.border = primary
+    ? "none"
+    : "1px solid var(--fill-quinary, #ccc)";
+  button.style.borderRadius = "4px";
+  button.style.background = primary
+    ? "#0066cc"
+    : "var(--material-background, #fff)";
+  button.style.color = primary ? "#fff" : "inherit";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+}
+
+function styleRowButton(button: HTMLButtonElement) {
+  button.style.padding = "2px 8px";
+  button.style.border = "1px solid var(--fill-quinary, #ccc)";
+  button.style.borderRadius = "4px";
+  button.style.background = "var(--material-background, #fff)";
+  button.style.color = "inherit";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "11px";
+  button.style.flexShrink = "0";
+}
+
+/** Relate two items both ways; true when either changed */
+async function relateItems(a: Zotero.Item, b: Zotero.Item): Promise<boolean> {
+  let changed = false;
+  if (a.addRelatedItem(b)) {
+    await a.saveTx();
+    changed = true;
+  }
+  if (b.addRelatedItem(a)) {
+    await b.saveTx();
+    changed = true;
+  }
+  return changed;
+}
+
+function isRelated(a: Zotero.Item, b: Zotero.Item): boolean {
+  const related = a.relatedItems || [];
+  return related.includes(b.key) || related.includes(`${b.libraryID}/${b.key}`);
+}
+
+/**
+ * Show the citation inbox over the given window (main or preferences).
+ * Resolves when the dialog is closed.
+ */
+export function showCitationInboxDialog(win: Window): Promise<void> {
+  return new Promise((resolve) => {
+    const doc = win.document;
+    doc.getElementById(OVERLAY_ID)?.remove();
+
+    let items: CitationInboxItem[] = [];
+    // Zotero items of cited and citing papers, by recid
+    let localItems = new Map<string, number>();
+    let showRead = false;
+    let busy = false;
+
+    // Create overlay
+    const overlay = doc.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.position = "fixed";
+    overlay.style.top = "0";
+    overlay.style.left = "0";
+    overlay.style.width = "100%";
+    overlay.style.height = "100%";
+    overlay.style.zIndex = "10000";
+    overlay.style.backgroundColor = "rgba(0, 0, 0, 0.4)";
+    overlay.style.display = "flex";
+    overlay.style.alignItems = "center";
+    overlay.style.justifyContent = "center";
+
+    // Create panel
+    const panel = doc.createElement("div");
+    panel.style.backgroundColor = "var(--material-background, #fff)";
+    panel.style.color = "var(--fill-primary, #000)";
+    panel.style.border = "1px solid var(--fill-quinary, #ccc)";
+    panel.style.borderRadius = "8px";
+    panel.style.boxShadow = "0 4px 24px rgba(0, 0, 0, 0.25)";
+    panel.style.display = "flex";
+    panel.style.flexDirection = "column";
+    panel.style.fontSize = "13px";
+    panel.style.maxWidth = "720px";
+    panel.style.width = "90%";
+    panel.style.height = "80vh";
+    panel.style.overflow = "hidden";
+    overlay.appendChild(panel);
+
+    // Header
+    const header = doc.createElement("div");
+    header.style.padding = "12px 16px";
+    header.style.display = "flex";
+    header.style.alignItems = "center";
+    header.style.gap = "8px";
+    header.style.borderBottom = "1px solid var(--fill-quinary, #eee)";
+    header.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    header.style.borderRadius = "8px 8px 0 0";
+    const heading = doc.createElement("span");
+    heading.style.flex = "1";
+    heading.style.fontWeight = "600";
+    heading.style.fontSize = "14px";
+    heading.textContent = getString("citation-inbox-title");
+    header.appendChild(heading);
+    const showReadLabel = doc.createElement("label");
+    showReadLabel.style.display = "flex";
+    showReadLabel.style.alignItems = "center";
+    showReadLabel.style.gap = "4px";
+    showReadLabel.style.fontSize = "12px";
+    showReadLabel.style.cursor = "pointer";
+    const showReadBox = doc.createElement("input");
+    showReadBox.type = "checkbox";
+    showReadLabel.appendChild(showReadBox);
+    showReadLabel.append(getString("citation-inbox-show-read"));
+    header.appendChild(showReadLabel);
+    panel.appendChild(header);
+
+    // Inbox list
+    const list = doc.createElement("div");
+    list.style.flex = "1";
+    list.style.overflowY = "auto";
+    list.style.padding = "8px 16px";
+    list.textContent = getString("citation-inbox-loading");
+    panel.appendChild(list);
+
+    // Actions bar
+    const actions = doc.createElement("div");
+    actions.style.padding = "12px 16px";
+    actions.style.display = "flex";
+    actions.style.alignItems = "center";
+    actions.style.gap = "8px";
+    actions.style.borderTop = "1px solid var(--fill-quinary, #eee)";
+    actions.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    actions.style.borderRadius = "0 0 8px 8px";
+
+    const status = doc.createElement("span");
+    status.style.flex = "1";
+    status.style.fontSize = "12px";
+    status.style.color = "var(--fill-secondary, #666)";
+    actions.appendChild(status);
+
+    const makeButton = (l10nKey: FluentMessageId, primary = false) => {
+      const button = doc.createElement("button");
+      button.textContent = getString(l10nKey);
+      styleButton(button, primary);
+      actions.appendChild(button);
+      return button;
+    };
+    const checkBtn = makeButton("citation-inbox-check-now");
+    const markAllBtn = makeButton("citation-inbox-mark-all-read");
+    const closeBtn = makeButton("citation-inbox-close", true);
+    panel.appendChild(actions);
+
+    const updateButtons = () => {
+      checkBtn.disabled =
+        busy || isOfflineMode() || isCitationInboxCheckRunning();
+      checkBtn.title = isOfflineMode()
+        ? getString("offline-mode-unavailable")
+        : "";
+      markAllBtn.disabled = busy || !items.some((item) => !item.read);
+    };
+
+    const run = async (action: () => Promise<string | void>) => {
+      if (busy) return;
+      busy = true;
+      updateButtons();
+      try {
+        const message = await action();
+        if (message) status.textContent = message;
+      } catch (err) {
+        Zotero.debug(
+          `[${config.addonName}] Citation inbox action failed: ${err}`,
+        );
+        status.textContent = String(err);
+      } finally {
+        busy = false;
+        updateButtons();
+      }
+    };
+
+    const linkToCited = async (item: CitationInboxItem) => {
+      const citedID = localItems.get(item.citedRecid);
+      const citedItem = citedID ? Zotero.Items.get(citedID) : undefined;
+      let citingID = localItems.get(item.recid);
+      if (!citingID) {
+        const imported = await importInspireRecord(item.recid, {
+          libraryID: citedItem?.libraryID ?? Zotero.Libraries.userLibraryID,
+          collectionIDs: citedItem?.getCollections() ?? [],
+        });
+        if (!imported) return getString("citation-inbox-not-found");
+        citingID = imported.id;
+        localItems.set(item.recid, citingID);
+      }
+      const citingItem = Zotero.Items.get(citingID);
+      if (citedItem && citingItem) {
+        await relateItems(citedItem, citingItem);
+      }
+      await markCitationInboxRead([item]);
+      return getString("citation-inbox-linked", {
+        args: { title: item.title },
+      });
+    };
+
+    const createItemRow = (item: CitationInboxItem) => {
+      const row = doc.createElement("div");
+      row.style.display = "flex";
+      row.style.alignItems = "flex-start";
+      row.style.gap = "8px";
+      row.style.padding = "4px 0 4px 20px";
+      row.style.opacity = item.read ? "0.6" : "1";
+
+      const text = doc.createElement("div");
+      text.style.flex = "1";
+      text.style.minWidth = "0";
+      const title = doc.createElement("a");
+      title.style.display = "block";
+      title.style.overflow = "hidden";
+      title.style.textOverflow = "ellipsis";
+      title.style.whiteSpace = "nowrap";
+      title.style.color = "#0066cc";
+      title.style.cursor = "pointer";
+      title.style.fontWeight = item.read ? "400" : "600";
+      title.textContent = item.title;
+      title.title = item.title;
+      title.addEventListener("click", (e) => {
+        e.preventDefault();
+        Zotero.launchURL?.(`https://inspirehep.net/literature/${item.recid}`);
+        markCitationInboxRead([item]).catch(() => void 0);
+      });
+      text.appendChild(title);
+      const meta = doc.createElement("div");
+      meta.style.fontSize = "11px";
+      meta.style.color = "var(--fill-secondary, #888)";
+      meta.textContent = [item.authors, item.year].filter(Boolean).join(" · ");
+      text.appendChild(meta);
+      row.appendChild(text);
+
+      // Import or link to the cited paper
+      const citedID = localItems.get(item.citedRecid);
+      const citingID = localItems.get(item.recid);
+      const citedItem = citedID ? Zotero.Items.get(citedID) : undefined;
+      const citingItem = citingID ? Zotero.Items.get(citingID) : undefined;
+      const actionBtn = doc.createElement("button");
+      styleRowButton(actionBtn);
+      if (!citingItem) {
+        actionBtn.textContent = getString("citation-inbox-import");
+        actionBtn.title = getString("citation-inbox-import-tooltip");
+      } else if (citedItem && !isRelated(citedItem, citingItem)) {
+        actionBtn.textContent = getString("citation-inbox-link");
+        actionBtn.title = getString("citation-inbox-link-tooltip");
+      } else {
+        actionBtn.textContent = getString("citation-inbox-in-library");
+        actionBtn.title = getString("citation-inbox-show-item");
+      }
+      actionBtn.addEventListener("click", () => {
+        if (citingItem && (!citedItem || isRelated(citedItem, citingItem))) {
+          Zotero.getActiveZoteroPane()?.selectItem(citingItem.id);
+          return;
+        }
+        run(() => linkToCited(item));
+      });
+      row.appendChild(actionBtn);
+
+      if (!item.read) {
+        const readBtn = doc.createElement("button");
+        styleRowButton(readBtn);
+        readBtn.textContent = "✓";
+        readBtn.title = getString("citation-inbox-mark-read");
+        readBtn.addEventListener("click", () =>
+          run(() => markCitationInboxRead([item])),
+        );
+        row.appendChild(readBtn);
+      }
+      return row;
+    };
+
+    const renderList = () => {
+      list.replaceChildren();
+      const visible = showRead ? items : items.filter((item) => !item.read);
+      if (!visible.length) {
+        list.textContent = getString("citation-inbox-empty");
+        return;
+      }
+      for (const group of groupCitationInboxItems(visible)) {
+        const groupHeader = doc.createElement("div");
+        groupHeader.style.display = "flex";
+        groupHeader.style.alignItems = "center";
+        groupHeader.style.gap = "8px";
+        groupHeader.style.padding = "8px 0 4px";
+        groupHeader.style.fontWeight = "600";
+
+        const cited = doc.createElement("a");
+        cited.style.flex = "1";
+        cited.style.minWidth = "0";
+        cited.style.overflow = "hidden";
+        cited.style.textOverflow = "ellipsis";
+        cited.style.whiteSpace = "nowrap";
+        cited.style.cursor = "pointer";
+        cited.textContent = group.citedTitle || group.citedRecid;
+        cited.title = getString("citation-inbox-show-item");
+        cited.addEventListener("click", (e) => {
+          e.preventDefault();
+          const itemID = localItems.get(group.citedRecid);
+          if (itemID) {
+            Zotero.getActiveZoteroPane()?.selectItem(itemID);
+          } else {
+            Zotero.launchURL?.(
+              `https://inspirehep.net/literature/${group.citedRecid}`,
+            );
+          }
+        });
+        groupHeader.appendChild(cited);
+
+        const count = doc.createElement("span");
+        count.style.fontWeight = "400";
+        count.style.fontSize = "12px";
+        count.style.color = "var(--fill-secondary, #666)";
+        count.textContent = getString("citation-inbox-group-count", {
+          args: { count: group.items.length },
+        });
+        groupHeader.appendChild(count);
+
+        const unread = group.items.filter((item) => !item.read);
+        if (unread.length) {
+          const groupReadBtn = doc.createElement("button");
+          styleRowButton(groupReadBtn);
+          groupReadBtn.textContent = getString("citation-inbox-mark-all-read");
+          groupReadBtn.addEventListener("click", () =>
+            run(() => markCitationInboxRead(unread)),
+          );
+          groupHeader.appendChild(groupReadBtn);
+        }
+        list.appendChild(groupHeader);
+
+        for (const item of group.items) {
+          list.appendChild(createItemRow(item));
+        }
+      }
+    };
+
+    const reload = async () => {
+      items = await getCitationInboxItems();
+      const recids = [
+        ...new Set(items.flatMap((item) => [item.recid, item.citedRecid])),
+      ];
+      try {
+        localItems = await findItemsByRecids(recids);
+      } catch (err) {
+        Zotero.debug(
+          `[${config.addonName}] Citation inbox: failed to look up items: ${err}`,
+        );
+      }
+      const unread = items.filter((item) => !item.read).length;
+      heading.textContent = `${getString("citation-inbox-title")} (${unread})`;
+      renderList();
+      updateButtons();
+    };
+
+    const unsubscribe = onCitationInboxChange(() => {
+      reload().catch(() => void 0);
+    });
+
+    showReadBox.addEventListener("change", () => {
+      showRead = showReadBox.checked;
+      renderList();
+    });
+    checkBtn.addEventListener("click", () =>
+      run(async () => {
+        status.textContent = getString("citation-inbox-checking");
+        const summary = await runCitationInboxCheck({
+          force: true,
+          onProgress: (done, total) => {
+            status.textContent = getString("citation-inbox-progress", {
+              args: { done, total },
+            });
+          },
+        });
+        return getString("citation-inbox-checked", {
+          args: { checked: summary.checked, count: summary.added.length },
+        });
+      }),
+    );
+    markAllBtn.addEventListener("click", () =>
+      run(() => markCitationInboxRead()),
+    );
+
+    // Add to document
+    doc.documentElement.appendChild(overlay);
+
+    let isFinished = false;
+
+    const finish = () => {
+      if (isFinished) return;
+      isFinished = true;
+      unsubscribe();
+      overlay.remove();
+      doc.removeEventListener("keydown", onKeyDown, true);
+      resolve();
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        event.stopPropagation();
+        finish();
+      }
+    };
+
+    closeBtn.addEventListener("click", finish);
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) finish();
+    });
+    doc.addEventListener("keydown", onKeyDown, true);
+
+    updateButtons();
+    reload().catch((err) => {
+      Zotero.debug(
+        `[${config.addonName}] Citation inbox failed to load: ${err}`,
+      );
+      list.textContent = String(err);
+    });
+  });
+}
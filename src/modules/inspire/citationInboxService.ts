@@ -0,0 +1,534 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Citation Inbox - New papers citing "my papers"
+// "My papers" are chosen items, the items of chosen collections and the
+// papers of an INSPIRE author profile. A background job fetches the cited-by
+// list of each tracked paper through the panel's search pipeline and compares
+// it with the citing papers seen by the previous check, which are kept in the
+// inbox file; citing papers not seen before go to the inbox. The fresh list
+// also replaces the panel's `cited` cache entry, so the Cited-by tab opens
+// with it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { getPref, setPref } from "../../utils/prefs";
+import { deriveRecidFromItem } from "./apiUtils";
+import type { InspireLiteratureSearchResponse } from "./apiTypes";
+import { buildAuthorFeedQuery } from "./authorFeedService";
+import {
+  CITED_BY_MAX_RESULTS,
+  INSPIRE_API_BASE,
+  buildFieldsParam,
+} from "./constants";
+import { localCache } from "./localCache";
+import { isOfflineMode } from "./offlineMode";
+import { inspireFetch } from "./rateLimiter";
+import type {
+  AuthorSearchInfo,
+  CitationInboxItem,
+  InspireReferenceEntry,
+} from "./types";
+// NOTE: SearchService is imported lazily in fetchCitingEntries; it imports
+// the module index, which re-exports this module.
+
+const STATE_FILE_NAME = "zoteroinspire-citation-inbox.json";
+const STATE_VERSION = 1;
+const API_FIELDS_AUTHOR_PAPERS = "control_number,titles.title";
+/** Papers of the author profile that are tracked (newest first) */
+const AUTHOR_PAPERS_SIZE = 250;
+/** Upper bound on tracked papers, each costs a cited-by fetch per check */
+export const MAX_TRACKED_PAPERS = 500;
+/** Inbox items kept (read ones are dropped first) */
+const MAX_INBOX_ITEMS = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_INTERVAL_HOURS = 24;
+
+/** A paper whose new citations are tracked */
+export interface TrackedPaper {
+  recid: string;
+  title: string;
+  /** Zotero item of the paper, when it is in the library */
+  itemID?: number;
+}
+
+/** Tracked papers, and whether every source of them could be listed */
+export interface TrackedPaperList {
+  papers: TrackedPaper[];
+  /** False when the author's papers could not be fetched */
+  complete: boolean;
+}
+
+/** Inbox items citing the same tracked paper */
+export interface CitationInboxGroup {
+  citedRecid: string;
+  citedTitle: string;
+  items: CitationInboxItem[];
+}
+
+export interface CitationInboxSummary {
+  /** Tracked papers checked in this run */
+  checked: number;
+  /** Citing papers added to the inbox */
+  added: CitationInboxItem[];
+}
+
+interface CitationInboxStateFile {
+  version: number;
+  /** Last successful check per tracked recid */
+  checked: Record<string, number>;
+  /** Citing recids found by the last check, per tracked recid */
+  seen: Record<string, string[]>;
+  items: CitationInboxItem[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tracked papers (items, collections, author profile)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toRef(object: { libraryID: number; key: string }): string {
+  return `${object.libraryID}/${object.key}`;
+}
+
+function readRefs(
+  pref: "citation_inbox_items" | "citation_inbox_collections",
+): string[] {
+  try {
+    const parsed = JSON.parse((getPref(pref) as string) || "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter((ref): ref is string => typeof ref === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Tracked items, as `libraryID/key` refs */
+export function getCitationInboxItemRefs(): string[] {
+  return readRefs("citation_inbox_items");
+}
+
+export function isItemInCitationInbox(item: Zotero.Item): boolean {
+  return getCitationInboxItemRefs().includes(toRef(item));
+}
+
+/** Start or stop tracking new citations of the given items. */
+export function setItemsInCitationInbox(
+  items: Zotero.Item[],
+  included: boolean,
+): void {
+  const refs = new Set(items.map(toRef));
+  const kept = getCitationInboxItemRefs().filter((ref) => !refs.has(ref));
+  setPref(
+    "citation_inbox_items",
+    JSON.stringify(included ? [...kept, ...refs] : kept),
+  );
+}
+
+/** Tracked collections, as `libraryID/key` refs */
+export function getCitationInboxCollections(): string[] {
+  return readRefs("citation_inbox_collections");
+}
+
+export function isCollectionInCitationInbox(
+  collection: Zotero.Collection,
+): boolean {
+  return getCitationInboxCollections().includes(toRef(collection));
+}
+
+export function setCollectionInCitationInbox(
+  collection: Zotero.Collection,
+  included: boolean,
+): void {
+  const ref = toRef(collection);
+  const refs = getCitationInboxCollections().filter((r) => r !== ref);
+  if (included) refs.push(ref);
+  setPref("citation_inbox_collections", JSON.stringify(refs));
+}
+
+/** Author profile from the `citation_inbox_author` pref (BAI or recid) */
+export function getCitationInboxAuthor(): AuthorSearchInfo | null {
+  const value = String(getPref("citation_inbox_author") ?? "").trim();
+  if (!value) return null;
+  return /^\d+$/.test(value)
+    ? { fullName: value, recid: value }
+    : { fullName: value, bai: value };
+}
+
+function addTrackedItem(
+  papers: Map<string, TrackedPaper>,
+  item: Zotero.Item | false | undefined,
+): void {
+  if (!item || item.deleted || !item.isRegularItem()) return;
+  const recid = deriveRecidFromItem(item);
+  if (!recid || papers.has(recid)) return;
+  papers.set(recid, {
+    recid,
+    title: String(item.getField("title") || ""),
+    itemID: item.id,
+  });
+}
+
+async function fetchAuthorPaperList(
+  author: AuthorSearchInfo,
+  signal?: AbortSignal,
+): Promise<TrackedPaper[]> {
+  const query = buildAuthorFeedQuery(author);
+  if (!query) return [];
+  const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${AUTHOR_PAPERS_SIZE}&page=1&sort=mostrecent${buildFieldsParam(API_FIELDS_AUTHOR_PAPERS)}`;
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: "background",
+  });
+  if (!response.ok) {
+    throw new Error(`INSPIRE search HTTP ${response.status}`);
+  }
+  const payload =
+    (await response.json()) as unknown as InspireLiteratureSearchResponse | null;
+  const papers: TrackedPaper[] = [];
+  for (const hit of payload?.hits?.hits ?? []) {
+    const metadata = hit?.metadata as Record<string, any> | undefined;
+    const recid = String(metadata?.control_number ?? hit?.id ?? "");
+    if (recid) {
+      papers.push({ recid, title: String(metadata?.titles?.[0]?.title ?? "") });
+    }
+  }
+  return papers;
+}
+
+/**
+ * All tracked papers with a recid: chosen items first, then collection
+ * items, then the author's papers (which needs the network). At most
+ * MAX_TRACKED_PAPERS. Incomplete when the author's papers could not be
+ * fetched.
+ */
+export async function collectTrackedPapers(
+  signal?: AbortSignal,
+): Promise<TrackedPaperList> {
+  const papers = new Map<string, TrackedPaper>();
+  for (const ref of getCitationInboxItemRefs()) {
+    const [libraryID, key] = ref.split("/");
+    addTrackedItem(
+      papers,
+      Zotero.Items.getByLibraryAndKey(Number(libraryID), key),
+    );
+  }
+  for (const ref of getCitationInboxCollections()) {
+    const [libraryID, key] = ref.split("/");
+    const collection = Zotero.Collections.getByLibraryAndKey(
+      Number(libraryID),
+      key,
+    );
+    if (!collection || collection.deleted) continue;
+    for (const item of Zotero.Items.get(collection.getChildItems(true))) {
+      addTrackedItem(papers, item);
+    }
+  }
+  let complete = true;
+  const author = getCitationInboxAuthor();
+  if (author && !isOfflineMode()) {
+    try {
+      for (const paper of await fetchAuthorPaperList(author, signal)) {
+        if (!papers.has(paper.recid)) papers.set(paper.recid, paper);
+      }
+    } catch (err) {
+      Zotero.debug(
+        `[${config.addonName}] Citation inbox: failed to fetch papers of ${author.fullName}: ${err}`,
+      );
+      complete = false;
+    }
+  } else if (author) {
+    complete = false;
+  }
+  return {
+    papers: [...papers.values()].slice(0, MAX_TRACKED_PAPERS),
+    complete,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Inbox storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+type CitationInboxListener = (items: CitationInboxItem[]) => void;
+const listeners = new Set<CitationInboxListener>();
+let state: CitationInboxStateFile | null = null;
+
+/** Called with the inbox whenever papers are added or marked as read */
+export function onCitationInboxChange(
+  callback: CitationInboxListener,
+): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+function getStatePath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, STATE_FILE_NAME);
+}
+
+async function loadState(): Promise<CitationInboxStateFile> {
+  if (state) return state;
+  let loaded: CitationInboxStateFile = {
+    version: STATE_VERSION,
+    checked: {},
+    seen: {},
+    items: [],
+  };
+  try {
+    const path = getStatePath();
+    if (await IOUtils.exists(path)) {
+      const data = (await IOUtils.readJSON(path)) as CitationInboxStateFile;
+      if (data?.version === STATE_VERSION) {
+        loaded = {
+          version: STATE_VERSION,
+          checked: data.checked ?? {},
+          seen: data.seen ?? {},
+          items: Array.isArray(data.items) ? data.items : [],
+        };
+      }
+    }
+  } catch (err) {
+    Zotero.debug(`[${config.addonName}] Failed to load citation inbox: ${err}`);
+  }
+  // Another caller may have loaded it meanwhile
+  state ??= loaded;
+  return state;
+}
+
+async function saveState(notify = true): Promise<void> {
+  if (!state) return;
+  try {
+    await IOUtils.writeJSON(getStatePath(), state);
+  } catch (err) {
+    Zotero.debug(`[${config.addonName}] Failed to save citation inbox: ${err}`);
+  }
+  if (!notify) return;
+  for (const listener of listeners) {
+    try {
+      listener(state.items);
+    } catch (err) {
+      Zotero.debug(
+        `[${config.addonName}] Citation inbox listener failed: ${err}`,
+      );
+    }
+  }
+}
+
+function itemKey(item: Pick<CitationInboxItem, "recid" | "citedRecid">) {
+  return `${item.citedRecid}:${item.recid}`;
+}
+
+/** Inbox items, newest first */
+export async function getCitationInboxItems(): Promise<CitationInboxItem[]> {
+  return (await loadState()).items;
+}
+
+export async function getUnreadCitationInboxCount(): Promise<number> {
+  return (await loadState()).items.filter((item) => !item.read).length;
+}
+
+/** Mark the given inbox items (all when omitted) as read. */
+export async function markCitationInboxRead(
+  targets?: Array<Pick<CitationInboxItem, "recid" | "citedRecid">>,
+): Promise<void> {
+  const current = await loadState();
+  const keys = targets ? new Set(targets.map(itemKey)) : null;
+  let changed = false;
+  for (const item of current.items) {
+    if (!item.read && (!keys || keys.has(itemKey(item)))) {
+      item.read = true;
+      changed = true;
+    }
+  }
+  if (changed) await saveState();
+}
+
+/**
+ * Group inbox items by the tracked paper they cite. Groups are ordered by
+ * their newest item; items keep their order.
+ */
+export function groupCitationInboxItems(
+  items: CitationInboxItem[],
+): CitationInboxGroup[] {
+  const groups = new Map<string, CitationInboxGroup>();
+  for (const item of items) {
+    let group = groups.get(item.citedRecid);
+    if (!group) {
+      group = {
+        citedRecid: item.citedRecid,
+        citedTitle: item.citedTitle,
+        items: [],
+      };
+      groups.set(item.citedRecid, group);
+    }
+    group.items.push(item);
+  }
+  const newest = (group: CitationInboxGroup) =>
+    Math.max(...group.items.map((item) => item.foundAt));
+  return [...groups.values()].sort((a, b) => newest(b) - newest(a));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getIntervalHours(): number {
+  const hours = Number(getPref("citation_inbox_check_interval_hours"));
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_INTERVAL_HOURS;
+}
+
+/** Fetch a paper's citing papers and store them as its `cited` cache entry. */
+async function fetchCitingEntries(
+  recid: string,
+  signal?: AbortSignal,
+): Promise<InspireReferenceEntry[]> {
+  const { fetchInspireSearch } = await import("./panel/SearchService");
+  const entries = await fetchInspireSearch({
+    query: `refersto:recid:${recid}`,
+    sort: "mostrecent",
+    signal,
+  });
+  if (signal?.aborted) {
+    throw new DOMException("Citation inbox check aborted", "AbortError");
+  }
+  // Same layout as the panel: complete lists are stored without sort
+  const complete = entries.length < CITED_BY_MAX_RESULTS;
+  await localCache.set(
+    "cited",
+    recid,
+    entries,
+    complete ? undefined : "mostrecent",
+    entries.length,
+  );
+  return entries;
+}
+
+/**
+ * Check one tracked paper and return the citing papers the previous check
+ * did not see. The first check of a paper only records what it sees.
+ */
+async function checkTrackedPaper(
+  paper: TrackedPaper,
+  current: CitationInboxStateFile,
+  inbox: Set<string>,
+  options: { signal?: AbortSignal; now: number },
+): Promise<CitationInboxItem[]> {
+  const entries = await fetchCitingEntries(paper.recid, options.signal);
+  const previous = current.seen[paper.recid];
+  current.seen[paper.recid] = entries
+    .map((entry) => entry.recid)
+    .filter((recid): recid is string => !!recid);
+  if (!previous) return [];
+  const known = new Set(previous);
+  const added: CitationInboxItem[] = [];
+  for (const entry of entries) {
+    if (!entry.recid || known.has(entry.recid)) continue;
+    const item: CitationInboxItem = {
+      recid: entry.recid,
+      title: entry.title,
+      authors: entry.authorText,
+      year: entry.year || undefined,
+      citedRecid: paper.recid,
+      citedTitle: paper.title,
+      foundAt: options.now,
+      read: false,
+    };
+    if (!inbox.has(itemKey(item))) added.push(item);
+  }
+  return added;
+}
+
+let activeRun: Promise<CitationInboxSummary> | null = null;
+
+/** True while a check (background or "Check now") is in progress. */
+export function isCitationInboxCheckRunning(): boolean {
+  return activeRun !== null;
+}
+
+/**
+ * Check every tracked paper whose last check is older than the interval.
+ * Skipped offline or when the inbox is turned off; a paper whose check
+ * fails is retried on the next run. One run at a time.
+ */
+export function runCitationInboxCheck(options?: {
+  signal?: AbortSignal;
+  now?: number;
+  /** Check all papers regardless of the interval */
+  force?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<CitationInboxSummary> {
+  if (!activeRun) {
+    activeRun = runCitationInboxCheckNow(options).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+async function runCitationInboxCheckNow(options?: {
+  signal?: AbortSignal;
+  now?: number;
+  force?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<CitationInboxSummary> {
+  const summary: CitationInboxSummary = { checked: 0, added: [] };
+  if (isOfflineMode() || getPref("citation_inbox_enabled") === false) {
+    return summary;
+  }
+  const now = options?.now ?? Date.now();
+  const intervalMs = getIntervalHours() * HOUR_MS;
+  const current = await loadState();
+  const { papers, complete } = await collectTrackedPapers(options?.signal);
+  const due = papers.filter(
+    (paper) =>
+      options?.force || now - (current.checked[paper.recid] ?? 0) >= intervalMs,
+  );
+  const inbox = new Set(current.items.map(itemKey));
+
+  for (const [index, paper] of due.entries()) {
+    if (options?.signal?.aborted) break;
+    try {
+      const added = await checkTrackedPaper(paper, current, inbox, {
+        signal: options?.signal,
+        now,
+      });
+      current.checked[paper.recid] = now;
+      summary.checked++;
+      summary.added.push(...added);
+      for (const item of added) inbox.add(itemKey(item));
+    } catch (err) {
+      if ((err as any)?.name === "AbortError") break;
+      Zotero.debug(
+        `[${config.addonName}] Citation inbox check failed for ${paper.recid}: ${err}`,
+      );
+    }
+    options?.onProgress?.(index + 1, due.length);
+  }
+
+  if (summary.checked) {
+    current.items.unshift(...summary.added);
+    if (current.items.length > MAX_INBOX_ITEMS) {
+      const keep = new Set(
+        [
+          ...current.items.filter((item) => !item.read),
+          ...current.items.filter((item) => item.read),
+        ]
+          .slice(0, MAX_INBOX_ITEMS)
+          .map(itemKey),
+      );
+      current.items = current.items.filter((item) => keep.has(itemKey(item)));
+    }
+    // Forget papers that are no longer tracked. A paper missing from an
+    // incomplete list may still be tracked, and forgetting it would make
+    // its next check a first one that only records a new baseline.
+    if (complete) {
+      const tracked = new Set(papers.map((paper) => paper.recid));
+      for (const recid of Object.keys(current.checked)) {
+        if (!tracked.has(recid)) delete current.checked[recid];
+      }
+      for (const recid of Object.keys(current.seen)) {
+        if (!tracked.has(recid)) delete current.seen[recid];
+      }
+    }
+    await saveState(summary.added.length > 0);
+  }
+  return summary;
+}
@@ -0,0 +1,313 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationPathService.ts - Shortest citation paths between two papers
+// Bidirectional breadth-first search over references and citing papers, read
+// from the local cache first (and never written to it). Each side expands one
+// whole level at a time, the smaller frontier first, until the two searches
+// meet or a bound is reached.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { fetchCitedByEntriesLimited } from "./citationGraphService";
+import {
+  CITATION_PATH_CITED_BY_PER_NODE,
+  CITATION_PATH_FETCH_CONCURRENCY,
+  CITATION_PATH_MAX_DEPTH,
+  CITATION_PATH_MAX_EXPANSIONS,
+  CITATION_PATH_MAX_PATHS,
+} from "./constants";
+import { localCache } from "./localCache";
+import { fetchReferencesEntries } from "./referencesService";
+import type { InspireReferenceEntry } from "./types";
+
+/** "cites" when a paper cites the next paper of the path, else "citedBy". */
+export type CitationPathStep = "cites" | "citedBy";
+
+export interface CitationPath {
+  /** Papers from the start to the end paper. */
+  recids: string[];
+  /** `steps[i]` links `recids[i]` to `recids[i + 1]`. */
+  steps: CitationPathStep[];
+}
+
+export interface CitationPathResult {
+  /** Shortest paths found, at most `maxPaths`; empty when none was found. */
+  paths: CitationPath[];
+  /** INSPIRE metadata of the papers on the paths (the endpoints may be missing). */
+  entries: Map<string, InspireReferenceEntry>;
+  /** Papers whose references and citing papers were read. */
+  explored: number;
+  /** No path was found before the depth or expansion limit. */
+  limitReached: boolean;
+}
+
+export interface CitationPathOptions {
+  signal?: AbortSignal;
+  /** Longest path looked for, in citations. */
+  maxDepth?: number;
+  /** Papers whose neighbours may be read, over both directions. */
+  maxExpansions?: number;
+  /** Most-cited citing papers followed per paper. */
+  citedByPerNode?: number;
+  maxPaths?: number;
+  onProgress?: (explored: number, maxExpansions: number) => void;
+}
+
+interface CitationNeighbour {
+  recid: string;
+  step: CitationPathStep;
+  entry: InspireReferenceEntry;
+}
+
+interface SearchSide {
+  /** Distance from this side's root. */
+  depth: Map<string, number>;
+  /** Every predecessor at the previous level: `parent step child`. */
+  parents: Map<string, Array<{ recid: string; step: CitationPathStep }>>;
+  frontier: string[];
+  level: number;
+}
+
+const INVERSE_STEP: Record<CitationPathStep, CitationPathStep> = {
+  cites: "citedBy",
+  citedBy: "cites",
+};
+
+const CITED_SNAPSHOT_SORTS = [undefined, "mostcited", "mostrecent"];
+
+/**
+ * Cached references, else a fresh fetch. Fresh lists are not cached: the
+ * panel reads cached references as enriched, and enriching every paper the
+ * search visits would cost more than the search itself.
+ */
+async function loadReferences(
+  recid: string,
+  signal?: AbortSignal,
+): Promise<InspireReferenceEntry[]> {
+  const cached = await localCache
+    .get<InspireReferenceEntry[]>("refs", recid, undefined, {
+      ignoreTTL: true,
+    })
+    .catch(() => null);
+  if (Array.isArray(cached?.data)) return cached.data;
+  const entries = await fetchReferencesEntries(recid, { signal }).catch(
+    () => null,
+  );
+  return entries ?? [];
+}
+
+/** Most-cited citing papers, from a cached cited-by list when there is one. */
+async function loadCitedBy(
+  recid: string,
+  limit: number,
+  signal?: AbortSignal,
+): Promise<InspireReferenceEntry[]> {
+  for (const sort of CITED_SNAPSHOT_SORTS) {
+    const cached = await localCache
+      .get<InspireReferenceEntry[]>("cited", recid, sort, { ignoreTTL: true })
+      .catch(() => null);
+    if (Array.isArray(cached?.data)) {
+      return [...cached.data]
+        .sort((a, b) => (b.citationCount ?? 0) - (a.citationCount ?? 0))
+        .slice(0, limit);
+    }
+  }
+  const response = await fetchCitedByEntriesLimited(
+    recid,
+    limit,
+    "mostcited",
+    true,
+    signal,
+    "interactive",
+  ).catch(() => null);
+  return response?.entries ?? [];
+}
+
+async function loadNeighbours(
+  recid: string,
+  citedByPerNode: number,
+  signal?: AbortSignal,
+): Promise<CitationNeighbour[]> {
+  const [references, citedBy] = await Promise.all([
+    loadReferences(recid, signal),
+    loadCitedBy(recid, citedByPerNode, signal),
+  ]);
+  const neighbours: CitationNeighbour[] = [];
+  const seen = new Set([recid]);
+  const add = (entry: InspireReferenceEntry, step: CitationPathStep) => {
+    const id = entry.recid?.trim();
+    if (!id || seen.has(id)) return;
+    seen.add(id);
+    neighbours.push({ recid: id, step, entry });
+  };
+  references.forEach((entry) => add(entry, "cites"));
+  citedBy.forEach((entry) => add(entry, "citedBy"));
+  return neighbours;
+}
+
+function createSide(root: string): SearchSide {
+  return {
+    depth: new Map([[root, 0]]),
+    parents: new Map(),
+    frontier: [root],
+    level: 0,
+  };
+}
+
+/** Paths from the side's root to `recid`, at most `limit`. */
+function pathsFromRoot(
+  side: SearchSide,
+  recid: string,
+  limit: number,
+): CitationPath[] {
+  const parents = side.parents.get(recid);
+  if (!parents) return [{ recids: [recid], steps: [] }];
+  const result: CitationPath[] = [];
+  for (const parent of parents) {
+    for (const head of pathsFromRoot(side, parent.recid, limit)) {
+      result.push({
+        recids: [...head.recids, recid],
+        steps: [...head.steps, parent.step],
+      });
+      if (result.length >= limit) return result;
+    }
+  }
+  return result;
+}
+
+function joinPaths(
+  forward: SearchSide,
+  backward: SearchSide,
+  meetings: string[],
+  maxPaths: number,
+): CitationPath[] {
+  const paths: CitationPath[] = [];
+  for (const meeting of meetings) {
+    const heads = pathsFromRoot(forward, meeting, maxPaths);
+    // The backward side walks from the end paper, so its halves run in
+    // reverse and each step reads the other way round.
+    const tails = pathsFromRoot(backward, meeting, maxPaths).map((tail) => ({
+      recids: [...tail.recids].reverse(),
+      steps: [...tail.steps].reverse().map((step) => INVERSE_STEP[step]),
+    }));
+    for (const head of heads) {
+      for (const tail of tails) {
+        paths.push({
+          recids: [...head.recids, ...tail.recids.slice(1)],
+          steps: [...head.steps, ...tail.steps],
+        });
+        if (paths.length >= maxPaths) return paths;
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Shortest citation paths between two papers, following citations in either
+ * direction. Rejects with an AbortError when `signal` aborts.
+ */
+export async function findCitationPaths(
+  fromRecid: string,
+  toRecid: string,
+  options: CitationPathOptions = {},
+): Promise<CitationPathResult> {
+  const { signal, onProgress } = options;
+  const maxDepth = options.maxDepth ?? CITATION_PATH_MAX_DEPTH;
+  const maxExpansions = options.maxExpansions ?? CITATION_PATH_MAX_EXPANSIONS;
+  const citedByPerNode =
+    options.citedByPerNode ?? CITATION_PATH_CITED_BY_PER_NODE;
+  const maxPaths = options.maxPaths ?? CITATION_PATH_MAX_PATHS;
+  const start = fromRecid.trim();
+  const end = toRecid.trim();
+  const entries = new Map<string, InspireReferenceEntry>();
+  if (start === end) {
+    return {
+      paths: [{ recids: [start], steps: [] }],
+      entries,
+      explored: 0,
+      limitReached: false,
+    };
+  }
+
+  const forward = createSide(start);
+  const backward = createSide(end);
+  let explored = 0;
+  const citations = (recid: string) => entries.get(recid)?.citationCount ?? 0;
+
+  while (forward.frontier.length && backward.frontier.length) {
+    if (forward.level + backward.level >= maxDepth) break;
+    const budget = maxExpansions - explored;
+    if (budget <= 0) break;
+    const side =
+      forward.frontier.length <= backward.frontier.length ? forward : backward;
+    const other = side === forward ? backward : forward;
+    // Well-cited papers first: they are the likeliest to link the two sides.
+    const batch = side.frontier.slice(0, budget);
+
+    const neighbours = new Map<string, CitationNeighbour[]>();
+    let next = 0;
+    const workers = Array.from(
+      { length: Math.min(CITATION_PATH_FETCH_CONCURRENCY, batch.length) },
+      async () => {
+        while (!signal?.aborted && next < batch.length) {
+          const recid = batch[next++];
+          neighbours.set(
+            recid,
+            await loadNeighbours(recid, citedByPerNode, signal),
+          );
+          explored++;
+          onProgress?.(explored, maxExpansions);
+        }
+      },
+    );
+    await Promise.all(workers);
+    if (signal?.aborted) {
+      throw new DOMException("Citation path search aborted", "AbortError");
+    }
+
+    const level = side.level + 1;
+    const reached: string[] = [];
+    for (const recid of batch) {
+      for (const neighbour of neighbours.get(recid) ?? []) {
+        if (!entries.has(neighbour.recid)) {
+          entries.set(neighbour.recid, neighbour.entry);
+        }
+        const known = side.depth.get(neighbour.recid);
+        const parent = { recid, step: neighbour.step };
+        if (known === undefined) {
+          side.depth.set(neighbour.recid, level);
+          side.parents.set(neighbour.recid, [parent]);
+          reached.push(neighbour.recid);
+        } else if (known === level) {
+          side.parents.get(neighbour.recid)!.push(parent);
+        }
+      }
+    }
+    side.level = level;
+
+    const meetings = reached.filter((recid) => other.depth.has(recid));
+    if (meetings.length) {
+      const closest = Math.min(...meetings.map((r) => other.depth.get(r)!));
+      const paths = joinPaths(
+        forward,
+        backward,
+        meetings.filter((recid) => other.depth.get(recid) === closest),
+        maxPaths,
+      );
+      const onPaths = new Set(paths.flatMap((path) => path.recids));
+      return {
+        paths,
+        entries: new Map([...entries].filter(([recid]) => onPaths.has(recid))),
+        explored,
+        limitReached: false,
+      };
+    }
+    side.frontier = reached.sort((a, b) => citations(b) - citations(a));
+  }
+
+  return {
+    paths: [],
+    entries: new Map(),
+    explored,
+    limitReached: forward.frontier.length > 0 && backward.frontier.length > 0,
+  };
+}
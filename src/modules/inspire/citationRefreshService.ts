@@ -0,0 +1,371 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Scheduled Citation Refresh
+// Background job that refreshes INSPIRE citation counts for the whole library
+// or for chosen collections. Counts are fetched with one search request per
+// batch of recids, and the position is saved after every batch so a run that
+// is interrupted (shutdown, network error) resumes where it stopped.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { getPref, setPref } from "../../utils/prefs";
+import {
+  API_FIELDS_CITATIONS,
+  INSPIRE_API_BASE,
+  buildFieldsParam,
+} from "./constants";
+import type { InspireLiteratureSearchResponse } from "./apiTypes";
+import { deriveRecidFromItem } from "./apiUtils";
+import { inspireFetch } from "./rateLimiter";
+import {
+  applyInspireCitationCounts,
+  emitPendingCitationsEvent,
+} from "./itemUpdater";
+
+const STATE_FILE_NAME = "zoteroinspire-citation-refresh.json";
+const STATE_VERSION = 1;
+/** Recids per INSPIRE search request (same batch size as BibTeX export). */
+export const CITATION_REFRESH_BATCH_SIZE = 50;
+const ITEM_LOAD_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_DAYS = 7;
+
+/** Progress of an unfinished run, persisted after every batch. */
+export interface CitationRefreshRun {
+  startedAt: number;
+  /** "library" or the sorted collection refs, see getCitationRefreshScopeKey */
+  scope: string;
+  /** Items are walked in ascending ID order; everything up to here is done */
+  cursorItemID: number;
+  checked: number;
+  updated: number;
+}
+
+interface CitationRefreshStateFile {
+  version: number;
+  run: CitationRefreshRun | null;
+}
+
+export interface CitationRefreshSummary {
+  /** Items with a recid whose counts were fetched */
+  checked: number;
+  /** Items whose Extra changed */
+  updated: number;
+  /** False when the run stopped early and will resume next time */
+  completed: boolean;
+  resumed: boolean;
+}
+
+export interface CitationCounts {
+  citations: number;
+  citationsWoSelf: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scope (whole library or chosen collections)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toCollectionRef(collection: Zotero.Collection): string {
+  return `${collection.libraryID}/${collection.key}`;
+}
+
+/**
+ * Collections chosen for the scheduled refresh, as `libraryID/key` refs.
+ * Empty means the whole user library.
+ */
+export function getCitationRefreshCollections(): string[] {
+  try {
+    const parsed = JSON.parse(
+      (getPref("citation_refresh_collections") as string) || "[]",
+    );
+    return Array.isArray(parsed)
+      ? parsed.filter((ref): ref is string => typeof ref === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isCollectionInCitationRefresh(
+  collection: Zotero.Collection,
+): boolean {
+  return getCitationRefreshCollections().includes(toCollectionRef(collection));
+}
+
+/** Add a collection to the scheduled refresh, or remove it. */
+export function setCollectionInCitationRefresh(
+  collection: Zotero.Collection,
+  included: boolean,
+): void {
+  const ref = toCollectionRef(collection);
+  const refs = getCitationRefreshCollections().filter((r) => r !== ref);
+  if (included) refs.push(ref);
+  setPref("citation_refresh_collections", JSON.stringify(refs));
+}
+
+/** Identifies the scope a run was started for; a changed scope restarts it. */
+export function getCitationRefreshScopeKey(): string {
+  const refs = getCitationRefreshCollections();
+  return refs.length ? [...refs].sort().join(",") : "library";
+}
+
+async function collectScopeItemIDs(signal?: AbortSignal): Promise<number[]> {
+  const refs = getCitationRefreshCollections();
+  const ids = new Set<number>();
+  if (refs.length) {
+    for (const ref of refs) {
+      if (signal?.aborted) break;
+      const [libraryID, key] = ref.split("/");
+      const collection = Zotero.Collections.getByLibraryAndKey(
+        Number(libraryID),
+        key,
+      );
+      if (!collection || collection.deleted) continue;
+      for (const id of collection.getChildItems(true)) {
+        ids.add(id);
+      }
+    }
+  } else {
+    const search = new Zotero.Search({
+      libraryID: Zotero.Libraries.userLibraryID,
+    });
+    search.addCondition("itemType", "isNot", "attachment");
+    search.addCondition("itemType", "isNot", "note");
+    for (const id of await search.search()) {
+      ids.add(id);
+    }
+  }
+  return [...ids].sort((a, b) => a - b);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getStatePath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, STATE_FILE_NAME);
+}
+
+export async function loadCitationRefreshRun(): Promise<CitationRefreshRun | null> {
+  try {
+    const path = getStatePath();
+    if (await IOUtils.exists(path)) {
+      const data = (await IOUtils.readJSON(path)) as CitationRefreshStateFile;
+      if (data?.version === STATE_VERSION) {
+        return data.run ?? null;
+      }
+    }
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Failed to load citation refresh state: ${err}`,
+    );
+  }
+  return null;
+}
+
+async function saveCitationRefreshRun(
+  run: CitationRefreshRun | null,
+): Promise<void> {
+  try {
+    const data: CitationRefreshStateFile = { version: STATE_VERSION, run };
+    await IOUtils.writeJSON(getStatePath(), data);
+  } catch (err) {
+    Zotero.debug(
+      `[${config.addonName}] Failed to save citation refresh state: ${err}`,
+    );
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scheduling
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getIntervalDays(): number {
+  const days = Number(getPref("citation_refresh_interval_days"));
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_INTERVAL_DAYS;
+}
+
+/**
+ * Whether the background job should run now: enabled, and either an earlier
+ * run is unfinished or the last completed run is older than the interval.
+ */
+export async function shouldRunCitationRefresh(
+  now: number = Date.now(),
+): Promise<boolean> {
+  if (!getPref("citation_refresh_enabled")) return false;
+  if (await loadCitationRefreshRun()) return true;
+  const lastRun = Number(getPref("citation_refresh_last_run")) || 0;
+  return now - lastRun >= getIntervalDays() * DAY_MS;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fetch and Apply
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch citation counts for up to CITATION_REFRESH_BATCH_SIZE recids with a
+ * single `recid:… OR recid:…` search. Throws on network/HTTP errors so the
+ * caller can stop and resume later; recids missing from the result (deleted or
+ * merged records) are simply absent from the map.
+ */
+export async function fetchCitationCountsBatch(
+  recids: string[],
+  signal?: AbortSignal,
+): Promise<Map<string, CitationCounts>> {
+  const counts = new Map<string, CitationCounts>();
+  if (!recids.length) return counts;
+
+  const query = recids.map((r) => `recid:${r}`).join(" OR ");
+  const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${recids.length}${buildFieldsParam(API_FIELDS_CITATIONS)}`;
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: "background",
+  });
+  if (!response.ok) {
+    throw new Error(`INSPIRE search HTTP ${response.status}`);
+  }
+  const payload =
+    (await response.json()) as unknown as InspireLiteratureSearchResponse | null;
+  for (const hit of payload?.hits?.hits ?? []) {
+    const metadata = hit?.metadata as Record<string, any> | undefined;
+    const recid = String(metadata?.control_number ?? hit?.id ?? "");
+    if (!recid || typeof metadata?.citation_count !== "number") continue;
+    counts.set(recid, {
+      citations: metadata.citation_count,
+      citationsWoSelf:
+        typeof metadata.citation_count_without_self_citations === "number"
+          ? metadata.citation_count_without_self_citations
+          : 0,
+    });
+  }
+  return counts;
+}
+
+let activeRun: Promise<CitationRefreshSummary> | null = null;
+
+/** True while a refresh (background or "Run now") is in progress. */
+export function isCitationRefreshRunning(): boolean {
+  return activeRun !== null;
+}
+
+/**
+ * Refresh citation counts for every item in scope that has an INSPIRE recid.
+ * Resumes an unfinished run for the same scope. Only one run at a time; a
+ * second call returns the running one.
+ */
+export function runCitationRefresh(options?: {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<CitationRefreshSummary> {
+  if (!activeRun) {
+    activeRun = runCitationRefreshNow(options).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+async function runCitationRefreshNow(options?: {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<CitationRefreshSummary> {
+  const signal = options?.signal;
+  const scope = getCitationRefreshScopeKey();
+  const previous = await loadCitationRefreshRun();
+  const resumed = previous?.scope === scope;
+  const run: CitationRefreshRun = resumed
+    ? previous!
+    : { startedAt: Date.now(), scope, cursorItemID: 0, checked: 0, updated: 0 };
+
+  const itemIDs = (await collectScopeItemIDs(signal)).filter(
+    (id) => id > run.cursorItemID,
+  );
+  const total = itemIDs.length;
+  const summary = (completed: boolean): CitationRefreshSummary => ({
+    checked: run.checked,
+    updated: run.updated,
+    completed,
+    resumed,
+  });
+
+  Zotero.debug(
+    `[${config.addonName}] Citation refresh ${resumed ? "resuming" : "starting"}: ${total} items in scope "${scope}"`,
+  );
+
+  // Items sharing a recid (duplicates) are all updated from one hit
+  let batch = new Map<string, Zotero.Item[]>();
+  let batchLastItemID = run.cursorItemID;
+
+  const flushBatch = async (): Promise<void> => {
+    if (batch.size) {
+      const counts = await fetchCitationCountsBatch([...batch.keys()], signal);
+      for (const [recid, items] of batch) {
+        const result = counts.get(recid);
+        if (!result) continue;
+        for (const item of items) {
+          run.checked++;
+          if (
+            applyInspireCitationCounts(
+              item,
+              result.citations,
+              result.citationsWoSelf,
+            )
+          ) {
+            await item.saveTx();
+            emitPendingCitationsEvent(item);
+            run.updated++;
+          }
+        }
+      }
+    }
+    batch = new Map();
+    run.cursorItemID = batchLastItemID;
+    await saveCitationRefreshRun(run);
+  };
+
+  try {
+    for (let i = 0; i < itemIDs.length; i += ITEM_LOAD_BATCH_SIZE) {
+      const items = await Zotero.Items.getAsync(
+        itemIDs.slice(i, i + ITEM_LOAD_BATCH_SIZE),
+      );
+      for (const item of items) {
+        if (signal?.aborted) {
+          await saveCitationRefreshRun(run);
+          return summary(false);
+        }
+        const recid =
+          item.isRegularItem() && !item.deleted
+            ? deriveRecidFromItem(item)
+            : null;
+        if (recid) {
+          if (!batch.has(recid) && batch.size >= CITATION_REFRESH_BATCH_SIZE) {
+            await flushBatch();
+            options?.onProgress?.(i, total);
+          }
+          const group = batch.get(recid) ?? [];
+          group.push(item);
+          batch.set(recid, group);
+        }
+        batchLastItemID = item.id;
+      }
+      // Yield main thread between item loads
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    await flushBatch();
+  } catch (err) {
+    // Keep the cursor of the last finished batch; next run resumes from there
+    if ((err as any)?.name !== "AbortError") {
+      Zotero.debug(
+        `[${config.addonName}] Citation refresh stopped, will resume: ${err}`,
+      );
+    }
+    return summary(false);
+  }
+
+  options?.onProgress?.(total, total);
+  await saveCitationRefreshRun(null);
+  setPref("citation_refresh_last_run", Date.now());
+  Zotero.debug(
+    `[${config.addonName}] Citation refresh completed: ${run.checked} checked, ${run.updated} updated`,
+  );
+  return summary(true);
+}
@@ -7,6 +7,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { getPref } from "../../utils/prefs";
+import type { UndoBatchRecorder } from "./undoJournal";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
@@ -234,11 +235,13 @@ export function extractCollaborationsFromExtra(item: Zotero.Item): string[] {
  *
  * @param items - Array of Zotero items
  * @param progressCallback - Optional callback for progress updates
+ * @param undoRecorder - Optional recorder that journals the tag changes
  * @returns Result with counts of added, updated, skipped, and errors
  */
 export async function batchAddCollabTags(
   items: Zotero.Item[],
   progressCallback?: CollabTagProgressCallback,
+  undoRecorder?: UndoBatchRecorder,
 ): Promise<CollabTagResult> {
   const result: CollabTagResult = {
     added: 0,
@@ -259,10 +262,12 @@ export async function batchAddCollabTags(
         continue;
       }
 
+      undoRecorder?.before(item);
       const { added, updated } = await addCollabTagsToItem(
         item,
         collaborations,
       );
+      undoRecorder?.after(item);
 
       if (added > 0 || updated > 0) {
         result.added += added;
@@ -63,6 +63,22 @@ export const RELATED_COCITATION_TOP_N = 25;
 // ─────────────────────────────────────────────────────────────────────────────
 export const CITATION_GRAPH_MAX_REFERENCES = 25;
 export const CITATION_GRAPH_MAX_CITED_BY = 25;
+// Node expansion (rings beyond the first): new nodes per side per expanded node,
+// the candidates scanned per side for edges, and the cap on all rings together.
+export const CITATION_GRAPH_EXPAND_MAX_PER_SIDE = 10;
+export const CITATION_GRAPH_EXPAND_SCAN_PER_SIDE = 50;
+export const CITATION_GRAPH_SECOND_RING_MAX_NODES = 100;
+// Library citation network: items with recids read from one collection, and
+// parallel reference fetches for items whose references are not cached.
+export const LIBRARY_NETWORK_MAX_ITEMS = 300;
+export const LIBRARY_NETWORK_FETCH_CONCURRENCY = 3;
+// Citation path search: edges on the longest path looked for, papers whose
+// neighbours are read, citing papers taken per paper, and paths kept.
+export const CITATION_PATH_MAX_DEPTH = 4;
+export const CITATION_PATH_MAX_EXPANSIONS = 60;
+export const CITATION_PATH_CITED_BY_PER_NODE = 50;
+export const CITATION_PATH_MAX_PATHS = 5;
+export const CITATION_PATH_FETCH_CONCURRENCY = 3;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // UI Timing Constants
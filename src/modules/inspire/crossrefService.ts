@@ -4,6 +4,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { config } from "../../../package.json";
+import { isOfflineMode } from "./offlineMode";
 import { createAbortController, createMockSignal } from "./utils";
 
 /**
@@ -36,12 +37,15 @@ const CROSSREF_MAX_RETRIES = 2;
  *
  * @param url - The URL to fetch
  * @param options - Optional fetch options
- * @returns Response or null if all attempts failed
+ * @returns Response or null if all attempts failed (or offline mode is on)
  */
 export async function crossrefFetch(
   url: string,
   options: RequestInit & { signal?: AbortSignal } = {},
 ): Promise<Response | null> {
+  if (isOfflineMode()) {
+    return null;
+  }
   for (let attempt = 0; attempt <= CROSSREF_MAX_RETRIES; attempt++) {
     if (options.signal?.aborted) {
       return null;
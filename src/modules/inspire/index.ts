@@ -88,6 +88,13 @@ export {
   setInspireMetaSelective,
   setCrossRefCitations,
   saveItemWithPendingInspireNote,
+  emitPendingCitationsEvent,
+  updateItemMetadata,
+  type ItemMetadataUpdateResult,
+  type ItemMetadataUpdateOptions,
+  importInspireRecord,
+  createInspireItem,
+  type InspireImportTarget,
 } from "./itemUpdater";
 export { MemoryMonitor } from "./memoryMonitor";
 
@@ -110,6 +117,7 @@ export {
   getInspireMeta,
   fetchRecidFromInspire,
   fetchInspireMetaByRecid,
+  searchInspireRecids,
   fetchInspireAbstract,
   fetchBibTeX,
   fetchInspireTexkey,
@@ -134,10 +142,69 @@ export {
   RATE_LIMIT_MAX_REQUESTS,
   RATE_LIMIT_WINDOW_MS,
   type RateLimiterStatus,
+  type InspireRequestPriority,
+  type InspireFetchOptions,
 } from "./rateLimiter";
 
+// Re-export offline mode
+export {
+  isOfflineMode,
+  setOfflineMode,
+  onOfflineModeChange,
+  handleOfflineModeChange,
+  createOfflineError,
+  isOfflineError,
+  queueOfflineFetch,
+  processOfflineQueue,
+  fetchIntoCache,
+  getCacheEntryRequest,
+  type OfflineFetchRequest,
+  type OfflineQueueResult,
+} from "./offlineMode";
+
 // Re-export local cache service
-export { localCache } from "./localCache";
+export {
+  localCache,
+  type LocalCacheExportEntry,
+  type LocalCacheEntryInfo,
+} from "./localCache";
+export {
+  CACHE_BUNDLE_EXTENSION,
+  exportCacheBundle,
+  importCacheBundle,
+  type CacheBundle,
+  type CacheBundleImportResult,
+} from "./cacheBundle";
+export { showCacheBrowserDialog } from "./cacheBrowserDialog";
+export { showCitationInboxDialog } from "./citationInboxDialog";
+export { showAuthorDashboardDialog } from "./authorDashboardDialog";
+export { showLibraryNetworkDialog } from "./libraryNetworkDialog";
+export {
+  parseSearchQuery,
+  type ParsedSearchQuery,
+  type SearchClause,
+  type SearchField,
+} from "./searchQuery";
+export {
+  INSPIRE_SEARCH_FIELDS,
+  getSearchField,
+  tokenizeSearchQuery,
+  validateSearchQuery,
+  completeSearchField,
+  buildSearchQuery,
+  type SearchFieldInfo,
+  type SearchFieldKind,
+  type SearchToken,
+  type SearchSyntaxErrorCode,
+  type SearchSyntaxIssue,
+  type AdvancedSearchFields,
+} from "./searchSyntax";
+export {
+  searchLocalIndex,
+  mergeSearchResults,
+  isLocalSearchEnabled,
+  resetLocalSearchIndex,
+} from "./localSearchIndex";
 
 // Re-export reference services
 export {
@@ -170,8 +237,42 @@ export {
 export {
   fetchMultiSeedCitationGraph,
   detectSeedEdges,
+  fetchCitationGraphExpansion,
+  mergeCitationGraphExpansion,
+  collapseCitationGraphNode,
+  getCitationGraphDisplayedRecids,
 } from "./citationGraphMultiSeedService";
 
+// Re-export citation graph layouts (force-directed, clustered)
+export {
+  computeForceLayout,
+  bundleEdges,
+  detectCitationCommunities,
+  computeModularity,
+  extractClusterTerms,
+  type CitationCommunities,
+} from "./citationGraphLayout";
+
+// Re-export citation graph network exports (GraphML, GEXF, DOT, Cytoscape.js)
+export {
+  buildCitationGraphExport,
+  buildCitationGraphGraphML,
+  buildCitationGraphGexf,
+  buildCitationGraphDot,
+  buildCitationGraphCytoscapeJson,
+  buildCitationGraphEdgeCsv,
+  CITATION_GRAPH_EXPORT_FORMATS,
+  type CitationGraphExportFormat,
+} from "./citationGraphExport";
+
+// Re-export citation path search (shortest paths between two papers)
+export {
+  findCitationPaths,
+  type CitationPath,
+  type CitationPathResult,
+  type CitationPathStep,
+} from "./citationPathService";
+
 export type {
   MultiSeedGraphResult,
   SeedEdge,
@@ -180,6 +281,8 @@ export type {
   CitationGraphEdgeData,
   CitationGraphEdgeType,
   CitationGraphNodeKind,
+  CitationGraphExpansion,
+  CitationGraphLayoutMode,
 } from "./types";
 
 // Re-export related papers co-citation helpers
@@ -246,6 +349,7 @@ export {
   batchUpdatePreprints,
   trackPreprintCandidates,
   removePreprintFromCache,
+  getPreprintWatchEntry,
   // Background check support
   shouldRunBackgroundCheck,
   updateLastCheckTime,
@@ -276,6 +380,114 @@ export {
   type CollabTagProgressCallback,
 } from "./collabTagService";
 
+// Re-export undo journal for batch operations
+export {
+  type UndoBatchKind,
+  type UndoItemRecord,
+  type UndoBatch,
+  type UndoResult,
+  UndoBatchRecorder,
+  snapshotItem,
+  diffSnapshots,
+  listUndoBatches,
+  getLastUndoableBatch,
+  undoLastBatch,
+} from "./undoJournal";
+
+// Re-export scheduled citation refresh
+export {
+  type CitationRefreshSummary,
+  runCitationRefresh,
+  shouldRunCitationRefresh,
+  isCitationRefreshRunning,
+  loadCitationRefreshRun,
+  getCitationRefreshCollections,
+} from "./citationRefreshService";
+
+// Re-export saved searches and their new-result alerts
+export {
+  type SavedSearchAlert,
+  getSavedSearches,
+  findSavedSearch,
+  addSavedSearch,
+  updateSavedSearch,
+  removeSavedSearch,
+  acknowledgeSavedSearch,
+  onSavedSearchesChange,
+  checkSavedSearch,
+  runSavedSearchAlerts,
+} from "./savedSearchService";
+
+// Re-export favorite author feed
+export {
+  type AuthorFeedSummary,
+  getAuthorFeedItems,
+  getUnreadAuthorFeedCount,
+  markAuthorFeedRead,
+  getAuthorFeedKey,
+  onAuthorFeedChange,
+  runAuthorFeedCheck,
+} from "./authorFeedService";
+
+// Re-export citation inbox
+export {
+  type TrackedPaper,
+  type TrackedPaperList,
+  type CitationInboxGroup,
+  type CitationInboxSummary,
+  getCitationInboxItemRefs,
+  isItemInCitationInbox,
+  setItemsInCitationInbox,
+  getCitationInboxCollections,
+  isCollectionInCitationInbox,
+  setCollectionInCitationInbox,
+  getCitationInboxAuthor,
+  collectTrackedPapers,
+  getCitationInboxItems,
+  getUnreadCitationInboxCount,
+  markCitationInboxRead,
+  groupCitationInboxItems,
+  onCitationInboxChange,
+  isCitationInboxCheckRunning,
+  runCitationInboxCheck,
+} from "./citationInboxService";
+
+// Re-export author dashboard
+export {
+  type AuthorDashboard,
+  calculateAuthorIndices,
+  computeAuthorDashboardStats,
+  fetchCitationsPerYear,
+  fetchTopCoauthors,
+  fetchTopCitingInstitutions,
+  loadAuthorDashboard,
+  buildAuthorDashboardCsv,
+} from "./authorDashboardService";
+
+// Re-export citation history (per-record citation count time series)
+export {
+  type CitationSample,
+  type CitationSampleSource,
+  getCitationHistoryKey,
+  recordCitationSample,
+  getCitationHistory,
+  peekCitationHistory,
+  getCitationsGained,
+  createCitationSparkline,
+  flushCitationHistory,
+} from "./citationHistory";
+
+// Re-export library event stream (connector events endpoint)
+export {
+  LIBRARY_EVENT_TYPES,
+  type LibraryEventType,
+  type LibraryEvent,
+  type LibraryEventPage,
+  emitLibraryEvent,
+  getLibraryEventsSince,
+  waitForLibraryEvents,
+} from "./libraryEvents";
+
 // Re-export Item Tree custom columns (FTR-CUSTOM-COLUMNS)
 export {
   registerInspireItemTreeColumns,
@@ -451,6 +663,8 @@ export {
   buildEntryFromSearchHit,
   type SearchProgressCallback,
   type SearchFetchOptions,
+  // AdvancedSearchDialog
+  showAdvancedSearchDialog,
   // CitationGraphDialog (FTR-CITATION-GRAPH)
   CitationGraphDialog,
 } from "./panel";
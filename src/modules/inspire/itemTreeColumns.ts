@@ -2,6 +2,13 @@ import { config } from "../../../package.json";
 import { extractArxivIdFromItem } from "./preprintWatchService";
 import { LRUCache } from "./utils";
 import { getPref } from "../../utils/prefs";
+import { deriveRecidFromItem } from "./apiUtils";
+import {
+  getCitationHistoryKey,
+  getCitationsGained,
+  loadCitationHistory,
+  peekCitationHistory,
+} from "./citationHistory";
 
 type MaybePromise<T> = T | Promise<T>;
 
@@ -10,6 +17,7 @@ type MaybePromise<T> = T | Promise<T>;
 // first '-' in the selector, so any hyphen inside `dataKey` breaks resizing.)
 const CITES_COLUMN_KEY = "zinspireCites";
 const ARXIV_COLUMN_KEY = "zinspireArxiv";
+const CITES_GAINED_COLUMN_KEY = "zinspireCitesGained";
 // Intentionally left empty to prevent Zotero from namespacing/escaping the
 // `dataKey` (which would introduce '-' and break resize).
 const ITEM_TREE_COLUMNS_PLUGIN_ID = "";
@@ -21,6 +29,9 @@ const SORT_DISPLAY_SEPARATOR = "\t";
 type CachedValue = { signature: string; value: string };
 const citesValueCache = new LRUCache<string, CachedValue>(4000);
 const arxivValueCache = new LRUCache<string, CachedValue>(4000);
+const citesGainedValueCache = new LRUCache<string, CachedValue>(4000);
+
+const DEFAULT_CITES_GAINED_DAYS = 30;
 
 let registeredColumnKeys: string[] = [];
 let columnsRegistered = false;
@@ -29,6 +40,7 @@ export function refreshInspireItemTreeColumns(clearCaches = true): void {
   if (clearCaches) {
     citesValueCache.clear();
     arxivValueCache.clear();
+    citesGainedValueCache.clear();
   }
 
   // For column data changes (not column definitions), Zotero caches row data in
@@ -266,6 +278,53 @@ function getCitesCellData(item: Zotero.Item): string {
   return value;
 }
 
+function getCitesGainedDaysPref(): number {
+  try {
+    const days = Number(getPref("cites_gained_days"));
+    return Number.isFinite(days) && days > 0
+      ? Math.trunc(days)
+      : DEFAULT_CITES_GAINED_DAYS;
+  } catch {
+    return DEFAULT_CITES_GAINED_DAYS;
+  }
+}
+
+/**
+ * Citations gained in the last N days, from the citation history. Encoded as
+ * sort key + display ("+12"); losses display with a minus and sort as 0.
+ */
+function getCitesGainedCellData(item: Zotero.Item): string {
+  const historyKey = getCitationHistoryKey(
+    deriveRecidFromItem(item),
+    asString(item.getField("DOI")),
+  );
+  if (!historyKey) return "";
+  const samples = peekCitationHistory(historyKey);
+  if (!samples) return "";
+
+  const key = getItemCacheKey(item);
+  const days = getCitesGainedDaysPref();
+  const excludeSelf = getCitesExcludeSelfPref();
+  const last = samples[samples.length - 1];
+  const signature = `${days}\n${excludeSelf}\n${samples.length}\n${last?.date}\n${last?.total}`;
+  const cached = citesGainedValueCache.get(key);
+  if (cached && cached.signature === signature) {
+    return cached.value;
+  }
+
+  const gained = getCitationsGained(samples, days, excludeSelf);
+  let value = "";
+  if (typeof gained === "number") {
+    const display = gained >= 0 ? `+${gained}` : `\u2212${-gained}`;
+    value = encodeSortDisplayValue(
+      padNumericSortKey(Math.max(0, gained)),
+      display,
+    );
+  }
+  citesGainedValueCache.set(key, { signature, value });
+  return value;
+}
+
 async function maybeAwait<T>(value: MaybePromise<T>): Promise<T> {
   return await Promise.resolve(value);
 }
@@ -378,6 +437,44 @@ export async function registerInspireItemTreeColumns(): Promise<void> {
     }),
   );
 
+  const citesGainedResult = await maybeAwait(
+    register.call(manager, {
+      dataKey: CITES_GAINED_COLUMN_KEY,
+      label: "Cites \u0394",
+      // Required by Zotero API. Use an empty string to avoid automatic
+      // namespacing (which introduces a '-' and breaks column resize logic).
+      pluginID: ITEM_TREE_COLUMNS_PLUGIN_ID,
+      enabledTreeIDs: ["main"],
+      flex: 0,
+      width: "60",
+      showInColumnPicker: true,
+      columnPickerSubMenu: false,
+      dataProvider: (item: Zotero.Item) => getCitesGainedCellData(item),
+      renderCell: (
+        _index: number,
+        data: string,
+        column: _ZoteroTypes.ItemTreeManager.ItemTreeColumnOptions & {
+          className: string;
+        },
+        _isFirstColumn: boolean,
+        doc: Document,
+      ) => {
+        const { display } = decodeSortDisplayValue(data);
+        const span = doc.createElement("span");
+        span.className = `cell ${column.className}`;
+        span.textContent = display;
+        if (display) {
+          span.setAttribute(
+            "title",
+            `${display} (${getCitesGainedDaysPref()}d)`,
+          );
+        }
+        return span;
+      },
+      zoteroPersist: ["width", "hidden", "sortDirection"],
+    }),
+  );
+
   const resolvedCitesKey =
     typeof citesResult === "string"
       ? citesResult
@@ -391,9 +488,19 @@ export async function registerInspireItemTreeColumns(): Promise<void> {
         ? ARXIV_COLUMN_KEY
         : null;
 
+  const resolvedCitesGainedKey =
+    typeof citesGainedResult === "string"
+      ? citesGainedResult
+      : manager.isCustomColumn?.(CITES_GAINED_COLUMN_KEY)
+        ? CITES_GAINED_COLUMN_KEY
+        : null;
+
   registeredColumnKeys = [];
   if (resolvedCitesKey) registeredColumnKeys.push(resolvedCitesKey);
   if (resolvedArxivKey) registeredColumnKeys.push(resolvedArxivKey);
+  if (resolvedCitesGainedKey) {
+    registeredColumnKeys.push(resolvedCitesGainedKey);
+  }
 
   if (registeredColumnKeys.length === 0) {
     // Registration failed; allow retries (e.g. if Zotero loads APIs late).
@@ -403,6 +510,13 @@ export async function registerInspireItemTreeColumns(): Promise<void> {
 
   manager.refreshColumns?.();
   columnsRegistered = true;
+
+  // Cites Δ cells stay empty until the history is in memory
+  loadCitationHistory()
+    .then(() => refreshInspireItemTreeColumns(true))
+    .catch(() => {
+      // Ignore history load errors; the column just stays empty
+    });
 }
 
 export function unregisterInspireItemTreeColumns(): void {
@@ -417,6 +531,7 @@ export function unregisterInspireItemTreeColumns(): void {
   // Best-effort unregister, even if the previous registration didn't store keys.
   keys.add(CITES_COLUMN_KEY);
   keys.add(ARXIV_COLUMN_KEY);
+  keys.add(CITES_GAINED_COLUMN_KEY);
 
   for (const key of keys) {
     try {
@@ -12,6 +12,18 @@ import {
 // Plugin icon for progress windows (PNG format required for ProgressWindow headline)
 const PLUGIN_ICON = `chrome://${config.addonRef}/content/icons/inspire-icon.png`;
 
+// Operations whose lookups can be batched (see resolveInspireMetaBatch)
+const BATCH_RESOLVE_OPERATIONS = new Set(["full", "noabstract", "citations"]);
+
+// Batch kind names shown in the undo confirmation
+const UNDO_KIND_LABELS: Record<UndoBatchKind, FluentMessageId> = {
+  metadata_update: "undo-kind-metadata-update",
+  preprint_upgrade: "undo-kind-preprint-upgrade",
+  collab_tags: "undo-kind-collab-tags",
+  trash: "undo-kind-trash",
+  erase: "undo-kind-erase",
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // RegExp Constants (hoisted to module level for performance)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -19,6 +31,7 @@ const ARXIV_EXTRA_LINE_REGEX = /^.*(arXiv:|_eprint:).*$(\n|)/gim;
 
 import type {
   jsobject,
+  ItemWithPendingCitationsEvent,
   ItemWithPendingInspireNote,
   FavoritePaper,
 } from "./types";
@@ -26,14 +39,22 @@ import {
   getInspireMeta,
   getCrossrefCount,
   fetchBibTeX,
+  fetchInspireMetaByRecid,
+  resolveInspireMetaBatch,
 } from "./metadataService";
 import { deriveRecidFromItem, copyToClipboard } from "./apiUtils";
 import { localCache } from "./localCache";
+import {
+  CACHE_BUNDLE_EXTENSION,
+  exportCacheBundle,
+  importCacheBundle,
+} from "./cacheBundle";
 import {
   fetchReferencesEntries,
   enrichReferencesEntries,
 } from "./referencesService";
 import { inspireFetch } from "./rateLimiter";
+import { isOfflineMode } from "./offlineMode";
 import {
   isSmartUpdateEnabled,
   shouldShowPreview,
@@ -43,6 +64,7 @@ import {
   showSmartUpdatePreviewDialog,
   mergeCreatorsWithProtectedNames,
   type FieldChange,
+  type SmartUpdateDiff,
 } from "./smartUpdate";
 import {
   isUnpublishedPreprint,
@@ -60,6 +82,15 @@ import {
   batchAddCollabTags,
 } from "./collabTagService";
 import { createAbortController } from "./utils";
+import {
+  UndoBatchRecorder,
+  getLastUndoableBatch,
+  undoLastBatch,
+  type UndoBatchKind,
+} from "./undoJournal";
+import type { FluentMessageId } from "../../../typings/i10n";
+import { emitLibraryEvent } from "./libraryEvents";
+import { getCitationHistoryKey, recordCitationSample } from "./citationHistory";
 import { copyFundingInfo } from "./funding";
 // NOTE: CitationGraphDialog is imported lazily to avoid circular dependencies.
 
@@ -227,6 +258,7 @@ export class ZInspire {
   }
 
   updateSelectedItems(operation: string) {
+    if (this.notifyIfOffline()) return;
     this.resetState("initial");
     this.isCancelled = false;
     this.setupEscapeListener();
@@ -237,6 +269,7 @@ export class ZInspire {
   }
 
   updateSelectedCollection(operation: string) {
+    if (this.notifyIfOffline()) return;
     this.resetState("initial");
     this.isCancelled = false;
     this.setupEscapeListener();
@@ -428,6 +461,7 @@ export class ZInspire {
       Zotero.debug(
         `[${config.addonName}] downloadReferencesCacheForSelection: starting`,
       );
+      if (this.notifyIfOffline()) return;
       if (!localCache.isEnabled()) {
         this.showCacheNotification(
           getString("download-cache-disabled"),
@@ -465,6 +499,7 @@ export class ZInspire {
       Zotero.debug(
         `[${config.addonName}] downloadReferencesCacheForCollection: starting`,
       );
+      if (this.notifyIfOffline()) return;
       if (!localCache.isEnabled()) {
         this.showCacheNotification(
           getString("download-cache-disabled"),
@@ -506,7 +541,150 @@ export class ZInspire {
     }
   }
 
+  /**
+   * Export the offline cache of the selected items as a bundle file that can
+   * be imported on another machine (see cacheBundle.ts).
+   */
+  async exportCacheBundleForSelection() {
+    const items = Zotero.getActiveZoteroPane()?.getSelectedItems() ?? [];
+    await this.exportCacheBundleForItems(items);
+  }
+
+  async exportCacheBundleForCollection() {
+    const collection = Zotero.getActiveZoteroPane()?.getSelectedCollection();
+    if (!collection) {
+      this.showCacheNotification(
+        getString("download-cache-no-selection"),
+        "error",
+      );
+      return;
+    }
+    await this.exportCacheBundleForItems(
+      collection.getChildItems(),
+      collection.name,
+    );
+  }
+
+  private async exportCacheBundleForItems(
+    items: Zotero.Item[],
+    label?: string,
+  ) {
+    try {
+      if (!localCache.isEnabled()) {
+        this.showCacheNotification(
+          getString("download-cache-disabled"),
+          "error",
+        );
+        return;
+      }
+      const recids = new Set<string>();
+      for (const item of items) {
+        const recid = item?.isRegularItem() ? deriveRecidFromItem(item) : null;
+        if (recid) recids.add(recid);
+      }
+      if (!recids.size) {
+        this.showCacheNotification(
+          getString("download-cache-no-recid"),
+          "error",
+        );
+        return;
+      }
+      const baseName = (label || "inspire-cache").replace(/[\\/:*?"<>|]/g, "_");
+      const path = await this.promptCacheBundlePath(
+        "save",
+        `${baseName}.${CACHE_BUNDLE_EXTENSION}`,
+      );
+      if (!path) return;
+      const count = await exportCacheBundle(path, recids, label);
+      if (count > 0) {
+        this.showCacheNotification(
+          getString("cache-bundle-exported", { args: { count } }),
+        );
+      } else {
+        this.showCacheNotification(
+          getString("cache-bundle-export-empty"),
+          "error",
+        );
+      }
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] exportCacheBundle: error: ${err}`);
+      this.showCacheNotification(
+        getString("cache-bundle-export-failed"),
+        "error",
+      );
+    }
+  }
+
+  /**
+   * Merge a cache bundle file into the local cache. Newer local entries are
+   * kept. Entry point from item and collection menus.
+   */
+  async importCacheBundleFromFile() {
+    try {
+      if (!localCache.isEnabled()) {
+        this.showCacheNotification(
+          getString("download-cache-disabled"),
+          "error",
+        );
+        return;
+      }
+      const path = await this.promptCacheBundlePath("open");
+      if (!path) return;
+      const result = await importCacheBundle(path);
+      this.showCacheNotification(
+        getString("cache-bundle-imported", { args: { ...result } }),
+      );
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] importCacheBundle: error: ${err}`);
+      this.showCacheNotification(
+        getString("cache-bundle-import-failed"),
+        "error",
+      );
+    }
+  }
+
+  private async promptCacheBundlePath(
+    mode: "save" | "open",
+    defaultName?: string,
+  ): Promise<string | null> {
+    const win = Zotero.getMainWindow();
+    const FilePickerCtor = win && (win as any).FilePicker;
+    if (!win || !FilePickerCtor) {
+      return null;
+    }
+    const fp = new FilePickerCtor();
+    fp.init(
+      win,
+      getString(
+        mode === "save"
+          ? "cache-bundle-export-title"
+          : "cache-bundle-import-title",
+      ),
+      mode === "save" ? fp.modeSave : fp.modeOpen,
+    );
+    fp.appendFilter(
+      getString("cache-bundle-filter"),
+      `*.${CACHE_BUNDLE_EXTENSION}`,
+    );
+    fp.appendFilters(fp.filterAll);
+    if (defaultName) {
+      fp.defaultString = defaultName;
+    }
+    const result = await fp.show();
+    if (result === fp.returnOK || result === fp.returnReplace) {
+      return fp.file;
+    }
+    return null;
+  }
+
   async updateItems(items: Zotero.Item[], operation: string) {
+    // Also called for newly added items; skip quietly instead of notifying
+    if (isOfflineMode()) {
+      Zotero.debug(
+        `[${config.addonName}] updateItems: skipped ${items.length} items in offline mode`,
+      );
+      return;
+    }
     this.resetState("initial");
     this.isCancelled = false;
     // Abort any previous update run
@@ -516,7 +694,7 @@ export class ZInspire {
     const filteredItems = items.filter((item) => item.isRegularItem());
     this.itemsToUpdate = filteredItems;
     this.toUpdate = filteredItems.length;
-    this.updateItemsConcurrent(operation);
+    await this.updateItemsConcurrent(operation);
   }
 
   /**
@@ -546,9 +724,43 @@ export class ZInspire {
     });
     this.progressWindow.show();
 
+    // Resolve identifiers in bulk first; unresolved items fall back to
+    // single lookups inside updateItemMetadata
+    let prefetched = new Map<number, jsobject>();
+    if (total > 1 && BATCH_RESOLVE_OPERATIONS.has(operation)) {
+      try {
+        prefetched = await resolveInspireMetaBatch(
+          this.itemsToUpdate,
+          operation,
+          {
+            signal: this.updateController?.signal,
+            isCancelled: () => this.isCancelled,
+            onProgress: ({ done, total: ids }) => {
+              if (this.isCancelled) return;
+              this.progressWindow.changeLine({
+                icon: PLUGIN_ICON,
+                text: getString("update-resolving-identifiers", {
+                  args: { done, total: ids },
+                }),
+                progress: Math.round((done / ids) * 100),
+              });
+            },
+          },
+        );
+      } catch (err) {
+        Zotero.debug(
+          `[${config.addonName}] updateItemsConcurrent: batch resolve failed: ${err}`,
+        );
+      }
+      Zotero.debug(
+        `[${config.addonName}] updateItemsConcurrent: batch-resolved ${prefetched.size} of ${total} items`,
+      );
+    }
+
     // Create a queue of pending items
     const queue = [...this.itemsToUpdate];
     let index = 0;
+    const undoRecorder = new UndoBatchRecorder("metadata_update");
 
     const worker = async () => {
       while (index < queue.length && !this.isCancelled) {
@@ -561,11 +773,14 @@ export class ZInspire {
         }
 
         try {
+          undoRecorder.before(item);
           await this.updateItemInternal(
             item,
             operation,
             this.updateController?.signal,
+            prefetched.get(item.id),
           );
+          undoRecorder.after(item);
         } catch (err) {
           Zotero.debug(
             `[${config.addonName}] updateItemsConcurrent: error updating item ${item.id}: ${err}`,
@@ -630,6 +845,7 @@ export class ZInspire {
       this.numberOfUpdatedItems = this.toUpdate;
     } finally {
       this.removeEscapeListener();
+      await undoRecorder.commit();
     }
   }
 
@@ -714,7 +930,9 @@ export class ZInspire {
       });
 
       try {
-        const entries = await fetchReferencesEntries(recid);
+        const entries = await fetchReferencesEntries(recid, {
+          requestPriority: "background",
+        });
         // Check again after async operation
         if (this.isCancelled) {
           progressWindow.close();
@@ -723,7 +941,9 @@ export class ZInspire {
         }
         // Enrich entries with complete metadata (title, authors, citation count)
         // This ensures cached data is complete and usable offline
-        await enrichReferencesEntries(entries);
+        await enrichReferencesEntries(entries, {
+          requestPriority: "background",
+        });
         if (this.isCancelled) {
           progressWindow.close();
           this.showCacheCancelledStats(success, total);
@@ -781,6 +1001,13 @@ export class ZInspire {
     statsWindow.startCloseTimer(5000);
   }
 
+  /** Show a notification and return true when offline mode is on. */
+  private notifyIfOffline(): boolean {
+    if (!isOfflineMode()) return false;
+    this.showCacheNotification(getString("offline-mode-unavailable"), "error");
+    return true;
+  }
+
   private showCacheNotification(
     message: string,
     type: "info" | "error" = "info",
@@ -824,124 +1051,42 @@ export class ZInspire {
     item: Zotero.Item,
     operation: string,
     signal?: AbortSignal,
+    prefetchedMeta?: jsobject,
   ) {
-    Zotero.debug(
-      `[${config.addonName}] updateItemInternal: starting, item=${item.id}, operation=${operation}`,
-    );
-    if (
-      operation === "full" ||
-      operation === "noabstract" ||
-      operation === "citations"
-    ) {
-      Zotero.debug(
-        `[${config.addonName}] updateItemInternal: calling getInspireMeta`,
-      );
-      const metaInspire = await getInspireMeta(item, operation, signal);
-      Zotero.debug(
-        `[${config.addonName}] updateItemInternal: getInspireMeta returned, recid=${metaInspire !== -1 ? (metaInspire as jsobject).recid : "N/A"}`,
-      );
-      if (metaInspire !== -1 && (metaInspire as jsobject).recid !== undefined) {
-        if (item.hasTag(getPref("tag_norecid") as string)) {
-          item.removeTag(getPref("tag_norecid") as string);
-        }
-        if (item.itemType === "report" || item.itemType === "preprint") {
-          item.setType(Zotero.ItemTypes.getID("journalArticle") as number);
-        }
-        if (
-          item.itemType !== "book" &&
-          (metaInspire as jsobject).document_type == "book"
-        ) {
-          item.setType(Zotero.ItemTypes.getID("book") as number);
-        }
-
-        // Smart update mode: compare and filter changes
-        if (isSmartUpdateEnabled()) {
-          const diff = compareItemWithInspire(item, metaInspire as jsobject);
-          if (diff.hasChanges) {
-            const protectionConfig = getFieldProtectionConfig();
-            let allowedChanges = filterProtectedChanges(diff, protectionConfig);
-            const skippedCount = diff.changes.length - allowedChanges.length;
-
-            if (skippedCount > 0) {
-              Zotero.debug(
-                `[${config.addonName}] Smart update: skipped ${skippedCount} protected fields`,
-              );
-            }
-
-            if (allowedChanges.length > 0) {
-              // Show preview dialog only for single-item updates (not batch)
-              if (shouldShowPreview() && this.toUpdate === 1) {
-                const result = await showSmartUpdatePreviewDialog(
-                  diff,
-                  allowedChanges,
-                );
-                if (!result.confirmed) {
-                  Zotero.debug(
-                    `[${config.addonName}] Smart update: user cancelled preview`,
-                  );
-                  return;
-                }
-                // Filter to only user-selected fields
-                allowedChanges = allowedChanges.filter((c) =>
-                  result.selectedFields.includes(c.field),
-                );
-                if (allowedChanges.length === 0) {
-                  Zotero.debug(
-                    `[${config.addonName}] Smart update: no fields selected by user`,
-                  );
-                  return;
-                }
-              }
-
-              // Apply only allowed changes
-              await setInspireMetaSelective(
-                item,
-                metaInspire as jsobject,
-                operation,
-                allowedChanges,
-              );
-              await saveItemWithPendingInspireNote(item);
-              this.counter++;
-            } else {
+    // Show preview dialog only for single-item updates (not batch)
+    const confirmChanges =
+      shouldShowPreview() && this.toUpdate === 1
+        ? async (diff: SmartUpdateDiff, allowedChanges: FieldChange[]) => {
+            const result = await showSmartUpdatePreviewDialog(
+              diff,
+              allowedChanges,
+            );
+            if (!result.confirmed) {
               Zotero.debug(
-                `[${config.addonName}] Smart update: no changes to apply after filtering`,
+                `[${config.addonName}] Smart update: user cancelled preview`,
               );
+              return null;
             }
-          } else {
-            Zotero.debug(
-              `[${config.addonName}] Smart update: no changes detected`,
+            return allowedChanges.filter((c) =>
+              result.selectedFields.includes(c.field),
             );
           }
-        } else {
-          // Standard update mode
-          await setInspireMeta(item, metaInspire as jsobject, operation);
-          await saveItemWithPendingInspireNote(item);
-          this.counter++;
-        }
-      } else {
-        if (
-          getPref("tag_enable") &&
-          getPref("tag_norecid") !== "" &&
-          !item.hasTag(getPref("tag_norecid") as string)
-        ) {
-          item.addTag(getPref("tag_norecid") as string, 1);
-          await item.saveTx();
-        } else if (
-          !getPref("tag_enable") &&
-          item.hasTag(getPref("tag_norecid") as string)
-        ) {
-          item.removeTag(getPref("tag_norecid") as string);
-          await item.saveTx();
-        }
-        this.error_norecid = true;
-        this.noRecidCount++;
-        if (operation === "citations") {
-          const crossref_count = await setCrossRefCitations(item);
-          await item.saveTx();
-          if (crossref_count >= 0) {
-            this.CrossRefcounter++;
-          }
-        }
+        : undefined;
+
+    const result = await updateItemMetadata(item, operation, {
+      signal,
+      smartUpdate: isSmartUpdateEnabled(),
+      confirmChanges,
+      prefetchedMeta,
+    });
+
+    if (result.status === "updated") {
+      this.counter++;
+    } else if (result.status === "no_recid") {
+      this.error_norecid = true;
+      this.noRecidCount++;
+      if ((result.crossrefCount ?? -1) >= 0) {
+        this.CrossRefcounter++;
       }
     }
   }
@@ -2057,14 +2202,20 @@ export class ZInspire {
     });
     progressWindow.show(-1);
 
+    const undoRecorder = new UndoBatchRecorder("collab_tags");
     try {
-      const result = await batchAddCollabTags(regularItems, (done, total) => {
-        progressWindow.changeLine({
-          icon: PLUGIN_ICON,
-          text: getString("collab-tag-progress"),
-          progress: Math.round((done / total) * 100),
-        });
-      });
+      const result = await batchAddCollabTags(
+        regularItems,
+        (done, total) => {
+          progressWindow.changeLine({
+            icon: PLUGIN_ICON,
+            text: getString("collab-tag-progress"),
+            progress: Math.round((done / total) * 100),
+          });
+        },
+        undoRecorder,
+      );
+      await undoRecorder.commit();
 
       progressWindow.close();
 
@@ -2137,14 +2288,20 @@ export class ZInspire {
     });
     progressWindow.show(-1);
 
+    const undoRecorder = new UndoBatchRecorder("collab_tags");
     try {
-      const result = await batchAddCollabTags(items, (done, total) => {
-        progressWindow.changeLine({
-          icon: PLUGIN_ICON,
-          text: getString("collab-tag-progress"),
-          progress: Math.round((done / total) * 100),
-        });
-      });
+      const result = await batchAddCollabTags(
+        items,
+        (done, total) => {
+          progressWindow.changeLine({
+            icon: PLUGIN_ICON,
+            text: getString("collab-tag-progress"),
+            progress: Math.round((done / total) * 100),
+          });
+        },
+        undoRecorder,
+      );
+      await undoRecorder.commit();
 
       progressWindow.close();
 
@@ -2191,6 +2348,323 @@ export class ZInspire {
     progressWindow.show();
     progressWindow.startCloseTimer(3000);
   }
+
+  /**
+   * Show a notification for undo operations.
+   */
+  private showUndoNotification(
+    text: string,
+    type: "success" | "fail" | "default",
+  ): void {
+    const progressWindow = new ProgressWindowHelper(config.addonName);
+    progressWindow.win.changeHeadline(getString("undo-headline"), PLUGIN_ICON);
+    progressWindow.createLine({
+      text,
+      icon: type === "fail" ? "chrome://zotero/skin/cross.png" : PLUGIN_ICON,
+      type: type === "default" ? "success" : type,
+    });
+    progressWindow.show();
+    progressWindow.startCloseTimer(4000);
+  }
+
+  /**
+   * Roll back the most recent journaled batch (metadata update, preprint
+   * upgrade, collaboration tags, or external trash/erase) after confirmation.
+   * Entry point from item and collection context menus.
+   */
+  async undoLastInspireBatch(): Promise<void> {
+    const batch = await getLastUndoableBatch();
+    if (!batch) {
+      this.showUndoNotification(getString("undo-nothing"), "default");
+      return;
+    }
+
+    const win = Zotero.getMainWindow();
+    const confirmed =
+      !win ||
+      Services.prompt.confirm(
+        win as unknown as mozIDOMWindowProxy,
+        config.addonName,
+        getString("undo-confirm", {
+          args: {
+            kind: getString(UNDO_KIND_LABELS[batch.kind]),
+            count: batch.items.length,
+            date: new Date(batch.createdAt).toLocaleString(),
+          },
+        }),
+      );
+    if (!confirmed) return;
+
+    try {
+      const result = await undoLastBatch();
+      if (!result) {
+        this.showUndoNotification(getString("undo-nothing"), "default");
+        return;
+      }
+      this.showUndoNotification(
+        getString("undo-result", {
+          args: {
+            restored: result.restored,
+            conflicts: result.conflicts,
+            missing: result.missing,
+            attachments: result.missingAttachments,
+          },
+        }),
+        result.restored > 0 ? "success" : "default",
+      );
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] undoLastInspireBatch error: ${err}`);
+      this.showUndoNotification(getString("undo-failed"), "fail");
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Single-Item Update Pipeline
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Outcome of {@link updateItemMetadata} for one item.
+ * - `updated`: INSPIRE metadata was written and the item saved
+ * - `unchanged`: smart update found nothing to apply (or all fields protected)
+ * - `declined`: the confirmChanges callback rejected or emptied the change set
+ * - `no_recid`: INSPIRE has no record; CrossRef count is tried for "citations"
+ * - `skipped`: unsupported operation or non-regular item
+ */
+export interface ItemMetadataUpdateResult {
+  status: "updated" | "unchanged" | "declined" | "no_recid" | "skipped";
+  recid?: string;
+  /** Smart update only: full diff between the item and INSPIRE */
+  diff?: SmartUpdateDiff;
+  /** Smart update only: changes that were written */
+  appliedChanges?: FieldChange[];
+  /** Smart update only: changes withheld by field protection or the caller */
+  skippedChanges?: FieldChange[];
+  /** CrossRef citation count written for `no_recid` + "citations" (-1 if none) */
+  crossrefCount?: number;
+}
+
+export interface ItemMetadataUpdateOptions {
+  signal?: AbortSignal;
+  /** Compare first and honour field protections (see smartUpdate.ts) */
+  smartUpdate?: boolean;
+  /**
+   * Smart update only: narrow the allowed changes before they are applied.
+   * Return null to cancel the update for this item.
+   */
+  confirmChanges?: (
+    diff: SmartUpdateDiff,
+    allowedChanges: FieldChange[],
+  ) => Promise<FieldChange[] | null>;
+  /**
+   * Metadata already resolved by {@link resolveInspireMetaBatch}. When
+   * undefined, the item is looked up on its own.
+   */
+  prefetchedMeta?: jsobject;
+}
+
+/**
+ * Fetch INSPIRE metadata for one item and write it, exactly as the
+ * "Update Metadata" menu does for each selected item. Headless: it never
+ * opens progress windows, so it is shared by the batch controller and the
+ * external write API.
+ */
+export async function updateItemMetadata(
+  item: Zotero.Item,
+  operation: string,
+  options: ItemMetadataUpdateOptions = {},
+): Promise<ItemMetadataUpdateResult> {
+  const {
+    signal,
+    smartUpdate = false,
+    confirmChanges,
+    prefetchedMeta,
+  } = options;
+  Zotero.debug(
+    `[${config.addonName}] updateItemMetadata: starting, item=${item.id}, operation=${operation}`,
+  );
+  if (
+    !item.isRegularItem() ||
+    (operation !== "full" &&
+      operation !== "noabstract" &&
+      operation !== "citations")
+  ) {
+    return { status: "skipped" };
+  }
+
+  const metaInspire =
+    prefetchedMeta !== undefined
+      ? prefetchedMeta
+      : await getInspireMeta(item, operation, signal);
+  Zotero.debug(
+    `[${config.addonName}] updateItemMetadata: getInspireMeta returned, recid=${metaInspire !== -1 ? (metaInspire as jsobject).recid : "N/A"}`,
+  );
+  if (metaInspire === -1 || (metaInspire as jsobject).recid === undefined) {
+    const tagNoRecid = getPref("tag_norecid") as string;
+    if (
+      getPref("tag_enable") &&
+      tagNoRecid !== "" &&
+      !item.hasTag(tagNoRecid)
+    ) {
+      item.addTag(tagNoRecid, 1);
+      await item.saveTx();
+    } else if (!getPref("tag_enable") && item.hasTag(tagNoRecid)) {
+      item.removeTag(tagNoRecid);
+      await item.saveTx();
+    }
+    let crossrefCount: number | undefined;
+    if (operation === "citations") {
+      crossrefCount = await setCrossRefCitations(item);
+      await item.saveTx();
+    }
+    return { status: "no_recid", crossrefCount };
+  }
+
+  const meta = metaInspire as jsobject;
+  const recid = String(meta.recid);
+  if (item.hasTag(getPref("tag_norecid") as string)) {
+    item.removeTag(getPref("tag_norecid") as string);
+  }
+  if (item.itemType === "report" || item.itemType === "preprint") {
+    item.setType(Zotero.ItemTypes.getID("journalArticle") as number);
+  }
+  if (item.itemType !== "book" && meta.document_type == "book") {
+    item.setType(Zotero.ItemTypes.getID("book") as number);
+  }
+
+  if (!smartUpdate) {
+    // Standard update mode
+    await setInspireMeta(item, meta, operation);
+    await saveItemWithPendingInspireNote(item);
+    return { status: "updated", recid };
+  }
+
+  // Smart update mode: compare and filter changes
+  const diff = compareItemWithInspire(item, meta);
+  if (!diff.hasChanges) {
+    Zotero.debug(`[${config.addonName}] Smart update: no changes detected`);
+    return { status: "unchanged", recid, diff, appliedChanges: [] };
+  }
+
+  const protectionConfig = getFieldProtectionConfig();
+  let allowedChanges = filterProtectedChanges(diff, protectionConfig);
+  const skippedCount = diff.changes.length - allowedChanges.length;
+  if (skippedCount > 0) {
+    Zotero.debug(
+      `[${config.addonName}] Smart update: skipped ${skippedCount} protected fields`,
+    );
+  }
+  const withheld = () =>
+    diff.changes.filter((c) => !allowedChanges.includes(c));
+
+  if (allowedChanges.length === 0) {
+    Zotero.debug(
+      `[${config.addonName}] Smart update: no changes to apply after filtering`,
+    );
+    return {
+      status: "unchanged",
+      recid,
+      diff,
+      appliedChanges: [],
+      skippedChanges: withheld(),
+    };
+  }
+
+  if (confirmChanges) {
+    const confirmed = await confirmChanges(diff, allowedChanges);
+    if (!confirmed || confirmed.length === 0) {
+      if (confirmed) {
+        Zotero.debug(
+          `[${config.addonName}] Smart update: no fields selected by user`,
+        );
+      }
+      return {
+        status: "declined",
+        recid,
+        diff,
+        appliedChanges: [],
+        skippedChanges: diff.changes,
+      };
+    }
+    allowedChanges = confirmed;
+  }
+
+  // Apply only allowed changes
+  await setInspireMetaSelective(item, meta, operation, allowedChanges);
+  await saveItemWithPendingInspireNote(item);
+  return {
+    status: "updated",
+    recid,
+    diff,
+    appliedChanges: allowedChanges,
+    skippedChanges: withheld(),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Record Import
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Where {@link importInspireRecord} saves a new item (see SaveTargetSelection). */
+export interface InspireImportTarget {
+  libraryID: number;
+  collectionIDs: number[];
+  tags?: string[];
+  note?: string;
+}
+
+/**
+ * Fetch an INSPIRE record and save it as a new item (see
+ * {@link createInspireItem}). Shared by the References panel and the citation
+ * graph dialog.
+ *
+ * @returns the saved item, or null when INSPIRE has no record for `recid`
+ */
+export async function importInspireRecord(
+  recid: string,
+  target: InspireImportTarget,
+  signal?: AbortSignal,
+): Promise<Zotero.Item | null> {
+  const meta = await fetchInspireMetaByRecid(recid, signal);
+  if (meta === -1) {
+    return null;
+  }
+  return createInspireItem(meta, target);
+}
+
+/**
+ * Create a new journalArticle from already-fetched INSPIRE metadata and save
+ * it into the target library/collections, with optional tags and child note.
+ */
+export async function createInspireItem(
+  meta: jsobject,
+  target: InspireImportTarget,
+): Promise<Zotero.Item> {
+  const newItem = new Zotero.Item("journalArticle");
+  newItem.libraryID = target.libraryID;
+  const collectionIDs = Array.from(new Set(target.collectionIDs)).filter(
+    (id): id is number => typeof id === "number",
+  );
+  newItem.setField("extra", "");
+  newItem.setCollections(collectionIDs);
+
+  for (const tag of target.tags ?? []) {
+    if (typeof tag === "string" && tag.trim()) {
+      newItem.addTag(tag.trim());
+    }
+  }
+
+  await setInspireMeta(newItem, meta, "full");
+  await saveItemWithPendingInspireNote(newItem);
+
+  if (target.note) {
+    const note = new Zotero.Item("note");
+    note.setNote(target.note);
+    note.parentID = newItem.id;
+    note.libraryID = newItem.libraryID;
+    await note.saveTx();
+  }
+  return newItem;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -2345,6 +2819,7 @@ export async function setInspireMeta(
         extra,
         metaInspire.citation_count,
         metaInspire.citation_count_wo_self_citations,
+        item,
       );
 
       await queueOrUpsertInspireNote(item, metaInspire.note);
@@ -2379,6 +2854,7 @@ export async function setInspireMeta(
         extra,
         metaInspire.citation_count,
         metaInspire.citation_count_wo_self_citations,
+        item,
       );
     }
     extra = extra.replace(/\n\n/gm, "\n");
@@ -2604,6 +3080,7 @@ export async function setInspireMetaSelective(
           extra,
           metaInspire.citation_count,
           metaInspire.citation_count_wo_self_citations,
+          item,
         );
       }
 
@@ -2653,6 +3130,7 @@ export async function setInspireMetaSelective(
         extra,
         metaInspire.citation_count,
         metaInspire.citation_count_wo_self_citations,
+        item,
       );
     }
 
@@ -2696,9 +3174,22 @@ async function flushPendingInspireNote(item: Zotero.Item) {
 
 export async function saveItemWithPendingInspireNote(item: Zotero.Item) {
   await item.saveTx();
+  emitPendingCitationsEvent(item);
   await flushPendingInspireNote(item);
 }
 
+/**
+ * Emit the `citations_changed` event queued by the last citation count update.
+ * Call once the item has been saved.
+ */
+export function emitPendingCitationsEvent(item: Zotero.Item) {
+  const itemWithPending = item as ItemWithPendingCitationsEvent;
+  const data = itemWithPending._zinspirePendingCitationsEvent;
+  if (!data) return;
+  delete itemWithPending._zinspirePendingCitationsEvent;
+  emitLibraryEvent("citations_changed", item, data);
+}
+
 async function upsertInspireNote(item: Zotero.Item, noteText: string) {
   if (!item.id) {
     return;
@@ -2814,6 +3305,13 @@ export async function setCrossRefCitations(item: Zotero.Item): Promise<number> {
   let extra = item.getField("extra");
   let count_crossref = await getCrossrefCount(item);
   if (count_crossref >= 0) {
+    const historyKey = getCitationHistoryKey(
+      deriveRecidFromItem(item),
+      item.getField("DOI") as string,
+    );
+    if (historyKey) {
+      void recordCitationSample(historyKey, count_crossref, null, "CrossRef");
+    }
     extra = setExtraCitations(extra, "CrossRef", count_crossref) as string;
     extra = extra.replace(/\n\n/gm, "\n");
     extra = reorderExtraFields(extra);
@@ -2825,6 +3323,26 @@ export async function setCrossRefCitations(item: Zotero.Item): Promise<number> {
   return count_crossref;
 }
 
+/**
+ * Write fetched INSPIRE citation counts into the item's Extra (same format as
+ * a "Citation counts only" update). Does not save the item; call
+ * emitPendingCitationsEvent after saving it.
+ * @returns true if Extra changed
+ */
+export function applyInspireCitationCounts(
+  item: Zotero.Item,
+  citationCount: number,
+  citationCountWoSelf: number,
+): boolean {
+  const before = item.getField("extra") as string;
+  let extra = setCitations(before, citationCount, citationCountWoSelf, item);
+  if (extra === before) return false;
+  extra = reorderExtraFields(extra.replace(/\n\n/gm, "\n"));
+  if (extra === before) return false;
+  item.setField("extra", extra);
+  return true;
+}
+
 function reorderExtraFields(extra: string): string {
   const order_pref = getPref("extra_order");
 
@@ -2851,13 +3369,35 @@ function reorderExtraFields(extra: string): string {
   return reordered.join("\n");
 }
 
+/**
+ * Write the INSPIRE citation lines at the top of Extra. When `item` is given,
+ * the counts are sampled into the citation history, and a `citations_changed`
+ * library event is queued on the item if they differ from the ones already
+ * there; it is emitted once the item is saved (emitPendingCitationsEvent).
+ */
 function setCitations(
   extra: string,
   citation_count: number,
   citation_count_wo_self_citations: number,
+  item?: Zotero.Item,
 ): string {
   const today = new Date(Date.now()).toLocaleDateString("zh-CN");
 
+  if (item) {
+    const historyKey = getCitationHistoryKey(
+      deriveRecidFromItem(item),
+      item.getField("DOI") as string,
+    );
+    if (historyKey) {
+      void recordCitationSample(
+        historyKey,
+        citation_count,
+        citation_count_wo_self_citations,
+        "INSPIRE",
+      );
+    }
+  }
+
   const topLinesMatch = extra.match(
     /^(\d+)\scitations\s\(INSPIRE\s[\d/-]+\)\n(\d+)\scitations\sw\/o\sself\s\(INSPIRE\s[\d/-]+\)\n/,
   );
@@ -2875,12 +3415,30 @@ function setCitations(
 
   const temp = extra.match(/^\d+\scitations/gm);
   let existingCitations: number[] = [0, 0];
-  if (temp !== null && temp.length >= 2) {
+  const hasExistingCitations = temp !== null && temp.length >= 2;
+  if (hasExistingCitations) {
     existingCitations = temp.map((e: any) =>
       Number(e.replace(" citations", "")),
     );
   }
 
+  if (
+    item &&
+    (!hasExistingCitations ||
+      citation_count !== existingCitations[0] ||
+      citation_count_wo_self_citations !== existingCitations[1])
+  ) {
+    (item as ItemWithPendingCitationsEvent)._zinspirePendingCitationsEvent = {
+      recid: deriveRecidFromItem(item),
+      citations: citation_count,
+      citations_wo_self: citation_count_wo_self_citations,
+      previous_citations: hasExistingCitations ? existingCitations[0] : null,
+      previous_citations_wo_self: hasExistingCitations
+        ? existingCitations[1]
+        : null,
+    };
+  }
+
   const dateMatch = extra.match(/INSPIRE\s([\d/-]+)/);
   const existingDate = dateMatch ? dateMatch[1] : today;
 
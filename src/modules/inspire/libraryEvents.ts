@@ -0,0 +1,158 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Library Events
+// In-memory stream of INSPIRE-related library changes (preprint published,
+// citation counts changed, item got a recid) for local subscribers. Consumed
+// by the long-poll connector endpoint in connectorEventsApi.ts.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LIBRARY_EVENT_TYPES = [
+  "preprint_published",
+  "citations_changed",
+  "recid_assigned",
+] as const;
+export type LibraryEventType = (typeof LIBRARY_EVENT_TYPES)[number];
+
+export interface LibraryEvent {
+  /** Monotonic within one stream (one Zotero session) */
+  id: number;
+  type: LibraryEventType;
+  time: string;
+  library_id?: number;
+  item_key?: string;
+  data: Record<string, unknown>;
+}
+
+export interface LibraryEventPage {
+  events: LibraryEvent[];
+  /** Pass back as `since` to continue after the last returned event */
+  cursor: number;
+  /** Events between `since` and the oldest buffered one were dropped */
+  missed: boolean;
+}
+
+/** Oldest events are dropped beyond this; slow subscribers see `missed`. */
+const MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * Identifies this stream. Event ids restart at 1 after a Zotero restart, so a
+ * subscriber whose stream id no longer matches must reset its cursor.
+ */
+export const LIBRARY_EVENT_STREAM_ID = `${Date.now().toString(36)}${Math.random()
+  .toString(36)
+  .slice(2, 8)}`;
+
+const buffer: LibraryEvent[] = [];
+let lastEventId = 0;
+/** Pending long-polls; called with `true` to end the wait with no events. */
+const waiters = new Set<(release?: boolean) => void>();
+
+export function isLibraryEventType(value: string): value is LibraryEventType {
+  return (LIBRARY_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/** Append an event and wake pending long-poll requests. */
+export function emitLibraryEvent(
+  type: LibraryEventType,
+  item: Pick<Zotero.Item, "libraryID" | "key"> | null,
+  data: Record<string, unknown> = {},
+): LibraryEvent {
+  const event: LibraryEvent = {
+    id: ++lastEventId,
+    type,
+    time: new Date().toISOString(),
+    data,
+  };
+  if (item) {
+    event.library_id = item.libraryID;
+    event.item_key = item.key;
+  }
+  buffer.push(event);
+  if (buffer.length > MAX_BUFFERED_EVENTS) {
+    buffer.splice(0, buffer.length - MAX_BUFFERED_EVENTS);
+  }
+  for (const wake of [...waiters]) {
+    wake();
+  }
+  return event;
+}
+
+export function getLatestLibraryEventId(): number {
+  return lastEventId;
+}
+
+/** Buffered events after `since`, optionally filtered by type. */
+export function getLibraryEventsSince(
+  since: number,
+  types?: readonly LibraryEventType[],
+  limit = 100,
+): LibraryEventPage {
+  const oldest = buffer.length ? buffer[0].id : lastEventId + 1;
+  const missed = since + 1 < oldest;
+  const events: LibraryEvent[] = [];
+  let cursor = since;
+  for (const event of buffer) {
+    if (event.id <= since) continue;
+    if (events.length >= limit) break;
+    cursor = event.id;
+    if (!types?.length || types.includes(event.type)) {
+      events.push(event);
+    }
+  }
+  return { events, cursor, missed };
+}
+
+/**
+ * Long-poll: resolve as soon as matching events after `since` exist, or with
+ * an empty page after `timeoutMs`.
+ */
+export async function waitForLibraryEvents(
+  since: number,
+  timeoutMs: number,
+  types?: readonly LibraryEventType[],
+  limit = 100,
+): Promise<LibraryEventPage> {
+  const page = getLibraryEventsSince(since, types, limit);
+  if (page.events.length || timeoutMs <= 0) {
+    return page;
+  }
+  return new Promise<LibraryEventPage>((resolve) => {
+    let cursor = page.cursor;
+    let missed = page.missed;
+    const finish = (result: LibraryEventPage) => {
+      clearTimeout(timer);
+      waiters.delete(onEvent);
+      resolve(result);
+    };
+    const onEvent = (release?: boolean) => {
+      if (release) {
+        finish({ events: [], cursor, missed });
+        return;
+      }
+      const next = getLibraryEventsSince(cursor, types, limit);
+      missed = missed || next.missed;
+      cursor = next.cursor;
+      if (next.events.length) {
+        finish({ ...next, missed });
+      }
+    };
+    const timer = setTimeout(
+      () => finish({ events: [], cursor, missed }),
+      timeoutMs,
+    );
+    waiters.add(onEvent);
+  });
+}
+
+/** Number of long-poll requests currently waiting. */
+export function getLibraryEventWaiterCount(): number {
+  return waiters.size;
+}
+
+/** Drop buffered events and answer pending long-polls (shutdown, tests). */
+export function resetLibraryEvents(): void {
+  for (const release of [...waiters]) {
+    release(true);
+  }
+  buffer.length = 0;
+  lastEventId = 0;
+}
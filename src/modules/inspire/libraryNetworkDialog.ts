@@ -0,0 +1,479 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Library Network Dialog - "Map of my reading list"
+// Citations among the items of one collection: a force-directed graph with
+// isolated items gathered in a highlighted strip, next to a ranking of the
+// items by PageRank within the collection. Clicking a paper selects it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { getString } from "../../utils/locale";
+import { computeForceLayout, type LayoutPoint } from "./citationGraphLayout";
+import {
+  collectLibraryNetworkItems,
+  loadLibraryNetwork,
+  type LibraryNetwork,
+  type LibraryNetworkNode,
+} from "./libraryNetworkService";
+import { createAbortController } from "./utils";
+
+const OVERLAY_ID = "zinspire-library-network-overlay";
+const SVG_NS = "http://www.w3.org/2000/svg";
+const GRAPH_WIDTH = 800;
+const GRAPH_HEIGHT = 600;
+const NODE_COLOR = "#0066cc";
+const ISOLATED_COLOR = "#d97706";
+const EDGE_COLOR = "rgba(100, 116, 139, 0.45)";
+const ISOLATED_SPACING = 16;
+/** Nodes labelled on the canvas (highest PageRank first). */
+const LABELLED_NODES = 12;
+
+function styleButton(button: HTMLButtonElement, primary = false) {
+  button.style.padding = "6px 12px";
+  button.style.border = primary
+    ? "none"
+    : "1px solid var(--fill-quinary, #ccc)";
+  button.style.borderRadius = "4px";
+  button.style.background = primary
+    ? "#0066cc"
+    : "var(--material-background, #fff)";
+  button.style.color = primary ? "#fff" : "inherit";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+}
+
+function nodeMeta(node: LibraryNetworkNode): string {
+  const parts = [node.authorLabel, node.year].filter(Boolean);
+  parts.push(
+    getString("library-network-cited-by", { args: { count: node.citedBy } }),
+    getString("library-network-cites", { args: { count: node.references } }),
+  );
+  return parts.join(" · ");
+}
+
+/** Node positions: connected items by force layout, isolated ones in rows below. */
+function layoutNetwork(network: LibraryNetwork): {
+  positions: Map<string, LayoutPoint>;
+  stripTop: number;
+  height: number;
+} {
+  const connected = network.nodes.filter((node) => !node.isolated);
+  const isolated = network.nodes.filter((node) => node.isolated);
+  const perRow = Math.floor((GRAPH_WIDTH - 40) / ISOLATED_SPACING);
+  const rows = Math.ceil(isolated.length / perRow);
+  const stripHeight = rows ? rows * ISOLATED_SPACING + 28 : 0;
+  const stripTop = connected.length
+    ? Math.max(200, GRAPH_HEIGHT - stripHeight)
+    : 0;
+
+  const positions = computeForceLayout(
+    connected.map((node) => ({ id: node.recid })),
+    network.edges,
+    { width: GRAPH_WIDTH, height: stripTop, padding: 30 },
+  );
+  isolated.forEach((node, i) => {
+    positions.set(node.recid, {
+      x: 20 + ISOLATED_SPACING / 2 + (i % perRow) * ISOLATED_SPACING,
+      y: stripTop + 24 + Math.floor(i / perRow) * ISOLATED_SPACING,
+    });
+  });
+  return { positions, stripTop, height: stripTop + stripHeight };
+}
+
+/**
+ * Show the citation network among the items of `collection`.
+ * Resolves when the dialog is closed.
+ */
+export function showLibraryNetworkDialog(
+  win: Window,
+  collection: Zotero.Collection,
+): Promise<void> {
+  return new Promise((resolve) => {
+    const doc = win.document;
+    doc.getElementById(OVERLAY_ID)?.remove();
+
+    const abort = createAbortController();
+    let network: LibraryNetwork | undefined;
+    const circleByRecid = new Map<string, SVGCircleElement>();
+    const rowByRecid = new Map<string, HTMLDivElement>();
+    let selectedRecid: string | undefined;
+
+    // Create overlay
+    const overlay = doc.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.position = "fixed";
+    overlay.style.top = "0";
+    overlay.style.left = "0";
+    overlay.style.width = "100%";
+    overlay.style.height = "100%";
+    overlay.style.zIndex = "10000";
+    overlay.style.backgroundColor = "rgba(0, 0, 0, 0.4)";
+    overlay.style.display = "flex";
+    overlay.style.alignItems = "center";
+    overlay.style.justifyContent = "center";
+
+    // Create panel
+    const panel = doc.createElement("div");
+    panel.style.backgroundColor = "var(--material-background, #fff)";
+    panel.style.color = "var(--fill-primary, #000)";
+    panel.style.border = "1px solid var(--fill-quinary, #ccc)";
+    panel.style.borderRadius = "8px";
+    panel.style.boxShadow = "0 4px 24px rgba(0, 0, 0, 0.25)";
+    panel.style.display = "flex";
+    panel.style.flexDirection = "column";
+    panel.style.fontSize = "13px";
+    panel.style.maxWidth = "1200px";
+    panel.style.width = "94%";
+    panel.style.height = "88vh";
+    panel.style.overflow = "hidden";
+    overlay.appendChild(panel);
+
+    // Header
+    const header = doc.createElement("div");
+    header.style.padding = "12px 16px";
+    header.style.borderBottom = "1px solid var(--fill-quinary, #eee)";
+    header.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    header.style.borderRadius = "8px 8px 0 0";
+    const heading = doc.createElement("div");
+    heading.style.fontWeight = "600";
+    heading.style.fontSize = "14px";
+    heading.textContent = `🕸 ${getString("library-network-title")} — ${collection.name}`;
+    header.appendChild(heading);
+    const subheading = doc.createElement("div");
+    subheading.style.fontSize = "12px";
+    subheading.style.color = "var(--fill-secondary, #666)";
+    header.appendChild(subheading);
+    panel.appendChild(header);
+
+    // Graph (left) and ranking (right)
+    const body = doc.createElement("div");
+    body.style.flex = "1";
+    body.style.display = "flex";
+    body.style.minHeight = "0";
+    panel.appendChild(body);
+
+    const graphPane = doc.createElement("div");
+    graphPane.style.flex = "1";
+    graphPane.style.minWidth = "0";
+    graphPane.style.display = "flex";
+    graphPane.style.alignItems = "center";
+    graphPane.style.justifyContent = "center";
+    graphPane.style.padding = "8px";
+    graphPane.style.color = "var(--fill-secondary, #666)";
+    body.appendChild(graphPane);
+
+    const rankingPane = doc.createElement("div");
+    rankingPane.style.width = "340px";
+    rankingPane.style.flexShrink = "0";
+    rankingPane.style.overflowY = "auto";
+    rankingPane.style.borderLeft = "1px solid var(--fill-quinary, #eee)";
+    rankingPane.style.padding = "8px 12px";
+    body.appendChild(rankingPane);
+
+    // Actions bar
+    const actions = doc.createElement("div");
+    actions.style.padding = "12px 16px";
+    actions.style.display = "flex";
+    actions.style.alignItems = "center";
+    actions.style.gap = "8px";
+    actions.style.borderTop = "1px solid var(--fill-quinary, #eee)";
+    actions.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    actions.style.borderRadius = "0 0 8px 8px";
+
+    const status = doc.createElement("span");
+    status.style.flex = "1";
+    status.style.fontSize = "12px";
+    status.style.color = "var(--fill-secondary, #666)";
+    actions.appendChild(status);
+
+    const selectIsolatedBtn = doc.createElement("button");
+    selectIsolatedBtn.textContent = getString(
+      "library-network-select-isolated",
+    );
+    styleButton(selectIsolatedBtn);
+    selectIsolatedBtn.disabled = true;
+    actions.appendChild(selectIsolatedBtn);
+    const closeBtn = doc.createElement("button");
+    closeBtn.textContent = getString("library-network-close");
+    styleButton(closeBtn, true);
+    actions.appendChild(closeBtn);
+    panel.appendChild(actions);
+
+    const selectNode = (recid: string) => {
+      const node = network?.nodes.find((n) => n.recid === recid);
+      if (!node) return;
+      const previous = selectedRecid && circleByRecid.get(selectedRecid);
+      if (previous) previous.setAttribute("stroke-width", "1");
+      const previousRow = selectedRecid && rowByRecid.get(selectedRecid);
+      if (previousRow) previousRow.style.backgroundColor = "";
+      selectedRecid = recid;
+      circleByRecid.get(recid)?.setAttribute("stroke-width", "3");
+      const row = rowByRecid.get(recid);
+      if (row) {
+        row.style.backgroundColor = "var(--fill-quinary, #eef2ff)";
+        row.scrollIntoView({ block: "nearest" });
+      }
+      void Zotero.getActiveZoteroPane()?.selectItem(node.itemID);
+    };
+
+    const renderGraph = (net: LibraryNetwork) => {
+      const { positions, stripTop, height } = layoutNetwork(net);
+      const maxRank = Math.max(...net.nodes.map((n) => n.pageRank), 1e-9);
+      const radiusOf = (node: LibraryNetworkNode) =>
+        4 + 10 * Math.sqrt(node.pageRank / maxRank);
+
+      const svg = doc.createElementNS(SVG_NS, "svg");
+      svg.setAttribute("viewBox", `0 0 ${GRAPH_WIDTH} ${height}`);
+      svg.setAttribute("preserveAspectRatio", "xMidYMid meet");
+      svg.style.width = "100%";
+      svg.style.height = "100%";
+
+      const defs = doc.createElementNS(SVG_NS, "defs");
+      const marker = doc.createElementNS(SVG_NS, "marker");
+      marker.setAttribute("id", `${OVERLAY_ID}-arrow`);
+      marker.setAttribute("viewBox", "0 0 10 10");
+      marker.setAttribute("refX", "10");
+      marker.setAttribute("refY", "5");
+      marker.setAttribute("markerWidth", "6");
+      marker.setAttribute("markerHeight", "6");
+      marker.setAttribute("orient", "auto");
+      const arrow = doc.createElementNS(SVG_NS, "path");
+      arrow.setAttribute("d", "M 0 0 L 10 5 L 0 10 z");
+      arrow.setAttribute("fill", EDGE_COLOR);
+      marker.appendChild(arrow);
+      defs.appendChild(marker);
+      svg.appendChild(defs);
+
+      const nodeByRecid = new Map(net.nodes.map((n) => [n.recid, n] as const));
+      for (const edge of net.edges) {
+        const source = positions.get(edge.source);
+        const target = positions.get(edge.target);
+        const targetNode = nodeByRecid.get(edge.target);
+        if (!source || !target || !targetNode) continue;
+        const dx = target.x - source.x;
+        const dy = target.y - source.y;
+        const len = Math.max(1, Math.hypot(dx, dy));
+        const r = radiusOf(targetNode) + 1;
+        const line = doc.createElementNS(SVG_NS, "line");
+        line.setAttribute("x1", String(source.x));
+        line.setAttribute("y1", String(source.y));
+        line.setAttribute("x2", String(target.x - (dx / len) * r));
+        line.setAttribute("y2", String(target.y - (dy / len) * r));
+        line.setAttribute("stroke", EDGE_COLOR);
+        line.setAttribute("stroke-width", "1");
+        line.setAttribute("marker-end", `url(#${OVERLAY_ID}-arrow)`);
+        svg.appendChild(line);
+      }
+
+      const isolatedCount = net.nodes.filter((n) => n.isolated).length;
+      if (isolatedCount) {
+        const strip = doc.createElementNS(SVG_NS, "rect");
+        strip.setAttribute("x", "10");
+        strip.setAttribute("y", String(stripTop));
+        strip.setAttribute("width", String(GRAPH_WIDTH - 20));
+        strip.setAttribute("height", String(height - stripTop - 4));
+        strip.setAttribute("rx", "6");
+        strip.setAttribute("fill", "rgba(217, 119, 6, 0.08)");
+        strip.setAttribute("stroke", ISOLATED_COLOR);
+        strip.setAttribute("stroke-dasharray", "4 3");
+        svg.appendChild(strip);
+        const stripLabel = doc.createElementNS(SVG_NS, "text");
+        stripLabel.textContent = getString("library-network-isolated-count", {
+          args: { count: isolatedCount },
+        });
+        stripLabel.setAttribute("x", "20");
+        stripLabel.setAttribute("y", String(stripTop + 13));
+        stripLabel.setAttribute("fill", ISOLATED_COLOR);
+        stripLabel.setAttribute("font-size", "11");
+        stripLabel.setAttribute("font-weight", "600");
+        svg.appendChild(stripLabel);
+      }
+
+      for (const node of net.nodes) {
+        const pos = positions.get(node.recid);
+        if (!pos) continue;
+        const circle = doc.createElementNS(SVG_NS, "circle");
+        circle.setAttribute("cx", String(pos.x));
+        circle.setAttribute("cy", String(pos.y));
+        circle.setAttribute("r", String(node.isolated ? 5 : radiusOf(node)));
+        circle.setAttribute(
+          "fill",
+          node.isolated ? ISOLATED_COLOR : NODE_COLOR,
+        );
+        circle.setAttribute("fill-opacity", "0.8");
+        circle.setAttribute("stroke", "var(--fill-primary, #000)");
+        circle.setAttribute("stroke-width", "1");
+        if (!node.referencesLoaded) {
+          circle.setAttribute("stroke-dasharray", "2 2");
+        }
+        circle.style.cursor = "pointer";
+        const tooltip = doc.createElementNS(SVG_NS, "title");
+        tooltip.textContent = `#${node.rank} ${node.title}\n${nodeMeta(node)}`;
+        circle.appendChild(tooltip);
+        circle.addEventListener("click", () => selectNode(node.recid));
+        circleByRecid.set(node.recid, circle);
+        svg.appendChild(circle);
+
+        if (!node.isolated && node.rank <= LABELLED_NODES) {
+          const label = doc.createElementNS(SVG_NS, "text");
+          label.textContent =
+            [node.authorLabel, node.year].filter(Boolean).join(" ") ||
+            node.recid;
+          label.setAttribute("x", String(pos.x));
+          label.setAttribute("y", String(pos.y - radiusOf(node) - 4));
+          label.setAttribute("text-anchor", "middle");
+          label.setAttribute("font-size", "10");
+          label.setAttribute("fill", "var(--fill-primary, #000)");
+          label.style.pointerEvents = "none";
+          svg.appendChild(label);
+        }
+      }
+
+      graphPane.replaceChildren(svg);
+    };
+
+    const renderRanking = (net: LibraryNetwork) => {
+      rankingPane.replaceChildren();
+      const title = doc.createElement("div");
+      title.style.fontWeight = "600";
+      title.style.marginBottom = "6px";
+      title.textContent = getString("library-network-ranking");
+      rankingPane.appendChild(title);
+
+      for (const node of net.nodes) {
+        const row = doc.createElement("div");
+        row.style.display = "flex";
+        row.style.gap = "6px";
+        row.style.padding = "4px";
+        row.style.borderRadius = "4px";
+        row.style.cursor = "pointer";
+        row.addEventListener("click", () => selectNode(node.recid));
+
+        const rank = doc.createElement("span");
+        rank.style.minWidth = "28px";
+        rank.style.textAlign = "right";
+        rank.style.fontVariantNumeric = "tabular-nums";
+        rank.style.color = node.isolated
+          ? ISOLATED_COLOR
+          : "var(--fill-secondary, #666)";
+        rank.textContent = `${node.rank}.`;
+
+        const text = doc.createElement("div");
+        text.style.minWidth = "0";
+        text.style.flex = "1";
+        const titleEl = doc.createElement("div");
+        titleEl.style.overflow = "hidden";
+        titleEl.style.textOverflow = "ellipsis";
+        titleEl.style.whiteSpace = "nowrap";
+        titleEl.style.fontSize = "12px";
+        titleEl.textContent = node.title;
+        titleEl.title = node.title;
+        const meta = doc.createElement("div");
+        meta.style.fontSize = "11px";
+        meta.style.color = "var(--fill-secondary, #888)";
+        const notes = [nodeMeta(node)];
+        if (node.isolated) notes.push(getString("library-network-isolated"));
+        if (!node.referencesLoaded) {
+          notes.push(getString("library-network-refs-missing"));
+        }
+        meta.textContent = notes.join(" · ");
+        if (node.isolated) meta.style.color = ISOLATED_COLOR;
+        text.append(titleEl, meta);
+
+        const score = doc.createElement("span");
+        score.style.fontSize = "11px";
+        score.style.fontVariantNumeric = "tabular-nums";
+        score.style.color = "var(--fill-secondary, #666)";
+        score.textContent = node.pageRank.toFixed(3);
+        score.title = "PageRank";
+
+        row.append(rank, text, score);
+        rowByRecid.set(node.recid, row);
+        rankingPane.appendChild(row);
+      }
+    };
+
+    selectIsolatedBtn.addEventListener("click", () => {
+      const ids = (network?.nodes ?? [])
+        .filter((node) => node.isolated)
+        .map((node) => node.itemID);
+      if (ids.length) void Zotero.getActiveZoteroPane()?.selectItems(ids);
+    });
+
+    // Add to document
+    doc.documentElement.appendChild(overlay);
+
+    let isFinished = false;
+
+    const finish = () => {
+      if (isFinished) return;
+      isFinished = true;
+      abort?.abort();
+      overlay.remove();
+      doc.removeEventListener("keydown", onKeyDown, true);
+      resolve();
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        event.stopPropagation();
+        finish();
+      }
+    };
+
+    closeBtn.addEventListener("click", finish);
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) finish();
+    });
+    doc.addEventListener("keydown", onKeyDown, true);
+
+    const { items, truncated } = collectLibraryNetworkItems(
+      collection.getChildItems(),
+    );
+    if (truncated) {
+      subheading.textContent = getString("library-network-truncated", {
+        args: { count: items.length },
+      });
+    }
+    if (!items.length) {
+      graphPane.textContent = getString("library-network-no-items");
+      return;
+    }
+
+    graphPane.textContent = getString("library-network-loading", {
+      args: { done: 0, total: items.length },
+    });
+    loadLibraryNetwork(items, {
+      signal: abort?.signal,
+      truncated,
+      onProgress: (done, total) => {
+        if (isFinished) return;
+        status.textContent = getString("library-network-loading", {
+          args: { done, total },
+        });
+      },
+    })
+      .then((result) => {
+        if (isFinished) return;
+        network = result;
+        const isolated = result.nodes.filter((n) => n.isolated).length;
+        status.textContent = getString("library-network-summary", {
+          args: {
+            items: result.nodes.length,
+            citations: result.edges.length,
+            isolated,
+          },
+        });
+        selectIsolatedBtn.disabled = isolated === 0;
+        renderGraph(result);
+        renderRanking(result);
+      })
+      .catch((err) => {
+        if ((err as Error)?.name === "AbortError") return;
+        Zotero.debug(
+          `[${config.addonName}] Library network failed to load: ${err}`,
+        );
+        graphPane.textContent = getString("library-network-failed");
+      });
+  });
+}
@@ -0,0 +1,279 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// libraryNetworkService.ts - Citation network among the items of a collection
+// Reads each item's INSPIRE reference list (local cache first), keeps the
+// references that point at other items of the same collection, and ranks the
+// items by PageRank over those in-collection citations.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { deriveRecidFromItem } from "./apiUtils";
+import {
+  LIBRARY_NETWORK_FETCH_CONCURRENCY,
+  LIBRARY_NETWORK_MAX_ITEMS,
+} from "./constants";
+import { localCache } from "./localCache";
+import {
+  enrichReferencesEntries,
+  fetchReferencesEntries,
+} from "./referencesService";
+import type { InspireReferenceEntry } from "./types";
+
+export interface LibraryNetworkItem {
+  itemID: number;
+  recid: string;
+  title: string;
+  year?: string;
+  authorLabel?: string;
+}
+
+export interface LibraryNetworkNode extends LibraryNetworkItem {
+  /** Collection items this item cites. */
+  references: number;
+  /** Collection items citing this item. */
+  citedBy: number;
+  pageRank: number;
+  /** 1-based position by PageRank. */
+  rank: number;
+  /** No citation to or from another item of the collection. */
+  isolated: boolean;
+  /** False when the reference list could not be read (offline, not found). */
+  referencesLoaded: boolean;
+}
+
+export interface LibraryNetwork {
+  /** Ordered by PageRank, highest first. */
+  nodes: LibraryNetworkNode[];
+  /** `source` cites `target`. */
+  edges: Array<{ source: string; target: string }>;
+  /** Items left out because the collection exceeds the item limit. */
+  truncated: number;
+}
+
+/**
+ * Items of a collection that have an INSPIRE recid, one per recid, in
+ * collection order and capped at `LIBRARY_NETWORK_MAX_ITEMS`.
+ */
+export function collectLibraryNetworkItems(items: Zotero.Item[]): {
+  items: LibraryNetworkItem[];
+  truncated: number;
+} {
+  const result: LibraryNetworkItem[] = [];
+  const seen = new Set<string>();
+  let truncated = 0;
+  for (const item of items) {
+    if (!item?.isRegularItem()) continue;
+    const recid = deriveRecidFromItem(item);
+    if (!recid || seen.has(recid)) continue;
+    seen.add(recid);
+    if (result.length >= LIBRARY_NETWORK_MAX_ITEMS) {
+      truncated++;
+      continue;
+    }
+    const date = String(item.getField("date") || "");
+    const creator = item.getCreators()[0];
+    const lastName = creator?.lastName || "";
+    result.push({
+      itemID: item.id,
+      recid,
+      title: String(item.getField("title") || "") || recid,
+      year: /\d{4}/.exec(date)?.[0],
+      authorLabel: lastName
+        ? item.getCreators().length > 1
+          ? `${lastName} et al.`
+          : lastName
+        : undefined,
+    });
+  }
+  return { items: result, truncated };
+}
+
+/**
+ * PageRank by power iteration. Nodes without outgoing edges spread their rank
+ * evenly, so the scores always sum to 1.
+ */
+export function computePageRank(
+  nodeIds: string[],
+  edges: Array<{ source: string; target: string }>,
+  options: {
+    damping?: number;
+    maxIterations?: number;
+    tolerance?: number;
+  } = {},
+): Map<string, number> {
+  const damping = options.damping ?? 0.85;
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-10;
+  const n = nodeIds.length;
+  const ranks = new Map<string, number>();
+  if (!n) return ranks;
+
+  const index = new Map(nodeIds.map((id, i) => [id, i] as const));
+  const outLinks: number[][] = nodeIds.map(() => []);
+  for (const edge of edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    if (!outLinks[a].includes(b)) outLinks[a].push(b);
+  }
+
+  let rank = new Float64Array(n).fill(1 / n);
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let danglingSum = 0;
+    for (let i = 0; i < n; i++) {
+      if (!outLinks[i].length) danglingSum += rank[i];
+    }
+    const next = new Float64Array(n).fill(
+      (1 - damping) / n + (damping * danglingSum) / n,
+    );
+    for (let i = 0; i < n; i++) {
+      const links = outLinks[i];
+      if (!links.length) continue;
+      const share = (damping * rank[i]) / links.length;
+      for (const j of links) next[j] += share;
+    }
+    let delta = 0;
+    for (let i = 0; i < n; i++) delta += Math.abs(next[i] - rank[i]);
+    rank = next;
+    if (delta < tolerance) break;
+  }
+
+  nodeIds.forEach((id, i) => ranks.set(id, rank[i]));
+  return ranks;
+}
+
+/**
+ * Network of `items` from the reference recids of each item. Items missing
+ * from `referencesByRecid` count as not loaded; they can still be cited.
+ */
+export function buildLibraryNetwork(
+  items: LibraryNetworkItem[],
+  referencesByRecid: Map<string, string[]>,
+  truncated = 0,
+): LibraryNetwork {
+  const recids = new Set(items.map((item) => item.recid));
+  const edges: LibraryNetwork["edges"] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    for (const target of referencesByRecid.get(item.recid) ?? []) {
+      if (target === item.recid || !recids.has(target)) continue;
+      const key = `${item.recid}->${target}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ source: item.recid, target });
+    }
+  }
+
+  const references = new Map<string, number>();
+  const citedBy = new Map<string, number>();
+  for (const edge of edges) {
+    references.set(edge.source, (references.get(edge.source) ?? 0) + 1);
+    citedBy.set(edge.target, (citedBy.get(edge.target) ?? 0) + 1);
+  }
+  const pageRank = computePageRank(
+    items.map((item) => item.recid),
+    edges,
+  );
+
+  const nodes = items
+    .map((item) => {
+      const refs = references.get(item.recid) ?? 0;
+      const cites = citedBy.get(item.recid) ?? 0;
+      return {
+        ...item,
+        references: refs,
+        citedBy: cites,
+        pageRank: pageRank.get(item.recid) ?? 0,
+        rank: 0,
+        isolated: refs + cites === 0,
+        referencesLoaded: referencesByRecid.has(item.recid),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.pageRank - a.pageRank ||
+        b.citedBy - a.citedBy ||
+        a.title.localeCompare(b.title),
+    );
+  nodes.forEach((node, i) => (node.rank = i + 1));
+  return { nodes, edges, truncated };
+}
+
+function toRecids(entries: InspireReferenceEntry[]): string[] {
+  return entries
+    .map((e) => e.recid?.trim())
+    .filter((recid): recid is string => !!recid);
+}
+
+/**
+ * Load the reference lists of `items` (cached lists first, then INSPIRE with
+ * limited concurrency) and build their citation network. Fetched lists are
+ * enriched and cached in the background; the network only needs the recids.
+ */
+export async function loadLibraryNetwork(
+  items: LibraryNetworkItem[],
+  options: {
+    signal?: AbortSignal;
+    truncated?: number;
+    onProgress?: (done: number, total: number) => void;
+  } = {},
+): Promise<LibraryNetwork> {
+  const { signal, onProgress } = options;
+  const referencesByRecid = new Map<string, string[]>();
+  const pending: string[] = [];
+  let done = 0;
+
+  for (const { recid } of items) {
+    if (signal?.aborted) break;
+    const cached = await localCache
+      .get<InspireReferenceEntry[]>("refs", recid, undefined, {
+        ignoreTTL: true,
+      })
+      .catch(() => null);
+    if (cached?.data) {
+      referencesByRecid.set(recid, toRecids(cached.data));
+      done++;
+    } else {
+      pending.push(recid);
+    }
+  }
+  onProgress?.(done, items.length);
+
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(LIBRARY_NETWORK_FETCH_CONCURRENCY, pending.length) },
+    async () => {
+      while (!signal?.aborted && next < pending.length) {
+        const recid = pending[next++];
+        const entries = await fetchReferencesEntries(recid, { signal }).catch(
+          () => null,
+        );
+        if (entries && !signal?.aborted) {
+          referencesByRecid.set(recid, toRecids(entries));
+          // The panel reads cached references as complete, so they are
+          // enriched first, as when downloading the references cache
+          void enrichReferencesEntries(entries, {
+            signal,
+            requestPriority: "background",
+          })
+            .then(() => {
+              if (signal?.aborted) return;
+              return localCache.set(
+                "refs",
+                recid,
+                entries,
+                undefined,
+                entries.length,
+              );
+            })
+            .catch(() => undefined);
+        }
+        onProgress?.(++done, items.length);
+      }
+    },
+  );
+  await Promise.all(workers);
+  if (signal?.aborted) {
+    throw new DOMException("Library network load aborted", "AbortError");
+  }
+
+  return buildLibraryNetwork(items, referencesByRecid, options.truncated);
+}
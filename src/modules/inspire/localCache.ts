@@ -2,11 +2,15 @@
 // Local Cache Service - Persistent storage for INSPIRE data
 // Uses IOUtils and PathUtils (Firefox 115 / Zotero 7)
 // Supports gzip compression via pako library
+// Two backends: a single indexed pack file (default, see cachePackStore.ts) or
+// one JSON file per entry. Per-entry files left from the old layout are moved
+// into the pack in the background.
 // ─────────────────────────────────────────────────────────────────────────────
 
 import * as pako from "pako";
 import { config } from "../../../package.json";
 import { getPref } from "../../utils/prefs";
+import { CachePackStore } from "./cachePackStore";
 import type {
   InspireReferenceEntry,
   LocalCacheFile,
@@ -34,6 +38,72 @@ const WRITE_DEBOUNCE_MS = 500;
 // Compression settings
 const COMPRESSED_EXT = ".json.gz"; // Extension for gzip compressed files
 
+// Pack backend: default size limit before LRU eviction, legacy files moved per batch
+const DEFAULT_MAX_SIZE_MB = 512;
+const MIGRATION_BATCH_SIZE = 20;
+
+/** A stored entry with its name (type, key and sort suffix), for bundles */
+export interface LocalCacheExportEntry {
+  name: string;
+  file: LocalCacheFile<unknown>;
+}
+
+/** Called with the data of every cache write (see localSearchIndex.ts) */
+export type LocalCacheSetListener = (
+  type: LocalCacheType,
+  key: string,
+  data: unknown,
+) => void;
+
+/** A stored entry as listed by the cache browser */
+export interface LocalCacheEntryInfo {
+  name: string;
+  type: LocalCacheType;
+  /** Write timestamp (ms) */
+  ts: number;
+  /** Effective TTL in hours (-1 = permanent or pinned) */
+  ttl: number;
+  /** Complete flag (`c`) of the stored data */
+  complete: boolean;
+  /** Stored size in bytes */
+  size: number;
+  compressed: boolean;
+}
+
+/** "pack": single indexed file; "files": one JSON file per entry */
+export type LocalCacheBackend = "pack" | "files";
+
+// Type prefixes of entry names, longest first where one prefixes another
+const CACHE_TYPE_ORDER: LocalCacheType[] = [
+  "author_profile",
+  "author_papers",
+  "preprintCandidates",
+  "citation_graph",
+  "crossref",
+  "preprint",
+  "related",
+  "cited",
+  "author",
+  "refs",
+];
+
+function getTypeFromEntryName(name: string): LocalCacheType | null {
+  for (const t of CACHE_TYPE_ORDER) {
+    if (name.startsWith(`${t}_`)) return t;
+  }
+  return null;
+}
+
+/** Entry name of a per-entry cache file (file name without extension). */
+function getEntryNameFromPath(filePath: string): string {
+  const fileName = filePath.split(/[\\/]/).pop() ?? "";
+  const ext = fileName.endsWith(COMPRESSED_EXT) ? COMPRESSED_EXT : ".json";
+  return fileName.slice(0, -ext.length);
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Compression utilities using pako library (gzip)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -65,21 +135,31 @@ function decompressData(data: Uint8Array): string {
  * - Custom directory support
  * - Automatic corruption cleanup
  * - TTL-based expiration
+ * - Pack backend: single indexed file with size-based LRU eviction
  */
 class InspireLocalCache {
   private cacheDir: string | null = null;
   private initPromise: Promise<void> | null = null;
-  // Write queue: Map<filePath, {timer, data}>
+  private backend: LocalCacheBackend = "pack";
+  private store: CachePackStore | null = null;
+  private migrationPromise: Promise<void> | null = null;
+  // Write queue: Map<filePath or entry name, {timer, write}>
   private writeQueue = new Map<
     string,
-    { timer: ReturnType<typeof setTimeout>; data: any }
+    { timer: ReturnType<typeof setTimeout>; write: () => Promise<void> }
   >();
+  private setListeners = new Set<LocalCacheSetListener>();
 
   /**
    * Initialize the cache directory (creates if missing).
-   * Safe to call multiple times - only initializes once.
+   * Safe to call multiple times - only initializes once, or again after the
+   * backend preference changed.
    */
   async init(): Promise<void> {
+    if (this.initPromise && this.backend !== this.getConfiguredBackend()) {
+      await this.reinit();
+      return;
+    }
     if (this.cacheDir) return;
     if (this.initPromise) return this.initPromise;
 
@@ -95,6 +175,8 @@ class InspireLocalCache {
     // Flush any pending writes first
     await this.flushWrites();
     this.cacheDir = null;
+    this.store = null;
+    this.migrationPromise = null;
     this.initPromise = null;
     await this.init();
   }
@@ -109,6 +191,7 @@ class InspireLocalCache {
   }
 
   private async _doInit(): Promise<void> {
+    this.backend = this.getConfiguredBackend();
     try {
       // Check for custom directory in preferences
       const customDir = getPref("local_cache_custom_dir") as string;
@@ -160,6 +243,12 @@ class InspireLocalCache {
           `[${config.addonName}] Created cache directory: ${this.cacheDir}`,
         );
       }
+
+      if (this.backend === "pack") {
+        this.store = new CachePackStore(this.cacheDir);
+        await this.store.load();
+        this.migrationPromise = this.migrateLegacyFiles(this.store);
+      }
     } catch (e) {
       Zotero.debug(
         `[${config.addonName}] Failed to init cache directory: ${e}`,
@@ -191,17 +280,45 @@ class InspireLocalCache {
   }
 
   /**
-   * Build cache file path for given type and key.
-   * @param compressed - If true, returns path with .json.gz extension
+   * TTL in hours for new entries of a type: refs, candidate lists, graphs
+   * and author feed snapshots are kept indefinitely, author profiles for
+   * 2 hours (offline fallback), the rest per the preference.
    */
-  private getFilePath(
+  private getTTLHoursForType(type: LocalCacheType): number {
+    if (
+      type === "refs" ||
+      type === "preprintCandidates" ||
+      type === "citation_graph" ||
+      type === "author_papers"
+    ) {
+      return DEFAULT_TTL_REFS;
+    }
+    if (type === "author_profile") return DEFAULT_TTL_AUTHOR_PROFILE;
+    return this.getTTLHours();
+  }
+
+  getConfiguredBackend(): LocalCacheBackend {
+    return getPref("local_cache_backend") === "files" ? "files" : "pack";
+  }
+
+  /**
+   * Size limit of the pack backend in bytes; 0 = unlimited.
+   */
+  getMaxSizeBytes(): number {
+    const mb = getPref("local_cache_max_size_mb");
+    const value = typeof mb === "number" ? mb : DEFAULT_MAX_SIZE_MB;
+    return value > 0 ? value * 1024 * 1024 : 0;
+  }
+
+  /**
+   * Entry name for given type and key: the file name without extension in the
+   * per-file layout, and the index key in the pack.
+   */
+  private getEntryName(
     type: LocalCacheType,
     key: string,
     sort?: string,
-    compressed = false,
-  ): string | null {
-    if (!this.cacheDir) return null;
-
+  ): string {
     // Defensive: ensure key is a string (INSPIRE API may return recid as number)
     const keyStr = String(key);
 
@@ -210,11 +327,24 @@ class InspireLocalCache {
     const safeSuffix = sort
       ? `_${String(sort).replace(/[^a-zA-Z0-9]/g, "")}`
       : "";
-    const ext = compressed ? COMPRESSED_EXT : ".json";
+    return `${type}_${safeKey}${safeSuffix}`;
+  }
 
+  /**
+   * Build cache file path for given type and key.
+   * @param compressed - If true, returns path with .json.gz extension
+   */
+  private getFilePath(
+    type: LocalCacheType,
+    key: string,
+    sort?: string,
+    compressed = false,
+  ): string | null {
+    if (!this.cacheDir) return null;
+    const ext = compressed ? COMPRESSED_EXT : ".json";
     return PathUtils.join(
       this.cacheDir,
-      `${type}_${safeKey}${safeSuffix}${ext}`,
+      `${this.getEntryName(type, key, sort)}${ext}`,
     );
   }
 
@@ -228,13 +358,16 @@ class InspireLocalCache {
   /**
    * Validate cache data and return result if valid.
    * Performs structural checks including random sampling for data integrity.
+   * @param filePath - File path or entry name, for logging
    * @param ignoreTTL - If true, skip TTL check (for offline fallback)
+   * @param discard - Removes the stored entry when it is incomplete or corrupt
    * @returns Cache result or null if invalid/expired
    */
   private validateCache<T>(
     cached: LocalCacheFile<T>,
     filePath: string,
-    ignoreTTL = false,
+    ignoreTTL: boolean,
+    discard: () => Promise<unknown>,
   ): {
     data: T;
     fromCache: true;
@@ -251,14 +384,14 @@ class InspireLocalCache {
     // Complete flag check - reject incomplete or old-format caches
     if (cached.c !== true) {
       Zotero.debug(`[${config.addonName}] Cache incomplete: ${filePath}`);
-      IOUtils.remove(filePath, { ignoreAbsent: true }).catch(() => {});
+      discard().catch(() => {});
       return null;
     }
 
     // Data integrity check: verify array structure and sample entries have titles
     // This catches corrupted data that may have passed the complete flag check
     if (!this.validateDataIntegrity(cached.d, filePath)) {
-      IOUtils.remove(filePath, { ignoreAbsent: true }).catch(() => {});
+      discard().catch(() => {});
       return null;
     }
 
@@ -474,6 +607,10 @@ class InspireLocalCache {
     await this.init();
     getLog("init done");
 
+    if (this.store) {
+      return this.getFromPack<T>(this.store, type, key, sort, options);
+    }
+
     const compressedPath = this.getFilePath(type, key, sort, true);
     const jsonPath = this.getFilePath(type, key, sort, false);
     if (!compressedPath || !jsonPath) return null;
@@ -502,7 +639,9 @@ class InspireLocalCache {
 
         getLog("validating cache...");
         const ignoreTTL = options?.ignoreTTL ?? false;
-        const result = this.validateCache(cached, path, ignoreTTL);
+        const result = this.validateCache(cached, path, ignoreTTL, () =>
+          IOUtils.remove(path, { ignoreAbsent: true }),
+        );
         getLog(
           `validateCache done (${result ? (result.expired ? "valid-expired" : "valid") : "invalid"})`,
         );
@@ -527,6 +666,154 @@ class InspireLocalCache {
     return null;
   }
 
+  /**
+   * get() for the pack backend. While old per-entry files are still being
+   * migrated, a miss imports the matching file first.
+   */
+  private async getFromPack<T>(
+    store: CachePackStore,
+    type: LocalCacheType,
+    key: string,
+    sort: string | undefined,
+    options: { ignoreTTL?: boolean } | undefined,
+  ): Promise<{
+    data: T;
+    fromCache: true;
+    ageHours: number;
+    total?: number;
+    expired?: boolean;
+  } | null> {
+    const name = this.getEntryName(type, key, sort);
+    let hit = await store.read(name);
+    if (!hit && this.migrationPromise) {
+      for (const compressed of [true, false]) {
+        const path = this.getFilePath(type, key, sort, compressed);
+        if (path && (await this.importLegacyFile(store, path))) break;
+      }
+      hit = await store.read(name);
+    }
+    if (!hit) return null;
+
+    const cached = this.decodePackEntry<T>(hit.bytes, hit.entry.z, name);
+    if (!cached) {
+      await store.remove(name);
+      return null;
+    }
+    const result = this.validateCache(
+      cached,
+      name,
+      options?.ignoreTTL ?? false,
+      () => store.remove(name),
+    );
+    if (result) {
+      Zotero.debug(
+        `[${config.addonName}] Cache hit (pack)${result.expired ? " [expired]" : ""}: ${type}/${key}${cached.n !== undefined ? ` (total: ${cached.n})` : ""}`,
+      );
+    }
+    return result;
+  }
+
+  private decodePackEntry<T>(
+    bytes: Uint8Array,
+    compressed: boolean,
+    name: string,
+  ): LocalCacheFile<T> | null {
+    try {
+      const jsonStr = compressed
+        ? decompressData(bytes)
+        : textDecoder.decode(bytes);
+      return JSON.parse(jsonStr) as LocalCacheFile<T>;
+    } catch (e) {
+      Zotero.debug(
+        `[${config.addonName}] Cache entry unreadable: ${name}: ${e}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Move one per-entry cache file into the pack, keeping its bytes and
+   * timestamp, then delete the file. Incomplete or old-version files are just
+   * deleted. Returns true when an entry was imported.
+   */
+  private async importLegacyFile(
+    store: CachePackStore,
+    filePath: string,
+  ): Promise<boolean> {
+    try {
+      if (!(await IOUtils.exists(filePath))) return false;
+      const compressed = filePath.endsWith(COMPRESSED_EXT);
+      const name = getEntryNameFromPath(filePath);
+      const bytes = await IOUtils.read(filePath);
+      const cached = this.decodePackEntry(bytes, compressed, name);
+      let imported = false;
+      if (
+        cached?.v === CACHE_VERSION &&
+        cached.c === true &&
+        !(await store.peek(name))
+      ) {
+        await store.write(
+          name,
+          bytes,
+          { compressed, ts: cached.ts, ttl: cached.ttl, accessed: cached.ts },
+          this.getMaxSizeBytes(),
+        );
+        imported = true;
+      }
+      await IOUtils.remove(filePath, { ignoreAbsent: true });
+      return imported;
+    } catch (e) {
+      Zotero.debug(
+        `[${config.addonName}] Cache migration error for ${filePath}: ${e}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * One-time move of the per-entry files into the pack, in small batches in
+   * the background. Only files named after a cache type are touched (not
+   * e.g. preprintWatch.json, which shares the directory).
+   */
+  private migrateLegacyFiles(store: CachePackStore): Promise<void> {
+    const run = async () => {
+      const dir = this.cacheDir;
+      if (!dir) return;
+      const files = (await IOUtils.getChildren(dir)).filter(
+        (filePath) =>
+          this.isCacheFile(filePath) &&
+          getTypeFromEntryName(getEntryNameFromPath(filePath)) !== null,
+      );
+      if (!files.length) return;
+
+      Zotero.debug(
+        `[${config.addonName}] Migrating ${files.length} cache files into ${dir}`,
+      );
+      let imported = 0;
+      for (let i = 0; i < files.length; i += MIGRATION_BATCH_SIZE) {
+        // Stop if the cache was reinitialized (directory or backend changed)
+        if (this.store !== store) return;
+        for (const filePath of files.slice(i, i + MIGRATION_BATCH_SIZE)) {
+          if (await this.importLegacyFile(store, filePath)) imported++;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      await store.flush();
+      Zotero.debug(
+        `[${config.addonName}] Cache migration done: ${imported} of ${files.length} files imported`,
+      );
+    };
+    return run()
+      .catch((e) => {
+        Zotero.debug(`[${config.addonName}] Cache migration failed: ${e}`);
+      })
+      .finally(() => {
+        if (this.store === store) {
+          this.migrationPromise = null;
+        }
+      });
+  }
+
   /**
    * Write data to local cache (debounced).
    * Async and non-blocking - errors are logged but don't affect caller.
@@ -549,16 +836,16 @@ class InspireLocalCache {
 
     await this.init();
 
-    // Determine TTL based on type
-    let ttl: number;
-    if (type === "refs" || type === "preprintCandidates" || type === "citation_graph") {
-      ttl = DEFAULT_TTL_REFS; // keep indefinitely for refs and candidate list
-    } else if (type === "author_profile") {
-      ttl = DEFAULT_TTL_AUTHOR_PROFILE; // 2 hours for author profiles (offline fallback)
-    } else {
-      ttl = this.getTTLHours();
+    for (const listener of this.setListeners) {
+      try {
+        listener(type, key, data);
+      } catch (err) {
+        Zotero.debug(`[${config.addonName}] Cache set listener error: ${err}`);
+      }
     }
 
+    const ttl = this.getTTLHoursForType(type);
+
     const cacheData: LocalCacheFile<T> = {
       v: CACHE_VERSION,
       t: type,
@@ -579,6 +866,33 @@ class InspireLocalCache {
       `[${config.addonName}] Cache set: ${type}/${key}, estimatedSize=${estimatedSize}, compressionEnabled=${compressionEnabled}`,
     );
 
+    if (this.store) {
+      const store = this.store;
+      const name = this.getEntryName(type, key, sort);
+      this.enqueueWrite(name, async () => {
+        try {
+          const jsonStr = JSON.stringify(cacheData);
+          const bytes = shouldCompress
+            ? compressData(jsonStr)
+            : textEncoder.encode(jsonStr);
+          await store.write(
+            name,
+            bytes,
+            { compressed: shouldCompress, ts: cacheData.ts, ttl },
+            this.getMaxSizeBytes(),
+          );
+          Zotero.debug(
+            `[${config.addonName}] Cache written (pack${shouldCompress ? ", gzip" : ""}): ${type}/${key}${total !== undefined ? ` (total: ${total})` : ""}`,
+          );
+        } catch (e) {
+          Zotero.debug(
+            `[${config.addonName}] Cache write error for ${name}: ${e}`,
+          );
+        }
+      });
+      return;
+    }
+
     const targetPath = this.getFilePath(type, key, sort, shouldCompress);
     const altPath = this.getFilePath(type, key, sort, !shouldCompress);
     if (!targetPath || !altPath) return;
@@ -593,8 +907,7 @@ class InspireLocalCache {
     }
 
     // Schedule debounced write
-    const timer = setTimeout(async () => {
-      this.writeQueue.delete(targetPath);
+    this.enqueueWrite(targetPath, async () => {
       try {
         // Delete old format file if it exists
         await IOUtils.remove(altPath, { ignoreAbsent: true });
@@ -626,9 +939,22 @@ class InspireLocalCache {
           `[${config.addonName}] Cache write error for ${targetPath}: ${e}`,
         );
       }
-    }, WRITE_DEBOUNCE_MS);
+    });
+  }
 
-    this.writeQueue.set(targetPath, { timer, data: cacheData });
+  /**
+   * Debounce a write: replaces a pending write for the same file or entry.
+   */
+  private enqueueWrite(queueKey: string, write: () => Promise<void>): void {
+    const existing = this.writeQueue.get(queueKey);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+    const timer = setTimeout(() => {
+      this.writeQueue.delete(queueKey);
+      void write();
+    }, WRITE_DEBOUNCE_MS);
+    this.writeQueue.set(queueKey, { timer, write });
   }
 
   /**
@@ -636,28 +962,17 @@ class InspireLocalCache {
    * Useful before shutdown or directory change.
    */
   async flushWrites(): Promise<void> {
-    const pending = Array.from(this.writeQueue.entries());
+    const pending = Array.from(this.writeQueue.values());
     this.writeQueue.clear();
 
-    const promises = pending.map(async ([filePath, { timer, data }]) => {
-      clearTimeout(timer);
-      try {
-        const jsonStr = JSON.stringify(data);
-        const isCompressed = filePath.endsWith(COMPRESSED_EXT);
-
-        if (isCompressed) {
-          const compressed = compressData(jsonStr);
-          await IOUtils.write(filePath, compressed);
-        } else {
-          await IOUtils.writeJSON(filePath, data);
-        }
-        Zotero.debug(`[${config.addonName}] Cache flushed: ${filePath}`);
-      } catch (e) {
-        Zotero.debug(`[${config.addonName}] Cache flush error: ${e}`);
-      }
-    });
-
-    await Promise.all(promises);
+    // Each write logs its own errors
+    await Promise.all(
+      pending.map(({ timer, write }) => {
+        clearTimeout(timer);
+        return write();
+      }),
+    );
+    await this.store?.flush();
   }
 
   /**
@@ -670,11 +985,16 @@ class InspireLocalCache {
   ): Promise<void> {
     await this.init();
 
+    if (this.store) {
+      await this.store.remove(this.getEntryName(type, key, sort));
+      Zotero.debug(`[${config.addonName}] Cache deleted: ${type}/${key}`);
+    }
+
     const compressedPath = this.getFilePath(type, key, sort, true);
     const jsonPath = this.getFilePath(type, key, sort, false);
 
     try {
-      // Delete both formats to ensure complete cleanup
+      // Delete both formats to ensure complete cleanup (also not yet migrated files)
       await Promise.all([
         compressedPath
           ? IOUtils.remove(compressedPath, { ignoreAbsent: true })
@@ -690,8 +1010,8 @@ class InspireLocalCache {
   }
 
   /**
-   * Clear all cache files (both .json and .json.gz).
-   * Returns number of files deleted.
+   * Clear all cache entries: the pack and any .json / .json.gz files.
+   * Returns number of entries deleted.
    */
   async clearAll(): Promise<number> {
     await this.init();
@@ -701,6 +1021,8 @@ class InspireLocalCache {
       const exists = await IOUtils.exists(this.cacheDir);
       if (!exists) return 0;
 
+      const packEntries = this.store ? await this.store.clear() : 0;
+
       const children = await IOUtils.getChildren(this.cacheDir);
 
       // Parallel deletion - filter for both .json and .json.gz files
@@ -713,9 +1035,12 @@ class InspireLocalCache {
         );
 
       const results = await Promise.all(promises);
-      const deleted = results.reduce((sum: number, count) => sum + count, 0);
+      const deleted = results.reduce(
+        (sum: number, count) => sum + count,
+        packEntries,
+      );
 
-      Zotero.debug(`[${config.addonName}] Cache cleared: ${deleted} files`);
+      Zotero.debug(`[${config.addonName}] Cache cleared: ${deleted} entries`);
       return deleted;
     } catch (e) {
       Zotero.debug(`[${config.addonName}] Cache clear error: ${e}`);
@@ -725,7 +1050,9 @@ class InspireLocalCache {
 
   /**
    * Get cache statistics (includes both .json and .json.gz files).
-   * Returns file counts and sizes for both formats.
+   * Returns file counts and sizes for both formats; with the pack backend,
+   * pack entries count as files and the pack size (including not yet
+   * compacted garbage) is added to the total.
    */
   async getStats(): Promise<{
     fileCount: number;
@@ -766,6 +1093,21 @@ class InspireLocalCache {
         });
 
       const results = await Promise.all(promises);
+      if (this.store) {
+        const pack = await this.store.getStats();
+        results.push(
+          {
+            count: pack.compressedCount,
+            size: pack.compressedBytes,
+            isCompressed: true,
+          },
+          {
+            count: pack.entryCount - pack.compressedCount,
+            size: pack.packBytes - pack.compressedBytes,
+            isCompressed: false,
+          },
+        );
+      }
 
       return results.reduce(
         (acc, curr) => ({
@@ -814,17 +1156,34 @@ class InspireLocalCache {
   }
 
   /**
-   * Purge expired cache files (both .json and .json.gz).
-   * Returns number of files deleted.
+   * Purge expired cache entries (pack entries, .json and .json.gz files).
+   * With the pack backend, also evicts down to the size limit.
+   * Returns number of entries deleted.
    */
   async purgeExpired(): Promise<number> {
     if (!this.isEnabled()) return 0;
     await this.init();
     if (!this.cacheDir) return 0;
 
+    const getTTLHoursForType = (t: LocalCacheType): number =>
+      this.getTTLHoursForType(t);
+
+    let packDeleted = 0;
+    if (this.store) {
+      const now = Date.now();
+      packDeleted = await this.store.removeWhere((name, entry) => {
+        // Pinned entries (TTL <= 0) never expire
+        if (entry.ttl <= 0) return false;
+        const t = getTypeFromEntryName(name);
+        const ttlHours = t ? getTTLHoursForType(t) : entry.ttl;
+        return ttlHours > 0 && now - entry.ts > ttlHours * 60 * 60 * 1000;
+      });
+      packDeleted += await this.store.evictToSize(this.getMaxSizeBytes());
+    }
+
     try {
       const exists = await IOUtils.exists(this.cacheDir);
-      if (!exists) return 0;
+      if (!exists) return packDeleted;
 
       const children = await IOUtils.getChildren(this.cacheDir);
 
@@ -834,31 +1193,8 @@ class InspireLocalCache {
       // Use a small concurrency and periodically yield to keep Zotero responsive.
       const CONCURRENCY = 4;
 
-      const cacheTypeOrder: LocalCacheType[] = [
-        "author_profile",
-        "author_papers",
-        "preprintCandidates",
-        "crossref",
-        "preprint",
-        "related",
-        "cited",
-        "author",
-        "refs",
-      ];
-
-      const getTypeFromFilePath = (filePath: string): LocalCacheType | null => {
-        const fileName = filePath.split(/[\\/]/).pop() ?? "";
-        for (const t of cacheTypeOrder) {
-          if (fileName.startsWith(`${t}_`)) return t;
-        }
-        return null;
-      };
-
-      const getTTLHoursForType = (t: LocalCacheType): number => {
-        if (t === "refs" || t === "preprintCandidates") return DEFAULT_TTL_REFS;
-        if (t === "author_profile") return DEFAULT_TTL_AUTHOR_PROFILE;
-        return this.getTTLHours();
-      };
+      const getTypeFromFilePath = (filePath: string): LocalCacheType | null =>
+        getTypeFromEntryName(filePath.split(/[\\/]/).pop() ?? "");
 
       const processFile = async (filePath: string): Promise<number> => {
         try {
@@ -881,6 +1217,9 @@ class InspireLocalCache {
                 const ageMs = Date.now() - lastModified;
                 const ttlMs = ttlHours * 60 * 60 * 1000;
                 if (ageMs > ttlMs) {
+                  // Pinned in the cache browser
+                  const cached = await this.readCacheFile(filePath);
+                  if (cached && cached.ttl <= 0) return 0;
                   await IOUtils.remove(filePath);
                   return 1;
                 }
@@ -918,7 +1257,7 @@ class InspireLocalCache {
         }
       };
 
-      let deleted = 0;
+      let deleted = packDeleted;
       for (let i = 0; i < cacheFiles.length; i += CONCURRENCY) {
         const batch = cacheFiles.slice(i, i + CONCURRENCY);
         const results = await Promise.all(batch.map((p) => processFile(p)));
@@ -929,13 +1268,13 @@ class InspireLocalCache {
 
       if (deleted > 0) {
         Zotero.debug(
-          `[${config.addonName}] Purged ${deleted} expired cache files`,
+          `[${config.addonName}] Purged ${deleted} expired cache entries`,
         );
       }
       return deleted;
     } catch (e) {
       Zotero.debug(`[${config.addonName}] Purge expired error: ${e}`);
-      return 0;
+      return packDeleted;
     }
   }
 
@@ -954,6 +1293,13 @@ class InspireLocalCache {
 
     await this.init();
 
+    if (this.store) {
+      const entry = await this.store.peek(this.getEntryName(type, key, sort));
+      if (entry) {
+        return Math.round((Date.now() - entry.ts) / (60 * 60 * 1000));
+      }
+    }
+
     // Check both paths in order
     const paths = [
       this.getFilePath(type, key, sort, true), // compressed first
@@ -977,6 +1323,322 @@ class InspireLocalCache {
 
     return -1;
   }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Bundle export / import (see cacheBundle.ts)
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Complete entries whose name passes `filter`, from the pack and from
+   * per-entry files. Pending writes are flushed first so they are included.
+   */
+  async exportEntries(
+    filter: (type: LocalCacheType, name: string) => boolean,
+  ): Promise<LocalCacheExportEntry[]> {
+    const entries: LocalCacheExportEntry[] = [];
+    await this.forEachEntry(filter, (name, file) => {
+      entries.push({ name, file });
+    });
+    return entries;
+  }
+
+  /**
+   * Like exportEntries, but hands each entry to `callback` as it is read
+   * instead of collecting them, so the whole cache is never in memory.
+   */
+  async forEachEntry(
+    filter: (type: LocalCacheType, name: string) => boolean,
+    callback: (name: string, file: LocalCacheFile<unknown>) => void,
+  ): Promise<void> {
+    await this.init();
+    if (!this.cacheDir) return;
+    await this.flushWrites();
+
+    const seen = new Set<string>();
+    const accept = (name: string): boolean => {
+      const type = getTypeFromEntryName(name);
+      return type !== null && !seen.has(name) && filter(type, name);
+    };
+    const add = (name: string, file: LocalCacheFile<unknown> | null) => {
+      if (file?.v === CACHE_VERSION && file.c === true) {
+        seen.add(name);
+        callback(name, file);
+      }
+    };
+
+    if (this.store) {
+      for (const name of await this.store.list()) {
+        if (!accept(name)) continue;
+        const hit = await this.store.read(name);
+        add(
+          name,
+          hit ? this.decodePackEntry(hit.bytes, hit.entry.z, name) : null,
+        );
+      }
+    }
+    // Files backend, or files not yet migrated into the pack
+    for (const filePath of await IOUtils.getChildren(this.cacheDir)) {
+      if (!this.isCacheFile(filePath)) continue;
+      const name = getEntryNameFromPath(filePath);
+      if (!accept(name)) continue;
+      add(name, await this.readCacheFile(filePath));
+    }
+  }
+
+  /** Observe cache writes; returns a function that stops observing. */
+  onSet(listener: LocalCacheSetListener): () => void {
+    this.setListeners.add(listener);
+    return () => this.setListeners.delete(listener);
+  }
+
+  /**
+   * Merge exported entries into the cache. Each entry must pass the checks
+   * of a cache read (version, complete flag, data integrity; TTL ignored),
+   * and is skipped when the local copy is at least as new.
+   */
+  async importEntries(
+    entries: LocalCacheExportEntry[],
+  ): Promise<{ imported: number; skipped: number; invalid: number }> {
+    const result = { imported: 0, skipped: 0, invalid: 0 };
+    await this.init();
+    if (!this.cacheDir) {
+      result.invalid = entries.length;
+      return result;
+    }
+    // A pending write is newer than anything in the bundle
+    await this.flushWrites();
+
+    for (const { name, file } of entries) {
+      if (
+        !this.isImportableEntry(name, file) ||
+        !this.validateCache(file, name, true, async () => undefined)
+      ) {
+        result.invalid++;
+        continue;
+      }
+      const localTs = await this.getEntryTimestamp(name);
+      if (localTs !== null && localTs >= file.ts) {
+        result.skipped++;
+        continue;
+      }
+      try {
+        await this.writeEntryNow(name, file);
+        result.imported++;
+      } catch (e) {
+        Zotero.debug(
+          `[${config.addonName}] Cache import error for ${name}: ${e}`,
+        );
+        result.invalid++;
+      }
+    }
+    Zotero.debug(
+      `[${config.addonName}] Cache import: ${result.imported} imported, ${result.skipped} skipped, ${result.invalid} invalid`,
+    );
+    return result;
+  }
+
+  /**
+   * The name must be one getEntryName() could have produced for the entry's
+   * own type and key; this also keeps it a plain file name.
+   */
+  private isImportableEntry(
+    name: string,
+    file: LocalCacheFile<unknown>,
+  ): boolean {
+    if (!file || typeof file !== "object") return false;
+    if (typeof name !== "string" || !/^[A-Za-z0-9._-]+$/.test(name)) {
+      return false;
+    }
+    if (typeof file.ts !== "number" || typeof file.ttl !== "number") {
+      return false;
+    }
+    if (getTypeFromEntryName(name) !== file.t) return false;
+    const prefix = this.getEntryName(file.t, String(file.k));
+    return name === prefix || /^_[a-zA-Z0-9]+$/.test(name.slice(prefix.length));
+  }
+
+  /** Write timestamp of the stored entry, or null when there is none. */
+  private async getEntryTimestamp(name: string): Promise<number | null> {
+    if (this.store) {
+      const entry = await this.store.peek(name);
+      if (entry) return entry.ts;
+    }
+    if (!this.cacheDir) return null;
+    for (const ext of [COMPRESSED_EXT, ".json"]) {
+      const path = PathUtils.join(this.cacheDir, `${name}${ext}`);
+      if (!(await IOUtils.exists(path))) continue;
+      const cached = await this.readCacheFile(path);
+      if (cached) return cached.ts;
+    }
+    return null;
+  }
+
+  /** Store an entry as is (keeping its timestamp), bypassing the write queue. */
+  private async writeEntryNow(
+    name: string,
+    file: LocalCacheFile<unknown>,
+  ): Promise<void> {
+    const compressed = this.isCompressionEnabled();
+    const jsonStr = JSON.stringify(file);
+    const bytes = compressed
+      ? compressData(jsonStr)
+      : textEncoder.encode(jsonStr);
+    if (this.store) {
+      await this.store.write(
+        name,
+        bytes,
+        { compressed, ts: file.ts, ttl: file.ttl },
+        this.getMaxSizeBytes(),
+      );
+      return;
+    }
+    if (!this.cacheDir) return;
+    const ext = compressed ? COMPRESSED_EXT : ".json";
+    const altExt = compressed ? ".json" : COMPRESSED_EXT;
+    await IOUtils.remove(PathUtils.join(this.cacheDir, `${name}${altExt}`), {
+      ignoreAbsent: true,
+    });
+    await IOUtils.write(PathUtils.join(this.cacheDir, `${name}${ext}`), bytes);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Cache browser (see cacheBrowserDialog.ts)
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * All stored entries with their metadata. Only complete data is ever
+   * written to the pack, so just per-entry files are read for the complete
+   * flag. Pending writes are flushed first so they are included.
+   */
+  async listEntries(): Promise<LocalCacheEntryInfo[]> {
+    await this.init();
+    if (!this.cacheDir) return [];
+    await this.flushWrites();
+
+    const infos: LocalCacheEntryInfo[] = [];
+    const seen = new Set<string>();
+    const effectiveTTL = (type: LocalCacheType, ttl: number) =>
+      ttl <= 0 ? -1 : this.getTTLHoursForType(type);
+
+    if (this.store) {
+      for (const [name, entry] of await this.store.entries()) {
+        const type = getTypeFromEntryName(name);
+        if (!type) continue;
+        seen.add(name);
+        infos.push({
+          name,
+          type,
+          ts: entry.ts,
+          ttl: effectiveTTL(type, entry.ttl),
+          complete: true,
+          size: entry.l,
+          compressed: entry.z,
+        });
+      }
+    }
+    for (const filePath of await IOUtils.getChildren(this.cacheDir)) {
+      if (!this.isCacheFile(filePath)) continue;
+      const name = getEntryNameFromPath(filePath);
+      const type = getTypeFromEntryName(name);
+      if (!type || seen.has(name)) continue;
+      seen.add(name);
+      const [stat, file] = await Promise.all([
+        IOUtils.stat(filePath).catch(() => null),
+        this.readCacheFile(filePath),
+      ]);
+      infos.push({
+        name,
+        type,
+        ts: file?.ts ?? 0,
+        ttl: effectiveTTL(type, file?.ttl ?? 0),
+        complete: file?.v === CACHE_VERSION && file.c === true,
+        size: stat?.size ?? 0,
+        compressed: filePath.endsWith(COMPRESSED_EXT),
+      });
+    }
+    return infos;
+  }
+
+  /** Delete entries by name; returns how many existed. */
+  async deleteEntries(names: string[]): Promise<number> {
+    await this.init();
+    if (!this.cacheDir) return 0;
+    // A pending write would bring a deleted entry back
+    await this.flushWrites();
+    let deleted = 0;
+    for (const name of names) {
+      let found = this.store ? await this.store.remove(name) : false;
+      for (const ext of [COMPRESSED_EXT, ".json"]) {
+        const path = PathUtils.join(this.cacheDir, `${name}${ext}`);
+        if (await IOUtils.exists(path)) {
+          await IOUtils.remove(path, { ignoreAbsent: true });
+          found = true;
+        }
+      }
+      if (found) deleted++;
+    }
+    Zotero.debug(`[${config.addonName}] Cache entries deleted: ${deleted}`);
+    return deleted;
+  }
+
+  /**
+   * Make entries permanent (TTL -1) so they never expire; data and timestamp
+   * are kept. Pack entries are also pinned, so the size limit never evicts
+   * them. Returns how many were pinned.
+   */
+  async pinEntries(names: string[]): Promise<number> {
+    await this.init();
+    await this.flushWrites();
+    const found: string[] = [];
+    for (const name of names) {
+      const file = await this.readEntry(name);
+      if (!file) continue;
+      if (file.ttl > 0) {
+        await this.writeEntryNow(name, { ...file, ttl: -1 });
+      }
+      found.push(name);
+    }
+    await this.store?.pin(found);
+    return found.length;
+  }
+
+  /**
+   * Run the checks of a cache read (version, complete flag, data integrity;
+   * TTL ignored) on stored entries and delete those that fail.
+   * Returns the names of the deleted entries.
+   */
+  async revalidateEntries(names: string[]): Promise<string[]> {
+    await this.init();
+    await this.flushWrites();
+    const invalid: string[] = [];
+    for (const name of names) {
+      const file = await this.readEntry(name);
+      if (
+        !file ||
+        !this.validateCache(file, name, true, async () => undefined)
+      ) {
+        invalid.push(name);
+      }
+    }
+    if (invalid.length) await this.deleteEntries(invalid);
+    return invalid;
+  }
+
+  /** Stored entry by name, from the pack or a per-entry file. */
+  private async readEntry(
+    name: string,
+  ): Promise<LocalCacheFile<unknown> | null> {
+    if (this.store) {
+      const hit = await this.store.read(name);
+      if (hit) return this.decodePackEntry(hit.bytes, hit.entry.z, name);
+    }
+    if (!this.cacheDir) return null;
+    for (const ext of [COMPRESSED_EXT, ".json"]) {
+      const path = PathUtils.join(this.cacheDir, `${name}${ext}`);
+      if (await IOUtils.exists(path)) return this.readCacheFile(path);
+    }
+    return null;
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,370 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Local Search Index - Full-text index over cached INSPIRE records
+// Every reference list, cited-by list, author paper list and related-papers
+// list in the local cache holds InspireReferenceEntry records. They are
+// indexed by recid (newest copy wins) so that panel searches in the
+// supported subset of INSPIRE syntax (see searchQuery.ts) can be answered
+// without the network: instantly while INSPIRE loads, and alone offline.
+// The index is built on the first search and kept current from cache writes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { getPref } from "../../utils/prefs";
+import { isValidBAI } from "./authorUtils";
+import { CITED_BY_MAX_RESULTS, type InspireSortOption } from "./constants";
+import { normalizeArxivID } from "./formatters";
+import { localCache } from "./localCache";
+import {
+  parseSearchQuery,
+  type ParsedSearchQuery,
+  type SearchClause,
+} from "./searchQuery";
+import type { SearchRange } from "./searchSyntax";
+import { ensureSearchText, normalizeSearchText } from "./textUtils";
+import type {
+  InspireArxivDetails,
+  InspireReferenceEntry,
+  LocalCacheType,
+} from "./types";
+
+/** Cache types whose data is an InspireReferenceEntry[] */
+const INDEXED_TYPES = new Set<LocalCacheType>([
+  "refs",
+  "cited",
+  "author",
+  "related",
+]);
+
+interface IndexedAuthor {
+  surname: string[];
+  given: string[];
+}
+
+interface IndexedDoc {
+  entry: InspireReferenceEntry;
+  /** When the cached copy was written */
+  ts: number;
+  title: string[];
+  authors: IndexedAuthor[];
+  bais: string[];
+  /** Journal title, lowercase alphanumerics only */
+  journal: string;
+  volume: string;
+  eprint: string;
+  year?: number;
+  citations?: number;
+  /** Distinct tokens of title, authors, publication and search text */
+  words: string[];
+  /** Title and search text tokens in order, space-padded (phrase search) */
+  text: string;
+}
+
+function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+  return normalizeSearchText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function collapse(text: string): string {
+  return normalizeSearchText(text).replace(/[^a-z0-9]/g, "");
+}
+
+/** Lowercase arXiv id without prefix or version */
+function normalizeEprint(raw: string | undefined): string {
+  return (normalizeArxivID(raw) ?? "").toLowerCase().replace(/v\d+$/, "");
+}
+
+/** "Witten, Edward" → surname [witten], given [edward]; "E. Witten" too. */
+function splitAuthorName(name: string): IndexedAuthor {
+  const comma = name.indexOf(",");
+  if (comma >= 0) {
+    return {
+      surname: tokenize(name.slice(0, comma)),
+      given: tokenize(name.slice(comma + 1)),
+    };
+  }
+  const tokens = tokenize(name);
+  return { surname: tokens.slice(-1), given: tokens.slice(0, -1) };
+}
+
+function hasWord(words: string[], word: string): boolean {
+  if (word.endsWith("*")) {
+    const stem = word.slice(0, -1);
+    return words.some((w) => w.startsWith(stem));
+  }
+  return words.includes(word);
+}
+
+function containsPhrase(text: string, phrase: string[]): boolean {
+  return phrase.length > 0 && text.includes(` ${phrase.join(" ")} `);
+}
+
+function inRange(value: number | undefined, range: SearchRange): boolean {
+  if (value === undefined) return false;
+  return (
+    (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max)
+  );
+}
+
+function buildDoc(entry: InspireReferenceEntry, ts: number): IndexedDoc {
+  const info = entry.publicationInfo ?? {};
+  const arxiv =
+    typeof entry.arxivDetails === "string"
+      ? entry.arxivDetails
+      : (entry.arxivDetails as InspireArxivDetails | null | undefined)?.id;
+  const year = Number.parseInt(entry.earliestDate || entry.year, 10);
+  const title = tokenize(entry.title);
+  const authors = entry.authors.map(splitAuthorName);
+  const searchText = tokenize(ensureSearchText(entry));
+  const words = new Set([
+    ...title,
+    ...authors.flatMap((a) => [...a.surname, ...a.given]),
+    ...searchText,
+  ]);
+  return {
+    entry,
+    ts,
+    title,
+    authors,
+    bais: (entry.authorSearchInfos ?? [])
+      .map((a) => a.bai?.toLowerCase())
+      .filter((bai): bai is string => !!bai),
+    journal: collapse(
+      String(info.journal_title ?? info.journal_title_abbrev ?? ""),
+    ),
+    volume: String(info.journal_volume ?? "").toLowerCase(),
+    eprint: normalizeEprint(arxiv),
+    year: Number.isNaN(year) ? undefined : year,
+    citations: entry.citationCount,
+    words: [...words],
+    text: ` ${[...title, ...searchText].join(" ")} `,
+  };
+}
+
+function matchesAuthor(doc: IndexedDoc, value: string): boolean {
+  if (isValidBAI(value)) return doc.bais.includes(value.toLowerCase());
+  const query = splitAuthorName(value);
+  if (!query.surname.length) return false;
+  return doc.authors.some(
+    (author) =>
+      query.surname.every((s) => hasWord(author.surname, s)) &&
+      query.given.every((g) =>
+        author.given.some((t) => t.startsWith(g) || g.startsWith(t)),
+      ),
+  );
+}
+
+function matchesJournal(doc: IndexedDoc, value: string): boolean {
+  const [journal, volume] = value.split(",");
+  const name = collapse(journal);
+  if (!name || !doc.journal.startsWith(name)) return false;
+  return !volume?.trim() || doc.volume === volume.trim().toLowerCase();
+}
+
+function matchesClause(doc: IndexedDoc, clause: SearchClause): boolean {
+  switch (clause.field) {
+    case "title":
+    case "any": {
+      const title = clause.field === "title";
+      const words = title ? doc.title : doc.words;
+      const query = clause.value
+        .split(/\s+/)
+        .flatMap((part) =>
+          part.endsWith("*") ? [`${tokenize(part).join("")}*`] : tokenize(part),
+        )
+        .filter((word) => word !== "*");
+      return clause.quoted
+        ? containsPhrase(title ? ` ${doc.title.join(" ")} ` : doc.text, query)
+        : query.length > 0 && query.every((word) => hasWord(words, word));
+    }
+    case "author":
+      return matchesAuthor(doc, clause.value);
+    case "journal":
+      return matchesJournal(doc, clause.value);
+    case "eprint":
+      return !!doc.eprint && doc.eprint === normalizeEprint(clause.value);
+    case "date":
+      return inRange(doc.year, clause.range!);
+    case "topcite":
+      return inRange(doc.citations, clause.range!);
+  }
+}
+
+/** Posting key narrowing the candidates of a clause, if it has one */
+function getPostingKey(clause: SearchClause): string | null {
+  if (clause.negated) return null;
+  switch (clause.field) {
+    case "title":
+    case "any": {
+      const word = tokenize(clause.value).find(Boolean);
+      if (!word || clause.value.includes("*")) return null;
+      return `${clause.field === "title" ? "t" : "w"}:${word}`;
+    }
+    case "author": {
+      if (isValidBAI(clause.value)) return null;
+      const surname = splitAuthorName(clause.value).surname[0];
+      return surname ? `a:${surname}` : null;
+    }
+    case "eprint":
+      return `e:${normalizeEprint(clause.value)}`;
+    default:
+      return null;
+  }
+}
+
+export class LocalSearchIndex {
+  private docs: IndexedDoc[] = [];
+  private byRecid = new Map<string, number>();
+  private postings = new Map<string, Set<number>>();
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  /** Index entries with a recid; an older copy of a record is replaced. */
+  addEntries(entries: unknown, ts = Date.now()): void {
+    if (!Array.isArray(entries)) return;
+    for (const entry of entries as InspireReferenceEntry[]) {
+      if (!entry?.recid || typeof entry.title !== "string") continue;
+      const recid = String(entry.recid);
+      const existing = this.byRecid.get(recid);
+      if (existing !== undefined && this.docs[existing].ts > ts) continue;
+
+      const doc = buildDoc({ ...entry, authors: entry.authors ?? [] }, ts);
+      const id = existing ?? this.docs.length;
+      this.docs[id] = doc;
+      this.byRecid.set(recid, id);
+      // Postings of a replaced copy stay; candidates are re-checked anyway
+      const keys = [
+        ...doc.title.map((w) => `t:${w}`),
+        ...doc.authors.flatMap((a) => a.surname.map((s) => `a:${s}`)),
+        ...doc.words.map((w) => `w:${w}`),
+      ];
+      if (doc.eprint) keys.push(`e:${doc.eprint}`);
+      for (const key of keys) {
+        let ids = this.postings.get(key);
+        if (!ids) {
+          ids = new Set();
+          this.postings.set(key, ids);
+        }
+        ids.add(id);
+      }
+    }
+  }
+
+  /** Records matching the query, sorted like INSPIRE results. */
+  search(
+    query: ParsedSearchQuery,
+    sort: InspireSortOption,
+    limit = CITED_BY_MAX_RESULTS,
+  ): InspireReferenceEntry[] {
+    const matched = new Set<number>();
+    for (const group of query.groups) {
+      for (const id of this.getCandidates(group)) {
+        const doc = this.docs[id];
+        if (
+          group.every((clause) => matchesClause(doc, clause) !== clause.negated)
+        ) {
+          matched.add(id);
+        }
+      }
+    }
+
+    const docs = [...matched].map((id) => this.docs[id]);
+    docs.sort((a, b) =>
+      sort === "mostcited"
+        ? (b.citations ?? -1) - (a.citations ?? -1) ||
+          (b.year ?? 0) - (a.year ?? 0)
+        : (b.entry.earliestDate ?? String(b.year ?? "")).localeCompare(
+            a.entry.earliestDate ?? String(a.year ?? ""),
+          ) || (b.citations ?? -1) - (a.citations ?? -1),
+    );
+    return docs.slice(0, limit).map(({ entry }, index) => ({
+      ...entry,
+      id: `local-${index}-${entry.recid}`,
+      localItemID: undefined,
+      isRelated: false,
+    }));
+  }
+
+  private getCandidates(group: SearchClause[]): Iterable<number> {
+    let smallest: Set<number> | null = null;
+    for (const clause of group) {
+      const key = getPostingKey(clause);
+      if (!key) continue;
+      const ids = this.postings.get(key) ?? new Set<number>();
+      if (!smallest || ids.size < smallest.size) smallest = ids;
+    }
+    return smallest ?? this.docs.keys();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Shared index built from the local cache
+// ─────────────────────────────────────────────────────────────────────────────
+
+let current: LocalSearchIndex | null = null;
+let building: Promise<LocalSearchIndex> | null = null;
+let unsubscribe: (() => void) | null = null;
+
+export function isLocalSearchEnabled(): boolean {
+  return getPref("local_search_index") !== false;
+}
+
+async function getLocalSearchIndex(): Promise<LocalSearchIndex> {
+  if (current && !building) return current;
+  if (!building) {
+    const index = new LocalSearchIndex();
+    current = index;
+    // Writes during the build are newer than what it reads, and win
+    unsubscribe ??= localCache.onSet((type, _key, data) => {
+      if (INDEXED_TYPES.has(type)) current?.addEntries(data);
+    });
+    building = localCache
+      .forEachEntry(
+        (type) => INDEXED_TYPES.has(type),
+        (_name, file) => index.addEntries(file.d, file.ts),
+      )
+      .then(() => index)
+      .finally(() => {
+        building = null;
+      });
+  }
+  return building;
+}
+
+/** Drop the index (cache cleared, or feature turned off); rebuilt on use. */
+export function resetLocalSearchIndex(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  current = null;
+  building = null;
+}
+
+/**
+ * Answer an INSPIRE query from the cached records. Returns null when the
+ * query uses syntax the index does not support, or the index is turned off.
+ */
+export async function searchLocalIndex(
+  query: string,
+  sort: InspireSortOption,
+): Promise<InspireReferenceEntry[] | null> {
+  if (!isLocalSearchEnabled()) {
+    resetLocalSearchIndex();
+    return null;
+  }
+  const parsed = parseSearchQuery(query);
+  if (!parsed) return null;
+  const index = await getLocalSearchIndex();
+  return index.search(parsed, sort);
+}
+
+/** Online results first, then local matches INSPIRE did not return. */
+export function mergeSearchResults(
+  online: InspireReferenceEntry[],
+  local: InspireReferenceEntry[],
+): InspireReferenceEntry[] {
+  const seen = new Set(online.map((entry) => entry.recid).filter(Boolean));
+  return [...online, ...local.filter((entry) => !seen.has(entry.recid))];
+}
@@ -1,5 +1,18 @@
 import { config } from "../../../package.json";
 import { getString } from "../../utils/locale";
+import {
+  isCollectionInCitationRefresh,
+  setCollectionInCitationRefresh,
+} from "./citationRefreshService";
+import {
+  isCollectionInCitationInbox,
+  isItemInCitationInbox,
+  setCollectionInCitationInbox,
+  setItemsInCitationInbox,
+} from "./citationInboxService";
+import { showCitationInboxDialog } from "./citationInboxDialog";
+import { showLibraryNetworkDialog } from "./libraryNetworkDialog";
+import { isOfflineMode, setOfflineMode } from "./offlineMode";
 
 export class ZInsMenu {
   static registerRightClickMenuPopup() {
@@ -28,6 +41,53 @@ export class ZInsMenu {
     });
   }
 
+  private static setCitationRefreshForSelection(included: boolean) {
+    const collection = getSelectedCollection();
+    if (!collection) return;
+    setCollectionInCitationRefresh(collection, included);
+    new ztoolkit.ProgressWindow(config.addonName)
+      .createLine({
+        text: getString(
+          included ? "citation-refresh-included" : "citation-refresh-excluded",
+          { args: { name: collection.name } },
+        ),
+        type: "success",
+      })
+      .show();
+  }
+
+  private static setCitationInboxForSelection(included: boolean) {
+    const items = getSelectedRegularItems();
+    if (!items.length) return;
+    setItemsInCitationInbox(items, included);
+    new ztoolkit.ProgressWindow(config.addonName)
+      .createLine({
+        text: getString(
+          included ? "citation-inbox-tracked" : "citation-inbox-untracked",
+          { args: { count: items.length } },
+        ),
+        type: "success",
+      })
+      .show();
+  }
+
+  private static setCitationInboxForCollection(included: boolean) {
+    const collection = getSelectedCollection();
+    if (!collection) return;
+    setCollectionInCitationInbox(collection, included);
+    new ztoolkit.ProgressWindow(config.addonName)
+      .createLine({
+        text: getString(
+          included
+            ? "citation-inbox-collection-tracked"
+            : "citation-inbox-collection-untracked",
+          { args: { name: collection.name } },
+        ),
+        type: "success",
+      })
+      .show();
+  }
+
   private static buildMenuChildren(
     context: "item" | "collection",
   ): Array<Record<string, any>> {
@@ -40,6 +100,9 @@ export class ZInsMenu {
     const cacheHandler = isItem
       ? () => _globalThis.inspire.downloadReferencesCacheForSelection()
       : () => _globalThis.inspire.downloadReferencesCacheForCollection();
+    const exportCacheHandler = isItem
+      ? () => _globalThis.inspire.exportCacheBundleForSelection()
+      : () => _globalThis.inspire.exportCacheBundleForCollection();
 
     const children: Array<Record<string, any>> = [
       {
@@ -63,6 +126,37 @@ export class ZInsMenu {
         label: getString("menuitem-download-cache"),
         commandListener: () => cacheHandler(),
       },
+      {
+        tag: "menuitem",
+        label: getString("menuitem-export-cache"),
+        commandListener: () => exportCacheHandler(),
+      },
+      {
+        tag: "menuitem",
+        label: getString("menuitem-import-cache"),
+        commandListener: () => _globalThis.inspire.importCacheBundleFromFile(),
+      },
+      {
+        tag: "menuitem",
+        label: getString("menuitem-offline-enable"),
+        isHidden: () => isOfflineMode(),
+        commandListener: () => setOfflineMode(true),
+      },
+      {
+        tag: "menuitem",
+        label: getString("menuitem-offline-disable"),
+        isHidden: () => !isOfflineMode(),
+        commandListener: () => setOfflineMode(false),
+      },
+      { tag: "menuseparator" },
+      {
+        tag: "menuitem",
+        label: getString("menuitem-citation-inbox"),
+        commandListener: () => {
+          const win = Zotero.getMainWindow();
+          if (win) showCitationInboxDialog(win);
+        },
+      },
     ];
 
     if (isItem) {
@@ -156,6 +250,25 @@ export class ZInsMenu {
             _globalThis.inspire.toggleFavoritePaperFromMenu?.();
           },
         },
+        // New citations inbox: track the selected papers
+        {
+          tag: "menuitem",
+          label: getString("citation-inbox-menu-track"),
+          isHidden: () =>
+            getSelectedRegularItems().every((item) =>
+              isItemInCitationInbox(item),
+            ),
+          commandListener: () => this.setCitationInboxForSelection(true),
+        },
+        {
+          tag: "menuitem",
+          label: getString("citation-inbox-menu-untrack"),
+          isHidden: () =>
+            !getSelectedRegularItems().some((item) =>
+              isItemInCitationInbox(item),
+            ),
+          commandListener: () => this.setCitationInboxForSelection(false),
+        },
       );
     } else {
       // Citation graph actions for collections (FTR-CITATION-GRAPH / Phase 3.1)
@@ -168,6 +281,18 @@ export class ZInsMenu {
             _globalThis.inspire.openCombinedCitationGraphFromCollection?.();
           },
         },
+        {
+          tag: "menuitem",
+          label: getString("menuitem-library-network"),
+          commandListener: () => {
+            const win = Zotero.getMainWindow();
+            const collection =
+              Zotero.getActiveZoteroPane()?.getSelectedCollection();
+            if (win && collection) {
+              void showLibraryNetworkDialog(win, collection);
+            }
+          },
+        },
       );
 
       // Collection-specific actions (FTR-PREPRINT-WATCH)
@@ -214,11 +339,57 @@ export class ZInsMenu {
             _globalThis.inspire.reapplyCollabTagsToCollection?.();
           },
         },
+        // Scheduled citation refresh scope
+        { tag: "menuseparator" },
+        {
+          tag: "menuitem",
+          label: getString("citation-refresh-menu-include"),
+          isHidden: () => {
+            const collection = getSelectedCollection();
+            return !collection || isCollectionInCitationRefresh(collection);
+          },
+          commandListener: () => this.setCitationRefreshForSelection(true),
+        },
+        {
+          tag: "menuitem",
+          label: getString("citation-refresh-menu-exclude"),
+          isHidden: () => {
+            const collection = getSelectedCollection();
+            return !collection || !isCollectionInCitationRefresh(collection);
+          },
+          commandListener: () => this.setCitationRefreshForSelection(false),
+        },
+        // New citations inbox: track the collection's papers
+        {
+          tag: "menuitem",
+          label: getString("citation-inbox-menu-track-collection"),
+          isHidden: () => {
+            const collection = getSelectedCollection();
+            return !collection || isCollectionInCitationInbox(collection);
+          },
+          commandListener: () => this.setCitationInboxForCollection(true),
+        },
+        {
+          tag: "menuitem",
+          label: getString("citation-inbox-menu-untrack-collection"),
+          isHidden: () => {
+            const collection = getSelectedCollection();
+            return !collection || !isCollectionInCitationInbox(collection);
+          },
+          commandListener: () => this.setCitationInboxForCollection(false),
+        },
       );
     }
 
     children.push(
       { tag: "menuseparator" },
+      {
+        tag: "menuitem",
+        label: getString("menuitem-undo-last-batch"),
+        commandListener: () => {
+          _globalThis.inspire.undoLastInspireBatch?.();
+        },
+      },
       {
         tag: "menuitem",
         label: getString("menuitem-cancel-update"),
@@ -231,3 +402,13 @@ export class ZInsMenu {
     return children;
   }
 }
+
+function getSelectedCollection(): Zotero.Collection | undefined {
+  return Zotero.getActiveZoteroPane()?.getSelectedCollection() || undefined;
+}
+
+function getSelectedRegularItems(): Zotero.Item[] {
+  return (Zotero.getActiveZoteroPane()?.getSelectedItems() ?? []).filter(
+    (item) => item.isRegularItem(),
+  );
+}
@@ -8,6 +8,7 @@ import {
   API_FIELDS_FULL_UPDATE,
   API_FIELDS_AUTO_CHECK,
   API_FIELDS_LOOKUP,
+  API_FIELDS_CONTROL_NUMBER,
   buildFieldsParam,
 } from "./constants";
 import type { jsobject } from "./types";
@@ -15,6 +16,7 @@ import type {
   InspireAbstract,
   InspireLiteratureMetadata,
 } from "./apiTypes";
+import { isInspireLiteratureSearchResponse } from "./apiTypes";
 import { recidLookupCache } from "./apiUtils";
 import { inspireFetch } from "./rateLimiter";
 import { crossrefFetch } from "./crossrefService";
@@ -37,7 +39,7 @@ const URL_IDENTIFIER_REGEX = /(doi|arxiv|\/literature\/)/i;
 // Identifier Extraction (FTR-REFACTOR: Extracted for clarity)
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface ExtractedIdentifier {
+export interface ExtractedIdentifier {
   idtype: "doi" | "arxiv" | "literature";
   value: string;
   searchOrNot: 0 | 1;
@@ -50,7 +52,7 @@ interface ExtractedIdentifier {
  * @param item - Zotero item to extract identifier from
  * @returns Extracted identifier info, or null if not found
  */
-function extractIdentifierFromItem(
+export function extractIdentifierFromItem(
   item: Zotero.Item,
 ): ExtractedIdentifier | null {
   const doi0 = item.getField("DOI") as string;
@@ -125,6 +127,22 @@ function extractIdentifierFromItem(
 // INSPIRE Metadata Fetching
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * FTR-API-FIELD-OPTIMIZATION: Select fields based on operation type.
+ */
+function getFieldsForOperation(operation: string): string {
+  if (operation === "citations") {
+    return API_FIELDS_CITATIONS;
+  } else if (operation === "literatureLookup") {
+    return API_FIELDS_LOOKUP;
+  } else if (operation === "autoCheck") {
+    // Lightweight fields for smart update comparison (no abstracts)
+    return API_FIELDS_AUTO_CHECK;
+  }
+  // For full update or abstract operations, use full fields
+  return API_FIELDS_FULL_UPDATE;
+}
+
 export async function getInspireMeta(
   item: Zotero.Item,
   operation: string,
@@ -139,19 +157,7 @@ export async function getInspireMeta(
   const extra = item.getField("extra") as string;
   const t0 = performance.now();
 
-  // FTR-API-FIELD-OPTIMIZATION: Select fields based on operation type
-  let fieldsParam = "";
-  if (operation === "citations") {
-    fieldsParam = buildFieldsParam(API_FIELDS_CITATIONS);
-  } else if (operation === "literatureLookup") {
-    fieldsParam = buildFieldsParam(API_FIELDS_LOOKUP);
-  } else if (operation === "autoCheck") {
-    // Lightweight fields for smart update comparison (no abstracts)
-    fieldsParam = buildFieldsParam(API_FIELDS_AUTO_CHECK);
-  } else {
-    // For full update or abstract operations, use full fields
-    fieldsParam = buildFieldsParam(API_FIELDS_FULL_UPDATE);
-  }
+  const fieldsParam = buildFieldsParam(getFieldsForOperation(operation));
 
   let urlInspire = "";
   if (searchOrNot === 0) {
@@ -213,6 +219,188 @@ export async function getInspireMeta(
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Batched Metadata Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Identifiers per search request. Full records carry author lists (thousands
+ * of names for large collaborations), so those batches are kept small.
+ */
+const META_BATCH_SIZE_CITATIONS = 50;
+const META_BATCH_SIZE_FULL = 10;
+
+/** Search field per identifier type (`literature` = recid). */
+const BATCH_QUERY_FIELDS: Record<ExtractedIdentifier["idtype"], string> = {
+  doi: "doi",
+  arxiv: "arxiv",
+  literature: "control_number",
+};
+
+export interface MetaBatchProgress {
+  done: number;
+  total: number;
+}
+
+function normalizeBatchIdentifier(
+  idtype: ExtractedIdentifier["idtype"],
+  value: string,
+): string {
+  const trimmed = value.trim();
+  if (idtype === "doi") return trimmed.toLowerCase();
+  if (idtype === "arxiv")
+    return trimmed.replace(/^arxiv:/i, "").replace(/v\d+$/, "");
+  return trimmed;
+}
+
+/** Identifiers of one type that a search hit answers for. */
+function hitIdentifiers(
+  idtype: ExtractedIdentifier["idtype"],
+  meta: InspireLiteratureMetadata,
+): string[] {
+  if (idtype === "doi") {
+    return (meta.dois ?? []).map((d) => d.value.toLowerCase());
+  }
+  if (idtype === "arxiv") {
+    return (meta.arxiv_eprints ?? []).map((e) => e.value);
+  }
+  return meta.control_number != null ? [String(meta.control_number)] : [];
+}
+
+/**
+ * Build the batch search query, e.g. `doi:"10.1/a" OR doi:"10.1/b"`.
+ * Exported for unit testing.
+ */
+export function buildBatchIdentifierQuery(
+  idtype: ExtractedIdentifier["idtype"],
+  values: string[],
+): string {
+  const field = BATCH_QUERY_FIELDS[idtype];
+  return values
+    .map((value) =>
+      idtype === "literature" ? `${field}:${value}` : `${field}:"${value}"`,
+    )
+    .join(" OR ");
+}
+
+/**
+ * Resolve INSPIRE metadata for many items with one search per batch of
+ * identifiers instead of one request per item. Items are grouped by the
+ * identifier {@link extractIdentifierFromItem} picks (DOI, arXiv or recid).
+ *
+ * The result maps item ID to metadata for identifiers with exactly one hit.
+ * Items that are missing from the map — identifiers with no or several hits
+ * (merged records, DOIs shared by several records, identifiers written in
+ * another form), citation-key lookups, failed batches, or batches skipped
+ * after cancellation — should go through {@link getInspireMeta} as before.
+ */
+export async function resolveInspireMetaBatch(
+  items: Zotero.Item[],
+  operation: string,
+  options: {
+    signal?: AbortSignal;
+    isCancelled?: () => boolean;
+    onProgress?: (progress: MetaBatchProgress) => void;
+  } = {},
+): Promise<Map<number, jsobject>> {
+  const results = new Map<number, jsobject>();
+
+  // idtype -> normalized identifier -> items
+  const groups = new Map<
+    ExtractedIdentifier["idtype"],
+    Map<string, Zotero.Item[]>
+  >();
+  for (const item of items) {
+    const identifier = extractIdentifierFromItem(item);
+    if (!identifier || identifier.searchOrNot !== 0 || !identifier.value) {
+      continue;
+    }
+    const value = normalizeBatchIdentifier(identifier.idtype, identifier.value);
+    if (!value) continue;
+    let byValue = groups.get(identifier.idtype);
+    if (!byValue) {
+      byValue = new Map();
+      groups.set(identifier.idtype, byValue);
+    }
+    const list = byValue.get(value) ?? [];
+    list.push(item);
+    byValue.set(value, list);
+  }
+
+  const batchSize =
+    operation === "citations"
+      ? META_BATCH_SIZE_CITATIONS
+      : META_BATCH_SIZE_FULL;
+  // Identifier fields are needed to map hits back to items
+  const fields = `${getFieldsForOperation(operation)},control_number,dois,arxiv_eprints`;
+  const total = [...groups.values()].reduce((n, m) => n + m.size, 0);
+  let done = 0;
+
+  for (const [idtype, byValue] of groups) {
+    const values = [...byValue.keys()];
+    for (let i = 0; i < values.length; i += batchSize) {
+      if (options.signal?.aborted || options.isCancelled?.()) {
+        return results;
+      }
+      const batch = values.slice(i, i + batchSize);
+      const query = buildBatchIdentifierQuery(idtype, batch);
+      const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${batch.length * 2}${buildFieldsParam(fields)}`;
+      const response = await inspireFetch(url, {
+        signal: options.signal,
+        requestPriority: "background",
+      }).catch(() => null);
+      const payload = response?.ok
+        ? ((await response.json().catch(() => null)) as unknown)
+        : null;
+
+      if (
+        isInspireLiteratureSearchResponse(payload) &&
+        payload.hits.total > payload.hits.hits.length
+      ) {
+        // A cut-off page can hold one of two records sharing an identifier,
+        // which would look unique: leave the whole batch to single lookups
+        Zotero.debug(
+          `[${config.addonName}] resolveInspireMetaBatch: ${idtype} batch truncated (${payload.hits.hits.length} of ${payload.hits.total} hits), falling back to single lookups`,
+        );
+      } else if (isInspireLiteratureSearchResponse(payload)) {
+        // Only unique hits are taken; the single lookup also follows merged
+        // records and resolves DOIs shared by two records (e.g. conference +
+        // proceedings)
+        const matches = new Map<string, InspireLiteratureMetadata[]>();
+        for (const hit of payload.hits.hits) {
+          if (!hit.metadata) continue;
+          for (const id of hitIdentifiers(idtype, hit.metadata)) {
+            const list = matches.get(id) ?? [];
+            list.push(hit.metadata);
+            matches.set(id, list);
+          }
+        }
+        for (const value of batch) {
+          const found = matches.get(value);
+          if (found?.length !== 1) continue;
+          let meta: jsobject;
+          try {
+            meta = buildMetaFromMetadata(found[0], operation);
+          } catch (_err) {
+            continue;
+          }
+          for (const item of byValue.get(value) ?? []) {
+            results.set(item.id, meta);
+          }
+        }
+      } else {
+        Zotero.debug(
+          `[${config.addonName}] resolveInspireMetaBatch: ${idtype} batch failed (HTTP ${response?.status ?? "n/a"}), falling back to single lookups`,
+        );
+      }
+
+      done += batch.length;
+      options.onProgress?.({ done, total });
+    }
+  }
+  return results;
+}
+
 export async function fetchRecidFromInspire(
   item: Zotero.Item,
   signal?: AbortSignal,
@@ -291,6 +479,34 @@ export async function fetchInspireMetaByRecid(
   }
 }
 
+/**
+ * Run an INSPIRE literature search and return only the matching recids
+ * (first page, at most `size`). Returns null when the request fails so callers
+ * can tell "no hits" apart from "INSPIRE unreachable / invalid query".
+ */
+export async function searchInspireRecids(
+  query: string,
+  size: number,
+  sort: string = "mostrecent",
+  signal?: AbortSignal,
+): Promise<{ total: number; recids: string[] } | null> {
+  const fieldsParam = buildFieldsParam(API_FIELDS_CONTROL_NUMBER);
+  const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${size}&page=1&sort=${encodeURIComponent(sort)}${fieldsParam}`;
+  const response = await inspireFetch(url, { signal }).catch(() => null);
+  if (!response || !response.ok) {
+    return null;
+  }
+  const payload = (await response.json()) as unknown;
+  if (!isInspireLiteratureSearchResponse(payload)) {
+    return null;
+  }
+  const recids = payload.hits.hits
+    .map((hit) => hit.metadata?.control_number ?? hit.id)
+    .filter((recid) => recid !== undefined && recid !== null)
+    .map((recid) => String(recid));
+  return { total: payload.hits.total, recids };
+}
+
 /**
  * Fetch only the abstract for a given recid from INSPIRE API.
  * FTR-PERF-ABSTRACT: Uses lightweight endpoint (only abstracts field) instead
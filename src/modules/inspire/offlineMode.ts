@@ -0,0 +1,357 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Offline Mode - Network kill-switch for INSPIRE and CrossRef
+// While the `offline_mode` preference is on, inspireFetch and crossrefFetch
+// make no requests and services answer from the local cache, ignoring TTL.
+// Data that was requested but is not cached is queued and fetched in the
+// background once the preference is turned off again.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { getPref, setPref } from "../../utils/prefs";
+import { INSPIRE_SORT_OPTIONS, type InspireSortOption } from "./constants";
+import type {
+  AuthorSearchInfo,
+  CitationGraphSortMode,
+  LocalCacheType,
+} from "./types";
+// NOTE: services are imported lazily in fetchIntoCache; they import this
+// module for isOfflineMode().
+
+const QUEUE_FILE_NAME = "zoteroinspire-offline-queue.json";
+const QUEUE_VERSION = 1;
+/** Oldest requests are dropped beyond this */
+const MAX_QUEUED_REQUESTS = 500;
+
+export type OfflineFetchRequest =
+  | { kind: "references"; recid: string }
+  | { kind: "cited"; recid: string; sort: InspireSortOption }
+  | {
+      kind: "citation_graph";
+      recid: string;
+      sort?: CitationGraphSortMode;
+      includeReviews: boolean;
+    }
+  | { kind: "author_profile"; author: AuthorSearchInfo };
+
+interface QueuedRequest {
+  request: OfflineFetchRequest;
+  queuedAt: number;
+}
+
+interface OfflineQueueFile {
+  version: number;
+  requests: QueuedRequest[];
+}
+
+export interface OfflineQueueResult {
+  fetched: number;
+  failed: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Mode
+// ─────────────────────────────────────────────────────────────────────────────
+
+type OfflineModeListener = (offline: boolean) => void;
+const listeners = new Set<OfflineModeListener>();
+
+export function isOfflineMode(): boolean {
+  return getPref("offline_mode") === true;
+}
+
+/** Turn offline mode on or off; the preference observer does the rest. */
+export function setOfflineMode(offline: boolean): void {
+  setPref("offline_mode", offline);
+}
+
+export function onOfflineModeChange(callback: OfflineModeListener): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Called by the preference observer: notifies listeners and, when going
+ * back online, starts fetching the queued requests.
+ */
+export function handleOfflineModeChange(): Promise<OfflineQueueResult> {
+  const offline = isOfflineMode();
+  Zotero.debug(
+    `[${config.addonName}] Offline mode ${offline ? "enabled" : "disabled"}`,
+  );
+  for (const listener of listeners) {
+    try {
+      listener(offline);
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Offline mode listener error: ${err}`);
+    }
+  }
+  return offline
+    ? Promise.resolve({ fetched: 0, failed: 0 })
+    : processOfflineQueue();
+}
+
+/** Error thrown instead of making a request while offline mode is on. */
+export function createOfflineError(): Error {
+  const err = new Error("INSPIRE offline mode is on");
+  err.name = "OfflineError";
+  return err;
+}
+
+export function isOfflineError(err: unknown): boolean {
+  return (err as any)?.name === "OfflineError";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queue of data requested while offline
+// ─────────────────────────────────────────────────────────────────────────────
+
+let queue: QueuedRequest[] | null = null;
+let queueLoad: Promise<QueuedRequest[]> | null = null;
+let processing: Promise<OfflineQueueResult> | null = null;
+
+function getQueuePath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, QUEUE_FILE_NAME);
+}
+
+export function getOfflineRequestKey(request: OfflineFetchRequest): string {
+  switch (request.kind) {
+    case "references":
+      return `references:${request.recid}`;
+    case "cited":
+      return `cited:${request.recid}:${request.sort}`;
+    case "citation_graph":
+      return `citation_graph:${request.recid}:${request.sort ?? ""}:${request.includeReviews ? 1 : 0}`;
+    case "author_profile": {
+      const { recid, bai, fullName } = request.author;
+      return `author_profile:${recid || bai || fullName}`;
+    }
+  }
+}
+
+async function loadQueue(): Promise<QueuedRequest[]> {
+  if (queue) return queue;
+  if (!queueLoad) {
+    queueLoad = (async () => {
+      let loaded: QueuedRequest[] = [];
+      try {
+        const path = getQueuePath();
+        if (await IOUtils.exists(path)) {
+          const data = (await IOUtils.readJSON(path)) as OfflineQueueFile;
+          if (data?.version === QUEUE_VERSION && Array.isArray(data.requests)) {
+            loaded = data.requests;
+          }
+        }
+      } catch (err) {
+        Zotero.debug(
+          `[${config.addonName}] Failed to load offline queue: ${err}`,
+        );
+      }
+      queue = loaded;
+      return loaded;
+    })().finally(() => {
+      queueLoad = null;
+    });
+  }
+  return queueLoad;
+}
+
+async function saveQueue(requests: QueuedRequest[]): Promise<void> {
+  try {
+    const data: OfflineQueueFile = { version: QUEUE_VERSION, requests };
+    await IOUtils.writeJSON(getQueuePath(), data);
+  } catch (err) {
+    Zotero.debug(`[${config.addonName}] Failed to save offline queue: ${err}`);
+  }
+}
+
+/** Remember data that was requested while offline; duplicates are ignored. */
+export async function queueOfflineFetch(
+  request: OfflineFetchRequest,
+): Promise<void> {
+  const requests = await loadQueue();
+  const key = getOfflineRequestKey(request);
+  if (requests.some((q) => getOfflineRequestKey(q.request) === key)) return;
+  requests.push({ request, queuedAt: Date.now() });
+  if (requests.length > MAX_QUEUED_REQUESTS) {
+    requests.splice(0, requests.length - MAX_QUEUED_REQUESTS);
+  }
+  await saveQueue(requests);
+}
+
+export async function getOfflineQueue(): Promise<OfflineFetchRequest[]> {
+  return (await loadQueue()).map((q) => q.request);
+}
+
+/**
+ * Fetch everything queued while offline, oldest first, at background
+ * priority. Each request is attempted once; failures are logged and dropped.
+ * Stops (keeping the rest) if offline mode is turned on again.
+ */
+export function processOfflineQueue(): Promise<OfflineQueueResult> {
+  if (!processing) {
+    processing = processOfflineQueueNow().finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+async function processOfflineQueueNow(): Promise<OfflineQueueResult> {
+  const result: OfflineQueueResult = { fetched: 0, failed: 0 };
+  const requests = await loadQueue();
+  while (requests.length && !isOfflineMode()) {
+    const { request } = requests[0];
+    try {
+      await fetchIntoCache(request);
+      result.fetched++;
+    } catch (err) {
+      result.failed++;
+      Zotero.debug(
+        `[${config.addonName}] Offline queue fetch failed (${getOfflineRequestKey(request)}): ${err}`,
+      );
+    }
+    requests.shift();
+    await saveQueue(requests);
+  }
+  if (result.fetched || result.failed) {
+    Zotero.debug(
+      `[${config.addonName}] Offline queue: ${result.fetched} fetched, ${result.failed} failed`,
+    );
+  }
+  return result;
+}
+
+/**
+ * Fetch the data of a request at background priority and store it in the
+ * local cache. With `force`, cached copies are not reused.
+ */
+export async function fetchIntoCache(
+  request: OfflineFetchRequest,
+  options: { force?: boolean } = {},
+): Promise<void> {
+  const { localCache } = await import("./localCache");
+  switch (request.kind) {
+    case "references": {
+      const { fetchReferencesEntries, enrichReferencesEntries } =
+        await import("./referencesService");
+      const entries = await fetchReferencesEntries(request.recid, {
+        requestPriority: "background",
+      });
+      await enrichReferencesEntries(entries, { requestPriority: "background" });
+      await localCache.set(
+        "refs",
+        request.recid,
+        entries,
+        undefined,
+        entries.length,
+      );
+      return;
+    }
+    case "cited": {
+      const { fetchInspireSearch } = await import("./panel/SearchService");
+      const { CITED_BY_MAX_RESULTS } = await import("./constants");
+      const entries = await fetchInspireSearch({
+        query: `refersto:recid:${request.recid}`,
+        sort: request.sort,
+      });
+      // Same layout as the panel: complete lists are stored without sort
+      const complete = entries.length < CITED_BY_MAX_RESULTS;
+      await localCache.set(
+        "cited",
+        request.recid,
+        entries,
+        complete ? undefined : request.sort,
+        entries.length,
+      );
+      return;
+    }
+    case "citation_graph": {
+      const { fetchCitationGraphOneHop } =
+        await import("./citationGraphService");
+      // Caches the result itself
+      await fetchCitationGraphOneHop(request.recid, {
+        sort: request.sort,
+        includeReviews: request.includeReviews,
+        requestPriority: "background",
+        forceRefresh: options.force,
+      });
+      return;
+    }
+    case "author_profile": {
+      const { fetchAuthorProfile, clearAuthorProfileCache } =
+        await import("./authorProfileService");
+      if (options.force) {
+        // Stored profiles are served regardless of age
+        clearAuthorProfileCache();
+        const key = request.author.recid || `bai:${request.author.bai}`;
+        await localCache.delete("author_profile", key);
+      }
+      const profile = await fetchAuthorProfile(request.author);
+      if (!profile) throw new Error("Author profile not found");
+      return;
+    }
+  }
+}
+
+// Cache entry names: `${type}_${key}` plus an optional `_${sort}` suffix with
+// non-alphanumerics removed (see localCache)
+const CITED_NAME_RE = /^cited_(\d+)(?:_([a-z]+))?$/;
+const GRAPH_NAME_RE =
+  /^citation_graph_(\d+)_cg(relevance|mostrecent|mostcited)rv([01])$/;
+const AUTHOR_NAME_RE = /^author_profile_(?:(\d+)|bai_(.+))$/;
+
+/**
+ * The request that fetches the data of a cache entry again, or null for
+ * types that are filled as a side effect of other views and cannot be
+ * fetched on their own (or names that do not carry the full key).
+ */
+export function getCacheEntryRequest(
+  type: LocalCacheType,
+  name: string,
+): OfflineFetchRequest | null {
+  switch (type) {
+    case "refs": {
+      const recid = /^refs_(\d+)$/.exec(name)?.[1];
+      return recid ? { kind: "references", recid } : null;
+    }
+    case "cited": {
+      const match = CITED_NAME_RE.exec(name);
+      if (!match) return null;
+      const sort = (INSPIRE_SORT_OPTIONS as readonly string[]).includes(
+        match[2],
+      )
+        ? (match[2] as InspireSortOption)
+        : "mostrecent";
+      return { kind: "cited", recid: match[1], sort };
+    }
+    case "citation_graph": {
+      const match = GRAPH_NAME_RE.exec(name);
+      if (!match) return null;
+      return {
+        kind: "citation_graph",
+        recid: match[1],
+        sort: match[2] as CitationGraphSortMode,
+        includeReviews: match[3] === "1",
+      };
+    }
+    case "author_profile": {
+      const match = AUTHOR_NAME_RE.exec(name);
+      if (!match) return null;
+      return {
+        kind: "author_profile",
+        author: match[1]
+          ? { fullName: "", recid: match[1] }
+          : { fullName: "", bai: match[2] },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Forget the loaded queue (tests). */
+export function resetOfflineQueueState(): void {
+  queue = null;
+  queueLoad = null;
+  processing = null;
+}
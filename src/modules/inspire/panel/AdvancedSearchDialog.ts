@@ -0,0 +1,323 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// AdvancedSearchDialog - Structured form for INSPIRE searches
+// One input per common field (author, title, full text, journal, eprint,
+// collaboration, date range, citations, refersto/citedby record ids). The
+// form is serialized with buildSearchQuery and the query, checked by
+// validateSearchQuery, is previewed live; Search hands it back to the panel.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { FluentMessageId } from "../../../../typings/i10n";
+import { getString } from "../../../utils/locale";
+import {
+  buildSearchQuery,
+  validateSearchQuery,
+  type AdvancedSearchFields,
+} from "../searchSyntax";
+
+const OVERLAY_ID = "zinspire-advanced-search-overlay";
+
+type TextFieldKey = Exclude<keyof AdvancedSearchFields, "match">;
+
+/** Form rows; date and citation rows hold two inputs */
+const FORM_ROWS: Array<{
+  label: FluentMessageId;
+  inputs: Array<{ key: TextFieldKey; placeholder?: string; width?: string }>;
+}> = [
+  {
+    label: "references-panel-advanced-search-author",
+    inputs: [{ key: "author", placeholder: "Witten, E; Maldacena, J" }],
+  },
+  {
+    label: "references-panel-advanced-search-title",
+    inputs: [{ key: "title", placeholder: "dark matter" }],
+  },
+  {
+    label: "references-panel-advanced-search-fulltext",
+    inputs: [{ key: "fulltext" }],
+  },
+  {
+    label: "references-panel-advanced-search-journal",
+    inputs: [{ key: "journal", placeholder: "Phys.Rev.D,105" }],
+  },
+  {
+    label: "references-panel-advanced-search-eprint",
+    inputs: [{ key: "eprint", placeholder: "2101.00001" }],
+  },
+  {
+    label: "references-panel-advanced-search-collaboration",
+    inputs: [{ key: "collaboration", placeholder: "ATLAS" }],
+  },
+  {
+    label: "references-panel-advanced-search-date",
+    inputs: [
+      { key: "dateFrom", placeholder: "2015", width: "80px" },
+      { key: "dateTo", placeholder: "2024", width: "80px" },
+    ],
+  },
+  {
+    label: "references-panel-advanced-search-min-citations",
+    inputs: [{ key: "minCitations", placeholder: "100", width: "80px" }],
+  },
+  {
+    label: "references-panel-advanced-search-refersto",
+    inputs: [{ key: "refersTo", placeholder: "recid", width: "120px" }],
+  },
+  {
+    label: "references-panel-advanced-search-citedby",
+    inputs: [{ key: "citedBy", placeholder: "recid", width: "120px" }],
+  },
+];
+
+// Form values of the last search, restored when the dialog is reopened
+let lastFields: AdvancedSearchFields = {};
+
+function styleButton(button: HTMLButtonElement, primary = false) {
+  button.style.padding = "6px 12px";
+  button.style.border = primary
+    ? "none"
+    : "1px solid var(--fill-quinary, #ccc)";
+  button.style.borderRadius = "4px";
+  button.style.background = primary
+    ? "#0066cc"
+    : "var(--material-background, #fff)";
+  button.style.color = primary ? "#fff" : "inherit";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+}
+
+/**
+ * Show the advanced search form over the panel's document.
+ * Resolves with the query to search, or null when cancelled.
+ */
+export function showAdvancedSearchDialog(
+  doc: Document,
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    doc.getElementById(OVERLAY_ID)?.remove();
+
+    const fields: AdvancedSearchFields = { ...lastFields };
+    const inputs = new Map<TextFieldKey, HTMLInputElement>();
+
+    // Create overlay
+    const overlay = doc.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.position = "fixed";
+    overlay.style.top = "0";
+    overlay.style.left = "0";
+    overlay.style.width = "100%";
+    overlay.style.height = "100%";
+    overlay.style.zIndex = "10000";
+    overlay.style.backgroundColor = "rgba(0, 0, 0, 0.4)";
+    overlay.style.display = "flex";
+    overlay.style.alignItems = "center";
+    overlay.style.justifyContent = "center";
+
+    // Create panel
+    const panel = doc.createElement("div");
+    panel.style.backgroundColor = "var(--material-background, #fff)";
+    panel.style.color = "var(--fill-primary, #000)";
+    panel.style.border = "1px solid var(--fill-quinary, #ccc)";
+    panel.style.borderRadius = "8px";
+    panel.style.boxShadow = "0 4px 24px rgba(0, 0, 0, 0.25)";
+    panel.style.display = "flex";
+    panel.style.flexDirection = "column";
+    panel.style.fontSize = "13px";
+    panel.style.maxWidth = "520px";
+    panel.style.width = "90%";
+    panel.style.maxHeight = "85vh";
+    panel.style.overflow = "hidden";
+    overlay.appendChild(panel);
+
+    // Header
+    const header = doc.createElement("div");
+    header.style.padding = "12px 16px";
+    header.style.fontWeight = "600";
+    header.style.fontSize = "14px";
+    header.style.borderBottom = "1px solid var(--fill-quinary, #eee)";
+    header.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    header.style.borderRadius = "8px 8px 0 0";
+    header.textContent = getString("references-panel-advanced-search-heading");
+    panel.appendChild(header);
+
+    // Form
+    const form = doc.createElement("div");
+    form.style.flex = "1";
+    form.style.overflowY = "auto";
+    form.style.padding = "12px 16px";
+    form.style.display = "grid";
+    form.style.gridTemplateColumns = "max-content 1fr";
+    form.style.gap = "8px 12px";
+    form.style.alignItems = "center";
+    panel.appendChild(form);
+
+    for (const row of FORM_ROWS) {
+      const label = doc.createElement("label");
+      label.textContent = getString(row.label);
+      label.style.fontSize = "12px";
+      form.appendChild(label);
+
+      const cell = doc.createElement("div");
+      cell.style.display = "flex";
+      cell.style.alignItems = "center";
+      cell.style.gap = "6px";
+      row.inputs.forEach((spec, index) => {
+        if (index > 0) {
+          const dash = doc.createElement("span");
+          dash.textContent = "–";
+          cell.appendChild(dash);
+        }
+        const input = doc.createElement("input");
+        input.type = "text";
+        input.value = fields[spec.key] ?? "";
+        input.placeholder = spec.placeholder ?? "";
+        input.setAttribute("spellcheck", "false");
+        input.style.padding = "4px 6px";
+        input.style.fontSize = "12px";
+        input.style.border = "1px solid var(--fill-quinary, #ccc)";
+        input.style.borderRadius = "4px";
+        if (spec.width) {
+          input.style.width = spec.width;
+        } else {
+          input.style.flex = "1";
+        }
+        input.id = `${OVERLAY_ID}-${spec.key}`;
+        if (index === 0) label.htmlFor = input.id;
+        input.addEventListener("input", () => {
+          fields[spec.key] = input.value;
+          updatePreview();
+        });
+        inputs.set(spec.key, input);
+        cell.appendChild(input);
+      });
+      form.appendChild(cell);
+    }
+
+    // Combine clauses with and / or
+    const matchLabel = doc.createElement("label");
+    matchLabel.textContent = getString(
+      "references-panel-advanced-search-match",
+    );
+    matchLabel.style.fontSize = "12px";
+    form.appendChild(matchLabel);
+    const matchSelect = doc.createElement("select");
+    matchSelect.style.justifySelf = "start";
+    matchSelect.style.fontSize = "12px";
+    for (const value of ["all", "any"] as const) {
+      const option = doc.createElement("option");
+      option.value = value;
+      option.textContent = getString(
+        `references-panel-advanced-search-match-${value}`,
+      );
+      matchSelect.appendChild(option);
+    }
+    matchSelect.value = fields.match ?? "all";
+    matchSelect.addEventListener("change", () => {
+      fields.match = matchSelect.value === "any" ? "any" : "all";
+      updatePreview();
+    });
+    form.appendChild(matchSelect);
+
+    // Query preview
+    const preview = doc.createElement("div");
+    preview.style.padding = "10px 16px";
+    preview.style.borderTop = "1px solid var(--fill-quinary, #eee)";
+    const previewQuery = doc.createElement("code");
+    previewQuery.style.display = "block";
+    previewQuery.style.fontSize = "12px";
+    previewQuery.style.wordBreak = "break-word";
+    previewQuery.style.userSelect = "text";
+    const previewError = doc.createElement("div");
+    previewError.style.marginTop = "4px";
+    previewError.style.fontSize = "11px";
+    previewError.style.color = "#dc2626";
+    preview.append(previewQuery, previewError);
+    panel.appendChild(preview);
+
+    // Actions bar
+    const actions = doc.createElement("div");
+    actions.style.padding = "12px 16px";
+    actions.style.display = "flex";
+    actions.style.justifyContent = "flex-end";
+    actions.style.gap = "8px";
+    actions.style.borderTop = "1px solid var(--fill-quinary, #eee)";
+    actions.style.backgroundColor = "var(--material-sidepane, #f5f5f5)";
+    actions.style.borderRadius = "0 0 8px 8px";
+
+    const clearBtn = doc.createElement("button");
+    clearBtn.textContent = getString("references-panel-advanced-search-clear");
+    styleButton(clearBtn);
+    clearBtn.style.marginRight = "auto";
+    const cancelBtn = doc.createElement("button");
+    cancelBtn.textContent = getString(
+      "references-panel-advanced-search-cancel",
+    );
+    styleButton(cancelBtn);
+    const searchBtn = doc.createElement("button");
+    searchBtn.textContent = getString(
+      "references-panel-advanced-search-submit",
+    );
+    styleButton(searchBtn, true);
+    actions.append(clearBtn, cancelBtn, searchBtn);
+    panel.appendChild(actions);
+
+    let query = "";
+    const updatePreview = () => {
+      query = buildSearchQuery(fields);
+      const issues = query ? validateSearchQuery(query) : [];
+      previewQuery.textContent =
+        query || getString("references-panel-advanced-search-empty");
+      previewQuery.style.opacity = query ? "1" : "0.6";
+      previewError.textContent = issues.length
+        ? getString(`references-panel-search-error-${issues[0].code}`, {
+            args: { token: issues[0].text },
+          })
+        : "";
+      searchBtn.disabled = !query || issues.length > 0;
+      searchBtn.style.opacity = searchBtn.disabled ? "0.5" : "1";
+    };
+
+    // Add to document
+    doc.documentElement.appendChild(overlay);
+
+    let isFinished = false;
+
+    const finish = (result: string | null) => {
+      if (isFinished) return;
+      isFinished = true;
+      if (result) lastFields = { ...fields };
+      overlay.remove();
+      doc.removeEventListener("keydown", onKeyDown, true);
+      resolve(result);
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        event.stopPropagation();
+        finish(null);
+      } else if (event.key === "Enter" && !searchBtn.disabled) {
+        event.preventDefault();
+        event.stopPropagation();
+        finish(query);
+      }
+    };
+
+    clearBtn.addEventListener("click", () => {
+      for (const key of inputs.keys()) delete fields[key];
+      for (const input of inputs.values()) input.value = "";
+      updatePreview();
+      inputs.get("author")?.focus();
+    });
+    cancelBtn.addEventListener("click", () => finish(null));
+    searchBtn.addEventListener("click", () => {
+      if (!searchBtn.disabled) finish(query);
+    });
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) finish(null);
+    });
+    doc.addEventListener("keydown", onKeyDown, true);
+
+    updatePreview();
+    inputs.get("author")?.focus();
+  });
+}
@@ -9,20 +9,50 @@ import {
 import { invalidateDarkModeCache, isDarkMode } from "../styles";
 import type { CitationGraphSortMode } from "../citationGraphService";
 import {
+  collapseCitationGraphNode,
+  fetchCitationGraphExpansion,
   fetchMultiSeedCitationGraph,
   fetchMultiSeedCitationGraphCached,
+  getCitationGraphDisplayedRecids,
+  mergeCitationGraphExpansion,
 } from "../citationGraphMultiSeedService";
 import {
+  CITATION_PATH_MAX_DEPTH,
+  CITATION_PATH_MAX_EXPANSIONS,
   DEFAULT_CITATION_GRAPH_SORT,
   INSPIRE_LITERATURE_URL,
   INSPIRE_API_BASE,
   buildFieldsParam,
 } from "../constants";
-import { createAbortControllerWithSignal, ReaderTabHelper } from "../utils";
+import {
+  createAbortControllerWithSignal,
+  escapeCsvCell,
+  ReaderTabHelper,
+} from "../utils";
 import { copyToClipboard, deriveRecidFromItem, findItemByRecid } from "../apiUtils";
 import { fetchReferencesEntries } from "../referencesService";
+import {
+  buildCitationGraphExport,
+  CITATION_GRAPH_EXPORT_FORMATS,
+  type CitationGraphExportFormat,
+} from "../citationGraphExport";
+import {
+  bundleEdges,
+  computeClusterCenters,
+  computeForceLayout,
+  detectCitationCommunities,
+  extractClusterTerms,
+  type LayoutPoint,
+} from "../citationGraphLayout";
+import {
+  findCitationPaths,
+  type CitationPath,
+  type CitationPathResult,
+} from "../citationPathService";
 import type {
   CitationGraphEdgeData,
+  CitationGraphEdgeType,
+  CitationGraphLayoutMode,
   CitationGraphNodeData,
   CitationGraphSaveData,
   FavoritePaper,
@@ -33,11 +63,10 @@ import type {
 import { inspireFetch } from "../rateLimiter";
 import {
   fetchBibTeX,
-  fetchInspireMetaByRecid,
   fetchInspireTexkey,
 } from "../metadataService";
 import { localCache } from "../localCache";
-import { saveItemWithPendingInspireNote, setInspireMeta } from "../itemUpdater";
+import { importInspireRecord } from "../itemUpdater";
 import { HoverPreviewController } from "./HoverPreviewController";
 
 type RecidSnapshot = { recid: string; title?: string; authorLabel?: string };
@@ -45,6 +74,23 @@ type NavSnapshot = { seeds: RecidSnapshot[]; currentRecid: string };
 type TimeZoomDomain = { fullMin: number; fullMax: number; zoomMin: number; zoomMax: number };
 
 const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Clustered layout: one colour per community (largest first), grey for
+// papers without edges to the rest of the graph.
+const CLUSTER_COLORS = [
+  "#2563eb",
+  "#dc2626",
+  "#16a34a",
+  "#d97706",
+  "#9333ea",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+  "#ea580c",
+  "#4f46e5",
+];
+const CLUSTER_LOOSE_COLOR = "#94a3b8";
+const CLUSTER_LEGEND_MAX_ROWS = 8;
 const ICON_SVG_NS = "http://www.w3.org/2000/svg";
 
 function buildCitationGraphIconSvg(isDark: boolean): string {
@@ -104,6 +150,7 @@ export class CitationGraphDialog {
   private current: RecidSnapshot;
   private seeds: RecidSnapshot[] = [];
   private sort: CitationGraphSortMode = DEFAULT_CITATION_GRAPH_SORT;
+  private layout: CitationGraphLayoutMode = "timeline";
   private includeReviews = false;
   private refreshLoading = false;
 
@@ -112,6 +159,8 @@ export class CitationGraphDialog {
   private exportBtn?: HTMLButtonElement;
   private loadBtn?: HTMLButtonElement;
   private connectionsBtn?: HTMLButtonElement;
+  private layoutBtn?: HTMLButtonElement;
+  private pathBtn?: HTMLButtonElement;
   private toolbarMenuEl?: HTMLDivElement;
   private toolbarMenuCleanup?: () => void;
   private seedsPanelEl?: HTMLDivElement;
@@ -121,6 +170,16 @@ export class CitationGraphDialog {
   private allConnectionsGraphKey?: string;
   private connectionsAbort?: AbortController;
   private connectionsLoading = false;
+  private expandAbort?: AbortController;
+  private expandSeq = 0;
+  /** Nodes whose expansion is in flight, mapped to the request token. */
+  private expandingRecids = new Map<string, number>();
+  /** Bumped by each restore of expansions; older restores stop. */
+  private restoreSeq = 0;
+  /** First end of a citation path picked with Alt+click. */
+  private pathStart?: RecidSnapshot;
+  private pathAbort?: AbortController;
+  private pathOverlayEl?: HTMLDivElement;
 
   private addSeedOverlayEl?: HTMLDivElement;
   private addSeedSearchAbort?: AbortController;
@@ -161,7 +220,7 @@ export class CitationGraphDialog {
   constructor(
     doc: Document,
     seed: RecidSnapshot | RecidSnapshot[],
-    options?: { onDispose?: () => void },
+    options?: { onDispose?: () => void; pathTo?: RecidSnapshot },
   ) {
     this.doc = doc;
     this.onDispose = options?.onDispose;
@@ -175,6 +234,9 @@ export class CitationGraphDialog {
     this.current = this.seeds[0] ?? { recid: "" };
     this.buildUI();
     void this.loadSeeds(this.seeds);
+    if (options?.pathTo && this.current.recid) {
+      this.openPathOverlay(this.current, options.pathTo);
+    }
   }
 
   dispose(): void {
@@ -188,6 +250,10 @@ export class CitationGraphDialog {
     this.abort = undefined;
     this.connectionsAbort?.abort();
     this.connectionsAbort = undefined;
+    this.expandAbort?.abort();
+    this.expandAbort = undefined;
+    this.pathAbort?.abort();
+    this.pathAbort = undefined;
     this.addSeedSearchAbort?.abort();
     this.addSeedSearchAbort = undefined;
     if (this.addSeedSearchTimer) {
@@ -219,6 +285,8 @@ export class CitationGraphDialog {
     this.addSeedOverlayEl = undefined;
     this.addSeedSearchResultsEl = undefined;
     this.addSeedZoteroSearchResultsEl = undefined;
+    this.pathOverlayEl = undefined;
+    this.pathStart = undefined;
     this.entryByRecid.clear();
     this.nodeLabelByRecid.clear();
     this.graphResult = undefined;
@@ -226,6 +294,8 @@ export class CitationGraphDialog {
     this.addSeedBtn = undefined;
     this.relevanceBtn = undefined;
     this.connectionsBtn = undefined;
+    this.layoutBtn = undefined;
+    this.pathBtn = undefined;
     this.logoEl = undefined;
     this.saveBtn = undefined;
     this.exportBtn = undefined;
@@ -519,6 +589,34 @@ export class CitationGraphDialog {
     });
     this.connectionsBtn = connectionsBtn;
 
+    const layoutBtn = this.doc.createElement("button");
+    layoutBtn.type = "button";
+    layoutBtn.textContent = `${getString("references-panel-citation-graph-layout") || "Layout"} ▾`;
+    layoutBtn.title =
+      getString("references-panel-citation-graph-layout-tooltip") ||
+      "Arrange nodes by year, by force simulation or by citation cluster";
+    applyPillButtonStyle(layoutBtn, false, dark);
+    layoutBtn.style.padding = "3px 8px";
+    layoutBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.showLayoutMenu(layoutBtn);
+    });
+    this.layoutBtn = layoutBtn;
+
+    const pathBtn = this.doc.createElement("button");
+    pathBtn.type = "button";
+    pathBtn.textContent = `${getString("references-panel-citation-graph-path") || "Path"} ▾`;
+    pathBtn.title =
+      getString("references-panel-citation-graph-path-tooltip") ||
+      "Find the shortest citation paths between two papers (or Alt+click two nodes)";
+    applyPillButtonStyle(pathBtn, false, dark);
+    pathBtn.style.padding = "3px 8px";
+    pathBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.showPathMenu(pathBtn);
+    });
+    this.pathBtn = pathBtn;
+
     const reviewsBtn = this.doc.createElement("button");
     reviewsBtn.type = "button";
     this.reviewsBtn = reviewsBtn;
@@ -658,6 +756,8 @@ export class CitationGraphDialog {
 
     headerRight.appendChild(maxResultsWrap);
     headerRight.appendChild(connectionsBtn);
+    headerRight.appendChild(layoutBtn);
+    headerRight.appendChild(pathBtn);
     headerRight.appendChild(reviewsBtn);
     headerRight.appendChild(relevanceBtn);
     headerRight.appendChild(mostCitedBtn);
@@ -966,7 +1066,8 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
           this.seeds.length > 1
             ? "references-panel-citation-graph-hint-multi"
             : "references-panel-citation-graph-hint",
-        ) || "Click to open · Right-click to expand · Cmd/Ctrl+click to add seed";
+        ) ||
+        "Click to open · Shift+click to expand · Alt+click two papers for a path · Right-click to open as graph · Cmd/Ctrl+click to add seed";
 
       if (!result) {
         this.statusEl.textContent = hint;
@@ -983,7 +1084,23 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
                 }) || `Connections: ${this.allConnectionEdges.length}`
               }`
           : "";
-        this.statusEl.textContent = `Refs ${result.shown.references}/${result.totals.references} · Cited-by ${result.shown.citedBy}/${result.totals.citedBy}${connectionsHint} · ${hint}`;
+        const expandedCount = Object.keys(result.expansions ?? {}).length;
+        const secondRingCount =
+          (result.secondRing?.references.length ?? 0) +
+          (result.secondRing?.citedBy.length ?? 0);
+        const expansionsHint = this.expandingRecids.size
+          ? ` · ${
+              getString("references-panel-citation-graph-expanding") ||
+              "Expanding…"
+            }`
+          : expandedCount
+            ? ` · ${
+                getString("references-panel-citation-graph-expanded-count", {
+                  args: { count: expandedCount, nodes: secondRingCount },
+                }) || `Expanded: ${expandedCount} (+${secondRingCount})`
+              }`
+            : "";
+        this.statusEl.textContent = `Refs ${result.shown.references}/${result.totals.references} · Cited-by ${result.shown.citedBy}/${result.totals.citedBy}${connectionsHint}${expansionsHint} · ${hint}`;
       }
     }
 
@@ -1008,6 +1125,12 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     if (this.connectionsBtn) {
       applyPillButtonStyle(this.connectionsBtn, this.showAllConnections, dark);
     }
+    if (this.layoutBtn) {
+      applyPillButtonStyle(this.layoutBtn, this.layout !== "timeline", dark);
+    }
+    if (this.pathBtn) {
+      applyPillButtonStyle(this.pathBtn, !!this.pathOverlayEl, dark);
+    }
     if (this.reviewsBtn) {
       this.updateReviewsButton();
       applyPillButtonStyle(this.reviewsBtn, this.includeReviews, dark);
@@ -1139,7 +1262,10 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
   private getConnectionsGraphKey(): string {
     const maxPerSide = this.getMaxResultsPerSide();
     const seedsKey = [...this.seeds].map((s) => s.recid).sort().join(",");
-    return `${seedsKey}|${this.sort}|${maxPerSide}|rv${this.includeReviews ? 1 : 0}`;
+    const expandedKey = Object.keys(this.graphResult?.expansions ?? {})
+      .sort()
+      .join(",");
+    return `${seedsKey}|${this.sort}|${maxPerSide}|rv${this.includeReviews ? 1 : 0}|x${expandedKey}`;
   }
 
   private toggleAllConnections(): void {
@@ -1186,20 +1312,7 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     this.allConnectionEdges = [];
     this.updateHeader(graph);
 
-    const displayed = new Set<string>();
-    for (const seed of graph.seeds) {
-      if (seed?.recid) displayed.add(seed.recid);
-    }
-    for (const entry of graph.references) {
-      if (typeof entry.recid === "string" && entry.recid.trim()) {
-        displayed.add(entry.recid.trim());
-      }
-    }
-    for (const entry of graph.citedBy) {
-      if (typeof entry.recid === "string" && entry.recid.trim()) {
-        displayed.add(entry.recid.trim());
-      }
-    }
+    const displayed = getCitationGraphDisplayedRecids(graph);
 
     // Budget guard: avoid hammering the API when too many nodes are shown.
     // (Each displayed node may trigger an INSPIRE refs fetch if not cached.)
@@ -1287,6 +1400,123 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     this.renderGraph(graph);
   }
 
+  /** Non-seed nodes on the canvas, at any hop, can be expanded. */
+  private isExpandableNode(graph: MultiSeedGraphResult, recid: string): boolean {
+    return (
+      !graph.seeds.some((s) => s.recid === recid) &&
+      getCitationGraphDisplayedRecids(graph).has(recid)
+    );
+  }
+
+  private applyExpandedGraph(graph: MultiSeedGraphResult): void {
+    this.graphResult = graph;
+    this.updateHeader(graph);
+    this.renderGraph(graph);
+    if (this.showAllConnections) {
+      void this.computeAllConnectionsEdges(this.getConnectionsGraphKey());
+    }
+  }
+
+  private toggleNodeExpansion(recid: string): void {
+    const graph = this.graphResult;
+    if (!graph) return;
+
+    // Collapse (also cancels an expansion that is still loading).
+    if (graph.expansions?.[recid] || this.expandingRecids.has(recid)) {
+      this.expandingRecids.delete(recid);
+      this.applyExpandedGraph(collapseCitationGraphNode(graph, recid));
+      return;
+    }
+    if (graph.seeds.some((s) => s.recid === recid)) {
+      this.showToast(
+        getString("references-panel-citation-graph-expand-seed") ||
+          "Seeds already show their references and citing papers",
+      );
+      return;
+    }
+    if (!this.isExpandableNode(graph, recid)) return;
+    void this.expandNode(recid);
+  }
+
+  /**
+   * Pull a node's references/cited-by into the canvas one hop further out: render from cache first, then enrich from INSPIRE.
+   */
+  private async expandNode(recid: string): Promise<void> {
+    if (this.disposed) return;
+    const token = ++this.expandSeq;
+    const loadSeq = this.loadSeq;
+    this.expandingRecids.set(recid, token);
+    if (!this.expandAbort) {
+      this.expandAbort = createAbortControllerWithSignal().controller;
+    }
+    const signal = this.expandAbort?.signal;
+    const isCurrent = () =>
+      !this.disposed &&
+      loadSeq === this.loadSeq &&
+      !signal?.aborted &&
+      this.expandingRecids.get(recid) === token &&
+      !!this.graphResult &&
+      this.isExpandableNode(this.graphResult, recid);
+    const options = {
+      signal,
+      sort: this.sort,
+      includeReviews: this.includeReviews,
+    };
+    this.updateHeader(this.graphResult);
+
+    try {
+      const cached = await fetchCitationGraphExpansion(recid, {
+        ...options,
+        cachedOnly: true,
+      });
+      if (!isCurrent()) return;
+      if (cached) {
+        this.applyExpandedGraph(
+          mergeCitationGraphExpansion(this.graphResult!, recid, cached),
+        );
+      }
+
+      const fresh = await fetchCitationGraphExpansion(recid, options);
+      if (!fresh || !isCurrent()) return;
+      this.applyExpandedGraph(
+        mergeCitationGraphExpansion(this.graphResult!, recid, fresh),
+      );
+    } catch (err) {
+      if ((err as any)?.name === "AbortError" || !isCurrent()) {
+        return;
+      }
+      // Keep a cached expansion if we already rendered one.
+      if (!this.graphResult?.expansions?.[recid]) {
+        this.showToast(
+          getString("references-panel-citation-graph-expand-failed") ||
+            "Could not expand this paper. Check the network and try again.",
+        );
+      }
+    } finally {
+      if (this.expandingRecids.get(recid) === token) {
+        this.expandingRecids.delete(recid);
+      }
+      if (!this.disposed) {
+        this.updateHeader(this.graphResult);
+      }
+    }
+  }
+
+  /**
+   * Re-expand nodes after the same seeds were reloaded (sort, slider, refresh).
+   * One at a time, in expansion order: a node further out only reappears once
+   * the node it was expanded from is back.
+   */
+  private async restoreExpansions(recids: string[]): Promise<void> {
+    const seq = ++this.restoreSeq;
+    for (const recid of recids) {
+      if (this.disposed || seq !== this.restoreSeq) return;
+      if (this.graphResult && this.isExpandableNode(this.graphResult, recid)) {
+        await this.expandNode(recid);
+      }
+    }
+  }
+
   private normalizeSeeds(seeds: RecidSnapshot[]): RecidSnapshot[] {
     const seen = new Set<string>();
     const result: RecidSnapshot[] = [];
@@ -1346,9 +1576,16 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
 
     const requestId = ++this.loadSeq;
 
+    // Expansions survive reloads of the same seed set (sort, slider, refresh).
+    const previousSeedsKey = this.seeds.map((s) => s.recid).sort().join(",");
+    const previousExpansions = Object.keys(this.graphResult?.expansions ?? {});
+
     // Abort any in-flight load (if supported in this environment)
     this.abort?.abort();
     this.abort = undefined;
+    this.expandAbort?.abort();
+    this.expandAbort = undefined;
+    this.expandingRecids.clear();
     // Abort any in-flight connections expansion (depends on current graph set).
     this.connectionsAbort?.abort();
     this.connectionsAbort = undefined;
@@ -1369,6 +1606,10 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     }
 
     this.seeds = nextSeeds;
+    const keptExpansions =
+      nextSeeds.map((s) => s.recid).sort().join(",") === previousSeedsKey
+        ? previousExpansions
+        : [];
 
     // Keep current seed when possible (for consistency with existing behavior).
     const preferredCurrentRecid =
@@ -1416,6 +1657,7 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         this.updateHeader(cached.result);
         this.renderSeedsPanel(cached.result);
         this.renderGraph(cached.result);
+        void this.restoreExpansions(keptExpansions);
 
         if (!needsEnrich && options.forceRefresh !== true) {
           // Cached graph fully satisfies the request; avoid unnecessary network calls.
@@ -1445,6 +1687,7 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       this.updateHeader(result);
       this.renderSeedsPanel(result);
       this.renderGraph(result);
+      void this.restoreExpansions(keptExpansions);
       if (this.showAllConnections) {
         void this.computeAllConnectionsEdges(this.getConnectionsGraphKey());
       }
@@ -1683,39 +1926,12 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       return;
     }
 
-    const meta = await fetchInspireMetaByRecid(recid);
-    if (meta === -1) {
+    const newItem = await importInspireRecord(recid, target);
+    if (!newItem) {
       this.showToast(getString("references-panel-toast-missing") || "Record not found");
       return;
     }
 
-    const newItem = new Zotero.Item("journalArticle");
-    newItem.libraryID = target.libraryID;
-    const collectionIDs = Array.from(new Set(target.collectionIDs)).filter(
-      (id): id is number => typeof id === "number",
-    );
-    newItem.setField("extra", "");
-    newItem.setCollections(collectionIDs.length ? collectionIDs : []);
-
-    if (Array.isArray(target.tags) && target.tags.length) {
-      for (const tag of target.tags) {
-        if (typeof tag === "string" && tag.trim()) {
-          newItem.addTag(tag.trim());
-        }
-      }
-    }
-
-    await setInspireMeta(newItem, meta as any, "full");
-    await saveItemWithPendingInspireNote(newItem);
-
-    if (target.note) {
-      const note = new Zotero.Item("note");
-      note.setNote(target.note);
-      note.parentID = newItem.id;
-      note.libraryID = newItem.libraryID;
-      await note.saveTx();
-    }
-
     entry.localItemID = newItem.id;
     this.applyLocalItemId(recid, newItem.id);
 
@@ -2054,6 +2270,47 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     ]);
   }
 
+  private showLayoutMenu(anchor: HTMLElement): void {
+    const modes: Array<{ mode: CitationGraphLayoutMode; label: string }> = [
+      {
+        mode: "timeline",
+        label: getString("references-panel-citation-graph-layout-timeline") || "Timeline",
+      },
+      {
+        mode: "force",
+        label: getString("references-panel-citation-graph-layout-force") || "Force-directed",
+      },
+      {
+        mode: "clustered",
+        label: getString("references-panel-citation-graph-layout-clustered") || "Clustered",
+      },
+    ];
+    this.showToolbarMenu(
+      anchor,
+      modes.map(({ mode, label }) => ({
+        label: mode === this.layout ? `✓ ${label}` : label,
+        onClick: () => this.setLayout(mode),
+      })),
+    );
+  }
+
+  private setLayout(mode: CitationGraphLayoutMode): void {
+    if (mode === this.layout) return;
+    this.layout = mode;
+    if (!this.graphResult) {
+      this.updateHeader();
+      return;
+    }
+    // Communities need the edges between non-seed papers, not just the star
+    // around the seeds.
+    if (mode === "clustered" && !this.showAllConnections) {
+      this.toggleAllConnections();
+      return;
+    }
+    this.updateHeader(this.graphResult);
+    this.renderGraph(this.graphResult);
+  }
+
   private showExportMenu(anchor: HTMLElement): void {
     const hasGraph = Boolean(this.graphResult);
     this.showToolbarMenu(anchor, [
@@ -2071,6 +2328,41 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         disabled: !hasGraph,
         onClick: async () => this.exportCSV(),
       },
+      {
+        label:
+          getString("references-panel-citation-graph-export-edges-csv") ||
+          "Export CSV (edges)…",
+        disabled: !hasGraph,
+        onClick: async () => this.exportGraphFile("edges-csv"),
+      },
+      {
+        label:
+          getString("references-panel-citation-graph-export-graphml") ||
+          "Export GraphML…",
+        disabled: !hasGraph,
+        onClick: async () => this.exportGraphFile("graphml"),
+      },
+      {
+        label:
+          getString("references-panel-citation-graph-export-gexf") ||
+          "Export GEXF (Gephi)…",
+        disabled: !hasGraph,
+        onClick: async () => this.exportGraphFile("gexf"),
+      },
+      {
+        label:
+          getString("references-panel-citation-graph-export-dot") ||
+          "Export DOT (Graphviz)…",
+        disabled: !hasGraph,
+        onClick: async () => this.exportGraphFile("dot"),
+      },
+      {
+        label:
+          getString("references-panel-citation-graph-export-cytoscape") ||
+          "Export Cytoscape.js JSON…",
+        disabled: !hasGraph,
+        onClick: async () => this.exportGraphFile("cytoscape"),
+      },
       {
         label:
           getString("references-panel-citation-graph-export-svg") ||
@@ -2150,9 +2442,11 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       });
     }
 
+    const expansions = graph.expansions || {};
     const toNodeData = (
       entry: InspireReferenceEntry,
       kind: CitationGraphNodeData["kind"],
+      hop?: number,
     ): CitationGraphNodeData | null => {
       const recid = entry.recid;
       if (!recid || nodeSeen.has(recid)) return null;
@@ -2172,6 +2466,8 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         inspireUrl: entry.inspireUrl,
         arxivId,
         doi: entry.doi,
+        hop,
+        expanded: expansions[recid] ? true : undefined,
       };
     };
 
@@ -2183,6 +2479,16 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       const node = toNodeData(entry, "citedBy");
       if (node) nodes.push(node);
     }
+    const ringHop = (entry: InspireReferenceEntry) =>
+      graph.ringHops?.[entry.recid ?? ""] ?? 2;
+    for (const entry of graph.secondRing?.references ?? []) {
+      const node = toNodeData(entry, "reference", ringHop(entry));
+      if (node) nodes.push(node);
+    }
+    for (const entry of graph.secondRing?.citedBy ?? []) {
+      const node = toNodeData(entry, "citedBy", ringHop(entry));
+      if (node) nodes.push(node);
+    }
 
     const edges: CitationGraphEdgeData[] = [];
     const edgeSeen = new Set<string>();
@@ -2205,6 +2511,14 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         pushEdge({ source: citedRecid, target: seedRecid, type: "cited-by-to-seed" });
       }
     }
+    for (const [nodeRecid, detail] of Object.entries(expansions)) {
+      for (const refRecid of detail.references) {
+        pushEdge({ source: nodeRecid, target: refRecid, type: "node-to-reference" });
+      }
+      for (const citedRecid of detail.citedBy) {
+        pushEdge({ source: citedRecid, target: nodeRecid, type: "cited-by-to-node" });
+      }
+    }
 
     return {
       version,
@@ -2215,7 +2529,12 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         localItemID: s.localItemID,
       })),
       graph: { nodes, edges },
-      viewState: { panX: this.panX, panY: this.panY, scale: this.scale },
+      viewState: {
+        panX: this.panX,
+        panY: this.panY,
+        scale: this.scale,
+        layout: this.layout,
+      },
       settings: { sort: this.sort },
     };
   }
@@ -2388,14 +2707,6 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
   }
 
   private buildCsv(nodes: CitationGraphNodeData[]): string {
-    const escapeCell = (value: unknown) => {
-      const s = value === null || value === undefined ? "" : String(value);
-      if (/[",\n\r]/.test(s)) {
-        return `"${s.replace(/"/g, "\"\"")}"`;
-      }
-      return s;
-    };
-
     const header = [
       "recid",
       "kind",
@@ -2411,15 +2722,15 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     for (const n of nodes) {
       lines.push(
         [
-          escapeCell(n.recid),
-          escapeCell(n.kind),
-          escapeCell(n.title || ""),
-          escapeCell(n.year || ""),
-          escapeCell(typeof n.citationCount === "number" ? n.citationCount : ""),
-          escapeCell(typeof n.localItemID === "number" ? n.localItemID : ""),
-          escapeCell(n.inspireUrl || ""),
-          escapeCell(n.doi || ""),
-          escapeCell(n.arxivId || ""),
+          escapeCsvCell(n.recid),
+          escapeCsvCell(n.kind),
+          escapeCsvCell(n.title || ""),
+          escapeCsvCell(n.year || ""),
+          escapeCsvCell(typeof n.citationCount === "number" ? n.citationCount : ""),
+          escapeCsvCell(typeof n.localItemID === "number" ? n.localItemID : ""),
+          escapeCsvCell(n.inspireUrl || ""),
+          escapeCsvCell(n.doi || ""),
+          escapeCsvCell(n.arxivId || ""),
         ].join(","),
       );
     }
@@ -2449,6 +2760,30 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     );
   }
 
+  private async exportGraphFile(format: CitationGraphExportFormat): Promise<void> {
+    const saveData = this.buildSaveData();
+    if (!saveData) {
+      this.showToast(
+        getString("references-panel-citation-graph-save-no-data") ||
+          "Nothing to export yet",
+      );
+      return;
+    }
+
+    const { extension, filterLabel, pattern } = CITATION_GRAPH_EXPORT_FORMATS[format];
+    const content = buildCitationGraphExport(saveData, format);
+    const filePath = await this.promptSaveFile(
+      this.buildDefaultSaveFilename(extension),
+      getString("references-panel-citation-graph-export-file-title") || "Export Citation Graph",
+      [{ label: filterLabel, pattern }],
+    );
+    if (!filePath) return;
+    await Zotero.File.putContentsAsync(filePath, content);
+    this.showToast(
+      getString("references-panel-citation-graph-export-success") || "Exported",
+    );
+  }
+
   private buildStandaloneSvgString(): string | null {
     if (!this.svgEl) return null;
     try {
@@ -2635,12 +2970,25 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       doi: n.doi,
     });
 
+    const isSecondRing = (n: CitationGraphNodeData) => (n.hop ?? 1) >= 2;
     const references = nodes
-      .filter((n) => n.kind === "reference" && n.recid)
+      .filter((n) => n.kind === "reference" && n.recid && !isSecondRing(n))
       .map(makeEntry);
     const citedBy = nodes
-      .filter((n) => n.kind === "citedBy" && n.recid)
+      .filter((n) => n.kind === "citedBy" && n.recid && !isSecondRing(n))
       .map(makeEntry);
+    const secondRing = {
+      references: nodes
+        .filter((n) => n.kind === "reference" && n.recid && isSecondRing(n))
+        .map(makeEntry),
+      citedBy: nodes
+        .filter((n) => n.kind === "citedBy" && n.recid && isSecondRing(n))
+        .map(makeEntry),
+    };
+    const ringHops: Record<string, number> = {};
+    for (const n of nodes) {
+      if (n.recid && isSecondRing(n)) ringHops[n.recid] = n.hop!;
+    }
 
     const seedEdges = edges
       .filter((e) => e.type === "seed-to-seed" && e.source && e.target)
@@ -2656,6 +3004,17 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       };
     }
 
+    const expansions: NonNullable<MultiSeedGraphResult["expansions"]> = {};
+    for (const n of nodes) {
+      if (n.expanded && n.recid) {
+        expansions[n.recid] = {
+          references: [],
+          citedBy: [],
+          totals: { references: 0, citedBy: 0 },
+        };
+      }
+    }
+
     for (const e of edges) {
       if (e.type === "seed-to-reference") {
         const bucket = bySeed[e.source];
@@ -2663,8 +3022,20 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       } else if (e.type === "cited-by-to-seed") {
         const bucket = bySeed[e.target];
         if (bucket) bucket.citedBy.push(e.source);
+      } else if (e.type === "node-to-reference") {
+        const bucket = expansions[e.source];
+        if (bucket) bucket.references.push(e.target);
+      } else if (e.type === "cited-by-to-node") {
+        const bucket = expansions[e.target];
+        if (bucket) bucket.citedBy.push(e.source);
       }
     }
+    for (const bucket of Object.values(expansions)) {
+      bucket.totals = {
+        references: bucket.references.length,
+        citedBy: bucket.citedBy.length,
+      };
+    }
 
     for (const seedRecid of Object.keys(bySeed)) {
       const bucket = bySeed[seedRecid]!;
@@ -2689,6 +3060,9 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
           ? saveData.settings.sort
           : "mostcited",
       bySeed,
+      expansions,
+      secondRing,
+      ringHops,
     };
   }
 
@@ -2699,6 +3073,9 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     }
 
     const view = saveData.viewState;
+    const layout = view?.layout;
+    this.layout =
+      layout === "force" || layout === "clustered" ? layout : "timeline";
     if (view && typeof view.panX === "number" && typeof view.panY === "number" && typeof view.scale === "number") {
       this.panX = view.panX;
       this.panY = view.panY;
@@ -2743,6 +3120,9 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       // Cancel any in-flight network load.
       this.abort?.abort();
       this.abort = undefined;
+      this.expandAbort?.abort();
+      this.expandAbort = undefined;
+      this.expandingRecids.clear();
       this.loadSeq++;
       this.closeToolbarMenu();
       this.closeAddSeedDialog();
@@ -2963,6 +3343,432 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     void this.navigateToSeeds(next, { pushHistory: true });
   }
 
+  private getPathLabel(snapshot: RecidSnapshot): string {
+    const title =
+      snapshot.title || this.entryByRecid.get(snapshot.recid)?.title || snapshot.recid;
+    return title.length > 48 ? `${title.slice(0, 47)}…` : title;
+  }
+
+  private showPathMenu(anchor: HTMLElement): void {
+    const from = this.current;
+    const others = this.seeds.filter((s) => s.recid !== from.recid);
+    if (!from.recid || !others.length) {
+      this.showToast(
+        getString("references-panel-citation-graph-path-need-two") ||
+          "Alt+click two papers in the graph, or add a second seed, to find a citation path",
+      );
+      return;
+    }
+    this.showToolbarMenu(
+      anchor,
+      others.map((to) => ({
+        label:
+          getString("references-panel-citation-graph-path-pair", {
+            args: { from: this.getPathLabel(from), to: this.getPathLabel(to) },
+          }) || `${this.getPathLabel(from)} → ${this.getPathLabel(to)}`,
+        onClick: () => this.openPathOverlay(from, to),
+      })),
+    );
+  }
+
+  private pickPathEndpoint(recid: string): void {
+    const snapshot: RecidSnapshot = {
+      recid,
+      title: this.entryByRecid.get(recid)?.title,
+      authorLabel: this.nodeLabelByRecid.get(recid),
+    };
+    const start = this.pathStart;
+    if (!start || start.recid === recid) {
+      this.pathStart = snapshot;
+      this.showToast(
+        getString("references-panel-citation-graph-path-start", {
+          args: { title: this.getPathLabel(snapshot) },
+        }) ||
+          `Path start: ${this.getPathLabel(snapshot)}. Alt+click another paper to find the path.`,
+      );
+      return;
+    }
+    this.pathStart = undefined;
+    this.openPathOverlay(start, snapshot);
+  }
+
+  private closePathOverlay(): void {
+    this.pathAbort?.abort();
+    this.pathAbort = undefined;
+    this.pathOverlayEl?.remove();
+    this.pathOverlayEl = undefined;
+    this.updateHeader(this.graphResult);
+  }
+
+  private openPathOverlay(from: RecidSnapshot, to: RecidSnapshot): void {
+    if (!this.dialogEl || this.disposed) return;
+    this.closeToolbarMenu();
+    this.closePathOverlay();
+
+    const { controller, signal } = createAbortControllerWithSignal();
+    this.pathAbort = controller;
+
+    const overlay = this.doc.createElement("div");
+    overlay.style.cssText = `
+      position: absolute;
+      inset: 0;
+      z-index: 20;
+      background: rgba(0, 0, 0, 0.35);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 16px;
+      box-sizing: border-box;
+    `;
+    overlay.addEventListener("mousedown", (e) => {
+      if (e.target === overlay) {
+        this.closePathOverlay();
+      }
+    });
+
+    const panel = this.doc.createElement("div");
+    panel.style.cssText = `
+      width: min(960px, 94%);
+      max-height: 92%;
+      background: var(--material-background, #ffffff);
+      border: 1px solid var(--fill-quinary, #d1d5db);
+      border-radius: 10px;
+      box-shadow: 0 12px 40px rgba(0, 0, 0, 0.35);
+      display: flex;
+      flex-direction: column;
+      overflow: hidden;
+    `;
+
+    const header = this.doc.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 10px;
+      padding: 10px 12px;
+      border-bottom: 1px solid var(--fill-quinary, #e2e8f0);
+      background: var(--material-sidepane, #f8fafc);
+    `;
+
+    const title = this.doc.createElement("div");
+    title.style.cssText = `
+      font-size: 13px;
+      font-weight: 700;
+      color: var(--fill-primary, #1e293b);
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    `;
+    const pairLabel =
+      getString("references-panel-citation-graph-path-pair", {
+        args: { from: this.getPathLabel(from), to: this.getPathLabel(to) },
+      }) || `${this.getPathLabel(from)} → ${this.getPathLabel(to)}`;
+    title.textContent = `${
+      getString("references-panel-citation-graph-path-title") || "Citation Path"
+    }: ${pairLabel}`;
+    title.title = title.textContent;
+
+    const closeBtn = this.doc.createElement("button");
+    closeBtn.type = "button";
+    closeBtn.textContent = "×";
+    closeBtn.title =
+      getString("references-panel-citation-graph-close") || "Close";
+    closeBtn.style.cssText = `
+      width: 28px;
+      height: 24px;
+      border: 1px solid var(--fill-quinary, #d1d5db);
+      background: var(--material-background, #fff);
+      color: var(--fill-primary, #1e293b);
+      border-radius: 6px;
+      font-size: 16px;
+      line-height: 1;
+      cursor: pointer;
+      user-select: none;
+      flex: 0 0 auto;
+    `;
+    closeBtn.addEventListener("click", () => this.closePathOverlay());
+
+    header.appendChild(title);
+    header.appendChild(closeBtn);
+
+    const content = this.doc.createElement("div");
+    content.style.cssText = `
+      flex: 1 1 auto;
+      min-height: 0;
+      overflow: auto;
+      padding: 12px;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    `;
+
+    const status = this.doc.createElement("div");
+    status.style.cssText = `
+      font-size: 12px;
+      color: var(--fill-secondary, #64748b);
+    `;
+    status.textContent =
+      getString("references-panel-citation-graph-path-searching", {
+        args: { explored: 0, max: CITATION_PATH_MAX_EXPANSIONS },
+      }) || "Searching citations…";
+    content.appendChild(status);
+
+    panel.appendChild(header);
+    panel.appendChild(content);
+    overlay.appendChild(panel);
+    this.dialogEl.appendChild(overlay);
+    this.pathOverlayEl = overlay;
+    this.updateHeader(this.graphResult);
+
+    const isCurrent = () =>
+      !this.disposed && this.pathOverlayEl === overlay && !signal.aborted;
+    void findCitationPaths(from.recid, to.recid, {
+      signal,
+      onProgress: (explored, max) => {
+        if (!isCurrent()) return;
+        status.textContent =
+          getString("references-panel-citation-graph-path-searching", {
+            args: { explored, max },
+          }) || `Searching citations… ${explored}/${max} papers explored`;
+      },
+    })
+      .then(async (result) => {
+        if (!isCurrent()) return;
+        await this.renderPathResults(overlay, content, status, from, to, result);
+      })
+      .catch((err) => {
+        if ((err as any)?.name === "AbortError" || !isCurrent()) return;
+        status.textContent =
+          getString("references-panel-citation-graph-path-failed") ||
+          "Citation path search failed. Check the network and try again.";
+      });
+  }
+
+  private async renderPathResults(
+    overlay: HTMLDivElement,
+    content: HTMLDivElement,
+    status: HTMLDivElement,
+    from: RecidSnapshot,
+    to: RecidSnapshot,
+    result: CitationPathResult,
+  ): Promise<void> {
+    const { entries, paths } = result;
+    for (const snapshot of [from, to]) {
+      if (entries.has(snapshot.recid)) continue;
+      const known = this.entryByRecid.get(snapshot.recid);
+      const title = snapshot.title || known?.title || snapshot.recid;
+      entries.set(
+        snapshot.recid,
+        known ??
+          ({
+            id: snapshot.recid,
+            recid: snapshot.recid,
+            title,
+            displayText: title,
+            authorText: snapshot.authorLabel || "",
+            year: "",
+          } as InspireReferenceEntry),
+      );
+    }
+    // Reference lists do not carry library status; look the papers up once.
+    await Promise.all(
+      [...new Set(paths.flatMap((path) => path.recids))].map(async (recid) => {
+        const entry = entries.get(recid);
+        if (!entry || typeof entry.localItemID === "number") return;
+        const item = await findItemByRecid(recid).catch(() => null);
+        if (item?.id) entry.localItemID = item.id;
+      }),
+    );
+    if (this.disposed || this.pathOverlayEl !== overlay) return;
+
+    if (!paths.length) {
+      const none =
+        getString("references-panel-citation-graph-path-none", {
+          args: { depth: CITATION_PATH_MAX_DEPTH },
+        }) || `No citation path within ${CITATION_PATH_MAX_DEPTH} steps.`;
+      const limit = result.limitReached
+        ? ` ${
+            getString("references-panel-citation-graph-path-limit", {
+              args: { explored: result.explored },
+            }) || `Search stopped after ${result.explored} papers.`
+          }`
+        : "";
+      status.textContent = `${none}${limit}`;
+      return;
+    }
+
+    status.textContent =
+      getString("references-panel-citation-graph-path-found", {
+        args: { count: paths.length, steps: paths[0].steps.length },
+      }) ||
+      `Shortest paths: ${paths.length} · ${paths[0].steps.length} citation step(s)`;
+    for (const path of paths) {
+      content.appendChild(this.buildPathRow(path, entries, from));
+    }
+  }
+
+  private buildPathRow(
+    path: CitationPath,
+    entries: Map<string, InspireReferenceEntry>,
+    from: RecidSnapshot,
+  ): HTMLDivElement {
+    const dark = isDarkMode();
+    const row = this.doc.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 10px;
+      border: 1px solid var(--fill-quinary, #e2e8f0);
+      border-radius: 8px;
+    `;
+
+    const chain = this.doc.createElement("div");
+    chain.style.cssText = `
+      flex: 1 1 auto;
+      min-width: 0;
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+    `;
+    path.recids.forEach((recid, i) => {
+      if (i > 0) {
+        const link = this.doc.createElement("span");
+        link.style.cssText = `
+          font-size: 11px;
+          color: var(--fill-secondary, #64748b);
+          white-space: nowrap;
+        `;
+        link.textContent = `${
+          path.steps[i - 1] === "cites"
+            ? getString("references-panel-citation-graph-path-cites") || "cites"
+            : getString("references-panel-citation-graph-path-cited-by") ||
+              "cited by"
+        } →`;
+        chain.appendChild(link);
+      }
+      const entry = entries.get(recid);
+      const isEnd = i === 0 || i === path.recids.length - 1;
+      chain.appendChild(this.buildPathCard(recid, entry, isEnd, dark));
+    });
+
+    const showBtn = this.doc.createElement("button");
+    showBtn.type = "button";
+    showBtn.textContent =
+      getString("references-panel-citation-graph-path-show") || "Show in Graph";
+    applyPillButtonStyle(showBtn, false, dark);
+    showBtn.style.padding = "3px 8px";
+    showBtn.style.whiteSpace = "nowrap";
+    showBtn.addEventListener("click", () => {
+      this.closePathOverlay();
+      void this.navigateToSeeds(
+        path.recids.map((recid) => ({
+          recid,
+          title: entries.get(recid)?.title,
+        })),
+        { pushHistory: true, preferredCurrentRecid: from.recid },
+      );
+    });
+
+    row.appendChild(chain);
+    row.appendChild(showBtn);
+    return row;
+  }
+
+  private buildPathCard(
+    recid: string,
+    entry: InspireReferenceEntry | undefined,
+    isEnd: boolean,
+    dark: boolean,
+  ): HTMLDivElement {
+    const card = this.doc.createElement("div");
+    card.style.cssText = `
+      width: 170px;
+      padding: 6px 8px;
+      border: 1px solid ${isEnd ? (dark ? "#a78bfa" : "#6d28d9") : "var(--fill-quinary, #d1d5db)"};
+      border-radius: 8px;
+      background: var(--material-sidepane, #f8fafc);
+      display: flex;
+      flex-direction: column;
+      gap: 3px;
+      box-sizing: border-box;
+    `;
+
+    const title = this.doc.createElement("div");
+    title.style.cssText = `
+      font-size: 12px;
+      font-weight: 600;
+      color: var(--fill-primary, #1e293b);
+      display: -webkit-box;
+      -webkit-line-clamp: 3;
+      -webkit-box-orient: vertical;
+      overflow: hidden;
+    `;
+    title.textContent = entry?.title || recid;
+    title.title = title.textContent;
+    card.appendChild(title);
+
+    const meta = [
+      entry?.authorText,
+      entry?.year,
+      typeof entry?.citationCount === "number"
+        ? `${entry.citationCount} cit.`
+        : "",
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    if (meta) {
+      const metaEl = this.doc.createElement("div");
+      metaEl.style.cssText = `
+        font-size: 11px;
+        color: var(--fill-secondary, #64748b);
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      `;
+      metaEl.textContent = meta;
+      metaEl.title = meta;
+      card.appendChild(metaEl);
+    }
+
+    if (isEnd || !entry) return card;
+    const inLibraryLabel = () => {
+      const label = this.doc.createElement("span");
+      label.style.cssText = `
+        font-size: 11px;
+        color: var(--accent-green, #16a34a);
+      `;
+      label.textContent =
+        getString("references-panel-citation-graph-path-in-library") ||
+        "In library";
+      return label;
+    };
+    if (typeof entry.localItemID === "number") {
+      card.appendChild(inLibraryLabel());
+      return card;
+    }
+    const importBtn = this.doc.createElement("button");
+    importBtn.type = "button";
+    importBtn.textContent =
+      getString("references-panel-citation-graph-path-import") || "Import";
+    applyPillButtonStyle(importBtn, false, dark);
+    importBtn.style.padding = "2px 8px";
+    importBtn.style.alignSelf = "flex-start";
+    importBtn.addEventListener("click", async () => {
+      importBtn.disabled = true;
+      await this.importEntryToLibrary(entry).catch(() => undefined);
+      if (typeof entry.localItemID === "number") {
+        importBtn.replaceWith(inLibraryLabel());
+      } else {
+        importBtn.disabled = false;
+      }
+    });
+    card.appendChild(importBtn);
+    return card;
+  }
+
   private closeAddSeedDialog(): void {
     this.addSeedSearchAbort?.abort();
     this.addSeedSearchAbort = undefined;
@@ -3906,6 +4712,18 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
   }
 
   private async handleNodeClick(recid: string, e: MouseEvent): Promise<void> {
+    // Shift+click: expand/collapse the node's references and cited-by.
+    if (e.shiftKey) {
+      this.toggleNodeExpansion(recid);
+      return;
+    }
+
+    // Alt+click: pick the two ends of a citation path.
+    if (e.altKey) {
+      this.pickPathEndpoint(recid);
+      return;
+    }
+
     // Cmd/Ctrl+click: add as additional seed (multi-seed graph).
     if (e.ctrlKey || e.metaKey) {
       const entry = this.entryByRecid.get(recid);
@@ -5207,6 +6025,85 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     this.svgGroupEl.appendChild(seedLabel);
   }
 
+  private renderClusterLegend(
+    groups: Array<{ members: string[]; color: string; terms: string[]; loose: boolean }>,
+    modularity: number,
+    textFill: string,
+    textSecondary: string,
+  ): void {
+    if (!this.svgGroupEl) return;
+
+    const fontSize = 9;
+    const rowGap = 12;
+    const pad = 6;
+    const iconR = 4;
+    const shown = groups.slice(0, CLUSTER_LEGEND_MAX_ROWS);
+    const rows = shown.map((group) => {
+      const name = group.loose
+        ? getString("references-panel-citation-graph-cluster-unconnected") ||
+          "Unconnected"
+        : group.terms.join(", ") || "—";
+      return { color: group.color, text: `${name} (${group.members.length})` };
+    });
+    const title =
+      getString("references-panel-citation-graph-cluster-summary", {
+        args: {
+          count: groups.filter((g) => !g.loose).length,
+          modularity: modularity.toFixed(2),
+        },
+      }) ||
+      `Clusters: ${groups.filter((g) => !g.loose).length} · Q = ${modularity.toFixed(2)}`;
+
+    const charWidth = fontSize * 0.6;
+    const textWidth = Math.max(
+      title.length * charWidth,
+      ...rows.map((row) => row.text.length * charWidth + iconR * 2 + 4),
+    );
+    const legendW = Math.ceil(pad * 2 + textWidth);
+    const legendH = Math.ceil(pad * 2 + rowGap * (rows.length + 1));
+    const legendX = 10;
+    const legendY = 10;
+
+    const bg = this.doc.createElementNS(SVG_NS, "rect");
+    bg.setAttribute("x", String(legendX));
+    bg.setAttribute("y", String(legendY));
+    bg.setAttribute("width", String(legendW));
+    bg.setAttribute("height", String(legendH));
+    bg.setAttribute("fill", "var(--material-background, #ffffff)");
+    bg.setAttribute("stroke", "var(--fill-quinary, #d1d5db)");
+    bg.setAttribute("stroke-width", "1");
+    bg.setAttribute("rx", "4");
+    bg.setAttribute("opacity", "0.95");
+    this.svgGroupEl.appendChild(bg);
+
+    const heading = this.doc.createElementNS(SVG_NS, "text");
+    heading.textContent = title;
+    heading.setAttribute("x", String(legendX + pad));
+    heading.setAttribute("y", String(legendY + pad + fontSize));
+    heading.setAttribute("fill", textSecondary);
+    heading.setAttribute("font-size", String(fontSize));
+    this.svgGroupEl.appendChild(heading);
+
+    rows.forEach((row, i) => {
+      const cy = legendY + pad + rowGap * (i + 1) + fontSize / 2 + 2;
+      const swatch = this.doc.createElementNS(SVG_NS, "circle");
+      swatch.setAttribute("cx", String(legendX + pad + iconR));
+      swatch.setAttribute("cy", String(cy));
+      swatch.setAttribute("r", String(iconR));
+      swatch.setAttribute("fill", row.color);
+      swatch.setAttribute("fill-opacity", "0.75");
+      this.svgGroupEl!.appendChild(swatch);
+
+      const label = this.doc.createElementNS(SVG_NS, "text");
+      label.textContent = row.text;
+      label.setAttribute("x", String(legendX + pad + iconR * 2 + 4));
+      label.setAttribute("y", String(cy + 3));
+      label.setAttribute("fill", textFill);
+      label.setAttribute("font-size", String(fontSize));
+      this.svgGroupEl!.appendChild(label);
+    });
+  }
+
   private renderGraph(result: MultiSeedGraphResult): void {
     if (!this.svgEl || !this.svgGroupEl) return;
     this.entryByRecid.clear();
@@ -5226,9 +6123,17 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     const maxMidGap = Math.max(40, width - padX * 2 - 240);
     midGap = Math.min(midGap, maxMidGap);
 
-    const refs = result.references;
-    const cited = result.citedBy;
+    // Second-ring nodes share the regions of the first ring (left: cited by
+    // the expanded node, right: citing it).
+    const refs = [...result.references, ...(result.secondRing?.references ?? [])];
+    const cited = [...result.citedBy, ...(result.secondRing?.citedBy ?? [])];
     const seeds = result.seeds;
+    const secondRingRecids = new Set(
+      [...(result.secondRing?.references ?? []), ...(result.secondRing?.citedBy ?? [])]
+        .map((e) => e.recid)
+        .filter((r): r is string => typeof r === "string" && r.length > 0),
+    );
+    const expandedRecids = new Set(Object.keys(result.expansions ?? {}));
 
     // Calculate left region (References) boundaries
     const leftWidth = (width - midGap) / 2;
@@ -5305,10 +6210,12 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     this.citedTimeZoom = citedTime;
 
     const timeEps = 1 / 365;
+    // Network layouts have no time axis (and no time-range sliders).
+    const networkLayout = this.layout !== "timeline";
     const isInRefsZoom = (v: number | null) =>
-      v === null || (v >= refsTime.zoomMin && v <= refsTime.zoomMax);
+      networkLayout || v === null || (v >= refsTime.zoomMin && v <= refsTime.zoomMax);
     const isInCitedZoom = (v: number | null) =>
-      v === null || (v >= citedTime.zoomMin && v <= citedTime.zoomMax);
+      networkLayout || v === null || (v >= citedTime.zoomMin && v <= citedTime.zoomMax);
 
     const refsVisibleEntries = refs.filter((e) =>
       isInRefsZoom(this.getEntryTimeValue(e)),
@@ -5410,15 +6317,17 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
     const textSecondary = "var(--fill-secondary, #64748b)";
 
     // Render split layout with two regions
-    this.renderSplitLayout(
-      width, height, padX, padY, midGap,
-      leftMinX, leftMaxX, rightMinX, rightMaxX,
-      refsTime, citedTime,
-      refsCitationRange.min, refsCitationRange.max,
-      citedCitationRange.min, citedCitationRange.max,
-      textSecondary,
-      refs.length, cited.length
-    );
+    if (!networkLayout) {
+      this.renderSplitLayout(
+        width, height, padX, padY, midGap,
+        leftMinX, leftMaxX, rightMinX, rightMaxX,
+        refsTime, citedTime,
+        refsCitationRange.min, refsCitationRange.max,
+        citedCitationRange.min, citedCitationRange.max,
+        textSecondary,
+        refs.length, cited.length
+      );
+    }
 
     const dark = isDarkMode();
 
@@ -5497,6 +6406,10 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       localItemID?: number;
       year?: string;
       kind: "seed" | "reference" | "citedBy";
+      secondRing?: boolean;
+      expanded?: boolean;
+      /** Cluster colour (clustered layout) instead of the library status colour. */
+      fill?: string;
     }) => {
       const group = this.doc.createElementNS(SVG_NS, "g");
       group.setAttribute("data-recid", opts.recid);
@@ -5510,7 +6423,19 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       const onlineColor = dark ? "#6b7280" : "#9ca3af";  // Gray
       const fillColor = opts.isSeed
         ? seedFill
-        : inLibrary ? localColor : onlineColor;
+        : opts.fill ?? (inLibrary ? localColor : onlineColor);
+      // Second ring: lighter with a dashed outline; expanded nodes get a solid ring.
+      const fillOpacity = opts.secondRing ? "0.45" : "0.75";
+      const applyRingStroke = (shape: SVGElement) => {
+        if (opts.expanded) {
+          shape.setAttribute("stroke", dark ? "#38bdf8" : "#0284c7");
+          shape.setAttribute("stroke-width", "1.6");
+        } else if (opts.secondRing) {
+          shape.setAttribute("stroke", fillColor);
+          shape.setAttribute("stroke-width", "1");
+          shape.setAttribute("stroke-dasharray", "2 2");
+        }
+      };
 
       // Use circle for references/seeds, pentagon for cited-by
       if (opts.kind === "citedBy" && !opts.isSeed) {
@@ -5519,7 +6444,8 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         const points = this.getPentagonPoints(opts.x, opts.y, opts.r);
         pentagon.setAttribute("points", points);
         pentagon.setAttribute("fill", fillColor);
-        pentagon.setAttribute("fill-opacity", "0.75");
+        pentagon.setAttribute("fill-opacity", fillOpacity);
+        applyRingStroke(pentagon);
         group.appendChild(pentagon);
       } else {
         // Circle for references and seed
@@ -5528,11 +6454,13 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         circle.setAttribute("cy", String(opts.y));
         circle.setAttribute("r", String(opts.r));
         circle.setAttribute("fill", fillColor);
-        circle.setAttribute("fill-opacity", "0.75");
+        circle.setAttribute("fill-opacity", fillOpacity);
         if (opts.isSeed) {
           circle.setAttribute("stroke", seedLabelColor);
           circle.setAttribute("stroke-width", "1.5");
           circle.setAttribute("stroke-opacity", "0.9");
+        } else {
+          applyRingStroke(circle);
         }
         group.appendChild(circle);
       }
@@ -5546,7 +6474,7 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       label.setAttribute("font-size", "10");
       label.setAttribute("text-anchor", opts.textAnchor);
       label.setAttribute("dominant-baseline", "middle");
-      label.setAttribute("opacity", "0.9");
+      label.setAttribute("opacity", opts.secondRing ? "0.7" : "0.9");
       group.appendChild(label);
 
       // Hover handlers: reuse HoverPreviewController (same as PDF annotate / panel).
@@ -6024,49 +6952,17 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       }
     };
 
-    relaxNodes(allNodes.filter((n) => n.kind === "seed"), {
-      padding: 2,
-      iterations: 18,
-    });
-    relaxNodes(allNodes.filter((n) => n.kind === "reference"), {
-      padding: 3,
-      iterations: 28,
-    });
-    relaxNodes(allNodes.filter((n) => n.kind === "citedBy"), {
-      padding: enableCitedSpread ? 5 : 3,
-      iterations: enableCitedSpread ? 64 : 34,
-    });
-
-    // Second pass: resolve label positions to avoid overlaps
-    const labelPositions = this.resolveLabelPositions(
-      allNodes.map((n) => ({
-        x: n.x,
-        y: n.y,
-        r: n.r,
-        label: n.label,
-        regionMinX: n.regionMinX,
-        regionMaxX: n.regionMaxX,
-      }))
-    );
-
-    // Build position map before drawing edges/nodes.
-    const posByRecid = new Map<string, { x: number; y: number; r: number; kind: NodeData["kind"] }>();
-    for (let i = 0; i < allNodes.length; i++) {
-      const n = allNodes[i];
-      posByRecid.set(n.recid, { x: n.x, y: n.y, r: n.r, kind: n.kind });
-    }
-
-    // Draw edges first (behind nodes).
+    // Collect edges (network layouts also place nodes from them).
     const edgeList: Array<{
       source: string;
       target: string;
-      type: "seed-to-seed" | "seed-to-reference" | "cited-by-to-seed" | "node-to-node";
+      type: CitationGraphEdgeType | "node-to-node";
     }> = [];
     const pairSeen = new Set<string>();
     const pushEdge = (edge: {
       source: string;
       target: string;
-      type: "seed-to-seed" | "seed-to-reference" | "cited-by-to-seed" | "node-to-node";
+      type: CitationGraphEdgeType | "node-to-node";
     }) => {
       const key = `${edge.source}->${edge.target}`;
       if (pairSeen.has(key)) return;
@@ -6090,6 +6986,15 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         pushEdge({ source: citedRecid, target: seedRecid, type: "cited-by-to-seed" });
       }
     }
+    const expansions = result.expansions || {};
+    for (const [nodeRecid, detail] of Object.entries(expansions)) {
+      for (const refRecid of detail.references) {
+        pushEdge({ source: nodeRecid, target: refRecid, type: "node-to-reference" });
+      }
+      for (const citedRecid of detail.citedBy) {
+        pushEdge({ source: citedRecid, target: nodeRecid, type: "cited-by-to-node" });
+      }
+    }
     const currentKey = this.getConnectionsGraphKey();
     if (
       this.showAllConnections &&
@@ -6105,6 +7010,112 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       }
     }
 
+    const clusterColorByRecid = new Map<string, string>();
+    const clusterGroups: Array<{
+      members: string[];
+      color: string;
+      terms: string[];
+      loose: boolean;
+    }> = [];
+    let clusterModularity = 0;
+
+    if (!networkLayout) {
+      relaxNodes(allNodes.filter((n) => n.kind === "seed"), {
+        padding: 2,
+        iterations: 18,
+      });
+      relaxNodes(allNodes.filter((n) => n.kind === "reference"), {
+        padding: 3,
+        iterations: 28,
+      });
+      relaxNodes(allNodes.filter((n) => n.kind === "citedBy"), {
+        padding: enableCitedSpread ? 5 : 3,
+        iterations: enableCitedSpread ? 64 : 34,
+      });
+    } else {
+      // Start from the timeline positions so switching layouts stays readable.
+      let anchors: Map<string, LayoutPoint> | undefined;
+      if (this.layout === "clustered") {
+        // Seeds touch every node, so communities are found among the others.
+        const nonSeedRecids = allNodes
+          .filter((n) => n.kind !== "seed")
+          .map((n) => n.recid);
+        const communities = detectCitationCommunities(
+          nonSeedRecids,
+          edgeList.filter(
+            (e) => !seedRecidSet.has(e.source) && !seedRecidSet.has(e.target),
+          ),
+        );
+        clusterModularity = communities.modularity;
+        const titleByRecid = new Map(allNodes.map((n) => [n.recid, n.title] as const));
+        const groups = communities.clusters.filter((c) => c.length > 1);
+        const loose = communities.clusters.filter((c) => c.length === 1).flat();
+        if (loose.length) groups.push(loose);
+        const centers = computeClusterCenters(groups.length, width, height);
+        anchors = new Map();
+        for (const seed of seeds) {
+          anchors.set(seed.recid, { x: width / 2, y: height / 2 });
+        }
+        groups.forEach((members, i) => {
+          const isLoose = loose.length > 0 && i === groups.length - 1;
+          const color = isLoose
+            ? CLUSTER_LOOSE_COLOR
+            : CLUSTER_COLORS[i % CLUSTER_COLORS.length]!;
+          for (const recid of members) {
+            anchors!.set(recid, centers[i]!);
+            clusterColorByRecid.set(recid, color);
+          }
+          clusterGroups.push({
+            members,
+            color,
+            terms: isLoose
+              ? []
+              : extractClusterTerms(members.map((r) => titleByRecid.get(r) || "")),
+            loose: isLoose,
+          });
+        });
+      }
+      const positions = computeForceLayout(
+        allNodes.map((n) => ({ id: n.recid, x: n.x, y: n.y })),
+        edgeList,
+        {
+          width,
+          height,
+          padding: Math.max(padX, padY),
+          anchors,
+          anchorStrength: 0.12,
+        },
+      );
+      for (const n of allNodes) {
+        const pos = positions.get(n.recid);
+        if (pos) {
+          n.x = pos.x;
+          n.y = pos.y;
+        }
+        n.regionMinX = padX;
+        n.regionMaxX = width - padX;
+      }
+    }
+
+    // Second pass: resolve label positions to avoid overlaps
+    const labelPositions = this.resolveLabelPositions(
+      allNodes.map((n) => ({
+        x: n.x,
+        y: n.y,
+        r: n.r,
+        label: n.label,
+        regionMinX: n.regionMinX,
+        regionMaxX: n.regionMaxX,
+      }))
+    );
+
+    // Build position map before drawing edges/nodes.
+    const posByRecid = new Map<string, { x: number; y: number; r: number; kind: NodeData["kind"] }>();
+    for (let i = 0; i < allNodes.length; i++) {
+      const n = allNodes[i];
+      posByRecid.set(n.recid, { x: n.x, y: n.y, r: n.r, kind: n.kind });
+    }
+
     const drawEdge = (
       source: { x: number; y: number; r: number },
       target: { x: number; y: number; r: number },
@@ -6168,10 +7179,64 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
       opacity: 1,
     };
 
+    // Bundled polyline from source to target, trimmed at both node outlines.
+    const drawBundledEdge = (
+      points: LayoutPoint[],
+      source: { r: number },
+      target: { r: number },
+      style: Parameters<typeof drawEdge>[2],
+    ) => {
+      const trim = (from: LayoutPoint, toward: LayoutPoint, r: number) => {
+        const len = Math.max(1, Math.hypot(toward.x - from.x, toward.y - from.y));
+        const t = Math.min(0.9, r / len);
+        return {
+          x: from.x + (toward.x - from.x) * t,
+          y: from.y + (toward.y - from.y) * t,
+        };
+      };
+      const last = points.length - 1;
+      const trimmed = points.map((p, i) =>
+        i === 0
+          ? trim(p, points[1]!, source.r)
+          : i === last
+            ? trim(p, points[last - 1]!, target.r)
+            : p,
+      );
+      const path = this.doc.createElementNS(SVG_NS, "path");
+      const d = trimmed
+        .map((p, i) => `${i ? "L" : "M"}${p.x.toFixed(1)},${p.y.toFixed(1)}`)
+        .join(" ");
+      path.setAttribute("d", d);
+      path.setAttribute("fill", "none");
+      path.setAttribute("stroke", style.stroke);
+      path.setAttribute("stroke-width", String(style.width));
+      path.setAttribute("stroke-linejoin", "round");
+      path.setAttribute("opacity", String(style.opacity));
+      path.setAttribute("marker-end", `url(#${style.markerId})`);
+      if (style.dasharray) {
+        path.setAttribute("stroke-dasharray", style.dasharray);
+        path.setAttribute("stroke-linecap", "round");
+      }
+      edgesLayer.appendChild(path);
+    };
+
+    const drawable: Array<{
+      edge: (typeof edgeList)[number];
+      source: { x: number; y: number; r: number };
+      target: { x: number; y: number; r: number };
+    }> = [];
     for (const edge of edgeList) {
       const source = posByRecid.get(edge.source);
       const target = posByRecid.get(edge.target);
       if (!source || !target) continue;
+      drawable.push({ edge, source, target });
+    }
+    const bundled =
+      this.layout === "force"
+        ? bundleEdges(drawable.map((d) => ({ source: d.source, target: d.target })))
+        : undefined;
+
+    drawable.forEach(({ edge, source, target }, i) => {
       const style =
         edge.type === "seed-to-seed"
           ? seedEdgeStyle
@@ -6180,8 +7245,12 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
             : edge.type === "node-to-node"
               ? connectionsEdgeStyle
               : normalEdgeStyle;
-      drawEdge(source, target, style);
-    }
+      if (bundled) {
+        drawBundledEdge(bundled[i]!, source, target, style);
+      } else {
+        drawEdge(source, target, style);
+      }
+    });
 
     // Third pass: render nodes with adjusted label positions
     for (let i = 0; i < allNodes.length; i++) {
@@ -6207,13 +7276,45 @@ button.zinspire-citation-graph-refresh.zinspire-citation-graph-refresh--loading
         localItemID: n.localItemID,
         year: n.year,
         kind: n.kind,
+        secondRing: secondRingRecids.has(n.recid),
+        expanded: expandedRecids.has(n.recid),
+        fill: clusterColorByRecid.get(n.recid),
       });
       nodesLayer.appendChild(node);
       nodePositions.push({ x: n.x, y: n.y, r: n.r });
     }
 
-    // Render legend after nodes (to find best position)
-    this.renderLegend(width, padX, textFill, textSecondary, nodePositions);
+    if (this.layout === "clustered") {
+      // Label each cluster above its members with its most frequent title terms.
+      const labelsLayer = this.doc.createElementNS(SVG_NS, "g");
+      labelsLayer.style.pointerEvents = "none";
+      for (const group of clusterGroups) {
+        if (group.loose || !group.terms.length) continue;
+        const members = group.members
+          .map((r) => posByRecid.get(r))
+          .filter((p): p is NonNullable<typeof p> => !!p);
+        if (!members.length) continue;
+        const cx = members.reduce((sum, p) => sum + p.x, 0) / members.length;
+        const top = Math.min(...members.map((p) => p.y - p.r));
+        const text = this.doc.createElementNS(SVG_NS, "text");
+        text.textContent = group.terms.join(" · ");
+        text.setAttribute("x", String(cx));
+        text.setAttribute("y", String(Math.max(14, top - 10)));
+        text.setAttribute("fill", group.color);
+        text.setAttribute("font-size", "11");
+        text.setAttribute("font-weight", "600");
+        text.setAttribute("text-anchor", "middle");
+        text.setAttribute("paint-order", "stroke");
+        text.setAttribute("stroke", "var(--material-background, #ffffff)");
+        text.setAttribute("stroke-width", "3");
+        labelsLayer.appendChild(text);
+      }
+      this.svgGroupEl.appendChild(labelsLayer);
+      this.renderClusterLegend(clusterGroups, clusterModularity, textFill, textSecondary);
+    } else {
+      // Render legend after nodes (to find best position)
+      this.renderLegend(width, padX, textFill, textSecondary, nodePositions);
+    }
 
     this.applyViewTransform();
   }
@@ -69,6 +69,8 @@ export interface EntryRenderContext {
   hasPdf?: (entry: InspireReferenceEntry) => boolean;
   /** Cached dark mode value (computed once per render batch for performance) */
   darkMode?: boolean;
+  /** Recids found by a saved search alert since it was last opened */
+  newRecids?: ReadonlySet<string>;
 }
 
 /**
@@ -448,6 +450,33 @@ export class EntryListRenderer {
       titleLink.style.maxWidth = "100%";
     }
 
+    // Saved search alerts: mark hits that are new since the last visit
+    const newBadge = row.querySelector(
+      ".zinspire-ref-entry__new-badge",
+    ) as HTMLElement | null;
+    if (newBadge) {
+      if (entry.recid && ctx.newRecids?.has(entry.recid)) {
+        newBadge.textContent = getString("references-panel-saved-search-new");
+        newBadge.title = getString("references-panel-saved-search-new-tooltip");
+        newBadge.style.display = "inline-block";
+        newBadge.style.marginLeft = "6px";
+        newBadge.style.padding = "0 5px";
+        newBadge.style.borderRadius = "8px";
+        newBadge.style.fontSize = "10px";
+        newBadge.style.fontWeight = "600";
+        newBadge.style.lineHeight = "16px";
+        newBadge.style.userSelect = "none";
+        newBadge.style.background = dark
+          ? "rgba(245, 158, 11, 0.25)"
+          : "#fef3c7";
+        newBadge.style.color = dark ? "#fbbf24" : "#b45309";
+      } else {
+        newBadge.textContent = "";
+        newBadge.title = "";
+        newBadge.style.display = "none";
+      }
+    }
+
     // FTR-RELATED-PAPERS: Render shared-reference badge (only in related mode)
     const relatedBadge = row.querySelector(
       ".zinspire-ref-entry__related-badge",
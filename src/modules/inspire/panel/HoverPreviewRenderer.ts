@@ -29,6 +29,11 @@ import {
   getRenderMode,
   renderMathContent,
 } from "../index";
+import {
+  createCitationSparkline,
+  getCitationHistoryKey,
+  peekCitationHistory,
+} from "../citationHistory";
 import { isDarkMode } from "../styles";
 import {
   applyPreviewCardStyle,
@@ -279,6 +284,18 @@ export class HoverPreviewRenderer {
       citesEl.textContent = getString("references-panel-citation-count", {
         args: { count: citationCount },
       });
+      // Recorded history exists only for entries that are in the library
+      const historyKey = getCitationHistoryKey(entry.recid);
+      const samples = historyKey ? peekCitationHistory(historyKey) : null;
+      const sparkline = samples
+        ? createCitationSparkline(this.doc, samples, { width: 60, height: 14 })
+        : null;
+      if (sparkline) {
+        citesEl.style.display = "flex";
+        citesEl.style.alignItems = "center";
+        citesEl.style.gap = "6px";
+        citesEl.appendChild(sparkline);
+      }
       card.appendChild(citesEl);
     }
 
@@ -36,6 +36,10 @@ import {
   buildFallbackUrlFromMetadata,
   extractArxivFromMetadata,
   buildDisplayText,
+  localCache,
+  isOfflineMode,
+  createOfflineError,
+  searchLocalIndex,
 } from "../index";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -77,6 +81,9 @@ export interface SearchFetchOptions {
  * - Fetches remaining pages in parallel batches
  * - Reports progress after each batch
  * - Respects abort signal for cancellation
+ * - In offline mode, answers `refersto:recid:N` from the cited-by cache and
+ *   other queries from the local search index, and throws an OfflineError
+ *   for queries neither can answer
  *
  * @param options - Search options
  * @returns Array of reference entries
@@ -85,6 +92,14 @@ export async function fetchInspireSearch(
   options: SearchFetchOptions,
 ): Promise<InspireReferenceEntry[]> {
   const { query, sort, signal, onProgress } = options;
+  if (isOfflineMode()) {
+    const entries = await getOfflineSearchResults(query, sort);
+    if (!entries) {
+      throw createOfflineError();
+    }
+    onProgress?.(entries, entries.length);
+    return entries;
+  }
   const entries: InspireReferenceEntry[] = [];
   const encodedQuery = encodeURIComponent(query);
   const sortParam = `&sort=${sort}`;
@@ -192,6 +207,26 @@ export async function fetchInspireSearch(
   return entries;
 }
 
+/**
+ * Search results available without the network: citing-paper queries,
+ * which the panel stores as "cited" entries (unsorted when complete), and
+ * queries the local search index supports.
+ */
+async function getOfflineSearchResults(
+  query: string,
+  sort: InspireSortOption,
+): Promise<InspireReferenceEntry[] | null> {
+  const recid = query.trim().match(/^refersto:recid:(\d+)$/i)?.[1];
+  if (!recid) return searchLocalIndex(query, sort);
+  for (const cacheSort of [undefined, sort]) {
+    const cached = await localCache.get("cited", recid, cacheSort, {
+      ignoreTTL: true,
+    });
+    if (cached) return cached.data;
+  }
+  return null;
+}
+
 /**
  * Build an entry from a search hit result.
  *
@@ -103,6 +103,9 @@ export {
   type SearchFetchOptions,
 } from "./SearchService";
 
+// Re-export AdvancedSearchDialog
+export { showAdvancedSearchDialog } from "./AdvancedSearchDialog";
+
 // Re-export AuthorPreviewController (Phase 0.5 refactor)
 export {
   AuthorPreviewController,
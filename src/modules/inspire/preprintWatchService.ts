@@ -22,6 +22,8 @@ import { inspireFetch } from "./rateLimiter";
 import { localCache } from "./localCache";
 import { LRUCache } from "./utils";
 import { fetchInspireMetaByRecid } from "./metadataService";
+import { UndoBatchRecorder } from "./undoJournal";
+import { emitLibraryEvent } from "./libraryEvents";
 import type { jsobject } from "./types";
 import type { InspireLiteratureSearchResponse } from "./apiTypes";
 import type {
@@ -796,6 +798,7 @@ export async function batchCheckPublicationStatus(
 
 /**
  * Update unified cache from batch check results.
+ * Emits `preprint_published` for preprints not already known as published.
  */
 async function updateCacheFromResults(
   results: PreprintCheckResult[],
@@ -812,6 +815,25 @@ async function updateCacheFromResults(
   for (const result of results) {
     if (!result.arxivId) continue;
 
+    if (
+      result.status === "published" &&
+      getCacheEntry(cache, result.arxivId)?.status !== "published"
+    ) {
+      const item = Zotero.Items.get(result.itemID);
+      if (item) {
+        emitLibraryEvent("preprint_published", item, {
+          arxiv_id: result.arxivId,
+          title: result.title ?? "",
+          journal: result.publicationInfo?.journalTitle ?? null,
+          volume: result.publicationInfo?.volume ?? null,
+          page: result.publicationInfo?.pageStart ?? null,
+          year: result.publicationInfo?.year ?? null,
+          doi: result.publicationInfo?.doi ?? null,
+          recid: result.publicationInfo?.recid ?? null,
+        });
+      }
+    }
+
     const entry: PreprintWatchEntry = {
       arxivId: result.arxivId,
       itemId: result.itemID,
@@ -1298,6 +1320,7 @@ export async function batchUpdatePreprints(
   const total = publishedResults.length;
   let success = 0;
   let failed = 0;
+  const undoRecorder = new UndoBatchRecorder("preprint_upgrade");
 
   for (let i = 0; i < total; i++) {
     if (options?.signal?.aborted) break;
@@ -1306,11 +1329,13 @@ export async function batchUpdatePreprints(
     try {
       const item = await Zotero.Items.getAsync(result.itemID);
       if (item && result.publicationInfo) {
+        undoRecorder.before(item);
         await updatePreprintWithPublicationInfo(
           item,
           result.publicationInfo,
           options?.updateOptions,
         );
+        undoRecorder.after(item);
         success++;
       }
     } catch (error) {
@@ -1323,6 +1348,7 @@ export async function batchUpdatePreprints(
     options?.onProgress?.(i + 1, total);
   }
 
+  await undoRecorder.commit();
   return { success, failed };
 }
 
@@ -1407,6 +1433,18 @@ export async function removePreprintFromCache(arxivId: string): Promise<void> {
   await savePreprintWatchCache(cache);
 }
 
+/**
+ * Look up the watch state of a single preprint in the unified cache.
+ * Returns undefined when the preprint has never been tracked or checked.
+ */
+export async function getPreprintWatchEntry(
+  arxivId: string,
+): Promise<PreprintWatchEntry | undefined> {
+  const cache = await loadPreprintWatchCache();
+  if (!cache) return undefined;
+  return getCacheEntry(cache, arxivId);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Background Check Support
 // ─────────────────────────────────────────────────────────────────────────────
@@ -1,4 +1,6 @@
 import { config } from "../../../package.json";
+import { getPref } from "../../utils/prefs";
+import { createOfflineError, isOfflineMode } from "./offlineMode";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Rate Limiter Constants
@@ -11,20 +13,49 @@ export const BACKOFF_MAX_DELAY_MS = 30000;
 /** Maximum retry attempts for 429 errors */
 export const MAX_RETRY_ATTEMPTS = 3;
 
-// Legacy exports for compatibility
+/** INSPIRE allows 15 requests per 5 seconds; also the active-mode bucket size */
 export const RATE_LIMIT_MAX_REQUESTS = 15;
+/** Active mode refills RATE_LIMIT_MAX_REQUESTS tokens over this window */
 export const RATE_LIMIT_WINDOW_MS = 5000;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Rate Limiter Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Queue priority in active mode: interactive panel loads go first, background
+ * jobs (cache download, citation refresh, related papers) last. FIFO within a
+ * priority. Ignored in passive mode.
+ */
+export type InspireRequestPriority = "interactive" | "normal" | "background";
+
+export type InspireFetchOptions = RequestInit & {
+  signal?: AbortSignal;
+  /** Defaults to "normal" */
+  requestPriority?: InspireRequestPriority;
+};
+
+const PRIORITY_RANK: Record<InspireRequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2,
+};
+
+interface QueuedRequest {
+  rank: number;
+  seq: number;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
 export interface RateLimiterStatus {
   /** Number of requests currently queued (always 0 in passive mode) */
   queuedCount: number;
   /** Number of tokens available (always max in passive mode) */
   availableTokens: number;
-  /** Whether rate limiting is active */
+  /** Whether requests are being held back (429 retry or queued requests) */
   isThrottling: boolean;
   /** Time until next token is available (always 0 in passive mode) */
   timeUntilNextToken: number;
@@ -33,26 +64,39 @@ export interface RateLimiterStatus {
 type StatusChangeCallback = (status: RateLimiterStatus) => void;
 
 // ─────────────────────────────────────────────────────────────────────────────
-// InspireRateLimiter - Passive Rate Limiter (429 Retry Only)
+// InspireRateLimiter - Passive (429 Retry) or Active (Token Bucket)
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Passive Rate Limiter for INSPIRE API requests.
+ * Rate Limiter for INSPIRE API requests.
  *
- * Design philosophy: ZERO overhead for normal requests.
- * Only handles 429 responses with exponential backoff retry.
- *
- * This is the most performant approach:
+ * Passive mode (default) - ZERO overhead for normal requests:
  * - No pre-emptive rate limiting (no delays before requests)
  * - No request queueing
- * - No sliding window tracking
  * - Just pass-through with 429 retry logic
+ *
+ * Active mode (`rate_limit_active_mode` pref) - for large batch jobs that
+ * would otherwise run into bursts of 429s:
+ * - Token bucket of RATE_LIMIT_MAX_REQUESTS tokens, refilled continuously
+ *   over RATE_LIMIT_WINDOW_MS
+ * - Requests without a token wait in a priority queue
+ * - A 429 empties the bucket until the retry delay has passed
+ * - 429 retry logic as in passive mode
  */
 export class InspireRateLimiter {
   private static instance: InspireRateLimiter | null = null;
   private statusCallbacks: Set<StatusChangeCallback> = new Set();
   private activeRetries = 0;
 
+  // Active mode state
+  private tokens = RATE_LIMIT_MAX_REQUESTS;
+  private lastRefill = Date.now();
+  /** No tokens are handed out before this time (after a 429) */
+  private pausedUntil = 0;
+  private queue: QueuedRequest[] = [];
+  private queueSeq = 0;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+
   private constructor() {}
 
   static getInstance(): InspireRateLimiter {
@@ -63,17 +107,46 @@ export class InspireRateLimiter {
   }
 
   static reset(): void {
-    if (InspireRateLimiter.instance) {
-      InspireRateLimiter.instance.activeRetries = 0;
+    const instance = InspireRateLimiter.instance;
+    if (instance) {
+      instance.activeRetries = 0;
+      if (instance.drainTimer) {
+        clearTimeout(instance.drainTimer);
+        instance.drainTimer = null;
+      }
+      const pending = instance.queue;
+      instance.queue = [];
+      for (const request of pending) {
+        request.signal?.removeEventListener("abort", request.onAbort!);
+        request.reject(createAbortError());
+      }
+      instance.tokens = RATE_LIMIT_MAX_REQUESTS;
+      instance.lastRefill = Date.now();
+      instance.pausedUntil = 0;
     }
   }
 
+  /** Whether the token bucket is enabled (read per request, no restart needed). */
+  isActiveMode(): boolean {
+    return getPref("rate_limit_active_mode") === true;
+  }
+
   getStatus(): RateLimiterStatus {
+    if (!this.isActiveMode() && this.queue.length === 0) {
+      return {
+        queuedCount: 0,
+        availableTokens: RATE_LIMIT_MAX_REQUESTS,
+        isThrottling: this.activeRetries > 0,
+        timeUntilNextToken: 0,
+      };
+    }
+    const now = Date.now();
+    this.refill(now);
     return {
-      queuedCount: 0,
-      availableTokens: RATE_LIMIT_MAX_REQUESTS,
-      isThrottling: this.activeRetries > 0,
-      timeUntilNextToken: 0,
+      queuedCount: this.queue.length,
+      availableTokens: Math.floor(this.tokens),
+      isThrottling: this.activeRetries > 0 || this.queue.length > 0,
+      timeUntilNextToken: this.getTimeUntilNextToken(now),
     };
   }
 
@@ -96,6 +169,120 @@ export class InspireRateLimiter {
     }
   }
 
+  // ───────────────────────────────────────────────────────────────────────────
+  // Token bucket (active mode)
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private refill(now: number): void {
+    if (now < this.pausedUntil) {
+      this.tokens = 0;
+      this.lastRefill = this.pausedUntil;
+      return;
+    }
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(
+      RATE_LIMIT_MAX_REQUESTS,
+      this.tokens + (elapsed * RATE_LIMIT_MAX_REQUESTS) / RATE_LIMIT_WINDOW_MS,
+    );
+    this.lastRefill = now;
+  }
+
+  private getTimeUntilNextToken(now: number): number {
+    if (this.tokens >= 1 && now >= this.pausedUntil) return 0;
+    const refillMs =
+      ((1 - this.tokens) * RATE_LIMIT_WINDOW_MS) / RATE_LIMIT_MAX_REQUESTS;
+    return Math.ceil(Math.max(0, this.pausedUntil - now) + refillMs);
+  }
+
+  /**
+   * Take a token, waiting in the priority queue when none is available or
+   * earlier requests are still waiting. Rejects with an AbortError when the
+   * signal fires while queued.
+   */
+  private acquireToken(
+    priority: InspireRequestPriority,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    this.refill(Date.now());
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const request: QueuedRequest = {
+        rank: PRIORITY_RANK[priority] ?? PRIORITY_RANK.normal,
+        seq: this.queueSeq++,
+        resolve,
+        reject,
+        signal,
+      };
+      if (signal) {
+        request.onAbort = () => {
+          const index = this.queue.indexOf(request);
+          if (index >= 0) {
+            this.queue.splice(index, 1);
+            reject(createAbortError());
+            this.notifyStatusChange();
+          }
+        };
+        signal.addEventListener("abort", request.onAbort, { once: true });
+      }
+      // Insert after every request of the same or higher priority
+      let index = this.queue.length;
+      while (index > 0 && this.queue[index - 1].rank > request.rank) {
+        index--;
+      }
+      this.queue.splice(index, 0, request);
+      this.notifyStatusChange();
+      this.scheduleDrain();
+    });
+  }
+
+  private scheduleDrain(): void {
+    if (this.drainTimer || this.queue.length === 0) return;
+    const delay = this.getTimeUntilNextToken(Date.now());
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      this.drainQueue();
+    }, delay);
+  }
+
+  private drainQueue(): void {
+    this.refill(Date.now());
+    let released = false;
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const request = this.queue.shift()!;
+      this.tokens -= 1;
+      if (request.onAbort) {
+        request.signal?.removeEventListener("abort", request.onAbort);
+      }
+      request.resolve();
+      released = true;
+    }
+    if (released) {
+      this.notifyStatusChange();
+    }
+    this.scheduleDrain();
+  }
+
+  /** Empty the bucket until `delay` has passed (server said we are too fast). */
+  private pauseTokens(delay: number): void {
+    const until = Date.now() + delay;
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      this.tokens = 0;
+      this.lastRefill = until;
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Fetch with 429 retry
+  // ───────────────────────────────────────────────────────────────────────────
+
   private calculateBackoffDelay(retryCount: number): number {
     const delay = BACKOFF_BASE_DELAY_MS * Math.pow(2, retryCount);
     const jitter = delay * 0.25 * (Math.random() * 2 - 1);
@@ -104,23 +291,33 @@ export class InspireRateLimiter {
 
   /**
    * Execute a fetch request.
-   * ZERO overhead - just passes through to native fetch.
-   * Only adds logic on 429 responses.
+   * Passive mode: direct pass-through to native fetch, only adds logic on 429.
+   * Active mode: waits for a token first (also before each retry).
    */
-  async fetch(
-    url: string,
-    options?: RequestInit & { signal?: AbortSignal },
-  ): Promise<Response> {
-    // Direct pass-through to native fetch with retry on 429
-    return this.executeWithRetry(url, options, 0);
+  async fetch(url: string, options?: InspireFetchOptions): Promise<Response> {
+    let priority: InspireRequestPriority = "normal";
+    let init: RequestInit | undefined = options;
+    if (options && "requestPriority" in options) {
+      const { requestPriority, ...rest } = options;
+      priority = requestPriority ?? "normal";
+      // Callers pass `{ signal, requestPriority }`; only hand a real signal to fetch
+      if (!rest.signal) delete rest.signal;
+      init = rest;
+    }
+    return this.executeWithRetry(url, init, priority, 0);
   }
 
   private async executeWithRetry(
     url: string,
     options: RequestInit | undefined,
+    priority: InspireRequestPriority,
     retryCount: number,
   ): Promise<Response> {
     try {
+      const active = this.isActiveMode();
+      if (active) {
+        await this.acquireToken(priority, options?.signal ?? undefined);
+      }
       const response = await fetch(url, options);
 
       // Only handle 429 rate limit responses
@@ -145,12 +342,16 @@ export class InspireRateLimiter {
           `[${config.addonName}] 429 received. Retry ${retryCount + 1}/${MAX_RETRY_ATTEMPTS} after ${Math.round(delay)}ms`,
         );
 
+        if (active) {
+          this.pauseTokens(delay);
+        }
+
         await this.sleep(delay);
 
         this.activeRetries--;
         this.notifyStatusChange();
 
-        return this.executeWithRetry(url, options, retryCount + 1);
+        return this.executeWithRetry(url, options, priority, retryCount + 1);
       }
 
       return response;
@@ -174,6 +375,16 @@ export class InspireRateLimiter {
   }
 }
 
+/**
+ * AbortError for requests cancelled while queued. Built by hand because
+ * DOMException may not be available in Zotero's sandboxed environment.
+ */
+function createAbortError(): Error {
+  const err = new Error("The operation was aborted.");
+  err.name = "AbortError";
+  return err;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Convenience Functions
 // ─────────────────────────────────────────────────────────────────────────────
@@ -181,13 +392,17 @@ export class InspireRateLimiter {
 /**
  * Fetch wrapper for INSPIRE API with 429 retry.
  *
- * ZERO OVERHEAD for normal requests - direct pass-through to native fetch.
- * Only adds retry logic when receiving 429 responses.
+ * ZERO OVERHEAD for normal requests in passive mode - direct pass-through to
+ * native fetch. In active mode, `requestPriority` orders waiting requests.
+ * Rejects with an OfflineError without making a request in offline mode.
  */
 export function inspireFetch(
   url: string,
-  options?: RequestInit & { signal?: AbortSignal },
+  options?: InspireFetchOptions,
 ): Promise<Response> {
+  if (isOfflineMode()) {
+    return Promise.reject(createOfflineError());
+  }
   return InspireRateLimiter.getInstance().fetch(url, options);
 }
 
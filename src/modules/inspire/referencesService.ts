@@ -27,7 +27,13 @@ import type {
   InspireLiteratureSearchResponse,
   InspireReference,
 } from "./apiTypes";
-import { inspireFetch } from "./rateLimiter";
+import { inspireFetch, type InspireRequestPriority } from "./rateLimiter";
+import { localCache } from "./localCache";
+import {
+  createOfflineError,
+  isOfflineMode,
+  queueOfflineFetch,
+} from "./offlineMode";
 import { LRUCache } from "./utils";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -99,21 +105,39 @@ function isMetadataComplete(metadata: any): boolean {
 interface FetchReferencesOptions {
   signal?: AbortSignal;
   onProgress?: (entries: InspireReferenceEntry[], total: number) => void;
+  /** Rate limiter queue priority (active mode) */
+  requestPriority?: InspireRequestPriority;
 }
 
 /**
  * Fetch references for a given recid and return InspireReferenceEntry array.
  * Shared by UI controller and background cache download.
+ * In offline mode the local cache is used regardless of age; on a miss the
+ * recid is queued for when the network is back and an OfflineError is thrown.
  */
 export async function fetchReferencesEntries(
   recid: string,
   options: FetchReferencesOptions = {},
 ): Promise<InspireReferenceEntry[]> {
-  const { signal, onProgress } = options;
+  const { signal, onProgress, requestPriority } = options;
+  if (isOfflineMode()) {
+    const cached = await localCache.get<InspireReferenceEntry[]>(
+      "refs",
+      recid,
+      undefined,
+      { ignoreTTL: true },
+    );
+    if (cached) {
+      onProgress?.(cached.data, cached.data.length);
+      return cached.data;
+    }
+    void queueOfflineFetch({ kind: "references", recid });
+    throw createOfflineError();
+  }
   const strings = getCachedStrings();
   const response = await inspireFetch(
     `${INSPIRE_API_BASE}/literature/${encodeURIComponent(recid)}?fields=metadata.references`,
-    signal ? { signal } : undefined,
+    { signal, requestPriority },
   ).catch(() => null);
   if (!response || response.status === 404) {
     throw new Error("Reference list not found");
@@ -234,6 +258,8 @@ export function buildReferenceEntry(
 interface EnrichReferencesOptions {
   signal?: AbortSignal;
   onBatchComplete?: (processedRecids: string[]) => void;
+  /** Rate limiter queue priority (active mode) */
+  requestPriority?: InspireRequestPriority;
 }
 
 /**
@@ -252,7 +278,7 @@ export async function enrichReferencesEntries(
   entries: InspireReferenceEntry[],
   options: EnrichReferencesOptions = {},
 ): Promise<void> {
-  const { signal, onBatchComplete } = options;
+  const { signal, onBatchComplete, requestPriority } = options;
   const strings = getCachedStrings();
 
   // PERF-FIX-9: Check memory cache before adding to fetch list
@@ -336,6 +362,7 @@ export async function enrichReferencesEntries(
           recidToEntry,
           strings,
           signal,
+          requestPriority,
         );
         if (processed.length && onBatchComplete) {
           onBatchComplete(processed);
@@ -357,6 +384,7 @@ async function fetchAndApplyBatchMetadata(
   recidToEntry: Map<string, InspireReferenceEntry[]>,
   strings: ReturnType<typeof getCachedStrings>,
   signal?: AbortSignal,
+  requestPriority?: InspireRequestPriority,
 ): Promise<string[]> {
   if (signal?.aborted || !batchRecids.length) return [];
 
@@ -366,10 +394,9 @@ async function fetchAndApplyBatchMetadata(
   const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${batchRecids.length}${fieldsParam}`;
 
   try {
-    const response = await inspireFetch(
-      url,
-      signal ? { signal } : undefined,
-    ).catch(() => null);
+    const response = await inspireFetch(url, { signal, requestPriority }).catch(
+      () => null,
+    );
     if (!response) {
       Zotero.debug(
         `[${config.addonName}] enrich batch failed: no response (recids=${batchRecids.slice(0, 5).join(",")}${batchRecids.length > 5 ? "..." : ""})`,
@@ -21,7 +21,7 @@ import type {
   InspireLiteratureHit,
 } from "./apiTypes";
 import { isInspireLiteratureSearchResponse } from "./apiTypes";
-import { inspireFetch } from "./rateLimiter";
+import { inspireFetch, type InspireRequestPriority } from "./rateLimiter";
 import type { InspireReferenceEntry } from "./types";
 import {
   isReviewArticleEntry,
@@ -75,6 +75,8 @@ const ANCHOR_CITATIONS_MIN = 5;
 const ANCHOR_CITATIONS_MAX = 300;
 const ANCHOR_CITATIONS_TOO_HIGH = 1500;
 const ANCHOR_SELECTION_TARGET_CITATIONS = 50;
+/** Dozens of anchor/co-citation queries: queue behind interactive panel loads */
+const RELATED_REQUEST_PRIORITY: InspireRequestPriority = "background";
 
 function computeAnchorWeight(citationCount: number | undefined): number {
   if (
@@ -426,9 +428,10 @@ async function fetchTopCitingHits(
 ): Promise<InspireLiteratureHit[]> {
   const query = encodeURIComponent(`refersto:recid:${anchorRecid}`);
   const url = `${INSPIRE_API_BASE}/literature?q=${query}&size=${perAnchor}&page=1&sort=mostcited${fieldsParam}`;
-  const response = await inspireFetch(url, signal ? { signal } : undefined).catch(
-    () => null,
-  );
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: RELATED_REQUEST_PRIORITY,
+  }).catch(() => null);
   if (!response || response.status === 404 || !response.ok) {
     return [];
   }
@@ -446,9 +449,10 @@ async function fetchCitingTotal(recid: string, signal?: AbortSignal): Promise<nu
   const query = encodeURIComponent(`refersto:recid:${recid}`);
   const fieldsParam = buildFieldsParam(API_FIELDS_CONTROL_NUMBER);
   const url = `${INSPIRE_API_BASE}/literature?q=${query}&size=1&page=1${fieldsParam}`;
-  const response = await inspireFetch(url, signal ? { signal } : undefined).catch(
-    () => null,
-  );
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: RELATED_REQUEST_PRIORITY,
+  }).catch(() => null);
   if (!response || response.status === 404 || !response.ok) {
     return 0;
   }
@@ -472,9 +476,10 @@ async function fetchCoCitationTotal(
   );
   const fieldsParam = buildFieldsParam(API_FIELDS_CONTROL_NUMBER);
   const url = `${INSPIRE_API_BASE}/literature?q=${query}&size=1&page=1${fieldsParam}`;
-  const response = await inspireFetch(url, signal ? { signal } : undefined).catch(
-    () => null,
-  );
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: RELATED_REQUEST_PRIORITY,
+  }).catch(() => null);
   if (!response || response.status === 404 || !response.ok) {
     return 0;
   }
@@ -0,0 +1,226 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Saved Searches - Named INSPIRE queries with optional new-result alerts
+// Saved searches remember a query and its sort, can be pinned in the panel's
+// Favorites tab and, with an alert, are re-run in the background. A check
+// fetches the newest hits and compares them with the previous check; recids
+// not seen before are kept as "new" until the search is opened.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import { getPref, setPref } from "../../utils/prefs";
+import {
+  API_FIELDS_CONTROL_NUMBER,
+  INSPIRE_API_BASE,
+  buildFieldsParam,
+  type InspireSortOption,
+} from "./constants";
+import type { InspireLiteratureSearchResponse } from "./apiTypes";
+import { isOfflineMode } from "./offlineMode";
+import { inspireFetch } from "./rateLimiter";
+import type { SavedSearch } from "./types";
+
+/** Newest hits compared per check (and cap on the new recids kept) */
+export const SAVED_SEARCH_CHECK_SIZE = 250;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_INTERVAL_HOURS = 24;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+type SavedSearchListener = (searches: SavedSearch[]) => void;
+const listeners = new Set<SavedSearchListener>();
+
+/** Called with the new list whenever saved searches are added or changed */
+export function onSavedSearchesChange(
+  callback: SavedSearchListener,
+): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+export function getSavedSearches(): SavedSearch[] {
+  try {
+    const parsed = JSON.parse((getPref("saved_searches") as string) || "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (s): s is SavedSearch =>
+            typeof s?.id === "string" && typeof s?.query === "string",
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveSavedSearches(searches: SavedSearch[]): void {
+  setPref("saved_searches", JSON.stringify(searches));
+  for (const listener of listeners) {
+    try {
+      listener(searches);
+    } catch (err) {
+      Zotero.debug(
+        `[${config.addonName}] Saved search listener failed: ${err}`,
+      );
+    }
+  }
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Saved search with the same query (case and spacing ignored), if any */
+export function findSavedSearch(query: string): SavedSearch | undefined {
+  const key = normalizeQuery(query);
+  return getSavedSearches().find((s) => normalizeQuery(s.query) === key);
+}
+
+/** Save a query; saving a query that is already saved renames it. */
+export function addSavedSearch(
+  query: string,
+  options: { name?: string; sort: InspireSortOption; alert?: boolean },
+): SavedSearch {
+  const name = options.name?.trim() || query.trim();
+  const existing = findSavedSearch(query);
+  if (existing) {
+    return updateSavedSearch(existing.id, { name, sort: options.sort })!;
+  }
+  const search: SavedSearch = {
+    id: `s${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    query: query.trim(),
+    sort: options.sort,
+    pinned: true,
+    alert: options.alert ?? false,
+    createdAt: Date.now(),
+  };
+  saveSavedSearches([...getSavedSearches(), search]);
+  return search;
+}
+
+export function updateSavedSearch(
+  id: string,
+  changes: Partial<Omit<SavedSearch, "id">>,
+): SavedSearch | undefined {
+  let updated: SavedSearch | undefined;
+  const searches = getSavedSearches().map((s) => {
+    if (s.id !== id) return s;
+    updated = { ...s, ...changes };
+    return updated;
+  });
+  if (updated) saveSavedSearches(searches);
+  return updated;
+}
+
+export function removeSavedSearch(id: string): void {
+  const searches = getSavedSearches();
+  const remaining = searches.filter((s) => s.id !== id);
+  if (remaining.length !== searches.length) saveSavedSearches(remaining);
+}
+
+/** The search was opened: its new hits are no longer new. */
+export function acknowledgeSavedSearch(id: string): void {
+  const search = getSavedSearches().find((s) => s.id === id);
+  if (search?.newRecids?.length) {
+    updateSavedSearch(id, { newRecids: [] });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getIntervalHours(): number {
+  const hours = Number(getPref("saved_search_check_interval_hours"));
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_INTERVAL_HOURS;
+}
+
+export function isSavedSearchCheckDue(
+  search: SavedSearch,
+  now: number = Date.now(),
+): boolean {
+  if (!search.alert) return false;
+  return now - (search.lastCheckedAt ?? 0) >= getIntervalHours() * HOUR_MS;
+}
+
+/** Recids of the newest hits of a query. Throws on network/HTTP errors. */
+export async function fetchNewestHitRecids(
+  query: string,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const url = `${INSPIRE_API_BASE}/literature?q=${encodeURIComponent(query)}&size=${SAVED_SEARCH_CHECK_SIZE}&page=1&sort=mostrecent${buildFieldsParam(API_FIELDS_CONTROL_NUMBER)}`;
+  const response = await inspireFetch(url, {
+    signal,
+    requestPriority: "background",
+  });
+  if (!response.ok) {
+    throw new Error(`INSPIRE search HTTP ${response.status}`);
+  }
+  const payload =
+    (await response.json()) as unknown as InspireLiteratureSearchResponse | null;
+  const recids: string[] = [];
+  for (const hit of payload?.hits?.hits ?? []) {
+    const recid = String(hit?.metadata?.control_number ?? hit?.id ?? "");
+    if (recid) recids.push(recid);
+  }
+  return recids;
+}
+
+/**
+ * Re-run a saved search and record hits the previous check did not return.
+ * The first check only records the current hits. Returns the recids that
+ * became new with this check.
+ */
+export async function checkSavedSearch(
+  search: SavedSearch,
+  options?: { signal?: AbortSignal; now?: number },
+): Promise<string[]> {
+  const hits = await fetchNewestHitRecids(search.query, options?.signal);
+  const seen = new Set(search.lastHitRecids ?? []);
+  const pending = new Set(search.newRecids ?? []);
+  const found =
+    search.lastCheckedAt === undefined
+      ? []
+      : hits.filter((recid) => !seen.has(recid) && !pending.has(recid));
+  updateSavedSearch(search.id, {
+    lastCheckedAt: options?.now ?? Date.now(),
+    lastHitRecids: hits,
+    newRecids: [...found, ...pending].slice(0, SAVED_SEARCH_CHECK_SIZE),
+  });
+  return found;
+}
+
+export interface SavedSearchAlert {
+  search: SavedSearch;
+  newCount: number;
+}
+
+/**
+ * Check every saved search whose alert is due. Skipped offline or when
+ * alerts are turned off; a failed check is retried on the next run.
+ */
+export async function runSavedSearchAlerts(options?: {
+  signal?: AbortSignal;
+  now?: number;
+}): Promise<SavedSearchAlert[]> {
+  const alerts: SavedSearchAlert[] = [];
+  if (isOfflineMode() || getPref("saved_search_alerts_enabled") === false) {
+    return alerts;
+  }
+  const now = options?.now ?? Date.now();
+  for (const search of getSavedSearches()) {
+    if (options?.signal?.aborted) break;
+    if (!isSavedSearchCheckDue(search, now)) continue;
+    try {
+      const found = await checkSavedSearch(search, { ...options, now });
+      if (found.length) alerts.push({ search, newCount: found.length });
+    } catch (err) {
+      if ((err as any)?.name === "AbortError") break;
+      Zotero.debug(
+        `[${config.addonName}] Saved search check failed for "${search.name}": ${err}`,
+      );
+    }
+  }
+  return alerts;
+}
@@ -0,0 +1,184 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Search Query - Parser for a subset of the INSPIRE search syntax
+// Turns queries such as `a Witten and t gauge theory and date > 2000` into
+// clauses the local search index can evaluate. Queries using anything beyond
+// the fields the index can answer (author, title, journal, eprint, date,
+// topcite, bare words) and the and/or/not operators are rejected, so callers
+// know to ask INSPIRE instead. Tokens, keywords and operators are those of the
+// query validator (searchSyntax.ts).
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  getSearchField,
+  getSearchOperator,
+  isFindPrefix,
+  parseSearchRange,
+  splitFieldPrefix,
+  tokenizeSearchQuery,
+  type SearchRange,
+} from "./searchSyntax";
+
+export type SearchField =
+  | "author"
+  | "title"
+  | "journal"
+  | "eprint"
+  | "date"
+  | "topcite"
+  | "any";
+
+export interface SearchClause {
+  field: SearchField;
+  /** Value as typed, without quotes */
+  value: string;
+  /** Value was a quoted phrase */
+  quoted: boolean;
+  negated: boolean;
+  /** Set for date and topcite clauses */
+  range?: SearchRange;
+}
+
+/** Clauses of each group are ANDed; the groups are ORed */
+export interface ParsedSearchQuery {
+  groups: SearchClause[][];
+}
+
+/**
+ * Parse a query into clauses, or return null when it uses syntax outside
+ * the supported subset (parentheses, other keywords, malformed values).
+ * A leading `find` is accepted; a field keyword applies to the words up to
+ * the next operator, as on INSPIRE (`t dark matter and a witten`).
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery | null {
+  const tokens = tokenizeSearchQuery(query);
+  if (
+    tokens.length > 1 &&
+    tokens[0].type === "word" &&
+    isFindPrefix(tokens[0].text)
+  ) {
+    tokens.shift();
+  }
+  if (
+    !tokens.length ||
+    tokens.some((token) => token.type === "open" || token.type === "close")
+  ) {
+    return null;
+  }
+
+  const groups: SearchClause[][] = [[]];
+  let current: {
+    field: SearchField;
+    parts: string[];
+    quoted: boolean;
+    negated: boolean;
+  } | null = null;
+  let negateNext = false;
+
+  const finish = (): boolean => {
+    if (!current) return true;
+    const value = current.parts.join(" ").trim();
+    const { field, quoted, negated } = current;
+    current = null;
+    if (!value) return false;
+    const clause: SearchClause = { field, value, quoted, negated };
+    if (field === "date" || field === "topcite") {
+      const range = parseSearchRange(value, field);
+      if (!range) return false;
+      clause.range = range;
+    }
+    groups[groups.length - 1].push(clause);
+    return true;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const { text: token } = tokens[i];
+    const quoted = tokens[i].type === "quoted";
+
+    const op = !quoted && getSearchOperator(token);
+    // and/or need a clause on their left
+    if (op === "and") {
+      if (!current || !finish()) return null;
+      continue;
+    }
+    if (op === "or") {
+      if (!current || !finish()) return null;
+      groups.push([]);
+      continue;
+    }
+    if (op === "not") {
+      if (!finish()) return null;
+      negateNext = true;
+      continue;
+    }
+
+    if (current) {
+      current.parts.push(token);
+      current.quoted ||= quoted;
+      continue;
+    }
+
+    const negated = negateNext;
+    negateNext = false;
+    if (quoted) {
+      current = { field: "any", parts: [token], quoted, negated };
+      continue;
+    }
+
+    const word = token.startsWith("-") ? token.slice(1) : token;
+    const wordNegated = negated || word !== token;
+    const prefix = splitFieldPrefix(word);
+    if (prefix) {
+      const info = getSearchField(prefix.keyword);
+      // Keywords the local index cannot answer are left to INSPIRE
+      if (info && !info.local) return null;
+      if (info?.local) {
+        // field:value, with the value possibly in the next (quoted) token;
+        // a comparison stays in the value (`date>2020` reads as `date > 2020`)
+        const field = info.local;
+        const value =
+          prefix.op === ":" ? prefix.value : `${prefix.op}${prefix.value}`;
+        const next = tokens[i + 1];
+        if (!value && next?.type === "quoted") {
+          current = {
+            field,
+            parts: [next.text],
+            quoted: true,
+            negated: wordNegated,
+          };
+          i++;
+        } else {
+          current = {
+            field,
+            parts: [value],
+            quoted: false,
+            negated: wordNegated,
+          };
+        }
+        continue;
+      }
+      if (prefix.op === ":") return null;
+      // Comparisons in free text (`H->gamma`) are plain words
+    }
+    const info = getSearchField(word);
+    if (info && !info.local) return null;
+    if (info?.local && i + 1 < tokens.length) {
+      current = {
+        field: info.local,
+        parts: [],
+        quoted: false,
+        negated: wordNegated,
+      };
+      continue;
+    }
+    current = {
+      field: "any",
+      parts: [word],
+      quoted: false,
+      negated: wordNegated,
+    };
+  }
+
+  // A trailing operator leaves no clause open
+  if (!current || !finish()) return null;
+  return { groups };
+}
@@ -0,0 +1,505 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Search Syntax - Tokenizer, validator and builder for INSPIRE queries
+// Checks SPIRES-style queries (`a witten and t gauge`, `date>2020`,
+// `refersto:recid:N`, `topcite 500+`) before they are sent, so a typo is
+// reported at its position instead of silently returning zero hits. Also
+// completes field names as they are typed and serializes the advanced search
+// form into a query INSPIRE accepts.
+// The tokenizer, field table, operators and range values defined here are
+// shared with the local index parser (searchQuery.ts), so both read a query
+// the same way.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { SearchField } from "./searchQuery";
+
+/**
+ * How the value of a field is checked: free text, a year or citation range,
+ * a record id, or a nested query (`refersto:recid:N`, `citedby:a X`).
+ */
+export type SearchFieldKind = "text" | "range" | "recid" | "nested";
+
+export interface SearchFieldInfo {
+  /** Canonical keyword, offered by completion */
+  name: string;
+  aliases: string[];
+  kind: SearchFieldKind;
+  /** Field of the local search index answering it; absent for INSPIRE only */
+  local?: SearchField;
+}
+
+/** INSPIRE search keywords, most used first (completion picks the first) */
+export const INSPIRE_SEARCH_FIELDS: SearchFieldInfo[] = [
+  { name: "author", aliases: ["a", "au"], kind: "text", local: "author" },
+  { name: "title", aliases: ["t", "ti"], kind: "text", local: "title" },
+  { name: "journal", aliases: ["j"], kind: "text", local: "journal" },
+  { name: "eprint", aliases: ["arxiv"], kind: "text", local: "eprint" },
+  { name: "date", aliases: ["d"], kind: "range", local: "date" },
+  { name: "topcite", aliases: ["topcit"], kind: "range", local: "topcite" },
+  { name: "fulltext", aliases: ["ft"], kind: "text" },
+  { name: "refersto", aliases: [], kind: "nested" },
+  { name: "citedby", aliases: [], kind: "nested" },
+  { name: "collaboration", aliases: ["cn"], kind: "text" },
+  { name: "exactauthor", aliases: ["ea"], kind: "text", local: "author" },
+  { name: "affiliation", aliases: ["aff"], kind: "text" },
+  { name: "keyword", aliases: ["k", "kw"], kind: "text" },
+  { name: "type", aliases: ["tc"], kind: "text" },
+  { name: "texkey", aliases: [], kind: "text" },
+  { name: "doi", aliases: [], kind: "text" },
+  { name: "reportnumber", aliases: ["r", "rn"], kind: "text" },
+  { name: "experiment", aliases: ["exp"], kind: "text" },
+  { name: "primarch", aliases: [], kind: "text" },
+  // The local index keeps one date per record
+  { name: "de", aliases: ["date-earliest"], kind: "range", local: "date" },
+  { name: "jy", aliases: [], kind: "range" },
+  { name: "recid", aliases: [], kind: "recid" },
+];
+
+const FIELDS_BY_KEYWORD = new Map<string, SearchFieldInfo>(
+  INSPIRE_SEARCH_FIELDS.flatMap((field) =>
+    [field.name, ...field.aliases].map((keyword) => [keyword, field] as const),
+  ),
+);
+
+const OPERATORS = new Map<string, SearchOperator>([
+  ["and", "and"],
+  ["&", "and"],
+  ["+", "and"],
+  ["or", "or"],
+  ["|", "or"],
+  ["not", "not"],
+  ["-", "not"],
+]);
+const FIND_PREFIXES = new Set(["find", "fin", "f"]);
+
+// `keyword:value`, `keyword>=value`, ... within a single word
+const FIELD_PREFIX_PATTERN = /^([a-z][a-z-]*)(:|>=|<=|>|<|=)(.*)$/i;
+
+export type SearchOperator = "and" | "or" | "not";
+
+/** Look up a keyword or alias, case-insensitively. */
+export function getSearchField(keyword: string): SearchFieldInfo | undefined {
+  return FIELDS_BY_KEYWORD.get(keyword.toLowerCase());
+}
+
+/** The operator a word stands for, if any (`and`, `&`, `+`, `or`, ...). */
+export function getSearchOperator(word: string): SearchOperator | undefined {
+  return OPERATORS.get(word.toLowerCase());
+}
+
+/** `find`, `fin` or `f`, which may start a query. */
+export function isFindPrefix(word: string): boolean {
+  return FIND_PREFIXES.has(word.toLowerCase());
+}
+
+/**
+ * Split `keyword:value` or `keyword>=value` (any comparison) typed as one
+ * word. `op` is ":" or the comparison; the keyword may be unknown.
+ */
+export function splitFieldPrefix(
+  word: string,
+): { keyword: string; op: string; value: string } | null {
+  const match = FIELD_PREFIX_PATTERN.exec(word);
+  return match ? { keyword: match[1], op: match[2], value: match[3] } : null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Range values
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Inclusive bounds of a date (year) or citation count clause */
+export interface SearchRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Parse `date` and `topcite` values: `2020`, `> 2020`, `>= 2020`,
+ * `after 2019`, `before 2021`, `2015->2020`, `100+`. Dates are compared
+ * by year, so a month or day is ignored.
+ */
+export function parseSearchRange(
+  value: string,
+  field: "date" | "topcite",
+): SearchRange | null {
+  let v = value.trim().toLowerCase().replace(/\s+/g, " ");
+  if (field === "date") {
+    v = v.replace(/\b(\d{4})-\d{1,2}(?:-\d{1,2})?\b/g, "$1");
+  }
+  let match = /^(\d+) ?-> ?(\d+)$/.exec(v);
+  if (match) {
+    const [a, b] = [Number(match[1]), Number(match[2])];
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  match = /^(\d+)\+$/.exec(v);
+  if (match) return { min: Number(match[1]) };
+  match = /^(>=|<=|>|<|after|before)? ?(\d+)$/.exec(v);
+  if (!match) return null;
+  const n = Number(match[2]);
+  switch (match[1]) {
+    case ">":
+    case "after":
+      return { min: n + 1 };
+    case ">=":
+      return { min: n };
+    case "<":
+    case "before":
+      return { max: n - 1 };
+    case "<=":
+      return { max: n };
+    default:
+      return { min: n, max: n };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tokenizer
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SearchToken {
+  type: "word" | "quoted" | "open" | "close";
+  /** Token text; quoted tokens without their quotes */
+  text: string;
+  /** Offsets into the query, quotes and parentheses included */
+  start: number;
+  end: number;
+  /** Quoted token whose closing quote is missing */
+  unclosed?: boolean;
+}
+
+/**
+ * Split a query into words, quoted phrases and parentheses, keeping their
+ * offsets. `"` always starts a phrase; `'` only at the start of a word, so
+ * names such as O'Raifeartaigh stay one word.
+ */
+export function tokenizeSearchQuery(query: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({
+        type: char === "(" ? "open" : "close",
+        text: char,
+        start: i,
+        end: i + 1,
+      });
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const close = query.indexOf(char, i + 1);
+      const end = close < 0 ? query.length : close + 1;
+      tokens.push({
+        type: "quoted",
+        text: query.slice(i + 1, close < 0 ? end : close),
+        start: i,
+        end,
+        ...(close < 0 ? { unclosed: true } : {}),
+      });
+      i = end;
+      continue;
+    }
+    let end = i;
+    while (end < query.length && !/[\s()"]/.test(query[end])) end++;
+    tokens.push({ type: "word", text: query.slice(i, end), start: i, end });
+    i = end;
+  }
+  return tokens;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validator
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SearchSyntaxErrorCode =
+  | "unclosed-quote"
+  | "unbalanced-paren"
+  | "unknown-field"
+  | "missing-value"
+  | "invalid-range"
+  | "invalid-recid"
+  | "dangling-operator";
+
+export interface SearchSyntaxIssue {
+  code: SearchSyntaxErrorCode;
+  /** Offsets of the offending text in the query */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A field keyword with the value tokens collected so far */
+interface OpenField {
+  field: SearchFieldInfo;
+  keyword: SearchToken;
+  /** Value typed right after `field:` or `field>` in the same word */
+  inline?: { text: string; start: number };
+  values: SearchToken[];
+}
+
+/**
+ * Check a query against the INSPIRE search syntax. Returns the problems in
+ * query order; an empty list means the query is well-formed. Unknown bare
+ * words are free text, so only `unknown:` prefixes count as unknown fields.
+ */
+export function validateSearchQuery(query: string): SearchSyntaxIssue[] {
+  const issues: SearchSyntaxIssue[] = [];
+  const report = (code: SearchSyntaxErrorCode, start: number, end: number) => {
+    issues.push({ code, start, end, text: query.slice(start, end) });
+  };
+
+  const tokens = tokenizeSearchQuery(query);
+  if (
+    tokens.length > 1 &&
+    tokens[0].type === "word" &&
+    isFindPrefix(tokens[0].text)
+  ) {
+    tokens.shift();
+  }
+
+  const openParens: SearchToken[] = [];
+  let current: OpenField | null = null;
+  // Pending and/or/not, reported if no clause follows it
+  let operator: SearchToken | null = null;
+  // No clause yet since the start, an and/or, or an open parenthesis
+  let expectClause = true;
+
+  const finishField = () => {
+    if (!current) return;
+    const { field, keyword, inline, values } = current;
+    current = null;
+    const parts = [
+      ...(inline ? [inline.text] : []),
+      ...values.map((token) => token.text),
+    ];
+    const value = parts.join(" ").trim();
+    if (!value) {
+      report("missing-value", keyword.start, keyword.end);
+      return;
+    }
+    const start = inline ? inline.start : values[0].start;
+    const end = values.length ? values[values.length - 1].end : keyword.end;
+    switch (field.kind) {
+      case "range": {
+        const rangeField = field.name === "topcite" ? "topcite" : "date";
+        if (!parseSearchRange(value, rangeField)) {
+          report("invalid-range", start, end);
+        }
+        break;
+      }
+      case "recid":
+        if (!/^\d+$/.test(value)) report("invalid-recid", start, end);
+        break;
+      case "nested": {
+        const match = /^recid\s*:\s*(.*)$/i.exec(value);
+        if (match && !/^\d+$/.test(match[1])) {
+          report("invalid-recid", start, end);
+        }
+        break;
+      }
+    }
+  };
+
+  const beginClause = () => {
+    expectClause = false;
+    operator = null;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "quoted" && token.unclosed) {
+      report("unclosed-quote", token.start, token.end);
+    }
+
+    if (token.type === "open") {
+      finishField();
+      openParens.push(token);
+      expectClause = true;
+      continue;
+    }
+    if (token.type === "close") {
+      finishField();
+      if (operator) report("dangling-operator", operator.start, operator.end);
+      operator = null;
+      if (!openParens.pop()) report("unbalanced-paren", token.start, token.end);
+      expectClause = false;
+      continue;
+    }
+
+    const op = token.type === "word" && getSearchOperator(token.text);
+    if (op) {
+      finishField();
+      // and/or need a clause on their left; not may start one
+      if (op !== "not" && expectClause) {
+        report("dangling-operator", token.start, token.end);
+      }
+      operator = token;
+      expectClause = true;
+      continue;
+    }
+
+    if (current) {
+      (current as OpenField).values.push(token);
+      continue;
+    }
+    beginClause();
+    if (token.type === "quoted") continue;
+
+    const negation = token.text.startsWith("-") ? 1 : 0;
+    const word = token.text.slice(negation);
+    const prefix = splitFieldPrefix(word);
+    if (prefix) {
+      const field = getSearchField(prefix.keyword);
+      const wordStart = token.start + negation;
+      if (field) {
+        const inlineText =
+          prefix.op === ":" ? prefix.value : `${prefix.op}${prefix.value}`;
+        current = {
+          field,
+          keyword: { ...token, start: wordStart },
+          values: [],
+        };
+        if (inlineText) {
+          current.inline = {
+            text: inlineText,
+            start:
+              wordStart + prefix.keyword.length + (prefix.op === ":" ? 1 : 0),
+          };
+        }
+        continue;
+      }
+      // Comparisons in free text (`H->gamma`) are not field prefixes
+      if (prefix.op === ":") {
+        report("unknown-field", wordStart, wordStart + prefix.keyword.length);
+      }
+      continue;
+    }
+    const field = getSearchField(word);
+    if (field) {
+      current = { field, keyword: token, values: [] };
+    }
+  }
+
+  finishField();
+  if (operator) {
+    const { start, end } = operator as SearchToken;
+    report("dangling-operator", start, end);
+  }
+  for (const paren of openParens) {
+    report("unbalanced-paren", paren.start, paren.end);
+  }
+  return issues.sort((a, b) => a.start - b.start);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Field-name completion
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Complete a partly typed field keyword at the end of the input, e.g.
+ * `a witten and ti` → `a witten and title `. Only words in keyword position
+ * (start of the query, after an operator or parenthesis) of at least two
+ * letters are completed, and never words that already are a keyword.
+ * Returns the completed input, or null.
+ */
+export function completeSearchField(input: string): string | null {
+  const match = /(^|[\s(])-?([a-z]{2,})$/i.exec(input);
+  if (!match) return null;
+  const partial = match[2];
+  if (getSearchField(partial)) return null;
+
+  // Tokens before the word (and before its "-" negation, if any)
+  const before = tokenizeSearchQuery(
+    input.slice(0, match.index + match[1].length),
+  );
+  const previous = before[before.length - 1];
+  const previousWord = previous?.type === "word" ? previous.text : "";
+  const keywordPosition =
+    !previous ||
+    previous.type === "open" ||
+    getSearchOperator(previousWord) !== undefined ||
+    (before.length === 1 && isFindPrefix(previousWord));
+  if (!keywordPosition) return null;
+
+  const lower = partial.toLowerCase();
+  const field = INSPIRE_SEARCH_FIELDS.find((info) =>
+    info.name.startsWith(lower),
+  );
+  if (!field) return null;
+  const suffix = field.kind === "nested" ? ":recid:" : " ";
+  return `${input}${field.name.slice(partial.length)}${suffix}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Advanced search form
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Values of the advanced search form; empty fields are left out */
+export interface AdvancedSearchFields {
+  /** One or more authors separated by ";" */
+  author?: string;
+  title?: string;
+  fulltext?: string;
+  journal?: string;
+  eprint?: string;
+  collaboration?: string;
+  /** Publication years, inclusive */
+  dateFrom?: string;
+  dateTo?: string;
+  minCitations?: string;
+  /** Record id of a paper the results cite */
+  refersTo?: string;
+  /** Record id of a paper citing the results */
+  citedBy?: string;
+  /** Combine the clauses with and (default) or or */
+  match?: "all" | "any";
+}
+
+/**
+ * Quote a value whose words would otherwise read as operators or syntax;
+ * plain values stay unquoted so INSPIRE matches their words anywhere.
+ */
+function formatSearchValue(value: string): string {
+  const clean = value.replace(/"/g, "").replace(/\s+/g, " ").trim();
+  const needsQuotes =
+    /[()]/.test(clean) ||
+    clean.split(" ").some((word) => getSearchOperator(word) !== undefined);
+  return needsQuotes ? `"${clean}"` : clean;
+}
+
+/** Serialize the advanced search form into an INSPIRE query. */
+export function buildSearchQuery(fields: AdvancedSearchFields): string {
+  const clauses: string[] = [];
+  const add = (keyword: string, value: string | undefined) => {
+    const trimmed = value?.trim();
+    if (trimmed) clauses.push(`${keyword} ${formatSearchValue(trimmed)}`);
+  };
+
+  for (const author of (fields.author ?? "").split(";")) {
+    add("a", author);
+  }
+  add("t", fields.title);
+  add("fulltext", fields.fulltext);
+  add("j", fields.journal);
+  add("eprint", fields.eprint);
+  add("cn", fields.collaboration);
+
+  const from = fields.dateFrom?.trim();
+  const to = fields.dateTo?.trim();
+  if (from && to) clauses.push(`date ${from}->${to}`);
+  else if (from) clauses.push(`date >= ${from}`);
+  else if (to) clauses.push(`date <= ${to}`);
+
+  const minCitations = fields.minCitations?.trim();
+  if (minCitations) clauses.push(`topcite ${minCitations}+`);
+  const refersTo = fields.refersTo?.trim();
+  if (refersTo) clauses.push(`refersto:recid:${refersTo}`);
+  const citedBy = fields.citedBy?.trim();
+  if (citedBy) clauses.push(`citedby:recid:${citedBy}`);
+
+  return clauses.join(fields.match === "any" ? " or " : " and ");
+}
@@ -1,3 +1,5 @@
+import type { InspireSortOption } from "./constants";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Author Search Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -47,6 +49,44 @@ export interface AuthorStats {
   citationsWithoutSelf?: number;
 }
 
+/** Paper and citation totals of one slice of an author's papers */
+export interface AuthorPaperSplit {
+  papers: number;
+  citations: number;
+}
+
+/**
+ * Bibliometrics shown in the author dashboard.
+ * The network-backed parts are undefined when they could not be fetched.
+ */
+export interface AuthorDashboardStats {
+  paperCount: number;
+  totalCitations: number;
+  citationsWithoutSelf: number;
+  hIndex: number;
+  i10Index: number;
+  gIndex: number;
+  /** Papers and the citations they have received, by publication year */
+  papersPerYear: Array<{ year: string; papers: number; citations: number }>;
+  /** Citations received in each calendar year (all papers of the author) */
+  citationsPerYear?: Array<{ year: string; citations: number }>;
+  splits: {
+    firstAuthor: AuthorPaperSplit;
+    solo: AuthorPaperSplit;
+    /** 2–10 authors */
+    smallGroup: AuthorPaperSplit;
+    /** More than 10 authors */
+    collaboration: AuthorPaperSplit;
+  };
+  /** Most frequent co-authors on papers with up to 10 authors */
+  coauthors?: Array<{ name: string; recid?: string; papers: number }>;
+  /** Most frequent institutions among the sampled citing papers */
+  citingInstitutions?: Array<{ name: string; papers: number }>;
+  /** Number of citing papers the institutions were counted from */
+  citingSampleSize?: number;
+  arxivCategories: Array<{ category: string; papers: number }>;
+}
+
 /**
  * Favorite author for quick access in References Panel.
  */
@@ -56,6 +96,41 @@ export interface FavoriteAuthor {
   addedAt: number;
 }
 
+/**
+ * Paper by a favorite author that appeared after the author's previous
+ * feed check, shown under "New from favorites" until marked as read.
+ */
+export interface AuthorFeedItem {
+  recid: string;
+  title: string;
+  /** "A. Smith, B. Jones et al." */
+  authors: string;
+  /** Earliest date (YYYY-MM-DD or shorter) */
+  date?: string;
+  /** Feed key of the favorite author, see getAuthorFeedKey */
+  authorKey: string;
+  authorLabel: string;
+  foundAt: number;
+  read: boolean;
+}
+
+/**
+ * Paper citing one of "my papers" that was not in the tracked paper's
+ * cited-by snapshot, listed in the citation inbox until marked as read.
+ */
+export interface CitationInboxItem {
+  /** Citing paper */
+  recid: string;
+  title: string;
+  authors: string;
+  year?: string;
+  /** Tracked paper it cites */
+  citedRecid: string;
+  citedTitle: string;
+  foundAt: number;
+  read: boolean;
+}
+
 /**
  * Favorite paper for quick access in References Panel.
  */
@@ -220,14 +295,43 @@ export interface MultiSeedGraphResult {
       shown: { references: number; citedBy: number };
     }
   >;
+  /**
+   * Optional per-node breakdown for expanded non-seed nodes (multi-hop).
+   * Keys are recids of expanded nodes.
+   */
+  expansions?: Record<string, CitationGraphExpansion>;
+  /**
+   * Entries pulled in by expansions, at any hop (never duplicates seeds or the
+   * first ring).
+   */
+  secondRing?: {
+    references: InspireReferenceEntry[];
+    citedBy: InspireReferenceEntry[];
+  };
+  /** Hop of each `secondRing` entry from the seeds (2 = next to the first ring). */
+  ringHops?: Record<string, number>;
 }
 
+export interface CitationGraphExpansion {
+  references: string[]; // recids of displayed nodes the expanded node cites
+  citedBy: string[]; // recids of displayed nodes citing the expanded node
+  totals: { references: number; citedBy: number };
+}
+
+/**
+ * Node placement: year × citations split layout, force-directed with bundled
+ * edges, or force-directed grouped by citation communities.
+ */
+export type CitationGraphLayoutMode = "timeline" | "force" | "clustered";
+
 export type CitationGraphNodeKind = "seed" | "reference" | "citedBy";
 
 export type CitationGraphEdgeType =
   | "seed-to-seed"
   | "seed-to-reference"
-  | "cited-by-to-seed";
+  | "cited-by-to-seed"
+  | "node-to-reference"
+  | "cited-by-to-node";
 
 export interface CitationGraphNodeData {
   recid: string;
@@ -240,6 +344,10 @@ export interface CitationGraphNodeData {
   inspireUrl?: string;
   arxivId?: string;
   doi?: string;
+  /** 2 or more for nodes added by an expansion (absent = first ring). */
+  hop?: number;
+  /** Whether the node's references/cited-by were expanded into the graph. */
+  expanded?: boolean;
 }
 
 export interface CitationGraphEdgeData {
@@ -253,7 +361,12 @@ export interface CitationGraphSaveData {
   createdAt: string;
   seeds: { recid: string; title: string; localItemID?: number }[];
   graph: { nodes: CitationGraphNodeData[]; edges: CitationGraphEdgeData[] };
-  viewState?: { panX: number; panY: number; scale: number };
+  viewState?: {
+    panX: number;
+    panY: number;
+    scale: number;
+    layout?: CitationGraphLayoutMode;
+  };
   settings: { sort: CitationGraphSortMode };
 }
 
@@ -277,6 +390,28 @@ export interface SearchHistoryItem {
   timestamp: number;
 }
 
+/**
+ * Named search kept in the `saved_searches` pref. With `alert` on, the query
+ * is re-run on a schedule and hits not seen before are kept in `newRecids`
+ * until the search is opened.
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  sort: InspireSortOption;
+  /** Listed in the Favorites tab */
+  pinned: boolean;
+  /** Re-run on a schedule and notify about new hits */
+  alert: boolean;
+  createdAt: number;
+  lastCheckedAt?: number;
+  /** Recids returned by the last check */
+  lastHitRecids?: string[];
+  /** Hits found by checks since the search was last opened */
+  newRecids?: string[];
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Generic JSON Type
 // ─────────────────────────────────────────────────────────────────────────────
@@ -342,6 +477,11 @@ export type ItemWithPendingInspireNote = Zotero.Item & {
   _zinspirePendingInspireNote?: string;
 };
 
+/** `citations_changed` event data held back until the item is saved */
+export type ItemWithPendingCitationsEvent = Zotero.Item & {
+  _zinspirePendingCitationsEvent?: Record<string, unknown>;
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Local Cache Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,449 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Undo Journal
+// Persisted field-level before/after record of batch operations (metadata
+// updates, preprint upgrades, collaboration tags, external trash/erase) so the
+// most recent batch can be rolled back.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { config } from "../../../package.json";
+import type { FieldChange, FieldCategory } from "./smartUpdate";
+
+const UNDO_JOURNAL_FILE_NAME = "zoteroinspire-undo.json";
+const UNDO_JOURNAL_VERSION = 1;
+/** Older batches are dropped once the journal holds this many. */
+const MAX_UNDO_BATCHES = 10;
+/** Attachments that survive erasing their parent: a URL or a file outside storage. */
+const RESTORABLE_LINK_MODES = new Set(["linked_url", "linked_file"]);
+
+/** toJSON keys that are bookkeeping, not user-visible item state. */
+const IGNORED_JSON_KEYS = new Set([
+  "key",
+  "version",
+  "dateAdded",
+  "dateModified",
+  "collections",
+  "relations",
+  "parentItem",
+  "inPublications",
+]);
+
+export type UndoBatchKind =
+  | "metadata_update"
+  | "preprint_upgrade"
+  | "collab_tags"
+  | "trash"
+  | "erase";
+
+/**
+ * One item touched by a batch. In `changes`, `localValue` is the value before
+ * the batch (what undo restores) and `inspireValue` the value the batch wrote.
+ * `creators` and `tags` are compared as JSON strings; `deleted` as
+ * "true"/"false"; `itemType` by type name.
+ */
+export interface UndoItemRecord {
+  libraryID: number;
+  itemKey: string;
+  title: string;
+  changes: FieldChange[];
+  /** Erased items: full JSON to recreate the item and its child items */
+  erased?: {
+    item: Record<string, unknown>;
+    notes: Record<string, unknown>[];
+    /** Absent in batches journaled before attachments were recorded */
+    attachments?: Record<string, unknown>[];
+  };
+}
+
+export interface UndoBatch {
+  id: string;
+  kind: UndoBatchKind;
+  createdAt: number;
+  items: UndoItemRecord[];
+  undoneAt?: number;
+}
+
+interface UndoJournalFile {
+  version: number;
+  batches: UndoBatch[];
+}
+
+export interface UndoResult {
+  batch: UndoBatch;
+  /** Items with at least one field restored, or recreated */
+  restored: number;
+  /** Fields skipped because they were edited again after the batch */
+  conflicts: number;
+  /** Items that no longer exist (e.g. trash emptied since) */
+  missing: number;
+  /** Attachments of recreated items whose stored files were erased with them */
+  missingAttachments: number;
+}
+
+export type ItemSnapshot = Record<string, string>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Snapshots and Diffs
+// ─────────────────────────────────────────────────────────────────────────────
+
+function normalizeTags(tags: unknown): string {
+  if (!Array.isArray(tags)) return "[]";
+  const sorted = tags
+    .map((t: any) => ({
+      tag: String(t?.tag ?? ""),
+      type: Number(t?.type ?? 0),
+    }))
+    .sort((a, b) => a.tag.localeCompare(b.tag) || a.type - b.type);
+  return JSON.stringify(sorted);
+}
+
+/**
+ * Capture the user-visible state of an item (fields, creators, tags, trash
+ * flag) as flat strings, so two snapshots can be diffed field by field.
+ */
+export function snapshotItem(item: Zotero.Item): ItemSnapshot {
+  const json = item.toJSON() as Record<string, any>;
+  const snapshot: ItemSnapshot = {};
+  for (const [key, value] of Object.entries(json)) {
+    if (IGNORED_JSON_KEYS.has(key)) continue;
+    if (key === "creators") {
+      snapshot.creators = JSON.stringify(value ?? []);
+    } else if (key === "tags") {
+      snapshot.tags = normalizeTags(value);
+    } else if (key === "deleted") {
+      continue;
+    } else if (typeof value === "string" || typeof value === "number") {
+      snapshot[key] = String(value);
+    }
+  }
+  snapshot.deleted = item.deleted ? "true" : "false";
+  return snapshot;
+}
+
+function categoryForField(field: string): FieldCategory {
+  if (field === "extra") return "extra";
+  if (
+    ["DOI", "url", "archive", "archiveLocation", "citationKey"].includes(field)
+  ) {
+    return "identifiers";
+  }
+  return "bibliographic";
+}
+
+/** Field-level changes between two snapshots of the same item. */
+export function diffSnapshots(
+  before: ItemSnapshot,
+  after: ItemSnapshot,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    const oldValue = before[field] ?? "";
+    const newValue = after[field] ?? "";
+    if (oldValue === newValue) continue;
+    changes.push({
+      field,
+      category: categoryForField(field),
+      localValue: oldValue,
+      inspireValue: newValue,
+      isSignificant: true,
+    });
+  }
+  return changes;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getUndoJournalPath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, UNDO_JOURNAL_FILE_NAME);
+}
+
+// Serialize read-modify-write cycles so concurrent commits never drop a batch
+let journalQueue: Promise<unknown> = Promise.resolve();
+
+function withJournal<T>(fn: () => Promise<T>): Promise<T> {
+  const next = journalQueue.then(fn, fn);
+  journalQueue = next.catch(() => undefined);
+  return next;
+}
+
+async function loadJournal(): Promise<UndoJournalFile> {
+  try {
+    const path = getUndoJournalPath();
+    if (await IOUtils.exists(path)) {
+      const data = (await IOUtils.readJSON(path)) as UndoJournalFile;
+      if (
+        data?.version === UNDO_JOURNAL_VERSION &&
+        Array.isArray(data.batches)
+      ) {
+        return data;
+      }
+    }
+  } catch (err) {
+    Zotero.debug(`[${config.addonName}] Failed to load undo journal: ${err}`);
+  }
+  return { version: UNDO_JOURNAL_VERSION, batches: [] };
+}
+
+async function saveJournal(journal: UndoJournalFile): Promise<void> {
+  try {
+    await IOUtils.writeJSON(getUndoJournalPath(), journal);
+  } catch (err) {
+    Zotero.debug(`[${config.addonName}] Failed to save undo journal: ${err}`);
+  }
+}
+
+/** All journaled batches, newest first. */
+export async function listUndoBatches(): Promise<UndoBatch[]> {
+  const journal = await withJournal(loadJournal);
+  return [...journal.batches].reverse();
+}
+
+/** The newest batch that has not been undone yet. */
+export async function getLastUndoableBatch(): Promise<UndoBatch | null> {
+  const batches = await listUndoBatches();
+  return batches.find((b) => !b.undoneAt) ?? null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recording
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Collects item changes for one batch. Call `before(item)` ahead of each
+ * mutation and `after(item)` once it is saved, then `commit()` at the end;
+ * batches without changes are not written.
+ */
+export class UndoBatchRecorder {
+  private readonly snapshots = new Map<number, ItemSnapshot>();
+  private readonly records: UndoItemRecord[] = [];
+
+  constructor(private readonly kind: UndoBatchKind) {}
+
+  before(item: Zotero.Item): void {
+    try {
+      this.snapshots.set(item.id, snapshotItem(item));
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Undo snapshot failed: ${err}`);
+    }
+  }
+
+  after(item: Zotero.Item): void {
+    const before = this.snapshots.get(item.id);
+    if (!before) return;
+    this.snapshots.delete(item.id);
+    try {
+      const changes = diffSnapshots(before, snapshotItem(item));
+      if (!changes.length) return;
+      this.records.push({
+        libraryID: item.libraryID,
+        itemKey: item.key,
+        title: String(item.getField("title") ?? ""),
+        changes,
+      });
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Undo snapshot failed: ${err}`);
+    }
+  }
+
+  /** Keep enough of an item that is about to be erased to recreate it. */
+  recordErase(item: Zotero.Item): void {
+    const regular = item.isRegularItem();
+    const childJSON = (ids: number[]) =>
+      ids
+        .map((id) => Zotero.Items.get(id))
+        .filter(Boolean)
+        .map((child) => child.toJSON() as Record<string, unknown>);
+    this.records.push({
+      libraryID: item.libraryID,
+      itemKey: item.key,
+      title: String(item.getField("title") ?? ""),
+      changes: [],
+      erased: {
+        item: item.toJSON() as Record<string, unknown>,
+        notes: childJSON(regular ? item.getNotes() : []),
+        attachments: childJSON(regular ? item.getAttachments() : []),
+      },
+    });
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  async commit(): Promise<UndoBatch | null> {
+    if (!this.records.length) return null;
+    const batch: UndoBatch = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      kind: this.kind,
+      createdAt: Date.now(),
+      items: [...this.records],
+    };
+    await withJournal(async () => {
+      const journal = await loadJournal();
+      journal.batches.push(batch);
+      if (journal.batches.length > MAX_UNDO_BATCHES) {
+        journal.batches = journal.batches.slice(-MAX_UNDO_BATCHES);
+      }
+      await saveJournal(journal);
+    });
+    Zotero.debug(
+      `[${config.addonName}] Undo journal: recorded ${batch.kind} batch (${batch.items.length} items)`,
+    );
+    return batch;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Undo
+// ─────────────────────────────────────────────────────────────────────────────
+
+function applySnapshotValue(item: Zotero.Item, field: string, value: string) {
+  if (field === "itemType") {
+    item.setType(Zotero.ItemTypes.getID(value) as number);
+  } else if (field === "creators") {
+    item.setCreators(JSON.parse(value || "[]"));
+  } else if (field === "tags") {
+    item.setTags(JSON.parse(value || "[]"));
+  } else if (field === "deleted") {
+    item.deleted = value === "true";
+  } else if (field === "note") {
+    item.setNote(value);
+  } else {
+    // A restored item type may not have the field; then it is already empty
+    const fieldID = Zotero.ItemFields.getID(field);
+    if (
+      !value &&
+      !(fieldID && Zotero.ItemFields.isValidForType(fieldID, item.itemTypeID))
+    ) {
+      return;
+    }
+    item.setField(field as any, value);
+  }
+}
+
+/**
+ * Recreate an erased item with its notes and linked attachments. Stored files
+ * were erased with the item, so those attachments are counted as missing.
+ */
+async function recreateErasedItem(
+  record: UndoItemRecord,
+  result: UndoResult,
+): Promise<boolean> {
+  const existing = await Zotero.Items.getByLibraryAndKeyAsync(
+    record.libraryID,
+    record.itemKey,
+  );
+  if (existing || !record.erased) return false;
+  const json = record.erased.item as Record<string, any>;
+  const item = new Zotero.Item(json.itemType);
+  item.libraryID = record.libraryID;
+  item.key = record.itemKey;
+  item.fromJSON(json);
+  await item.saveTx();
+  for (const noteJSON of record.erased.notes) {
+    // Under the recreated parent, keeping tags and relations
+    const { key, version, parentItem, ...json } = noteJSON as Record<
+      string,
+      any
+    >;
+    const note = new Zotero.Item("note");
+    note.libraryID = record.libraryID;
+    note.parentID = item.id;
+    note.fromJSON(json);
+    await note.saveTx();
+  }
+  for (const attachmentJSON of record.erased.attachments ?? []) {
+    // A new key, under the recreated parent
+    const { key, version, parentItem, ...json } = attachmentJSON as Record<
+      string,
+      any
+    >;
+    if (!RESTORABLE_LINK_MODES.has(json.linkMode)) {
+      result.missingAttachments++;
+      continue;
+    }
+    const attachment = new Zotero.Item("attachment");
+    attachment.libraryID = record.libraryID;
+    attachment.parentID = item.id;
+    attachment.fromJSON(json);
+    await attachment.saveTx();
+  }
+  return true;
+}
+
+/**
+ * Restore the values recorded for the newest not-yet-undone batch. A field is
+ * only restored while it still holds the value the batch wrote, so later
+ * manual edits win over the journal.
+ */
+export async function undoLastBatch(): Promise<UndoResult | null> {
+  return withJournal(async () => {
+    const journal = await loadJournal();
+    const batch = [...journal.batches].reverse().find((b) => !b.undoneAt);
+    if (!batch) return null;
+
+    const result: UndoResult = {
+      batch,
+      restored: 0,
+      conflicts: 0,
+      missing: 0,
+      missingAttachments: 0,
+    };
+    for (const record of batch.items) {
+      try {
+        if (record.erased) {
+          if (await recreateErasedItem(record, result)) {
+            result.restored++;
+          } else {
+            result.conflicts++;
+          }
+          continue;
+        }
+        const item = (await Zotero.Items.getByLibraryAndKeyAsync(
+          record.libraryID,
+          record.itemKey,
+        )) as Zotero.Item | false;
+        if (!item) {
+          result.missing++;
+          continue;
+        }
+        const current = snapshotItem(item);
+        // The item type first: it decides which fields can be set
+        const changes = [...record.changes].sort(
+          (a, b) =>
+            Number(b.field === "itemType") - Number(a.field === "itemType"),
+        );
+        let applied = 0;
+        for (const change of changes) {
+          if (
+            (current[change.field] ?? "") !== String(change.inspireValue ?? "")
+          ) {
+            result.conflicts++;
+            continue;
+          }
+          applySnapshotValue(
+            item,
+            change.field,
+            String(change.localValue ?? ""),
+          );
+          applied++;
+        }
+        if (applied) {
+          await item.saveTx();
+          result.restored++;
+        }
+      } catch (err) {
+        result.conflicts++;
+        Zotero.debug(
+          `[${config.addonName}] Undo failed for ${record.itemKey}: ${err}`,
+        );
+      }
+    }
+
+    batch.undoneAt = Date.now();
+    await saveJournal(journal);
+    return result;
+  });
+}
@@ -299,6 +299,19 @@ export function clearAllHistoryPrefs(): void {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * One CSV cell: empty for null/undefined, quoted (with doubled quotes) when
+ * it holds a quote, comma or line break.
+ */
+export function escapeCsvCell(value: unknown): string {
+  const s = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // AbortController Utilities (FTR-ABORT-CONTROLLER-FIX)
 // ─────────────────────────────────────────────────────────────────────────────
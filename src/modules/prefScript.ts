@@ -1,5 +1,18 @@
 import { config } from "../../package.json";
 import { getPref, setPref } from "../utils/prefs";
+import { getString } from "../utils/locale";
+import {
+  DEFAULT_EXTERNAL_TOKEN_ID,
+  EXTERNAL_TOKEN_PRESETS,
+  createExternalToken,
+  listExternalTokens,
+  regenerateDefaultExternalToken,
+  revokeExternalToken,
+  type ExternalTokenPreset,
+} from "../utils/externalToken";
+import { readExternalAuditLog } from "../utils/externalAudit";
+import { copyToClipboard } from "./inspire/apiUtils";
+import type { FluentMessageId } from "../../typings/i10n";
 export function registerPrefsScripts(_window: Window) {
   if (!addon.data.prefs) {
     addon.data.prefs = { window: _window };
@@ -27,3 +40,137 @@ function bindTagEnabler() {
       setPref("tag_enable", checkbox.checked);
     });
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// External Access Tokens
+// ─────────────────────────────────────────────────────────────────────────────
+
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+
+function formatTokenTime(ms: number | undefined, fallback: string): string {
+  return ms ? new Date(ms).toLocaleString() : fallback;
+}
+
+/** Rebuild the token list (name, scopes, timestamps, row actions). */
+export function renderExternalTokens(doc: Document) {
+  const container = doc.getElementById(
+    `zotero-prefpane-${config.addonRef}-external_tokens_list`,
+  );
+  if (!container) return;
+  container.replaceChildren();
+
+  const tokens = listExternalTokens();
+  if (!tokens.length) {
+    const empty = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+    empty.className = "zinspire-pref-desc";
+    empty.textContent = getString("pref-external-token-none");
+    container.appendChild(empty);
+    return;
+  }
+
+  for (const record of tokens) {
+    const isDefault = record.id === DEFAULT_EXTERNAL_TOKEN_ID;
+    const row = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+    row.style.cssText =
+      "display: flex; align-items: center; gap: 8px; padding: 4px 0; border-bottom: 1px solid var(--fill-quinary, #e2e8f0);";
+
+    const info = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+    info.style.flex = "1";
+    const name = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+    name.style.fontWeight = "600";
+    name.textContent = isDefault
+      ? getString("pref-external-token-default-name")
+      : record.name;
+    const scopes = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+    scopes.className = "zinspire-pref-desc";
+    scopes.style.marginLeft = "0";
+    scopes.textContent = getString("pref-external-token-scopes", {
+      args: { scopes: record.scopes.join(", ") || "—" },
+    });
+    const meta = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+    meta.className = "zinspire-pref-desc";
+    meta.style.marginLeft = "0";
+    meta.textContent = getString("pref-external-token-meta", {
+      args: {
+        created: formatTokenTime(
+          record.createdAt,
+          getString("pref-external-token-unknown"),
+        ),
+        lastUsed: formatTokenTime(
+          record.lastUsedAt,
+          getString("pref-external-token-never"),
+        ),
+      },
+    });
+    info.append(name, scopes, meta);
+    row.appendChild(info);
+
+    const addButton = (labelID: FluentMessageId, onClick: () => void) => {
+      const button = doc.createElementNS(HTML_NS, "button") as HTMLElement;
+      button.textContent = getString(labelID);
+      button.addEventListener("click", onClick);
+      row.appendChild(button);
+    };
+    addButton("pref-external-token-copy", () => {
+      void copyToClipboard(record.token ?? "");
+    });
+    if (isDefault) {
+      addButton("pref-external-token-regenerate", () => {
+        regenerateDefaultExternalToken();
+        renderExternalTokens(doc);
+      });
+    }
+    addButton("pref-external-token-revoke", () => {
+      const win = doc.defaultView;
+      const confirmed =
+        !win ||
+        Services.prompt.confirm(
+          win as unknown as mozIDOMWindowProxy,
+          config.addonName,
+          getString("pref-external-token-revoke-confirm", {
+            args: { name: record.name },
+          }),
+        );
+      if (!confirmed) return;
+      revokeExternalToken(record.id);
+      renderExternalTokens(doc);
+    });
+    container.appendChild(row);
+  }
+}
+
+/** Create a token from the name field + scope preset and copy its secret. */
+export async function createExternalTokenFromPane(doc: Document) {
+  const nameInput = doc.getElementById(
+    `zotero-prefpane-${config.addonRef}-external_token_name`,
+  ) as HTMLInputElement | null;
+  const presetList = doc.getElementById(
+    `zotero-prefpane-${config.addonRef}-external_token_preset`,
+  ) as XULMenuListElement | null;
+  const preset = (presetList?.value || "full") as ExternalTokenPreset;
+  const scopes = EXTERNAL_TOKEN_PRESETS[preset] ?? EXTERNAL_TOKEN_PRESETS.full;
+  const record = createExternalToken(nameInput?.value ?? "", scopes);
+  if (nameInput) nameInput.value = "";
+  await copyToClipboard(record.token ?? "");
+  renderExternalTokens(doc);
+  const status = doc.getElementById(
+    `zotero-prefpane-${config.addonRef}-external_token_status`,
+  );
+  if (status) {
+    status.textContent = getString("pref-external-token-created", {
+      args: { name: record.name },
+    });
+  }
+}
+
+/** Show how many entries the audit log holds (most recent file only). */
+export async function updateExternalAuditSummary(doc: Document) {
+  const summary = doc.getElementById(
+    `zotero-prefpane-${config.addonRef}-external_audit_summary`,
+  );
+  if (!summary) return;
+  const entries = await readExternalAuditLog(1000);
+  summary.textContent = getString("pref-external-audit-summary", {
+    args: { count: entries.length },
+  });
+}
@@ -123,6 +123,8 @@ import {
   type EntryCitedSource,
   type ChartBin,
   type SearchHistoryItem,
+  type SavedSearch,
+  type AuthorFeedItem,
   type jsobject,
   // Text utilities
   normalizeSearchText,
@@ -195,9 +197,9 @@ import {
   getCrossrefCount,
   // Item updater
   ZInspire,
-  setInspireMeta,
   setCrossRefCitations,
   saveItemWithPendingInspireNote,
+  importInspireRecord,
   // Local cache
   fetchReferencesEntries,
   enrichReferencesEntries,
@@ -206,6 +208,36 @@ import {
   isPdgReviewOfParticlePhysicsTitle,
   isReviewArticleEntry,
   localCache,
+  // Offline mode
+  isOfflineMode,
+  isOfflineError,
+  setOfflineMode,
+  onOfflineModeChange,
+  queueOfflineFetch,
+  // Local search index
+  searchLocalIndex,
+  mergeSearchResults,
+  isLocalSearchEnabled,
+  // Search syntax
+  validateSearchQuery,
+  completeSearchField,
+  showAdvancedSearchDialog,
+  // Saved searches
+  getSavedSearches,
+  findSavedSearch,
+  addSavedSearch,
+  updateSavedSearch,
+  removeSavedSearch,
+  acknowledgeSavedSearch,
+  onSavedSearchesChange,
+  checkSavedSearch,
+  // Favorite author feed
+  getAuthorFeedItems,
+  markAuthorFeedRead,
+  onAuthorFeedChange,
+  getAuthorFeedKey,
+  // Author dashboard
+  showAuthorDashboardDialog,
   // Cache types
   type CacheSource,
   type LocalCacheType,
@@ -249,6 +281,10 @@ import {
   type AuthorPreviewCallbacks,
   // Citation graph dialog (FTR-CITATION-GRAPH)
   CitationGraphDialog,
+  // Citation history sparkline
+  getCitationHistory,
+  getCitationHistoryKey,
+  createCitationSparkline,
 } from "./inspire";
 
 // Re-export for external use
@@ -296,6 +332,8 @@ interface InlineHintConfig {
   input: HTMLInputElement;
   wrapper: HTMLElement;
   history: SearchHistoryItem[];
+  /** Completion offered when no history entry matches (e.g. field names) */
+  getCompletion?: (value: string) => string | null;
 }
 
 /**
@@ -306,7 +344,9 @@ class InlineHintHelper {
   private input: HTMLInputElement;
   private wrapper: HTMLElement;
   private hintEl: HTMLSpanElement;
+  private errorEl: HTMLSpanElement | null = null;
   private getHistory: () => SearchHistoryItem[];
+  private getCompletion?: (value: string) => string | null;
   private _currentHintText = "";
 
   get currentHintText(): string {
@@ -319,6 +359,7 @@ class InlineHintHelper {
     this.input = config.input;
     this.wrapper = config.wrapper;
     this.getHistory = config.getHistory || (() => config.history);
+    this.getCompletion = config.getCompletion;
 
     // Create hint element using native DOM with cssText (required for Zotero)
     const doc = this.wrapper.ownerDocument;
@@ -352,8 +393,8 @@ class InlineHintHelper {
     this.hintEl.hidden = true;
     this.hintEl.style.display = "none";
 
-    // No input or no history: stay hidden
-    if (!inputValue || history.length === 0) {
+    // No input: stay hidden
+    if (!inputValue) {
       this._currentHintText = "";
       return;
     }
@@ -375,6 +416,14 @@ class InlineHintHelper {
       }
     }
 
+    // No history match: fall back to the completion provider
+    if (!matchingHint && this.getCompletion) {
+      const completion = this.getCompletion(inputValue);
+      if (completion && completion.length > inputValue.length) {
+        matchingHint = completion;
+      }
+    }
+
     // No match found: stay hidden
     if (!matchingHint) {
       this._currentHintText = "";
@@ -392,30 +441,7 @@ class InlineHintHelper {
     const computedStyle = doc.defaultView?.getComputedStyle(this.input);
 
     if (computedStyle) {
-      // Use a hidden span for accurate text width measurement
-      const measureSpan = doc.createElement("span");
-      measureSpan.style.cssText = `
-        position: absolute;
-        visibility: hidden;
-        white-space: pre;
-        font: ${computedStyle.font};
-        font-size: ${computedStyle.fontSize};
-        font-family: ${computedStyle.fontFamily};
-        font-weight: ${computedStyle.fontWeight};
-        font-style: ${computedStyle.fontStyle};
-        font-variant: ${computedStyle.fontVariant};
-        font-stretch: ${computedStyle.fontStretch};
-        letter-spacing: ${computedStyle.letterSpacing};
-        word-spacing: ${computedStyle.wordSpacing};
-        text-transform: ${computedStyle.textTransform};
-        text-rendering: ${computedStyle.textRendering};
-        -webkit-font-smoothing: antialiased;
-        -moz-osx-font-smoothing: grayscale;
-      `;
-      measureSpan.textContent = inputValue.replace(/ /g, "\u00A0");
-      this.wrapper.appendChild(measureSpan);
-      const textWidth = measureSpan.offsetWidth;
-      this.wrapper.removeChild(measureSpan);
+      const textWidth = this.measureTextWidth(inputValue, computedStyle);
 
       // Get spacing
       const paddingLeft = parseFloat(computedStyle.paddingLeft) || 8;
@@ -456,6 +482,100 @@ class InlineHintHelper {
     }
   }
 
+  /**
+   * Underline the characters start..end of the input value as erroneous,
+   * with the message as tooltip. Drawn behind the transparent input.
+   */
+  showError(start: number, end: number, message: string): void {
+    const doc = this.wrapper.ownerDocument;
+    const computedStyle = doc.defaultView?.getComputedStyle(this.input);
+    if (!this.errorEl) {
+      this.errorEl = doc.createElement("span");
+      this.errorEl.className = "zinspire-inline-error";
+      this.errorEl.style.cssText = `
+        position: absolute;
+        top: 3px;
+        bottom: 3px;
+        background: rgba(220, 38, 38, 0.15);
+        border-bottom: 2px solid #dc2626;
+        pointer-events: none;
+        z-index: 1;
+      `;
+      this.wrapper.appendChild(this.errorEl);
+    }
+    const value = this.input.value;
+    const marked = Math.max(end, start + 1);
+    let left = 9 + start * 7 - this.input.scrollLeft;
+    let width = (marked - start) * 7;
+    if (computedStyle) {
+      const paddingLeft = parseFloat(computedStyle.paddingLeft) || 8;
+      const borderLeft = parseFloat(computedStyle.borderLeftWidth) || 0;
+      const inputLeftOffset =
+        this.input.getBoundingClientRect().left -
+        this.wrapper.getBoundingClientRect().left;
+      const before = this.measureTextWidth(
+        value.slice(0, start),
+        computedStyle,
+      );
+      // Errors at the very end (e.g. a missing value) mark a blank
+      const span = value.slice(start, marked) || " ";
+      left =
+        inputLeftOffset +
+        borderLeft +
+        paddingLeft +
+        before -
+        this.input.scrollLeft;
+      width = this.measureTextWidth(span, computedStyle);
+    }
+    this.errorEl.style.left = `${left}px`;
+    this.errorEl.style.width = `${Math.max(width, 4)}px`;
+    this.errorEl.style.display = "block";
+    this.input.title = message;
+    this.input.style.borderColor = "#dc2626";
+  }
+
+  /** Remove the error underline */
+  clearError(): void {
+    if (this.errorEl) {
+      this.errorEl.style.display = "none";
+    }
+    this.input.removeAttribute("title");
+    this.input.style.borderColor = "";
+  }
+
+  /** Width of text rendered in the input's font */
+  private measureTextWidth(
+    text: string,
+    computedStyle: CSSStyleDeclaration,
+  ): number {
+    const doc = this.wrapper.ownerDocument;
+    // Use a hidden span for accurate text width measurement
+    const measureSpan = doc.createElement("span");
+    measureSpan.style.cssText = `
+      position: absolute;
+      visibility: hidden;
+      white-space: pre;
+      font: ${computedStyle.font};
+      font-size: ${computedStyle.fontSize};
+      font-family: ${computedStyle.fontFamily};
+      font-weight: ${computedStyle.fontWeight};
+      font-style: ${computedStyle.fontStyle};
+      font-variant: ${computedStyle.fontVariant};
+      font-stretch: ${computedStyle.fontStretch};
+      letter-spacing: ${computedStyle.letterSpacing};
+      word-spacing: ${computedStyle.wordSpacing};
+      text-transform: ${computedStyle.textTransform};
+      text-rendering: ${computedStyle.textRendering};
+      -webkit-font-smoothing: antialiased;
+      -moz-osx-font-smoothing: grayscale;
+    `;
+    measureSpan.textContent = text.replace(/ /g, "\u00A0");
+    this.wrapper.appendChild(measureSpan);
+    const width = measureSpan.offsetWidth;
+    this.wrapper.removeChild(measureSpan);
+    return width;
+  }
+
   /** Hide hint and clear current hint text */
   hide(): void {
     this.hintEl.textContent = "";
@@ -482,6 +602,7 @@ class InlineHintHelper {
   /** Destroy and remove hint element */
   destroy(): void {
     this.hintEl.remove();
+    this.errorEl?.remove();
   }
 }
 
@@ -1493,6 +1614,7 @@ class InspireReferencePanelController {
   private relatedDisabledForPdg = false;
   private citationGraphDialog?: CitationGraphDialog;
   private citationGraphButton?: HTMLButtonElement;
+  private citationSparklineEl?: HTMLSpanElement;
   private currentItemID?: number;
   private currentRecid?: string;
   private entryCitedSource?: EntryCitedSource;
@@ -1616,6 +1738,9 @@ class InspireReferencePanelController {
   // Rate limiter status display
   private rateLimiterStatusEl?: HTMLSpanElement;
   private rateLimiterUnsubscribe?: () => void;
+  // Offline mode indicator
+  private offlineStatusEl?: HTMLSpanElement;
+  private offlineModeUnsubscribe?: () => void;
 
   // Cache source indicator
   private cacheSource: CacheSource = "api";
@@ -1628,11 +1753,19 @@ class InspireReferencePanelController {
     SEARCH_CACHE_SIZE,
   );
   private searchSort: InspireSortOption = "mostrecent";
+  private searchFromLocalIndex = false; // Results come from the local search index
   private currentSearchQuery?: string; // Current active search query
   private searchHistory: SearchHistoryItem[] = []; // Recent search queries
   private searchInputContainer?: HTMLDivElement; // Search input UI container
   private searchInput?: HTMLInputElement; // Search query input field
   private searchHistoryDropdown?: HTMLDivElement; // Search history dropdown
+  private searchInlineHint?: InlineHintHelper; // History and field-name completion
+  private searchSyntaxMessage?: HTMLDivElement; // Syntax errors below the search input
+  private searchSyntaxTimer?: ReturnType<typeof setTimeout>; // Debounces syntax checks while typing
+  private searchSaveButton?: HTMLButtonElement; // ☆/★ saves the current query
+  private searchNewRecids?: { query: string; recids: Set<string> }; // New hits of an opened saved search
+  private savedSearchesUnsubscribe?: () => void;
+  private authorFeedUnsubscribe?: () => void;
 
   // Quick filters dropdown state
   private quickFilters = new Set<QuickFilterType>();
@@ -1843,6 +1976,16 @@ class InspireReferencePanelController {
     `;
     row1.appendChild(row1Actions);
 
+    // Citation count history (filled by updateCitationSparkline)
+    const sparklineEl = body.ownerDocument.createElement("span");
+    sparklineEl.style.cssText = `
+      display: none;
+      align-items: center;
+      flex-shrink: 0;
+    `;
+    row1Actions.appendChild(sparklineEl);
+    this.citationSparklineEl = sparklineEl;
+
     // Citation Graph button (FTR-CITATION-GRAPH)
     const graphBtn = body.ownerDocument.createElement("button");
     graphBtn.type = "button";
@@ -2166,6 +2309,48 @@ class InspireReferencePanelController {
       this.updateRateLimiterStatus(status);
     });
 
+    // Offline mode indicator (click to go back online)
+    this.offlineStatusEl = ztoolkit.UI.appendElement(
+      {
+        tag: "span",
+        classList: ["zinspire-ref-panel__rate-status"],
+        attributes: {
+          title: getString("references-panel-offline-indicator-tooltip"),
+        },
+        properties: {
+          textContent: getString("references-panel-offline-indicator"),
+        },
+        styles: {
+          cursor: "pointer",
+        },
+        listeners: [
+          {
+            type: "click",
+            listener: () => setOfflineMode(false),
+          },
+        ],
+      },
+      toolbar,
+    ) as HTMLSpanElement;
+    this.offlineStatusEl.hidden = !isOfflineMode();
+    this.offlineModeUnsubscribe = onOfflineModeChange((offline) => {
+      if (this.offlineStatusEl) {
+        this.offlineStatusEl.hidden = !offline;
+      }
+      this.updateCacheSourceDisplay();
+    });
+    this.savedSearchesUnsubscribe = onSavedSearchesChange(() => {
+      this.updateSearchSaveButton();
+      if (this.isFavoritesViewActive) {
+        this.renderFavoriteAuthorsList();
+      }
+    });
+    this.authorFeedUnsubscribe = onAuthorFeedChange(() => {
+      if (this.isFavoritesViewActive) {
+        this.renderFavoriteAuthorsList();
+      }
+    });
+
     // Create search input container (hidden by default, shown in search mode)
     this.createSearchInputContainer(toolbar);
 
@@ -7732,6 +7917,12 @@ class InspireReferencePanelController {
       this.rateLimiterUnsubscribe();
       this.rateLimiterUnsubscribe = undefined;
     }
+    this.offlineModeUnsubscribe?.();
+    this.offlineModeUnsubscribe = undefined;
+    this.savedSearchesUnsubscribe?.();
+    this.savedSearchesUnsubscribe = undefined;
+    this.authorFeedUnsubscribe?.();
+    this.authorFeedUnsubscribe = undefined;
     // FTR-HOVER-PREVIEW: Cleanup preview card
     // Phase 0.4 Refactor: Use HoverPreviewController.dispose()
     this.hoverPreview?.dispose();
@@ -7808,12 +7999,13 @@ class InspireReferencePanelController {
 
   /**
    * Update the rate limiter status indicator.
-   * Shows queued request count when rate limiting is active.
+   * Shows the queued request count (active mode) or a bare hourglass while a
+   * 429 retry is waiting.
    */
   private updateRateLimiterStatus(status: RateLimiterStatus) {
     if (!this.rateLimiterStatusEl) return;
 
-    if (status.isThrottling && status.queuedCount > 0) {
+    if (status.queuedCount > 0) {
       this.rateLimiterStatusEl.textContent = `⏳ ${status.queuedCount}`;
       this.rateLimiterStatusEl.hidden = false;
       this.rateLimiterStatusEl.title = getString(
@@ -7822,6 +8014,12 @@ class InspireReferencePanelController {
           args: { count: status.queuedCount },
         },
       );
+    } else if (status.isThrottling) {
+      this.rateLimiterStatusEl.textContent = "⏳";
+      this.rateLimiterStatusEl.hidden = false;
+      this.rateLimiterStatusEl.title = getString(
+        "references-panel-rate-limit-retrying",
+      );
     } else {
       this.rateLimiterStatusEl.hidden = true;
     }
@@ -7835,8 +8033,10 @@ class InspireReferencePanelController {
     if (!this.cacheSourceEl) return;
 
     // Check if cache source display is enabled in preferences
+    // (always shown in offline mode, where the age of the data matters)
+    const offline = isOfflineMode();
     const showSource = getPref("local_cache_show_source");
-    if (!showSource) {
+    if (!showSource && !offline) {
       this.cacheSourceEl.hidden = true;
       return;
     }
@@ -7859,7 +8059,16 @@ class InspireReferencePanelController {
         this.cacheSourceEl.hidden = false;
         break;
       case "local":
-        if (this.cacheSourceExpired) {
+        if (offline) {
+          this.cacheSourceEl.textContent = getString(
+            "references-panel-cache-source-offline",
+            {
+              args: { age: this.cacheSourceAge ?? 0 },
+            },
+          );
+          this.cacheSourceEl.style.background =
+            "var(--material-mix-quinary, #fef3c7)"; // Amber/warning color
+        } else if (this.cacheSourceExpired) {
           // Show expired cache indicator with warning color
           this.cacheSourceEl.textContent = getString(
             "references-panel-cache-source-local-expired",
@@ -9303,6 +9512,7 @@ class InspireReferencePanelController {
 
       const recid =
         deriveRecidFromItem(item) ?? (await fetchRecidFromInspire(item));
+      void this.updateCitationSparkline(item, recid ?? undefined);
       if (!recid) {
         this.currentRecid = undefined;
         this.allEntries = [];
@@ -9857,10 +10067,13 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     const cache = this.getCacheForMode(mode);
     const sortOption = this.getSortOptionForMode(mode);
     const cacheKey = this.getCacheKey(recid, mode, sortOption);
+    // Offline mode: the local cache is all there is, so never delete it and
+    // serve it regardless of age
+    const offline = isOfflineMode();
 
     // Force mode: delete local cache to ensure fresh data from API
     // Smart caching: delete both unsorted and sorted cache files
-    if (options.force) {
+    if (options.force && !offline) {
       const localCacheType = this.getLocalCacheType(mode);
       if (localCacheType) {
         if (mode === "references" || mode === "related") {
@@ -9922,7 +10135,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     // - References: always store without sort (client-side sorting), permanent cache
     // - Cited By/Author: if total <= CITED_BY_MAX_RESULTS, store without sort; otherwise by sort
     // - Author Papers: show cached data immediately, refresh in background if expired (> 12h)
-    if (!options.force) {
+    if (!options.force || offline) {
       const localCacheType = this.getLocalCacheType(mode);
       if (localCacheType) {
         let localResult: {
@@ -9938,13 +10151,15 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
         // This enables offline support and faster initial display
         const isAuthorMode =
           mode === "entryCited" && this.entryCitedSource?.authorSearchInfo;
-        const shouldIgnoreTTL = isAuthorMode; // Allow expired cache for author papers
+        const shouldIgnoreTTL = isAuthorMode || offline; // Allow expired cache for author papers
 
         if (mode === "references" || mode === "related") {
           // References/Related: read without sort (References are client-side sorted; Related is pre-ranked)
           localResult = await localCache.get<InspireReferenceEntry[]>(
             localCacheType,
             mode === "related" ? cacheKey : recid,
+            undefined,
+            shouldIgnoreTTL ? { ignoreTTL: true } : undefined,
           );
           usedClientSideSort = mode === "references";
         } else {
@@ -10019,6 +10234,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
             const AUTHOR_PAPERS_REFRESH_THRESHOLD_HOURS = 12;
             if (
               isAuthorMode &&
+              !offline &&
               localResult.ageHours >= AUTHOR_PAPERS_REFRESH_THRESHOLD_HOURS
             ) {
               Zotero.debug(
@@ -10074,6 +10290,29 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       }
     }
 
+    // Offline mode and nothing cached: remember what was asked for
+    if (offline) {
+      if (mode === "references") {
+        void queueOfflineFetch({ kind: "references", recid });
+      } else if (mode === "citedBy") {
+        void queueOfflineFetch({
+          kind: "cited",
+          recid,
+          sort: sortOption as InspireSortOption,
+        });
+      }
+      if (isActiveMode) {
+        if (this.cacheSourceEl) {
+          this.cacheSourceEl.hidden = true;
+        }
+        this.renderChartImmediate();
+        this.renderMessage(getString("references-panel-offline-missing"));
+        this.setStatus(getString("references-panel-offline-missing"));
+        this.setRefreshButtonLoading(false);
+      }
+      return;
+    }
+
     const controller = createAbortController();
     this.activeAbort = controller;
     const token = `${mode}-${cacheKey}-${performance.now()}`;
@@ -10171,6 +10410,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
         entries = await fetchReferencesEntries(recid, {
           signal: controller?.signal,
           onProgress: referencesOnProgress,
+          requestPriority: "interactive",
         });
       } else if (mode === "related") {
         // Related papers mode (bibliographic coupling) with incremental progress updates.
@@ -10324,6 +10564,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
               this.enrichLocalStatus(entries, enrichSignal),
               enrichReferencesEntries(entries, {
                 signal: enrichSignal,
+                requestPriority: "interactive",
                 onBatchComplete: (processedRecids) => {
                   if (this.pendingToken !== enrichToken) {
                     return;
@@ -10549,10 +10790,10 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       pageSize: number,
     ): Promise<any[]> => {
       const url = `${INSPIRE_API_BASE}/literature?q=${query}&size=${pageSize}&page=${pageNum}${sortParam}${fieldsParam}`;
-      const response = await inspireFetch(
-        url,
-        signal ? { signal } : undefined,
-      ).catch(() => null);
+      const response = await inspireFetch(url, {
+        signal,
+        requestPriority: "interactive",
+      }).catch(() => null);
       if (!response || response.status === 404) {
         return [];
       }
@@ -10564,10 +10805,10 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
 
     // Step 1: Fetch first page to get total count and display initial results quickly
     const firstUrl = `${INSPIRE_API_BASE}/literature?q=${query}&size=${CITED_BY_PAGE_SIZE}&page=1${sortParam}${fieldsParam}`;
-    const firstResponse = await inspireFetch(
-      firstUrl,
-      signal ? { signal } : undefined,
-    ).catch(() => null);
+    const firstResponse = await inspireFetch(firstUrl, {
+      signal,
+      requestPriority: "interactive",
+    }).catch(() => null);
     if (!firstResponse || firstResponse.status === 404) {
       throw new Error("Cited-by list not found");
     }
@@ -10696,10 +10937,10 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       pageSize: number,
     ): Promise<any[]> => {
       const url = `${INSPIRE_API_BASE}/literature?q=${query}&size=${pageSize}&page=${pageNum}${sortParam}${fieldsParam}`;
-      const response = await inspireFetch(
-        url,
-        signal ? { signal } : undefined,
-      ).catch(() => null);
+      const response = await inspireFetch(url, {
+        signal,
+        requestPriority: "interactive",
+      }).catch(() => null);
       if (!response || response.status === 404) {
         return [];
       }
@@ -10711,10 +10952,10 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
 
     // Step 1: Fetch first page to get total count and display initial results quickly
     const firstUrl = `${INSPIRE_API_BASE}/literature?q=${query}&size=${CITED_BY_PAGE_SIZE}&page=1${sortParam}${fieldsParam}`;
-    const firstResponse = await inspireFetch(
-      firstUrl,
-      signal ? { signal } : undefined,
-    ).catch(() => null);
+    const firstResponse = await inspireFetch(firstUrl, {
+      signal,
+      requestPriority: "interactive",
+    }).catch(() => null);
     if (!firstResponse || firstResponse.status === 404) {
       throw new Error("Author papers not found");
     }
@@ -12130,9 +12371,12 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       return getString("references-panel-count-related", { args: { count } });
     }
     if (mode === "search") {
-      return getString("references-panel-count-search", {
+      const message = getString("references-panel-count-search", {
         args: { count, query: this.getSearchLabel() },
       });
+      return this.searchFromLocalIndex
+        ? `${message} · ${getString("references-panel-search-source-local")}`
+        : message;
     }
     // For entryCited mode, show different message based on source type
     if (this.entryCitedSource?.authorQuery) {
@@ -12865,8 +13109,10 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       wrapper: inputWrapper,
       history: this.searchHistory,
       getHistory: () => this.searchHistory,
+      getCompletion: completeSearchField,
     });
     searchInlineHint.getElement().classList.add("zinspire-search-inline-hint");
+    this.searchInlineHint = searchInlineHint;
 
     // Handle keyboard events
     this.searchInput.addEventListener("keydown", (event) => {
@@ -12883,6 +13129,9 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
           this.searchInput?.selectionStart === this.searchInput?.value.length;
         if (cursorAtEnd && searchInlineHint.accept()) {
           event.preventDefault();
+          // A completed field name may be followed by another completion
+          searchInlineHint.update();
+          this.scheduleSearchSyntaxCheck();
           return;
         }
       }
@@ -12891,12 +13140,14 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       if (event.key === "Escape") {
         searchInlineHint.hide();
         this.hideSearchHistoryDropdown();
+        this.hideSearchSyntaxMessage();
       }
 
-      // Enter: execute search
+      // Enter: execute search (syntax errors are shown, not enforced)
       if (event.key === "Enter") {
         event.preventDefault();
         searchInlineHint.hide();
+        this.checkSearchSyntax();
         const query = this.searchInput?.value.trim();
         Zotero.debug(
           `[${config.addonName}] Panel search Enter pressed, query="${query}"`,
@@ -12918,8 +13169,10 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     // Update hint on input
     this.searchInput.addEventListener("input", () => {
       searchInlineHint.update();
+      this.updateSearchSaveButton();
       // Hide dropdown when user is typing (inline hint is shown instead)
       this.hideSearchHistoryDropdown();
+      this.scheduleSearchSyntaxCheck();
     });
 
     // Focus: just update hint, don't show dropdown automatically
@@ -12936,6 +13189,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       // Delay to allow click on hint/dropdown
       setTimeout(() => {
         searchInlineHint.hide();
+        this.hideSearchSyntaxMessage();
       }, 150);
     });
 
@@ -12987,6 +13241,58 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       this.toggleSearchHistoryDropdown();
     });
 
+    // Create advanced search button
+    const advancedButton = doc.createElement("button");
+    advancedButton.type = "button";
+    advancedButton.className = "zinspire-advanced-search-button";
+    advancedButton.textContent = "⚙";
+    advancedButton.title = getString(
+      "references-panel-search-advanced-tooltip",
+    );
+    advancedButton.style.cssText = historyButton.style.cssText;
+    advancedButton.addEventListener("click", () => {
+      this.hideSearchHistoryDropdown();
+      showAdvancedSearchDialog(doc)
+        .then((query) => {
+          if (!query || !this.searchInput) return;
+          this.searchInput.value = query;
+          this.checkSearchSyntax();
+          return this.executeInspireSearch(query);
+        })
+        .catch((err) => {
+          Zotero.debug(`[${config.addonName}] Advanced search error: ${err}`);
+        });
+    });
+
+    // Create save search button (☆ unsaved, ★ saved)
+    this.searchSaveButton = doc.createElement("button");
+    this.searchSaveButton.type = "button";
+    this.searchSaveButton.className = "zinspire-save-search-button";
+    this.searchSaveButton.style.cssText = historyButton.style.cssText;
+    this.searchSaveButton.addEventListener("click", () => {
+      this.hideSearchHistoryDropdown();
+      this.toggleSavedSearch();
+    });
+    this.updateSearchSaveButton();
+
+    // Syntax error message, fixed like the history dropdown
+    this.searchSyntaxMessage = doc.createElement("div");
+    this.searchSyntaxMessage.className = "zinspire-search-syntax-message";
+    this.searchSyntaxMessage.style.cssText = `
+      display: none;
+      position: fixed;
+      padding: 4px 8px;
+      background: var(--material-background, #fff);
+      border: 1px solid #dc2626;
+      border-radius: 4px;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      color: #dc2626;
+      font-size: 11px;
+      white-space: pre-line;
+      z-index: 10000;
+      pointer-events: none;
+    `;
+
     // Create history dropdown container
     // FIX-ZINDEX: Use fixed positioning like quickFiltersPopup to avoid being clipped
     this.searchHistoryDropdown = doc.createElement("div");
@@ -13018,8 +13324,11 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     this.searchInputContainer.appendChild(inputWrapper);
     this.searchInputContainer.appendChild(searchButton);
     this.searchInputContainer.appendChild(historyButton);
+    this.searchInputContainer.appendChild(this.searchSaveButton);
+    this.searchInputContainer.appendChild(advancedButton);
     // FIX-ZINDEX: Append to body instead of container to avoid clipping
     this.body.appendChild(this.searchHistoryDropdown);
+    this.body.appendChild(this.searchSyntaxMessage);
     toolbar.appendChild(this.searchInputContainer);
     Zotero.debug(
       `[${config.addonName}] createSearchInputContainer: completed, container added to toolbar`,
@@ -13042,6 +13351,9 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
 
     const isSearchMode = this.viewMode === "search";
     this.searchInputContainer.style.display = isSearchMode ? "flex" : "none";
+    if (!isSearchMode) {
+      this.hideSearchSyntaxMessage();
+    }
     Zotero.debug(
       `[${config.addonName}] updateSearchUIVisibility: set searchInputContainer.display="${isSearchMode ? "flex" : "none"}"`,
     );
@@ -13054,12 +13366,25 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
    * Show the search history dropdown.
    */
   private showSearchHistoryDropdown() {
-    if (!this.searchHistoryDropdown || this.searchHistory.length === 0) return;
+    const savedSearches = getSavedSearches();
+    if (
+      !this.searchHistoryDropdown ||
+      (this.searchHistory.length === 0 && savedSearches.length === 0)
+    ) {
+      return;
+    }
 
     const doc = this.body.ownerDocument;
     // PERF-FIX-15: Use replaceChildren() instead of innerHTML
     this.searchHistoryDropdown.replaceChildren();
 
+    // Saved searches first, then recent queries
+    for (const search of savedSearches) {
+      this.searchHistoryDropdown.appendChild(
+        this.createSavedSearchRow(doc, search, "dropdown"),
+      );
+    }
+
     for (const historyItem of this.searchHistory) {
       const query = historyItem.query;
       const item = doc.createElement("div");
@@ -13082,12 +13407,19 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
           this.searchInput.value = query;
         }
         this.hideSearchHistoryDropdown();
+        this.checkSearchSyntax();
         this.executeInspireSearch(query).catch(() => void 0);
       });
       this.searchHistoryDropdown.appendChild(item);
     }
 
     // Add clear history option
+    if (this.searchHistory.length === 0) {
+      this.positionSearchHistoryDropdown();
+      this.hideSearchSyntaxMessage();
+      this.searchHistoryDropdown.style.display = "block";
+      return;
+    }
     const clearItem = doc.createElement("div");
     clearItem.className = "zinspire-search-history-clear";
     clearItem.textContent = getString("references-panel-search-clear-history");
@@ -13111,15 +13443,194 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     });
     this.searchHistoryDropdown.appendChild(clearItem);
 
-    // FIX-ZINDEX: Calculate fixed position based on searchInputContainer's bounding rect
-    if (this.searchInputContainer) {
+    this.positionSearchHistoryDropdown();
+    this.hideSearchSyntaxMessage();
+    this.searchHistoryDropdown.style.display = "block";
+  }
+
+  /**
+   * FIX-ZINDEX: Calculate fixed position based on searchInputContainer's bounding rect
+   */
+  private positionSearchHistoryDropdown() {
+    if (this.searchHistoryDropdown && this.searchInputContainer) {
       const containerRect = this.searchInputContainer.getBoundingClientRect();
       this.searchHistoryDropdown.style.top = `${containerRect.bottom + 4}px`;
       this.searchHistoryDropdown.style.left = `${containerRect.left}px`;
       this.searchHistoryDropdown.style.width = `${containerRect.width}px`;
     }
+  }
 
-    this.searchHistoryDropdown.style.display = "block";
+  /**
+   * Check the search input once typing pauses, so half-typed clauses
+   * (`a witten and `) are not flagged.
+   */
+  private scheduleSearchSyntaxCheck() {
+    if (this.searchSyntaxTimer) {
+      clearTimeout(this.searchSyntaxTimer);
+    }
+    this.searchSyntaxTimer = setTimeout(() => {
+      this.searchSyntaxTimer = undefined;
+      this.checkSearchSyntax();
+    }, 600);
+  }
+
+  /**
+   * Validate the search input against the INSPIRE syntax: underline the
+   * first problem in the input and list all problems below it.
+   */
+  private checkSearchSyntax() {
+    if (this.searchSyntaxTimer) {
+      clearTimeout(this.searchSyntaxTimer);
+      this.searchSyntaxTimer = undefined;
+    }
+    const query = this.searchInput?.value ?? "";
+    const issues = query.trim() ? validateSearchQuery(query) : [];
+    if (!issues.length) {
+      this.searchInlineHint?.clearError();
+      this.hideSearchSyntaxMessage();
+      return;
+    }
+    const messages = issues.map((issue) =>
+      getString(`references-panel-search-error-${issue.code}`, {
+        args: { token: issue.text },
+      }),
+    );
+    this.searchInlineHint?.showError(
+      issues[0].start,
+      issues[0].end,
+      messages.join("\n"),
+    );
+    if (this.searchSyntaxMessage && this.searchInputContainer) {
+      const containerRect = this.searchInputContainer.getBoundingClientRect();
+      this.searchSyntaxMessage.textContent = messages.join("\n");
+      this.searchSyntaxMessage.style.top = `${containerRect.bottom + 4}px`;
+      this.searchSyntaxMessage.style.left = `${containerRect.left}px`;
+      this.searchSyntaxMessage.style.maxWidth = `${containerRect.width}px`;
+      this.searchSyntaxMessage.style.display = "block";
+    }
+  }
+
+  private hideSearchSyntaxMessage() {
+    if (this.searchSyntaxMessage) {
+      this.searchSyntaxMessage.style.display = "none";
+    }
+  }
+
+  /** Query the save button acts on: the input, else the last search. */
+  private getSaveableSearchQuery(): string {
+    return this.searchInput?.value.trim() || this.currentSearchQuery || "";
+  }
+
+  private updateSearchSaveButton() {
+    if (!this.searchSaveButton) return;
+    const query = this.getSaveableSearchQuery();
+    const saved = query ? findSavedSearch(query) : undefined;
+    this.searchSaveButton.textContent = saved ? "★" : "☆";
+    this.searchSaveButton.title = saved
+      ? getString("references-panel-saved-search-remove-tooltip", {
+          args: { name: saved.name },
+        })
+      : getString("references-panel-saved-search-add-tooltip");
+  }
+
+  /**
+   * Save the current query under a name (with the current sort), or remove
+   * it when it is already saved.
+   */
+  private toggleSavedSearch() {
+    const query = this.getSaveableSearchQuery();
+    if (!query) {
+      this.showToast(getString("references-panel-saved-search-empty"));
+      return;
+    }
+    const existing = findSavedSearch(query);
+    if (existing) {
+      removeSavedSearch(existing.id);
+      this.showToast(getString("references-panel-saved-search-removed"));
+      return;
+    }
+    const win = Zotero.getMainWindow();
+    const name = { value: query };
+    if (
+      win &&
+      !Services.prompt.prompt(
+        win as unknown as mozIDOMWindowProxy,
+        getString("references-panel-saved-search-prompt-title"),
+        getString("references-panel-saved-search-prompt"),
+        name,
+        "",
+        { value: false },
+      )
+    ) {
+      return;
+    }
+    addSavedSearch(query, { name: name.value, sort: this.searchSort });
+    this.showToast(getString("references-panel-saved-search-added"));
+  }
+
+  /**
+   * Turn the new-result alert of a saved search on or off. The first check
+   * runs right away so later checks only report hits added from now on.
+   */
+  private toggleSavedSearchAlert(search: SavedSearch) {
+    const alert = !search.alert;
+    const updated = updateSavedSearch(search.id, { alert });
+    this.showToast(
+      getString(
+        alert
+          ? "references-panel-saved-search-alert-on"
+          : "references-panel-saved-search-alert-off",
+      ),
+    );
+    if (updated && alert && !updated.lastCheckedAt && !isOfflineMode()) {
+      checkSavedSearch(updated).catch((err) => {
+        Zotero.debug(
+          `[${config.addonName}] Saved search baseline check failed: ${err}`,
+        );
+      });
+    }
+  }
+
+  /**
+   * Run a saved search with its sort. Hits found by alerts since the last
+   * visit are marked in the list and pre-selected, so the batch toolbar
+   * imports them in one click.
+   */
+  private async openSavedSearch(search: SavedSearch) {
+    this.hideSearchHistoryDropdown();
+    if (this.isFavoritesViewActive) {
+      this.updateFavoritesTabStyle(false);
+      this.listEl.replaceChildren();
+    }
+    const newRecids = new Set(search.newRecids ?? []);
+    this.searchSort = search.sort;
+    this.searchNewRecids = newRecids.size
+      ? { query: search.query.trim(), recids: newRecids }
+      : undefined;
+    if (this.searchInput) {
+      this.searchInput.value = search.query;
+    }
+    this.checkSearchSyntax();
+    await this.executeInspireSearch(search.query);
+    acknowledgeSavedSearch(search.id);
+    if (!newRecids.size) return;
+
+    const newEntries = this.allEntries.filter(
+      (entry) =>
+        entry.recid && newRecids.has(entry.recid) && !entry.localItemID,
+    );
+    for (const entry of newEntries) {
+      this.selectedEntryIDs.add(entry.id);
+    }
+    this.updateAllCheckboxes();
+    this.updateBatchToolbarVisibility();
+    if (newEntries.length) {
+      this.showToast(
+        getString("references-panel-saved-search-new-selected", {
+          args: { count: newEntries.length },
+        }),
+      );
+    }
   }
 
   /**
@@ -13337,6 +13848,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     const trimmedQuery = query.trim();
     this.currentSearchQuery = trimmedQuery;
     this.addToSearchHistory(trimmedQuery);
+    this.updateSearchSaveButton();
     Zotero.debug(
       `[${config.addonName}] executeInspireSearch: query set to "${trimmedQuery}"`,
     );
@@ -13396,6 +13908,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       );
       this.allEntries = cached;
       this.totalApiCount = null;
+      this.searchFromLocalIndex = false;
       this.chartSelectedBins.clear();
       this.renderChartImmediate(); // Use immediate render for cache hit
       this.renderReferenceList();
@@ -13410,17 +13923,52 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     const token = `search-${cacheKey}-${performance.now()}`;
     this.pendingToken = token;
 
+    // Offline, fetchInspireSearch itself answers from the local index.
+    // Online, cached matches are shown at once and replaced by INSPIRE's.
+    const offline = isOfflineMode();
+    this.searchFromLocalIndex = offline;
+    const localSearch =
+      !offline && isLocalSearchEnabled()
+        ? searchLocalIndex(query, this.searchSort).catch((err) => {
+            Zotero.debug(`[${config.addonName}] Local search error: ${err}`);
+            return null;
+          })
+        : Promise.resolve(null);
+
     try {
       let hasRenderedFirstPage = false;
       let previousEntryCount = 0;
+      let apiTotal: number | null = null;
+
+      void localSearch.then((local) => {
+        if (
+          !local?.length ||
+          hasRenderedFirstPage ||
+          this.pendingToken !== token ||
+          this.viewMode !== "search"
+        ) {
+          return;
+        }
+        this.searchFromLocalIndex = true;
+        this.allEntries = local;
+        this.renderChartImmediate();
+        this.renderReferenceList({ preserveScroll: false });
+        this.setStatus(
+          getString("references-panel-search-local-pending", {
+            args: { count: local.length },
+          }),
+        );
+      });
 
       const onProgress = (
         currentEntries: InspireReferenceEntry[],
         total: number | null,
       ) => {
+        apiTotal = total;
         if (this.pendingToken !== token || this.viewMode !== "search") {
           return;
         }
+        this.searchFromLocalIndex = offline;
         const prevCount = previousEntryCount;
         previousEntryCount = currentEntries.length;
         this.allEntries = currentEntries;
@@ -13447,14 +13995,24 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
         }
       };
 
-      const entries = await fetchInspireSearch({
+      let entries = await fetchInspireSearch({
         query,
         sort: this.searchSort,
         signal: controller?.signal,
         onProgress,
       });
 
-      this.searchCache.set(cacheKey, entries);
+      // INSPIRE results stop at CITED_BY_MAX_RESULTS; add cached matches
+      // beyond them
+      if (apiTotal !== null && apiTotal > entries.length) {
+        const local = await localSearch;
+        if (local?.length) entries = mergeSearchResults(entries, local);
+      }
+
+      // Local results are not remembered, so going online searches INSPIRE
+      if (!offline) {
+        this.searchCache.set(cacheKey, entries);
+      }
 
       if (this.pendingToken === token && this.viewMode === "search") {
         this.allEntries = entries;
@@ -13481,9 +14039,37 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     } catch (err) {
       if ((err as any)?.name !== "AbortError") {
         Zotero.debug(`[${config.addonName}] INSPIRE search error: ${err}`);
+        // INSPIRE unreachable: fall back to cached matches
+        const local = isOfflineError(err) ? null : await localSearch;
+        if (
+          local?.length &&
+          this.pendingToken === token &&
+          this.viewMode === "search"
+        ) {
+          this.searchFromLocalIndex = true;
+          this.allEntries = local;
+          this.chartSelectedBins.clear();
+          this.renderChartImmediate();
+          this.renderReferenceList();
+          this.setStatus(
+            getString("references-panel-search-local-fallback", {
+              args: { count: local.length },
+            }),
+          );
+          void this.enrichLocalStatus(local, controller?.signal).catch(
+            () => undefined,
+          );
+          return;
+        }
         this.allEntries = [];
         this.renderChartImmediate();
-        this.renderMessage(getString("references-panel-status-error"));
+        this.renderMessage(
+          getString(
+            isOfflineError(err)
+              ? "references-panel-offline-search"
+              : "references-panel-status-error",
+          ),
+        );
       }
     } finally {
       if (this.pendingToken === token) {
@@ -13757,6 +14343,11 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
         if (!entry.localItemID) return false;
         return this.getFirstPdfAttachmentID(entry.localItemID) !== null;
       },
+      newRecids:
+        this.viewMode === "search" &&
+        this.searchNewRecids?.query === this.currentSearchQuery
+          ? this.searchNewRecids?.recids
+          : undefined,
     };
   }
 
@@ -14257,6 +14848,19 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     });
     popup.appendChild(favItem);
 
+    // Citation path between the current item and this entry
+    if (this.currentRecid && recid !== this.currentRecid) {
+      const pathItem = (doc as any).createXULElement("menuitem");
+      pathItem.setAttribute(
+        "label",
+        getString("references-panel-entry-citation-path"),
+      );
+      pathItem.addEventListener("command", () => {
+        this.openCitationGraphDialog({ recid, title: entry.title });
+      });
+      popup.appendChild(pathItem);
+    }
+
     // Add popup to document and open at mouse position
     doc.documentElement.appendChild(popup);
     popup.addEventListener("popuphidden", () => popup.remove(), { once: true });
@@ -15030,6 +15634,26 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     starBtn.onclick = () => this.toggleCurrentAuthorFavorite();
     header.appendChild(starBtn);
 
+    // Author dashboard button
+    const dashboardBtn = doc.createElement("button");
+    dashboardBtn.type = "button";
+    dashboardBtn.textContent = "📊";
+    dashboardBtn.title = getString("author-dashboard-open");
+    dashboardBtn.style.cssText = `
+      border: none;
+      background: transparent;
+      font-size: 13px;
+      cursor: pointer;
+      padding: 0 4px;
+      flex-shrink: 0;
+    `;
+    dashboardBtn.onclick = () => {
+      const win = doc.defaultView;
+      if (!win) return;
+      showAuthorDashboardDialog(win, authorInfo, this.allEntries);
+    };
+    header.appendChild(dashboardBtn);
+
     if (this.authorProfileCollapsed) {
       return;
     }
@@ -15800,6 +16424,19 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     const container = doc.createElement("div");
     container.style.cssText = `padding: 16px; text-align: left;`;
 
+    // Render unread papers of favorite authors
+    const feedItems = getAuthorFeedItems().filter(
+      (item) =>
+        !item.read &&
+        (!filterText ||
+          item.title.toLowerCase().includes(filterText) ||
+          item.authors.toLowerCase().includes(filterText) ||
+          item.authorLabel.toLowerCase().includes(filterText)),
+    );
+    if (feedItems.length > 0) {
+      this.renderAuthorFeedSection(doc, container, feedItems);
+    }
+
     // Render Authors section
     this.renderFavoriteAuthorsSection(doc, container, authors);
 
@@ -15809,6 +16446,16 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     // Render Presentations section (FTR-FAVORITE-PRESENTATIONS)
     this.renderFavoritePresentationsSection(doc, container, presentations);
 
+    // Render pinned saved searches
+    const savedSearches = getSavedSearches().filter(
+      (search) =>
+        search.pinned &&
+        (!filterText ||
+          search.name.toLowerCase().includes(filterText) ||
+          search.query.toLowerCase().includes(filterText)),
+    );
+    this.renderSavedSearchesSection(doc, container, savedSearches);
+
     this.listEl.appendChild(container);
   }
 
@@ -16438,20 +17085,429 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     return row;
   }
 
-  private createFavoriteAuthorRow(
+  private renderSavedSearchesSection(
     doc: Document,
-    fav: FavoriteAuthor,
-    index: number,
-  ): HTMLElement {
-    const row = doc.createElement("div");
-    row.setAttribute("data-index", String(index));
-    row.draggable = true;
-    row.style.cssText = `
-      display: flex;
-      align-items: center;
-      gap: 8px;
-      padding: 6px 8px;
-      border-radius: 4px;
+    container: HTMLElement,
+    searches: SavedSearch[],
+  ): void {
+    // Section wrapper
+    const section = doc.createElement("div");
+    section.className = "zinspire-favorites-section";
+    section.style.marginTop = "16px";
+
+    // Collapsible header
+    const header = doc.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+      user-select: none;
+      font-size: 13px;
+      font-weight: 600;
+      margin-bottom: 8px;
+      color: var(--fill-primary, #334155);
+    `;
+
+    const arrow = doc.createElement("span");
+    arrow.textContent = "▼";
+    arrow.style.cssText = `
+      font-size: 10px;
+      transition: transform 0.15s ease;
+    `;
+
+    const titleText = doc.createElement("span");
+    titleText.textContent = getString("references-panel-saved-search-title");
+
+    const countBadge = doc.createElement("span");
+    countBadge.textContent = `(${searches.length})`;
+    countBadge.style.cssText = `
+      font-weight: 400;
+      color: var(--fill-secondary, #64748b);
+    `;
+
+    header.appendChild(arrow);
+    header.appendChild(titleText);
+    header.appendChild(countBadge);
+    section.appendChild(header);
+
+    // Content container
+    const content = doc.createElement("div");
+    content.className = "zinspire-favorites-content";
+
+    if (searches.length === 0) {
+      const empty = doc.createElement("div");
+      empty.style.cssText = `
+        font-size: 12px;
+        color: var(--fill-secondary, #64748b);
+      `;
+      empty.textContent = getString("references-panel-saved-search-empty-list");
+      content.appendChild(empty);
+    } else {
+      const list = doc.createElement("div");
+      list.style.cssText = `
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+      `;
+      for (const search of searches) {
+        list.appendChild(this.createSavedSearchRow(doc, search, "favorites"));
+      }
+      content.appendChild(list);
+    }
+
+    section.appendChild(content);
+
+    // Toggle collapse on header click
+    header.addEventListener("click", () => {
+      const isCollapsed = content.style.display === "none";
+      content.style.display = isCollapsed ? "" : "none";
+      arrow.style.transform = isCollapsed ? "" : "rotate(-90deg)";
+    });
+
+    container.appendChild(section);
+  }
+
+  /**
+   * "New from favorites": unread papers found by the favorite author feed.
+   * Opening a paper or ✓ marks it as read; the header action marks all.
+   */
+  private renderAuthorFeedSection(
+    doc: Document,
+    container: HTMLElement,
+    items: AuthorFeedItem[],
+  ): void {
+    // Section wrapper
+    const section = doc.createElement("div");
+    section.className = "zinspire-favorites-section";
+    section.style.marginBottom = "16px";
+
+    // Collapsible header
+    const header = doc.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+      user-select: none;
+      font-size: 13px;
+      font-weight: 600;
+      margin-bottom: 8px;
+      color: var(--fill-primary, #334155);
+    `;
+
+    const arrow = doc.createElement("span");
+    arrow.textContent = "▼";
+    arrow.style.cssText = `
+      font-size: 10px;
+      transition: transform 0.15s ease;
+    `;
+
+    const titleText = doc.createElement("span");
+    titleText.textContent = getString("references-panel-author-feed-title");
+
+    const countBadge = doc.createElement("span");
+    countBadge.textContent = `(${items.length})`;
+    countBadge.style.cssText = `
+      font-weight: 400;
+      color: var(--fill-secondary, #64748b);
+    `;
+
+    const markAllBtn = doc.createElement("button");
+    markAllBtn.type = "button";
+    markAllBtn.textContent = getString(
+      "references-panel-author-feed-mark-all-read",
+    );
+    markAllBtn.style.cssText = `
+      margin-left: auto;
+      border: none;
+      background: transparent;
+      color: #0066cc;
+      cursor: pointer;
+      font-size: 11px;
+      font-weight: 400;
+      padding: 0 4px;
+    `;
+    markAllBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      markAuthorFeedRead(items.map((item) => item.recid));
+    });
+
+    header.appendChild(arrow);
+    header.appendChild(titleText);
+    header.appendChild(countBadge);
+    header.appendChild(markAllBtn);
+    section.appendChild(header);
+
+    // Content container
+    const content = doc.createElement("div");
+    content.className = "zinspire-favorites-content";
+
+    const list = doc.createElement("div");
+    list.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    `;
+    for (const item of items) {
+      list.appendChild(this.createAuthorFeedRow(doc, item));
+    }
+    content.appendChild(list);
+    section.appendChild(content);
+
+    // Toggle collapse on header click
+    header.addEventListener("click", () => {
+      const isCollapsed = content.style.display === "none";
+      content.style.display = isCollapsed ? "" : "none";
+      arrow.style.transform = isCollapsed ? "" : "rotate(-90deg)";
+    });
+
+    container.appendChild(section);
+  }
+
+  private createAuthorFeedRow(
+    doc: Document,
+    item: AuthorFeedItem,
+  ): HTMLElement {
+    const row = doc.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px;
+      border-radius: 4px;
+      background: var(--material-background, #f8fafc);
+    `;
+
+    // Favorite author the paper was found for
+    const authorLink = doc.createElement("a");
+    authorLink.textContent = item.authorLabel;
+    authorLink.style.cssText = `
+      flex-shrink: 0;
+      max-width: 30%;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      color: var(--fill-secondary, #64748b);
+      cursor: pointer;
+      text-decoration: none;
+      font-size: 11px;
+    `;
+    const favorite = this.getFavoriteAuthors().find(
+      (fav) => getAuthorFeedKey(fav.authorSearchInfo) === item.authorKey,
+    );
+    if (favorite) {
+      authorLink.title = getString("references-panel-author-feed-open-author");
+      authorLink.addEventListener("click", (e) => {
+        e.preventDefault();
+        this.showAuthorPapersTab(favorite.authorSearchInfo).catch(() => void 0);
+      });
+    }
+    row.appendChild(authorLink);
+
+    // Paper link - format: "Title (Year)"
+    const link = doc.createElement("a");
+    const year = item.date?.slice(0, 4);
+    link.textContent = `📄 ${item.title}${year ? ` (${year})` : ""}`;
+    link.title = item.authors ? `${item.title}\n${item.authors}` : item.title;
+    link.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      color: #0066cc;
+      cursor: pointer;
+      text-decoration: none;
+      font-size: 12px;
+    `;
+    link.addEventListener("click", (e) => {
+      e.preventDefault();
+      Zotero.launchURL?.(`https://inspirehep.net/literature/${item.recid}`);
+      markAuthorFeedRead([item.recid]);
+    });
+    row.appendChild(link);
+
+    // Mark read button
+    const readBtn = doc.createElement("button");
+    readBtn.type = "button";
+    readBtn.textContent = "✓";
+    readBtn.title = getString("references-panel-author-feed-mark-read");
+    readBtn.style.cssText = `
+      border: none;
+      background: transparent;
+      color: var(--fill-tertiary, #94a3b8);
+      cursor: pointer;
+      font-size: 12px;
+      padding: 0 4px;
+    `;
+    readBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      markAuthorFeedRead([item.recid]);
+    });
+    row.appendChild(readBtn);
+
+    return row;
+  }
+
+  /**
+   * Row of a saved search, in the Favorites tab or the search history
+   * dropdown. In the dropdown, × deletes the search and 📌 pins it to
+   * Favorites; in Favorites, × unpins it.
+   */
+  private createSavedSearchRow(
+    doc: Document,
+    search: SavedSearch,
+    context: "favorites" | "dropdown",
+  ): HTMLElement {
+    const inDropdown = context === "dropdown";
+    const row = doc.createElement("div");
+    row.className = "zinspire-saved-search-row";
+    row.style.cssText = inDropdown
+      ? `
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 6px 10px;
+      font-size: 12px;
+      border-bottom: 1px solid var(--fill-quinary, #d1d5db);
+    `
+      : `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px;
+      border-radius: 4px;
+      background: var(--material-background, #f8fafc);
+    `;
+    if (inDropdown) {
+      row.addEventListener("mouseenter", () => {
+        row.style.backgroundColor = "var(--fill-senary, #f0f0f0)";
+      });
+      row.addEventListener("mouseleave", () => {
+        row.style.backgroundColor = "";
+      });
+    }
+
+    // Name, with the query as tooltip
+    const link = doc.createElement("a");
+    link.textContent = `★ ${search.name}`;
+    link.title = search.query;
+    link.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      color: ${inDropdown ? "inherit" : "#0066cc"};
+      cursor: pointer;
+      text-decoration: none;
+      font-size: 12px;
+    `;
+    link.addEventListener("click", (e) => {
+      e.preventDefault();
+      this.openSavedSearch(search).catch((err) => {
+        Zotero.debug(`[${config.addonName}] Saved search error: ${err}`);
+      });
+    });
+    row.appendChild(link);
+
+    // New hits since the search was last opened
+    const newCount = search.newRecids?.length ?? 0;
+    if (newCount > 0) {
+      const badge = doc.createElement("span");
+      badge.textContent = getString("references-panel-saved-search-new-count", {
+        args: { count: newCount },
+      });
+      badge.style.cssText = `
+        padding: 0 6px;
+        border-radius: 8px;
+        font-size: 10px;
+        font-weight: 600;
+        line-height: 16px;
+        white-space: nowrap;
+        background: #fef3c7;
+        color: #b45309;
+      `;
+      row.appendChild(badge);
+    }
+
+    const iconButton = (text: string, title: string, onClick: () => void) => {
+      const button = doc.createElement("button");
+      button.type = "button";
+      button.textContent = text;
+      button.title = title;
+      button.style.cssText = `
+        border: none;
+        background: transparent;
+        color: var(--fill-tertiary, #94a3b8);
+        cursor: pointer;
+        font-size: 12px;
+        padding: 0 4px;
+      `;
+      button.addEventListener("click", (e) => {
+        e.stopPropagation();
+        onClick();
+        if (inDropdown) {
+          this.showSearchHistoryDropdown();
+        }
+      });
+      row.appendChild(button);
+      return button;
+    };
+
+    iconButton(
+      search.alert ? "🔔" : "🔕",
+      getString(
+        search.alert
+          ? "references-panel-saved-search-alert-disable"
+          : "references-panel-saved-search-alert-enable",
+      ),
+      () => this.toggleSavedSearchAlert(search),
+    );
+    if (inDropdown) {
+      const pinButton = iconButton(
+        "📌",
+        getString(
+          search.pinned
+            ? "references-panel-saved-search-unpin"
+            : "references-panel-saved-search-pin",
+        ),
+        () => updateSavedSearch(search.id, { pinned: !search.pinned }),
+      );
+      pinButton.style.opacity = search.pinned ? "1" : "0.35";
+    }
+    const removeButton = iconButton(
+      "×",
+      getString(
+        inDropdown
+          ? "references-panel-saved-search-delete"
+          : "references-panel-saved-search-unpin",
+      ),
+      () =>
+        inDropdown
+          ? removeSavedSearch(search.id)
+          : updateSavedSearch(search.id, { pinned: false }),
+    );
+    removeButton.style.fontSize = "14px";
+
+    return row;
+  }
+
+  private createFavoriteAuthorRow(
+    doc: Document,
+    fav: FavoriteAuthor,
+    index: number,
+  ): HTMLElement {
+    const row = doc.createElement("div");
+    row.setAttribute("data-index", String(index));
+    row.draggable = true;
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px;
+      border-radius: 4px;
       background: var(--material-background, #f8fafc);
       cursor: grab;
       transition: background 0.15s ease, transform 0.15s ease;
@@ -16607,42 +17663,18 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     if (!currentItem) {
       return null;
     }
-    const meta = await fetchInspireMetaByRecid(recid);
-    if (meta === -1) {
-      this.showToast(getString("references-panel-toast-missing"));
-      return null;
-    }
-    const pane = Zotero.getActiveZoteroPane();
     const originalItemID = this.currentItemID;
     const scrollState = this.captureScrollState();
 
-    const newItem = new Zotero.Item("journalArticle");
-    newItem.libraryID = target.libraryID ?? currentItem.libraryID;
-    const targetCollectionIDs = Array.from(
-      new Set(target.collectionIDs),
-    ).filter((id): id is number => typeof id === "number");
-    newItem.setField("extra", "");
-    if (targetCollectionIDs.length) {
-      newItem.setCollections(targetCollectionIDs);
-    } else {
-      newItem.setCollections([]);
-    }
-
-    if (target.tags && target.tags.length) {
-      for (const tag of target.tags) {
-        newItem.addTag(tag);
-      }
-    }
-
-    await setInspireMeta(newItem, meta as jsobject, "full");
-    await saveItemWithPendingInspireNote(newItem);
-
-    if (target.note) {
-      const newNote = new Zotero.Item("note");
-      newNote.setNote(target.note);
-      newNote.parentID = newItem.id;
-      newNote.libraryID = newItem.libraryID;
-      await newNote.saveTx();
+    const newItem = await importInspireRecord(recid, {
+      libraryID: target.libraryID ?? currentItem.libraryID,
+      collectionIDs: target.collectionIDs,
+      tags: target.tags,
+      note: target.note,
+    });
+    if (!newItem) {
+      this.showToast(getString("references-panel-toast-missing"));
+      return null;
     }
 
     this.rememberRecentTarget(target.primaryRowID);
@@ -16899,7 +17931,36 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
     );
   }
 
-  private openCitationGraphDialog() {
+  /**
+   * Show the item's citation count history next to the graph button. Hidden
+   * until at least two refreshes have been recorded.
+   */
+  private async updateCitationSparkline(item: Zotero.Item, recid?: string) {
+    const el = this.citationSparklineEl;
+    if (!el) return;
+    const itemID = item.id;
+    const key = getCitationHistoryKey(
+      recid,
+      item.getField("DOI") as string | undefined,
+    );
+    const samples = key ? await getCitationHistory(key) : [];
+    // Item changed while loading the history
+    if (this.currentItemID !== itemID) return;
+    el.replaceChildren();
+    const sparkline = createCitationSparkline(el.ownerDocument, samples, {
+      width: 48,
+      height: 16,
+      excludeSelf: getPref("cites_column_exclude_self") === true,
+    });
+    if (sparkline) {
+      el.appendChild(sparkline);
+      el.style.display = "inline-flex";
+    } else {
+      el.style.display = "none";
+    }
+  }
+
+  private openCitationGraphDialog(pathTo?: { recid: string; title?: string }) {
     const seedRecid = this.currentRecid;
     if (!seedRecid) {
       this.showToast(getString("references-panel-no-recid"));
@@ -16947,6 +18008,7 @@ toolbarbutton.zinspire-refresh.section-custom-button.zinspire-section-button-loa
       this.body.ownerDocument,
       { recid: seedRecid, title: seedTitle, authorLabel },
       {
+        pathTo,
         onDispose: () => {
           if (this.citationGraphDialog === dialog) {
             this.citationGraphDialog = undefined;
@@ -0,0 +1,162 @@
+import { config } from "../../package.json";
+import type { ExternalTokenRecord } from "./externalToken";
+
+/**
+ * Audit log of operations performed through the external write endpoint.
+ *
+ * One JSON object per line in `<Zotero data dir>/zoteroinspire-audit.jsonl`,
+ * next to (not inside) the local cache directory so clearing the cache never
+ * drops it. When the file grows past MAX_AUDIT_BYTES it is rotated to
+ * `zoteroinspire-audit.1.jsonl`, keeping one previous generation.
+ */
+
+const AUDIT_FILE_NAME = "zoteroinspire-audit.jsonl";
+const AUDIT_ROTATED_FILE_NAME = "zoteroinspire-audit.1.jsonl";
+const MAX_AUDIT_BYTES = 1024 * 1024;
+/** Request parameters are stored verbatim up to this many characters. */
+const MAX_PARAMS_LENGTH = 2000;
+
+export interface ExternalAuditEntry {
+  time: string;
+  token_id: string;
+  token_name: string;
+  op: string;
+  status: number;
+  ok: boolean;
+  code?: string;
+  error?: string;
+  params: string;
+  result?: Record<string, unknown>;
+}
+
+/** Response fields worth keeping in the log (identifiers and counts). */
+const RESULT_KEYS = [
+  "library_id",
+  "item_key",
+  "item_id",
+  "parent_item_key",
+  "attachment_key",
+  "mode",
+  "operation",
+  "query",
+  "updated",
+  "imported",
+  "trashed",
+  "erased",
+];
+
+function summarizeResult(
+  body: Record<string, any>,
+): Record<string, unknown> | undefined {
+  const summary: Record<string, unknown> = {};
+  for (const key of RESULT_KEYS) {
+    if (body[key] !== undefined) summary[key] = body[key];
+  }
+  if (Array.isArray(body.results)) {
+    summary.results = body.results.map((r: Record<string, any>) => {
+      const compact: Record<string, unknown> = { status: r.status };
+      if (r.item_key !== undefined) compact.item_key = r.item_key;
+      if (r.recid !== undefined) compact.recid = r.recid;
+      return compact;
+    });
+  }
+  return Object.keys(summary).length ? summary : undefined;
+}
+
+/**
+ * Build the log line for one request from the token, the request body and
+ * the endpoint's `[status, contentType, json]` result.
+ */
+export function buildExternalAuditEntry(
+  token: Pick<ExternalTokenRecord, "id" | "name">,
+  requestBody: Record<string, any>,
+  result: [number, string, string],
+  now: Date = new Date(),
+): ExternalAuditEntry {
+  const [status, , json] = result;
+  let response: Record<string, any> = {};
+  try {
+    response = JSON.parse(json) ?? {};
+  } catch (_err) {
+    response = {};
+  }
+  const { op, ...params } = requestBody;
+  let paramsJson = JSON.stringify(params);
+  if (paramsJson.length > MAX_PARAMS_LENGTH) {
+    paramsJson = `${paramsJson.slice(0, MAX_PARAMS_LENGTH)}…`;
+  }
+  const entry: ExternalAuditEntry = {
+    time: now.toISOString(),
+    token_id: token.id,
+    token_name: token.name,
+    op: typeof op === "string" ? op : "",
+    status,
+    ok: response.ok === true,
+    params: paramsJson,
+  };
+  if (typeof response.code === "string") entry.code = response.code;
+  if (!entry.ok && typeof response.error === "string") {
+    entry.error = response.error;
+  }
+  const summary = entry.ok ? summarizeResult(response) : undefined;
+  if (summary) entry.result = summary;
+  return entry;
+}
+
+export function getExternalAuditLogPath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, AUDIT_FILE_NAME);
+}
+
+// Serialize appends so concurrent requests never interleave or race rotation
+let writeQueue: Promise<void> = Promise.resolve();
+
+export function appendExternalAuditEntry(
+  entry: ExternalAuditEntry,
+): Promise<void> {
+  writeQueue = writeQueue.then(async () => {
+    try {
+      const path = getExternalAuditLogPath();
+      if (await IOUtils.exists(path)) {
+        const info = await IOUtils.stat(path);
+        if ((info.size ?? 0) > MAX_AUDIT_BYTES) {
+          await IOUtils.move(
+            path,
+            PathUtils.join(Zotero.DataDirectory.dir, AUDIT_ROTATED_FILE_NAME),
+          );
+        }
+      }
+      await IOUtils.writeUTF8(path, `${JSON.stringify(entry)}\n`, {
+        mode: "append",
+      });
+    } catch (err) {
+      Zotero.debug(`[${config.addonName}] Failed to write audit log: ${err}`);
+    }
+  });
+  return writeQueue;
+}
+
+/** Most recent entries first, from the current log file only. */
+export async function readExternalAuditLog(
+  limit = 100,
+): Promise<ExternalAuditEntry[]> {
+  try {
+    const path = getExternalAuditLogPath();
+    if (!(await IOUtils.exists(path))) return [];
+    const text = await IOUtils.readUTF8(path);
+    const entries: ExternalAuditEntry[] = [];
+    const lines = text.split("\n");
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (_err) {
+        // Skip a torn line
+      }
+    }
+    return entries;
+  } catch (err) {
+    Zotero.debug(`[${config.addonName}] Failed to read audit log: ${err}`);
+    return [];
+  }
+}
@@ -2,6 +2,58 @@ import { config } from "../../package.json";
 import { getPref, setPref } from "./prefs";
 
 const EXTERNAL_TOKEN_PREF_KEY = "external_token" as const;
+const EXTERNAL_TOKENS_PREF_KEY = "external_tokens" as const;
+
+/** ID of the token whose secret lives in the legacy `external_token` pref. */
+export const DEFAULT_EXTERNAL_TOKEN_ID = "default";
+
+/**
+ * Capabilities a token can be granted. Write ops use their op name; the query,
+ * events and pick-save-target endpoints are one scope each. `ping` needs no
+ * scope.
+ */
+export const EXTERNAL_TOKEN_SCOPES = [
+  "query",
+  "events",
+  "pick_save_target",
+  "attach_file",
+  "update_metadata",
+  "import_inspire",
+  "trash_item",
+  "erase_item",
+] as const;
+export type ExternalTokenScope = (typeof EXTERNAL_TOKEN_SCOPES)[number];
+
+/** Scope presets offered when creating a token in the preferences pane. */
+export const EXTERNAL_TOKEN_PRESETS: Record<
+  "full" | "no_erase" | "read_only" | "attach_only",
+  readonly ExternalTokenScope[]
+> = {
+  full: EXTERNAL_TOKEN_SCOPES,
+  no_erase: EXTERNAL_TOKEN_SCOPES.filter((s) => s !== "erase_item"),
+  read_only: ["query", "events"],
+  attach_only: ["attach_file"],
+};
+export type ExternalTokenPreset = keyof typeof EXTERNAL_TOKEN_PRESETS;
+
+/** Last-used timestamps are persisted at most this often per token. */
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface ExternalTokenRecord {
+  id: string;
+  name: string;
+  /** Secret; not stored for the default token (see `external_token`). */
+  token?: string;
+  scopes: ExternalTokenScope[];
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+interface ExternalTokenStore {
+  tokens: ExternalTokenRecord[];
+  /** The default token was revoked; do not regenerate it on startup. */
+  defaultRevoked?: boolean;
+}
 
 function generateExternalToken(): string {
   try {
@@ -29,11 +81,82 @@ function generateExternalToken(): string {
   return `${c}.${a}.${b}`;
 }
 
+function normalizeScopes(raw: unknown): ExternalTokenScope[] {
+  if (!Array.isArray(raw)) return [];
+  return EXTERNAL_TOKEN_SCOPES.filter((scope) => raw.includes(scope));
+}
+
+function loadStore(): ExternalTokenStore {
+  let parsed: any = null;
+  try {
+    const json = getPref(EXTERNAL_TOKENS_PREF_KEY) as string;
+    parsed = json ? JSON.parse(json) : null;
+  } catch (_err) {
+    parsed = null;
+  }
+  const tokens: ExternalTokenRecord[] = [];
+  for (const raw of Array.isArray(parsed?.tokens) ? parsed.tokens : []) {
+    if (!raw || typeof raw.id !== "string" || typeof raw.name !== "string") {
+      continue;
+    }
+    tokens.push({
+      id: raw.id,
+      name: raw.name,
+      token: typeof raw.token === "string" ? raw.token : undefined,
+      // The default (pre-scoping) token always keeps full access, including
+      // scopes added after it was saved
+      scopes:
+        raw.id === DEFAULT_EXTERNAL_TOKEN_ID
+          ? [...EXTERNAL_TOKEN_SCOPES]
+          : normalizeScopes(raw.scopes),
+      createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+      lastUsedAt:
+        typeof raw.lastUsedAt === "number" ? raw.lastUsedAt : undefined,
+    });
+  }
+  const store: ExternalTokenStore = {
+    tokens,
+    defaultRevoked: parsed?.defaultRevoked === true,
+  };
+  // The default token exists until it is revoked
+  if (
+    !store.defaultRevoked &&
+    !tokens.some((t) => t.id === DEFAULT_EXTERNAL_TOKEN_ID)
+  ) {
+    tokens.unshift({
+      id: DEFAULT_EXTERNAL_TOKEN_ID,
+      name: "Default",
+      scopes: [...EXTERNAL_TOKEN_SCOPES],
+      createdAt: 0,
+    });
+  }
+  return store;
+}
+
+function saveStore(store: ExternalTokenStore): void {
+  setPref(EXTERNAL_TOKENS_PREF_KEY, JSON.stringify(store));
+}
+
+function getSecret(record: ExternalTokenRecord): string {
+  if (record.id === DEFAULT_EXTERNAL_TOKEN_ID) {
+    const pref = getPref(EXTERNAL_TOKEN_PREF_KEY);
+    return typeof pref === "string" ? pref.trim() : "";
+  }
+  return record.token ?? "";
+}
+
+/**
+ * Return the default token, generating it on first use. Returns "" once the
+ * default token has been revoked from the preferences pane.
+ */
 export function ensureExternalToken(): string {
   const existing = getPref(EXTERNAL_TOKEN_PREF_KEY);
   if (typeof existing === "string" && existing.trim()) {
     return existing.trim();
   }
+  if (loadStore().defaultRevoked) {
+    return "";
+  }
   const token = generateExternalToken();
   setPref(EXTERNAL_TOKEN_PREF_KEY, token);
   Zotero.debug?.(
@@ -46,3 +169,109 @@ export function getExternalToken(): string {
   return ensureExternalToken();
 }
 
+/** All active tokens, with their secrets filled in (for the preferences pane). */
+export function listExternalTokens(): ExternalTokenRecord[] {
+  ensureExternalToken();
+  return loadStore().tokens.map((record) => ({
+    ...record,
+    token: getSecret(record),
+  }));
+}
+
+export function createExternalToken(
+  name: string,
+  scopes: readonly ExternalTokenScope[],
+): ExternalTokenRecord {
+  const store = loadStore();
+  const record: ExternalTokenRecord = {
+    id: `t${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim() || "Unnamed",
+    token: generateExternalToken(),
+    scopes: normalizeScopes(scopes),
+    createdAt: Date.now(),
+  };
+  store.tokens.push(record);
+  saveStore(store);
+  return record;
+}
+
+/** Revoke a token; requests carrying it are rejected from now on. */
+export function revokeExternalToken(id: string): boolean {
+  const store = loadStore();
+  const index = store.tokens.findIndex((t) => t.id === id);
+  if (index < 0) return false;
+  store.tokens.splice(index, 1);
+  if (id === DEFAULT_EXTERNAL_TOKEN_ID) {
+    store.defaultRevoked = true;
+    setPref(EXTERNAL_TOKEN_PREF_KEY, "");
+  }
+  saveStore(store);
+  return true;
+}
+
+/** Issue a fresh default token (also restores a revoked default token). */
+export function regenerateDefaultExternalToken(): string {
+  const store = loadStore();
+  store.defaultRevoked = false;
+  store.tokens = store.tokens.filter((t) => t.id !== DEFAULT_EXTERNAL_TOKEN_ID);
+  store.tokens.unshift({
+    id: DEFAULT_EXTERNAL_TOKEN_ID,
+    name: "Default",
+    scopes: [...EXTERNAL_TOKEN_SCOPES],
+    createdAt: Date.now(),
+  });
+  saveStore(store);
+  const token = generateExternalToken();
+  setPref(EXTERNAL_TOKEN_PREF_KEY, token);
+  return token;
+}
+
+/** Read the `x-zinspire-token` header regardless of casing. */
+export function readExternalTokenHeader(
+  headers: Record<string, string | undefined> | undefined,
+): string | undefined {
+  const headerMap = headers ?? {};
+  return (
+    headerMap["x-zinspire-token"] ??
+    headerMap["X-ZInspire-Token"] ??
+    headerMap["X-ZINSPIRE-TOKEN"]
+  );
+}
+
+/**
+ * Match the request's token against the active tokens and record its use.
+ * Returns null for a missing, unknown or revoked token.
+ */
+export function authenticateExternalToken(
+  headers: Record<string, string | undefined> | undefined,
+): ExternalTokenRecord | null {
+  const provided = readExternalTokenHeader(headers);
+  if (!provided) return null;
+  ensureExternalToken();
+  const store = loadStore();
+  const record = store.tokens.find((t) => getSecret(t) === provided);
+  if (!record) return null;
+
+  const now = Date.now();
+  if (
+    !record.lastUsedAt ||
+    now - record.lastUsedAt > LAST_USED_WRITE_INTERVAL_MS
+  ) {
+    record.lastUsedAt = now;
+    saveStore(store);
+  }
+  return { ...record, token: undefined };
+}
+
+export function tokenHasScope(
+  record: ExternalTokenRecord,
+  scope: ExternalTokenScope,
+): boolean {
+  return record.scopes.includes(scope);
+}
+
+export function isExternalTokenScope(
+  value: string,
+): value is ExternalTokenScope {
+  return (EXTERNAL_TOKEN_SCOPES as readonly string[]).includes(value);
+}
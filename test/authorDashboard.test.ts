@@ -0,0 +1,274 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// authorDashboard.test.ts - Unit tests for the author dashboard statistics
+// Paper-level stats run on hand-made entries; the INSPIRE-backed parts run
+// against a stubbed fetch that answers by endpoint.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+vi.mock("../src/utils/locale", () => ({
+  getString: (key: string) => key,
+}));
+
+const inspireFetch = vi.fn();
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: (...args: unknown[]) => inspireFetch(...args),
+}));
+
+const fetchAuthorProfile = vi.fn();
+vi.mock("../src/modules/inspire/authorProfileService", () => ({
+  fetchAuthorProfile: (...args: unknown[]) => fetchAuthorProfile(...args),
+}));
+
+import {
+  buildAuthorDashboardCsv,
+  calculateAuthorIndices,
+  computeAuthorDashboardStats,
+  loadAuthorDashboard,
+} from "../src/modules/inspire/authorDashboardService";
+import type { InspireReferenceEntry } from "../src/modules/inspire/types";
+
+const AUTHOR = { fullName: "Witten, Edward", bai: "E.Witten.1" };
+
+function makeEntry(
+  recid: string,
+  year: string,
+  citationCount: number,
+  options: {
+    firstBai?: string;
+    totalAuthors?: number;
+    categories?: string[];
+  } = {},
+): InspireReferenceEntry {
+  return {
+    id: recid,
+    recid,
+    title: `Paper ${recid}`,
+    authors: ["First, A."],
+    totalAuthors: options.totalAuthors ?? 1,
+    authorSearchInfos: [{ fullName: "First, A.", bai: options.firstBai }],
+    authorText: "",
+    displayText: "",
+    year,
+    citationCount,
+    citationCountWithoutSelf: citationCount - 1,
+    arxivDetails: { categories: options.categories ?? [] },
+  } as InspireReferenceEntry;
+}
+
+const entries = [
+  makeEntry("1", "2020", 50, {
+    firstBai: "E.Witten.1",
+    categories: ["hep-th", "gr-qc"],
+  }),
+  makeEntry("2", "2020", 12, { totalAuthors: 4, categories: ["hep-th"] }),
+  makeEntry("3", "2022", 3, { totalAuthors: 3000 }),
+  makeEntry("4", "unknown", 1, { firstBai: "E.Witten.1", totalAuthors: 2 }),
+];
+
+function respond(json: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 503, json: async () => json };
+}
+
+beforeEach(() => {
+  prefs.clear();
+  inspireFetch.mockReset();
+  fetchAuthorProfile.mockReset();
+  vi.stubGlobal("Zotero", { debug: vi.fn() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("calculateAuthorIndices", () => {
+  it("computes h-, i10- and g-index", () => {
+    expect(calculateAuthorIndices([])).toEqual({
+      hIndex: 0,
+      i10Index: 0,
+      gIndex: 0,
+    });
+    // g: the top 4 have 20 >= 16 citations, the top 5 have 20 < 25
+    expect(calculateAuthorIndices([3, 12, 0, 5, 0])).toEqual({
+      hIndex: 3,
+      i10Index: 1,
+      gIndex: 4,
+    });
+  });
+});
+
+describe("computeAuthorDashboardStats", () => {
+  it("counts years, authorship splits and arXiv categories", () => {
+    const stats = computeAuthorDashboardStats(entries, AUTHOR);
+    expect(stats).toMatchObject({
+      paperCount: 4,
+      totalCitations: 66,
+      citationsWithoutSelf: 62,
+      hIndex: 3,
+      i10Index: 2,
+      gIndex: 4,
+      papersPerYear: [
+        { year: "2020", papers: 2, citations: 62 },
+        { year: "2022", papers: 1, citations: 3 },
+      ],
+      splits: {
+        firstAuthor: { papers: 2, citations: 51 },
+        solo: { papers: 1, citations: 50 },
+        smallGroup: { papers: 2, citations: 13 },
+        collaboration: { papers: 1, citations: 3 },
+      },
+      arxivCategories: [
+        { category: "hep-th", papers: 2 },
+        { category: "gr-qc", papers: 1 },
+      ],
+    });
+  });
+});
+
+describe("loadAuthorDashboard", () => {
+  it("adds citations per year, co-authors and citing institutions", async () => {
+    fetchAuthorProfile.mockResolvedValue({
+      recid: "983328",
+      name: "Edward Witten",
+      bai: "E.Witten.1",
+    });
+    inspireFetch.mockImplementation(async (url: string) => {
+      const decoded = decodeURIComponent(url);
+      if (decoded.includes("/literature/facets")) {
+        return respond({
+          aggregations: {
+            citations_by_year: { value: { "2021": 4, "2020": 7, "2019": 0 } },
+          },
+        });
+      }
+      if (decoded.includes("refersto:")) {
+        return respond({
+          hits: {
+            hits: [
+              {
+                metadata: {
+                  authors: [
+                    { affiliations: [{ value: "CERN" }, { value: "IAS" }] },
+                    { affiliations: [{ value: "CERN" }] },
+                  ],
+                },
+              },
+              { metadata: { authors: [{ affiliations: [{ value: "IAS" }] }] } },
+              {
+                metadata: { authors: [{ affiliations: [{ value: "CERN" }] }] },
+              },
+            ],
+          },
+        });
+      }
+      return respond({
+        hits: {
+          hits: [
+            {
+              metadata: {
+                authors: [
+                  {
+                    full_name: "Witten, Edward",
+                    record: { $ref: "/authors/983328" },
+                  },
+                  {
+                    full_name: "Seiberg, Nathan",
+                    record: { $ref: "/authors/1" },
+                  },
+                ],
+              },
+            },
+            {
+              metadata: {
+                authors: [
+                  {
+                    full_name: "Seiberg, Nathan",
+                    record: { $ref: "/authors/1" },
+                  },
+                  { full_name: "Maldacena, Juan" },
+                ],
+              },
+            },
+          ],
+        },
+      });
+    });
+
+    const dashboard = await loadAuthorDashboard(entries, {
+      fullName: "Witten, Edward",
+      recid: "983328",
+    });
+    expect(dashboard.author.bai).toBe("E.Witten.1");
+    const { stats } = dashboard;
+    expect(stats.citationsPerYear).toEqual([
+      { year: "2020", citations: 7 },
+      { year: "2021", citations: 4 },
+    ]);
+    expect(stats.coauthors).toEqual([
+      { name: "Seiberg, Nathan", recid: "1", papers: 2 },
+      { name: "Maldacena, Juan", recid: undefined, papers: 1 },
+    ]);
+    expect(stats.citingInstitutions).toEqual([
+      { name: "CERN", papers: 2 },
+      { name: "IAS", papers: 2 },
+    ]);
+    expect(stats.citingSampleSize).toBe(3);
+
+    const urls = inspireFetch.mock.calls.map(([url]) =>
+      decodeURIComponent(url as string),
+    );
+    expect(urls).toContainEqual(
+      expect.stringContaining("q=a E.Witten.1 and ac 1->10&"),
+    );
+    // Citing papers of the most cited papers first
+    expect(urls).toContainEqual(
+      expect.stringContaining(
+        "q=(refersto:recid:1 or refersto:recid:2 or refersto:recid:3 or refersto:recid:4) and ac 1->10&",
+      ),
+    );
+  });
+
+  it("keeps the paper-level stats when INSPIRE fails or is offline", async () => {
+    fetchAuthorProfile.mockRejectedValue(new Error("down"));
+    inspireFetch.mockResolvedValue(respond(null, false));
+    const { profile, stats } = await loadAuthorDashboard(entries, AUTHOR);
+    expect(profile).toBeNull();
+    expect(stats.paperCount).toBe(4);
+    expect(stats.citationsPerYear).toBeUndefined();
+    expect(stats.coauthors).toBeUndefined();
+    expect(stats.citingInstitutions).toBeUndefined();
+
+    inspireFetch.mockClear();
+    prefs.set("offline_mode", true);
+    await loadAuthorDashboard(entries, AUTHOR);
+    expect(inspireFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("buildAuthorDashboardCsv", () => {
+  it("writes every number as a section,key,value row", () => {
+    const stats = computeAuthorDashboardStats(entries, AUTHOR);
+    stats.coauthors = [{ name: "Seiberg, Nathan", papers: 2 }];
+    const csv = buildAuthorDashboardCsv({
+      author: AUTHOR,
+      profile: null,
+      stats,
+    }).split("\n");
+    expect(csv[0]).toBe("section,key,value");
+    expect(csv).toContain('author,name,"Witten, Edward"');
+    expect(csv).toContain("summary,g_index,4");
+    expect(csv).toContain("papers_per_year,2020,2");
+    expect(csv).toContain("citations_by_publication_year,2020,62");
+    expect(csv).toContain("split_papers,first_author,2");
+    expect(csv).toContain("split_citations,more_than_10_authors,3");
+    expect(csv).toContain('coauthor_papers,"Seiberg, Nathan",2');
+    expect(csv).toContain("arxiv_category_papers,hep-th,2");
+    expect(csv.some((row) => row.startsWith("citations_per_year"))).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// authorFeed.test.ts - Unit tests for the favorite author feed
+// Feed state runs against an in-memory prefs map and author snapshots
+// against an in-memory local cache; checks diff the papers of a stubbed
+// INSPIRE search against the snapshot.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+vi.mock("../src/utils/locale", () => ({
+  getString: (key: string) => key,
+}));
+
+const inspireFetch = vi.fn();
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: (...args: unknown[]) => inspireFetch(...args),
+}));
+
+const cache = new Map<string, unknown>();
+vi.mock("../src/modules/inspire/localCache", () => ({
+  localCache: {
+    get: async (type: string, key: string) =>
+      cache.has(`${type}/${key}`)
+        ? { data: cache.get(`${type}/${key}`), fromCache: true }
+        : null,
+    set: async (type: string, key: string, data: unknown) => {
+      cache.set(`${type}/${key}`, data);
+    },
+  },
+}));
+
+import {
+  buildAuthorFeedQuery,
+  getAuthorFeedItems,
+  getUnreadAuthorFeedCount,
+  markAuthorFeedRead,
+  onAuthorFeedChange,
+  runAuthorFeedCheck,
+} from "../src/modules/inspire/authorFeedService";
+
+const HOUR = 60 * 60 * 1000;
+
+/** Current INSPIRE papers of every author, newest first */
+let papers: string[];
+
+function respondWithPapers() {
+  inspireFetch.mockImplementation(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      hits: {
+        total: papers.length,
+        hits: papers.map((recid) => ({
+          id: recid,
+          metadata: {
+            control_number: Number(recid),
+            titles: [{ title: `Paper ${recid}` }],
+            authors: [{ full_name: "Witten, Edward" }],
+            earliest_date: "2026-10-01",
+          },
+        })),
+      },
+    }),
+  }));
+}
+
+function setFavorites() {
+  prefs.set(
+    "favorite_authors",
+    JSON.stringify([
+      {
+        authorSearchInfo: { fullName: "Witten, Edward", bai: "E.Witten.1" },
+        label: "Edward Witten",
+        addedAt: 0,
+      },
+    ]),
+  );
+}
+
+beforeEach(() => {
+  prefs.clear();
+  cache.clear();
+  papers = [];
+  inspireFetch.mockReset();
+  respondWithPapers();
+  vi.stubGlobal("Zotero", { debug: vi.fn() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("buildAuthorFeedQuery", () => {
+  it("prefers BAI, then recid, then the name", () => {
+    expect(
+      buildAuthorFeedQuery({ fullName: "Witten, Edward", bai: "E.Witten.1" }),
+    ).toBe("a E.Witten.1");
+    expect(
+      buildAuthorFeedQuery({ fullName: "Witten, Edward", recid: "983328" }),
+    ).toBe("authors.recid:983328");
+    expect(buildAuthorFeedQuery({ fullName: "Witten, Edward" })).toBe(
+      "a e witten",
+    );
+  });
+});
+
+describe("runAuthorFeedCheck", () => {
+  it("records a baseline first, then adds papers missing from the snapshot", async () => {
+    setFavorites();
+    const listener = vi.fn();
+    const unsubscribe = onAuthorFeedChange(listener);
+
+    papers = ["2", "1"];
+    const now = 1000 * HOUR;
+    expect(await runAuthorFeedCheck({ now })).toEqual({
+      checked: 1,
+      added: [],
+    });
+    expect(cache.get("author_papers/bai:E.Witten.1")).toHaveLength(2);
+    expect(decodeURIComponent(inspireFetch.mock.calls[0][0])).toContain(
+      "q=a E.Witten.1&",
+    );
+
+    // Not due again until the interval has passed
+    await runAuthorFeedCheck({ now: now + HOUR });
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+
+    papers = ["4", "3", "2", "1"];
+    const summary = await runAuthorFeedCheck({ now: now + 25 * HOUR });
+    const url = decodeURIComponent(inspireFetch.mock.calls[1][0]);
+    expect(url).toContain("and date >= 1970-02-04");
+    expect(summary.added.map((item) => item.recid)).toEqual(["4", "3"]);
+    expect(summary.added[0]).toMatchObject({
+      title: "Paper 4",
+      authorKey: "bai:E.Witten.1",
+      authorLabel: "Edward Witten",
+      date: "2026-10-01",
+      read: false,
+    });
+    expect(getUnreadAuthorFeedCount()).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Papers already in the feed are not added again
+    await runAuthorFeedCheck({ now: now + 50 * HOUR });
+    expect(getAuthorFeedItems()).toHaveLength(2);
+    unsubscribe();
+  });
+
+  it("marks papers as read", async () => {
+    setFavorites();
+    await runAuthorFeedCheck({ now: 1000 * HOUR });
+    papers = ["3", "2", "1"];
+    await runAuthorFeedCheck({ force: true, now: 1001 * HOUR });
+
+    markAuthorFeedRead(["2"]);
+    expect(getUnreadAuthorFeedCount()).toBe(2);
+    markAuthorFeedRead();
+    expect(getUnreadAuthorFeedCount()).toBe(0);
+    expect(getAuthorFeedItems()).toHaveLength(3);
+  });
+
+  it("does nothing when disabled or offline", async () => {
+    setFavorites();
+    prefs.set("author_feed_enabled", false);
+    await runAuthorFeedCheck();
+    prefs.set("author_feed_enabled", true);
+    prefs.set("offline_mode", true);
+    await runAuthorFeedCheck();
+    expect(inspireFetch).not.toHaveBeenCalled();
+
+    prefs.set("offline_mode", false);
+    inspireFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    expect(await runAuthorFeedCheck()).toEqual({ checked: 0, added: [] });
+    expect(prefs.get("author_feed")).toBeUndefined();
+  });
+});
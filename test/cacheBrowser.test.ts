@@ -0,0 +1,166 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// cacheBrowser.test.ts - Unit tests for the cache browser maintenance actions
+// Listing, pinning, re-validating and deleting entries of both cache
+// backends on an in-memory IOUtils, and mapping entry names back to fetches.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+import { localCache } from "../src/modules/inspire/localCache";
+import { getCacheEntryRequest } from "../src/modules/inspire/offlineMode";
+import { stubMemoryFileSystem, stubZotero } from "./helpers/memoryFileSystem";
+
+const DIR = "/data/zoteroinspire-cache";
+const HOUR = 60 * 60 * 1000;
+
+const files = new Map<string, Uint8Array>();
+const encoder = new TextEncoder();
+
+function refs(title: string) {
+  return [{ title, authors: [] }];
+}
+
+beforeEach(async () => {
+  files.clear();
+  prefs.clear();
+  prefs.set("local_cache_enable", true);
+  stubMemoryFileSystem(files);
+  stubZotero();
+  await localCache.reinit();
+});
+
+afterEach(async () => {
+  await localCache.flushWrites();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("pack backend", () => {
+  it("lists entries and keeps pinned ones past their TTL", async () => {
+    await localCache.set("refs", "1", refs("one"));
+    await localCache.set("cited", "1", refs("citing"), "mostcited", 5000);
+    await localCache.set("cited", "2", refs("other"));
+
+    const listed = await localCache.listEntries();
+    expect(listed.map((info) => info.name).sort()).toEqual([
+      "cited_1_mostcited",
+      "cited_2",
+      "refs_1",
+    ]);
+    const refsInfo = listed.find((info) => info.name === "refs_1");
+    expect(refsInfo).toMatchObject({ type: "refs", ttl: -1, complete: true });
+    expect(refsInfo!.size).toBeGreaterThan(0);
+    expect(listed.find((info) => info.name === "cited_2")!.ttl).toBeGreaterThan(
+      0,
+    );
+
+    expect(await localCache.pinEntries(["cited_1_mostcited"])).toBe(1);
+    const later = Date.now() + 1000 * HOUR;
+    vi.spyOn(Date, "now").mockReturnValue(later);
+    expect(await localCache.purgeExpired()).toBe(1);
+
+    const pinned = await localCache.get("cited", "1", "mostcited");
+    expect(pinned).toMatchObject({ data: refs("citing"), total: 5000 });
+    expect(await localCache.get("cited", "2")).toBeNull();
+    const [info] = (await localCache.listEntries()).filter(
+      (entry) => entry.type === "cited",
+    );
+    expect(info.ttl).toBe(-1);
+  });
+
+  it("deletes selected entries", async () => {
+    await localCache.set("refs", "1", refs("one"));
+    await localCache.set("refs", "2", refs("two"));
+    expect(await localCache.deleteEntries(["refs_1", "refs_9"])).toBe(1);
+    expect(await localCache.get("refs", "1")).toBeNull();
+    expect((await localCache.listEntries()).map((info) => info.name)).toEqual([
+      "refs_2",
+    ]);
+  });
+});
+
+describe("files backend", () => {
+  beforeEach(async () => {
+    prefs.set("local_cache_backend", "files");
+    await localCache.reinit();
+  });
+
+  it("re-validation removes incomplete and corrupt entries", async () => {
+    await localCache.set("refs", "1", refs("one"));
+    await localCache.flushWrites();
+    const incomplete = {
+      v: 2,
+      t: "cited",
+      k: "3",
+      ts: Date.now(),
+      ttl: 24,
+      d: refs("partial"),
+      c: false,
+    };
+    files.set(
+      `${DIR}/cited_3.json`,
+      encoder.encode(JSON.stringify(incomplete)),
+    );
+    files.set(`${DIR}/refs_4.json`, encoder.encode("{not json"));
+
+    const listed = await localCache.listEntries();
+    expect(listed.find((info) => info.name === "cited_3")).toMatchObject({
+      complete: false,
+      ttl: expect.any(Number),
+    });
+
+    const removed = await localCache.revalidateEntries([
+      "refs_1",
+      "cited_3",
+      "refs_4",
+    ]);
+    expect(removed.sort()).toEqual(["cited_3", "refs_4"]);
+    expect((await localCache.listEntries()).map((info) => info.name)).toEqual([
+      "refs_1",
+    ]);
+  });
+});
+
+describe("getCacheEntryRequest", () => {
+  it("maps entry names back to the fetch that fills them", () => {
+    expect(getCacheEntryRequest("refs", "refs_12")).toEqual({
+      kind: "references",
+      recid: "12",
+    });
+    expect(getCacheEntryRequest("cited", "cited_12_mostcited")).toEqual({
+      kind: "cited",
+      recid: "12",
+      sort: "mostcited",
+    });
+    expect(getCacheEntryRequest("cited", "cited_12")).toMatchObject({
+      sort: "mostrecent",
+    });
+    expect(
+      getCacheEntryRequest(
+        "citation_graph",
+        "citation_graph_12_cgrelevancerv1",
+      ),
+    ).toEqual({
+      kind: "citation_graph",
+      recid: "12",
+      sort: "relevance",
+      includeReviews: true,
+    });
+    expect(
+      getCacheEntryRequest("author_profile", "author_profile_bai_J.Doe.1"),
+    ).toEqual({
+      kind: "author_profile",
+      author: { fullName: "", bai: "J.Doe.1" },
+    });
+    expect(
+      getCacheEntryRequest("author_profile", "author_profile_name_j__doe"),
+    ).toBeNull();
+    expect(getCacheEntryRequest("crossref", "crossref_12")).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// cacheBundle.test.ts - Unit tests for offline cache bundle export/import
+// Entries are exported from one cache directory and imported into another,
+// all on an in-memory IOUtils.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as pako from "pako";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+}));
+
+import {
+  decodeCacheBundle,
+  encodeCacheBundle,
+  exportCacheBundle,
+  importCacheBundle,
+  isCacheBundleEntry,
+  type CacheBundle,
+} from "../src/modules/inspire/cacheBundle";
+import { localCache } from "../src/modules/inspire/localCache";
+import { stubMemoryFileSystem, stubZotero } from "./helpers/memoryFileSystem";
+
+const files = new Map<string, Uint8Array>();
+const encoder = new TextEncoder();
+
+function refs(title: string) {
+  return [{ title, authors: [] }];
+}
+
+beforeEach(() => {
+  files.clear();
+  prefs.clear();
+  prefs.set("local_cache_enable", true);
+  stubMemoryFileSystem(files);
+  stubZotero();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isCacheBundleEntry", () => {
+  const recids = new Set(["12"]);
+
+  it("keeps recid-keyed entries of the given papers only", () => {
+    expect(isCacheBundleEntry("refs", "refs_12", recids)).toBe(true);
+    expect(isCacheBundleEntry("cited", "cited_12_mostcited", recids)).toBe(
+      true,
+    );
+    expect(isCacheBundleEntry("refs", "refs_123", recids)).toBe(false);
+    expect(
+      isCacheBundleEntry("citation_graph", "citation_graph_7_x", recids),
+    ).toBe(false);
+  });
+
+  it("keeps all author entries and skips other types", () => {
+    expect(
+      isCacheBundleEntry(
+        "author_profile",
+        "author_profile_bai_J.Doe.1",
+        recids,
+      ),
+    ).toBe(true);
+    expect(isCacheBundleEntry("crossref", "crossref_12", recids)).toBe(false);
+    expect(isCacheBundleEntry("related", "related_12", recids)).toBe(false);
+  });
+});
+
+describe("decodeCacheBundle", () => {
+  it("rejects files that are not bundles of this version", () => {
+    expect(() => decodeCacheBundle(encoder.encode("{}"))).toThrow("gzip");
+    expect(() => decodeCacheBundle(pako.gzip('{"format":"other"}'))).toThrow(
+      "Not an INSPIRE cache bundle",
+    );
+    const future = {
+      format: "zotero-inspire-cache-bundle",
+      version: 99,
+      createdAt: 0,
+      entries: [],
+    } as unknown as CacheBundle;
+    expect(() => decodeCacheBundle(encodeCacheBundle(future))).toThrow(
+      "version 99",
+    );
+  });
+});
+
+describe("export and import", () => {
+  it("moves entries between caches without replacing newer ones", async () => {
+    await localCache.set("refs", "1", refs("one"));
+    await localCache.set("refs", "2", refs("two"));
+    await localCache.set("cited", "1", refs("citing"), "mostcited", 5000);
+    await localCache.set("author_profile", "bai:J.Doe.1", { name: "Doe" });
+
+    const bundlePath = "/transfer/lib.inspirecache";
+    expect(await exportCacheBundle(bundlePath, ["1"], "My papers")).toBe(3);
+
+    // Another machine, which already has a newer copy of refs_1
+    prefs.set("local_cache_custom_dir", "/other");
+    await localCache.reinit();
+    await localCache.set("refs", "1", refs("one, newer"));
+
+    const bundle = decodeCacheBundle(files.get(bundlePath)!);
+    expect(bundle.label).toBe("My papers");
+    bundle.entries.push({
+      name: "../refs_9",
+      file: { ...bundle.entries[0].file, k: "9" },
+    });
+    files.set(bundlePath, encodeCacheBundle(bundle));
+
+    expect(await importCacheBundle(bundlePath)).toEqual({
+      imported: 2,
+      skipped: 1,
+      invalid: 1,
+    });
+    expect((await localCache.get("refs", "1"))?.data).toEqual(
+      refs("one, newer"),
+    );
+    const cited = await localCache.get("cited", "1", "mostcited");
+    expect(cited).toMatchObject({ data: refs("citing"), total: 5000 });
+    expect(await localCache.get("refs", "2")).toBeNull();
+    expect(await localCache.get("refs", "9")).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// cachePackStore.test.ts - Unit tests for the single-file cache backend
+// The pack store and the migration of per-entry cache files run against an
+// in-memory IOUtils; no Zotero profile is involved.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+}));
+
+import {
+  CachePackStore,
+  PACK_FILE_NAME,
+  PACK_INDEX_FILE_NAME,
+} from "../src/modules/inspire/cachePackStore";
+import { localCache } from "../src/modules/inspire/localCache";
+import { stubMemoryFileSystem, stubZotero } from "./helpers/memoryFileSystem";
+
+const DIR = "/cache";
+const PACK = `${DIR}/${PACK_FILE_NAME}`;
+const INDEX = `${DIR}/${PACK_INDEX_FILE_NAME}`;
+
+const files = new Map<string, Uint8Array>();
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function bytes(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+async function readText(
+  store: CachePackStore,
+  name: string,
+): Promise<string | null> {
+  const hit = await store.read(name);
+  return hit ? decoder.decode(hit.bytes) : null;
+}
+
+const meta = { compressed: false, ts: 1, ttl: -1 };
+
+beforeEach(() => {
+  files.clear();
+  prefs.clear();
+  stubMemoryFileSystem(files);
+  stubZotero();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("CachePackStore", () => {
+  it("appends entries to one file and reads them back after a reload", async () => {
+    const store = new CachePackStore(DIR);
+    await store.write("refs_1", bytes("first"), meta);
+    await store.write("refs_2", bytes("second"), meta);
+    await store.write("refs_1", bytes("first v2"), meta);
+
+    expect(await readText(store, "refs_1")).toBe("first v2");
+    expect(await readText(store, "missing")).toBeNull();
+    expect(await store.getStats()).toMatchObject({
+      entryCount: 2,
+      liveBytes: 14,
+      packBytes: 19,
+    });
+
+    await store.flush();
+    const reloaded = new CachePackStore(DIR);
+    expect(await readText(reloaded, "refs_2")).toBe("second");
+    expect(await readText(reloaded, "refs_1")).toBe("first v2");
+  });
+
+  it("compacts the pack without changing entry contents", async () => {
+    const store = new CachePackStore(DIR);
+    await store.write("a", bytes("aaaa"), meta);
+    await store.write("b", bytes("bbbb"), meta);
+    await store.write("a", bytes("AAAA"), meta);
+    await store.remove("b");
+
+    await store.compact();
+    expect(decoder.decode(files.get(PACK))).toBe("AAAA");
+    expect(await readText(store, "a")).toBe("AAAA");
+    // Compaction saves the index right away
+    const index = JSON.parse(decoder.decode(files.get(INDEX)));
+    expect(index).toMatchObject({ packSize: 4, garbage: 0 });
+  });
+
+  it("recovers the compacted index when compaction stops before its save", async () => {
+    const store = new CachePackStore(DIR);
+    await store.write("a", bytes("aaaa"), meta);
+    await store.write("b", bytes("bbbb"), meta);
+    await store.remove("a");
+    await store.flush();
+
+    // The process dies after the pack swap, before the index is saved
+    const writeJSON = IOUtils.writeJSON;
+    vi.stubGlobal("IOUtils", {
+      ...IOUtils,
+      writeJSON: async (path: string, data: unknown) => {
+        if (path === INDEX) throw new Error("crash");
+        return writeJSON(path, data);
+      },
+    });
+    await store.compact();
+    expect(decoder.decode(files.get(PACK))).toBe("bbbb");
+    expect(files.has(`${INDEX}.compact`)).toBe(true);
+
+    const reloaded = new CachePackStore(DIR);
+    expect(await readText(reloaded, "b")).toBe("bbbb");
+    expect(files.has(`${INDEX}.compact`)).toBe(false);
+    expect(JSON.parse(decoder.decode(files.get(INDEX)))).toMatchObject({
+      generation: 1,
+      packSize: 4,
+    });
+  });
+
+  it("discards a compaction that stopped before the pack swap", async () => {
+    const store = new CachePackStore(DIR);
+    await store.write("a", bytes("aaaa"), meta);
+    await store.write("b", bytes("bbbb"), meta);
+    await store.flush();
+    files.set(`${PACK}.compact`, bytes("bb"));
+    files.set(
+      `${INDEX}.compact`,
+      bytes(
+        JSON.stringify({
+          version: 1,
+          generation: 1,
+          packSize: 2,
+          garbage: 0,
+          entries: { b: { o: 0, l: 2, z: false, ts: 1, ttl: -1, a: 1 } },
+        }),
+      ),
+    );
+
+    const reloaded = new CachePackStore(DIR);
+    expect(await readText(reloaded, "a")).toBe("aaaa");
+    expect(await readText(reloaded, "b")).toBe("bbbb");
+    expect(files.has(`${PACK}.compact`)).toBe(false);
+    expect(files.has(`${INDEX}.compact`)).toBe(false);
+  });
+
+  it("saves read access times only with the next index save", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    const store = new CachePackStore(DIR);
+    await store.write("a", bytes("aaaa"), meta);
+    await store.flush();
+    const saved = decoder.decode(files.get(INDEX));
+
+    vi.setSystemTime(2000);
+    await store.read("a");
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(decoder.decode(files.get(INDEX))).toBe(saved);
+
+    await store.flush();
+    const index = JSON.parse(decoder.decode(files.get(INDEX)));
+    expect(index.entries.a.a).toBe(2000);
+  });
+
+  it("evicts the least recently used entries beyond the size limit", async () => {
+    vi.useFakeTimers();
+    const store = new CachePackStore(DIR);
+    const limit = 250;
+    vi.setSystemTime(1000);
+    await store.write("old", bytes("o".repeat(100)), meta, limit);
+    vi.setSystemTime(2000);
+    await store.write("used", bytes("u".repeat(100)), meta, limit);
+    vi.setSystemTime(3000);
+    await store.read("old");
+    vi.setSystemTime(4000);
+    await store.write("new", bytes("n".repeat(100)), meta, limit);
+
+    expect(await store.peek("used")).toBeNull();
+    expect(await store.peek("old")).not.toBeNull();
+    expect(await store.peek("new")).not.toBeNull();
+
+    expect(await store.evictToSize(150)).toBe(1);
+    expect(await store.peek("old")).toBeNull();
+    await store.flush();
+  });
+
+  it("never evicts pinned entries, even after they are rewritten", async () => {
+    vi.useFakeTimers();
+    const store = new CachePackStore(DIR);
+    const limit = 250;
+    vi.setSystemTime(1000);
+    await store.write("pinned", bytes("p".repeat(100)), meta, limit);
+    expect(await store.pin(["pinned", "missing"])).toBe(1);
+    vi.setSystemTime(2000);
+    await store.write("other", bytes("o".repeat(100)), meta, limit);
+    vi.setSystemTime(3000);
+    await store.write("new", bytes("n".repeat(100)), meta, limit);
+
+    expect(await store.peek("pinned")).toMatchObject({ p: true });
+    expect(await store.peek("other")).toBeNull();
+
+    await store.write("pinned", bytes("q".repeat(100)), meta, limit);
+    expect(await store.evictToSize(50)).toBe(1);
+    expect(await readText(store, "pinned")).toBe("q".repeat(100));
+    await store.flush();
+    const reloaded = new CachePackStore(DIR);
+    expect(await reloaded.peek("pinned")).toMatchObject({ p: true });
+  });
+
+  it("drops index entries beyond the end of a truncated pack", async () => {
+    const store = new CachePackStore(DIR);
+    await store.write("a", bytes("aaaa"), meta);
+    await store.write("b", bytes("bbbb"), meta);
+    await store.flush();
+    files.set(PACK, files.get(PACK)!.slice(0, 6));
+
+    const reloaded = new CachePackStore(DIR);
+    expect(await readText(reloaded, "a")).toBe("aaaa");
+    expect(await reloaded.peek("b")).toBeNull();
+    expect(await reloaded.getStats()).toMatchObject({
+      entryCount: 1,
+      packBytes: 6,
+    });
+  });
+});
+
+describe("localCache pack backend", () => {
+  it("moves per-entry cache files into the pack", async () => {
+    prefs.set("local_cache_enable", true);
+    prefs.set("local_cache_compression", false);
+    const dir = "/data/zoteroinspire-cache";
+    const legacy = {
+      v: 2,
+      t: "refs",
+      k: "42",
+      ts: Date.now(),
+      ttl: -1,
+      d: [{ title: "A", authors: [] }],
+      c: true,
+    };
+    files.set(`${dir}/refs_42.json`, bytes(JSON.stringify(legacy)));
+    files.set(`${dir}/refs_7.json`, bytes(JSON.stringify({ ...legacy, v: 1 })));
+    files.set(`${dir}/preprintWatch.json`, bytes("{}"));
+
+    await localCache.init();
+    const hit = await localCache.get("refs", "42");
+    expect(hit?.data).toEqual([{ title: "A", authors: [] }]);
+
+    // The background migration ends by saving the pack index
+    await vi.waitFor(() =>
+      expect(files.has(`${dir}/${PACK_INDEX_FILE_NAME}`)).toBe(true),
+    );
+    expect(files.has(`${dir}/refs_7.json`)).toBe(false);
+    expect(files.has(`${dir}/refs_42.json`)).toBe(false);
+    expect(files.has(`${dir}/preprintWatch.json`)).toBe(true);
+    expect(await localCache.get("refs", "7")).toBeNull();
+    expect(files.has(`${dir}/${PACK_FILE_NAME}`)).toBe(true);
+  });
+});
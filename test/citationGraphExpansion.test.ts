@@ -0,0 +1,219 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationGraphExpansion.test.ts - Unit tests for multi-hop node expansion
+// Merging/collapsing runs on hand-made graphs; fetching runs against stubbed
+// one-hop loaders.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const fetchCitationGraphOneHop = vi.fn();
+const getCachedCitationGraphOneHop = vi.fn();
+vi.mock("../src/modules/inspire/citationGraphService", () => ({
+  fetchCitationGraphOneHop: (...args: unknown[]) =>
+    fetchCitationGraphOneHop(...args),
+  getCachedCitationGraphOneHop: (...args: unknown[]) =>
+    getCachedCitationGraphOneHop(...args),
+}));
+vi.mock("../src/modules/inspire/referencesService", () => ({
+  fetchReferencesEntries: vi.fn(),
+}));
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: vi.fn(),
+}));
+
+import {
+  collapseCitationGraphNode,
+  fetchCitationGraphExpansion,
+  getCitationGraphDisplayedRecids,
+  mergeCitationGraphExpansion,
+} from "../src/modules/inspire/citationGraphMultiSeedService";
+import type { CitationGraphOneHopResult } from "../src/modules/inspire/citationGraphService";
+import type {
+  InspireReferenceEntry,
+  MultiSeedGraphResult,
+} from "../src/modules/inspire/types";
+
+function entry(recid: string): InspireReferenceEntry {
+  return { id: recid, recid, title: `Paper ${recid}` } as InspireReferenceEntry;
+}
+
+function oneHop(
+  center: string,
+  references: string[],
+  citedBy: string[],
+  referencesAllRecids = references,
+): CitationGraphOneHopResult {
+  return {
+    center: { recid: center, title: center, inspireUrl: "", isSeed: true },
+    references: references.map(entry),
+    citedBy: citedBy.map(entry),
+    totals: { references: referencesAllRecids.length, citedBy: 40 },
+    shown: { references: references.length, citedBy: citedBy.length },
+    sort: "mostcited",
+    referencesAllRecids,
+  };
+}
+
+// Seed S cites r1, r2; c1 cites S.
+function baseGraph(): MultiSeedGraphResult {
+  return {
+    seeds: [{ recid: "S", title: "S", inspireUrl: "", isSeed: true }],
+    seedEdges: [],
+    references: [entry("r1"), entry("r2")],
+    citedBy: [entry("c1")],
+    totals: { references: 2, citedBy: 1 },
+    shown: { references: 2, citedBy: 1 },
+    sort: "mostcited",
+    bySeed: {
+      S: {
+        references: ["r1", "r2"],
+        citedBy: ["c1"],
+        totals: { references: 2, citedBy: 1 },
+        shown: { references: 2, citedBy: 1 },
+      },
+    },
+  };
+}
+
+beforeEach(() => {
+  fetchCitationGraphOneHop.mockReset();
+  getCachedCitationGraphOneHop.mockReset();
+});
+
+describe("mergeCitationGraphExpansion", () => {
+  it("adds a budgeted second ring and links to nodes already shown", () => {
+    // r1 cites r2 (shown) and x1..x3 (new); S, c1 and y1 cite r1.
+    const graph = mergeCitationGraphExpansion(
+      baseGraph(),
+      "r1",
+      oneHop(
+        "r1",
+        ["x1", "x2", "x3"],
+        ["S", "c1", "y1"],
+        ["x1", "r2", "x2", "x3"],
+      ),
+      { maxPerSide: 2 },
+    );
+    expect(graph.secondRing?.references.map((e) => e.recid)).toEqual([
+      "x1",
+      "x2",
+    ]);
+    expect(graph.secondRing?.citedBy.map((e) => e.recid)).toEqual(["y1"]);
+    // S -> r1 is already a seed edge, so it is not repeated.
+    expect(graph.expansions?.r1).toEqual({
+      references: ["r2", "x1", "x2"],
+      citedBy: ["c1", "y1"],
+      totals: { references: 4, citedBy: 40 },
+    });
+    expect([...getCitationGraphDisplayedRecids(graph)].sort()).toEqual(
+      ["S", "c1", "r1", "r2", "x1", "x2", "y1"].sort(),
+    );
+  });
+
+  it("caps the whole ring and replaces a node's earlier expansion", () => {
+    let graph = mergeCitationGraphExpansion(
+      baseGraph(),
+      "r1",
+      oneHop("r1", ["x1", "x2"], []),
+      { maxRingNodes: 3 },
+    );
+    graph = mergeCitationGraphExpansion(
+      graph,
+      "c1",
+      oneHop("c1", ["x2", "x3", "x4"], []),
+      { maxRingNodes: 3 },
+    );
+    expect(graph.secondRing?.references.map((e) => e.recid)).toEqual([
+      "x1",
+      "x2",
+      "x3",
+    ]);
+    expect(graph.expansions?.c1.references).toEqual(["x2", "x3"]);
+
+    // Re-expanding r1 drops x1, which nothing else links to.
+    graph = mergeCitationGraphExpansion(graph, "r1", oneHop("r1", ["x3"], []), {
+      maxRingNodes: 3,
+    });
+    expect(graph.secondRing?.references.map((e) => e.recid)).toEqual([
+      "x2",
+      "x3",
+    ]);
+    expect(graph.expansions?.r1.references).toEqual(["x3"]);
+  });
+});
+
+describe("multi-hop expansion", () => {
+  it("expands ring nodes one hop further out", () => {
+    let graph = mergeCitationGraphExpansion(
+      baseGraph(),
+      "r1",
+      oneHop("r1", ["x1"], []),
+    );
+    graph = mergeCitationGraphExpansion(
+      graph,
+      "x1",
+      oneHop("x1", ["z1"], ["r1"]),
+    );
+    graph = mergeCitationGraphExpansion(graph, "z1", oneHop("z1", ["w1"], []));
+    expect(graph.ringHops).toEqual({ x1: 2, z1: 3, w1: 4 });
+    expect(graph.expansions?.x1).toMatchObject({
+      references: ["z1"],
+      citedBy: ["r1"],
+    });
+
+    // Refreshing x1 keeps what was expanded from it
+    const refreshed = mergeCitationGraphExpansion(
+      graph,
+      "x1",
+      oneHop("x1", ["z1", "z2"], []),
+    );
+    expect(Object.keys(refreshed.expansions ?? {})).toEqual(["r1", "z1", "x1"]);
+    expect(refreshed.ringHops).toEqual({ x1: 2, z1: 3, w1: 4, z2: 3 });
+
+    // Collapsing x1 drops everything only reachable through it
+    const collapsed = collapseCitationGraphNode(graph, "x1");
+    expect(Object.keys(collapsed.expansions ?? {})).toEqual(["r1"]);
+    expect(collapsed.secondRing?.references.map((e) => e.recid)).toEqual([
+      "x1",
+    ]);
+    expect(collapsed.ringHops).toEqual({ x1: 2 });
+  });
+});
+
+describe("collapseCitationGraphNode", () => {
+  it("keeps second-ring nodes still linked by another expansion", () => {
+    let graph = mergeCitationGraphExpansion(
+      baseGraph(),
+      "r1",
+      oneHop("r1", ["x1", "x2"], []),
+    );
+    graph = mergeCitationGraphExpansion(graph, "r2", oneHop("r2", ["x2"], []));
+    graph = collapseCitationGraphNode(graph, "r1");
+    expect(Object.keys(graph.expansions ?? {})).toEqual(["r2"]);
+    expect(graph.secondRing?.references.map((e) => e.recid)).toEqual(["x2"]);
+
+    expect(collapseCitationGraphNode(graph, "missing")).toBe(graph);
+  });
+});
+
+describe("fetchCitationGraphExpansion", () => {
+  it("scans wider than the budget and can stay on the cache", async () => {
+    getCachedCitationGraphOneHop.mockRejectedValue(new Error("corrupt"));
+    expect(
+      await fetchCitationGraphExpansion("r1", { cachedOnly: true }),
+    ).toBeNull();
+    expect(fetchCitationGraphOneHop).not.toHaveBeenCalled();
+
+    const result = oneHop("r1", [], []);
+    fetchCitationGraphOneHop.mockResolvedValue(result);
+    expect(
+      await fetchCitationGraphExpansion("r1", { sort: "mostrecent" }),
+    ).toBe(result);
+    expect(fetchCitationGraphOneHop).toHaveBeenCalledWith("r1", {
+      requestPriority: "interactive",
+      sort: "mostrecent",
+      maxReferences: 50,
+      maxCitedBy: 50,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationGraphExport.test.ts - Unit tests for the citation graph file formats
+// Each format is built from one hand-made save file and checked for nodes,
+// attributes, edges and escaping.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect } from "vitest";
+import {
+  buildCitationGraphCytoscapeJson,
+  buildCitationGraphDot,
+  buildCitationGraphEdgeCsv,
+  buildCitationGraphExport,
+  buildCitationGraphGexf,
+  buildCitationGraphGraphML,
+} from "../src/modules/inspire/citationGraphExport";
+import type { CitationGraphSaveData } from "../src/modules/inspire/types";
+
+// Seed 1 cites 2 (in the library); 3 cites 1; one dangling edge to "gone".
+const DATA: CitationGraphSaveData = {
+  version: "1",
+  createdAt: "2024-05-06T07:08:09.000Z",
+  seeds: [{ recid: "1", title: "Seed" }],
+  graph: {
+    nodes: [
+      { recid: "1", kind: "seed", title: "Seed", year: "2020" },
+      {
+        recid: "2",
+        kind: "reference",
+        title: 'Quarks & "gluons" <review>',
+        year: "2019-03",
+        citationCount: 42,
+        localItemID: 7,
+        arxivId: "1903.00001",
+        doi: "10.1000/x",
+      },
+      {
+        recid: "3",
+        kind: "citedBy",
+        title: "Citing, paper",
+        year: "unknown",
+        hop: 2,
+      },
+    ],
+    edges: [
+      { source: "1", target: "2", type: "seed-to-reference" },
+      { source: "3", target: "1", type: "cited-by-to-seed" },
+      { source: "1", target: "gone", type: "seed-to-reference" },
+    ],
+  },
+  settings: { sort: "mostcited" },
+};
+
+describe("buildCitationGraphGraphML", () => {
+  it("declares typed keys and escapes titles", () => {
+    const xml = buildCitationGraphGraphML(DATA);
+    expect(xml).toContain(
+      '<key id="year" for="node" attr.name="year" attr.type="int"/>',
+    );
+    expect(xml).toContain('<graph id="citation-graph" edgedefault="directed">');
+    expect(xml).toContain(
+      '<data key="title">Quarks &amp; &quot;gluons&quot; &lt;review&gt;</data>',
+    );
+    expect(xml).toContain('<data key="year">2019</data>');
+    expect(xml).toContain('<data key="in_library">true</data>');
+    expect(xml).toContain('<data key="local_item_id">7</data>');
+    expect(xml).toContain('<data key="hop">2</data>');
+    expect(xml).toContain('<edge id="e0" source="1" target="2">');
+    expect(xml).toContain('<data key="relation">cited-by-to-seed</data>');
+    // Edges to nodes that are not exported are dropped.
+    expect(xml).not.toContain('target="gone"');
+    expect(xml.match(/<node /g)).toHaveLength(3);
+  });
+});
+
+describe("buildCitationGraphGexf", () => {
+  it("writes attribute declarations and values", () => {
+    const xml = buildCitationGraphGexf(DATA);
+    expect(xml).toContain('<meta lastmodifieddate="2024-05-06">');
+    expect(xml).toContain(
+      '<attribute id="4" title="citations" type="integer"/>',
+    );
+    expect(xml).toContain('<node id="3" label="Citing, paper">');
+    expect(xml).toContain('<attvalue for="4" value="42"/>');
+    expect(xml).toContain(
+      '<edge id="0" source="1" target="2" label="seed-to-reference">',
+    );
+    expect(xml.match(/<edge /g)).toHaveLength(2);
+  });
+});
+
+describe("buildCitationGraphDot", () => {
+  it("quotes ids and labels and keeps numbers bare", () => {
+    const dot = buildCitationGraphDot(DATA);
+    expect(dot.startsWith("digraph citation_graph {")).toBe(true);
+    expect(dot).toContain(
+      '"2" [label="Quarks & \\"gluons\\" <review> (2019)", kind="reference", year=2019, citations=42,',
+    );
+    expect(dot).toContain('"1" -> "2" [relation="seed-to-reference"];');
+    expect(dot).toContain("penwidth=2");
+  });
+});
+
+describe("buildCitationGraphCytoscapeJson", () => {
+  it("nests nodes and edges under elements", () => {
+    const json = JSON.parse(buildCitationGraphCytoscapeJson(DATA));
+    expect(json.elements.nodes[1].data).toMatchObject({
+      id: "2",
+      name: 'Quarks & "gluons" <review>',
+      year: 2019,
+      citations: 42,
+      arxiv: "1903.00001",
+      doi: "10.1000/x",
+      in_library: true,
+    });
+    expect(json.elements.nodes[2].data.year).toBeUndefined();
+    expect(json.elements.edges).toEqual([
+      {
+        data: {
+          id: "e0",
+          source: "1",
+          target: "2",
+          relation: "seed-to-reference",
+        },
+      },
+      {
+        data: {
+          id: "e1",
+          source: "3",
+          target: "1",
+          relation: "cited-by-to-seed",
+        },
+      },
+    ]);
+  });
+});
+
+describe("buildCitationGraphEdgeCsv", () => {
+  it("lists one citation per row with endpoint titles", () => {
+    const csv = buildCitationGraphEdgeCsv(DATA).split("\n");
+    expect(csv).toEqual([
+      "source,target,relation,source_title,target_title,source_year,target_year",
+      '1,2,seed-to-reference,Seed,"Quarks & ""gluons"" <review>",2020,2019',
+      '3,1,cited-by-to-seed,"Citing, paper",Seed,,2020',
+    ]);
+    expect(buildCitationGraphExport(DATA, "edges-csv")).toBe(csv.join("\n"));
+  });
+});
@@ -0,0 +1,124 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationGraphLayout.test.ts - Unit tests for the citation graph layouts
+// Community detection, cluster terms, force placement and edge bundling run
+// on small hand-made graphs.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect } from "vitest";
+import {
+  bundleEdges,
+  computeForceLayout,
+  computeModularity,
+  detectCitationCommunities,
+  extractClusterTerms,
+} from "../src/modules/inspire/citationGraphLayout";
+
+// Two citation triangles joined by a single bridge c -> d.
+const NODES = ["a", "b", "c", "d", "e", "f"];
+const EDGES = [
+  { source: "a", target: "b" },
+  { source: "b", target: "c" },
+  { source: "c", target: "a" },
+  { source: "d", target: "e" },
+  { source: "e", target: "f" },
+  { source: "f", target: "d" },
+  { source: "c", target: "d" },
+];
+
+describe("detectCitationCommunities", () => {
+  it("splits two triangles joined by a bridge", () => {
+    const { clusters, clusterOf, modularity } = detectCitationCommunities(
+      NODES,
+      EDGES,
+    );
+    expect(clusters.map((c) => [...c].sort())).toEqual([
+      ["a", "b", "c"],
+      ["d", "e", "f"],
+    ]);
+    expect(clusterOf.get("a")).toBe(clusterOf.get("c"));
+    expect(clusterOf.get("c")).not.toBe(clusterOf.get("d"));
+    // Q = 2 * (3/7 - (7/14)^2) = 5/14
+    expect(modularity).toBeCloseTo(5 / 14, 6);
+  });
+
+  it("keeps nodes without edges as singletons", () => {
+    const { clusters } = detectCitationCommunities(["x", ...NODES], EDGES);
+    expect(clusters).toHaveLength(3);
+    expect(clusters[2]).toEqual(["x"]);
+  });
+});
+
+describe("computeModularity", () => {
+  it("is zero for a single cluster and for no edges", () => {
+    const one = new Map(NODES.map((id) => [id, 0] as const));
+    expect(computeModularity(one, EDGES)).toBeCloseTo(0, 6);
+    expect(computeModularity(one, [])).toBe(0);
+  });
+});
+
+describe("extractClusterTerms", () => {
+  it("counts each title once and skips stop-words and math", () => {
+    expect(
+      extractClusterTerms([
+        "Lattice QCD study of the $X(3872)$ state",
+        "Lattice QCD and the X(3872): a new study",
+        "Hadronic molecules on the lattice",
+      ]),
+    ).toEqual(["lattice", "qcd", "hadronic"]);
+    expect(extractClusterTerms([], 3)).toEqual([]);
+  });
+});
+
+describe("computeForceLayout", () => {
+  it("stays inside the padded box and is deterministic", () => {
+    const nodes = NODES.map((id) => ({ id }));
+    const options = { width: 400, height: 300, padding: 20 };
+    const first = computeForceLayout(nodes, EDGES, options);
+    const second = computeForceLayout(nodes, EDGES, options);
+    expect(second).toEqual(first);
+    for (const { x, y } of first.values()) {
+      expect(x).toBeGreaterThanOrEqual(20);
+      expect(x).toBeLessThanOrEqual(380);
+      expect(y).toBeGreaterThanOrEqual(20);
+      expect(y).toBeLessThanOrEqual(280);
+    }
+  });
+
+  it("pulls anchored nodes towards their anchor", () => {
+    const anchors = new Map(
+      ["a", "b", "c"].map((id) => [id, { x: 60, y: 150 }] as const),
+    );
+    const positions = computeForceLayout(
+      NODES.map((id) => ({ id, x: 200, y: 150 })),
+      EDGES,
+      { width: 400, height: 300, anchors, anchorStrength: 0.3 },
+    );
+    expect(positions.get("a")!.x).toBeLessThan(positions.get("f")!.x);
+  });
+});
+
+describe("bundleEdges", () => {
+  it("keeps endpoints and leaves a lone edge straight", () => {
+    const lone = bundleEdges([
+      { source: { x: 0, y: 0 }, target: { x: 100, y: 0 } },
+    ]);
+    expect(lone).toEqual([
+      [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ],
+    ]);
+
+    const segments = [
+      { source: { x: 0, y: 0 }, target: { x: 200, y: 0 } },
+      { source: { x: 0, y: 10 }, target: { x: 200, y: 10 } },
+    ];
+    const [upper, lower] = bundleEdges(segments);
+    expect(upper[0]).toEqual({ x: 0, y: 0 });
+    expect(upper[upper.length - 1]).toEqual({ x: 200, y: 0 });
+    expect(upper.length).toBeGreaterThan(2);
+    // Parallel edges are drawn together in the middle.
+    const mid = Math.floor(upper.length / 2);
+    expect(lower[mid].y - upper[mid].y).toBeLessThan(10);
+  });
+});
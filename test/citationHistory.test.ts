@@ -0,0 +1,158 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationHistory.test.ts - Unit tests for citation count history
+// Series bookkeeping, gained-in-window math and sparkline geometry are pure;
+// recording runs against an in-memory IOUtils with a mocked cache dir.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../src/modules/inspire/localCache", () => ({
+  localCache: { getCacheDir: async () => "/cache" },
+}));
+
+import {
+  type CitationSample,
+  appendCitationSample,
+  buildSparklinePoints,
+  flushCitationHistory,
+  getCitationHistory,
+  getCitationHistoryKey,
+  getCitationsGained,
+  peekCitationHistory,
+  recordCitationSample,
+  resetCitationHistoryForTests,
+} from "../src/modules/inspire/citationHistory";
+import { stubMemoryJSONFiles, stubZotero } from "./helpers/memoryFileSystem";
+
+function sample(
+  date: string,
+  total: number,
+  withoutSelf: number | null = null,
+): CitationSample {
+  return { date, total, withoutSelf, source: "INSPIRE" };
+}
+
+const files = new Map<string, unknown>();
+
+beforeEach(() => {
+  files.clear();
+  resetCitationHistoryForTests();
+  stubMemoryJSONFiles(files);
+  stubZotero();
+});
+
+afterEach(() => {
+  resetCitationHistoryForTests();
+  vi.unstubAllGlobals();
+});
+
+describe("getCitationHistoryKey", () => {
+  it("prefers the recid and falls back to a lower-cased DOI", () => {
+    expect(getCitationHistoryKey("12345", "10.1/X")).toBe("12345");
+    expect(getCitationHistoryKey(undefined, " 10.1103/PhysRevD.1 ")).toBe(
+      "doi:10.1103/physrevd.1",
+    );
+    expect(getCitationHistoryKey(null, "")).toBeNull();
+  });
+});
+
+describe("appendCitationSample", () => {
+  it("replaces a sample from the same day", () => {
+    const series = appendCitationSample(
+      [sample("2026-01-01", 10), sample("2026-01-02", 11)],
+      sample("2026-01-02", 12),
+    );
+    expect(series.map((s) => s.total)).toEqual([10, 12]);
+  });
+
+  it("drops the oldest samples beyond the cap", () => {
+    let series: CitationSample[] = [];
+    const start = new Date(2020, 0, 1);
+    for (let i = 0; i < 405; i++) {
+      const d = new Date(start.getTime() + i * 86400000);
+      series = appendCitationSample(
+        series,
+        sample(d.toISOString().slice(0, 10), i),
+      );
+    }
+    expect(series).toHaveLength(400);
+    expect(series[0].total).toBe(5);
+  });
+});
+
+describe("getCitationsGained", () => {
+  const now = new Date(2026, 2, 31, 12);
+
+  it("uses the newest sample before the window as baseline", () => {
+    const series = [
+      sample("2026-01-01", 100),
+      sample("2026-02-20", 110),
+      sample("2026-03-10", 118),
+      sample("2026-03-30", 125),
+    ];
+    expect(getCitationsGained(series, 30, false, now)).toBe(15);
+    expect(getCitationsGained(series, 365, false, now)).toBe(25);
+  });
+
+  it("falls back to the first sample when tracking started in the window", () => {
+    const series = [sample("2026-03-20", 40), sample("2026-03-30", 43)];
+    expect(getCitationsGained(series, 30, false, now)).toBe(3);
+  });
+
+  it("uses counts without self-citations when requested", () => {
+    const series = [sample("2026-03-01", 50, 40), sample("2026-03-30", 60, 45)];
+    expect(getCitationsGained(series, 60, true, now)).toBe(5);
+  });
+
+  it("returns null without a second data point", () => {
+    expect(getCitationsGained([sample("2026-03-30", 1)], 30, false, now)).toBe(
+      null,
+    );
+    expect(
+      getCitationsGained(
+        [sample("2025-01-01", 1), sample("2025-02-01", 2)],
+        30,
+        false,
+        now,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("buildSparklinePoints", () => {
+  it("scales values into the box with y growing downward", () => {
+    expect(buildSparklinePoints([0, 5, 10], 22, 12, 1)).toBe(
+      "1.0,11.0 11.0,6.0 21.0,1.0",
+    );
+  });
+
+  it("draws flat series along the middle", () => {
+    expect(buildSparklinePoints([3, 3], 10, 8, 1)).toBe("1.0,4.0 9.0,4.0");
+    expect(buildSparklinePoints([], 10, 8)).toBe("");
+  });
+});
+
+describe("recordCitationSample", () => {
+  it("keeps samples in memory and persists them on flush", async () => {
+    expect(peekCitationHistory("42")).toBeNull();
+    await recordCitationSample("42", 7, 6, "INSPIRE", new Date(2026, 0, 1));
+    await recordCitationSample("42", 9, 8, "INSPIRE", new Date(2026, 0, 5));
+    expect((await getCitationHistory("42")).map((s) => s.total)).toEqual([
+      7, 9,
+    ]);
+    expect(peekCitationHistory("42")).toHaveLength(2);
+
+    await flushCitationHistory();
+    const saved = files.get("/cache/history/citations.json") as any;
+    expect(saved.records["42"]).toHaveLength(2);
+    expect(saved.records["42"][1]).toMatchObject({
+      date: "2026-01-05",
+      withoutSelf: 8,
+    });
+  });
+
+  it("ignores invalid counts", async () => {
+    await recordCitationSample("42", Number.NaN, null, "CrossRef");
+    expect(await getCitationHistory("42")).toEqual([]);
+  });
+});
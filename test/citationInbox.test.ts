@@ -0,0 +1,288 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationInbox.test.ts - Unit tests for the new-citations inbox
+// Tracked papers come from stubbed Zotero items, collections and an author
+// search; cited-by lists come from a stubbed search pipeline and are diffed
+// against the previous check. The inbox lives in an in-memory IOUtils.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { stubMemoryJSONFiles, stubZotero } from "./helpers/memoryFileSystem";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+const inspireFetch = vi.fn();
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: (...args: unknown[]) => inspireFetch(...args),
+}));
+
+const cache = new Map<string, unknown>();
+vi.mock("../src/modules/inspire/localCache", () => ({
+  localCache: {
+    get: async (type: string, key: string, sort?: string) => {
+      const name = [type, key, sort].filter(Boolean).join("/");
+      return cache.has(name)
+        ? { data: cache.get(name), fromCache: true }
+        : null;
+    },
+    set: async (type: string, key: string, data: unknown, sort?: string) => {
+      cache.set([type, key, sort].filter(Boolean).join("/"), data);
+    },
+  },
+}));
+
+/** Citing recids of every cited recid, newest first */
+let citing: Record<string, string[]>;
+const fetchInspireSearch = vi.fn(async ({ query }: { query: string }) => {
+  const recid = query.replace("refersto:recid:", "");
+  return (citing[recid] ?? []).map((r) => ({
+    id: r,
+    recid: r,
+    title: `Paper ${r}`,
+    authorText: "A. Author",
+    year: "2026",
+  }));
+});
+vi.mock("../src/modules/inspire/panel/SearchService", () => ({
+  fetchInspireSearch: (options: { query: string }) =>
+    fetchInspireSearch(options),
+}));
+
+type InboxModule = typeof import("../src/modules/inspire/citationInboxService");
+let inbox: InboxModule;
+
+function makeItem(key: string, recid: string) {
+  return {
+    id: Number(recid),
+    key,
+    libraryID: 1,
+    deleted: false,
+    isRegularItem: () => true,
+    getField: (field: string) =>
+      field === "archiveLocation"
+        ? recid
+        : field === "title"
+          ? `Mine ${recid}`
+          : "",
+  };
+}
+
+const items = [makeItem("AAAA", "100"), makeItem("BBBB", "200")];
+const files = new Map<string, unknown>();
+
+beforeEach(async () => {
+  prefs.clear();
+  cache.clear();
+  files.clear();
+  citing = {};
+  inspireFetch.mockReset();
+  fetchInspireSearch.mockClear();
+  stubMemoryJSONFiles(files);
+  stubZotero({
+    Items: {
+      getByLibraryAndKey: (_libraryID: number, key: string) =>
+        items.find((item) => item.key === key) ?? false,
+      get: (ids: number[]) =>
+        ids.map((id) => items.find((item) => item.id === id)),
+    },
+    Collections: {
+      getByLibraryAndKey: (_libraryID: number, key: string) =>
+        key === "COLL" ? { deleted: false, getChildItems: () => [200] } : false,
+    },
+  });
+  // Fresh module state (the inbox is loaded once per session)
+  vi.resetModules();
+  inbox = await import("../src/modules/inspire/citationInboxService");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("tracked papers", () => {
+  it("collects items, collection items and the author's papers", async () => {
+    inbox.setItemsInCitationInbox([items[0]] as any, true);
+    inbox.setCollectionInCitationInbox(
+      { libraryID: 1, key: "COLL" } as any,
+      true,
+    );
+    prefs.set("citation_inbox_author", "E.Witten.1");
+    inspireFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        hits: {
+          hits: [
+            { metadata: { control_number: 300, titles: [{ title: "T" }] } },
+            { metadata: { control_number: 100 } },
+          ],
+        },
+      }),
+    });
+
+    const { papers, complete } = await inbox.collectTrackedPapers();
+    expect(papers).toEqual([
+      { recid: "100", title: "Mine 100", itemID: 100 },
+      { recid: "200", title: "Mine 200", itemID: 200 },
+      { recid: "300", title: "T" },
+    ]);
+    expect(complete).toBe(true);
+    expect(decodeURIComponent(inspireFetch.mock.calls[0][0])).toContain(
+      "q=a E.Witten.1&",
+    );
+
+    expect(inbox.isItemInCitationInbox(items[0] as any)).toBe(true);
+    inbox.setItemsInCitationInbox([items[0]] as any, false);
+    expect(inbox.getCitationInboxItemRefs()).toEqual([]);
+  });
+
+  it("reads the author profile as recid or BAI", () => {
+    prefs.set("citation_inbox_author", " 983328 ");
+    expect(inbox.getCitationInboxAuthor()).toEqual({
+      fullName: "983328",
+      recid: "983328",
+    });
+    prefs.set("citation_inbox_author", "");
+    expect(inbox.getCitationInboxAuthor()).toBeNull();
+  });
+});
+
+describe("runCitationInboxCheck", () => {
+  const HOUR = 60 * 60 * 1000;
+
+  it("reports citing papers not seen by the previous check", async () => {
+    inbox.setItemsInCitationInbox(items as any, true);
+    citing = { "100": ["1"], "200": ["5"] };
+    const listener = vi.fn();
+    inbox.onCitationInboxChange(listener);
+
+    // The first check only records what it sees
+    const first = await inbox.runCitationInboxCheck({ now: 1000 * HOUR });
+    expect(first).toEqual({ checked: 2, added: [] });
+    expect(listener).not.toHaveBeenCalled();
+    // The fresh lists also become the panel's cited-by cache
+    expect(cache.get("cited/200")).toHaveLength(1);
+
+    citing = { "100": ["2", "1"], "200": ["5"] };
+    const summary = await inbox.runCitationInboxCheck({ now: 1030 * HOUR });
+    expect(summary.added).toEqual([
+      {
+        recid: "2",
+        title: "Paper 2",
+        authors: "A. Author",
+        year: "2026",
+        citedRecid: "100",
+        citedTitle: "Mine 100",
+        foundAt: 1030 * HOUR,
+        read: false,
+      },
+    ]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Not due again until the interval has passed
+    await inbox.runCitationInboxCheck({ now: 1031 * HOUR });
+    expect(fetchInspireSearch).toHaveBeenCalledTimes(4);
+
+    citing = { "100": ["3", "2", "1"], "200": ["6", "5"] };
+    await inbox.runCitationInboxCheck({ now: 1060 * HOUR });
+    const groups = inbox.groupCitationInboxItems(
+      await inbox.getCitationInboxItems(),
+    );
+    expect(
+      groups.map((g) => [g.citedRecid, g.items.map((i) => i.recid)]),
+    ).toEqual([
+      ["100", ["3", "2"]],
+      ["200", ["6"]],
+    ]);
+    expect(files.get("/data/zoteroinspire-citation-inbox.json")).toMatchObject({
+      version: 1,
+      checked: { "100": 1060 * HOUR, "200": 1060 * HOUR },
+      seen: { "100": ["3", "2", "1"], "200": ["6", "5"] },
+    });
+  });
+
+  it("keeps its baseline when the cited-by cache is purged or refreshed", async () => {
+    inbox.setItemsInCitationInbox([items[0]] as any, true);
+    citing = { "100": ["1"] };
+    await inbox.runCitationInboxCheck({ now: 1000 * HOUR });
+
+    // Expired cache entries are purged at startup...
+    cache.delete("cited/100");
+    citing = { "100": ["2", "1"] };
+    let summary = await inbox.runCitationInboxCheck({ now: 1030 * HOUR });
+    expect(summary.added.map((item) => item.recid)).toEqual(["2"]);
+
+    // ...and opening the Cited-by tab rewrites them
+    citing = { "100": ["3", "2", "1"] };
+    cache.set(
+      "cited/100",
+      citing["100"].map((recid) => ({ recid })),
+    );
+    summary = await inbox.runCitationInboxCheck({ now: 1060 * HOUR });
+    expect(summary.added.map((item) => item.recid)).toEqual(["3"]);
+  });
+
+  it("marks items as read", async () => {
+    inbox.setItemsInCitationInbox(items as any, true);
+    citing = {};
+    await inbox.runCitationInboxCheck();
+    citing = { "100": ["1", "2"], "200": ["1"] };
+    await inbox.runCitationInboxCheck({ force: true });
+    expect(await inbox.getUnreadCitationInboxCount()).toBe(3);
+
+    await inbox.markCitationInboxRead([{ recid: "1", citedRecid: "200" }]);
+    expect(await inbox.getUnreadCitationInboxCount()).toBe(2);
+    await inbox.markCitationInboxRead();
+    expect(await inbox.getUnreadCitationInboxCount()).toBe(0);
+  });
+
+  it("keeps the author's papers when their list fails to load", async () => {
+    prefs.set("citation_inbox_author", "E.Witten.1");
+    const authorPapers = {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        hits: { hits: [{ metadata: { control_number: 300 } }] },
+      }),
+    };
+    inspireFetch.mockResolvedValue(authorPapers);
+    citing = { "300": ["1"] };
+    await inbox.runCitationInboxCheck({ now: 1000 * HOUR });
+
+    inspireFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    const failed = await inbox.collectTrackedPapers();
+    expect(failed).toEqual({ papers: [], complete: false });
+    inspireFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    citing = { "300": ["2", "1"] };
+    inbox.setItemsInCitationInbox([items[0]] as any, true);
+    await inbox.runCitationInboxCheck({ now: 1030 * HOUR });
+
+    // Paper 2 arrived while the list was missing: still not a first check
+    const summary = await inbox.runCitationInboxCheck({ now: 1060 * HOUR });
+    expect(summary.added.map((item) => [item.citedRecid, item.recid])).toEqual([
+      ["300", "2"],
+    ]);
+  });
+
+  it("does nothing when disabled or offline, and survives failed checks", async () => {
+    inbox.setItemsInCitationInbox(items as any, true);
+    prefs.set("citation_inbox_enabled", false);
+    await inbox.runCitationInboxCheck();
+    prefs.set("citation_inbox_enabled", true);
+    prefs.set("offline_mode", true);
+    await inbox.runCitationInboxCheck();
+    expect(fetchInspireSearch).not.toHaveBeenCalled();
+
+    prefs.set("offline_mode", false);
+    citing = {};
+    await inbox.runCitationInboxCheck();
+    citing = { "200": ["9"] };
+    fetchInspireSearch.mockRejectedValueOnce(new Error("HTTP 503"));
+    const summary = await inbox.runCitationInboxCheck({ force: true });
+    expect(summary.checked).toBe(1);
+    expect(summary.added.map((item) => item.citedRecid)).toEqual(["200"]);
+  });
+});
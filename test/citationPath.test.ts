@@ -0,0 +1,142 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationPath.test.ts - Unit tests for the citation path search
+// Runs the bidirectional search over a small hand-made citation network served
+// by a stubbed cache, reference fetcher and cited-by fetcher.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const cacheGet = vi.fn();
+const cacheSet = vi.fn();
+vi.mock("../src/modules/inspire/localCache", () => ({
+  localCache: {
+    get: (...args: unknown[]) => cacheGet(...args),
+    set: (...args: unknown[]) => cacheSet(...args),
+  },
+}));
+
+const fetchReferencesEntries = vi.fn();
+vi.mock("../src/modules/inspire/referencesService", () => ({
+  fetchReferencesEntries: (...args: unknown[]) =>
+    fetchReferencesEntries(...args),
+}));
+
+const fetchCitedByEntriesLimited = vi.fn();
+vi.mock("../src/modules/inspire/citationGraphService", () => ({
+  fetchCitedByEntriesLimited: (...args: unknown[]) =>
+    fetchCitedByEntriesLimited(...args),
+}));
+
+import { findCitationPaths } from "../src/modules/inspire/citationPathService";
+
+// "a cites b": A → B, A → C, B → D, C → D, D → E, F → E.
+const CITES: Array<[string, string]> = [
+  ["A", "B"],
+  ["A", "C"],
+  ["B", "D"],
+  ["C", "D"],
+  ["D", "E"],
+  ["F", "E"],
+];
+
+const entry = (recid: string) => ({ recid, title: `Paper ${recid}` });
+const referencesOf = (recid: string) =>
+  CITES.filter(([from]) => from === recid).map(([, to]) => entry(to));
+const citingPapersOf = (recid: string) =>
+  CITES.filter(([, to]) => to === recid).map(([from]) => entry(from));
+
+beforeEach(() => {
+  cacheGet.mockReset();
+  cacheSet.mockReset();
+  fetchReferencesEntries.mockReset();
+  fetchCitedByEntriesLimited.mockReset();
+  cacheGet.mockResolvedValue(null);
+  fetchReferencesEntries.mockImplementation(async (recid: string) =>
+    referencesOf(recid),
+  );
+  fetchCitedByEntriesLimited.mockImplementation(async (recid: string) => ({
+    entries: citingPapersOf(recid),
+    total: citingPapersOf(recid).length,
+    ok: true,
+  }));
+});
+
+describe("findCitationPaths", () => {
+  it("returns every shortest path with the citation direction of each step", async () => {
+    const result = await findCitationPaths("A", "E");
+    expect(result.paths).toEqual([
+      { recids: ["A", "B", "D", "E"], steps: ["cites", "cites", "cites"] },
+      { recids: ["A", "C", "D", "E"], steps: ["cites", "cites", "cites"] },
+    ]);
+    expect(result.limitReached).toBe(false);
+    // The end paper is a search root, never a neighbour.
+    expect([...result.entries.keys()].sort()).toEqual(["A", "B", "C", "D"]);
+    expect(result.explored).toBe(4);
+  });
+
+  it("follows citations against their direction", async () => {
+    const result = await findCitationPaths("E", "B");
+    expect(result.paths).toEqual([
+      { recids: ["E", "D", "B"], steps: ["citedBy", "citedBy"] },
+    ]);
+    const viaCommonReference = await findCitationPaths("A", "F");
+    expect(viaCommonReference.paths.map((p) => p.steps)).toEqual([
+      ["cites", "cites", "cites", "citedBy"],
+      ["cites", "cites", "cites", "citedBy"],
+    ]);
+  });
+
+  it("reads cached references and cited-by lists before fetching", async () => {
+    cacheGet.mockImplementation(
+      async (type: string, recid: string, sort?: string) => {
+        if (type === "refs" && recid === "A") {
+          return { data: referencesOf("A") };
+        }
+        if (type === "cited" && recid === "E" && sort === "mostrecent") {
+          return { data: citingPapersOf("E") };
+        }
+        return null;
+      },
+    );
+    const result = await findCitationPaths("A", "E");
+    expect(result.paths).toHaveLength(2);
+    const fetchedRefs = fetchReferencesEntries.mock.calls.map(([r]) => r);
+    const fetchedCited = fetchCitedByEntriesLimited.mock.calls.map(([r]) => r);
+    expect(fetchedRefs).not.toContain("A");
+    expect(fetchedCited).not.toContain("E");
+    expect(fetchedRefs.length).toBeGreaterThan(0);
+    // Fetched lists are not enriched, so they never reach the cache
+    expect(cacheSet).not.toHaveBeenCalled();
+  });
+
+  it("stops at the depth and expansion limits", async () => {
+    const shallow = await findCitationPaths("A", "F", { maxDepth: 3 });
+    expect(shallow).toMatchObject({ paths: [], limitReached: true });
+
+    const progress: number[] = [];
+    const budget = await findCitationPaths("A", "F", {
+      maxExpansions: 2,
+      onProgress: (explored) => progress.push(explored),
+    });
+    expect(budget).toMatchObject({
+      paths: [],
+      explored: 2,
+      limitReached: true,
+    });
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it("ends without a limit when a side runs out of papers", async () => {
+    const result = await findCitationPaths("A", "Z");
+    expect(result).toMatchObject({ paths: [], limitReached: false });
+    expect(result.explored).toBe(2);
+  });
+
+  it("rejects with an AbortError when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      findCitationPaths("A", "E", { signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
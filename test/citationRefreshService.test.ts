@@ -0,0 +1,202 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// citationRefreshService.test.ts - Unit tests for the scheduled citation refresh
+// Batching, scheduling and resume-after-interruption run against fake items,
+// a stubbed INSPIRE search and an in-memory IOUtils.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+const inspireFetch = vi.fn();
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: (...args: unknown[]) => inspireFetch(...args),
+}));
+
+const emitPendingCitationsEvent = vi.fn();
+vi.mock("../src/modules/inspire/itemUpdater", () => ({
+  emitPendingCitationsEvent: (...args: unknown[]) =>
+    emitPendingCitationsEvent(...args),
+  applyInspireCitationCounts: (
+    item: { extra: string },
+    citations: number,
+    woSelf: number,
+  ) => {
+    const next = `${citations}/${woSelf}`;
+    if (item.extra === next) return false;
+    item.extra = next;
+    return true;
+  },
+}));
+
+import {
+  CITATION_REFRESH_BATCH_SIZE,
+  fetchCitationCountsBatch,
+  loadCitationRefreshRun,
+  runCitationRefresh,
+  shouldRunCitationRefresh,
+} from "../src/modules/inspire/citationRefreshService";
+import { stubMemoryJSONFiles, stubZotero } from "./helpers/memoryFileSystem";
+
+function makeItem(id: number, recid: string | null) {
+  return {
+    id,
+    deleted: false,
+    extra: "",
+    isRegularItem: () => true,
+    getField: (field: string) =>
+      field === "archiveLocation" ? (recid ?? "") : "",
+    saveTx: vi.fn(async () => id),
+  };
+}
+
+/** INSPIRE search stub: every recid has citation_count = recid * 2. */
+function searchResponse(url: string) {
+  const query = decodeURIComponent(url.split("q=")[1].split("&")[0]);
+  const recids = [...query.matchAll(/recid:(\d+)/g)].map((m) => m[1]);
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({
+      hits: {
+        total: recids.length,
+        hits: recids.map((r) => ({
+          id: r,
+          metadata: {
+            control_number: Number(r),
+            citation_count: Number(r) * 2,
+            citation_count_without_self_citations: Number(r),
+          },
+        })),
+      },
+    }),
+  };
+}
+
+const files = new Map<string, unknown>();
+let items: ReturnType<typeof makeItem>[];
+
+beforeEach(() => {
+  files.clear();
+  prefs.clear();
+  inspireFetch.mockReset();
+  emitPendingCitationsEvent.mockReset();
+  inspireFetch.mockImplementation(async (url: string) => searchResponse(url));
+  items = [];
+  stubMemoryJSONFiles(files);
+  stubZotero({
+    Libraries: { userLibraryID: 1 },
+    Search: class {
+      addCondition() {}
+      async search() {
+        return items.map((item) => item.id);
+      }
+    },
+    Items: {
+      getAsync: async (ids: number[]) =>
+        ids.map((id) => items.find((item) => item.id === id)),
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchCitationCountsBatch", () => {
+  it("fetches all recids with one search request", async () => {
+    const counts = await fetchCitationCountsBatch(["10", "20"]);
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+    const url = inspireFetch.mock.calls[0][0] as string;
+    expect(decodeURIComponent(url)).toContain("recid:10 OR recid:20");
+    expect(url).toContain("size=2");
+    expect(counts.get("20")).toEqual({ citations: 40, citationsWoSelf: 20 });
+  });
+
+  it("throws on HTTP errors", async () => {
+    inspireFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    await expect(fetchCitationCountsBatch(["10"])).rejects.toThrow("503");
+  });
+});
+
+describe("shouldRunCitationRefresh", () => {
+  it("respects the enable switch and interval", async () => {
+    const now = Date.now();
+    expect(await shouldRunCitationRefresh(now)).toBe(false);
+    prefs.set("citation_refresh_enabled", true);
+    prefs.set("citation_refresh_interval_days", 7);
+    prefs.set("citation_refresh_last_run", now - 2 * 86400000);
+    expect(await shouldRunCitationRefresh(now)).toBe(false);
+    prefs.set("citation_refresh_last_run", now - 8 * 86400000);
+    expect(await shouldRunCitationRefresh(now)).toBe(true);
+  });
+});
+
+describe("runCitationRefresh", () => {
+  it("updates items in recid batches and records completion", async () => {
+    for (let i = 1; i <= CITATION_REFRESH_BATCH_SIZE + 5; i++) {
+      items.push(makeItem(i, String(i)));
+    }
+    items.push(makeItem(500, null));
+    // Duplicate record: both items get the counts
+    items.push(makeItem(501, "3"));
+
+    const summary = await runCitationRefresh();
+    expect(summary).toMatchObject({ completed: true, resumed: false });
+    expect(summary.checked).toBe(CITATION_REFRESH_BATCH_SIZE + 6);
+    expect(inspireFetch).toHaveBeenCalledTimes(2);
+    expect(items[2].extra).toBe("6/3");
+    expect(items[items.length - 1].extra).toBe("6/3");
+    // citations_changed goes out once the item is saved
+    const emitted = emitPendingCitationsEvent.mock.calls.findIndex(
+      ([item]) => item === items[2],
+    );
+    expect(
+      emitPendingCitationsEvent.mock.invocationCallOrder[emitted],
+    ).toBeGreaterThan(items[2].saveTx.mock.invocationCallOrder[0]);
+    expect(await loadCitationRefreshRun()).toBeNull();
+    expect(prefs.get("citation_refresh_last_run")).toBeGreaterThan(0);
+  });
+
+  it("resumes after a failed batch without redoing finished ones", async () => {
+    for (let i = 1; i <= CITATION_REFRESH_BATCH_SIZE * 2; i++) {
+      items.push(makeItem(i, String(i)));
+    }
+    inspireFetch
+      .mockImplementationOnce(async (url: string) => searchResponse(url))
+      .mockRejectedValueOnce(new Error("offline"));
+
+    const first = await runCitationRefresh();
+    expect(first.completed).toBe(false);
+    const pending = await loadCitationRefreshRun();
+    expect(pending?.cursorItemID).toBe(CITATION_REFRESH_BATCH_SIZE);
+    expect(prefs.get("citation_refresh_last_run")).toBeUndefined();
+
+    inspireFetch.mockClear();
+    const second = await runCitationRefresh();
+    expect(second).toMatchObject({ completed: true, resumed: true });
+    expect(second.checked).toBe(CITATION_REFRESH_BATCH_SIZE * 2);
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+    expect(items.every((item) => item.extra !== "")).toBe(true);
+  });
+
+  it("restarts when the scope changed", async () => {
+    items.push(makeItem(1, "1"));
+    files.set("/data/zoteroinspire-citation-refresh.json", {
+      version: 1,
+      run: {
+        startedAt: 0,
+        scope: "1/OLDCOLL",
+        cursorItemID: 99,
+        checked: 3,
+        updated: 0,
+      },
+    });
+    const summary = await runCitationRefresh();
+    expect(summary).toMatchObject({ resumed: false, checked: 1 });
+  });
+});
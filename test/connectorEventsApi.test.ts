@@ -0,0 +1,196 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// connectorEventsApi.test.ts - Unit tests for the long-poll event endpoint
+// The in-memory event buffer, cursors, type filters and held polls are
+// exercised directly; no connector server is involved.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const EVENTS_TOKEN = { id: "t1", name: "dashboard", scopes: ["events"] };
+const QUERY_TOKEN = { id: "t2", name: "reader", scopes: ["query"] };
+vi.mock("../src/utils/externalToken", () => ({
+  authenticateExternalToken: (headers: Record<string, string | undefined>) =>
+    headers?.["x-zinspire-token"] === "EVENTS"
+      ? EVENTS_TOKEN
+      : headers?.["x-zinspire-token"] === "QUERY"
+        ? QUERY_TOKEN
+        : null,
+  tokenHasScope: (token: any, scope: string) => token.scopes.includes(scope),
+}));
+
+import {
+  handleEventsPoll,
+  registerZInspireEventsEndpoint,
+  unregisterZInspireEventsEndpoint,
+} from "../src/modules/connectorEventsApi";
+import {
+  LIBRARY_EVENT_STREAM_ID,
+  emitLibraryEvent,
+  getLibraryEventWaiterCount,
+  getLibraryEventsSince,
+  resetLibraryEvents,
+} from "../src/modules/inspire/libraryEvents";
+
+const ITEM = { libraryID: 1, key: "ABCD1234" };
+
+function parse(result: [number, string, string]) {
+  const [status, contentType, body] = result;
+  expect(contentType).toBe("application/json");
+  return { status, body: JSON.parse(body) };
+}
+
+beforeEach(() => {
+  resetLibraryEvents();
+  vi.stubGlobal("Zotero", { debug: vi.fn(), Server: { Endpoints: {} } });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("library event buffer", () => {
+  it("returns events after the cursor, filtered by type", () => {
+    emitLibraryEvent("citations_changed", ITEM, { citations: 5 });
+    emitLibraryEvent("recid_assigned", ITEM, { recid: "42" });
+    emitLibraryEvent("citations_changed", ITEM, { citations: 6 });
+
+    const page = getLibraryEventsSince(1, ["citations_changed"]);
+    expect(page.events.map((e) => e.id)).toEqual([3]);
+    expect(page.cursor).toBe(3);
+    expect(page.missed).toBe(false);
+    expect(page.events[0]).toMatchObject({
+      type: "citations_changed",
+      library_id: 1,
+      item_key: "ABCD1234",
+      data: { citations: 6 },
+    });
+  });
+
+  it("advances the cursor only up to the page limit", () => {
+    for (let i = 0; i < 5; i++) {
+      emitLibraryEvent("citations_changed", ITEM);
+    }
+    const page = getLibraryEventsSince(0, undefined, 2);
+    expect(page.events.map((e) => e.id)).toEqual([1, 2]);
+    expect(page.cursor).toBe(2);
+  });
+
+  it("flags subscribers that fell behind the buffer", () => {
+    for (let i = 0; i < 1005; i++) {
+      emitLibraryEvent("citations_changed", ITEM);
+    }
+    expect(getLibraryEventsSince(0).missed).toBe(true);
+    expect(getLibraryEventsSince(10).missed).toBe(false);
+  });
+});
+
+describe("handleEventsPoll", () => {
+  it("returns the current cursor without since", async () => {
+    emitLibraryEvent("recid_assigned", ITEM);
+    const { status, body } = parse(await handleEventsPoll({}));
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      ok: true,
+      stream_id: LIBRARY_EVENT_STREAM_ID,
+      cursor: 1,
+      events: [],
+    });
+  });
+
+  it("returns buffered events immediately", async () => {
+    emitLibraryEvent("preprint_published", ITEM, { arxiv_id: "2401.00001" });
+    const { body } = parse(await handleEventsPoll({ since: 0 }));
+    expect(body.events).toHaveLength(1);
+    expect(body.events[0].type).toBe("preprint_published");
+    expect(body.cursor).toBe(1);
+  });
+
+  it("holds the request until an event arrives", async () => {
+    const pending = handleEventsPoll({ since: 0, timeout_ms: 5000 });
+    expect(getLibraryEventWaiterCount()).toBe(1);
+    emitLibraryEvent("citations_changed", ITEM, { citations: 7 });
+    const { body } = parse(await pending);
+    expect(body.events.map((e: any) => e.data.citations)).toEqual([7]);
+    expect(getLibraryEventWaiterCount()).toBe(0);
+  });
+
+  it("keeps waiting past events of other types", async () => {
+    vi.useFakeTimers();
+    const pending = handleEventsPoll({
+      since: 0,
+      timeout_ms: 1000,
+      types: ["preprint_published"],
+    });
+    emitLibraryEvent("citations_changed", ITEM);
+    expect(getLibraryEventWaiterCount()).toBe(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    const { body } = parse(await pending);
+    expect(body.events).toEqual([]);
+    expect(body.cursor).toBe(1);
+  });
+
+  it("answers held polls on unregister", async () => {
+    registerZInspireEventsEndpoint();
+    const pending = handleEventsPoll({ since: 0, timeout_ms: 60000 });
+    unregisterZInspireEventsEndpoint();
+    const { body } = parse(await pending);
+    expect(body.events).toEqual([]);
+  });
+
+  it("resets the cursor for another stream", async () => {
+    emitLibraryEvent("recid_assigned", ITEM);
+    const { body } = parse(
+      await handleEventsPoll({ since: 99, stream_id: "old", timeout_ms: 0 }),
+    );
+    expect(body.reset).toBe(true);
+    expect(body.events.map((e: any) => e.id)).toEqual([1]);
+  });
+
+  it("rejects unknown event types", async () => {
+    const { status, body } = parse(
+      await handleEventsPoll({ since: 0, types: ["bogus"] }),
+    );
+    expect(status).toBe(400);
+    expect(body.code).toBe("INVALID_PARAMS");
+  });
+});
+
+describe("events endpoint auth", () => {
+  function getEndpoint() {
+    registerZInspireEventsEndpoint();
+    const Endpoint = (globalThis as any).Zotero.Server.Endpoints[
+      "/connector/zinspireEvents"
+    ];
+    unregisterZInspireEventsEndpoint();
+    return new Endpoint();
+  }
+
+  it("rejects missing tokens", async () => {
+    const { status } = parse(
+      await getEndpoint().init({ headers: {}, data: {} }),
+    );
+    expect(status).toBe(403);
+  });
+
+  it("requires the events scope", async () => {
+    const { status, body } = parse(
+      await getEndpoint().init({
+        headers: { "x-zinspire-token": "QUERY" },
+        data: {},
+      }),
+    );
+    expect(status).toBe(403);
+    expect(body.code).toBe("SCOPE_DENIED");
+  });
+
+  it("accepts a token with the events scope", async () => {
+    const { status } = parse(
+      await getEndpoint().init({
+        headers: { "x-zinspire-token": "EVENTS" },
+        data: {},
+      }),
+    );
+    expect(status).toBe(200);
+  });
+});
@@ -0,0 +1,339 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// connectorQueryApi.test.ts - Unit tests for the external read-only endpoint
+// Op routing, identifier validation, item summaries and token auth are
+// exercised against a mocked Zotero global and mocked lookup helpers.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const tokenScopes = vi.fn(() => ["query"]);
+vi.mock("../src/utils/externalToken", () => ({
+  authenticateExternalToken: (headers: Record<string, string | undefined>) =>
+    headers?.["x-zinspire-token"] === "SECRET-TOKEN"
+      ? { id: "t1", name: "agent", scopes: tokenScopes(), createdAt: 0 }
+      : null,
+  tokenHasScope: (token: any, scope: string) => token.scopes.includes(scope),
+}));
+
+const findItemByRecid = vi.fn();
+const findItemsByRecids = vi.fn();
+const findItemsByArxivs = vi.fn();
+const findItemsByDOIs = vi.fn();
+
+vi.mock("../src/modules/inspire/apiUtils", () => ({
+  deriveRecidFromItem: (item: any) => item.getField("archiveLocation") || null,
+  extractArxivIdFromItem: (item: any) => item._arxiv ?? undefined,
+  findItemByRecid: (...args: any[]) => findItemByRecid(...args),
+  findItemsByRecids: (...args: any[]) => findItemsByRecids(...args),
+  findItemsByArxivs: (...args: any[]) => findItemsByArxivs(...args),
+  findItemsByDOIs: (...args: any[]) => findItemsByDOIs(...args),
+}));
+
+const getPreprintWatchEntry = vi.fn();
+
+vi.mock("../src/modules/inspire/preprintWatchService", () => ({
+  isUnpublishedPreprint: (item: any) => Boolean(item._arxiv),
+  extractArxivIdFromItem: (item: any) => item._arxiv ?? null,
+  getPreprintWatchEntry: (...args: any[]) => getPreprintWatchEntry(...args),
+}));
+
+import {
+  dispatchQueryOp,
+  parseExtraCitationCounts,
+  getTexkeyFromItem,
+  registerZInspireQueryEndpoint,
+  unregisterZInspireQueryEndpoint,
+} from "../src/modules/connectorQueryApi";
+
+type ParsedResult = { status: number; body: any };
+
+function parse(result: [number, string, string]): ParsedResult {
+  const [status, contentType, body] = result;
+  expect(contentType).toBe("application/json");
+  return { status, body: JSON.parse(body) };
+}
+
+function makeItem(
+  id: number,
+  fields: Record<string, string> = {},
+  overrides: Record<string, any> = {},
+) {
+  return {
+    id,
+    key: `KEY${id}`,
+    libraryID: 1,
+    itemType: "journalArticle",
+    deleted: false,
+    isRegularItem: () => true,
+    getField: (field: string) => fields[field] ?? "",
+    ...overrides,
+  };
+}
+
+let itemsByID: Map<number, any>;
+let getByLibraryAndKeyAsync: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  itemsByID = new Map();
+  findItemByRecid.mockReset().mockResolvedValue(null);
+  findItemsByRecids.mockReset().mockResolvedValue(new Map());
+  findItemsByArxivs.mockReset().mockResolvedValue(new Map());
+  findItemsByDOIs.mockReset().mockResolvedValue(new Map());
+  getPreprintWatchEntry.mockReset().mockResolvedValue(undefined);
+  tokenScopes.mockReturnValue(["query"]);
+  getByLibraryAndKeyAsync = vi.fn(async () => false);
+
+  vi.stubGlobal("Zotero", {
+    debug: vi.fn(),
+    Libraries: { userLibraryID: 1 },
+    Items: {
+      getAsync: vi.fn(async (id: number) => itemsByID.get(id) ?? false),
+      getByLibraryAndKeyAsync,
+    },
+    Server: { Endpoints: {} as Record<string, any> },
+  });
+});
+
+afterEach(() => {
+  unregisterZInspireQueryEndpoint();
+  vi.unstubAllGlobals();
+});
+
+describe("parseExtraCitationCounts", () => {
+  it("parses INSPIRE total and w/o self lines", () => {
+    const extra =
+      "42 citations (INSPIRE 2025/1/9)\n40 citations w/o self (INSPIRE 2025/1/9)\narXiv:2401.00001";
+    expect(parseExtraCitationCounts(extra)).toEqual({
+      total: 42,
+      without_self: 40,
+      source: "INSPIRE",
+      date: "2025/1/9",
+    });
+  });
+
+  it("parses a CrossRef-only line", () => {
+    expect(
+      parseExtraCitationCounts("17 citations (CrossRef 2024-12-01)"),
+    ).toEqual({
+      total: 17,
+      without_self: null,
+      source: "CrossRef",
+      date: "2024-12-01",
+    });
+  });
+
+  it("returns null without citation lines", () => {
+    expect(parseExtraCitationCounts("arXiv:2401.00001")).toBeNull();
+    expect(parseExtraCitationCounts("")).toBeNull();
+  });
+});
+
+describe("getTexkeyFromItem", () => {
+  it("prefers the native citationKey field", () => {
+    const item = makeItem(1, {
+      citationKey: "Guo:2017jvc",
+      extra: "Citation Key: Other:2000abc",
+    });
+    expect(getTexkeyFromItem(item as any)).toBe("Guo:2017jvc");
+  });
+
+  it("falls back to the Extra line", () => {
+    const item = makeItem(1, { extra: "foo\nCitation Key: Guo:2017jvc\n" });
+    expect(getTexkeyFromItem(item as any)).toBe("Guo:2017jvc");
+  });
+});
+
+describe("dispatchQueryOp: ping / unknown", () => {
+  it("reports query capabilities", async () => {
+    const { status, body } = parse(await dispatchQueryOp({ op: "ping" }));
+    expect(status).toBe(200);
+    expect(body.capabilities).toEqual(
+      expect.arrayContaining(["resolve_by_recid", "get_inspire_status"]),
+    );
+    expect(body.capabilities).not.toContain("erase_item");
+  });
+
+  it("rejects unknown op with 400", async () => {
+    const { status, body } = parse(await dispatchQueryOp({ op: "erase_item" }));
+    expect(status).toBe(400);
+    expect(body.error).toContain("Unknown op");
+  });
+});
+
+describe("dispatchQueryOp: resolve_by_recid", () => {
+  it("resolves via Archive Location and falls back to the URL lookup", async () => {
+    itemsByID.set(10, makeItem(10, { archiveLocation: "111" }));
+    itemsByID.set(20, makeItem(20, { archiveLocation: "" }));
+    findItemByRecid.mockImplementation(async (recid: string) =>
+      recid === "111" ? itemsByID.get(10) : null,
+    );
+    findItemsByRecids.mockResolvedValue(new Map([["222", 20]]));
+
+    const { status, body } = parse(
+      await dispatchQueryOp({
+        op: "resolve_by_recid",
+        recids: ["111", "222", "333"],
+      }),
+    );
+    expect(status).toBe(200);
+    expect(findItemsByRecids).toHaveBeenCalledWith(["222", "333"]);
+    expect(body.matches.map((m: any) => [m.query, m.found])).toEqual([
+      ["111", true],
+      ["222", true],
+      ["333", false],
+    ]);
+    expect(body.matches[0].item.item_key).toBe("KEY10");
+    expect(body.matches[0].item.recid).toBe("111");
+  });
+
+  it("accepts a single numeric recid", async () => {
+    const { status } = parse(
+      await dispatchQueryOp({ op: "resolve_by_recid", recid: 111 }),
+    );
+    expect(status).toBe(200);
+    expect(findItemByRecid).toHaveBeenCalledWith("111");
+  });
+
+  it("rejects non-numeric recids", async () => {
+    const { status, body } = parse(
+      await dispatchQueryOp({ op: "resolve_by_recid", recid: "abc" }),
+    );
+    expect(status).toBe(400);
+    expect(body.code).toBe("INVALID_PARAMS");
+  });
+
+  it("requires an identifier", async () => {
+    const { status, body } = parse(
+      await dispatchQueryOp({ op: "resolve_by_recid" }),
+    );
+    expect(status).toBe(400);
+    expect(body.code).toBe("INVALID_PARAMS");
+  });
+
+  it("caps the number of identifiers", async () => {
+    const recids = Array.from({ length: 201 }, (_, i) => String(i + 1));
+    const { status, body } = parse(
+      await dispatchQueryOp({ op: "resolve_by_recid", recids }),
+    );
+    expect(status).toBe(400);
+    expect(body.code).toBe("TOO_MANY_IDENTIFIERS");
+  });
+});
+
+describe("dispatchQueryOp: resolve_by_arxiv / resolve_by_doi", () => {
+  it("strips the arXiv: prefix before lookup", async () => {
+    itemsByID.set(5, makeItem(5));
+    findItemsByArxivs.mockResolvedValue(new Map([["2401.00001", 5]]));
+    const { body } = parse(
+      await dispatchQueryOp({
+        op: "resolve_by_arxiv",
+        arxiv_id: "arXiv:2401.00001",
+      }),
+    );
+    expect(findItemsByArxivs).toHaveBeenCalledWith(["2401.00001"]);
+    expect(body.matches[0].found).toBe(true);
+  });
+
+  it("strips doi.org URLs before lookup", async () => {
+    await dispatchQueryOp({
+      op: "resolve_by_doi",
+      dois: ["https://doi.org/10.1103/PhysRevD.1.1"],
+    });
+    expect(findItemsByDOIs).toHaveBeenCalledWith(["10.1103/PhysRevD.1.1"]);
+  });
+});
+
+describe("dispatchQueryOp: get_inspire_status", () => {
+  it("returns summary and preprint-watch state", async () => {
+    const item = makeItem(
+      7,
+      {
+        archiveLocation: "999",
+        extra:
+          "3 citations (INSPIRE 2025/1/9)\n2 citations w/o self (INSPIRE 2025/1/9)",
+      },
+      { _arxiv: "2401.00001" },
+    );
+    getByLibraryAndKeyAsync.mockResolvedValueOnce(item);
+    getPreprintWatchEntry.mockResolvedValueOnce({
+      arxivId: "2401.00001",
+      lastChecked: Date.UTC(2025, 0, 9),
+      status: "unpublished",
+    });
+
+    const { status, body } = parse(
+      await dispatchQueryOp({ op: "get_inspire_status", item_key: "KEY7" }),
+    );
+    expect(status).toBe(200);
+    const [entry] = body.items;
+    expect(entry.found).toBe(true);
+    expect(entry.recid).toBe("999");
+    expect(entry.citations).toMatchObject({ total: 3, without_self: 2 });
+    expect(entry.preprint_watch).toMatchObject({
+      is_unpublished_preprint: true,
+      status: "unpublished",
+      last_checked: "2025-01-09T00:00:00.000Z",
+    });
+  });
+
+  it("reports missing and non-regular items", async () => {
+    getByLibraryAndKeyAsync
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(
+        makeItem(8, {}, { itemType: "note", isRegularItem: () => false }),
+      );
+    const { body } = parse(
+      await dispatchQueryOp({
+        op: "get_inspire_status",
+        item_keys: ["MISSING", "NOTE8"],
+        library_id: 3,
+      }),
+    );
+    expect(getByLibraryAndKeyAsync).toHaveBeenCalledWith(3, "MISSING");
+    expect(body.items[0]).toEqual({ item_key: "MISSING", found: false });
+    expect(body.items[1]).toMatchObject({ found: true, regular: false });
+  });
+});
+
+describe("endpoint token auth (init)", () => {
+  function getEndpoint() {
+    registerZInspireQueryEndpoint();
+    const Endpoint = (Zotero as any).Server.Endpoints[
+      "/connector/zinspireQuery"
+    ];
+    return new Endpoint();
+  }
+
+  it("rejects requests without the token (403)", async () => {
+    const ep = getEndpoint();
+    const { status } = parse(
+      await ep.init({ headers: {}, data: { op: "ping" } }),
+    );
+    expect(status).toBe(403);
+  });
+
+  it("accepts requests with the correct token", async () => {
+    const ep = getEndpoint();
+    const { status, body } = parse(
+      await ep.init({
+        headers: { "x-zinspire-token": "SECRET-TOKEN" },
+        data: { op: "ping" },
+      }),
+    );
+    expect(status).toBe(200);
+    expect(body.ok).toBe(true);
+  });
+
+  it("requires the query scope except for ping", async () => {
+    tokenScopes.mockReturnValue(["attach_file"]);
+    const ep = getEndpoint();
+    const headers = { "x-zinspire-token": "SECRET-TOKEN" };
+    const denied = parse(
+      await ep.init({ headers, data: { op: "resolve_by_recid", recid: "1" } }),
+    );
+    expect(denied.status).toBe(403);
+    expect(denied.body.code).toBe("SCOPE_DENIED");
+    const ping = parse(await ep.init({ headers, data: { op: "ping" } }));
+    expect(ping.status).toBe(200);
+  });
+});
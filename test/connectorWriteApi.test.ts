@@ -6,8 +6,68 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
+const FULL_TOKEN = {
+  id: "default",
+  name: "Default",
+  scopes: ["attach_file", "update_metadata", "import_inspire", "trash_item", "erase_item"],
+  createdAt: 0,
+};
 vi.mock("../src/utils/externalToken", () => ({
-  ensureExternalToken: () => "SECRET-TOKEN",
+  authenticateExternalToken: (headers: Record<string, string | undefined>) =>
+    headers?.["x-zinspire-token"] === "SECRET-TOKEN" ? FULL_TOKEN : null,
+  isExternalTokenScope: (op: string) => FULL_TOKEN.scopes.includes(op),
+  tokenHasScope: (token: any, scope: string) => token.scopes.includes(scope),
+}));
+
+const appendExternalAuditEntry = vi.fn();
+vi.mock("../src/utils/externalAudit", () => ({
+  appendExternalAuditEntry: (...args: any[]) => appendExternalAuditEntry(...args),
+  buildExternalAuditEntry: (token: any, body: any, result: any) => ({
+    token_id: token.id,
+    op: body.op,
+    status: result[0],
+  }),
+}));
+
+const updateItemMetadata = vi.fn();
+const createInspireItem = vi.fn();
+vi.mock("../src/modules/inspire/itemUpdater", () => ({
+  updateItemMetadata: (...args: any[]) => updateItemMetadata(...args),
+  createInspireItem: (...args: any[]) => createInspireItem(...args),
+}));
+
+const fetchInspireMetaByRecid = vi.fn();
+const searchInspireRecids = vi.fn();
+vi.mock("../src/modules/inspire/metadataService", () => ({
+  fetchInspireMetaByRecid: (...args: any[]) => fetchInspireMetaByRecid(...args),
+  searchInspireRecids: (...args: any[]) => searchInspireRecids(...args),
+}));
+
+const findItemsByRecids = vi.fn();
+const findItemsByArxivs = vi.fn();
+const findItemsByDOIs = vi.fn();
+vi.mock("../src/modules/inspire/apiUtils", () => ({
+  findItemsByRecids: (...args: any[]) => findItemsByRecids(...args),
+  findItemsByArxivs: (...args: any[]) => findItemsByArxivs(...args),
+  findItemsByDOIs: (...args: any[]) => findItemsByDOIs(...args),
+}));
+
+const undoRecorders: Array<{ kind: string; before: any; after: any; recordErase: any; commit: any }> =
+  [];
+vi.mock("../src/modules/inspire/undoJournal", () => ({
+  UndoBatchRecorder: class {
+    before = vi.fn();
+    after = vi.fn();
+    recordErase = vi.fn();
+    commit = vi.fn(async () => null);
+    constructor(public kind: string) {
+      undoRecorders.push(this);
+    }
+  },
+}));
+
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => (key === "meta" ? "noabstract" : undefined),
 }));
 
 import {
@@ -47,6 +107,7 @@ let importFromFile: ReturnType<typeof vi.fn>;
 let trashTx: ReturnType<typeof vi.fn>;
 let getByLibraryAndKeyAsync: ReturnType<typeof vi.fn>;
 let pathToFile: ReturnType<typeof vi.fn>;
+let getCollectionByKey: ReturnType<typeof vi.fn>;
 
 beforeEach(() => {
   linkFromFile = vi.fn(async () => ({ id: 99, key: "ATTACH99", attachmentLinkMode: 2 }));
@@ -54,11 +115,44 @@ beforeEach(() => {
   trashTx = vi.fn(async () => undefined);
   getByLibraryAndKeyAsync = vi.fn(async (_lib: number, _key: string) => makeRegularItem());
   pathToFile = vi.fn((_p: string) => makeFile());
+  updateItemMetadata.mockReset().mockResolvedValue({
+    status: "updated",
+    recid: "12345",
+    diff: { itemId: 42, hasChanges: true, changes: [] },
+    appliedChanges: [{ field: "volume" }],
+    skippedChanges: [{ field: "title" }],
+  });
+  fetchInspireMetaByRecid
+    .mockReset()
+    .mockImplementation(async (recid: string) => ({ recid, title: `Paper ${recid}` }));
+  searchInspireRecids.mockReset().mockResolvedValue({ total: 0, recids: [] });
+  createInspireItem
+    .mockReset()
+    .mockImplementation(async (meta: any, target: any) => ({
+      id: 500 + Number(meta.recid),
+      key: `NEW${meta.recid}`,
+      libraryID: target.libraryID,
+      getField: () => meta.title,
+    }));
+  findItemsByRecids.mockReset().mockResolvedValue(new Map());
+  findItemsByArxivs.mockReset().mockResolvedValue(new Map());
+  findItemsByDOIs.mockReset().mockResolvedValue(new Map());
+  getCollectionByKey = vi.fn(async (libraryID: number, key: string) =>
+    key === "COLL0001" ? { id: 7, libraryID } : false,
+  );
 
   vi.stubGlobal("Zotero", {
     debug: vi.fn(),
     Libraries: { userLibraryID: 1 },
-    Items: { getByLibraryAndKeyAsync, trashTx },
+    Items: {
+      getByLibraryAndKeyAsync,
+      trashTx,
+      getAsync: vi.fn(async (id: number) => ({ id, key: `OLD${id}`, libraryID: 1 })),
+    },
+    Collections: {
+      getByLibraryAndKeyAsync: getCollectionByKey,
+      get: (id: number) => (id === 8 ? { id: 8, libraryID: 1 } : false),
+    },
     Attachments: { linkFromFile, importFromFile },
     File: { pathToFile },
     Server: { Endpoints: {} as Record<string, any> },
@@ -235,6 +329,16 @@ describe("dispatchWriteOp: trash_item", () => {
     expect(trashTx).toHaveBeenCalledWith(42);
   });
 
+  it("journals the trash for undo", async () => {
+    undoRecorders.length = 0;
+    await dispatchWriteOp({ op: "trash_item", item_key: "PARENT01" });
+    const recorder = undoRecorders[0];
+    expect(recorder.kind).toBe("trash");
+    expect(recorder.before).toHaveBeenCalledTimes(1);
+    expect(recorder.after).toHaveBeenCalledTimes(1);
+    expect(recorder.commit).toHaveBeenCalledTimes(1);
+  });
+
   it("requires item_key", async () => {
     const { status, body } = parse(await dispatchWriteOp({ op: "trash_item" }));
     expect(status).toBe(400);
@@ -263,6 +367,182 @@ describe("dispatchWriteOp: erase_item", () => {
     expect(body.erased).toBe(true);
     expect(item.eraseTx).toHaveBeenCalledTimes(1);
   });
+
+  it("keeps a copy of the item in the undo journal before erasing", async () => {
+    undoRecorders.length = 0;
+    const item = makeRegularItem();
+    getByLibraryAndKeyAsync.mockResolvedValueOnce(item);
+    await dispatchWriteOp({ op: "erase_item", item_key: "PARENT01" });
+    const recorder = undoRecorders[0];
+    expect(recorder.kind).toBe("erase");
+    expect(recorder.recordErase).toHaveBeenCalledWith(item);
+    expect(recorder.commit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("dispatchWriteOp: update_metadata", () => {
+  it("updates items with field protections and reports the diff", async () => {
+    const { status, body } = parse(
+      await dispatchWriteOp({
+        op: "update_metadata",
+        item_keys: ["PARENT01"],
+        operation: "full",
+      }),
+    );
+    expect(status).toBe(200);
+    expect(body.operation).toBe("full");
+    expect(body.updated).toBe(1);
+    const [result] = body.results;
+    expect(result.status).toBe("updated");
+    expect(result.recid).toBe("12345");
+    expect(result.applied_changes).toEqual([{ field: "volume" }]);
+    expect(result.skipped_changes).toEqual([{ field: "title" }]);
+    expect(result.diff.itemId).toBe(42);
+    const [item, operation, options] = updateItemMetadata.mock.calls[0];
+    expect(item.key).toBe("PARENT01");
+    expect(operation).toBe("full");
+    expect(options.smartUpdate).toBe(true);
+  });
+
+  it("defaults the operation to the meta preference", async () => {
+    const { body } = parse(
+      await dispatchWriteOp({ op: "update_metadata", item_key: "PARENT01" }),
+    );
+    expect(body.operation).toBe("noabstract");
+  });
+
+  it("rejects an unknown operation", async () => {
+    const { status, body } = parse(
+      await dispatchWriteOp({
+        op: "update_metadata",
+        item_key: "PARENT01",
+        operation: "everything",
+      }),
+    );
+    expect(status).toBe(400);
+    expect(body.code).toBe("INVALID_PARAMS");
+    expect(updateItemMetadata).not.toHaveBeenCalled();
+  });
+
+  it("reports missing items and per-item failures without aborting", async () => {
+    getByLibraryAndKeyAsync
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(makeRegularItem());
+    updateItemMetadata.mockRejectedValueOnce(new Error("INSPIRE down"));
+    const { status, body } = parse(
+      await dispatchWriteOp({
+        op: "update_metadata",
+        item_keys: ["MISSING", "PARENT01"],
+      }),
+    );
+    expect(status).toBe(200);
+    expect(body.updated).toBe(0);
+    expect(body.results[0]).toEqual({ item_key: "MISSING", status: "not_found" });
+    expect(body.results[1].status).toBe("error");
+    expect(body.results[1].error).toBe("INSPIRE down");
+  });
+
+  it("requires item keys and caps the batch size", async () => {
+    expect(
+      parse(await dispatchWriteOp({ op: "update_metadata" })).body.code,
+    ).toBe("INVALID_PARAMS");
+    const item_keys = Array.from({ length: 51 }, (_, i) => `K${i}`);
+    expect(
+      parse(await dispatchWriteOp({ op: "update_metadata", item_keys })).body
+        .code,
+    ).toBe("TOO_MANY_ITEMS");
+  });
+});
+
+describe("dispatchWriteOp: import_inspire", () => {
+  it("imports recids into a PickSaveTarget-shaped target", async () => {
+    const target = {
+      ok: true,
+      libraryID: 1,
+      collectionIDs: [8],
+      collectionKeys: ["COLL0001"],
+      selectedPath: "My Library / Papers",
+      tags: ["to-read", " "],
+      note: "",
+    };
+    const { status, body } = parse(
+      await dispatchWriteOp({ op: "import_inspire", recids: ["111", 222], target }),
+    );
+    expect(status).toBe(200);
+    expect(body.imported).toBe(2);
+    expect(body.collection_ids).toEqual([7, 8]);
+    expect(createInspireItem).toHaveBeenCalledWith(
+      { recid: "111", title: "Paper 111" },
+      { libraryID: 1, collectionIDs: [7, 8], tags: ["to-read"], note: undefined },
+    );
+    expect(body.results[1]).toEqual({
+      recid: "222",
+      status: "imported",
+      library_id: 1,
+      item_key: "NEW222",
+      item_id: 722,
+      title: "Paper 222",
+    });
+  });
+
+  it("skips duplicates by recid, arXiv and DOI", async () => {
+    findItemsByRecids.mockResolvedValue(new Map([["1", 11]]));
+    fetchInspireMetaByRecid.mockImplementation(async (recid: string) =>
+      recid === "2"
+        ? { recid, arxiv: { value: "2401.00001" } }
+        : recid === "3"
+          ? { recid, DOI: "10.1/abc" }
+          : -1,
+    );
+    findItemsByArxivs.mockResolvedValue(new Map([["2401.00001", 12]]));
+    findItemsByDOIs.mockResolvedValue(new Map([["10.1/abc", 13]]));
+
+    const { body } = parse(
+      await dispatchWriteOp({ op: "import_inspire", recids: ["1", "2", "3", "4"] }),
+    );
+    expect(body.imported).toBe(0);
+    expect(body.results.map((r: any) => [r.status, r.match_type, r.item_key])).toEqual([
+      ["duplicate", "recid", "OLD11"],
+      ["duplicate", "arxiv", "OLD12"],
+      ["duplicate", "doi", "OLD13"],
+      ["not_found", undefined, undefined],
+    ]);
+    expect(createInspireItem).not.toHaveBeenCalled();
+  });
+
+  it("imports the hits of an INSPIRE query", async () => {
+    searchInspireRecids.mockResolvedValue({ total: 120, recids: ["5", "6"] });
+    const { body } = parse(
+      await dispatchWriteOp({
+        op: "import_inspire",
+        query: "a Guo, Feng-Kun",
+        limit: 2,
+        sort: "mostcited",
+      }),
+    );
+    expect(searchInspireRecids).toHaveBeenCalledWith("a Guo, Feng-Kun", 2, "mostcited");
+    expect(body).toMatchObject({ query: "a Guo, Feng-Kun", total: 120, imported: 2 });
+  });
+
+  it("validates the request", async () => {
+    const code = async (extra: Record<string, any>) =>
+      parse(await dispatchWriteOp({ op: "import_inspire", ...extra })).body.code;
+    expect(await code({})).toBe("INVALID_PARAMS");
+    expect(await code({ recids: ["abc"] })).toBe("INVALID_PARAMS");
+    expect(await code({ recids: ["1"], query: "t x" })).toBe("INVALID_PARAMS");
+    expect(await code({ query: "t x", limit: 51 })).toBe("INVALID_PARAMS");
+    expect(
+      await code({ recids: Array.from({ length: 51 }, (_, i) => String(i + 1)) }),
+    ).toBe("TOO_MANY_ITEMS");
+    expect(await code({ recids: ["1"], target: { ok: true, cancelled: true } })).toBe(
+      "TARGET_CANCELLED",
+    );
+    expect(await code({ recids: ["1"], target: { collectionKeys: ["NOPE"] } })).toBe(
+      "COLLECTION_NOT_FOUND",
+    );
+    searchInspireRecids.mockResolvedValue(null);
+    expect(await code({ query: "t x" })).toBe("INSPIRE_UNAVAILABLE");
+  });
 });
 
 describe("library_id resolution", () => {
@@ -310,4 +590,40 @@ describe("endpoint token auth (init)", () => {
     expect(status).toBe(200);
     expect(body.ok).toBe(true);
   });
+
+  it("reports the token's scopes on ping and does not audit it", async () => {
+    appendExternalAuditEntry.mockReset();
+    const ep = getEndpoint();
+    const { body } = parse(
+      await ep.init({ headers: { "x-zinspire-token": "SECRET-TOKEN" }, data: { op: "ping" } }),
+    );
+    expect(body.token).toEqual({ name: "Default", scopes: FULL_TOKEN.scopes });
+    expect(appendExternalAuditEntry).not.toHaveBeenCalled();
+  });
+
+  it("audits write ops with the issuing token", async () => {
+    appendExternalAuditEntry.mockReset();
+    const ep = getEndpoint();
+    await ep.init({
+      headers: { "x-zinspire-token": "SECRET-TOKEN" },
+      data: { op: "trash_item", item_key: "ABCD1234" },
+    });
+    expect(appendExternalAuditEntry).toHaveBeenCalledWith({
+      token_id: "default",
+      op: "trash_item",
+      status: 200,
+    });
+  });
+});
+
+describe("token scopes", () => {
+  it("rejects ops outside the token's scopes with SCOPE_DENIED", async () => {
+    const readOnly = { id: "t1", name: "agent", scopes: ["query"], createdAt: 0 };
+    const { status, body } = parse(
+      await dispatchWriteOp({ op: "erase_item", item_key: "ABCD1234" }, readOnly as any),
+    );
+    expect(status).toBe(403);
+    expect(body.code).toBe("SCOPE_DENIED");
+    expect(getByLibraryAndKeyAsync).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,169 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// externalToken.test.ts - Unit tests for named, scoped connector tokens
+// The token store and the audit-entry builder run against an in-memory prefs
+// mock; no Zotero profile is touched.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key) ?? "",
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+import {
+  EXTERNAL_TOKEN_PRESETS,
+  authenticateExternalToken,
+  createExternalToken,
+  ensureExternalToken,
+  listExternalTokens,
+  regenerateDefaultExternalToken,
+  revokeExternalToken,
+  tokenHasScope,
+} from "../src/utils/externalToken";
+import { buildExternalAuditEntry } from "../src/utils/externalAudit";
+
+beforeEach(() => {
+  prefs.clear();
+  vi.stubGlobal("Zotero", { debug: vi.fn() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("default token", () => {
+  it("keeps the legacy external_token working with full scopes", () => {
+    prefs.set("external_token", "LEGACY");
+    const token = authenticateExternalToken({ "x-zinspire-token": "LEGACY" });
+    expect(token?.id).toBe("default");
+    expect(tokenHasScope(token!, "erase_item")).toBe(true);
+  });
+
+  it("gains scopes added after it was saved", () => {
+    prefs.set("external_token", "LEGACY");
+    prefs.set(
+      "external_tokens",
+      JSON.stringify({
+        tokens: [
+          {
+            id: "default",
+            name: "Default",
+            scopes: ["query", "attach_file"],
+            createdAt: 0,
+          },
+        ],
+      }),
+    );
+    const token = authenticateExternalToken({ "x-zinspire-token": "LEGACY" });
+    expect(token?.id).toBe("default");
+    expect(tokenHasScope(token!, "events")).toBe(true);
+    expect(tokenHasScope(token!, "erase_item")).toBe(true);
+  });
+
+  it("is not regenerated after being revoked", () => {
+    const secret = ensureExternalToken();
+    expect(secret).not.toBe("");
+    expect(revokeExternalToken("default")).toBe(true);
+    expect(ensureExternalToken()).toBe("");
+    expect(
+      authenticateExternalToken({ "x-zinspire-token": secret }),
+    ).toBeNull();
+
+    const fresh = regenerateDefaultExternalToken();
+    expect(authenticateExternalToken({ "x-zinspire-token": fresh })?.id).toBe(
+      "default",
+    );
+  });
+});
+
+describe("named tokens", () => {
+  it("authenticates with the token's own scopes", () => {
+    const record = createExternalToken(
+      "agent",
+      EXTERNAL_TOKEN_PRESETS.no_erase,
+    );
+    const token = authenticateExternalToken({
+      "X-ZInspire-Token": record.token,
+    });
+    expect(token?.name).toBe("agent");
+    expect(token?.token).toBeUndefined();
+    expect(tokenHasScope(token!, "attach_file")).toBe(true);
+    expect(tokenHasScope(token!, "erase_item")).toBe(false);
+  });
+
+  it("records the last-used time", () => {
+    const record = createExternalToken("agent", ["query"]);
+    expect(
+      listExternalTokens().find((t) => t.id === record.id)?.lastUsedAt,
+    ).toBeUndefined();
+    authenticateExternalToken({ "x-zinspire-token": record.token });
+    expect(
+      listExternalTokens().find((t) => t.id === record.id)?.lastUsedAt,
+    ).toEqual(expect.any(Number));
+  });
+
+  it("rejects a revoked token", () => {
+    const record = createExternalToken("agent", ["query"]);
+    revokeExternalToken(record.id);
+    expect(
+      authenticateExternalToken({ "x-zinspire-token": record.token }),
+    ).toBeNull();
+    expect(listExternalTokens().map((t) => t.id)).toEqual(["default"]);
+  });
+
+  it("drops unknown scopes", () => {
+    const record = createExternalToken("agent", ["query", "bogus" as any]);
+    expect(record.scopes).toEqual(["query"]);
+  });
+});
+
+describe("buildExternalAuditEntry", () => {
+  it("records the token, op, params and a compact result", () => {
+    const entry = buildExternalAuditEntry(
+      { id: "t1", name: "agent" },
+      { op: "update_metadata", item_keys: ["A"] },
+      [
+        200,
+        "application/json",
+        JSON.stringify({
+          ok: true,
+          op: "update_metadata",
+          updated: 1,
+          results: [{ item_key: "A", status: "updated", diff: { big: 1 } }],
+        }),
+      ],
+      new Date(Date.UTC(2025, 0, 9)),
+    );
+    expect(entry).toEqual({
+      time: "2025-01-09T00:00:00.000Z",
+      token_id: "t1",
+      token_name: "agent",
+      op: "update_metadata",
+      status: 200,
+      ok: true,
+      params: '{"item_keys":["A"]}',
+      result: { updated: 1, results: [{ status: "updated", item_key: "A" }] },
+    });
+  });
+
+  it("keeps the error code of a rejected op", () => {
+    const entry = buildExternalAuditEntry(
+      { id: "t1", name: "agent" },
+      { op: "erase_item", item_key: "A" },
+      [
+        403,
+        "application/json",
+        JSON.stringify({ ok: false, code: "SCOPE_DENIED", error: "nope" }),
+      ],
+    );
+    expect(entry).toMatchObject({
+      ok: false,
+      status: 403,
+      code: "SCOPE_DENIED",
+      error: "nope",
+    });
+    expect(entry.result).toBeUndefined();
+  });
+});
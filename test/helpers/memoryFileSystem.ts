@@ -0,0 +1,103 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// memoryFileSystem.ts - In-memory IOUtils, PathUtils and Zotero stubs
+// Shared by the tests of modules that read and write files in the Zotero data
+// directory. Files live in a Map owned by the test, keyed by "/"-joined path.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { vi } from "vitest";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function stubPathUtils(): void {
+  vi.stubGlobal("PathUtils", { join: (...parts: string[]) => parts.join("/") });
+}
+
+/**
+ * Stub PathUtils and the byte-level IOUtils API (offset reads, appends, JSON
+ * and UTF-8 writes, moves, directory listings) over `files`. A path exists
+ * when it is a file or a directory holding one.
+ */
+export function stubMemoryFileSystem(files: Map<string, Uint8Array>): void {
+  stubPathUtils();
+  vi.stubGlobal("IOUtils", {
+    exists: async (path: string) =>
+      files.has(path) ||
+      [...files.keys()].some((f) => f.startsWith(`${path}/`)),
+    stat: async (path: string) => {
+      const data = files.get(path);
+      if (!data) throw new Error(`missing ${path}`);
+      return { size: data.length };
+    },
+    read: async (
+      path: string,
+      opts?: { offset?: number; maxBytes?: number },
+    ) => {
+      const data = files.get(path);
+      if (!data) throw new Error(`missing ${path}`);
+      const offset = opts?.offset ?? 0;
+      const end =
+        opts?.maxBytes !== undefined ? offset + opts.maxBytes : data.length;
+      return data.slice(offset, end);
+    },
+    write: async (path: string, data: Uint8Array, opts?: { mode?: string }) => {
+      const previous = files.get(path);
+      if (opts?.mode === "appendOrCreate" && previous) {
+        const joined = new Uint8Array(previous.length + data.length);
+        joined.set(previous);
+        joined.set(data, previous.length);
+        files.set(path, joined);
+      } else {
+        files.set(path, data.slice());
+      }
+      return data.length;
+    },
+    readJSON: async (path: string) =>
+      JSON.parse(decoder.decode(files.get(path))),
+    writeJSON: async (path: string, data: unknown) => {
+      files.set(path, encoder.encode(JSON.stringify(data)));
+    },
+    writeUTF8: async (path: string, text: string) => {
+      files.set(path, encoder.encode(text));
+    },
+    move: async (from: string, to: string) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    remove: async (path: string) => {
+      files.delete(path);
+    },
+    makeDirectory: async () => undefined,
+    getChildren: async (dir: string) =>
+      [...files.keys()].filter(
+        (f) =>
+          f.startsWith(`${dir}/`) && !f.slice(dir.length + 1).includes("/"),
+      ),
+  });
+}
+
+/**
+ * Stub PathUtils and the JSON-only IOUtils API over `files`, which holds
+ * parsed values; reads and writes copy them, as a round trip to disk would.
+ */
+export function stubMemoryJSONFiles(files: Map<string, unknown>): void {
+  stubPathUtils();
+  vi.stubGlobal("IOUtils", {
+    makeDirectory: async () => undefined,
+    exists: async (path: string) => files.has(path),
+    readJSON: async (path: string) =>
+      JSON.parse(JSON.stringify(files.get(path))),
+    writeJSON: async (path: string, data: unknown) => {
+      files.set(path, JSON.parse(JSON.stringify(data)));
+    },
+  });
+}
+
+/** Stub Zotero with a silent debug log, a "/data" data directory and `extra`. */
+export function stubZotero(extra: Record<string, unknown> = {}): void {
+  vi.stubGlobal("Zotero", {
+    debug: vi.fn(),
+    DataDirectory: { dir: "/data" },
+    ...extra,
+  });
+}
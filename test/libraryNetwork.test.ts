@@ -0,0 +1,201 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// libraryNetwork.test.ts - Unit tests for the library citation network
+// PageRank and network building run on hand-made recids; loading runs against
+// a stubbed cache and reference fetcher.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const cacheGet = vi.fn();
+const cacheSet = vi.fn();
+vi.mock("../src/modules/inspire/localCache", () => ({
+  localCache: {
+    get: (...args: unknown[]) => cacheGet(...args),
+    set: (...args: unknown[]) => cacheSet(...args),
+  },
+}));
+
+const fetchReferencesEntries = vi.fn();
+const enrichReferencesEntries = vi.fn();
+vi.mock("../src/modules/inspire/referencesService", () => ({
+  fetchReferencesEntries: (...args: unknown[]) =>
+    fetchReferencesEntries(...args),
+  enrichReferencesEntries: (...args: unknown[]) =>
+    enrichReferencesEntries(...args),
+}));
+
+import {
+  buildLibraryNetwork,
+  collectLibraryNetworkItems,
+  computePageRank,
+  loadLibraryNetwork,
+  type LibraryNetworkItem,
+} from "../src/modules/inspire/libraryNetworkService";
+
+function item(recid: string, title = `Paper ${recid}`): LibraryNetworkItem {
+  return { itemID: Number(recid), recid, title };
+}
+
+// 1 and 2 cite 3; 3 cites 4; 5 cites nothing in the collection.
+const ITEMS = ["1", "2", "3", "4", "5"].map((recid) => item(recid));
+const REFS = new Map([
+  ["1", ["3", "999"]],
+  ["2", ["3", "3"]],
+  ["3", ["4"]],
+  ["4", ["4"]],
+  ["5", ["1000"]],
+]);
+
+beforeEach(() => {
+  cacheGet.mockReset();
+  cacheSet.mockReset();
+  fetchReferencesEntries.mockReset();
+  enrichReferencesEntries.mockReset();
+  enrichReferencesEntries.mockResolvedValue(undefined);
+});
+
+describe("computePageRank", () => {
+  it("sums to one and favours cited nodes", () => {
+    const ranks = computePageRank(
+      ["a", "b", "c"],
+      [
+        { source: "a", target: "c" },
+        { source: "b", target: "c" },
+      ],
+    );
+    const total = [...ranks.values()].reduce((sum, r) => sum + r, 0);
+    expect(total).toBeCloseTo(1, 9);
+    expect(ranks.get("c")!).toBeGreaterThan(ranks.get("a")!);
+    expect(ranks.get("a")).toBeCloseTo(ranks.get("b")!, 12);
+    expect(computePageRank([], []).size).toBe(0);
+  });
+});
+
+describe("buildLibraryNetwork", () => {
+  it("keeps in-collection citations and ranks by PageRank", () => {
+    const network = buildLibraryNetwork(ITEMS, REFS);
+    expect(network.edges).toEqual([
+      { source: "1", target: "3" },
+      { source: "2", target: "3" },
+      { source: "3", target: "4" },
+    ]);
+    // 4 collects everything that flows into 3.
+    expect(network.nodes.map((n) => n.recid).slice(0, 2)).toEqual(["4", "3"]);
+    expect(network.nodes.map((n) => n.rank)).toEqual([1, 2, 3, 4, 5]);
+    const byRecid = new Map(network.nodes.map((n) => [n.recid, n]));
+    expect(byRecid.get("3")).toMatchObject({
+      references: 1,
+      citedBy: 2,
+      isolated: false,
+    });
+    expect(byRecid.get("5")).toMatchObject({
+      references: 0,
+      citedBy: 0,
+      isolated: true,
+      referencesLoaded: true,
+    });
+  });
+
+  it("marks items whose references are unknown", () => {
+    const network = buildLibraryNetwork(
+      [item("1"), item("2")],
+      new Map([["1", ["2"]]]),
+    );
+    const second = network.nodes.find((n) => n.recid === "2")!;
+    expect(second).toMatchObject({ citedBy: 1, referencesLoaded: false });
+  });
+});
+
+describe("collectLibraryNetworkItems", () => {
+  it("keeps regular items with a recid once", () => {
+    const zoteroItem = (
+      id: number,
+      fields: Record<string, string>,
+      creators: Array<{ lastName?: string }> = [],
+      regular = true,
+    ) =>
+      ({
+        id,
+        isRegularItem: () => regular,
+        getField: (name: string) => fields[name] ?? "",
+        getCreators: () => creators,
+      }) as unknown as Zotero.Item;
+
+    const { items, truncated } = collectLibraryNetworkItems([
+      zoteroItem(
+        1,
+        { archiveLocation: "451647", title: "Large N", date: "1997-11-27" },
+        [{ lastName: "Maldacena" }],
+      ),
+      zoteroItem(2, { archiveLocation: "451647", title: "Duplicate" }),
+      zoteroItem(3, { title: "No recid" }),
+      zoteroItem(4, { archiveLocation: "1" }, [], false),
+      zoteroItem(5, { url: "https://inspirehep.net/literature/12345" }, [
+        { lastName: "Gross" },
+        { lastName: "Wilczek" },
+      ]),
+    ]);
+    expect(truncated).toBe(0);
+    expect(items).toEqual([
+      {
+        itemID: 1,
+        recid: "451647",
+        title: "Large N",
+        year: "1997",
+        authorLabel: "Maldacena",
+      },
+      {
+        itemID: 5,
+        recid: "12345",
+        title: "12345",
+        year: undefined,
+        authorLabel: "Gross et al.",
+      },
+    ]);
+  });
+});
+
+describe("loadLibraryNetwork", () => {
+  it("uses cached references and fetches, enriches and caches the rest", async () => {
+    cacheGet.mockImplementation(async (_type: string, recid: string) =>
+      recid === "1" ? { data: [{ recid: "2" }] } : null,
+    );
+    fetchReferencesEntries.mockImplementation(async (recid: string) => {
+      if (recid === "3") throw new Error("offline");
+      return [{ recid: "1" }, { recid: undefined }];
+    });
+    const progress: number[] = [];
+
+    const network = await loadLibraryNetwork(
+      [item("1"), item("2"), item("3")],
+      { onProgress: (done) => progress.push(done) },
+    );
+    expect(network.edges).toEqual([
+      { source: "1", target: "2" },
+      { source: "2", target: "1" },
+    ]);
+    expect(fetchReferencesEntries.mock.calls.map(([recid]) => recid)).toEqual([
+      "2",
+      "3",
+    ]);
+    // Only enriched lists are cached (the panel reads cached refs as complete)
+    await vi.waitFor(() => expect(cacheSet).toHaveBeenCalledTimes(1));
+    expect(enrichReferencesEntries).toHaveBeenCalledTimes(1);
+    expect(enrichReferencesEntries.mock.invocationCallOrder[0]).toBeLessThan(
+      cacheSet.mock.invocationCallOrder[0],
+    );
+    expect(cacheSet.mock.calls[0].slice(0, 2)).toEqual(["refs", "2"]);
+    expect(progress).toEqual([1, 2, 3]);
+    const third = network.nodes.find((n) => n.recid === "3")!;
+    expect(third).toMatchObject({ isolated: true, referencesLoaded: false });
+  });
+
+  it("rejects with an AbortError when aborted", async () => {
+    cacheGet.mockResolvedValue(null);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      loadLibraryNetwork([item("1")], { signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,223 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// localSearchIndex.test.ts - Unit tests for offline search over cached records
+// Covers the INSPIRE query subset parser, matching and sorting in the index,
+// and building the index from the local cache on an in-memory IOUtils.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+import { parseSearchQuery } from "../src/modules/inspire/searchQuery";
+import { parseSearchRange } from "../src/modules/inspire/searchSyntax";
+import {
+  LocalSearchIndex,
+  mergeSearchResults,
+  resetLocalSearchIndex,
+  searchLocalIndex,
+} from "../src/modules/inspire/localSearchIndex";
+import { localCache } from "../src/modules/inspire/localCache";
+import type { InspireReferenceEntry } from "../src/modules/inspire/types";
+import { stubMemoryFileSystem, stubZotero } from "./helpers/memoryFileSystem";
+
+function entry(
+  recid: string,
+  title: string,
+  authors: string[],
+  extra: Partial<InspireReferenceEntry> = {},
+): InspireReferenceEntry {
+  return {
+    id: `e-${recid}`,
+    recid,
+    title,
+    authors,
+    authorText: authors.join(", "),
+    displayText: `${authors.join(", ")} ${title}`,
+    searchText: "",
+    year: "2000",
+    ...extra,
+  };
+}
+
+const PAPERS = [
+  entry("1", "Anti de Sitter space and holography", ["Witten, Edward"], {
+    year: "1998",
+    citationCount: 12000,
+    publicationInfo: {
+      journal_title: "Adv.Theor.Math.Phys.",
+      journal_volume: "2",
+    },
+    arxivDetails: { id: "hep-th/9802150" },
+    authorSearchInfos: [{ fullName: "Witten, Edward", bai: "E.Witten.1" }],
+  }),
+  entry("2", "Dark matter in the galaxy", ["Smith, John", "Witten, Louis"], {
+    year: "2015",
+    earliestDate: "2015-03-01",
+    citationCount: 40,
+    publicationInfo: { journal_title: "Phys.Rev.D", journal_volume: "91" },
+    arxivDetails: "1503.01234",
+  }),
+  entry("3", "Dark energy and dark matter", ["Jones, Anna"], {
+    year: "2020",
+    citationCount: 250,
+  }),
+];
+
+describe("parseSearchQuery", () => {
+  it("applies a field to the words up to the next operator", () => {
+    expect(
+      parseSearchQuery("find t dark matter and a witten or date > 2019"),
+    ).toEqual({
+      groups: [
+        [
+          {
+            field: "title",
+            value: "dark matter",
+            quoted: false,
+            negated: false,
+          },
+          { field: "author", value: "witten", quoted: false, negated: false },
+        ],
+        [
+          {
+            field: "date",
+            value: "> 2019",
+            quoted: false,
+            negated: false,
+            range: { min: 2020 },
+          },
+        ],
+      ],
+    });
+    expect(parseSearchQuery('t:"dark matter" not a:smith')?.groups[0]).toEqual([
+      { field: "title", value: "dark matter", quoted: true, negated: false },
+      { field: "author", value: "smith", quoted: false, negated: true },
+    ]);
+  });
+
+  it("reads comparisons written without spaces", () => {
+    const range = (query: string) =>
+      parseSearchQuery(query)?.groups[0].map((clause) => [
+        clause.field,
+        clause.range,
+      ]);
+    expect(range("date>2020")).toEqual([["date", { min: 2021 }]]);
+    expect(range("date>=2020")).toEqual([["date", { min: 2020 }]]);
+    expect(range("topcite>500")).toEqual([["topcite", { min: 501 }]]);
+    expect(range("date<= 2010")).toEqual([["date", { max: 2010 }]]);
+    expect(range("t dark and -date<2000")).toEqual([
+      ["title", undefined],
+      ["date", { max: 1999 }],
+    ]);
+    expect(parseSearchQuery("H->gamma")?.groups[0]).toEqual([
+      { field: "any", value: "H->gamma", quoted: false, negated: false },
+    ]);
+    expect(parseSearchQuery("date>soon")).toBeNull();
+    expect(parseSearchQuery("cn>2")).toBeNull();
+  });
+
+  it("rejects syntax the local index cannot answer", () => {
+    expect(parseSearchQuery("refersto:recid:123")).toBeNull();
+    expect(parseSearchQuery("cn atlas")).toBeNull();
+    expect(parseSearchQuery("(t dark) or t light")).toBeNull();
+    expect(parseSearchQuery("date soon")).toBeNull();
+    expect(parseSearchQuery("t dark and")).toBeNull();
+  });
+
+  it("parses date and citation ranges", () => {
+    expect(parseSearchRange("2015->2020", "date")).toEqual({
+      min: 2015,
+      max: 2020,
+    });
+    expect(parseSearchRange("before 2010-06", "date")).toEqual({ max: 2009 });
+    expect(parseSearchRange("100+", "topcite")).toEqual({ min: 100 });
+    expect(parseSearchRange("<= 50", "topcite")).toEqual({ max: 50 });
+  });
+});
+
+describe("LocalSearchIndex", () => {
+  const index = new LocalSearchIndex();
+  index.addEntries(PAPERS, 1);
+  const search = (
+    query: string,
+    sort: "mostrecent" | "mostcited" = "mostrecent",
+  ) => index.search(parseSearchQuery(query)!, sort).map((e) => e.recid);
+
+  it("matches the supported fields", () => {
+    expect(search("a witten")).toEqual(["2", "1"]);
+    expect(search("a Witten, E")).toEqual(["1"]);
+    expect(search("a E.Witten.1")).toEqual(["1"]);
+    expect(search("t dark matter")).toEqual(["3", "2"]);
+    expect(search('t "dark matter"')).toEqual(["3", "2"]);
+    expect(search('t "matter dark"')).toEqual([]);
+    expect(search("j Phys.Rev.D,91")).toEqual(["2"]);
+    expect(search("j Phys.Rev.D,92")).toEqual([]);
+    expect(search("eprint arXiv:1503.01234v2")).toEqual(["2"]);
+    expect(search("eprint hep-th/9802150")).toEqual(["1"]);
+    expect(search("date 2010->2020")).toEqual(["3", "2"]);
+    expect(search("topcite 100+")).toEqual(["3", "1"]);
+    expect(search("holograph*")).toEqual(["1"]);
+  });
+
+  it("combines clauses and sorts like INSPIRE", () => {
+    expect(search("t dark and not a smith")).toEqual(["3"]);
+    expect(search("a jones or eprint hep-th/9802150")).toEqual(["3", "1"]);
+    expect(search("t dark or a witten", "mostcited")).toEqual(["1", "3", "2"]);
+  });
+
+  it("keeps the newest copy of a record", () => {
+    const fresh = new LocalSearchIndex();
+    fresh.addEntries([{ ...PAPERS[2], citationCount: 300 }], 5);
+    fresh.addEntries([PAPERS[2]], 1);
+    const [hit] = fresh.search(parseSearchQuery("a jones")!, "mostrecent");
+    expect(hit).toMatchObject({ recid: "3", citationCount: 300 });
+    expect(hit.id).toBe("local-0-3");
+    expect(fresh.size).toBe(1);
+  });
+
+  it("merges online and local results without duplicates", () => {
+    const merged = mergeSearchResults([PAPERS[0]], [PAPERS[1], PAPERS[0]]);
+    expect(merged.map((e) => e.recid)).toEqual(["1", "2"]);
+  });
+});
+
+describe("searchLocalIndex", () => {
+  const files = new Map<string, Uint8Array>();
+
+  beforeEach(async () => {
+    files.clear();
+    prefs.clear();
+    prefs.set("local_cache_enable", true);
+    stubMemoryFileSystem(files);
+    stubZotero();
+    resetLocalSearchIndex();
+    await localCache.reinit();
+  });
+
+  afterEach(async () => {
+    await localCache.flushWrites();
+    resetLocalSearchIndex();
+    vi.unstubAllGlobals();
+  });
+
+  it("builds from the cache and follows later writes", async () => {
+    await localCache.set("refs", "10", [PAPERS[0], PAPERS[1]]);
+    await localCache.set("crossref", "10.1/x", 5);
+    await localCache.flushWrites();
+
+    const first = await searchLocalIndex("a witten", "mostrecent");
+    expect(first?.map((e) => e.recid)).toEqual(["2", "1"]);
+
+    await localCache.set("cited", "1", [PAPERS[2]]);
+    const second = await searchLocalIndex("t dark", "mostrecent");
+    expect(second?.map((e) => e.recid)).toEqual(["3", "2"]);
+
+    expect(await searchLocalIndex("refersto:recid:1", "mostrecent")).toBeNull();
+    prefs.set("local_search_index", false);
+    expect(await searchLocalIndex("a witten", "mostrecent")).toBeNull();
+  });
+});
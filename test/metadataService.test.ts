@@ -0,0 +1,179 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// metadataService.test.ts - Unit tests for batched INSPIRE metadata resolution
+// Items are grouped by identifier and resolved with stubbed search requests;
+// no network or Zotero profile is involved.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const inspireFetch = vi.fn();
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: (...args: unknown[]) => inspireFetch(...args),
+}));
+vi.mock("../src/modules/inspire/localCache", () => ({ localCache: {} }));
+vi.mock("../src/modules/inspire/crossrefService", () => ({
+  crossrefFetch: vi.fn(),
+}));
+
+import {
+  buildBatchIdentifierQuery,
+  resolveInspireMetaBatch,
+} from "../src/modules/inspire/metadataService";
+
+function makeItem(id: number, fields: Record<string, string>) {
+  return {
+    id,
+    getField: (field: string) => fields[field] ?? "",
+  } as unknown as Zotero.Item;
+}
+
+function record(
+  recid: number,
+  extra: { dois?: string[]; arxiv?: string[] } = {},
+) {
+  return {
+    id: String(recid),
+    metadata: {
+      control_number: recid,
+      citation_count: recid * 10,
+      citation_count_without_self_citations: recid,
+      dois: extra.dois?.map((value) => ({ value })),
+      arxiv_eprints: extra.arxiv?.map((value) => ({ value })),
+    },
+  };
+}
+
+function searchResult(hits: unknown[], total = hits.length) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({ hits: { total, hits } }),
+  };
+}
+
+function queryOf(call: unknown[]): string {
+  return decodeURIComponent((call[0] as string).split("q=")[1].split("&")[0]);
+}
+
+beforeEach(() => {
+  inspireFetch.mockReset();
+  vi.stubGlobal("Zotero", { debug: vi.fn() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("buildBatchIdentifierQuery", () => {
+  it("quotes DOIs and arXiv ids and uses control_number for recids", () => {
+    expect(buildBatchIdentifierQuery("doi", ["10.1/a", "10.1/b"])).toBe(
+      'doi:"10.1/a" OR doi:"10.1/b"',
+    );
+    expect(buildBatchIdentifierQuery("arxiv", ["hep-th/9901001"])).toBe(
+      'arxiv:"hep-th/9901001"',
+    );
+    expect(buildBatchIdentifierQuery("literature", ["1", "2"])).toBe(
+      "control_number:1 OR control_number:2",
+    );
+  });
+});
+
+describe("resolveInspireMetaBatch", () => {
+  it("resolves each identifier type with one search", async () => {
+    inspireFetch.mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split("q=")[1].split("&")[0]);
+      if (query.startsWith("doi:")) {
+        return searchResult([record(1, { dois: ["10.1103/PhysRevD.1.1"] })]);
+      }
+      if (query.startsWith("arxiv:")) {
+        return searchResult([record(2, { arxiv: ["2301.00001"] })]);
+      }
+      return searchResult([record(3)]);
+    });
+    const items = [
+      makeItem(11, { DOI: "10.1103/physrevd.1.1" }),
+      makeItem(12, { extra: "arXiv:2301.00001 [hep-ph]" }),
+      makeItem(13, { archiveLocation: "3" }),
+      // Same DOI as item 11: resolved from the same hit
+      makeItem(14, { DOI: "https://doi.org/10.1103/PhysRevD.1.1" }),
+    ];
+
+    const progress = vi.fn();
+    const results = await resolveInspireMetaBatch(items, "citations", {
+      onProgress: progress,
+    });
+    expect(inspireFetch).toHaveBeenCalledTimes(3);
+    expect((results.get(11) as any).recid).toBe(1);
+    expect((results.get(12) as any).recid).toBe(2);
+    expect((results.get(13) as any).citation_count).toBe(30);
+    expect((results.get(14) as any).recid).toBe(1);
+    expect(progress).toHaveBeenLastCalledWith({ done: 3, total: 3 });
+  });
+
+  it("leaves identifiers without a unique hit to the single lookup", async () => {
+    inspireFetch.mockResolvedValue(
+      searchResult([
+        record(1, { dois: ["10.1/dup"] }),
+        record(2, { dois: ["10.1/dup"] }),
+      ]),
+    );
+    const results = await resolveInspireMetaBatch(
+      [makeItem(1, { DOI: "10.1/dup" }), makeItem(2, { DOI: "10.1/none" })],
+      "full",
+    );
+    expect(results.has(1)).toBe(false);
+    expect(results.has(2)).toBe(false);
+    expect(results.size).toBe(0);
+  });
+
+  it("leaves every item of a truncated batch to the single lookup", async () => {
+    // The second record sharing 10.1/dup was cut off the page
+    inspireFetch.mockResolvedValue(
+      searchResult(
+        [record(1, { dois: ["10.1/dup"] }), record(2, { dois: ["10.1/b"] })],
+        3,
+      ),
+    );
+    const results = await resolveInspireMetaBatch(
+      [makeItem(1, { DOI: "10.1/dup" }), makeItem(2, { DOI: "10.1/b" })],
+      "full",
+    );
+    expect(results.size).toBe(0);
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves items of failed batches and citation-key items unresolved", async () => {
+    inspireFetch.mockResolvedValue({ ok: false, status: 502 });
+    const results = await resolveInspireMetaBatch(
+      [
+        makeItem(1, { DOI: "10.1/a" }),
+        makeItem(2, { extra: "Citation Key: Smith:2020abc" }),
+      ],
+      "full",
+    );
+    expect(results.size).toBe(0);
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("splits large groups into batches and stops when cancelled", async () => {
+    inspireFetch.mockImplementation(async () => searchResult([]));
+    const items = Array.from({ length: 25 }, (_, i) =>
+      makeItem(i + 1, { archiveLocation: String(i + 1) }),
+    );
+    await resolveInspireMetaBatch(items, "full");
+    expect(inspireFetch).toHaveBeenCalledTimes(3);
+    expect(queryOf(inspireFetch.mock.calls[2])).toBe(
+      "control_number:21 OR control_number:22 OR control_number:23 OR control_number:24 OR control_number:25",
+    );
+
+    inspireFetch.mockClear();
+    let cancelled = false;
+    await resolveInspireMetaBatch(items, "full", {
+      isCancelled: () => cancelled,
+      onProgress: () => {
+        cancelled = true;
+      },
+    });
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,134 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// offlineMode.test.ts - Unit tests for the offline mode kill-switch
+// No request reaches the stubbed fetch while offline; cached references are
+// served regardless of age, and misses are queued and fetched once back
+// online. Cache and queue files live in an in-memory IOUtils.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+vi.mock("../src/utils/locale", () => ({
+  getString: (key: string) => key,
+}));
+
+import {
+  getOfflineQueue,
+  handleOfflineModeChange,
+  isOfflineError,
+  onOfflineModeChange,
+  queueOfflineFetch,
+  resetOfflineQueueState,
+  setOfflineMode,
+} from "../src/modules/inspire/offlineMode";
+import {
+  inspireFetch,
+  resetRateLimiter,
+} from "../src/modules/inspire/rateLimiter";
+import { crossrefFetch } from "../src/modules/inspire/crossrefService";
+import { fetchReferencesEntries } from "../src/modules/inspire/referencesService";
+import { localCache } from "../src/modules/inspire/localCache";
+import { stubMemoryFileSystem, stubZotero } from "./helpers/memoryFileSystem";
+
+const QUEUE_PATH = "/data/zoteroinspire-offline-queue.json";
+
+const files = new Map<string, Uint8Array>();
+const decoder = new TextDecoder();
+const fetchMock = vi.fn();
+
+function json(body: unknown): Response {
+  return {
+    status: 200,
+    ok: true,
+    headers: new Headers(),
+    json: async () => body,
+  } as Response;
+}
+
+beforeEach(async () => {
+  files.clear();
+  prefs.clear();
+  prefs.set("local_cache_enable", true);
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  stubMemoryFileSystem(files);
+  stubZotero();
+  resetRateLimiter();
+  resetOfflineQueueState();
+  await localCache.reinit();
+});
+
+afterEach(async () => {
+  await localCache.flushWrites();
+  vi.unstubAllGlobals();
+});
+
+describe("network kill-switch", () => {
+  it("makes no INSPIRE or CrossRef requests while offline", async () => {
+    setOfflineMode(true);
+    const err = await inspireFetch("https://inspirehep.net/api/x").catch(
+      (e) => e,
+    );
+    expect(isOfflineError(err)).toBe(true);
+    expect(await crossrefFetch("https://api.crossref.org/works/x")).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("notifies listeners when the mode changes", async () => {
+    const seen: boolean[] = [];
+    const unsubscribe = onOfflineModeChange((offline) => seen.push(offline));
+    setOfflineMode(true);
+    await handleOfflineModeChange();
+    unsubscribe();
+    setOfflineMode(false);
+    await handleOfflineModeChange();
+    expect(seen).toEqual([true]);
+  });
+});
+
+describe("references while offline", () => {
+  it("serves cached entries and queues misses", async () => {
+    const cached = [{ title: "Cached", authors: [] }];
+    await localCache.set("refs", "1", cached);
+    await localCache.flushWrites();
+    setOfflineMode(true);
+
+    expect(await fetchReferencesEntries("1")).toEqual(cached);
+
+    const miss = await fetchReferencesEntries("2").catch((e) => e);
+    expect(isOfflineError(miss)).toBe(true);
+    await queueOfflineFetch({ kind: "references", recid: "2" });
+    expect(await getOfflineQueue()).toEqual([
+      { kind: "references", recid: "2" },
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // The queue survives a restart
+    resetOfflineQueueState();
+    expect(await getOfflineQueue()).toHaveLength(1);
+  });
+
+  it("fetches queued references when going back online", async () => {
+    await queueOfflineFetch({ kind: "references", recid: "2" });
+    fetchMock.mockImplementation(async () =>
+      json({
+        metadata: {
+          references: [{ reference: { title: { title: "Fetched" } } }],
+        },
+      }),
+    );
+
+    setOfflineMode(false);
+    expect(await handleOfflineModeChange()).toEqual({ fetched: 1, failed: 0 });
+    expect(await getOfflineQueue()).toEqual([]);
+    await localCache.flushWrites();
+    const stored = await localCache.get("refs", "2");
+    expect(stored?.data[0].title).toBe("Fetched");
+    const saved = JSON.parse(decoder.decode(files.get(QUEUE_PATH)));
+    expect(saved).toEqual({ version: 1, requests: [] });
+  });
+});
@@ -0,0 +1,159 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// rateLimiter.test.ts - Unit tests for the INSPIRE rate limiter
+// Passive pass-through and the active-mode token bucket (priority queue,
+// abort while queued, pause after 429) run against a stubbed fetch and fake
+// timers.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+}));
+
+import {
+  RATE_LIMIT_MAX_REQUESTS,
+  RATE_LIMIT_WINDOW_MS,
+  getRateLimiterStatus,
+  inspireFetch,
+  onRateLimiterStatusChange,
+  resetRateLimiter,
+} from "../src/modules/inspire/rateLimiter";
+
+const TOKEN_MS = RATE_LIMIT_WINDOW_MS / RATE_LIMIT_MAX_REQUESTS;
+
+const fetchMock = vi.fn();
+
+function ok(): Response {
+  return { status: 200, ok: true, headers: new Headers() } as Response;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  prefs.clear();
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(async () => ok());
+  vi.stubGlobal("fetch", fetchMock);
+  vi.stubGlobal("Zotero", { debug: vi.fn() });
+  resetRateLimiter();
+});
+
+afterEach(() => {
+  resetRateLimiter();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+/** URLs in the order fetch saw them. */
+function fetchedUrls(): string[] {
+  return fetchMock.mock.calls.map((call) => call[0] as string);
+}
+
+describe("passive mode", () => {
+  it("passes requests straight through without a queue", async () => {
+    await Promise.all(
+      Array.from({ length: RATE_LIMIT_MAX_REQUESTS + 5 }, (_, i) =>
+        inspireFetch(`u${i}`, { requestPriority: "background" }),
+      ),
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(RATE_LIMIT_MAX_REQUESTS + 5);
+    // requestPriority is not forwarded to fetch, nor an empty signal
+    expect(fetchMock.mock.calls[0][1]).toEqual({});
+    expect(getRateLimiterStatus()).toMatchObject({
+      queuedCount: 0,
+      isThrottling: false,
+    });
+  });
+});
+
+describe("active mode", () => {
+  beforeEach(() => {
+    prefs.set("rate_limit_active_mode", true);
+  });
+
+  it("queues requests beyond the bucket and releases one per refill", async () => {
+    const requests = Array.from(
+      { length: RATE_LIMIT_MAX_REQUESTS + 2 },
+      (_, i) => inspireFetch(`u${i}`),
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(RATE_LIMIT_MAX_REQUESTS);
+    expect(getRateLimiterStatus()).toMatchObject({
+      queuedCount: 2,
+      availableTokens: 0,
+      isThrottling: true,
+    });
+    expect(getRateLimiterStatus().timeUntilNextToken).toBeGreaterThan(0);
+
+    await vi.advanceTimersByTimeAsync(TOKEN_MS + 1);
+    expect(fetchMock).toHaveBeenCalledTimes(RATE_LIMIT_MAX_REQUESTS + 1);
+    await vi.advanceTimersByTimeAsync(TOKEN_MS + 1);
+    await Promise.all(requests);
+    expect(getRateLimiterStatus()).toMatchObject({
+      queuedCount: 0,
+      isThrottling: false,
+    });
+  });
+
+  it("serves interactive requests before earlier background ones", async () => {
+    const pending: Promise<Response>[] = [];
+    for (let i = 0; i < RATE_LIMIT_MAX_REQUESTS; i++) {
+      pending.push(inspireFetch(`fill${i}`));
+    }
+    pending.push(inspireFetch("bg1", { requestPriority: "background" }));
+    pending.push(inspireFetch("bg2", { requestPriority: "background" }));
+    pending.push(inspireFetch("normal"));
+    pending.push(inspireFetch("panel", { requestPriority: "interactive" }));
+
+    await vi.advanceTimersByTimeAsync(4 * TOKEN_MS + 10);
+    await Promise.all(pending);
+    expect(fetchedUrls().slice(RATE_LIMIT_MAX_REQUESTS)).toEqual([
+      "panel",
+      "normal",
+      "bg1",
+      "bg2",
+    ]);
+  });
+
+  it("rejects queued requests with AbortError when aborted", async () => {
+    for (let i = 0; i < RATE_LIMIT_MAX_REQUESTS; i++) {
+      void inspireFetch(`fill${i}`);
+    }
+    const controller = new AbortController();
+    const queued = inspireFetch("late", { signal: controller.signal });
+    const statuses: number[] = [];
+    const unsubscribe = onRateLimiterStatusChange((status) =>
+      statuses.push(status.queuedCount),
+    );
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+    expect(statuses).toEqual([0]);
+    unsubscribe();
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_WINDOW_MS);
+    expect(fetchedUrls()).not.toContain("late");
+  });
+
+  it("empties the bucket after a 429 until Retry-After has passed", async () => {
+    fetchMock.mockImplementationOnce(
+      async () =>
+        ({
+          status: 429,
+          ok: false,
+          headers: new Headers({ "Retry-After": "2" }),
+        }) as Response,
+    );
+    const first = inspireFetch("limited");
+    await vi.advanceTimersByTimeAsync(0);
+    const second = inspireFetch("other");
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchedUrls()).toEqual(["limited"]);
+
+    await vi.advanceTimersByTimeAsync(1000 + 2 * TOKEN_MS + 10);
+    await Promise.all([first, second]);
+    // The retry queues behind the request that was already waiting
+    expect(fetchedUrls()).toEqual(["limited", "other", "limited"]);
+  });
+});
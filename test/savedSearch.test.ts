@@ -0,0 +1,177 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// savedSearch.test.ts - Unit tests for saved searches and new-result alerts
+// Storage runs against an in-memory prefs map; checks diff the hits of a
+// stubbed INSPIRE search against the previous check.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const prefs = new Map<string, unknown>();
+vi.mock("../src/utils/prefs", () => ({
+  getPref: (key: string) => prefs.get(key),
+  setPref: (key: string, value: unknown) => prefs.set(key, value),
+}));
+
+const inspireFetch = vi.fn();
+vi.mock("../src/modules/inspire/rateLimiter", () => ({
+  inspireFetch: (...args: unknown[]) => inspireFetch(...args),
+}));
+
+import {
+  acknowledgeSavedSearch,
+  addSavedSearch,
+  checkSavedSearch,
+  findSavedSearch,
+  getSavedSearches,
+  onSavedSearchesChange,
+  removeSavedSearch,
+  runSavedSearchAlerts,
+  updateSavedSearch,
+} from "../src/modules/inspire/savedSearchService";
+
+const HOUR = 60 * 60 * 1000;
+
+/** Current INSPIRE hits of every query, newest first */
+let hits: string[];
+
+function respondWithHits() {
+  inspireFetch.mockImplementation(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      hits: {
+        total: hits.length,
+        hits: hits.map((recid) => ({
+          id: recid,
+          metadata: { control_number: Number(recid) },
+        })),
+      },
+    }),
+  }));
+}
+
+beforeEach(() => {
+  prefs.clear();
+  hits = [];
+  inspireFetch.mockReset();
+  respondWithHits();
+  vi.stubGlobal("Zotero", { debug: vi.fn() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("saved search storage", () => {
+  it("adds, finds, updates and removes searches and notifies listeners", () => {
+    const listener = vi.fn();
+    const unsubscribe = onSavedSearchesChange(listener);
+
+    const search = addSavedSearch("a Witten and t gauge", {
+      name: "Witten gauge",
+      sort: "mostcited",
+    });
+    expect(search).toMatchObject({
+      name: "Witten gauge",
+      query: "a Witten and t gauge",
+      sort: "mostcited",
+      pinned: true,
+      alert: false,
+    });
+    expect(findSavedSearch("  A witten  and t GAUGE ")?.id).toBe(search.id);
+
+    // Saving the same query again renames it instead of duplicating it
+    addSavedSearch("a witten and t gauge", { name: "", sort: "mostrecent" });
+    expect(getSavedSearches()).toHaveLength(1);
+    expect(getSavedSearches()[0]).toMatchObject({
+      name: "a witten and t gauge",
+      sort: "mostrecent",
+    });
+
+    updateSavedSearch(search.id, { pinned: false });
+    expect(getSavedSearches()[0].pinned).toBe(false);
+    removeSavedSearch(search.id);
+    expect(getSavedSearches()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(4);
+
+    unsubscribe();
+    addSavedSearch("t axion", { sort: "mostrecent" });
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it("ignores malformed pref values", () => {
+    prefs.set("saved_searches", "{not json");
+    expect(getSavedSearches()).toEqual([]);
+    prefs.set("saved_searches", JSON.stringify([{ name: "x" }, 3]));
+    expect(getSavedSearches()).toEqual([]);
+  });
+});
+
+describe("checkSavedSearch", () => {
+  it("records a baseline first, then reports hits not seen before", async () => {
+    const search = addSavedSearch("t axion", { sort: "mostrecent" });
+    hits = ["3", "2", "1"];
+    expect(await checkSavedSearch(search, { now: 1000 })).toEqual([]);
+
+    const url = decodeURIComponent(inspireFetch.mock.calls[0][0] as string);
+    expect(url).toContain("q=t axion");
+    expect(url).toContain("sort=mostrecent");
+
+    hits = ["5", "4", "3", "2", "1"];
+    const found = await checkSavedSearch(getSavedSearches()[0], { now: 2000 });
+    expect(found).toEqual(["5", "4"]);
+
+    // New hits accumulate until the search is opened
+    hits = ["6", "5", "4", "3", "2", "1"];
+    await checkSavedSearch(getSavedSearches()[0], { now: 3000 });
+    expect(getSavedSearches()[0]).toMatchObject({
+      lastCheckedAt: 3000,
+      newRecids: ["6", "5", "4"],
+    });
+
+    acknowledgeSavedSearch(search.id);
+    expect(getSavedSearches()[0].newRecids).toEqual([]);
+  });
+});
+
+describe("runSavedSearchAlerts", () => {
+  it("checks due searches with alerts and reports new hits", async () => {
+    const now = 100 * HOUR;
+    const watched = addSavedSearch("t axion", {
+      sort: "mostrecent",
+      alert: true,
+    });
+    addSavedSearch("t neutrino", { sort: "mostrecent" });
+    updateSavedSearch(watched.id, {
+      lastCheckedAt: now - 25 * HOUR,
+      lastHitRecids: ["1"],
+    });
+    hits = ["2", "1"];
+
+    const alerts = await runSavedSearchAlerts({ now });
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+    expect(alerts).toEqual([
+      { search: expect.objectContaining({ id: watched.id }), newCount: 1 },
+    ]);
+
+    // Not due again until the interval has passed
+    expect(await runSavedSearchAlerts({ now: now + HOUR })).toEqual([]);
+    expect(inspireFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing when disabled or offline, and survives failed checks", async () => {
+    addSavedSearch("t axion", { sort: "mostrecent", alert: true });
+
+    prefs.set("saved_search_alerts_enabled", false);
+    await runSavedSearchAlerts();
+    prefs.set("saved_search_alerts_enabled", true);
+    prefs.set("offline_mode", true);
+    await runSavedSearchAlerts();
+    expect(inspireFetch).not.toHaveBeenCalled();
+
+    prefs.set("offline_mode", false);
+    inspireFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    expect(await runSavedSearchAlerts()).toEqual([]);
+    expect(getSavedSearches()[0].lastCheckedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// searchSyntax.test.ts - Unit tests for the INSPIRE query validator
+// Covers tokenizing with offsets, reporting syntax errors at their position,
+// field-name completion and serializing the advanced search form.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect } from "vitest";
+import { parseSearchQuery } from "../src/modules/inspire/searchQuery";
+import {
+  buildSearchQuery,
+  completeSearchField,
+  tokenizeSearchQuery,
+  validateSearchQuery,
+} from "../src/modules/inspire/searchSyntax";
+
+function codes(query: string) {
+  return validateSearchQuery(query).map((issue) => [issue.code, issue.text]);
+}
+
+describe("tokenizeSearchQuery", () => {
+  it("keeps offsets of words, phrases and parentheses", () => {
+    expect(tokenizeSearchQuery(`t:"dark matter" (a O'Raifeartaigh)`)).toEqual([
+      { type: "word", text: "t:", start: 0, end: 2 },
+      { type: "quoted", text: "dark matter", start: 2, end: 15 },
+      { type: "open", text: "(", start: 16, end: 17 },
+      { type: "word", text: "a", start: 17, end: 18 },
+      { type: "word", text: "O'Raifeartaigh", start: 19, end: 33 },
+      { type: "close", text: ")", start: 33, end: 34 },
+    ]);
+    expect(tokenizeSearchQuery(`t "dark`)[1]).toMatchObject({
+      type: "quoted",
+      text: "dark",
+      unclosed: true,
+    });
+  });
+});
+
+describe("validateSearchQuery", () => {
+  it("accepts well-formed queries", () => {
+    for (const query of [
+      "find a witten and t gauge theory",
+      "date>2020 and topcite 500+",
+      "refersto:recid:451647 and not cn atlas",
+      "citedby:recid:123 or (a maldacena and date 1997->1999)",
+      'fulltext "dark photon" and j Phys.Rev.D,105',
+      "eprint arXiv:2101.00001",
+      "H->gamma gamma",
+      "date after 2019-05",
+    ]) {
+      expect(validateSearchQuery(query), query).toEqual([]);
+    }
+  });
+
+  it("reads keywords the same way as the local search parser", () => {
+    for (const query of ["de 2019", "date>=2020", "ea witten", "topcit>500"]) {
+      expect(validateSearchQuery(query), query).toEqual([]);
+      expect(parseSearchQuery(query), query).not.toBeNull();
+    }
+    expect(parseSearchQuery("de 2019")?.groups[0][0]).toMatchObject({
+      field: "date",
+      range: { min: 2019, max: 2019 },
+    });
+    // Valid INSPIRE keywords the local index cannot answer
+    for (const query of ["jy 2020", "exp ATLAS", "cn:atlas"]) {
+      expect(validateSearchQuery(query), query).toEqual([]);
+      expect(parseSearchQuery(query), query).toBeNull();
+    }
+  });
+
+  it("reports unknown fields and bad values at their position", () => {
+    const [issue] = validateSearchQuery("a witten and tilte:gauge");
+    expect(issue).toEqual({
+      code: "unknown-field",
+      start: 13,
+      end: 18,
+      text: "tilte",
+    });
+    expect(codes("date>20x0")).toEqual([["invalid-range", ">20x0"]]);
+    expect(codes("topcite lots")).toEqual([["invalid-range", "lots"]]);
+    expect(codes("refersto:recid:abc")).toEqual([
+      ["invalid-recid", "recid:abc"],
+    ]);
+    expect(codes("a witten and t")).toEqual([["missing-value", "t"]]);
+  });
+
+  it("reports dangling operators, quotes and parentheses", () => {
+    expect(codes("and a witten")).toEqual([["dangling-operator", "and"]]);
+    expect(codes("a witten and or t gauge")).toEqual([
+      ["dangling-operator", "or"],
+    ]);
+    expect(codes("a witten and")).toEqual([["dangling-operator", "and"]]);
+    expect(codes('t "dark matter')).toEqual([
+      ["unclosed-quote", '"dark matter'],
+    ]);
+    expect(codes("(a witten or a maldacena")).toEqual([
+      ["unbalanced-paren", "("],
+    ]);
+    expect(codes("a witten)")).toEqual([["unbalanced-paren", ")"]]);
+  });
+});
+
+describe("completeSearchField", () => {
+  it("completes field names in keyword position", () => {
+    expect(completeSearchField("tit")).toBe("title ");
+    expect(completeSearchField("find a witten and top")).toBe(
+      "find a witten and topcite ",
+    );
+    expect(completeSearchField("a witten and not coll")).toBe(
+      "a witten and not collaboration ",
+    );
+    expect(completeSearchField("(refe")).toBe("(refersto:recid:");
+  });
+
+  it("leaves values and existing keywords alone", () => {
+    expect(completeSearchField("t dark ma")).toBeNull();
+    expect(completeSearchField("a witten and au")).toBeNull();
+    expect(completeSearchField("a witten and x")).toBeNull();
+    expect(completeSearchField("a witten and zz")).toBeNull();
+  });
+});
+
+describe("buildSearchQuery", () => {
+  it("serializes the advanced search form into a valid query", () => {
+    const query = buildSearchQuery({
+      author: "Witten, E; Maldacena",
+      title: "black holes and strings",
+      journal: "Phys.Rev.D",
+      dateFrom: "2015",
+      dateTo: "2020",
+      minCitations: "100",
+      refersTo: "451647",
+    });
+    expect(query).toBe(
+      'a Witten, E and a Maldacena and t "black holes and strings" and ' +
+        "j Phys.Rev.D and date 2015->2020 and topcite 100+ and " +
+        "refersto:recid:451647",
+    );
+    expect(validateSearchQuery(query)).toEqual([]);
+  });
+
+  it("combines with or and leaves out empty fields", () => {
+    expect(
+      buildSearchQuery({
+        title: " dark  matter ",
+        eprint: "",
+        dateTo: "2010",
+        citedBy: "12",
+        match: "any",
+      }),
+    ).toBe("t dark matter or date <= 2010 or citedby:recid:12");
+    expect(buildSearchQuery({})).toBe("");
+    expect(validateSearchQuery(buildSearchQuery({ dateFrom: "soon" }))).toEqual(
+      [expect.objectContaining({ code: "invalid-range" })],
+    );
+  });
+});
@@ -0,0 +1,334 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// undoJournal.test.ts - Unit tests for the batch undo journal
+// Snapshots, diffs, recording and rollback run against fake items and an
+// in-memory IOUtils; no Zotero profile is touched.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  UndoBatchRecorder,
+  diffSnapshots,
+  getLastUndoableBatch,
+  listUndoBatches,
+  snapshotItem,
+  undoLastBatch,
+} from "../src/modules/inspire/undoJournal";
+import { stubMemoryJSONFiles, stubZotero } from "./helpers/memoryFileSystem";
+
+type FakeItem = ReturnType<typeof makeItem>;
+
+function makeItem(key: string, fields: Record<string, string>, id = 1) {
+  const item = {
+    id,
+    key,
+    libraryID: 1,
+    deleted: false,
+    itemType: "journalArticle",
+    fields: { ...fields },
+    creators: [] as any[],
+    tags: [] as Array<{ tag: string; type?: number }>,
+    toJSON() {
+      return {
+        key: item.key,
+        version: 3,
+        itemType: item.itemType,
+        ...item.fields,
+        creators: item.creators,
+        tags: item.tags,
+        collections: [],
+        relations: {},
+      };
+    },
+    get itemTypeID() {
+      return item.itemType;
+    },
+    getField: (field: string) => item.fields[field] ?? "",
+    setField: (field: string, value: string) => {
+      item.fields[field] = value;
+    },
+    setType: (type: string) => {
+      item.itemType = type;
+      if (type === "preprint") delete item.fields.publicationTitle;
+    },
+    setCreators: (creators: any[]) => {
+      item.creators = creators;
+    },
+    setTags: (tags: Array<{ tag: string; type?: number }>) => {
+      item.tags = tags;
+    },
+    saveTx: vi.fn(async () => id),
+  };
+  return item;
+}
+
+/** Items created by undo, in creation order. */
+class CreatedItem {
+  static all: CreatedItem[] = [];
+  id = 0;
+  libraryID = 0;
+  key = "";
+  parentID?: number;
+  json: Record<string, unknown> = {};
+  constructor(readonly itemType: string) {
+    CreatedItem.all.push(this);
+  }
+  fromJSON(json: Record<string, unknown>) {
+    this.json = json;
+  }
+  saveTx = vi.fn(async () => {
+    this.id = 100 + CreatedItem.all.indexOf(this);
+    return this.id;
+  });
+}
+
+const files = new Map<string, unknown>();
+let items: Map<string, FakeItem>;
+
+beforeEach(() => {
+  files.clear();
+  items = new Map();
+  CreatedItem.all = [];
+  stubMemoryJSONFiles(files);
+  stubZotero({
+    Item: CreatedItem,
+    Items: {
+      getByLibraryAndKeyAsync: async (_libraryID: number, key: string) =>
+        items.get(key) ?? false,
+    },
+    ItemTypes: { getID: (name: string) => name },
+    ItemFields: {
+      getID: (field: string) => field,
+      isValidForType: (field: string, type: string) =>
+        !(type === "preprint" && field === "publicationTitle"),
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("snapshotItem / diffSnapshots", () => {
+  it("reports changed fields with before and after values", () => {
+    const item = makeItem("AAAA1111", { title: "Old", DOI: "" });
+    const before = snapshotItem(item as any);
+    item.fields.title = "New";
+    item.fields.DOI = "10.1/x";
+    const changes = diffSnapshots(before, snapshotItem(item as any));
+    expect(changes).toHaveLength(2);
+    expect(changes.find((c) => c.field === "title")).toMatchObject({
+      localValue: "Old",
+      inspireValue: "New",
+      category: "bibliographic",
+    });
+    expect(changes.find((c) => c.field === "DOI")?.category).toBe(
+      "identifiers",
+    );
+  });
+
+  it("ignores tag order and bookkeeping keys", () => {
+    const item = makeItem("AAAA1111", { title: "T" });
+    item.tags = [{ tag: "b" }, { tag: "a" }];
+    const before = snapshotItem(item as any);
+    item.tags = [{ tag: "a" }, { tag: "b" }];
+    expect(diffSnapshots(before, snapshotItem(item as any))).toEqual([]);
+    expect(before.key).toBeUndefined();
+    expect(before.version).toBeUndefined();
+  });
+
+  it("tracks the trash flag", () => {
+    const item = makeItem("AAAA1111", { title: "T" });
+    const before = snapshotItem(item as any);
+    item.deleted = true;
+    expect(diffSnapshots(before, snapshotItem(item as any))).toEqual([
+      expect.objectContaining({
+        field: "deleted",
+        localValue: "false",
+        inspireValue: "true",
+      }),
+    ]);
+  });
+});
+
+describe("UndoBatchRecorder", () => {
+  it("does not write batches without changes", async () => {
+    const item = makeItem("AAAA1111", { title: "T" });
+    const recorder = new UndoBatchRecorder("metadata_update");
+    recorder.before(item as any);
+    recorder.after(item as any);
+    expect(await recorder.commit()).toBeNull();
+    expect(await listUndoBatches()).toEqual([]);
+  });
+
+  it("keeps only the most recent batches", async () => {
+    const item = makeItem("AAAA1111", { title: "0" });
+    for (let i = 1; i <= 12; i++) {
+      const recorder = new UndoBatchRecorder("metadata_update");
+      recorder.before(item as any);
+      item.fields.title = String(i);
+      recorder.after(item as any);
+      await recorder.commit();
+    }
+    const batches = await listUndoBatches();
+    expect(batches).toHaveLength(10);
+    expect(batches[0].items[0].changes[0].inspireValue).toBe("12");
+  });
+});
+
+describe("undoLastBatch", () => {
+  it("restores the values from before the batch", async () => {
+    const item = makeItem("AAAA1111", { title: "Old", volume: "1" });
+    items.set(item.key, item);
+    const recorder = new UndoBatchRecorder("metadata_update");
+    recorder.before(item as any);
+    item.fields.title = "New";
+    item.fields.volume = "2";
+    item.tags = [{ tag: "ATLAS", type: 1 }];
+    recorder.after(item as any);
+    await recorder.commit();
+
+    const result = await undoLastBatch();
+    expect(result).toMatchObject({ restored: 1, conflicts: 0, missing: 0 });
+    expect(item.fields).toMatchObject({ title: "Old", volume: "1" });
+    expect(item.tags).toEqual([]);
+    expect(item.saveTx).toHaveBeenCalledTimes(1);
+    expect(await getLastUndoableBatch()).toBeNull();
+  });
+
+  it("keeps fields edited after the batch", async () => {
+    const item = makeItem("AAAA1111", { title: "Old", volume: "1" });
+    items.set(item.key, item);
+    const recorder = new UndoBatchRecorder("metadata_update");
+    recorder.before(item as any);
+    item.fields.title = "New";
+    item.fields.volume = "2";
+    recorder.after(item as any);
+    await recorder.commit();
+
+    item.fields.title = "Edited by hand";
+    const result = await undoLastBatch();
+    expect(result).toMatchObject({ restored: 1, conflicts: 1 });
+    expect(item.fields).toMatchObject({ title: "Edited by hand", volume: "1" });
+  });
+
+  it("restores the item type of an upgraded preprint", async () => {
+    const item = makeItem("AAAA1111", { title: "T", archiveID: "arXiv:1" });
+    item.itemType = "preprint";
+    items.set(item.key, item);
+    const recorder = new UndoBatchRecorder("preprint_upgrade");
+    recorder.before(item as any);
+    item.setType("journalArticle");
+    delete item.fields.archiveID;
+    item.fields.publicationTitle = "Phys. Rev. D";
+    recorder.after(item as any);
+    await recorder.commit();
+
+    const result = await undoLastBatch();
+    expect(result).toMatchObject({ restored: 1, conflicts: 0 });
+    expect(item.itemType).toBe("preprint");
+    expect(item.fields).toEqual({ title: "T", archiveID: "arXiv:1" });
+  });
+
+  it("recreates an erased item with its notes and linked attachments", async () => {
+    const children = new Map<number, { toJSON: () => Record<string, any> }>([
+      [
+        11,
+        {
+          toJSON: () => ({
+            key: "NOTE0001",
+            version: 3,
+            parentItem: "AAAA1111",
+            itemType: "note",
+            note: "<p>n</p>",
+            tags: [{ tag: "todo" }],
+            relations: { "dc:relation": ["http://zotero.org/users/1/items/X"] },
+          }),
+        },
+      ],
+      [
+        21,
+        {
+          toJSON: () => ({
+            key: "ATTACH01",
+            version: 4,
+            parentItem: "AAAA1111",
+            itemType: "attachment",
+            linkMode: "linked_url",
+            url: "https://arxiv.org/abs/1",
+          }),
+        },
+      ],
+      [
+        22,
+        {
+          toJSON: () => ({
+            key: "ATTACH02",
+            itemType: "attachment",
+            linkMode: "imported_file",
+            filename: "paper.pdf",
+          }),
+        },
+      ],
+    ]);
+    (Zotero as any).Items.get = (id: number) => children.get(id);
+    const item = Object.assign(makeItem("AAAA1111", { title: "T" }), {
+      isRegularItem: () => true,
+      getNotes: () => [11],
+      getAttachments: () => [21, 22],
+    });
+    const recorder = new UndoBatchRecorder("erase");
+    recorder.recordErase(item as any);
+    await recorder.commit();
+
+    const result = await undoLastBatch();
+    expect(result).toMatchObject({ restored: 1, missingAttachments: 1 });
+    const [parent, note, attachment] = CreatedItem.all;
+    expect(CreatedItem.all).toHaveLength(3);
+    expect(parent).toMatchObject({
+      itemType: "journalArticle",
+      key: "AAAA1111",
+    });
+    expect(note.parentID).toBe(parent.id);
+    expect(note.json).toEqual({
+      itemType: "note",
+      note: "<p>n</p>",
+      tags: [{ tag: "todo" }],
+      relations: { "dc:relation": ["http://zotero.org/users/1/items/X"] },
+    });
+    expect(attachment.parentID).toBe(parent.id);
+    expect(attachment.json).toEqual({
+      itemType: "attachment",
+      linkMode: "linked_url",
+      url: "https://arxiv.org/abs/1",
+    });
+  });
+
+  it("counts items that no longer exist", async () => {
+    const item = makeItem("AAAA1111", { title: "Old" });
+    const recorder = new UndoBatchRecorder("preprint_upgrade");
+    recorder.before(item as any);
+    item.fields.title = "New";
+    recorder.after(item as any);
+    await recorder.commit();
+
+    const result = await undoLastBatch();
+    expect(result).toMatchObject({ restored: 0, missing: 1 });
+  });
+
+  it("undoes batches newest first and returns null when none are left", async () => {
+    const item = makeItem("AAAA1111", { title: "A" });
+    items.set(item.key, item);
+    for (const title of ["B", "C"]) {
+      const recorder = new UndoBatchRecorder("metadata_update");
+      recorder.before(item as any);
+      item.fields.title = title;
+      recorder.after(item as any);
+      await recorder.commit();
+    }
+    await undoLastBatch();
+    expect(item.fields.title).toBe("B");
+    await undoLastBatch();
+    expect(item.fields.title).toBe("A");
+    expect(await undoLastBatch()).toBeNull();
+  });
+});
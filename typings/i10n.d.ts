@@ -3,8 +3,112 @@
 /* eslint-disable */
 // @ts-nocheck
 export type FluentMessageId =
+  | 'author-dashboard-arxiv-categories'
+  | 'author-dashboard-authorship'
+  | 'author-dashboard-citations'
+  | 'author-dashboard-citations-no-self'
+  | 'author-dashboard-citations-per-year'
+  | 'author-dashboard-citing-institutions'
+  | 'author-dashboard-citing-institutions-note'
+  | 'author-dashboard-close'
+  | 'author-dashboard-coauthors'
+  | 'author-dashboard-coauthors-note'
+  | 'author-dashboard-collaboration'
+  | 'author-dashboard-copied'
+  | 'author-dashboard-copy-csv'
+  | 'author-dashboard-export-csv'
+  | 'author-dashboard-export-failed'
+  | 'author-dashboard-export-title'
+  | 'author-dashboard-exported'
+  | 'author-dashboard-first-author'
+  | 'author-dashboard-g-index'
+  | 'author-dashboard-h-index'
+  | 'author-dashboard-i10-index'
+  | 'author-dashboard-loading'
+  | 'author-dashboard-open'
+  | 'author-dashboard-papers'
+  | 'author-dashboard-papers-per-year'
+  | 'author-dashboard-single-author'
+  | 'author-dashboard-small-group'
+  | 'author-dashboard-summary'
+  | 'author-dashboard-unavailable'
+  | 'author-feed-alert'
+  | 'cache-browser-age'
+  | 'cache-browser-close'
+  | 'cache-browser-complete'
+  | 'cache-browser-delete'
+  | 'cache-browser-delete-confirm'
+  | 'cache-browser-delete-confirm-offline'
+  | 'cache-browser-deleted'
+  | 'cache-browser-empty'
+  | 'cache-browser-expired'
+  | 'cache-browser-incomplete'
+  | 'cache-browser-loading'
+  | 'cache-browser-pin'
+  | 'cache-browser-pinned'
+  | 'cache-browser-refresh'
+  | 'cache-browser-refreshed'
+  | 'cache-browser-revalidate'
+  | 'cache-browser-revalidated'
+  | 'cache-browser-summary'
+  | 'cache-browser-title'
+  | 'cache-browser-ttl'
+  | 'cache-browser-ttl-permanent'
+  | 'cache-browser-type-author'
+  | 'cache-browser-type-author_papers'
+  | 'cache-browser-type-author_profile'
+  | 'cache-browser-type-citation_graph'
+  | 'cache-browser-type-cited'
+  | 'cache-browser-type-crossref'
+  | 'cache-browser-type-preprint'
+  | 'cache-browser-type-preprintCandidates'
+  | 'cache-browser-type-refs'
+  | 'cache-browser-type-related'
+  | 'cache-browser-usage'
+  | 'cache-browser-working'
+  | 'cache-bundle-export-empty'
+  | 'cache-bundle-export-failed'
+  | 'cache-bundle-export-title'
+  | 'cache-bundle-exported'
+  | 'cache-bundle-filter'
+  | 'cache-bundle-import-failed'
+  | 'cache-bundle-import-title'
+  | 'cache-bundle-imported'
   | 'citation-graph-merge-no-selection'
   | 'citation-graph-merge-truncated'
+  | 'citation-inbox-alert'
+  | 'citation-inbox-check-now'
+  | 'citation-inbox-checked'
+  | 'citation-inbox-checking'
+  | 'citation-inbox-close'
+  | 'citation-inbox-collection-tracked'
+  | 'citation-inbox-collection-untracked'
+  | 'citation-inbox-empty'
+  | 'citation-inbox-group-count'
+  | 'citation-inbox-import'
+  | 'citation-inbox-import-tooltip'
+  | 'citation-inbox-in-library'
+  | 'citation-inbox-link'
+  | 'citation-inbox-link-tooltip'
+  | 'citation-inbox-linked'
+  | 'citation-inbox-loading'
+  | 'citation-inbox-mark-all-read'
+  | 'citation-inbox-mark-read'
+  | 'citation-inbox-menu-track'
+  | 'citation-inbox-menu-track-collection'
+  | 'citation-inbox-menu-untrack'
+  | 'citation-inbox-menu-untrack-collection'
+  | 'citation-inbox-not-found'
+  | 'citation-inbox-progress'
+  | 'citation-inbox-show-item'
+  | 'citation-inbox-show-read'
+  | 'citation-inbox-title'
+  | 'citation-inbox-tracked'
+  | 'citation-inbox-untracked'
+  | 'citation-refresh-excluded'
+  | 'citation-refresh-included'
+  | 'citation-refresh-menu-exclude'
+  | 'citation-refresh-menu-include'
   | 'citekey-inspire'
   | 'citekey-no'
   | 'collab-tag-disabled'
@@ -44,8 +148,23 @@ export type FluentMessageId =
   | 'funding-no-pdf'
   | 'funding-no-selection'
   | 'funding-some-unlinked'
+  | 'library-network-cited-by'
+  | 'library-network-cites'
+  | 'library-network-close'
+  | 'library-network-failed'
+  | 'library-network-isolated'
+  | 'library-network-isolated-count'
+  | 'library-network-loading'
+  | 'library-network-no-items'
+  | 'library-network-ranking'
+  | 'library-network-refs-missing'
+  | 'library-network-select-isolated'
+  | 'library-network-summary'
+  | 'library-network-title'
+  | 'library-network-truncated'
   | 'menuitem-cancel-update'
   | 'menuitem-citation-graph-merge'
+  | 'menuitem-citation-inbox'
   | 'menuitem-copy-bibtex'
   | 'menuitem-copy-citation-key'
   | 'menuitem-copy-funding'
@@ -54,16 +173,24 @@ export type FluentMessageId =
   | 'menuitem-copy-inspire-recid'
   | 'menuitem-copy-zotero-link'
   | 'menuitem-download-cache'
+  | 'menuitem-export-cache'
   | 'menuitem-favorite-paper'
+  | 'menuitem-import-cache'
   | 'menuitem-label'
+  | 'menuitem-library-network'
+  | 'menuitem-offline-disable'
+  | 'menuitem-offline-enable'
   | 'menuitem-submenulabel0'
   | 'menuitem-submenulabel1'
   | 'menuitem-submenulabel2'
+  | 'menuitem-undo-last-batch'
   | 'menupopup-label'
   | 'meta-citations'
   | 'meta-full'
   | 'meta-no'
   | 'meta-noabstract'
+  | 'offline-mode-queue-done'
+  | 'offline-mode-unavailable'
   | 'pane-item-references-header'
   | 'pane-item-references-sidenav'
   | 'pdf-annotate-ambiguous-cancel'
@@ -81,14 +208,39 @@ export type FluentMessageId =
   | 'pref-arxiv-in-journal-abbrev-desc'
   | 'pref-arxiv-tag'
   | 'pref-arxiv-tag1'
+  | 'pref-author-feed'
+  | 'pref-author-feed-enable'
+  | 'pref-author-feed-enable-desc'
+  | 'pref-author-feed-interval-label'
   | 'pref-chart-default-collapsed'
   | 'pref-chart-enable'
   | 'pref-chart-enable-desc'
   | 'pref-citation-graph-max-results-desc'
   | 'pref-citation-graph-max-results-label'
+  | 'pref-citation-inbox'
+  | 'pref-citation-inbox-author-desc'
+  | 'pref-citation-inbox-author-label'
+  | 'pref-citation-inbox-enable'
+  | 'pref-citation-inbox-enable-desc'
+  | 'pref-citation-inbox-interval-label'
+  | 'pref-citation-inbox-open'
+  | 'pref-citation-refresh'
+  | 'pref-citation-refresh-enable'
+  | 'pref-citation-refresh-enable-desc'
+  | 'pref-citation-refresh-interval-label'
+  | 'pref-citation-refresh-run'
+  | 'pref-citation-refresh-scope-desc'
+  | 'pref-citation-refresh-status-done'
+  | 'pref-citation-refresh-status-last'
+  | 'pref-citation-refresh-status-never'
+  | 'pref-citation-refresh-status-pending'
+  | 'pref-citation-refresh-status-running'
+  | 'pref-citation-refresh-status-stopped'
   | 'pref-citekey'
   | 'pref-cites-column-exclude-self'
   | 'pref-cites-column-exclude-self-desc'
+  | 'pref-cites-gained-days-desc'
+  | 'pref-cites-gained-days-label'
   | 'pref-collab-tag-auto'
   | 'pref-collab-tag-auto-desc'
   | 'pref-collab-tag-enable'
@@ -100,6 +252,28 @@ export type FluentMessageId =
   | 'pref-dev-panel-layout'
   | 'pref-dev-panel-layout-desc'
   | 'pref-enable'
+  | 'pref-external-access'
+  | 'pref-external-access-desc'
+  | 'pref-external-audit-desc'
+  | 'pref-external-audit-open'
+  | 'pref-external-audit-summary'
+  | 'pref-external-token-copy'
+  | 'pref-external-token-create'
+  | 'pref-external-token-created'
+  | 'pref-external-token-default-name'
+  | 'pref-external-token-meta'
+  | 'pref-external-token-name-label'
+  | 'pref-external-token-never'
+  | 'pref-external-token-none'
+  | 'pref-external-token-preset-attach-only'
+  | 'pref-external-token-preset-full'
+  | 'pref-external-token-preset-no-erase'
+  | 'pref-external-token-preset-read-only'
+  | 'pref-external-token-regenerate'
+  | 'pref-external-token-revoke'
+  | 'pref-external-token-revoke-confirm'
+  | 'pref-external-token-scopes'
+  | 'pref-external-token-unknown'
   | 'pref-extra-order'
   | 'pref-funding-china-only'
   | 'pref-funding-china-only-desc'
@@ -115,6 +289,11 @@ export type FluentMessageId =
   | 'pref-latex-mode-katex'
   | 'pref-latex-mode-unicode'
   | 'pref-local-cache'
+  | 'pref-local-cache-backend-desc'
+  | 'pref-local-cache-backend-files'
+  | 'pref-local-cache-backend-label'
+  | 'pref-local-cache-backend-pack'
+  | 'pref-local-cache-browse'
   | 'pref-local-cache-clear'
   | 'pref-local-cache-cleared'
   | 'pref-local-cache-compression'
@@ -131,17 +310,23 @@ export type FluentMessageId =
   | 'pref-local-cache-enrich-info'
   | 'pref-local-cache-enrich-parallel-label'
   | 'pref-local-cache-enrich-title'
+  | 'pref-local-cache-max-size-label'
+  | 'pref-local-cache-max-size-unit'
   | 'pref-local-cache-show-source'
   | 'pref-local-cache-stats'
   | 'pref-local-cache-ttl-desc'
   | 'pref-local-cache-ttl-label'
   | 'pref-local-cache-ttl-unit'
+  | 'pref-local-search-index'
+  | 'pref-local-search-index-desc'
   | 'pref-max-authors-desc'
   | 'pref-max-authors-label'
   | 'pref-meta'
   | 'pref-nofound'
   | 'pref-nofound-enable'
   | 'pref-nofound-tag-label'
+  | 'pref-offline-mode'
+  | 'pref-offline-mode-desc'
   | 'pref-pdf-force-mapping'
   | 'pref-pdf-force-mapping-desc'
   | 'pref-pdf-fuzzy-citation'
@@ -155,6 +340,8 @@ export type FluentMessageId =
   | 'pref-preprint-watch-notify-desc'
   | 'pref-preprint-watch-startup'
   | 'pref-preprint-watch-startup-desc'
+  | 'pref-rate-limit-active-mode'
+  | 'pref-rate-limit-active-mode-desc'
   | 'pref-reader-auto-reopen'
   | 'pref-reader-auto-reopen-desc'
   | 'pref-reader-history'
@@ -165,6 +352,10 @@ export type FluentMessageId =
   | 'pref-related-papers-exclude-reviews-desc'
   | 'pref-related-papers-max-results-desc'
   | 'pref-related-papers-max-results-label'
+  | 'pref-saved-search-alerts'
+  | 'pref-saved-search-alerts-enable'
+  | 'pref-saved-search-alerts-enable-desc'
+  | 'pref-saved-search-interval-label'
   | 'pref-search-history-clear'
   | 'pref-search-history-cleared'
   | 'pref-search-history-days-label'
@@ -206,12 +397,34 @@ export type FluentMessageId =
   | 'references-panel-abstract-copy-latex'
   | 'references-panel-abstract-copy-selection'
   | 'references-panel-abstract-latex-copied'
+  | 'references-panel-advanced-search-author'
+  | 'references-panel-advanced-search-cancel'
+  | 'references-panel-advanced-search-citedby'
+  | 'references-panel-advanced-search-clear'
+  | 'references-panel-advanced-search-collaboration'
+  | 'references-panel-advanced-search-date'
+  | 'references-panel-advanced-search-empty'
+  | 'references-panel-advanced-search-eprint'
+  | 'references-panel-advanced-search-fulltext'
+  | 'references-panel-advanced-search-heading'
+  | 'references-panel-advanced-search-journal'
+  | 'references-panel-advanced-search-match'
+  | 'references-panel-advanced-search-match-all'
+  | 'references-panel-advanced-search-match-any'
+  | 'references-panel-advanced-search-min-citations'
+  | 'references-panel-advanced-search-refersto'
+  | 'references-panel-advanced-search-submit'
+  | 'references-panel-advanced-search-title'
   | 'references-panel-author-advisors'
   | 'references-panel-author-bai-label'
   | 'references-panel-author-click-hint'
   | 'references-panel-author-copied'
   | 'references-panel-author-emails'
   | 'references-panel-author-empty'
+  | 'references-panel-author-feed-mark-all-read'
+  | 'references-panel-author-feed-mark-read'
+  | 'references-panel-author-feed-open-author'
+  | 'references-panel-author-feed-title'
   | 'references-panel-author-homepage-tooltip'
   | 'references-panel-author-inspire-tooltip'
   | 'references-panel-author-orcid-label'
@@ -261,6 +474,7 @@ export type FluentMessageId =
   | 'references-panel-cache-source-local'
   | 'references-panel-cache-source-local-expired'
   | 'references-panel-cache-source-memory'
+  | 'references-panel-cache-source-offline'
   | 'references-panel-chart-author-filter'
   | 'references-panel-chart-author-filter-tooltip'
   | 'references-panel-chart-by-citation'
@@ -297,17 +511,28 @@ export type FluentMessageId =
   | 'references-panel-citation-graph-back-tooltip'
   | 'references-panel-citation-graph-button'
   | 'references-panel-citation-graph-close'
+  | 'references-panel-citation-graph-cluster-summary'
+  | 'references-panel-citation-graph-cluster-unconnected'
   | 'references-panel-citation-graph-connections-count'
   | 'references-panel-citation-graph-connections-loading'
   | 'references-panel-citation-graph-connections-too-many'
   | 'references-panel-citation-graph-disabled-pdg'
   | 'references-panel-citation-graph-enrich-network-needed'
+  | 'references-panel-citation-graph-expand-failed'
+  | 'references-panel-citation-graph-expand-seed'
+  | 'references-panel-citation-graph-expanded-count'
+  | 'references-panel-citation-graph-expanding'
   | 'references-panel-citation-graph-export'
   | 'references-panel-citation-graph-export-bibtex'
   | 'references-panel-citation-graph-export-bibtex-no-recid'
   | 'references-panel-citation-graph-export-csv'
+  | 'references-panel-citation-graph-export-cytoscape'
+  | 'references-panel-citation-graph-export-dot'
+  | 'references-panel-citation-graph-export-edges-csv'
   | 'references-panel-citation-graph-export-failed'
   | 'references-panel-citation-graph-export-file-title'
+  | 'references-panel-citation-graph-export-gexf'
+  | 'references-panel-citation-graph-export-graphml'
   | 'references-panel-citation-graph-export-json'
   | 'references-panel-citation-graph-export-png'
   | 'references-panel-citation-graph-export-success'
@@ -316,6 +541,11 @@ export type FluentMessageId =
   | 'references-panel-citation-graph-forward-tooltip'
   | 'references-panel-citation-graph-hint'
   | 'references-panel-citation-graph-hint-multi'
+  | 'references-panel-citation-graph-layout'
+  | 'references-panel-citation-graph-layout-clustered'
+  | 'references-panel-citation-graph-layout-force'
+  | 'references-panel-citation-graph-layout-timeline'
+  | 'references-panel-citation-graph-layout-tooltip'
   | 'references-panel-citation-graph-load'
   | 'references-panel-citation-graph-load-failed'
   | 'references-panel-citation-graph-load-file-title'
@@ -325,6 +555,22 @@ export type FluentMessageId =
   | 'references-panel-citation-graph-no-graph'
   | 'references-panel-citation-graph-nodes-label'
   | 'references-panel-citation-graph-not-in-library'
+  | 'references-panel-citation-graph-path'
+  | 'references-panel-citation-graph-path-cited-by'
+  | 'references-panel-citation-graph-path-cites'
+  | 'references-panel-citation-graph-path-failed'
+  | 'references-panel-citation-graph-path-found'
+  | 'references-panel-citation-graph-path-import'
+  | 'references-panel-citation-graph-path-in-library'
+  | 'references-panel-citation-graph-path-limit'
+  | 'references-panel-citation-graph-path-need-two'
+  | 'references-panel-citation-graph-path-none'
+  | 'references-panel-citation-graph-path-pair'
+  | 'references-panel-citation-graph-path-searching'
+  | 'references-panel-citation-graph-path-show'
+  | 'references-panel-citation-graph-path-start'
+  | 'references-panel-citation-graph-path-title'
+  | 'references-panel-citation-graph-path-tooltip'
   | 'references-panel-citation-graph-save'
   | 'references-panel-citation-graph-save-as'
   | 'references-panel-citation-graph-save-dir-failed'
@@ -362,6 +608,7 @@ export type FluentMessageId =
   | 'references-panel-entry-back'
   | 'references-panel-entry-back-author'
   | 'references-panel-entry-back-tooltip'
+  | 'references-panel-entry-citation-path'
   | 'references-panel-entry-empty'
   | 'references-panel-entry-label-default'
   | 'references-panel-entry-select'
@@ -428,6 +675,10 @@ export type FluentMessageId =
   | 'references-panel-no-recid'
   | 'references-panel-no-recid-entries'
   | 'references-panel-no-title'
+  | 'references-panel-offline-indicator'
+  | 'references-panel-offline-indicator-tooltip'
+  | 'references-panel-offline-missing'
+  | 'references-panel-offline-search'
   | 'references-panel-open-link'
   | 'references-panel-pdf-find'
   | 'references-panel-pdf-finding'
@@ -465,18 +716,50 @@ export type FluentMessageId =
   | 'references-panel-quick-filter-related-tooltip'
   | 'references-panel-quick-filters'
   | 'references-panel-rate-limit-queued'
+  | 'references-panel-rate-limit-retrying'
   | 'references-panel-rate-limit-tooltip'
   | 'references-panel-reader-mode'
   | 'references-panel-recid-found'
   | 'references-panel-refresh'
   | 'references-panel-related-badge-tooltip'
+  | 'references-panel-saved-search-add-tooltip'
+  | 'references-panel-saved-search-added'
+  | 'references-panel-saved-search-alert-disable'
+  | 'references-panel-saved-search-alert-enable'
+  | 'references-panel-saved-search-alert-off'
+  | 'references-panel-saved-search-alert-on'
+  | 'references-panel-saved-search-delete'
+  | 'references-panel-saved-search-empty'
+  | 'references-panel-saved-search-empty-list'
+  | 'references-panel-saved-search-new'
+  | 'references-panel-saved-search-new-count'
+  | 'references-panel-saved-search-new-selected'
+  | 'references-panel-saved-search-new-tooltip'
+  | 'references-panel-saved-search-pin'
+  | 'references-panel-saved-search-prompt'
+  | 'references-panel-saved-search-prompt-title'
+  | 'references-panel-saved-search-remove-tooltip'
+  | 'references-panel-saved-search-removed'
+  | 'references-panel-saved-search-title'
+  | 'references-panel-saved-search-unpin'
+  | 'references-panel-search-advanced-tooltip'
   | 'references-panel-search-button-tooltip'
   | 'references-panel-search-clear-history'
   | 'references-panel-search-empty'
+  | 'references-panel-search-error-dangling-operator'
+  | 'references-panel-search-error-invalid-range'
+  | 'references-panel-search-error-invalid-recid'
+  | 'references-panel-search-error-missing-value'
+  | 'references-panel-search-error-unbalanced-paren'
+  | 'references-panel-search-error-unclosed-quote'
+  | 'references-panel-search-error-unknown-field'
   | 'references-panel-search-history-tooltip'
   | 'references-panel-search-label-default'
+  | 'references-panel-search-local-fallback'
+  | 'references-panel-search-local-pending'
   | 'references-panel-search-placeholder'
   | 'references-panel-search-prompt'
+  | 'references-panel-search-source-local'
   | 'references-panel-select-item'
   | 'references-panel-sort-default'
   | 'references-panel-sort-label'
@@ -513,6 +796,7 @@ export type FluentMessageId =
   | 'references-panel-toast-unlinked'
   | 'references-panel-unknown-author'
   | 'references-panel-year-unknown'
+  | 'saved-search-alert'
   | 'smart-update-auto-check-available'
   | 'smart-update-auto-check-changes'
   | 'smart-update-auto-check-dismiss'
@@ -543,7 +827,18 @@ export type FluentMessageId =
   | 'smart-update-value-empty'
   | 'startup-begin'
   | 'startup-finish'
+  | 'undo-confirm'
+  | 'undo-failed'
+  | 'undo-headline'
+  | 'undo-kind-collab-tags'
+  | 'undo-kind-erase'
+  | 'undo-kind-metadata-update'
+  | 'undo-kind-preprint-upgrade'
+  | 'undo-kind-trash'
+  | 'undo-nothing'
+  | 'undo-result'
   | 'update-cancelled'
   | 'update-cancelled-stats'
+  | 'update-resolving-identifiers'
   | 'zoteroinspire-copy-all-button'
   | 'zoteroinspire-refresh-button';
@@ -13,6 +13,7 @@ declare namespace _ZoteroTypes {
       "tag_enable": boolean;
       "extra_order": string;
       "cites_column_exclude_self": boolean;
+      "cites_gained_days": number;
       "arxiv_in_journal_abbrev": boolean;
       "arxiv_tag_enable": boolean;
       "max_authors": number;
@@ -25,6 +26,7 @@ declare namespace _ZoteroTypes {
       "citation_graph_max_results": number;
       "citation_graph_include_reviews": boolean;
       "external_token": string;
+      "external_tokens": string;
       "latex_render_mode": string;
       "search_history_days": number;
       "pdf_fuzzy_citation": boolean;
@@ -37,8 +39,13 @@ declare namespace _ZoteroTypes {
       "local_cache_show_source": boolean;
       "local_cache_custom_dir": string;
       "local_cache_compression": boolean;
+      "local_cache_backend": string;
+      "local_cache_max_size_mb": number;
       "local_cache_enrich_batch": number;
       "local_cache_enrich_parallel": number;
+      "offline_mode": boolean;
+      "local_search_index": boolean;
+      "rate_limit_active_mode": boolean;
       "smart_update_enable": boolean;
       "smart_update_show_preview": boolean;
       "smart_update_auto_check": boolean;
@@ -51,13 +58,28 @@ declare namespace _ZoteroTypes {
       "preprint_watch_auto_check": string;
       "preprint_watch_last_check": number;
       "preprint_watch_notify": boolean;
+      "citation_refresh_enabled": boolean;
+      "citation_refresh_interval_days": number;
+      "citation_refresh_collections": string;
+      "citation_refresh_last_run": number;
+      "saved_search_alerts_enabled": boolean;
+      "saved_search_check_interval_hours": number;
+      "author_feed_enabled": boolean;
+      "author_feed_check_interval_hours": number;
+      "citation_inbox_enabled": boolean;
+      "citation_inbox_check_interval_hours": number;
+      "citation_inbox_items": string;
+      "citation_inbox_collections": string;
+      "citation_inbox_author": string;
       "collab_tag_enable": boolean;
       "collab_tag_auto": boolean;
       "collab_tag_template": string;
       "funding_china_only": boolean;
       "favorite_authors": string;
+      "author_feed": string;
       "favorite_papers": string;
       "favorite_presentations": string;
+      "saved_searches": string;
     };
   }
 }